@@ -9,7 +9,7 @@ import { notFound } from "next/navigation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import Image from "next/image";
-import { Check, Package, Truck, Home, CheckCircle, XCircle, ExternalLink, Gift } from "lucide-react";
+import { Check, Package, Truck, Home, CheckCircle, XCircle, ExternalLink, Gift, Leaf } from "lucide-react";
 
 interface ShippingStep {
   key: string;
@@ -44,6 +44,15 @@ interface OrderWithTracking {
   giftRecipientName: string | null;
   giftRecipientEmail: string | null;
   hidePrice: boolean;
+  carbonOffsetKg: number | null;
+  carbonOffset: {
+    offsetAmountKg: number;
+    provider: string | null;
+    projectName: string | null;
+    certificateUrl: string | null;
+    providerReference: string | null;
+    purchasedAt: string;
+  } | null;
   items: Array<{
     id: string;
     title: string;
@@ -344,6 +353,69 @@ export default function OrderDetailPage() {
         </Card>
       )}
 
+      {/* Carbon Offset Certificate */}
+      {(order.carbonOffset || (!!order.carbonOffsetKg && order.status === "paid")) && (
+        <Card className="mb-6 border-green-200 bg-green-50/50 dark:border-green-900/50">
+          <CardHeader className="pb-3">
+            <div className="flex items-center gap-2">
+              <Leaf className="size-5 text-green-600 dark:text-green-400" />
+              <CardTitle className="text-lg text-green-800 dark:text-green-200">Carbon Offset</CardTitle>
+            </div>
+            {!order.carbonOffset && (
+              <CardDescription>
+                {order.carbonOffsetKg} kg CO2e is being offset. Your certificate will appear here shortly.
+              </CardDescription>
+            )}
+          </CardHeader>
+          {order.carbonOffset && (
+            <CardContent className="pt-0">
+              <div className="grid gap-3 text-sm md:grid-cols-2">
+                <div>
+                  <div className="font-medium text-green-800 dark:text-green-200">Offset</div>
+                  <div className="text-green-700 dark:text-green-300">
+                    {order.carbonOffset.offsetAmountKg} kg CO2e
+                  </div>
+                </div>
+                {order.carbonOffset.projectName && (
+                  <div>
+                    <div className="font-medium text-green-800 dark:text-green-200">Project</div>
+                    <div className="text-green-700 dark:text-green-300">
+                      {order.carbonOffset.projectName}
+                      {order.carbonOffset.provider && ` via ${order.carbonOffset.provider}`}
+                    </div>
+                  </div>
+                )}
+                {order.carbonOffset.providerReference && (
+                  <div>
+                    <div className="font-medium text-green-800 dark:text-green-200">Certificate</div>
+                    <div className="font-mono text-green-700 dark:text-green-300">
+                      {order.carbonOffset.providerReference}
+                    </div>
+                  </div>
+                )}
+                <div>
+                  <div className="font-medium text-green-800 dark:text-green-200">Purchased</div>
+                  <div className="text-green-700 dark:text-green-300">
+                    {format(new Date(order.carbonOffset.purchasedAt), "MMMM d, yyyy")}
+                  </div>
+                </div>
+              </div>
+              {order.carbonOffset.certificateUrl && (
+                <a
+                  href={order.carbonOffset.certificateUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="mt-4 inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                >
+                  View Certificate
+                  <ExternalLink className="size-3" />
+                </a>
+              )}
+            </CardContent>
+          )}
+        </Card>
+      )}
+
       {/* Customer & Shipping Info */}
       <Card className="mb-6">
         <CardContent className="pt-6">
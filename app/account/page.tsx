@@ -13,7 +13,8 @@ import {
   TrendingUp,
   ChevronRight,
   Loader2,
-  RefreshCw
+  RefreshCw,
+  Recycle
 } from "lucide-react";
 
 const accountLinks = [
@@ -35,6 +36,12 @@ const accountLinks = [
     href: "/account/loyalty",
     icon: Trophy,
   },
+  {
+    title: "TerraCycle Recycling",
+    description: "Request free recycling labels and track your shipments",
+    href: "/account/terracycle",
+    icon: Recycle,
+  },
   {
     title: "Order History",
     description: "View and track your orders",
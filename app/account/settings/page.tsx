@@ -9,6 +9,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TwoFactorSettings } from "@/components/authentication/two-factor-settings";
+import { LinkedAccountsSettings } from "@/components/authentication/linked-accounts-settings";
 import { toast } from "sonner";
 import { User, Lock, AlertTriangle, Loader2, Check, ArrowLeft } from "lucide-react";
 
@@ -20,6 +22,7 @@ interface UserProfile {
   role: string;
   createdAt: string;
   bio: string | null;
+  birthday: string | null;
 }
 
 export default function AccountSettingsPage() {
@@ -33,6 +36,7 @@ export default function AccountSettingsPage() {
   const [savingProfile, setSavingProfile] = useState(false);
   const [profileName, setProfileName] = useState("");
   const [profileEmail, setProfileEmail] = useState("");
+  const [profileBirthday, setProfileBirthday] = useState("");
 
   // Password state
   const [currentPassword, setCurrentPassword] = useState("");
@@ -48,6 +52,15 @@ export default function AccountSettingsPage() {
   // CSRF token state
   const [csrfToken, setCsrfToken] = useState<string | null>(null);
 
+  const [activeTab, setActiveTab] = useState("profile");
+
+  useEffect(() => {
+    // The admin dashboard sends unenrolled staff here with ?twoFactor=required
+    if (new URLSearchParams(window.location.search).get("twoFactor") === "required") {
+      setActiveTab("security");
+    }
+  }, []);
+
   const fetchCsrfToken = useCallback(async () => {
     try {
       const response = await fetch("/api/csrf");
@@ -78,6 +91,7 @@ export default function AccountSettingsPage() {
       setProfile(data.data);
       setProfileName(data.data.name || "");
       setProfileEmail(data.data.email || "");
+      setProfileBirthday(data.data.birthday || "");
     } catch (error) {
       toast.error("Failed to load profile");
     } finally {
@@ -96,13 +110,16 @@ export default function AccountSettingsPage() {
     setSavingProfile(true);
 
     try {
-      const updateData: { name?: string; email?: string } = {};
+      const updateData: { name?: string; email?: string; birthday?: string | null } = {};
       if (profileName.trim() && profileName !== profile?.name) {
         updateData.name = profileName.trim();
       }
       if (profileEmail.trim() && profileEmail !== profile?.email) {
         updateData.email = profileEmail.trim();
       }
+      if (profileBirthday !== (profile?.birthday || "")) {
+        updateData.birthday = profileBirthday || null;
+      }
 
       if (Object.keys(updateData).length === 0) {
         toast.info("No changes to save");
@@ -282,7 +299,7 @@ export default function AccountSettingsPage() {
         </p>
       </div>
 
-      <Tabs defaultValue="profile" className="space-y-6">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
         <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="profile" className="flex items-center gap-2">
             <User className="size-4" />
@@ -339,6 +356,19 @@ export default function AccountSettingsPage() {
                       </p>
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="birthday">Birthday</Label>
+                      <Input
+                        id="birthday"
+                        type="date"
+                        value={profileBirthday}
+                        onChange={(e) => setProfileBirthday(e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Bloom and Flourish members receive bonus points on their birthday
+                      </p>
+                    </div>
+
                     {profile && (
                       <div className="border-t pt-4">
                         <div className="grid grid-cols-2 gap-4 text-sm">
@@ -377,7 +407,7 @@ export default function AccountSettingsPage() {
         </TabsContent>
 
         {/* Security Tab */}
-        <TabsContent value="security">
+        <TabsContent value="security" className="space-y-6">
           <Card>
             <CardHeader>
               <CardTitle>Change Password</CardTitle>
@@ -438,6 +468,10 @@ export default function AccountSettingsPage() {
               </form>
             </CardContent>
           </Card>
+
+          <TwoFactorSettings csrfToken={csrfToken} />
+
+          <LinkedAccountsSettings csrfToken={csrfToken} />
         </TabsContent>
 
         {/* Danger Zone Tab */}
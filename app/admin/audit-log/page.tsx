@@ -0,0 +1,338 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Download, Search } from 'lucide-react';
+
+interface AuditLogEntry {
+  id: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  actorUserId: string | null;
+  actorEmail: string | null;
+  changes: string | null;
+  requestId: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+  total: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+type FieldChanges = Record<string, { before: unknown; after: unknown }>;
+
+const EMPTY_FILTERS = {
+  action: '',
+  entityType: '',
+  entityId: '',
+  actor: '',
+  from: '',
+  to: '',
+};
+
+// Entity types the audited routes record (see lib/audit-log.ts)
+const ENTITY_TYPES = [
+  'Order',
+  'Product',
+  'PromoCode',
+  'Review',
+  'ShippingZone',
+  'GiftCard',
+  'LoyaltyPoints',
+  'StripeWebhookEvent',
+  'TerraCycleSubmission',
+];
+
+function buildQuery(filters: typeof EMPTY_FILTERS, extra: Record<string, string>): string {
+  const params = new URLSearchParams(extra);
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim());
+  }
+  return params.toString();
+}
+
+function parseChanges(changes: string | null): FieldChanges {
+  if (!changes) return {};
+  try {
+    return JSON.parse(changes) as FieldChanges;
+  } catch {
+    return {};
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export default function AdminAuditLogPage() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState(EMPTY_FILTERS);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/audit-logs?${buildQuery(filters, { page: String(page) })}`);
+      const responseData = await res.json().catch(() => null);
+
+      if (res.ok) {
+        setEntries(responseData?.data || []);
+        setPagination(responseData?.meta?.pagination || null);
+        setError(null);
+      } else {
+        setError(responseData?.error?.message || 'Failed to load audit log');
+      }
+    } catch (err) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to fetch audit log:', err);
+      }
+      setError('Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  function updateDraft(field: keyof typeof EMPTY_FILTERS, value: string) {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  }
+
+  function applyFilters(e: React.FormEvent) {
+    e.preventDefault();
+    setPage(1);
+    setFilters(draft);
+  }
+
+  function resetFilters() {
+    setDraft(EMPTY_FILTERS);
+    setPage(1);
+    setFilters(EMPTY_FILTERS);
+  }
+
+  const exportUrl = `/api/audit-logs?${buildQuery(filters, { format: 'csv' })}`;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Audit Log</h1>
+          <p className="mt-2 text-muted-foreground">
+            Who changed what across orders, products, promotions and gift cards
+          </p>
+        </div>
+        <a
+          href={exportUrl}
+          className="inline-flex items-center gap-2 rounded-lg border border-border px-4 py-2 text-sm font-medium text-foreground hover:bg-muted"
+        >
+          <Download className="size-4" />
+          Export CSV
+        </a>
+      </div>
+
+      {/* Filters */}
+      <form onSubmit={applyFilters} className="rounded-lg bg-card p-4 shadow">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <input
+            type="text"
+            placeholder="Action (e.g. order.refund)"
+            value={draft.action}
+            onChange={(e) => updateDraft('action', e.target.value)}
+            className="rounded-lg border border-border px-4 py-2 focus:border-transparent focus:ring-2 focus:ring-ring"
+          />
+          <select
+            value={draft.entityType}
+            onChange={(e) => updateDraft('entityType', e.target.value)}
+            className="rounded-lg border border-border px-4 py-2 focus:border-transparent focus:ring-2 focus:ring-ring"
+          >
+            <option value="">All entity types</option>
+            {ENTITY_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Entity ID"
+            value={draft.entityId}
+            onChange={(e) => updateDraft('entityId', e.target.value)}
+            className="rounded-lg border border-border px-4 py-2 focus:border-transparent focus:ring-2 focus:ring-ring"
+          />
+          <input
+            type="text"
+            placeholder="Actor email or user ID"
+            value={draft.actor}
+            onChange={(e) => updateDraft('actor', e.target.value)}
+            className="rounded-lg border border-border px-4 py-2 focus:border-transparent focus:ring-2 focus:ring-ring"
+          />
+          <input
+            type="date"
+            aria-label="From date"
+            value={draft.from}
+            onChange={(e) => updateDraft('from', e.target.value)}
+            className="rounded-lg border border-border px-4 py-2 focus:border-transparent focus:ring-2 focus:ring-ring"
+          />
+          <input
+            type="date"
+            aria-label="To date"
+            value={draft.to}
+            onChange={(e) => updateDraft('to', e.target.value)}
+            className="rounded-lg border border-border px-4 py-2 focus:border-transparent focus:ring-2 focus:ring-ring"
+          />
+        </div>
+        <div className="mt-4 flex gap-3">
+          <button
+            type="submit"
+            className="inline-flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90"
+          >
+            <Search className="size-4" />
+            Apply filters
+          </button>
+          <button
+            type="button"
+            onClick={resetFilters}
+            className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-foreground hover:bg-muted"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-800 dark:bg-red-950/40 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {/* Entries */}
+      <div className="overflow-hidden rounded-lg bg-card shadow">
+        <table className="min-w-full divide-y divide-border">
+          <thead className="bg-muted">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                When
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Actor
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Action
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Entity
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Request
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border bg-card">
+            {loading ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-muted-foreground">
+                  Loading audit log...
+                </td>
+              </tr>
+            ) : entries.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-muted-foreground">
+                  No audit entries found
+                </td>
+              </tr>
+            ) : (
+              entries.map((entry) => {
+                const changes = parseChanges(entry.changes);
+                const fields = Object.keys(changes);
+                const expanded = expandedId === entry.id;
+
+                return (
+                  <tr
+                    key={entry.id}
+                    onClick={() => setExpandedId(expanded ? null : entry.id)}
+                    className="cursor-pointer align-top hover:bg-muted"
+                  >
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-muted-foreground">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-foreground">
+                      {entry.actorEmail || entry.actorUserId || 'Guest'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className="rounded bg-muted px-2 py-1 font-mono text-xs text-foreground">
+                        {entry.action}
+                      </span>
+                      {fields.length > 0 && (
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          {fields.length} field{fields.length === 1 ? '' : 's'} changed
+                        </p>
+                      )}
+                      {expanded && fields.length > 0 && (
+                        <dl className="mt-2 space-y-1 text-xs">
+                          {fields.map((field) => (
+                            <div key={field}>
+                              <dt className="font-semibold text-foreground">{field}</dt>
+                              <dd className="break-all text-muted-foreground">
+                                {formatValue(changes[field].before)} → {formatValue(changes[field].after)}
+                              </dd>
+                            </div>
+                          ))}
+                        </dl>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-foreground">
+                      {entry.entityType}
+                      <span className="block font-mono text-xs text-muted-foreground">{entry.entityId}</span>
+                    </td>
+                    <td className="px-6 py-4 text-xs text-muted-foreground">
+                      <span className="block font-mono">{entry.requestId || '-'}</span>
+                      <span className="block">{entry.ipAddress || '-'}</span>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            Page {pagination.page} of {pagination.totalPages} ({pagination.total} entries)
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage((p) => p - 1)}
+              disabled={!pagination.hasPreviousPage}
+              className="rounded-lg border border-border px-3 py-1 hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={!pagination.hasNextPage}
+              className="rounded-lg border border-border px-3 py-1 hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RefreshCw } from 'lucide-react';
+
+interface DunningSubscription {
+  id: string;
+  visibleId: string;
+  status: string;
+  stripeSubscriptionId: string | null;
+  paymentFailedCount: number;
+  paymentFailedAt: string | null;
+  dunningStartedAt: string;
+  dunningInvoiceId: string | null;
+  dunningAttempts: number;
+  graceEndsAt: string;
+  nextRetryAt: string | null;
+  cancelsAt: string;
+  user: {
+    id: string;
+    email: string;
+    name: string | null;
+  };
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+  total: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  ACTIVE: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200',
+  PAYMENT_FAILED: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200',
+};
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '-';
+}
+
+export default function AdminDunningPage() {
+  const [subscriptions, setSubscriptions] = useState<DunningSubscription[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [version, setVersion] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSubscriptions() {
+      try {
+        const res = await fetch(`/api/subscription-dunning?page=${page}`);
+        const responseData = await res.json().catch(() => null);
+
+        if (res.ok) {
+          setSubscriptions(responseData?.data || []);
+          setPagination(responseData?.meta?.pagination || null);
+        } else {
+          setError(responseData?.error?.message || 'Failed to load subscriptions in dunning');
+        }
+      } catch {
+        setError('Failed to load subscriptions in dunning');
+      }
+    }
+
+    fetchSubscriptions();
+  }, [page, version]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Dunning</h1>
+          <p className="mt-2 text-muted-foreground">
+            Subscriptions with an unpaid renewal, and where each is in the retry schedule
+          </p>
+        </div>
+        <button
+          onClick={() => setVersion((v) => v + 1)}
+          className="inline-flex items-center gap-2 rounded-lg border border-border px-4 py-2 text-sm font-medium text-foreground hover:bg-muted"
+        >
+          <RefreshCw className="size-4" />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-800 dark:bg-red-950/40 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {/* Subscriptions */}
+      <div className="overflow-hidden rounded-lg bg-card shadow">
+        <table className="min-w-full divide-y divide-border">
+          <thead className="bg-muted">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Subscription
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Customer
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Status
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Failed Since
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Retries
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Next Retry
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Cancels
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border bg-card">
+            {subscriptions.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-8 text-center text-muted-foreground">
+                  No subscriptions in dunning
+                </td>
+              </tr>
+            ) : (
+              subscriptions.map((subscription) => (
+                <tr key={subscription.id} className="hover:bg-muted">
+                  <td className="px-6 py-4">
+                    <span className="block font-mono text-sm text-foreground">
+                      {subscription.visibleId}
+                    </span>
+                    {subscription.dunningInvoiceId && (
+                      <span className="block font-mono text-xs text-muted-foreground">
+                        {subscription.dunningInvoiceId}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className="block text-sm text-foreground">
+                      {subscription.user.name || subscription.user.email}
+                    </span>
+                    {subscription.user.name && (
+                      <span className="block text-xs text-muted-foreground">
+                        {subscription.user.email}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span
+                      className={`rounded px-2 py-1 text-xs font-medium ${STATUS_STYLES[subscription.status] || ''}`}
+                    >
+                      {subscription.status}
+                    </span>
+                    {subscription.status === 'ACTIVE' && (
+                      <span className="mt-1 block text-xs text-muted-foreground">
+                        Grace period ends {formatDate(subscription.graceEndsAt)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-muted-foreground">
+                    {formatDate(subscription.dunningStartedAt)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-foreground">
+                    {subscription.dunningAttempts}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-muted-foreground">
+                    {formatDate(subscription.nextRetryAt)}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-muted-foreground">
+                    {formatDate(subscription.cancelsAt)}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            Page {pagination.page} of {pagination.totalPages} ({pagination.total} subscriptions)
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage((p) => p - 1)}
+              disabled={!pagination.hasPreviousPage}
+              className="rounded-lg border border-border px-3 py-1 hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={!pagination.hasNextPage}
+              className="rounded-lg border border-border px-3 py-1 hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
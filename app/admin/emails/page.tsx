@@ -0,0 +1,270 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RefreshCw, Trash2 } from 'lucide-react';
+
+interface TemplateSummary {
+  name: string;
+  description: string;
+  subject: string;
+}
+
+interface OutboxMessage {
+  id: string;
+  template: string;
+  from: string;
+  to: string;
+  replyTo: string | null;
+  subject: string;
+  html: string;
+  text: string;
+  createdAt: string;
+}
+
+type PreviewFormat = 'html' | 'text';
+
+function getCsrfToken(): string | undefined {
+  return document.cookie
+    .split('; ')
+    .find((c) => c.startsWith('csrf_token='))
+    ?.split('=')[1];
+}
+
+export default function AdminEmailsPage() {
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [transport, setTransport] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [format, setFormat] = useState<PreviewFormat>('html');
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const [openMessageId, setOpenMessageId] = useState<string | null>(null);
+  const [outboxVersion, setOutboxVersion] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchTemplates() {
+      try {
+        const res = await fetch('/api/email-templates');
+        const responseData = await res.json().catch(() => null);
+
+        if (res.ok) {
+          setTemplates(responseData?.data?.templates || []);
+          setTransport(responseData?.data?.transport || null);
+          setSelected(responseData?.data?.templates?.[0]?.name || null);
+        } else {
+          setError(responseData?.error?.message || 'Failed to load email templates');
+        }
+      } catch {
+        setError('Failed to load email templates');
+      }
+    }
+
+    fetchTemplates();
+  }, []);
+
+  useEffect(() => {
+    async function fetchOutbox() {
+      try {
+        const res = await fetch('/api/email-outbox');
+        const responseData = await res.json().catch(() => null);
+
+        if (res.ok) {
+          setMessages(responseData?.data || []);
+        } else {
+          setError(responseData?.error?.message || 'Failed to load outbox');
+        }
+      } catch {
+        setError('Failed to load outbox');
+      }
+    }
+
+    fetchOutbox();
+  }, [outboxVersion]);
+
+  async function clearOutbox() {
+    if (!confirm('Delete every message in the outbox?')) return;
+
+    const csrfToken = getCsrfToken();
+    const res = await fetch('/api/email-outbox', {
+      method: 'DELETE',
+      headers: csrfToken ? { 'X-CSRF-Token': csrfToken } : {},
+    });
+
+    if (res.ok) {
+      setMessages([]);
+      setOpenMessageId(null);
+    } else {
+      const responseData = await res.json().catch(() => null);
+      setError(responseData?.error?.message || 'Failed to clear outbox');
+    }
+  }
+
+  const openMessage = messages.find((message) => message.id === openMessageId);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Emails</h1>
+        <p className="mt-2 text-muted-foreground">
+          Preview transactional email templates with sample data and inspect captured messages
+          {transport && (
+            <>
+              {' '}
+              (transport: <span className="font-mono">{transport}</span>)
+            </>
+          )}
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-800 dark:bg-red-950/40 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {/* Template previews */}
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <div className="overflow-hidden rounded-lg bg-card shadow">
+          <ul className="divide-y divide-border">
+            {templates.map((template) => (
+              <li key={template.name}>
+                <button
+                  onClick={() => setSelected(template.name)}
+                  className={`w-full px-4 py-3 text-left hover:bg-muted ${
+                    selected === template.name ? 'bg-muted' : ''
+                  }`}
+                >
+                  <span className="block font-mono text-sm text-foreground">{template.name}</span>
+                  <span className="block text-xs text-muted-foreground">{template.description}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="space-y-3 rounded-lg bg-card p-4 shadow lg:col-span-2">
+          {selected ? (
+            <>
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-foreground">
+                  <span className="text-muted-foreground">Subject:</span>{' '}
+                  {templates.find((template) => template.name === selected)?.subject}
+                </p>
+                <div className="flex gap-2">
+                  {(['html', 'text'] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setFormat(option)}
+                      className={`rounded-lg border border-border px-3 py-1 text-sm ${
+                        format === option ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+                      }`}
+                    >
+                      {option === 'html' ? 'HTML' : 'Plain text'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <iframe
+                key={`${selected}-${format}`}
+                title={`${selected} preview`}
+                src={`/api/email-templates/${selected}?format=${format}`}
+                sandbox=""
+                className="h-[640px] w-full rounded border border-border bg-white"
+              />
+            </>
+          ) : (
+            <p className="text-muted-foreground">No templates</p>
+          )}
+        </div>
+      </div>
+
+      {/* Outbox */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-foreground">Outbox</h2>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setOutboxVersion((version) => version + 1)}
+              className="inline-flex items-center gap-2 rounded-lg border border-border px-3 py-1 text-sm hover:bg-muted"
+            >
+              <RefreshCw className="size-4" />
+              Refresh
+            </button>
+            <button
+              onClick={clearOutbox}
+              disabled={messages.length === 0}
+              className="inline-flex items-center gap-2 rounded-lg border border-border px-3 py-1 text-sm text-red-600 hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50 dark:text-red-400"
+            >
+              <Trash2 className="size-4" />
+              Clear
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-hidden rounded-lg bg-card shadow">
+          <table className="min-w-full divide-y divide-border">
+            <thead className="bg-muted">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                  When
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                  To
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                  Template
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                  Subject
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border bg-card">
+              {messages.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-muted-foreground">
+                    No captured messages. The outbox is used when EMAIL_TRANSPORT is
+                    &quot;outbox&quot;, or in development without RESEND_API_KEY.
+                  </td>
+                </tr>
+              ) : (
+                messages.map((message) => (
+                  <tr
+                    key={message.id}
+                    onClick={() => setOpenMessageId(openMessageId === message.id ? null : message.id)}
+                    className={`cursor-pointer hover:bg-muted ${openMessageId === message.id ? 'bg-muted' : ''}`}
+                  >
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-muted-foreground">
+                      {new Date(message.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-foreground">{message.to}</td>
+                    <td className="px-6 py-4">
+                      <span className="rounded bg-muted px-2 py-1 font-mono text-xs text-foreground">
+                        {message.template}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-foreground">{message.subject}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {openMessage && (
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+            <iframe
+              title={`Message to ${openMessage.to}`}
+              srcDoc={openMessage.html}
+              sandbox=""
+              className="h-[640px] w-full rounded border border-border bg-white"
+            />
+            <pre className="h-[640px] overflow-auto whitespace-pre-wrap rounded border border-border bg-card p-4 text-sm text-foreground">
+              {openMessage.text}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
 import { getServerAuth } from '@/lib/auth';
+import { getTwoFactorStatus } from '@/lib/two-factor';
 import {
   LayoutDashboard,
   Package,
@@ -8,6 +9,13 @@ import {
   ShoppingCart,
   Users,
   Settings,
+  Tag,
+  Truck,
+  ScrollText,
+  MessageSquare,
+  Mail,
+  Webhook,
+  CreditCard,
   LogOut
 } from 'lucide-react';
 
@@ -23,10 +31,23 @@ export default async function AdminLayout({
     redirect('/auth/signin?error=AccessDenied');
   }
 
+  // Admins must enroll in two-factor authentication before using the panel
+  const twoFactor = await getTwoFactorStatus(userId);
+  if (!twoFactor?.enabled) {
+    redirect('/account/settings?twoFactor=required');
+  }
+
   const navigation = [
     { name: 'Dashboard', href: '/admin', icon: LayoutDashboard },
     { name: 'Products', href: '/admin/products', icon: Package },
     { name: 'Orders', href: '/admin/orders', icon: ShoppingCart },
+    { name: 'Reviews', href: '/admin/reviews', icon: MessageSquare },
+    { name: 'Promo Codes', href: '/admin/promo-codes', icon: Tag },
+    { name: 'Shipping', href: '/admin/shipping', icon: Truck },
+    { name: 'Audit Log', href: '/admin/audit-log', icon: ScrollText },
+    { name: 'Emails', href: '/admin/emails', icon: Mail },
+    { name: 'Webhooks', href: '/admin/webhooks', icon: Webhook },
+    { name: 'Dunning', href: '/admin/dunning', icon: CreditCard },
     { name: 'Blog Posts', href: '/admin/blog', icon: FileText },
     { name: 'Users', href: '/admin/users', icon: Users },
     { name: 'Settings', href: '/admin/settings', icon: Settings },
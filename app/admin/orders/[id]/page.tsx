@@ -0,0 +1,744 @@
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import {
+  ArrowLeft,
+  Check,
+  ExternalLink,
+  Loader2,
+  MessageSquare,
+  RefreshCw,
+  Truck,
+} from 'lucide-react';
+
+interface OrderItem {
+  id: string;
+  title: string;
+  quantity: number;
+  refundedQuantity: number;
+  price: number | string;
+  variantSku: string | null;
+  variantSize: string | null;
+  variantColor: string | null;
+}
+
+interface ShippingStep {
+  key: string;
+  label: string;
+  completed: boolean;
+  current: boolean;
+}
+
+interface OrderDetail {
+  id: string;
+  customerName: string | null;
+  customerEmail: string | null;
+  amount: number | string;
+  refundAmount: number | string | null;
+  refundReason: string | null;
+  status: string;
+  shippingStatus: string | null;
+  shippingStatusLabel: string;
+  shippingProgress: ShippingStep[];
+  shippingMethod: string | null;
+  shippingAddress: string | null;
+  trackingNumber: string | null;
+  shippingCarrier: string | null;
+  trackingUrl: string | null;
+  estimatedDelivery: string | null;
+  shippedAt: string | null;
+  deliveredAt: string | null;
+  refundedAt: string | null;
+  isCancelled: boolean;
+  createdAt: string;
+  items: OrderItem[];
+}
+
+interface OrderEvent {
+  id: string;
+  type: string;
+  message: string;
+  actorEmail: string | null;
+  actorName: string | null;
+  createdAt: string;
+}
+
+interface RefundPreview {
+  refundAmount: number;
+  remainingRefundableAmount: number;
+}
+
+const CARRIER_OPTIONS = [
+  { value: '', label: 'Select Carrier' },
+  { value: 'UPS', label: 'UPS' },
+  { value: 'USPS', label: 'USPS' },
+  { value: 'FedEx', label: 'FedEx' },
+  { value: 'DHL', label: 'DHL' },
+  { value: 'Other', label: 'Other' },
+];
+
+const SHIPPING_STATUS_OPTIONS = [
+  { value: 'processing', label: 'Processing' },
+  { value: 'shipped', label: 'Shipped' },
+  { value: 'in_transit', label: 'In Transit' },
+  { value: 'out_for_delivery', label: 'Out for Delivery' },
+  { value: 'delivered', label: 'Delivered' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+const EVENT_TYPE_STYLES: Record<string, { label: string; className: string }> = {
+  status_changed: {
+    label: 'Status',
+    className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200',
+  },
+  shipped: {
+    label: 'Shipped',
+    className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200',
+  },
+  tracking_updated: {
+    label: 'Tracking',
+    className: 'bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-200',
+  },
+  refunded: {
+    label: 'Refund',
+    className: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-200',
+  },
+  note: {
+    label: 'Note',
+    className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200',
+  },
+};
+
+function getCsrfToken(): string | undefined {
+  return document.cookie
+    .split('; ')
+    .find((c) => c.startsWith('csrf_token='))
+    ?.split('=')[1];
+}
+
+function jsonHeaders(): HeadersInit {
+  const csrfToken = getCsrfToken();
+  return {
+    'Content-Type': 'application/json',
+    ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+  };
+}
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '-';
+}
+
+function formatMoney(value: number | string | null): string {
+  return `$${Number(value || 0).toFixed(2)}`;
+}
+
+export default function AdminOrderDetailPage() {
+  const params = useParams();
+  const id = params.id as string;
+
+  const [order, setOrder] = useState<OrderDetail | null>(null);
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [status, setStatus] = useState('processing');
+  const [carrier, setCarrier] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [estimatedDelivery, setEstimatedDelivery] = useState('');
+  const [savingShipping, setSavingShipping] = useState(false);
+
+  const [refundQuantities, setRefundQuantities] = useState<Record<string, number>>({});
+  const [refundReason, setRefundReason] = useState('');
+  const [refundPreview, setRefundPreview] = useState<RefundPreview | null>(null);
+  const [refunding, setRefunding] = useState(false);
+
+  const [note, setNote] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+
+  const fetchOrder = useCallback(async () => {
+    try {
+      const [orderRes, eventsRes] = await Promise.all([
+        fetch(`/api/orders/${id}`),
+        fetch(`/api/orders/${id}/events`),
+      ]);
+
+      if (!orderRes.ok) {
+        setFetchError(orderRes.status === 404 ? 'Order not found' : 'Failed to load order');
+        return;
+      }
+
+      const orderData = await orderRes.json();
+      const loaded: OrderDetail = orderData.data;
+      setOrder(loaded);
+      setStatus(loaded.shippingStatus || 'processing');
+      setCarrier(loaded.shippingCarrier || '');
+      setTrackingNumber(loaded.trackingNumber || '');
+      setEstimatedDelivery(
+        loaded.estimatedDelivery ? loaded.estimatedDelivery.split('T')[0] : ''
+      );
+      setRefundQuantities({});
+      setRefundPreview(null);
+
+      if (eventsRes.ok) {
+        const eventsData = await eventsRes.json();
+        setEvents(eventsData.data || []);
+      }
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to fetch order:', error);
+      }
+      setFetchError('Failed to load order');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchOrder();
+  }, [fetchOrder]);
+
+  async function updateOrder(body: Record<string, string>, successText: string) {
+    setSavingShipping(true);
+    setMessage(null);
+
+    try {
+      const res = await fetch(`/api/orders/${id}`, {
+        method: 'PATCH',
+        headers: jsonHeaders(),
+        body: JSON.stringify(body),
+      });
+
+      if (res.ok) {
+        setMessage({ type: 'success', text: successText });
+        await fetchOrder();
+      } else {
+        const errorData = await res.json().catch(() => null);
+        setMessage({
+          type: 'error',
+          text: errorData?.error?.message || 'Failed to update order',
+        });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Failed to update order' });
+    } finally {
+      setSavingShipping(false);
+    }
+  }
+
+  function trackingFields(): Record<string, string> {
+    return {
+      ...(carrier ? { shippingCarrier: carrier } : {}),
+      ...(trackingNumber.trim() ? { trackingNumber: trackingNumber.trim() } : {}),
+      ...(estimatedDelivery ? { estimatedDelivery } : {}),
+    };
+  }
+
+  function handleMarkShipped(e: FormEvent) {
+    e.preventDefault();
+    if (!carrier || !trackingNumber.trim()) {
+      setMessage({ type: 'error', text: 'Carrier and tracking number are required to ship' });
+      return;
+    }
+    updateOrder(
+      { shippingStatus: 'shipped', ...trackingFields() },
+      'Order marked as shipped'
+    );
+  }
+
+  function handleStatusSave() {
+    updateOrder({ shippingStatus: status, ...trackingFields() }, 'Shipping details updated');
+  }
+
+  function selectedRefundItems() {
+    return Object.entries(refundQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+  }
+
+  function setRefundQuantity(itemId: string, quantity: number) {
+    setRefundQuantities((prev) => ({ ...prev, [itemId]: quantity }));
+    setRefundPreview(null);
+  }
+
+  async function submitRefund(preview: boolean, fullRefund = false) {
+    const items = fullRefund ? [] : selectedRefundItems();
+    if (!fullRefund && items.length === 0) {
+      setMessage({ type: 'error', text: 'Select at least one item to refund' });
+      return;
+    }
+
+    if (!preview) {
+      const amount = refundPreview ? formatMoney(refundPreview.refundAmount) : 'the calculated amount';
+      const confirmed = window.confirm(
+        fullRefund
+          ? `Refund the remaining balance of order #${id}?\n\nThis action cannot be undone.`
+          : `Refund ${amount} for the selected items?\n\nThis action cannot be undone.`
+      );
+      if (!confirmed) return;
+    }
+
+    setRefunding(true);
+    setMessage(null);
+
+    try {
+      const res = await fetch(`/api/orders/${id}/refund`, {
+        method: 'POST',
+        headers: jsonHeaders(),
+        body: JSON.stringify({
+          ...(items.length > 0 ? { items } : {}),
+          ...(refundReason.trim() ? { reason: refundReason.trim() } : {}),
+          ...(preview ? { preview: true } : {}),
+        }),
+      });
+      const data = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        setMessage({
+          type: 'error',
+          text: data?.error?.message || 'Failed to process refund',
+        });
+        return;
+      }
+
+      if (preview) {
+        setRefundPreview(data.data);
+      } else {
+        setMessage({
+          type: 'success',
+          text: `Refunded ${formatMoney(data.data.refundedAmount)}`,
+        });
+        setRefundReason('');
+        await fetchOrder();
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Failed to process refund' });
+    } finally {
+      setRefunding(false);
+    }
+  }
+
+  async function handleAddNote(e: FormEvent) {
+    e.preventDefault();
+    if (!note.trim()) return;
+
+    setSavingNote(true);
+    setMessage(null);
+
+    try {
+      const res = await fetch(`/api/orders/${id}/notes`, {
+        method: 'POST',
+        headers: jsonHeaders(),
+        body: JSON.stringify({ note: note.trim() }),
+      });
+
+      if (res.ok) {
+        const data = await res.json();
+        setEvents((prev) => [data.data, ...prev]);
+        setNote('');
+      } else {
+        const errorData = await res.json().catch(() => null);
+        setMessage({
+          type: 'error',
+          text: errorData?.error?.message || 'Failed to add note',
+        });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Failed to add note' });
+    } finally {
+      setSavingNote(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <Loader2 className="size-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (fetchError || !order) {
+    return (
+      <div className="space-y-4">
+        <Link
+          href="/admin/orders"
+          className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="size-4" />
+          Back to orders
+        </Link>
+        <p className="text-red-600 dark:text-red-400">{fetchError || 'Order not found'}</p>
+      </div>
+    );
+  }
+
+  const canRefund = order.status === 'paid' || order.status === 'partially_refunded';
+  const hasShipped = !!order.shippedAt;
+  const notes = events.filter((event) => event.type === 'note');
+  const history = events.filter((event) => event.type !== 'note');
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/admin/orders"
+          className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="size-4" />
+          Back to orders
+        </Link>
+        <div className="mt-2 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Order #{order.id}</h1>
+            <p className="mt-1 text-muted-foreground">
+              {order.customerName || 'Unknown customer'} &middot; {order.customerEmail || 'No email'}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="text-2xl font-bold text-foreground">{formatMoney(order.amount)}</p>
+            <p className="text-sm text-muted-foreground">
+              Payment: {order.status}
+              {order.refundAmount ? ` (${formatMoney(order.refundAmount)} refunded)` : ''}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`rounded-lg p-3 text-sm ${
+            message.type === 'success'
+              ? 'bg-green-50 text-green-800 dark:bg-green-950/40 dark:text-green-200'
+              : 'bg-red-50 text-red-800 dark:bg-red-950/40 dark:text-red-200'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {/* Status timeline */}
+      <div className="rounded-lg bg-card p-6 shadow">
+        <h2 className="mb-4 text-lg font-semibold text-foreground">Status</h2>
+        {order.isCancelled ? (
+          <p className="font-medium text-red-600 dark:text-red-400">This order was cancelled.</p>
+        ) : (
+          <ol className="flex flex-wrap gap-4">
+            {order.shippingProgress.map((step) => (
+              <li key={step.key} className="flex items-center gap-2">
+                <span
+                  className={`flex size-7 items-center justify-center rounded-full text-xs font-semibold ${
+                    step.completed
+                      ? 'bg-green-600 text-white'
+                      : 'bg-muted text-muted-foreground'
+                  }`}
+                >
+                  {step.completed ? <Check className="size-4" /> : null}
+                </span>
+                <span
+                  className={`text-sm ${step.current ? 'font-semibold text-foreground' : 'text-muted-foreground'}`}
+                >
+                  {step.label}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+        <dl className="mt-4 grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+          <div>
+            <dt className="text-muted-foreground">Placed</dt>
+            <dd className="text-foreground">{formatDateTime(order.createdAt)}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Shipped</dt>
+            <dd className="text-foreground">{formatDateTime(order.shippedAt)}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Delivered</dt>
+            <dd className="text-foreground">{formatDateTime(order.deliveredAt)}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Refunded</dt>
+            <dd className="text-foreground">{formatDateTime(order.refundedAt)}</dd>
+          </div>
+        </dl>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        {/* Fulfilment */}
+        <form onSubmit={handleMarkShipped} className="space-y-4 rounded-lg bg-card p-6 shadow">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-foreground">
+            <Truck className="size-5" />
+            Fulfilment
+          </h2>
+          {order.shippingMethod && (
+            <p className="text-sm text-muted-foreground">Method: {order.shippingMethod}</p>
+          )}
+          {order.shippingAddress && (
+            <p className="whitespace-pre-line text-sm text-muted-foreground">{order.shippingAddress}</p>
+          )}
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <select
+              value={carrier}
+              onChange={(e) => setCarrier(e.target.value)}
+              className="rounded-lg border border-border px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-ring"
+            >
+              {CARRIER_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Tracking #"
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              className="rounded-lg border border-border px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-ring"
+            />
+            <input
+              type="date"
+              aria-label="Estimated delivery"
+              value={estimatedDelivery}
+              onChange={(e) => setEstimatedDelivery(e.target.value)}
+              className="rounded-lg border border-border px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-ring"
+            />
+          </div>
+          {order.trackingUrl && (
+            <a
+              href={order.trackingUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-900 dark:text-blue-400"
+            >
+              Track shipment
+              <ExternalLink className="size-3" />
+            </a>
+          )}
+          <div className="flex flex-wrap items-center gap-3">
+            {!hasShipped && !order.isCancelled && (
+              <button
+                type="submit"
+                disabled={savingShipping}
+                className="rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {savingShipping ? 'Saving...' : 'Mark shipped & notify customer'}
+              </button>
+            )}
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="rounded-lg border border-border px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-ring"
+            >
+              {SHIPPING_STATUS_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleStatusSave}
+              disabled={savingShipping}
+              className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-foreground hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Save status & tracking
+            </button>
+          </div>
+        </form>
+
+        {/* Internal notes */}
+        <div className="space-y-4 rounded-lg bg-card p-6 shadow">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-foreground">
+            <MessageSquare className="size-5" />
+            Internal notes
+          </h2>
+          <form onSubmit={handleAddNote} className="space-y-2">
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={2000}
+              rows={3}
+              placeholder="Visible to admins only"
+              className="w-full rounded-lg border border-border px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-ring"
+            />
+            <button
+              type="submit"
+              disabled={savingNote || !note.trim()}
+              className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {savingNote ? 'Saving...' : 'Add note'}
+            </button>
+          </form>
+          {notes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No notes yet</p>
+          ) : (
+            <ul className="space-y-3">
+              {notes.map((event) => (
+                <li key={event.id} className="rounded-lg bg-muted p-3 text-sm">
+                  <p className="whitespace-pre-line text-foreground">{event.message}</p>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {event.actorName || event.actorEmail || 'System'} &middot;{' '}
+                    {formatDateTime(event.createdAt)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Items & refunds */}
+      <div className="overflow-hidden rounded-lg bg-card shadow">
+        <div className="flex items-center justify-between p-6 pb-0">
+          <h2 className="text-lg font-semibold text-foreground">Items</h2>
+          {order.refundReason && (
+            <p className="text-sm text-muted-foreground">Last refund reason: {order.refundReason}</p>
+          )}
+        </div>
+        <table className="mt-4 min-w-full divide-y divide-border">
+          <thead className="bg-muted">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Item
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Price
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Qty
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Refunded
+              </th>
+              {canRefund && (
+                <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                  Refund qty
+                </th>
+              )}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {order.items.map((item) => {
+              const remaining = item.quantity - item.refundedQuantity;
+              const variant = [item.variantSize, item.variantColor].filter(Boolean).join(' / ');
+
+              return (
+                <tr key={item.id}>
+                  <td className="px-6 py-4 text-sm text-foreground">
+                    {item.title}
+                    {variant && <span className="block text-xs text-muted-foreground">{variant}</span>}
+                    {item.variantSku && (
+                      <span className="block text-xs text-muted-foreground">SKU {item.variantSku}</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm text-foreground">{formatMoney(item.price)}</td>
+                  <td className="px-6 py-4 text-right text-sm text-foreground">{item.quantity}</td>
+                  <td className="px-6 py-4 text-right text-sm text-muted-foreground">{item.refundedQuantity}</td>
+                  {canRefund && (
+                    <td className="px-6 py-4 text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        max={remaining}
+                        disabled={remaining <= 0}
+                        aria-label={`Refund quantity for ${item.title}`}
+                        value={refundQuantities[item.id] ?? 0}
+                        onChange={(e) =>
+                          setRefundQuantity(
+                            item.id,
+                            Math.min(remaining, Math.max(0, Number(e.target.value) || 0))
+                          )
+                        }
+                        className="w-20 rounded border border-border px-2 py-1 text-right text-sm focus:border-transparent focus:ring-2 focus:ring-ring disabled:opacity-50"
+                      />
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {canRefund && (
+          <div className="space-y-3 border-t border-border p-6">
+            <input
+              type="text"
+              maxLength={500}
+              placeholder="Refund reason (optional)"
+              value={refundReason}
+              onChange={(e) => setRefundReason(e.target.value)}
+              className="w-full rounded-lg border border-border px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-ring"
+            />
+            {refundPreview && (
+              <p className="text-sm text-foreground">
+                Refund amount: <strong>{formatMoney(refundPreview.refundAmount)}</strong> of{' '}
+                {formatMoney(refundPreview.remainingRefundableAmount)} remaining (prorated for
+                discounts)
+              </p>
+            )}
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="button"
+                onClick={() => submitRefund(true)}
+                disabled={refunding || selectedRefundItems().length === 0}
+                className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-foreground hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Preview refund
+              </button>
+              <button
+                type="button"
+                onClick={() => submitRefund(false)}
+                disabled={refunding || !refundPreview}
+                className="inline-flex items-center gap-1 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {refunding && <RefreshCw className="size-4 animate-spin" />}
+                Refund selected items
+              </button>
+              <button
+                type="button"
+                onClick={() => submitRefund(false, true)}
+                disabled={refunding}
+                className="rounded-lg bg-red-50 px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-100 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-red-950/40 dark:text-red-300"
+              >
+                Refund remaining balance
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Audit history */}
+      <div className="rounded-lg bg-card p-6 shadow">
+        <h2 className="mb-4 text-lg font-semibold text-foreground">History</h2>
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes recorded yet</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {history.map((event) => {
+              const style = EVENT_TYPE_STYLES[event.type] || EVENT_TYPE_STYLES.status_changed;
+              return (
+                <li key={event.id} className="flex flex-wrap items-start gap-3 py-3 text-sm">
+                  <span
+                    className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${style.className}`}
+                  >
+                    {style.label}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-foreground">{event.message}</p>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {event.actorName || event.actorEmail || 'System'} &middot;{' '}
+                      {formatDateTime(event.createdAt)}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
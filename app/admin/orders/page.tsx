@@ -346,7 +346,9 @@ export default function AdminOrdersPage() {
               filteredOrders.map((order) => (
                 <tr key={order.id} className="hover:bg-muted">
                   <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-foreground">
-                    #{order.id}
+                    <Link href={`/admin/orders/${order.id}`} className="hover:underline">
+                      #{order.id}
+                    </Link>
                   </td>
                   <td className="whitespace-nowrap px-6 py-4">
                     <div className="text-sm font-medium text-foreground">
@@ -481,7 +483,7 @@ export default function AdminOrdersPage() {
                   <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
                     <div className="flex items-center justify-end gap-2">
                       <Link
-                        href={`/account/orders/${order.id}`}
+                        href={`/admin/orders/${order.id}`}
                         className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-900 dark:text-blue-400"
                       >
                         <Eye className="size-4" />
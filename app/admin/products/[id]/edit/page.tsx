@@ -30,6 +30,9 @@ interface ProductData {
   isImperfect: boolean
   imperfectDiscount: number | null
   isSubscribable: boolean
+  weightGrams: number | null
+  oversizeSurcharge: number | string | null
+  earlyAccessUntil: string | null
 }
 
 async function fetchCsrfToken(): Promise<string> {
@@ -41,6 +44,13 @@ async function fetchCsrfToken(): Promise<string> {
   return data.token
 }
 
+// Format an ISO timestamp for a datetime-local input (local time, minute precision)
+function toDateTimeLocal(iso: string): string {
+  const date = new Date(iso)
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+}
+
 export default function AdminProductEditPage() {
   const router = useRouter()
   const params = useParams()
@@ -62,6 +72,9 @@ export default function AdminProductEditPage() {
   const [isImperfect, setIsImperfect] = useState(false)
   const [imperfectDiscount, setImperfectDiscount] = useState('')
   const [isSubscribable, setIsSubscribable] = useState(false)
+  const [weightGrams, setWeightGrams] = useState('')
+  const [oversizeSurcharge, setOversizeSurcharge] = useState('')
+  const [earlyAccessUntil, setEarlyAccessUntil] = useState('')
 
   useEffect(() => {
     async function fetchProduct(): Promise<void> {
@@ -86,6 +99,9 @@ export default function AdminProductEditPage() {
         setIsImperfect(product.isImperfect || false)
         setImperfectDiscount(product.imperfectDiscount ? String(product.imperfectDiscount) : '')
         setIsSubscribable(product.isSubscribable || false)
+        setWeightGrams(product.weightGrams !== null && product.weightGrams !== undefined ? String(product.weightGrams) : '')
+        setOversizeSurcharge(product.oversizeSurcharge ? String(Number(product.oversizeSurcharge)) : '')
+        setEarlyAccessUntil(product.earlyAccessUntil ? toDateTimeLocal(product.earlyAccessUntil) : '')
       } catch (err) {
         setFetchError(err instanceof Error ? err.message : 'Failed to load product')
       } finally {
@@ -127,6 +143,18 @@ export default function AdminProductEditPage() {
     if (isNaN(inventoryNum) || inventoryNum < 0) {
       return 'Inventory must be a non-negative whole number'
     }
+    if (weightGrams.trim()) {
+      const weightNum = parseInt(weightGrams, 10)
+      if (isNaN(weightNum) || weightNum < 0) {
+        return 'Weight must be a non-negative whole number of grams'
+      }
+    }
+    if (oversizeSurcharge.trim()) {
+      const surchargeNum = parseFloat(oversizeSurcharge)
+      if (isNaN(surchargeNum) || surchargeNum < 0) {
+        return 'Oversize surcharge cannot be negative'
+      }
+    }
     if (isImperfect && imperfectDiscount.trim()) {
       const discountNum = parseInt(imperfectDiscount, 10)
       if (isNaN(discountNum) || discountNum < 1 || discountNum > 90) {
@@ -162,6 +190,9 @@ export default function AdminProductEditPage() {
         salePrice: salePrice.trim() ? parseFloat(salePrice) : null,
         isImperfect,
         isSubscribable,
+        weightGrams: weightGrams.trim() ? parseInt(weightGrams, 10) : null,
+        oversizeSurcharge: oversizeSurcharge.trim() ? parseFloat(oversizeSurcharge) : null,
+        earlyAccessUntil: earlyAccessUntil ? new Date(earlyAccessUntil).toISOString() : null,
         imperfectDiscount: isImperfect && imperfectDiscount.trim()
           ? parseInt(imperfectDiscount, 10)
           : null,
@@ -388,6 +419,58 @@ export default function AdminProductEditPage() {
             </div>
           </div>
 
+          {/* Shipping attributes */}
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <div>
+              <label htmlFor="weightGrams" className="block text-sm font-medium text-foreground">
+                Shipping Weight (grams)
+              </label>
+              <input
+                id="weightGrams"
+                type="number"
+                value={weightGrams}
+                onChange={(e) => setWeightGrams(e.target.value)}
+                min="0"
+                step="1"
+                className="mt-1 block w-full rounded-lg border border-border px-3 py-2 shadow-sm focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+                placeholder="e.g., 450"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="oversizeSurcharge" className="block text-sm font-medium text-foreground">
+                Oversize Surcharge ($ per unit)
+              </label>
+              <input
+                id="oversizeSurcharge"
+                type="number"
+                value={oversizeSurcharge}
+                onChange={(e) => setOversizeSurcharge(e.target.value)}
+                min="0"
+                step="0.01"
+                className="mt-1 block w-full rounded-lg border border-border px-3 py-2 shadow-sm focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          {/* Loyalty early access */}
+          <div>
+            <label htmlFor="earlyAccessUntil" className="block text-sm font-medium text-foreground">
+              Early Access Until
+            </label>
+            <input
+              id="earlyAccessUntil"
+              type="datetime-local"
+              value={earlyAccessUntil}
+              onChange={(e) => setEarlyAccessUntil(e.target.value)}
+              className="mt-1 block w-full rounded-lg border border-border px-3 py-2 shadow-sm focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500 sm:w-1/2"
+            />
+            <p className="mt-1 text-xs text-muted-foreground">
+              Until this time the product is only listed and purchasable for loyalty tiers with early access. Leave empty to release it to everyone.
+            </p>
+          </div>
+
           {/* Imperfect / Subscribable toggles */}
           <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
             <div className="space-y-4">
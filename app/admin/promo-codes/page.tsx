@@ -0,0 +1,515 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  type: 'PERCENT' | 'FIXED' | 'FREE_SHIPPING';
+  value: number;
+  minSubtotal: number | null;
+  usageLimit: number | null;
+  usageLimitPerCustomer: number | null;
+  usageCount: number;
+  startsAt: string | null;
+  endsAt: string | null;
+  isActive: boolean;
+  categories: string[];
+  brandIds: string[];
+  productIds: string[];
+}
+
+const EMPTY_FORM = {
+  code: '',
+  description: '',
+  type: 'PERCENT' as PromoCode['type'],
+  value: '',
+  minSubtotal: '',
+  usageLimit: '',
+  usageLimitPerCustomer: '',
+  startsAt: '',
+  endsAt: '',
+  categories: '',
+  brandIds: '',
+  productIds: '',
+};
+
+function getCsrfToken(): string | undefined {
+  return document.cookie
+    .split('; ')
+    .find((c) => c.startsWith('csrf_token='))
+    ?.split('=')[1];
+}
+
+function parseList(value: string): string[] | undefined {
+  const entries = value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return entries.length > 0 ? entries : undefined;
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+function formatPromoValue(promo: PromoCode): string {
+  switch (promo.type) {
+    case 'PERCENT':
+      return `${promo.value}% off`;
+    case 'FIXED':
+      return `$${promo.value.toFixed(2)} off`;
+    case 'FREE_SHIPPING':
+      return 'Free shipping';
+  }
+}
+
+function formatScope(promo: PromoCode): string {
+  const parts = [
+    promo.categories.length > 0 ? `Categories: ${promo.categories.join(', ')}` : null,
+    promo.brandIds.length > 0 ? `Brands: ${promo.brandIds.length}` : null,
+    promo.productIds.length > 0 ? `Products: ${promo.productIds.length}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'Entire cart';
+}
+
+export default function AdminPromoCodesPage() {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const fetchPromoCodes = useCallback(async () => {
+    try {
+      const res = await fetch('/api/promo-codes?limit=100');
+      if (res.ok) {
+        const responseData = await res.json();
+        setPromoCodes(responseData.data || []);
+      }
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to fetch promo codes:', error);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPromoCodes();
+  }, [fetchPromoCodes]);
+
+  function updateForm(field: keyof typeof EMPTY_FORM, value: string) {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      const csrfToken = getCsrfToken();
+
+      const res = await fetch('/api/promo-codes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+        },
+        body: JSON.stringify({
+          code: form.code,
+          description: form.description || undefined,
+          type: form.type,
+          value: form.type === 'FREE_SHIPPING' ? 0 : Number(form.value || 0),
+          minSubtotal: parseOptionalNumber(form.minSubtotal),
+          usageLimit: parseOptionalNumber(form.usageLimit),
+          usageLimitPerCustomer: parseOptionalNumber(form.usageLimitPerCustomer),
+          startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : undefined,
+          endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : undefined,
+          categories: parseList(form.categories),
+          brandIds: parseList(form.brandIds),
+          productIds: parseList(form.productIds),
+        }),
+      });
+
+      const responseData = await res.json().catch(() => null);
+
+      if (res.ok) {
+        setPromoCodes((prev) => [responseData.data, ...prev]);
+        setForm(EMPTY_FORM);
+        setShowForm(false);
+      } else {
+        setFormError(responseData?.error?.message || 'Failed to create promo code');
+      }
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to create promo code:', error);
+      }
+      setFormError('Failed to create promo code');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleActive(promo: PromoCode) {
+    try {
+      const csrfToken = getCsrfToken();
+
+      const res = await fetch(`/api/promo-codes/${promo.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+        },
+        body: JSON.stringify({ isActive: !promo.isActive }),
+      });
+
+      if (res.ok) {
+        setPromoCodes(
+          promoCodes.map((p) =>
+            p.id === promo.id ? { ...p, isActive: !promo.isActive } : p
+          )
+        );
+      } else {
+        const errorData = await res.json().catch(() => null);
+        alert(errorData?.error?.message || 'Failed to update promo code');
+      }
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to update promo code:', error);
+      }
+      alert('Failed to update promo code');
+    }
+  }
+
+  async function handleDelete(promo: PromoCode) {
+    if (!window.confirm(`Delete promo code ${promo.code}?`)) return;
+
+    try {
+      const csrfToken = getCsrfToken();
+
+      const res = await fetch(`/api/promo-codes/${promo.id}`, {
+        method: 'DELETE',
+        headers: {
+          ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+        },
+      });
+
+      if (res.ok) {
+        setPromoCodes(promoCodes.filter((p) => p.id !== promo.id));
+      } else {
+        const errorData = await res.json().catch(() => null);
+        alert(errorData?.error?.message || 'Failed to delete promo code');
+      }
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to delete promo code:', error);
+      }
+      alert('Failed to delete promo code');
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-muted-foreground">Loading promo codes...</div>
+      </div>
+    );
+  }
+
+  const inputClass =
+    'w-full rounded-lg border border-border px-4 py-2 focus:border-transparent focus:ring-2 focus:ring-ring';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Promo Codes</h1>
+          <p className="mt-2 text-muted-foreground">Create and manage checkout discount codes</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowForm((prev) => !prev)}
+          className="flex items-center rounded-lg bg-primary px-4 py-2 text-primary-foreground hover:bg-primary/90"
+        >
+          <Plus className="mr-2 size-5" />
+          New Promo Code
+        </button>
+      </div>
+
+      {/* Create Form */}
+      {showForm && (
+        <form onSubmit={handleCreate} className="space-y-4 rounded-lg bg-card p-6 shadow">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">Code *</label>
+              <input
+                type="text"
+                required
+                value={form.code}
+                onChange={(e) => updateForm('code', e.target.value.toUpperCase())}
+                placeholder="EARTHDAY20"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">Type *</label>
+              <select
+                value={form.type}
+                onChange={(e) => updateForm('type', e.target.value)}
+                className={inputClass}
+              >
+                <option value="PERCENT">Percent off</option>
+                <option value="FIXED">Fixed amount off</option>
+                <option value="FREE_SHIPPING">Free shipping</option>
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">
+                {form.type === 'PERCENT' ? 'Percent' : 'Amount ($)'}
+              </label>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                disabled={form.type === 'FREE_SHIPPING'}
+                value={form.value}
+                onChange={(e) => updateForm('value', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-foreground">Description</label>
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => updateForm('description', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">Minimum subtotal ($)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={form.minSubtotal}
+                onChange={(e) => updateForm('minSubtotal', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">Total usage limit</label>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={form.usageLimit}
+                onChange={(e) => updateForm('usageLimit', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">Per-customer limit</label>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={form.usageLimitPerCustomer}
+                onChange={(e) => updateForm('usageLimitPerCustomer', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">Starts at</label>
+              <input
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => updateForm('startsAt', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">Ends at</label>
+              <input
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={(e) => updateForm('endsAt', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">Categories</label>
+              <input
+                type="text"
+                value={form.categories}
+                onChange={(e) => updateForm('categories', e.target.value)}
+                placeholder="Comma-separated"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">Brand IDs</label>
+              <input
+                type="text"
+                value={form.brandIds}
+                onChange={(e) => updateForm('brandIds', e.target.value)}
+                placeholder="Comma-separated"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">Product IDs</label>
+              <input
+                type="text"
+                value={form.productIds}
+                onChange={(e) => updateForm('productIds', e.target.value)}
+                placeholder="Comma-separated"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave all scopes empty to apply the code to the entire cart.
+          </p>
+
+          {formError && (
+            <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+              {formError}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-4">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="rounded-lg border border-border px-6 py-2 text-foreground hover:bg-muted"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-primary px-6 py-2 text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              {saving ? 'Creating...' : 'Create Promo Code'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Promo Codes Table */}
+      <div className="overflow-hidden rounded-lg bg-card shadow">
+        <table className="min-w-full divide-y divide-border">
+          <thead className="bg-muted">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Code
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Discount
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Scope
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Usage
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Window
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Status
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border bg-card">
+            {promoCodes.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-8 text-center text-muted-foreground">
+                  No promo codes yet
+                </td>
+              </tr>
+            ) : (
+              promoCodes.map((promo) => (
+                <tr key={promo.id} className="hover:bg-muted">
+                  <td className="whitespace-nowrap px-6 py-4">
+                    <div className="font-mono text-sm font-medium text-foreground">{promo.code}</div>
+                    {promo.description && (
+                      <div className="text-sm text-muted-foreground">{promo.description}</div>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-foreground">
+                    {formatPromoValue(promo)}
+                    {promo.minSubtotal !== null && (
+                      <div className="text-xs text-muted-foreground">
+                        Min ${promo.minSubtotal.toFixed(2)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-muted-foreground">{formatScope(promo)}</td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-foreground">
+                    {promo.usageCount}
+                    {promo.usageLimit !== null ? ` / ${promo.usageLimit}` : ''}
+                    {promo.usageLimitPerCustomer !== null && (
+                      <div className="text-xs text-muted-foreground">
+                        {promo.usageLimitPerCustomer} per customer
+                      </div>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-muted-foreground">
+                    {promo.startsAt ? new Date(promo.startsAt).toLocaleDateString() : 'Now'}
+                    {' – '}
+                    {promo.endsAt ? new Date(promo.endsAt).toLocaleDateString() : 'No end'}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4">
+                    <button
+                      type="button"
+                      onClick={() => toggleActive(promo)}
+                      className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold leading-5 ${
+                        promo.isActive
+                          ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200'
+                          : 'bg-muted text-muted-foreground'
+                      }`}
+                    >
+                      {promo.isActive ? 'Active' : 'Inactive'}
+                    </button>
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-right">
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(promo)}
+                      className="text-red-600 hover:text-red-900 dark:text-red-400"
+                      aria-label={`Delete ${promo.code}`}
+                    >
+                      <Trash2 className="size-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
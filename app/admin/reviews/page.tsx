@@ -0,0 +1,429 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { BadgeCheck, Check, Flag, Star, Trash2, X } from 'lucide-react';
+
+type ReviewStatus = 'PENDING' | 'FLAGGED' | 'APPROVED' | 'REJECTED';
+type ModerationAction = 'approve' | 'reject' | 'flag';
+
+interface AdminReview {
+  id: string;
+  rating: number;
+  comment: string | null;
+  status: ReviewStatus;
+  moderationReason: string | null;
+  moderatedAt: string | null;
+  verifiedPurchase: boolean;
+  helpfulCount: number;
+  merchantReply: string | null;
+  createdAt: string;
+  user: { id: string; name: string | null; email: string };
+  product: { id: string; title: string };
+  photos: { id: string; url: string }[];
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+  total: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+const STATUS_TABS: { value: ReviewStatus; label: string }[] = [
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'FLAGGED', label: 'Flagged' },
+  { value: 'APPROVED', label: 'Approved' },
+  { value: 'REJECTED', label: 'Rejected' },
+];
+
+const ACTION_STATUS: Record<ModerationAction, ReviewStatus> = {
+  approve: 'APPROVED',
+  reject: 'REJECTED',
+  flag: 'FLAGGED',
+};
+
+function getCsrfToken(): string | undefined {
+  return document.cookie
+    .split('; ')
+    .find((c) => c.startsWith('csrf_token='))
+    ?.split('=')[1];
+}
+
+function jsonHeaders(): HeadersInit {
+  const csrfToken = getCsrfToken();
+  return {
+    'Content-Type': 'application/json',
+    ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+  };
+}
+
+export default function AdminReviewsPage() {
+  const [reviews, setReviews] = useState<AdminReview[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [status, setStatus] = useState<ReviewStatus>('PENDING');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [replies, setReplies] = useState<Record<string, string>>({});
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/reviews?status=${status}&page=${page}`);
+      const responseData = await res.json().catch(() => null);
+
+      if (res.ok) {
+        const data: AdminReview[] = responseData?.data || [];
+        setReviews(data);
+        setPagination(responseData?.meta?.pagination || null);
+        setReplies(Object.fromEntries(data.map((review) => [review.id, review.merchantReply || ''])));
+        setError(null);
+      } else {
+        setError(responseData?.error?.message || 'Failed to load reviews');
+      }
+    } catch (err) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to fetch reviews:', err);
+      }
+      setError('Failed to load reviews');
+    } finally {
+      setLoading(false);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  function selectStatus(next: ReviewStatus) {
+    setLoading(true);
+    setStatus(next);
+    setPage(1);
+    setMessage(null);
+  }
+
+  async function moderate(review: AdminReview, action: ModerationAction) {
+    const reason = reasons[review.id]?.trim();
+    if (action !== 'approve' && !reason) {
+      setError('Add a reason before rejecting or flagging a review');
+      return;
+    }
+
+    setBusyId(review.id);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const res = await fetch(`/api/reviews/${review.id}`, {
+        method: 'PATCH',
+        headers: jsonHeaders(),
+        body: JSON.stringify({ action, reason: reason || undefined }),
+      });
+      const responseData = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        setError(responseData?.error?.message || 'Failed to moderate review');
+        return;
+      }
+
+      const pointsNote = responseData?.data?.pointsAwarded ? ' Review points awarded.' : '';
+      setMessage(`Review ${ACTION_STATUS[action].toLowerCase()}.${pointsNote}`);
+      fetchReviews();
+    } catch (err) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to moderate review:', err);
+      }
+      setError('Failed to moderate review');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function deleteReview(review: AdminReview) {
+    if (!window.confirm('Permanently delete this review? This cannot be undone.')) {
+      return;
+    }
+
+    setBusyId(review.id);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const res = await fetch(`/api/reviews/${review.id}`, {
+        method: 'DELETE',
+        headers: jsonHeaders(),
+      });
+      const responseData = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        setError(responseData?.error?.message || 'Failed to delete review');
+        return;
+      }
+
+      setMessage('Review deleted.');
+      fetchReviews();
+    } catch (err) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to delete review:', err);
+      }
+      setError('Failed to delete review');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function saveReply(review: AdminReview) {
+    setBusyId(review.id);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const reply = replies[review.id]?.trim() || null;
+      const res = await fetch(`/api/reviews/${review.id}/reply`, {
+        method: 'PUT',
+        headers: jsonHeaders(),
+        body: JSON.stringify({ reply }),
+      });
+      const responseData = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        setError(responseData?.error?.message || 'Failed to save reply');
+        return;
+      }
+
+      setMessage(reply ? 'Reply saved.' : 'Reply removed.');
+      fetchReviews();
+    } catch (err) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to save reply:', err);
+      }
+      setError('Failed to save reply');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Reviews</h1>
+        <p className="mt-2 text-muted-foreground">
+          Moderate customer reviews before they appear on product pages
+        </p>
+      </div>
+
+      {/* Status tabs */}
+      <div className="flex gap-2 border-b border-border">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => selectStatus(tab.value)}
+            className={`-mb-px border-b-2 px-4 py-2 text-sm font-medium ${
+              status === tab.value
+                ? 'border-primary text-foreground'
+                : 'border-transparent text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-800 dark:bg-red-950/40 dark:text-red-200">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="rounded-lg bg-green-50 p-3 text-sm text-green-800 dark:bg-green-950/40 dark:text-green-200">
+          {message}
+        </div>
+      )}
+
+      {/* Reviews */}
+      {loading ? (
+        <p className="py-8 text-center text-muted-foreground">Loading reviews...</p>
+      ) : reviews.length === 0 ? (
+        <p className="py-8 text-center text-muted-foreground">No {status.toLowerCase()} reviews</p>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map((review) => {
+            const busy = busyId === review.id;
+
+            return (
+              <div key={review.id} className="rounded-lg bg-card p-6 shadow">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <Link
+                      href={`/products/${review.product.id}`}
+                      className="font-semibold text-foreground hover:underline"
+                    >
+                      {review.product.title}
+                    </Link>
+                    <p className="text-sm text-muted-foreground">
+                      {review.user.name || 'Anonymous'} ({review.user.email}) ·{' '}
+                      {new Date(review.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 text-sm">
+                    {review.verifiedPurchase && (
+                      <span className="inline-flex items-center gap-1 text-green-700 dark:text-green-400">
+                        <BadgeCheck className="size-4" />
+                        Verified purchase
+                      </span>
+                    )}
+                    <span className="text-muted-foreground">{review.helpfulCount} helpful</span>
+                  </div>
+                </div>
+
+                <div className="my-3 flex items-center gap-1">
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <Star
+                      key={star}
+                      className={`size-4 ${
+                        star <= review.rating ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground/40'
+                      }`}
+                    />
+                  ))}
+                </div>
+
+                {review.comment ? (
+                  <p className="whitespace-pre-wrap text-foreground">{review.comment}</p>
+                ) : (
+                  <p className="text-sm italic text-muted-foreground">No comment</p>
+                )}
+
+                {review.photos.length > 0 && (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {review.photos.map((photo) => (
+                      <a key={photo.id} href={photo.url} target="_blank" rel="noopener noreferrer">
+                        <Image
+                          src={photo.url}
+                          alt="Review photo"
+                          width={96}
+                          height={96}
+                          unoptimized
+                          className="size-24 rounded-md object-cover"
+                        />
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                {review.moderationReason && (
+                  <p className="mt-3 text-sm text-muted-foreground">
+                    <span className="font-medium text-foreground">Moderation note:</span>{' '}
+                    {review.moderationReason}
+                  </p>
+                )}
+
+                {/* Moderation */}
+                <div className="mt-4 flex flex-col gap-3 md:flex-row md:items-center">
+                  <input
+                    type="text"
+                    placeholder="Reason (required to reject or flag)"
+                    value={reasons[review.id] || ''}
+                    onChange={(e) => setReasons((prev) => ({ ...prev, [review.id]: e.target.value }))}
+                    maxLength={500}
+                    className="flex-1 rounded-lg border border-border px-4 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-ring"
+                  />
+                  <div className="flex gap-2">
+                    {review.status !== 'APPROVED' && (
+                      <button
+                        onClick={() => moderate(review, 'approve')}
+                        disabled={busy}
+                        className="inline-flex items-center gap-1 rounded-lg bg-green-600 px-3 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <Check className="size-4" />
+                        Approve
+                      </button>
+                    )}
+                    {review.status !== 'REJECTED' && (
+                      <button
+                        onClick={() => moderate(review, 'reject')}
+                        disabled={busy}
+                        className="inline-flex items-center gap-1 rounded-lg bg-red-600 px-3 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+                      >
+                        <X className="size-4" />
+                        Reject
+                      </button>
+                    )}
+                    {review.status !== 'FLAGGED' && (
+                      <button
+                        onClick={() => moderate(review, 'flag')}
+                        disabled={busy}
+                        className="inline-flex items-center gap-1 rounded-lg border border-border px-3 py-2 text-sm font-medium text-foreground hover:bg-muted disabled:opacity-50"
+                      >
+                        <Flag className="size-4" />
+                        Flag
+                      </button>
+                    )}
+                    <button
+                      onClick={() => deleteReview(review)}
+                      disabled={busy}
+                      aria-label="Delete review"
+                      className="inline-flex items-center rounded-lg border border-border px-3 py-2 text-sm text-red-600 hover:bg-muted disabled:opacity-50 dark:text-red-400"
+                    >
+                      <Trash2 className="size-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Merchant reply */}
+                <div className="mt-4">
+                  <label className="mb-1 block text-sm font-medium text-foreground">Public reply</label>
+                  <textarea
+                    value={replies[review.id] || ''}
+                    onChange={(e) => setReplies((prev) => ({ ...prev, [review.id]: e.target.value }))}
+                    rows={2}
+                    maxLength={1000}
+                    placeholder="Respond publicly to this review"
+                    className="w-full rounded-lg border border-border px-4 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-ring"
+                  />
+                  <button
+                    onClick={() => saveReply(review)}
+                    disabled={busy || (replies[review.id] || '') === (review.merchantReply || '')}
+                    className="mt-2 rounded-lg bg-primary px-3 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+                  >
+                    Save reply
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            Page {pagination.page} of {pagination.totalPages} ({pagination.total} reviews)
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage((p) => p - 1)}
+              disabled={!pagination.hasPreviousPage}
+              className="rounded-lg border border-border px-3 py-1 hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={!pagination.hasNextPage}
+              className="rounded-lg border border-border px-3 py-1 hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,470 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ShippingRate {
+  name: string;
+  speed: 'standard' | 'express';
+  basis: 'subtotal' | 'weight';
+  minThreshold: number;
+  maxThreshold: number | null;
+  price: number;
+  minDeliveryDays: number;
+  maxDeliveryDays: number;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+interface ShippingZone {
+  id: string | null;
+  name: string;
+  countries: string[];
+  states: string[];
+  priority: number;
+  isActive: boolean;
+  rates: ShippingRate[];
+}
+
+// Draft zones are edited with comma-separated country/state inputs
+interface ZoneDraft extends Omit<ShippingZone, 'countries' | 'states'> {
+  key: string;
+  countries: string;
+  states: string;
+}
+
+const NEW_RATE: ShippingRate = {
+  name: 'Standard Shipping',
+  speed: 'standard',
+  basis: 'subtotal',
+  minThreshold: 0,
+  maxThreshold: null,
+  price: 5.99,
+  minDeliveryDays: 5,
+  maxDeliveryDays: 7,
+  sortOrder: 0,
+  isActive: true,
+};
+
+function getCsrfToken(): string | undefined {
+  return document.cookie
+    .split('; ')
+    .find((c) => c.startsWith('csrf_token='))
+    ?.split('=')[1];
+}
+
+function toDraft(zone: ShippingZone): ZoneDraft {
+  return {
+    ...zone,
+    key: zone.id ?? `new-${Date.now()}`,
+    countries: zone.countries.join(', '),
+    states: zone.states.join(', '),
+  };
+}
+
+function parseCodes(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+export default function AdminShippingPage() {
+  const [zones, setZones] = useState<ZoneDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const fetchZones = useCallback(async () => {
+    try {
+      const res = await fetch('/api/shipping/zones');
+      if (res.ok) {
+        const responseData = await res.json();
+        setZones((responseData.data || []).map(toDraft));
+      }
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to fetch shipping zones:', error);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchZones();
+  }, [fetchZones]);
+
+  function updateZone(key: string, changes: Partial<ZoneDraft>) {
+    setZones((prev) => prev.map((z) => (z.key === key ? { ...z, ...changes } : z)));
+  }
+
+  function updateRate(key: string, index: number, changes: Partial<ShippingRate>) {
+    setZones((prev) =>
+      prev.map((z) =>
+        z.key === key
+          ? { ...z, rates: z.rates.map((r, i) => (i === index ? { ...r, ...changes } : r)) }
+          : z
+      )
+    );
+  }
+
+  function addRate(key: string) {
+    setZones((prev) =>
+      prev.map((z) =>
+        z.key === key
+          ? { ...z, rates: [...z.rates, { ...NEW_RATE, sortOrder: z.rates.length }] }
+          : z
+      )
+    );
+  }
+
+  function removeRate(key: string, index: number) {
+    setZones((prev) =>
+      prev.map((z) =>
+        z.key === key ? { ...z, rates: z.rates.filter((_, i) => i !== index) } : z
+      )
+    );
+  }
+
+  function addZone() {
+    setZones((prev) => [
+      ...prev,
+      toDraft({
+        id: null,
+        name: 'New Zone',
+        countries: ['US'],
+        states: [],
+        priority: 0,
+        isActive: true,
+        rates: [NEW_RATE],
+      }),
+    ]);
+  }
+
+  async function saveZone(zone: ZoneDraft) {
+    setSavingKey(zone.key);
+
+    try {
+      const csrfToken = getCsrfToken();
+
+      const res = await fetch(zone.id ? `/api/shipping/zones/${zone.id}` : '/api/shipping/zones', {
+        method: zone.id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+        },
+        body: JSON.stringify({
+          name: zone.name,
+          countries: parseCodes(zone.countries),
+          states: parseCodes(zone.states),
+          priority: zone.priority,
+          isActive: zone.isActive,
+          rates: zone.rates,
+        }),
+      });
+
+      const responseData = await res.json().catch(() => null);
+
+      if (res.ok) {
+        const saved = toDraft(responseData.data);
+        setZones((prev) => prev.map((z) => (z.key === zone.key ? saved : z)));
+      } else {
+        alert(responseData?.error?.message || 'Failed to save shipping zone');
+      }
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to save shipping zone:', error);
+      }
+      alert('Failed to save shipping zone');
+    } finally {
+      setSavingKey(null);
+    }
+  }
+
+  async function deleteZone(zone: ZoneDraft) {
+    if (!zone.id) {
+      setZones((prev) => prev.filter((z) => z.key !== zone.key));
+      return;
+    }
+
+    if (!window.confirm(`Delete shipping zone "${zone.name}"?`)) return;
+
+    try {
+      const csrfToken = getCsrfToken();
+
+      const res = await fetch(`/api/shipping/zones/${zone.id}`, {
+        method: 'DELETE',
+        headers: {
+          ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+        },
+      });
+
+      if (res.ok) {
+        setZones((prev) => prev.filter((z) => z.key !== zone.key));
+      } else {
+        const errorData = await res.json().catch(() => null);
+        alert(errorData?.error?.message || 'Failed to delete shipping zone');
+      }
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to delete shipping zone:', error);
+      }
+      alert('Failed to delete shipping zone');
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-muted-foreground">Loading shipping zones...</div>
+      </div>
+    );
+  }
+
+  const inputClass =
+    'w-full rounded border border-border px-2 py-1 text-sm focus:border-transparent focus:ring-2 focus:ring-ring';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Shipping</h1>
+          <p className="mt-2 text-muted-foreground">
+            Configure shipping zones and rate tiers. Destinations without a matching zone use the
+            default rates (free over $75, $5.99 standard, $14.99 express).
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={addZone}
+          className="flex items-center rounded-lg bg-primary px-4 py-2 text-primary-foreground hover:bg-primary/90"
+        >
+          <Plus className="mr-2 size-5" />
+          New Zone
+        </button>
+      </div>
+
+      {zones.length === 0 && (
+        <div className="rounded-lg bg-card p-8 text-center text-muted-foreground shadow">
+          No shipping zones configured
+        </div>
+      )}
+
+      {zones.map((zone) => (
+        <div key={zone.key} className="space-y-4 rounded-lg bg-card p-6 shadow">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-5">
+            <div className="md:col-span-2">
+              <label className="mb-1 block text-sm font-medium text-foreground">Zone name</label>
+              <input
+                type="text"
+                value={zone.name}
+                onChange={(e) => updateZone(zone.key, { name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">Countries</label>
+              <input
+                type="text"
+                value={zone.countries}
+                onChange={(e) => updateZone(zone.key, { countries: e.target.value })}
+                placeholder="US, CA"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">States</label>
+              <input
+                type="text"
+                value={zone.states}
+                onChange={(e) => updateZone(zone.key, { states: e.target.value })}
+                placeholder="All"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-foreground">Priority</label>
+              <input
+                type="number"
+                min={0}
+                value={zone.priority}
+                onChange={(e) => updateZone(zone.key, { priority: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={zone.isActive}
+              onChange={(e) => updateZone(zone.key, { isActive: e.target.checked })}
+              className="size-4 rounded border-border"
+            />
+            Active
+          </label>
+
+          <table className="min-w-full divide-y divide-border">
+            <thead className="bg-muted">
+              <tr>
+                {['Name', 'Speed', 'Basis', 'Min', 'Max', 'Price ($)', 'Days', 'Active', ''].map(
+                  (heading) => (
+                    <th
+                      key={heading}
+                      className="p-2 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground"
+                    >
+                      {heading}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {zone.rates.map((rate, index) => (
+                <tr key={index}>
+                  <td className="p-2">
+                    <input
+                      type="text"
+                      value={rate.name}
+                      onChange={(e) => updateRate(zone.key, index, { name: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <select
+                      value={rate.speed}
+                      onChange={(e) =>
+                        updateRate(zone.key, index, { speed: e.target.value as ShippingRate['speed'] })
+                      }
+                      className={inputClass}
+                    >
+                      <option value="standard">Standard</option>
+                      <option value="express">Express</option>
+                    </select>
+                  </td>
+                  <td className="p-2">
+                    <select
+                      value={rate.basis}
+                      onChange={(e) =>
+                        updateRate(zone.key, index, { basis: e.target.value as ShippingRate['basis'] })
+                      }
+                      className={inputClass}
+                    >
+                      <option value="subtotal">Subtotal ($)</option>
+                      <option value="weight">Weight (g)</option>
+                    </select>
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      min={0}
+                      value={rate.minThreshold}
+                      onChange={(e) =>
+                        updateRate(zone.key, index, { minThreshold: Number(e.target.value) })
+                      }
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      min={0}
+                      value={rate.maxThreshold ?? ''}
+                      placeholder="None"
+                      onChange={(e) =>
+                        updateRate(zone.key, index, {
+                          maxThreshold: e.target.value === '' ? null : Number(e.target.value),
+                        })
+                      }
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={rate.price}
+                      onChange={(e) => updateRate(zone.key, index, { price: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <div className="flex items-center gap-1">
+                      <input
+                        type="number"
+                        min={0}
+                        value={rate.minDeliveryDays}
+                        onChange={(e) =>
+                          updateRate(zone.key, index, { minDeliveryDays: Number(e.target.value) })
+                        }
+                        className={inputClass}
+                      />
+                      <span className="text-muted-foreground">–</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={rate.maxDeliveryDays}
+                        onChange={(e) =>
+                          updateRate(zone.key, index, { maxDeliveryDays: Number(e.target.value) })
+                        }
+                        className={inputClass}
+                      />
+                    </div>
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="checkbox"
+                      checked={rate.isActive}
+                      onChange={(e) => updateRate(zone.key, index, { isActive: e.target.checked })}
+                      className="size-4 rounded border-border"
+                    />
+                  </td>
+                  <td className="p-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => removeRate(zone.key, index)}
+                      className="text-red-600 hover:text-red-900 dark:text-red-400"
+                      aria-label="Remove rate"
+                    >
+                      <Trash2 className="size-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => addRate(zone.key)}
+              className="flex items-center text-sm text-primary hover:underline"
+            >
+              <Plus className="mr-1 size-4" />
+              Add rate
+            </button>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => deleteZone(zone)}
+                className="rounded-lg border border-border px-4 py-2 text-sm text-red-600 hover:bg-muted dark:text-red-400"
+              >
+                Delete Zone
+              </button>
+              <button
+                type="button"
+                onClick={() => saveZone(zone)}
+                disabled={savingKey === zone.key}
+                className="rounded-lg bg-primary px-4 py-2 text-sm text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              >
+                {savingKey === zone.key ? 'Saving...' : 'Save Zone'}
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
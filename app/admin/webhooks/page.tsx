@@ -0,0 +1,342 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RefreshCw, RotateCcw } from 'lucide-react';
+
+interface WebhookEvent {
+  id: string;
+  eventId: string;
+  endpoint: string;
+  type: string;
+  status: string;
+  attempts: number;
+  lastError: string | null;
+  processingMs: number | null;
+  receivedAt: string;
+  processedAt: string | null;
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+  total: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+const STATUS_FILTERS = ['', 'FAILED', 'RECEIVED', 'PROCESSED'] as const;
+
+const STATUS_STYLES: Record<string, string> = {
+  PROCESSED: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+  FAILED: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200',
+  RECEIVED: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200',
+};
+
+function getCsrfToken(): string | undefined {
+  return document.cookie
+    .split('; ')
+    .find((c) => c.startsWith('csrf_token='))
+    ?.split('=')[1];
+}
+
+export default function AdminWebhooksPage() {
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [status, setStatus] = useState('');
+  const [endpoint, setEndpoint] = useState('');
+  const [typeDraft, setTypeDraft] = useState('');
+  const [type, setType] = useState('');
+  const [page, setPage] = useState(1);
+  const [version, setVersion] = useState(0);
+  const [openEventId, setOpenEventId] = useState<string | null>(null);
+  const [payload, setPayload] = useState<unknown>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchEvents() {
+      const params = new URLSearchParams({ page: String(page) });
+      if (status) params.set('status', status);
+      if (endpoint) params.set('endpoint', endpoint);
+      if (type) params.set('type', type);
+
+      try {
+        const res = await fetch(`/api/webhook-events?${params.toString()}`);
+        const responseData = await res.json().catch(() => null);
+
+        if (res.ok) {
+          setEvents(responseData?.data || []);
+          setPagination(responseData?.meta?.pagination || null);
+        } else {
+          setError(responseData?.error?.message || 'Failed to load webhook events');
+        }
+      } catch {
+        setError('Failed to load webhook events');
+      }
+    }
+
+    fetchEvents();
+  }, [status, endpoint, type, page, version]);
+
+  useEffect(() => {
+    if (!openEventId) return;
+
+    async function fetchPayload() {
+      try {
+        const res = await fetch(`/api/webhook-events/${openEventId}`);
+        const responseData = await res.json().catch(() => null);
+
+        if (res.ok) {
+          setPayload(responseData?.data?.payload ?? null);
+        } else {
+          setError(responseData?.error?.message || 'Failed to load event payload');
+        }
+      } catch {
+        setError('Failed to load event payload');
+      }
+    }
+
+    fetchPayload();
+  }, [openEventId]);
+
+  function toggleEvent(id: string) {
+    setPayload(null);
+    setOpenEventId(openEventId === id ? null : id);
+  }
+
+  async function replayEvent(event: WebhookEvent) {
+    if (!confirm(`Replay ${event.type} (${event.eventId}) through the ${event.endpoint} handler?`)) {
+      return;
+    }
+
+    setReplayingId(event.id);
+    setNotice(null);
+    setError(null);
+
+    try {
+      const csrfToken = getCsrfToken();
+      const res = await fetch(`/api/webhook-events/${event.id}/replay`, {
+        method: 'POST',
+        headers: csrfToken ? { 'X-CSRF-Token': csrfToken } : {},
+      });
+      const responseData = await res.json().catch(() => null);
+
+      if (res.ok) {
+        setNotice(`Replayed ${event.eventId}`);
+      } else {
+        setError(responseData?.error?.message || 'Replay failed');
+      }
+    } catch {
+      setError('Replay failed');
+    } finally {
+      setReplayingId(null);
+      setVersion((v) => v + 1);
+    }
+  }
+
+  const openEvent = events.find((event) => event.id === openEventId);
+
+  function applyType(e: React.FormEvent) {
+    e.preventDefault();
+    setPage(1);
+    setType(typeDraft.trim());
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Webhooks</h1>
+          <p className="mt-2 text-muted-foreground">
+            Stripe events as received, with the outcome of each processing attempt
+          </p>
+        </div>
+        <button
+          onClick={() => setVersion((v) => v + 1)}
+          className="inline-flex items-center gap-2 rounded-lg border border-border px-4 py-2 text-sm font-medium text-foreground hover:bg-muted"
+        >
+          <RefreshCw className="size-4" />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-800 dark:bg-red-950/40 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="rounded-lg bg-green-50 p-3 text-sm text-green-800 dark:bg-green-950/40 dark:text-green-200">
+          {notice}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex gap-2">
+          {STATUS_FILTERS.map((option) => (
+            <button
+              key={option || 'all'}
+              onClick={() => {
+                setPage(1);
+                setStatus(option);
+              }}
+              className={`rounded-lg border border-border px-3 py-1 text-sm ${
+                status === option ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+              }`}
+            >
+              {option ? option.charAt(0) + option.slice(1).toLowerCase() : 'All'}
+            </button>
+          ))}
+        </div>
+        <select
+          value={endpoint}
+          onChange={(e) => {
+            setPage(1);
+            setEndpoint(e.target.value);
+          }}
+          className="rounded-lg border border-border bg-background px-3 py-1 text-sm text-foreground"
+        >
+          <option value="">All endpoints</option>
+          <option value="checkout">Checkout</option>
+          <option value="subscriptions">Subscriptions</option>
+        </select>
+        <form onSubmit={applyType} className="flex gap-2">
+          <input
+            value={typeDraft}
+            onChange={(e) => setTypeDraft(e.target.value)}
+            placeholder="Event type, e.g. invoice.paid"
+            className="rounded-lg border border-border bg-background px-3 py-1 text-sm text-foreground"
+          />
+          <button
+            type="submit"
+            className="rounded-lg border border-border px-3 py-1 text-sm hover:bg-muted"
+          >
+            Filter
+          </button>
+        </form>
+      </div>
+
+      {/* Events */}
+      <div className="overflow-hidden rounded-lg bg-card shadow">
+        <table className="min-w-full divide-y divide-border">
+          <thead className="bg-muted">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Received
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Type
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Endpoint
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Status
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Attempts
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Time
+              </th>
+              <th className="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border bg-card">
+            {events.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-8 text-center text-muted-foreground">
+                  No webhook events
+                </td>
+              </tr>
+            ) : (
+              events.map((event) => (
+                <tr
+                  key={event.id}
+                  onClick={() => toggleEvent(event.id)}
+                  className={`cursor-pointer hover:bg-muted ${openEventId === event.id ? 'bg-muted' : ''}`}
+                >
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-muted-foreground">
+                    {new Date(event.receivedAt).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className="block font-mono text-sm text-foreground">{event.type}</span>
+                    <span className="block font-mono text-xs text-muted-foreground">
+                      {event.eventId}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-foreground">{event.endpoint}</td>
+                  <td className="px-6 py-4">
+                    <span
+                      className={`rounded px-2 py-1 text-xs font-medium ${STATUS_STYLES[event.status] || ''}`}
+                    >
+                      {event.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-foreground">{event.attempts}</td>
+                  <td className="px-6 py-4 text-sm text-muted-foreground">
+                    {event.processingMs !== null ? `${event.processingMs} ms` : '-'}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        replayEvent(event);
+                      }}
+                      disabled={replayingId !== null}
+                      className="inline-flex items-center gap-1 rounded-lg border border-border px-3 py-1 text-sm hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      <RotateCcw className="size-4" />
+                      {replayingId === event.id ? 'Replaying...' : 'Replay'}
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {openEvent && (
+        <div className="space-y-3 rounded-lg bg-card p-4 shadow">
+          <p className="font-mono text-sm text-foreground">{openEvent.eventId}</p>
+          {openEvent.lastError && (
+            <p className="text-sm text-red-700 dark:text-red-300">Last error: {openEvent.lastError}</p>
+          )}
+          <pre className="max-h-[480px] overflow-auto rounded border border-border bg-background p-4 text-xs text-foreground">
+            {payload ? JSON.stringify(payload, null, 2) : 'Loading...'}
+          </pre>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            Page {pagination.page} of {pagination.totalPages} ({pagination.total} events)
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage((p) => p - 1)}
+              disabled={!pagination.hasPreviousPage}
+              className="rounded-lg border border-border px-3 py-1 hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={!pagination.hasNextPage}
+              className="rounded-lg border border-border px-3 py-1 hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { BellOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { unsubscribeProductAlert } from "@/lib/product-alerts";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Unsubscribe from Alert",
+  robots: { index: false, follow: false },
+};
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * One-click unsubscribe target for back-in-stock and price-drop alert emails.
+ */
+export default async function AlertUnsubscribePage({ searchParams }: UnsubscribePageProps) {
+  const { token } = await searchParams;
+  const unsubscribed = token ? await unsubscribeProductAlert(token) : false;
+
+  return (
+    <div className="container flex min-h-[calc(100vh-200px)] flex-col items-center justify-center px-4 py-16 text-center">
+      <div className="mb-6 inline-flex size-20 items-center justify-center rounded-full bg-muted">
+        <BellOff className="size-10 text-muted-foreground" />
+      </div>
+      <h1 className="mb-3 text-2xl font-semibold sm:text-3xl">
+        {unsubscribed ? "You're unsubscribed" : "Link not recognised"}
+      </h1>
+      <p className="mx-auto mb-8 max-w-md text-muted-foreground">
+        {unsubscribed
+          ? "We won't email you about this product again."
+          : "This unsubscribe link is invalid or has expired. If you keep receiving alerts, please contact us."}
+      </p>
+      <Button asChild>
+        <Link href="/products">Continue shopping</Link>
+      </Button>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { getServerAuth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { refreshProductRating } from "@/lib/reviews";
 import bcrypt from "bcryptjs";
 import { z } from "zod";
 import {
@@ -93,8 +94,8 @@ export async function DELETE(request: Request) {
     // Delete user and all associated data in a transaction
     // Prisma cascades will handle related records:
     // - Profile (onDelete: Cascade)
-    // - Reviews (onDelete: Cascade)
-    // CartItems, SavedItems, and Orders reference userId but don't cascade
+    // CartItems, SavedItems, and Orders reference userId but don't cascade,
+    // and Reviews feed product rating aggregates
     // We need to handle those explicitly
     await prisma.$transaction(async (tx) => {
       // Delete user's cart items
@@ -119,7 +120,26 @@ export async function DELETE(request: Request) {
         },
       });
 
-      // Delete the user (this will cascade to Profile and Reviews)
+      // Delete the user's reviews up front so the affected products'
+      // rating aggregates can be recomputed without them
+      const reviewedProducts = await tx.review.findMany({
+        where: { userId },
+        select: { productId: true },
+        distinct: ["productId"],
+      });
+      await tx.review.deleteMany({
+        where: { userId },
+      });
+      for (const { productId } of reviewedProducts) {
+        await refreshProductRating(productId, tx);
+      }
+
+      // Delete the user's product alerts (they hold the account email)
+      await tx.productAlert.deleteMany({
+        where: { userId },
+      });
+
+      // Delete the user (this will cascade to Profile)
       await tx.user.delete({
         where: { id: userId },
       });
@@ -0,0 +1,66 @@
+import { getServerAuth } from "@/lib/auth";
+import { unlinkAccount } from "@/lib/oauth-accounts";
+import {
+  successResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  handleApiError,
+  errorResponse,
+  rateLimitErrorResponse,
+} from "@/lib/api-response";
+import { checkStrictRateLimit, getIdentifier } from "@/lib/rate-limit";
+import { validateCsrfToken } from "@/lib/csrf";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * DELETE /api/account/linked-accounts/[id]
+ *
+ * Unlinks an OAuth account from the current user. The last sign-in method
+ * of an account without a password cannot be removed.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfValid = await validateCsrfToken(request);
+    if (!csrfValid) {
+      return errorResponse(
+        "Invalid or missing CSRF token",
+        "CSRF_VALIDATION_FAILED",
+        undefined,
+        403
+      );
+    }
+
+    const { userId } = await getServerAuth();
+
+    if (!userId) {
+      return unauthorizedResponse("You must be logged in to unlink an account");
+    }
+
+    const identifier = getIdentifier(request, userId);
+    const { success, reset } = await checkStrictRateLimit(identifier);
+
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    const { id } = await params;
+    const result = await unlinkAccount(userId, id);
+
+    if (!result.success) {
+      if (result.code === "NOT_FOUND") {
+        return notFoundResponse("Linked account");
+      }
+      return errorResponse(result.error, result.code, undefined, 400);
+    }
+
+    return successResponse({ message: "Account unlinked" });
+  } catch (error) {
+    logger.error("Failed to unlink account", error);
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,110 @@
+import { getServerAuth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { setLinkIntentCookie } from "@/lib/oauth-accounts";
+import { getOAuthProviderIds } from "@/lib/oauth-providers";
+import { verifyTwoFactorCode } from "@/lib/two-factor";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import {
+  successResponse,
+  unauthorizedResponse,
+  handleApiError,
+  validationErrorResponse,
+  errorResponse,
+  rateLimitErrorResponse,
+} from "@/lib/api-response";
+import { checkStrictRateLimit, getIdentifier } from "@/lib/rate-limit";
+import { validateCsrfToken } from "@/lib/csrf";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic'
+
+const linkAccountSchema = z.object({
+  provider: z.string().min(1, "Provider is required"),
+  password: z.string().optional(),
+  code: z.string().max(32).optional(),
+});
+
+/**
+ * POST /api/account/linked-accounts/link
+ *
+ * Re-authenticates the current user and arms a short-lived link intent.
+ * The client then starts the provider sign-in, and the OAuth callback links
+ * the identity to this account.
+ *
+ * Password accounts must enter their password (and a two-factor code when
+ * enabled). Accounts without a password are already proven through a
+ * linked provider.
+ *
+ * Body: { provider: string, password?: string, code?: string }
+ */
+export async function POST(request: Request) {
+  try {
+    // CSRF protection - Critical for sign-in methods
+    const csrfValid = await validateCsrfToken(request);
+    if (!csrfValid) {
+      return errorResponse(
+        "Invalid or missing CSRF token",
+        "CSRF_VALIDATION_FAILED",
+        undefined,
+        403
+      );
+    }
+
+    const { userId } = await getServerAuth();
+
+    if (!userId) {
+      return unauthorizedResponse("You must be logged in to link an account");
+    }
+
+    const identifier = getIdentifier(request, userId);
+    const { success, reset } = await checkStrictRateLimit(identifier);
+
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    const body = await request.json();
+
+    const validation = linkAccountSchema.safeParse(body);
+    if (!validation.success) {
+      return validationErrorResponse(validation.error);
+    }
+
+    const { provider, password, code } = validation.data;
+
+    if (!getOAuthProviderIds().includes(provider)) {
+      return errorResponse("This sign-in provider is not available", undefined, undefined, 400);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { password: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      return unauthorizedResponse("User not found");
+    }
+
+    if (user.password) {
+      const isPasswordValid = !!password && (await bcrypt.compare(password, user.password));
+      if (!isPasswordValid) {
+        return errorResponse("Password is incorrect", undefined, undefined, 400);
+      }
+    }
+
+    if (user.twoFactorEnabled) {
+      const isCodeValid = !!code && (await verifyTwoFactorCode(userId, code));
+      if (!isCodeValid) {
+        return errorResponse("Invalid authentication code", "INVALID_CODE", undefined, 400);
+      }
+    }
+
+    await setLinkIntentCookie({ userId, provider });
+
+    return successResponse({ provider });
+  } catch (error) {
+    logger.error("Failed to start account linking", error);
+    return handleApiError(error);
+  }
+}
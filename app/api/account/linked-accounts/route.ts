@@ -0,0 +1,45 @@
+import { getServerAuth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { listLinkedAccounts } from "@/lib/oauth-accounts";
+import {
+  successResponse,
+  unauthorizedResponse,
+  handleApiError,
+} from "@/lib/api-response";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/account/linked-accounts
+ *
+ * Lists the OAuth accounts linked to the current user, plus whether the user
+ * has a password and two-factor authentication, which decide what linking
+ * asks for and what can be unlinked
+ */
+export async function GET() {
+  try {
+    const { userId } = await getServerAuth();
+
+    if (!userId) {
+      return unauthorizedResponse("You must be logged in to view linked accounts");
+    }
+
+    const [accounts, user] = await Promise.all([
+      listLinkedAccounts(userId),
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { password: true, twoFactorEnabled: true },
+      }),
+    ]);
+
+    return successResponse({
+      accounts,
+      hasPassword: !!user?.password,
+      twoFactorEnabled: !!user?.twoFactorEnabled,
+    });
+  } catch (error) {
+    logger.error("Failed to fetch linked accounts", error);
+    return handleApiError(error);
+  }
+}
@@ -19,8 +19,22 @@ export const dynamic = 'force-dynamic'
 const updateProfileSchema = z.object({
   name: z.string().min(1, "Name is required").max(100, "Name must be less than 100 characters").optional(),
   email: z.string().email("Invalid email address").optional(),
+  // YYYY-MM-DD; null clears it. Used for the loyalty birthday bonus.
+  birthday: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Birthday must be a date in YYYY-MM-DD format")
+    .refine((value) => {
+      const date = new Date(`${value}T00:00:00.000Z`);
+      return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value) && date < new Date();
+    }, "Birthday must be a valid date in the past")
+    .nullable()
+    .optional(),
 });
 
+function formatBirthday(birthday: Date | null | undefined): string | null {
+  return birthday ? birthday.toISOString().slice(0, 10) : null;
+}
+
 /**
  * GET /api/account/profile
  *
@@ -54,6 +68,7 @@ export async function GET(request: Request) {
         Profile: {
           select: {
             bio: true,
+            birthday: true,
           },
         },
       },
@@ -71,6 +86,7 @@ export async function GET(request: Request) {
       role: user.role,
       createdAt: user.createdAt,
       bio: user.Profile?.bio || null,
+      birthday: formatBirthday(user.Profile?.birthday),
     });
   } catch (error) {
     logger.error("Failed to fetch profile", error);
@@ -82,7 +98,7 @@ export async function GET(request: Request) {
  * PATCH /api/account/profile
  *
  * Updates the current user's profile information
- * Body: { name?: string, email?: string }
+ * Body: { name?: string, email?: string, birthday?: string | null }
  */
 export async function PATCH(request: Request) {
   try {
@@ -119,10 +135,10 @@ export async function PATCH(request: Request) {
       return validationErrorResponse(validation.error);
     }
 
-    const { name, email } = validation.data;
+    const { name, email, birthday } = validation.data;
 
     // Check if nothing to update
-    if (!name && !email) {
+    if (!name && !email && birthday === undefined) {
       return errorResponse("No fields to update", undefined, undefined, 400);
     }
 
@@ -142,10 +158,23 @@ export async function PATCH(request: Request) {
     if (name) updateData.name = name;
     if (email) updateData.email = email;
 
-    // Update user
+    const birthdayDate =
+      birthday === undefined ? undefined : birthday === null ? null : new Date(`${birthday}T00:00:00.000Z`);
+
+    // Update user (and profile birthday, creating the profile if needed)
     const updatedUser = await prisma.user.update({
       where: { id: userId },
-      data: updateData,
+      data: {
+        ...updateData,
+        ...(birthdayDate !== undefined && {
+          Profile: {
+            upsert: {
+              create: { birthday: birthdayDate },
+              update: { birthday: birthdayDate },
+            },
+          },
+        }),
+      },
       select: {
         id: true,
         name: true,
@@ -153,12 +182,24 @@ export async function PATCH(request: Request) {
         image: true,
         role: true,
         createdAt: true,
+        Profile: {
+          select: {
+            bio: true,
+            birthday: true,
+          },
+        },
       },
     });
 
+    const { Profile: profile, ...userFields } = updatedUser;
+
     return successResponse({
       message: "Profile updated successfully",
-      user: updatedUser,
+      user: {
+        ...userFields,
+        bio: profile?.bio || null,
+        birthday: formatBirthday(profile?.birthday),
+      },
     });
   } catch (error) {
     logger.error("Failed to update profile", error);
@@ -0,0 +1,98 @@
+import { getServerAuth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { disableTwoFactor } from "@/lib/two-factor";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import {
+  successResponse,
+  unauthorizedResponse,
+  handleApiError,
+  validationErrorResponse,
+  errorResponse,
+  rateLimitErrorResponse,
+} from "@/lib/api-response";
+import { checkStrictRateLimit, getIdentifier } from "@/lib/rate-limit";
+import { validateCsrfToken } from "@/lib/csrf";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic'
+
+const disableTwoFactorSchema = z.object({
+  password: z.string().optional(),
+  code: z.string().min(1, "Authentication code is required").max(32),
+});
+
+/**
+ * POST /api/account/two-factor/disable
+ *
+ * Turns two-factor authentication off. Requires the current password (for
+ * password accounts) and an authentication or recovery code. Every session,
+ * including this one, is signed out.
+ *
+ * Body: { password?: string, code: string }
+ */
+export async function POST(request: Request) {
+  try {
+    // CSRF protection - Critical for security settings
+    const csrfValid = await validateCsrfToken(request);
+    if (!csrfValid) {
+      return errorResponse(
+        "Invalid or missing CSRF token",
+        "CSRF_VALIDATION_FAILED",
+        undefined,
+        403
+      );
+    }
+
+    const { userId } = await getServerAuth();
+
+    if (!userId) {
+      return unauthorizedResponse("You must be logged in to disable two-factor authentication");
+    }
+
+    const identifier = getIdentifier(request, userId);
+    const { success, reset } = await checkStrictRateLimit(identifier);
+
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    const body = await request.json();
+
+    const validation = disableTwoFactorSchema.safeParse(body);
+    if (!validation.success) {
+      return validationErrorResponse(validation.error);
+    }
+
+    const { password, code } = validation.data;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { password: true },
+    });
+
+    if (!user) {
+      return unauthorizedResponse("User not found");
+    }
+
+    if (user.password) {
+      const isPasswordValid = !!password && (await bcrypt.compare(password, user.password));
+      if (!isPasswordValid) {
+        return errorResponse("Password is incorrect", undefined, undefined, 400);
+      }
+    }
+
+    const result = await disableTwoFactor(userId, code);
+
+    if (!result.success) {
+      return errorResponse(result.error, result.code, undefined, 400);
+    }
+
+    return successResponse({
+      message: "Two-factor authentication disabled. Please sign in again.",
+    });
+  } catch (error) {
+    logger.error("Failed to disable two-factor authentication", error);
+    return handleApiError(error);
+  }
+}
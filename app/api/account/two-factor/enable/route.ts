@@ -0,0 +1,81 @@
+import { getServerAuth } from "@/lib/auth";
+import { confirmTwoFactorEnrollment } from "@/lib/two-factor";
+import { z } from "zod";
+import {
+  successResponse,
+  unauthorizedResponse,
+  handleApiError,
+  validationErrorResponse,
+  errorResponse,
+  rateLimitErrorResponse,
+} from "@/lib/api-response";
+import { checkStrictRateLimit, getIdentifier } from "@/lib/rate-limit";
+import { validateCsrfToken } from "@/lib/csrf";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic'
+
+const enableTwoFactorSchema = z.object({
+  code: z.string().min(1, "Authentication code is required").max(32),
+});
+
+/**
+ * POST /api/account/two-factor/enable
+ *
+ * Confirms enrollment with a code from the authenticator app and turns 2FA
+ * on. The response carries the recovery codes; they are not shown again.
+ *
+ * Body: { code: string }
+ */
+export async function POST(request: Request) {
+  try {
+    const csrfValid = await validateCsrfToken(request);
+    if (!csrfValid) {
+      return errorResponse(
+        "Invalid or missing CSRF token",
+        "CSRF_VALIDATION_FAILED",
+        undefined,
+        403
+      );
+    }
+
+    const { userId } = await getServerAuth();
+
+    if (!userId) {
+      return unauthorizedResponse("You must be logged in to enable two-factor authentication");
+    }
+
+    const identifier = getIdentifier(request, userId);
+    const { success, reset } = await checkStrictRateLimit(identifier);
+
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    const body = await request.json();
+
+    const validation = enableTwoFactorSchema.safeParse(body);
+    if (!validation.success) {
+      return validationErrorResponse(validation.error);
+    }
+
+    const result = await confirmTwoFactorEnrollment(userId, validation.data.code);
+
+    if (!result.success) {
+      return errorResponse(
+        result.error,
+        result.code,
+        undefined,
+        result.code === "ALREADY_ENABLED" ? 409 : 400
+      );
+    }
+
+    return successResponse({
+      message: "Two-factor authentication enabled",
+      recoveryCodes: result.recoveryCodes,
+    });
+  } catch (error) {
+    logger.error("Failed to enable two-factor authentication", error);
+    return handleApiError(error);
+  }
+}
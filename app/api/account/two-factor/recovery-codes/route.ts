@@ -0,0 +1,73 @@
+import { getServerAuth } from "@/lib/auth";
+import { regenerateRecoveryCodes } from "@/lib/two-factor";
+import { z } from "zod";
+import {
+  successResponse,
+  unauthorizedResponse,
+  handleApiError,
+  validationErrorResponse,
+  errorResponse,
+  rateLimitErrorResponse,
+} from "@/lib/api-response";
+import { checkStrictRateLimit, getIdentifier } from "@/lib/rate-limit";
+import { validateCsrfToken } from "@/lib/csrf";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic'
+
+const regenerateCodesSchema = z.object({
+  code: z.string().min(1, "Authentication code is required").max(32),
+});
+
+/**
+ * POST /api/account/two-factor/recovery-codes
+ *
+ * Replaces all recovery codes after checking a current authentication code.
+ * Previously issued codes stop working.
+ *
+ * Body: { code: string }
+ */
+export async function POST(request: Request) {
+  try {
+    const csrfValid = await validateCsrfToken(request);
+    if (!csrfValid) {
+      return errorResponse(
+        "Invalid or missing CSRF token",
+        "CSRF_VALIDATION_FAILED",
+        undefined,
+        403
+      );
+    }
+
+    const { userId } = await getServerAuth();
+
+    if (!userId) {
+      return unauthorizedResponse("You must be logged in to manage recovery codes");
+    }
+
+    const identifier = getIdentifier(request, userId);
+    const { success, reset } = await checkStrictRateLimit(identifier);
+
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    const body = await request.json();
+
+    const validation = regenerateCodesSchema.safeParse(body);
+    if (!validation.success) {
+      return validationErrorResponse(validation.error);
+    }
+
+    const result = await regenerateRecoveryCodes(userId, validation.data.code);
+
+    if (!result.success) {
+      return errorResponse(result.error, result.code, undefined, 400);
+    }
+
+    return successResponse({ recoveryCodes: result.recoveryCodes });
+  } catch (error) {
+    logger.error("Failed to regenerate recovery codes", error);
+    return handleApiError(error);
+  }
+}
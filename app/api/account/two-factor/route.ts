@@ -0,0 +1,38 @@
+import { getServerAuth } from "@/lib/auth";
+import { getTwoFactorStatus } from "@/lib/two-factor";
+import {
+  successResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  handleApiError,
+} from "@/lib/api-response";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/account/two-factor
+ *
+ * Returns the current user's two-factor status, whether their role requires
+ * it, and how many unused recovery codes remain
+ */
+export async function GET() {
+  try {
+    const { userId } = await getServerAuth();
+
+    if (!userId) {
+      return unauthorizedResponse("You must be logged in to view two-factor settings");
+    }
+
+    const status = await getTwoFactorStatus(userId);
+
+    if (!status) {
+      return notFoundResponse("User");
+    }
+
+    return successResponse(status);
+  } catch (error) {
+    logger.error("Failed to fetch two-factor status", error);
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,68 @@
+import { getServerAuth } from "@/lib/auth";
+import { startTwoFactorEnrollment } from "@/lib/two-factor";
+import {
+  successResponse,
+  unauthorizedResponse,
+  handleApiError,
+  errorResponse,
+  rateLimitErrorResponse,
+} from "@/lib/api-response";
+import { checkStrictRateLimit, getIdentifier } from "@/lib/rate-limit";
+import { validateCsrfToken } from "@/lib/csrf";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/account/two-factor/setup
+ *
+ * Starts two-factor enrollment. Returns the secret, otpauth:// URL and a QR
+ * code data URL for the authenticator app. 2FA stays off until the first
+ * code is confirmed via /api/account/two-factor/enable.
+ */
+export async function POST(request: Request) {
+  try {
+    const csrfValid = await validateCsrfToken(request);
+    if (!csrfValid) {
+      return errorResponse(
+        "Invalid or missing CSRF token",
+        "CSRF_VALIDATION_FAILED",
+        undefined,
+        403
+      );
+    }
+
+    const { userId } = await getServerAuth();
+
+    if (!userId) {
+      return unauthorizedResponse("You must be logged in to set up two-factor authentication");
+    }
+
+    const identifier = getIdentifier(request, userId);
+    const { success, reset } = await checkStrictRateLimit(identifier);
+
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    const result = await startTwoFactorEnrollment(userId);
+
+    if (!result.success) {
+      return errorResponse(
+        result.error,
+        result.code,
+        undefined,
+        result.code === "ALREADY_ENABLED" ? 409 : 400
+      );
+    }
+
+    return successResponse({
+      secret: result.secret,
+      otpauthUrl: result.otpauthUrl,
+      qrCodeDataUrl: result.qrCodeDataUrl,
+    });
+  } catch (error) {
+    logger.error("Failed to start two-factor setup", error);
+    return handleApiError(error);
+  }
+}
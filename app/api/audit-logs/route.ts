@@ -0,0 +1,133 @@
+/**
+ * Audit Log Admin API Routes
+ *
+ * GET /api/audit-logs - List or export audit log entries (admin)
+ *
+ * @module app/api/audit-logs/route
+ */
+
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  unauthorizedResponse,
+  forbiddenResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  paginatedResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { calculatePaginationMeta } from '@/lib/api/pagination'
+import { logger } from '@/lib/logger'
+import { AUDIT_LOG_CONFIG, formatAuditLogCsv } from '@/lib/audit-log'
+
+export const dynamic = 'force-dynamic'
+
+const queryParamsSchema = z.object({
+  page: z.coerce.number().int().min(1).max(10000).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  action: z.string().max(100).optional(),
+  entityType: z.string().max(100).optional(),
+  entityId: z.string().max(100).optional(),
+  actor: z.string().max(254).optional(),
+  from: z.string().date('from must be a YYYY-MM-DD date').optional(),
+  to: z.string().date('to must be a YYYY-MM-DD date').optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+})
+
+/**
+ * GET /api/audit-logs
+ * List audit log entries, newest first. Supports filtering by action,
+ * entity, actor (user id or email) and date range (inclusive, UTC).
+ * Pass `format=csv` to download all matching entries as CSV.
+ * Requires ADMIN role.
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await getServerAuth()
+
+    if (!userId) {
+      return unauthorizedResponse('You must be logged in')
+    }
+
+    const isAdmin = await requireRole(userId, ['ADMIN'])
+    if (!isAdmin) {
+      return forbiddenResponse('Admin access required')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const url = new URL(request.url)
+    const validation = queryParamsSchema.safeParse(
+      Object.fromEntries(
+        Array.from(url.searchParams.entries()).filter(([, value]) => value.trim() !== '')
+      )
+    )
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error)
+    }
+
+    const { page, limit, action, entityType, entityId, actor, from, to, format } = validation.data
+
+    const where: Prisma.AuditLogWhereInput = {}
+    if (action) where.action = action
+    if (entityType) where.entityType = entityType
+    if (entityId) where.entityId = entityId
+    if (actor) {
+      where.OR = [
+        { actorUserId: actor },
+        { actorEmail: { equals: actor, mode: 'insensitive' } },
+      ]
+    }
+    if (from || to) {
+      where.createdAt = {
+        ...(from ? { gte: new Date(`${from}T00:00:00.000Z`) } : {}),
+        ...(to ? { lte: new Date(`${to}T23:59:59.999Z`) } : {}),
+      }
+    }
+
+    if (format === 'csv') {
+      const entries = await prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: AUDIT_LOG_CONFIG.maxExportRows,
+      })
+
+      logger.info('Audit log exported', {
+        adminUserId: userId,
+        rowCount: entries.length,
+      })
+
+      return new Response(formatAuditLogCsv(entries), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`,
+          'Cache-Control': 'no-store',
+        },
+      })
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.auditLog.count({ where }),
+    ])
+
+    return paginatedResponse(entries, calculatePaginationMeta(total, page, limit))
+  } catch (error) {
+    logger.error('Failed to list audit log entries', error)
+    return handleApiError(error)
+  }
+}
@@ -47,13 +47,14 @@ export async function POST(request: Request): Promise<NextResponse> {
       message: 'If an account with that email exists, a password reset link has been sent.',
     })
 
-    // Look up user — only users with a password (credentials provider) can reset
+    // Look up user. Accounts created through OAuth have no password yet;
+    // the reset link lets them set one so they can unlink their provider.
     const user = await prisma.user.findUnique({
       where: { email: email.toLowerCase() },
-      select: { id: true, password: true },
+      select: { id: true },
     })
 
-    if (!user || !user.password) {
+    if (!user) {
       // Return same response to prevent enumeration
       return successResponse
     }
@@ -13,7 +13,8 @@ import {
 import { checkStrictRateLimit, getIdentifier } from "@/lib/rate-limit";
 import { validateCsrfToken } from "@/lib/csrf";
 import { logger } from "@/lib/logger";
-import { awardSignupBonus, LOYALTY_CONFIG } from "@/lib/loyalty";
+import { issueEmailVerification } from "@/lib/email-verification";
+import { linkNewsletterSubscriber } from "@/lib/newsletter";
 
 export const dynamic = 'force-dynamic'
 
@@ -81,20 +82,17 @@ export async function POST(request: Request) {
       },
     });
 
-    // Award signup bonus points (200 points)
-    // This is idempotent - will not award duplicate points
-    let bonusPointsAwarded = false;
+    // Attach a newsletter subscription made before signing up
+    await linkNewsletterSubscriber(user.id, user.email);
+
+    // Email a verification link. The signup bonus is awarded once the
+    // address is verified, not here.
+    let verificationEmailSent = false;
     try {
-      bonusPointsAwarded = await awardSignupBonus(user.id);
-      if (bonusPointsAwarded) {
-        logger.info("Signup bonus points awarded", {
-          userId: user.id,
-          points: LOYALTY_CONFIG.signupBonus,
-        });
-      }
-    } catch (bonusError) {
-      // Log the error but don't fail signup - points can be awarded later
-      logger.error("Failed to award signup bonus points", bonusError, {
+      ({ sent: verificationEmailSent } = await issueEmailVerification(user.email));
+    } catch (verificationError) {
+      // Don't fail signup - the user can request a new link
+      logger.error("Failed to send verification email", verificationError, {
         userId: user.id,
       });
     }
@@ -107,13 +105,10 @@ export async function POST(request: Request) {
           email: user.email,
           role: user.role,
         },
-        loyaltyBonus: bonusPointsAwarded
-          ? {
-              awarded: true,
-              points: LOYALTY_CONFIG.signupBonus,
-              message: "Welcome bonus for joining Link Flame!",
-            }
-          : null,
+        emailVerification: {
+          required: true,
+          sent: verificationEmailSent,
+        },
       },
       undefined,
       201
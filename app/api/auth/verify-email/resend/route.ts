@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { getServerAuth } from '@/lib/auth'
+import { checkStrictRateLimit, getIdentifier, getRateLimitKey } from '@/lib/rate-limit'
+import { logger } from '@/lib/logger'
+import { validateCsrfToken } from '@/lib/csrf'
+import { issueEmailVerification } from '@/lib/email-verification'
+
+export const dynamic = 'force-dynamic'
+
+const resendSchema = z.object({
+  // Signed-in users are resent to their account email
+  email: z.string().email('Invalid email address').optional(),
+})
+
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const { userId, user: sessionUser } = await getServerAuth()
+
+    // Rate limit — strict (5 req/min per user or IP)
+    const identifier = getIdentifier(request, userId)
+    const rateLimitKey = getRateLimitKey('auth-verify-email-resend', identifier)
+    const { success: allowed } = await checkStrictRateLimit(rateLimitKey)
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    const csrfValid = await validateCsrfToken(request)
+    if (!csrfValid) {
+      return NextResponse.json(
+        { error: 'Invalid or missing CSRF token' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const data = resendSchema.parse(body)
+
+    const email = (sessionUser?.email ?? data.email)?.toLowerCase()
+    if (!email) {
+      return NextResponse.json({ error: 'Email is required.' }, { status: 400 })
+    }
+
+    // Always return success to prevent email enumeration
+    const successResponse = NextResponse.json({
+      message: 'If that account still needs verifying, a new verification link has been sent.',
+    })
+
+    // Only credentials accounts that are still unverified get a new link
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { password: true, emailVerified: true },
+    })
+
+    if (!user || !user.password || user.emailVerified) {
+      return successResponse
+    }
+
+    const { sent } = await issueEmailVerification(email)
+    if (!sent) {
+      logger.warn('Verification email could not be sent', { email })
+    }
+
+    return successResponse
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid email address.' },
+        { status: 400 }
+      )
+    }
+    logger.error('Resend verification email error', error)
+    return NextResponse.json(
+      { error: 'An unexpected error occurred.' },
+      { status: 500 }
+    )
+  }
+}
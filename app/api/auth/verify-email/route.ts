@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { checkStrictRateLimit, getIdentifier, getRateLimitKey } from '@/lib/rate-limit'
+import { logger } from '@/lib/logger'
+import { validateCsrfToken } from '@/lib/csrf'
+import { verifyEmailToken } from '@/lib/email-verification'
+import { awardSignupBonus, LOYALTY_CONFIG } from '@/lib/loyalty'
+
+export const dynamic = 'force-dynamic'
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+})
+
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const csrfValid = await validateCsrfToken(request)
+    if (!csrfValid) {
+      return NextResponse.json(
+        { error: 'Invalid or missing CSRF token.' },
+        { status: 403 }
+      )
+    }
+
+    // Rate limit — strict (5 req/min per IP)
+    const identifier = getIdentifier(request)
+    const rateLimitKey = getRateLimitKey('auth-verify-email', identifier)
+    const { success: allowed } = await checkStrictRateLimit(rateLimitKey)
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    const body = await request.json()
+    const { token } = verifyEmailSchema.parse(body)
+
+    const result = await verifyEmailToken(token)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    // The signup bonus waits for the first verification
+    let bonusPointsAwarded = false
+    if (!result.alreadyVerified) {
+      try {
+        bonusPointsAwarded = await awardSignupBonus(result.userId)
+      } catch (bonusError) {
+        // Don't fail verification - points can be claimed later
+        logger.error('Failed to award signup bonus points', bonusError, {
+          userId: result.userId,
+        })
+      }
+    }
+
+    return NextResponse.json({
+      message: 'Your email address has been verified.',
+      loyaltyBonus: bonusPointsAwarded
+        ? {
+            awarded: true,
+            points: LOYALTY_CONFIG.signupBonus,
+            message: 'Welcome bonus for joining Link Flame!',
+          }
+        : null,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const messages = error.errors.map((e) => e.message).join(', ')
+      return NextResponse.json({ error: messages }, { status: 400 })
+    }
+    logger.error('Verify email error', error)
+    return NextResponse.json(
+      { error: 'An unexpected error occurred.' },
+      { status: 500 }
+    )
+  }
+}
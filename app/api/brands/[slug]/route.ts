@@ -47,11 +47,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             isVegan: true,
             isCrueltyFree: true,
             isOrganicCertified: true,
-            reviews: {
-              select: {
-                rating: true,
-              },
-            },
+            averageRating: true,
+            reviewCount: true,
           },
           orderBy: [
             { featured: 'desc' },
@@ -72,12 +69,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       values: brand.values ? JSON.parse(brand.values) : [],
       products: brand.products.map((product) => ({
         ...product,
-        averageRating:
-          product.reviews.length > 0
-            ? product.reviews.reduce((sum, r) => sum + r.rating, 0) / product.reviews.length
-            : null,
-        reviewCount: product.reviews.length,
-        reviews: undefined,
+        averageRating: product.reviewCount > 0 ? product.averageRating : null,
       })),
     }
 
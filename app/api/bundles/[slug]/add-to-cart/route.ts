@@ -14,6 +14,7 @@ import { logger } from "@/lib/logger"
 import { checkRateLimit, getIdentifier } from "@/lib/rate-limit"
 import { getServerAuth } from "@/lib/auth"
 import { getGuestSessionId, getUserIdForCart } from "@/lib/session"
+import { BUNDLE_SELECTION_STATUS } from "@/lib/bundle-cart"
 
 export const dynamic = 'force-dynamic'
 
@@ -182,55 +183,42 @@ export async function POST(request: NextRequest, context: RouteContext) {
     )
     const discountedTotal = subtotal * (1 - bundle.discountPercent / 100)
 
-    // Create bundle selection record
-    const bundleSelection = await prisma.bundleSelection.create({
-      data: {
-        bundleId: bundle.id,
-        userId: userId || undefined,
-        sessionId: sessionId || undefined,
-        selectedItems: JSON.stringify(itemsWithPrices),
-        totalPrice: subtotal,
-        discountedPrice: discountedTotal,
-        status: "in_cart",
-      },
-    })
+    // Record the selection and add its lines to the cart together. The
+    // lines stay linked to the selection so checkout charges the bundle
+    // price (see lib/bundle-cart).
+    const quantityByProduct = new Map<string, number>()
+    for (const item of selectedItems) {
+      quantityByProduct.set(
+        item.productId,
+        (quantityByProduct.get(item.productId) ?? 0) + item.quantity
+      )
+    }
 
-    // Add individual items to cart
-    // Note: We add them as individual cart items for checkout processing
-    // The bundle selection ID can be stored for display purposes
-    const cartOperations = selectedItems.map(async (item) => {
-      // Check if cart item already exists for this user and product (without variant)
-      const existingItem = await prisma.cartItem.findFirst({
-        where: {
-          userId: cartUserId,
-          productId: item.productId,
-          variantId: null,
+    const bundleSelection = await prisma.$transaction(async (tx) => {
+      const selection = await tx.bundleSelection.create({
+        data: {
+          bundleId: bundle.id,
+          userId: userId || undefined,
+          sessionId: sessionId || undefined,
+          selectedItems: JSON.stringify(itemsWithPrices),
+          totalPrice: subtotal,
+          discountedPrice: discountedTotal,
+          savings: subtotal - discountedTotal,
+          status: BUNDLE_SELECTION_STATUS.IN_CART,
         },
       })
 
-      if (existingItem) {
-        // Update quantity
-        return prisma.cartItem.update({
-          where: { id: existingItem.id },
-          data: {
-            quantity: {
-              increment: item.quantity,
-            },
-          },
-        })
-      } else {
-        // Create new cart item
-        return prisma.cartItem.create({
-          data: {
-            userId: cartUserId,
-            productId: item.productId,
-            quantity: item.quantity,
-          },
-        })
-      }
-    })
+      await tx.cartItem.createMany({
+        data: Array.from(quantityByProduct, ([productId, quantity]) => ({
+          userId: cartUserId,
+          productId,
+          quantity,
+          bundleSelectionId: selection.id,
+        })),
+      })
 
-    await Promise.all(cartOperations)
+      return selection
+    })
 
     logger.info("Bundle added to cart", {
       bundleId: bundle.id,
@@ -65,6 +65,8 @@ export async function POST(request: Request) {
           id: true,
           productId: true,
           variantId: true,
+          bundleSelectionId: true,
+          imperfectBatchId: true,
           quantity: true,
         },
       });
@@ -82,6 +84,8 @@ export async function POST(request: Request) {
             userId,
             productId: guestItem.productId,
             variantId: guestItem.variantId,
+            bundleSelectionId: guestItem.bundleSelectionId,
+            imperfectBatchId: guestItem.imperfectBatchId,
           },
           select: {
             id: true,
@@ -138,6 +142,8 @@ export async function POST(request: Request) {
                 userId,
                 productId: guestItem.productId,
                 variantId: guestItem.variantId,
+                bundleSelectionId: guestItem.bundleSelectionId,
+                imperfectBatchId: guestItem.imperfectBatchId,
               },
               data: {
                 quantity: {
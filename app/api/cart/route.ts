@@ -13,6 +13,15 @@ import {
 } from "@/lib/api-response";
 import { logger } from "@/lib/logger";
 import { AddToCartSchema, UpdateCartSchema } from "@/lib/validations/cart";
+import {
+  CART_LINE_INCLUDE,
+  getCartLineBasePrice,
+  getCartLineBundleDiscountPercent,
+  getCartLineUnitPrice,
+  removeBundleFromCart,
+  removeCartLine,
+} from "@/lib/bundle-cart";
+import { addImperfectBatchToCart, isImperfectBatchPurchasable } from "@/lib/imperfect-batches";
 
 export const dynamic = 'force-dynamic'
 
@@ -26,6 +35,8 @@ async function migrateGuestCartToAuthenticatedUser(
       id: true,
       productId: true,
       variantId: true,
+      bundleSelectionId: true,
+      imperfectBatchId: true,
       quantity: true,
     },
   });
@@ -42,6 +53,8 @@ async function migrateGuestCartToAuthenticatedUser(
           userId,
           productId: guestItem.productId,
           variantId: guestItem.variantId,
+          bundleSelectionId: guestItem.bundleSelectionId,
+          imperfectBatchId: guestItem.imperfectBatchId,
         },
         select: {
           id: true,
@@ -89,6 +102,8 @@ async function migrateGuestCartToAuthenticatedUser(
                 userId,
                 productId: guestItem.productId,
                 variantId: guestItem.variantId,
+                bundleSelectionId: guestItem.bundleSelectionId,
+                imperfectBatchId: guestItem.imperfectBatchId,
               },
               data: {
                 quantity: {
@@ -137,26 +152,40 @@ export async function GET(req: Request) {
       where: {
         userId: userIdToUse,
       },
-      include: {
-        product: true,
-        variant: true,
-      },
+      include: CART_LINE_INCLUDE,
     });
 
     // Transform the data to match the CartItem interface
     const formattedItems = cartItems.map(item => {
-      // Use variant price if available, otherwise use product price
-      const price = item.variant?.price ?? item.variant?.salePrice ??
-                    item.product.salePrice ?? item.product.price;
+      // Priced the same way as checkout, including any bundle discount
+      const price = getCartLineUnitPrice(item);
       const image = item.variant?.image ?? item.product.image;
+      const bundleDiscountPercent = getCartLineBundleDiscountPercent(item);
 
       return {
         id: item.productId,
         cartItemId: item.id,
         title: item.product.title,
-        price: Number(price),
+        price,
+        originalPrice: getCartLineBasePrice(item),
         image: image,
         quantity: item.quantity,
+        // Bundle the line was added with; lines of one bundle are shown together
+        bundleSelectionId: item.bundleSelectionId,
+        bundle: item.bundleSelection ? {
+          selectionId: item.bundleSelection.id,
+          title: item.bundleSelection.bundle.title,
+          slug: item.bundleSelection.bundle.slug,
+          discountPercent: bundleDiscountPercent,
+        } : null,
+        // Imperfect batch the line is bought from, at the batch's discount
+        imperfectBatchId: item.imperfectBatchId,
+        imperfectBatch: item.imperfectBatch ? {
+          id: item.imperfectBatch.id,
+          reason: item.imperfectBatch.reason,
+          discountPercent: item.imperfectBatch.discountPercent,
+          available: isImperfectBatchPurchasable(item.imperfectBatch),
+        } : null,
         // Variant info
         variantId: item.variantId,
         variant: item.variant ? {
@@ -209,11 +238,33 @@ export async function POST(req: Request) {
       return validationErrorResponse(validation.error);
     }
 
-    const { productId, variantId, quantity } = validation.data;
+    const { productId, variantId, quantity, imperfectBatchId } = validation.data;
 
     // Get user ID for cart operations
     const userIdToUse = await getUserIdForCart(authUserId);
 
+    // Imperfect batches have their own stock and price
+    if (imperfectBatchId) {
+      const result = await addImperfectBatchToCart(userIdToUse, productId, imperfectBatchId, quantity);
+      if (!result.success) {
+        return errorResponse(
+          result.error,
+          result.code,
+          undefined,
+          result.code === "NOT_FOUND" ? 404 : 400
+        );
+      }
+
+      logger.info("Imperfect batch item added to cart", {
+        userId: userIdToUse,
+        productId,
+        imperfectBatchId,
+        quantity,
+      });
+
+      return successResponse({ success: true });
+    }
+
     // Fetch product with variants to check inventory
     const product = await prisma.product.findUnique({
       where: { id: productId },
@@ -256,11 +307,14 @@ export async function POST(req: Request) {
     }
 
     // Find existing cart item for this product+variant combination
+    // (bundle and imperfect batch lines are kept separate)
     const existingItem = await prisma.cartItem.findFirst({
       where: {
         userId: userIdToUse,
         productId,
         variantId: variantId || null,
+        bundleSelectionId: null,
+        imperfectBatchId: null,
       },
     });
 
@@ -356,21 +410,23 @@ export async function DELETE(req: Request) {
     const productId = url.searchParams.get("productId");
     const variantId = url.searchParams.get("variantId");
     const cartItemId = url.searchParams.get("cartItemId"); // Alternative: delete by cart item ID
+    const bundleSelectionId = url.searchParams.get("bundleSelectionId"); // Remove a whole bundle
 
-    // Support deletion by cartItemId (more precise) or by productId+variantId
+    // Support deletion by cartItemId (more precise), a whole bundle, or by
+    // productId+variantId (lines outside bundles and imperfect batches only)
     if (cartItemId) {
-      await prisma.cartItem.deleteMany({
-        where: {
-          id: cartItemId,
-          userId: userIdToUse,
-        },
-      });
+      const { brokenBundleSelectionId } = await removeCartLine(userIdToUse, cartItemId);
+      return successResponse({ success: true, brokenBundleSelectionId });
+    } else if (bundleSelectionId) {
+      await removeBundleFromCart(userIdToUse, bundleSelectionId);
     } else if (productId) {
       await prisma.cartItem.deleteMany({
         where: {
           userId: userIdToUse,
           productId,
           variantId: variantId || null,
+          bundleSelectionId: null,
+          imperfectBatchId: null,
         },
       });
     } else {
@@ -408,14 +464,33 @@ export async function PATCH(req: Request) {
       return validationErrorResponse(validation.error);
     }
 
-    const { productId, variantId, quantity } = validation.data;
+    const { productId, variantId, quantity, imperfectBatchId } = validation.data;
+
+    // Imperfect batch lines can't exceed what is left in the batch
+    if (imperfectBatchId && quantity > 0) {
+      const batch = await prisma.imperfectBatch.findUnique({
+        where: { id: imperfectBatchId },
+        select: { quantity: true },
+      });
+      if (!batch || quantity > batch.quantity) {
+        return errorResponse(
+          `Only ${batch?.quantity ?? 0} imperfect items available`,
+          "INSUFFICIENT_STOCK",
+          undefined,
+          400
+        );
+      }
+    }
 
+    // Bundle lines have fixed quantities; only lines outside bundles change
     if (quantity === 0) {
       await prisma.cartItem.deleteMany({
         where: {
           userId: userIdToUse,
           productId,
           variantId: variantId || null,
+          bundleSelectionId: null,
+          imperfectBatchId: imperfectBatchId || null,
         },
       });
     } else {
@@ -424,6 +499,8 @@ export async function PATCH(req: Request) {
           userId: userIdToUse,
           productId,
           variantId: variantId || null,
+          bundleSelectionId: null,
+          imperfectBatchId: imperfectBatchId || null,
         },
         data: {
           quantity,
@@ -14,6 +14,20 @@ import {
 import { logger } from '@/lib/logger'
 import { getStripe } from '@/lib/stripe-server'
 import Stripe from 'stripe'
+import { getShippingQuote, SHIPPING_CONFIG, type ShippingCartLine } from '@/lib/shipping'
+import { getUserLoyaltyTier, hasEarlyAccess, isInEarlyAccessWindow } from '@/lib/loyalty'
+import {
+  convertOrderReservations,
+  releaseReservations,
+  reserveInventoryForCheckout,
+  type ReservationLine,
+} from '@/lib/inventory-reservations'
+import {
+  CART_LINE_INCLUDE,
+  getCartLineUnitPrice,
+  markBundleSelectionsPurchased,
+} from '@/lib/bundle-cart'
+import { decrementImperfectBatchStock } from '@/lib/imperfect-batches'
 
 export const dynamic = 'force-dynamic'
 
@@ -27,6 +41,14 @@ const ExpressCheckoutSchema = z.object({
       quantity: z.number().int().min(1).max(99),
     })
   ).min(1, 'At least one item is required'),
+  // Shipping selected in the wallet sheet (optional; defaults to the cheapest option)
+  shippingRateId: z.string().max(100).optional(),
+  shippingAddress: z
+    .object({
+      country: z.string().length(2, 'Country must be a 2-letter code'),
+      state: z.string().max(50).optional(),
+    })
+    .optional(),
 })
 
 /**
@@ -65,24 +87,34 @@ export async function POST(request: Request) {
       return validationErrorResponse(validation.error)
     }
 
-    const { paymentMethodId, items } = validation.data
+    const { paymentMethodId, items, shippingRateId, shippingAddress } = validation.data
 
     // Get cart items from database to verify prices (server-side source of truth)
     const cartItems = await prisma.cartItem.findMany({
       where: {
         userId: userIdToUse,
       },
-      include: {
-        product: true,
-        variant: true,
-      },
+      include: CART_LINE_INCLUDE,
     })
 
     if (cartItems.length === 0) {
       return errorResponse('Cart is empty', undefined, undefined, 400)
     }
 
-    // Verify inventory and calculate total with SERVER-SIDE prices
+    // Early-access products are members-only until their window closes
+    if (!hasEarlyAccess(await getUserLoyaltyTier(userId))) {
+      const earlyAccessItem = cartItems.find((item) => isInEarlyAccessWindow(item.product))
+      if (earlyAccessItem) {
+        return errorResponse(
+          `${earlyAccessItem.product.title} is currently available to loyalty members with early access only.`,
+          'EARLY_ACCESS_REQUIRED',
+          undefined,
+          403
+        )
+      }
+    }
+
+    // Calculate total with SERVER-SIDE prices
     let serverTotal = 0
     const orderItems: Array<{
       productId: string
@@ -90,32 +122,16 @@ export async function POST(request: Request) {
       title: string
       price: number
       quantity: number
+      bundleSelectionId: string | null
+      imperfectBatchId: string | null
     }> = []
+    const shippingLines: ShippingCartLine[] = []
+    const reservationLines: ReservationLine[] = []
 
     for (const cartItem of cartItems) {
       const product = cartItem.product
       const variant = cartItem.variant
 
-      // Check inventory availability (variant or product level)
-      const availableInventory = variant ? variant.inventory : product.inventory
-      const inventorySource = variant
-        ? `${product.title} (${[variant.size, variant.color, variant.material].filter(Boolean).join(', ')})`
-        : product.title
-
-      if (availableInventory < cartItem.quantity) {
-        return errorResponse(
-          `Insufficient inventory for ${inventorySource}. Only ${availableInventory} available.`,
-          undefined,
-          undefined,
-          400
-        )
-      }
-
-      // Use server-side prices (NEVER trust client-provided prices)
-      const actualPrice = Number(
-        variant?.salePrice ?? variant?.price ?? product.salePrice ?? product.price)
-      serverTotal += actualPrice * cartItem.quantity
-
       // Build product name with variant info
       let productName = product.title
       if (variant) {
@@ -124,6 +140,22 @@ export async function POST(request: Request) {
           productName += ` (${variantParts.join(', ')})`
         }
       }
+      if (cartItem.imperfectBatchId) {
+        productName += ' (Imperfect)'
+      }
+
+      // Imperfect batch lines hold the batch's own stock
+      reservationLines.push({
+        productId: product.id,
+        variantId: variant?.id || null,
+        imperfectBatchId: cartItem.imperfectBatchId,
+        quantity: cartItem.quantity,
+        label: productName,
+      })
+
+      // Use server-side prices (NEVER trust client-provided prices)
+      const actualPrice = getCartLineUnitPrice(cartItem)
+      serverTotal += actualPrice * cartItem.quantity
 
       orderItems.push({
         productId: product.id,
@@ -131,19 +163,67 @@ export async function POST(request: Request) {
         title: productName,
         price: actualPrice,
         quantity: cartItem.quantity,
+        bundleSelectionId: cartItem.bundleSelectionId,
+        imperfectBatchId: cartItem.imperfectBatchId,
       })
+
+      shippingLines.push({
+        price: actualPrice,
+        quantity: cartItem.quantity,
+        weightGrams: product.weightGrams,
+        oversizeSurcharge: product.oversizeSurcharge !== null ? Number(product.oversizeSurcharge) : null,
+      })
+    }
+
+    // Quote shipping with the same engine as standard checkout
+    const shippingQuote = await getShippingQuote({
+      userId,
+      lines: shippingLines,
+      destination: {
+        country: shippingAddress?.country ?? SHIPPING_CONFIG.DEFAULT_COUNTRY,
+        state: shippingAddress?.state ?? null,
+      },
+    })
+
+    const shippingOption = shippingRateId
+      ? shippingQuote.options.find((option) => option.id === shippingRateId)
+      : shippingQuote.options[0]
+
+    if (!shippingOption) {
+      return errorResponse(
+        'Selected shipping option is not available for this address.',
+        'INVALID_SHIPPING_OPTION',
+        undefined,
+        400
+      )
     }
 
+    const orderTotal = Math.round((serverTotal + shippingOption.amount) * 100) / 100
+
     logger.info('Creating express checkout payment intent', {
       userId: userIdToUse,
       itemCount: cartItems.length,
-      total: serverTotal,
+      total: orderTotal,
+      shippingAmount: shippingOption.amount,
     })
 
+    // Hold stock while the payment is confirmed so a concurrent checkout
+    // cannot sell the same units
+    let reservationIds: string[]
+    try {
+      ({ reservationIds } = await reserveInventoryForCheckout(reservationLines))
+    } catch (reservationError) {
+      const message =
+        reservationError instanceof Error && reservationError.message.startsWith('Insufficient')
+          ? reservationError.message
+          : 'Failed to reserve inventory. Please try again.'
+      return errorResponse(message, 'INSUFFICIENT_INVENTORY', undefined, 400)
+    }
+
     try {
       // Create a PaymentIntent with the payment method
       const paymentIntent = await getStripe().paymentIntents.create({
-        amount: Math.round(serverTotal * 100), // Convert to cents
+        amount: Math.round(orderTotal * 100), // Convert to cents
         currency: 'usd',
         payment_method: paymentMethodId,
         confirm: true,
@@ -163,6 +243,7 @@ export async function POST(request: Request) {
           userId: userIdToUse,
           status: paymentIntent.status,
         })
+        await releaseReservations(reservationIds)
 
         // Handle requires_action (3D Secure, etc.)
         if (paymentIntent.status === 'requires_action') {
@@ -187,7 +268,9 @@ export async function POST(request: Request) {
       const order = await prisma.order.create({
         data: {
           userId: userIdToUse,
-          amount: serverTotal,
+          amount: orderTotal,
+          shippingAmount: shippingOption.amount,
+          shippingMethod: shippingOption.name,
           status: 'paid',
           stripeSessionId: paymentIntent.id, // Store payment intent ID here
           paymentMethod: 'express_checkout', // Track that this was via Apple Pay/Google Pay
@@ -198,8 +281,13 @@ export async function POST(request: Request) {
               title: item.title,
               price: item.price,
               quantity: item.quantity,
+              bundleSelectionId: item.bundleSelectionId,
+              imperfectBatchId: item.imperfectBatchId,
             })),
           },
+          reservations: {
+            connect: reservationIds.map((id) => ({ id })),
+          },
         },
       })
 
@@ -210,9 +298,11 @@ export async function POST(request: Request) {
         },
       })
 
-      // Update inventory for each item
+      // Update inventory for each item; imperfect batch lines come out of the batch
       for (const cartItem of cartItems) {
-        if (cartItem.variantId) {
+        if (cartItem.imperfectBatchId) {
+          await decrementImperfectBatchStock(prisma, cartItem.imperfectBatchId, cartItem.quantity)
+        } else if (cartItem.variantId) {
           await prisma.productVariant.update({
             where: { id: cartItem.variantId },
             data: {
@@ -233,10 +323,13 @@ export async function POST(request: Request) {
         }
       }
 
+      await convertOrderReservations(prisma, order.id)
+      await markBundleSelectionsPurchased(prisma, orderItems)
+
       logger.info('Express checkout completed successfully', {
         orderId: order.id,
         userId: userIdToUse,
-        total: serverTotal,
+        total: orderTotal,
         paymentIntentId: paymentIntent.id,
       })
 
@@ -250,6 +343,14 @@ export async function POST(request: Request) {
         userId: userIdToUse,
       })
 
+      try {
+        await releaseReservations(reservationIds)
+      } catch (releaseError) {
+        logger.error('Failed to release inventory reservations', releaseError, {
+          reservationIds,
+        })
+      }
+
       // Handle specific Stripe errors
       if (stripeError instanceof Stripe.errors.StripeCardError) {
         return errorResponse(
@@ -16,8 +16,31 @@ import { getBaseUrl } from "@/lib/url";
 import { getStripe } from "@/lib/stripe-server";
 import Stripe from "stripe";
 import { CheckoutSchema } from "@/lib/validations/checkout";
-import { holdPointsForCheckout, reversePointsHold } from "@/lib/loyalty";
+import {
+  getUserLoyaltyTier,
+  hasEarlyAccess,
+  holdPointsForCheckout,
+  isInEarlyAccessWindow,
+  reversePointsHold,
+} from "@/lib/loyalty";
 import { holdGiftCardBalance, reverseGiftCardHold } from "@/lib/gift-cards";
+import {
+  holdPromoCodeForCheckout,
+  reversePromoCodeHold,
+  type PromoCartLine,
+} from "@/lib/promo-codes";
+import {
+  getShippingQuote,
+  toStripeShippingOptions,
+  type ShippingCartLine,
+} from "@/lib/shipping";
+import {
+  releaseReservations,
+  reserveInventoryForCheckout,
+  type ReservationLine,
+} from "@/lib/inventory-reservations";
+import { CART_LINE_INCLUDE, getCartLineUnitPrice } from "@/lib/bundle-cart";
+import { getCarbonOffsetQuote, type CarbonOffsetLine } from "@/lib/carbon-offsets";
 
 export const dynamic = 'force-dynamic'
 
@@ -58,10 +81,7 @@ export async function POST(request: Request) {
       where: {
         userId: userIdToUse,
       },
-      include: {
-        product: true,
-        variant: true,
-      },
+      include: CART_LINE_INCLUDE,
     });
 
     if (cartItems.length === 0) {
@@ -73,7 +93,20 @@ export async function POST(request: Request) {
       );
     }
 
-    // Verify inventory and build line items with SERVER-SIDE prices
+    // Early-access products are members-only until their window closes
+    if (!hasEarlyAccess(await getUserLoyaltyTier(userId))) {
+      const earlyAccessItem = cartItems.find((item) => isInEarlyAccessWindow(item.product));
+      if (earlyAccessItem) {
+        return errorResponse(
+          `${earlyAccessItem.product.title} is currently available to loyalty members with early access only.`,
+          "EARLY_ACCESS_REQUIRED",
+          undefined,
+          403
+        );
+      }
+    }
+
+    // Build line items with SERVER-SIDE prices
     let serverTotal = 0;
     const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [];
     const pendingOrderItems: Array<{
@@ -86,31 +119,18 @@ export async function POST(request: Request) {
       variantSize: string | null;
       variantColor: string | null;
       variantMaterial: string | null;
+      bundleSelectionId: string | null;
+      imperfectBatchId: string | null;
     }> = [];
+    const promoCartLines: PromoCartLine[] = [];
+    const shippingCartLines: ShippingCartLine[] = [];
+    const reservationLines: ReservationLine[] = [];
+    const carbonOffsetLines: CarbonOffsetLine[] = [];
 
     for (const item of cartItems) {
       const product = item.product;
       const variant = item.variant;
 
-      // Best-effort pre-check only. Inventory is decremented atomically in webhook
-      // finalization and can still fail there due to concurrent purchases.
-      const availableInventory = variant ? variant.inventory : product.inventory;
-      const inventorySource = variant ? `${product.title} (${[variant.size, variant.color, variant.material].filter(Boolean).join(', ')})` : product.title;
-
-      if (availableInventory < item.quantity) {
-        return errorResponse(
-          `Insufficient inventory for ${inventorySource}. Only ${availableInventory} available.`,
-          undefined,
-          undefined,
-          400
-        );
-      }
-
-      // Use server-side prices (NEVER trust client-provided prices)
-      // Priority: variant sale price > variant price > product sale price > product price
-      const actualPrice = Number(variant?.salePrice ?? variant?.price ?? product.salePrice ?? product.price);
-      serverTotal += actualPrice * item.quantity;
-
       // Build product name with variant info
       let productName = product.title;
       if (variant) {
@@ -119,6 +139,25 @@ export async function POST(request: Request) {
           productName += ` (${variantParts.join(', ')})`;
         }
       }
+      if (item.imperfectBatchId) {
+        productName += ' (Imperfect)';
+      }
+
+      // Imperfect batch lines hold the batch's own stock
+      reservationLines.push({
+        productId: product.id,
+        variantId: variant?.id || null,
+        imperfectBatchId: item.imperfectBatchId,
+        quantity: item.quantity,
+        label: productName,
+      });
+
+      // Use server-side prices (NEVER trust client-provided prices)
+      // Priority: variant sale price > variant price > product sale price > product price,
+      // less the bundle discount for lines added as part of a bundle, or the
+      // batch discount for lines bought from an imperfect batch
+      const actualPrice = getCartLineUnitPrice(item);
+      serverTotal += actualPrice * item.quantity;
 
       // Use variant image if available, otherwise product image
       const productImage = variant?.image ?? product.image;
@@ -134,6 +173,8 @@ export async function POST(request: Request) {
               productId: product.id,
               variantId: variant?.id || '',
               sku: variant?.sku || '',
+              bundleSelectionId: item.bundleSelectionId || '',
+              imperfectBatchId: item.imperfectBatchId || '',
             },
           },
           unit_amount: Math.round(actualPrice * 100), // Convert to cents
@@ -151,11 +192,56 @@ export async function POST(request: Request) {
         variantSize: variant?.size || null,
         variantColor: variant?.color || null,
         variantMaterial: variant?.material || null,
+        bundleSelectionId: item.bundleSelectionId,
+        imperfectBatchId: item.imperfectBatchId,
+      });
+
+      promoCartLines.push({
+        productId: product.id,
+        category: product.category,
+        brandId: product.brandId,
+        price: actualPrice,
+        quantity: item.quantity,
+      });
+
+      shippingCartLines.push({
+        price: actualPrice,
+        quantity: item.quantity,
+        weightGrams: product.weightGrams,
+        oversizeSurcharge: product.oversizeSurcharge !== null ? Number(product.oversizeSurcharge) : null,
+      });
+
+      carbonOffsetLines.push({
+        carbonFootprintGrams: product.carbonFootprintGrams,
+        weightGrams: product.weightGrams,
+        quantity: item.quantity,
       });
     }
 
     const checkoutData = validation.data;
 
+    // Hold stock for the lifetime of the Stripe session. Holds are converted
+    // when the webhook finalizes the paid order and released when the
+    // session expires, so paid orders no longer run out of stock.
+    let reservationIds: string[] = [];
+    try {
+      ({ reservationIds } = await reserveInventoryForCheckout(reservationLines));
+    } catch (reservationError) {
+      const message =
+        reservationError instanceof Error && reservationError.message.startsWith("Insufficient")
+          ? reservationError.message
+          : "Failed to reserve inventory. Please try again.";
+      logger.warn("Failed to reserve checkout inventory", {
+        userId: userIdToUse,
+        error: reservationError instanceof Error ? reservationError.message : String(reservationError),
+      });
+      return errorResponse(message, "INSUFFICIENT_INVENTORY", undefined, 400);
+    }
+
+    let promoCodeId: string | null = null;
+    let promoRedemptionId: string | null = null;
+    let promoDiscountAmount = 0;
+    let promoFreeShipping = false;
     let loyaltyPointsUsed: number | null = null;
     let loyaltyDiscountAmount = 0;
     let loyaltyRedemptionId: string | null = null;
@@ -164,7 +250,25 @@ export async function POST(request: Request) {
     let giftCardHoldTransactionId: string | null = null;
     let stripeCouponId: string | null = null;
 
-    const cleanupDiscountArtifacts = async () => {
+    const cleanupCheckoutHolds = async () => {
+      try {
+        await releaseReservations(reservationIds);
+      } catch (error) {
+        logger.error("Failed to release inventory reservations", error, {
+          reservationIds,
+        });
+      }
+
+      if (promoRedemptionId) {
+        try {
+          await reversePromoCodeHold(promoRedemptionId);
+        } catch (error) {
+          logger.error("Failed to reverse promo code hold", error, {
+            promoRedemptionId,
+          });
+        }
+      }
+
       if (loyaltyRedemptionId) {
         try {
           await reversePointsHold(loyaltyRedemptionId);
@@ -203,9 +307,25 @@ export async function POST(request: Request) {
     };
 
     // Place discount holds before creating the Stripe session.
+    // Order matters: promo code first, then loyalty points, then gift card
+    // (gift cards behave like tender and cover whatever remains).
     try {
+      if (checkoutData.promoCode) {
+        const promoHold = await holdPromoCodeForCheckout({
+          code: checkoutData.promoCode,
+          userId: userIdToUse,
+          customerEmail: checkoutData.email,
+          lines: promoCartLines,
+        });
+        promoCodeId = promoHold.promoCodeId;
+        promoRedemptionId = promoHold.redemptionId;
+        promoDiscountAmount = promoHold.discountAmount;
+        promoFreeShipping = promoHold.freeShipping;
+      }
+
       if (checkoutData.loyaltyPointsToRedeem) {
         if (!userId || userIdToUse.startsWith("guest_")) {
+          await cleanupCheckoutHolds();
           return errorResponse(
             "You must be signed in to redeem loyalty points.",
             "LOYALTY_AUTH_REQUIRED",
@@ -224,7 +344,10 @@ export async function POST(request: Request) {
       }
 
       if (checkoutData.giftCardCode) {
-        const remainingAfterLoyalty = Math.max(0, serverTotal - loyaltyDiscountAmount);
+        const remainingAfterLoyalty = Math.max(
+          0,
+          serverTotal - promoDiscountAmount - loyaltyDiscountAmount
+        );
         if (remainingAfterLoyalty <= 0) {
           throw new Error("Gift card amount cannot exceed order total.");
         }
@@ -239,7 +362,7 @@ export async function POST(request: Request) {
         giftCardHoldTransactionId = giftCardHold.transactionId;
       }
 
-      const totalDiscount = loyaltyDiscountAmount + giftCardAmountUsed;
+      const totalDiscount = promoDiscountAmount + loyaltyDiscountAmount + giftCardAmountUsed;
       if (totalDiscount > serverTotal) {
         throw new Error("Total discount cannot exceed order subtotal");
       }
@@ -254,7 +377,7 @@ export async function POST(request: Request) {
         stripeCouponId = coupon.id;
       }
     } catch (discountError) {
-      await cleanupDiscountArtifacts();
+      await cleanupCheckoutHolds();
       logger.error("Failed to prepare checkout discounts", discountError, {
         userId: userIdToUse,
       });
@@ -266,7 +389,62 @@ export async function POST(request: Request) {
       return errorResponse(message, "DISCOUNT_PREP_FAILED", undefined, 400);
     }
 
-    const totalDiscount = loyaltyDiscountAmount + giftCardAmountUsed;
+    const totalDiscount = promoDiscountAmount + loyaltyDiscountAmount + giftCardAmountUsed;
+
+    let shippingQuote;
+    try {
+      shippingQuote = await getShippingQuote({
+        userId,
+        lines: shippingCartLines,
+        destination: {
+          country: checkoutData.country,
+          state: checkoutData.state,
+        },
+        promoFreeShipping,
+      });
+    } catch (shippingError) {
+      await cleanupCheckoutHolds();
+      logger.error("Failed to calculate shipping options", shippingError, {
+        userId: userIdToUse,
+      });
+      return errorResponse(
+        "Failed to calculate shipping. Please try again.",
+        undefined,
+        undefined,
+        500
+      );
+    }
+
+    if (shippingQuote.options.length === 0) {
+      await cleanupCheckoutHolds();
+      return errorResponse(
+        "No shipping options are available for this address.",
+        "NO_SHIPPING_OPTIONS",
+        undefined,
+        400
+      );
+    }
+
+    // The offset is its own line item, outside the discounts above
+    const carbonOffset = checkoutData.carbonOffset
+      ? getCarbonOffsetQuote(carbonOffsetLines, shippingQuote.options)
+      : null;
+    if (carbonOffset) {
+      lineItems.push({
+        price_data: {
+          currency: 'usd',
+          product_data: {
+            name: 'Carbon offset',
+            description: `Offsets ${carbonOffset.offsetKg} kg CO2e from this order's products and shipping`,
+            metadata: {
+              carbonOffsetKg: String(carbonOffset.offsetKg),
+            },
+          },
+          unit_amount: Math.round(carbonOffset.price * 100),
+        },
+        quantity: 1,
+      });
+    }
 
     // Extract gift options from validated data
     const giftOptions = {
@@ -286,6 +464,7 @@ export async function POST(request: Request) {
       total: serverTotal,
       totalDiscount,
       isGift: giftOptions.isGift,
+      carbonOffsetKg: carbonOffset?.offsetKg ?? null,
     });
 
     try {
@@ -300,50 +479,13 @@ export async function POST(request: Request) {
             request_three_d_secure: 'automatic',
           },
         },
-        // Collect shipping address so Stripe Tax can calculate correct rates
+        // Collect shipping address so Stripe Tax can calculate correct rates.
+        // Only the country shipping was quoted for, so the rates above apply
         shipping_address_collection: {
-          allowed_countries: ['US', 'CA'],
+          allowed_countries: [checkoutData.country],
         },
-        // Shipping options: free for orders over $75, flat rate otherwise
-        shipping_options: [
-          ...(serverTotal >= 75
-            ? [
-                {
-                  shipping_rate_data: {
-                    type: 'fixed_amount' as const,
-                    fixed_amount: { amount: 0, currency: 'usd' },
-                    display_name: 'Free Shipping',
-                    delivery_estimate: {
-                      minimum: { unit: 'business_day' as const, value: 5 },
-                      maximum: { unit: 'business_day' as const, value: 7 },
-                    },
-                  },
-                },
-              ]
-            : []),
-          {
-            shipping_rate_data: {
-              type: 'fixed_amount' as const,
-              fixed_amount: { amount: 599, currency: 'usd' },
-              display_name: 'Standard Shipping',
-              delivery_estimate: {
-                minimum: { unit: 'business_day' as const, value: 5 },
-                maximum: { unit: 'business_day' as const, value: 7 },
-              },
-            },
-          },
-          {
-            shipping_rate_data: {
-              type: 'fixed_amount' as const,
-              fixed_amount: { amount: 1499, currency: 'usd' },
-              display_name: 'Express Shipping',
-              delivery_estimate: {
-                minimum: { unit: 'business_day' as const, value: 2 },
-                maximum: { unit: 'business_day' as const, value: 3 },
-              },
-            },
-          },
-        ],
+        // Shipping options from the configured rate engine
+        shipping_options: toStripeShippingOptions(shippingQuote.options),
         // Automatic tax calculation via Stripe Tax
         // Requires enabling Stripe Tax in dashboard and setting product tax codes
         automatic_tax: { enabled: true },
@@ -357,6 +499,7 @@ export async function POST(request: Request) {
           giftRecipientName: giftOptions.giftRecipientName,
           giftRecipientEmail: giftOptions.giftRecipientEmail,
           hidePrice: giftOptions.hidePrice.toString(),
+          promoRedemptionId: promoRedemptionId || '',
           loyaltyRedemptionId: loyaltyRedemptionId || '',
           giftCardHoldTransactionId: giftCardHoldTransactionId || '',
           stripeCouponId: stripeCouponId || '',
@@ -375,7 +518,7 @@ export async function POST(request: Request) {
           data: {
             userId: userIdToUse,
             stripeSessionId: session.id,
-            amount: serverTotal,
+            amount: serverTotal + (carbonOffset?.price ?? 0),
             status: "pending",
             paymentMethod: "stripe_checkout",
             customerEmail: checkoutData.email,
@@ -386,6 +529,9 @@ export async function POST(request: Request) {
             giftRecipientName: giftOptions.giftRecipientName || null,
             giftRecipientEmail: giftOptions.giftRecipientEmail || null,
             hidePrice: giftOptions.hidePrice,
+            promoCodeId,
+            promoRedemptionId,
+            promoDiscountAmount: promoDiscountAmount > 0 ? promoDiscountAmount : null,
             loyaltyPointsUsed,
             loyaltyDiscountAmount: loyaltyDiscountAmount > 0 ? loyaltyDiscountAmount : null,
             loyaltyRedemptionId,
@@ -393,9 +539,14 @@ export async function POST(request: Request) {
             giftCardAmountUsed: giftCardAmountUsed > 0 ? giftCardAmountUsed : null,
             stripeCouponId,
             discountTotal: totalDiscount > 0 ? totalDiscount : null,
+            carbonOffsetKg: carbonOffset?.offsetKg ?? null,
+            carbonOffsetAmount: carbonOffset?.price ?? null,
             items: {
               create: pendingOrderItems,
             },
+            reservations: {
+              connect: reservationIds.map((id) => ({ id })),
+            },
           },
         });
       } catch (snapshotError) {
@@ -413,7 +564,7 @@ export async function POST(request: Request) {
           });
         }
 
-        await cleanupDiscountArtifacts();
+        await cleanupCheckoutHolds();
 
         return errorResponse(
           "Failed to initialize checkout session. Please try again.",
@@ -442,7 +593,7 @@ export async function POST(request: Request) {
         userId: userIdToUse,
       });
 
-      await cleanupDiscountArtifacts();
+      await cleanupCheckoutHolds();
 
       return errorResponse(
         "Failed to create checkout session. Please try again.",
@@ -0,0 +1,33 @@
+/**
+ * Imperfect Batch Expiry Job
+ *
+ * GET /api/cron/imperfect-batches - Deactivate imperfect batches past their expiry date (scheduled, hourly)
+ *
+ * @module app/api/cron/imperfect-batches/route
+ */
+
+import { successResponse, unauthorizedResponse, handleApiError } from '@/lib/api-response'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { deactivateExpiredImperfectBatches } from '@/lib/imperfect-batches'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/cron/imperfect-batches
+ * Expired batches already stop selling; this marks them inactive.
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return unauthorizedResponse('Invalid cron secret')
+    }
+
+    const result = await deactivateExpiredImperfectBatches()
+
+    return successResponse(result)
+  } catch (error) {
+    logger.error('Imperfect batch expiry job failed', error)
+    return handleApiError(error)
+  }
+}
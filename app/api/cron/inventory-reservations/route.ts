@@ -0,0 +1,33 @@
+/**
+ * Inventory Reservation Sweep Job
+ *
+ * GET /api/cron/inventory-reservations - Release checkout holds that timed out (scheduled, every 15 minutes)
+ *
+ * @module app/api/cron/inventory-reservations/route
+ */
+
+import { successResponse, unauthorizedResponse, handleApiError } from '@/lib/api-response'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { sweepExpiredReservations } from '@/lib/inventory-reservations'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/cron/inventory-reservations
+ * Expired holds already stop counting against stock; this marks them released.
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return unauthorizedResponse('Invalid cron secret')
+    }
+
+    const result = await sweepExpiredReservations()
+
+    return successResponse(result)
+  } catch (error) {
+    logger.error('Inventory reservation sweep job failed', error)
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Background Job Worker
+ *
+ * GET /api/cron/jobs - Run due background jobs (scheduled, every minute)
+ *
+ * @module app/api/cron/jobs/route
+ */
+
+import { successResponse, unauthorizedResponse, handleApiError } from '@/lib/api-response'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { runDueJobs } from '@/lib/job-handlers'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/cron/jobs
+ * Claims one batch of due jobs and runs them. Failed jobs are rescheduled
+ * with backoff, so a later run picks them up again.
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return unauthorizedResponse('Invalid cron secret')
+    }
+
+    const result = await runDueJobs()
+
+    return successResponse(result)
+  } catch (error) {
+    logger.error('Background job worker failed', error)
+    return handleApiError(error)
+  }
+}
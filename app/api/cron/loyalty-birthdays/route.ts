@@ -0,0 +1,34 @@
+/**
+ * Loyalty Birthday Bonus Job
+ *
+ * GET /api/cron/loyalty-birthdays - Award today's birthday bonus points (scheduled, daily)
+ *
+ * @module app/api/cron/loyalty-birthdays/route
+ */
+
+import { successResponse, unauthorizedResponse, handleApiError } from '@/lib/api-response'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { awardBirthdayBonuses } from '@/lib/loyalty'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/cron/loyalty-birthdays
+ * Awards the tier birthday bonus to members whose birthday is today.
+ * Idempotent per member per year, so retries and re-runs are safe.
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return unauthorizedResponse('Invalid cron secret')
+    }
+
+    const result = await awardBirthdayBonuses()
+
+    return successResponse(result)
+  } catch (error) {
+    logger.error('Birthday bonus job failed', error)
+    return handleApiError(error)
+  }
+}
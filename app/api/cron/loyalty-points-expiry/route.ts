@@ -0,0 +1,37 @@
+/**
+ * Loyalty Points Expiry Job
+ *
+ * GET /api/cron/loyalty-points-expiry - Expire lapsed points and send expiring-soon reminders (scheduled, daily)
+ *
+ * The same work can be run by hand with `npm run loyalty:expire-points`.
+ *
+ * @module app/api/cron/loyalty-points-expiry/route
+ */
+
+import { successResponse, unauthorizedResponse, handleApiError } from '@/lib/api-response'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { notifyExpiringPoints, sweepExpiredPoints } from '@/lib/loyalty'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/cron/loyalty-points-expiry
+ * Sweeps expired lots first so reminders never cover points already written off.
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return unauthorizedResponse('Invalid cron secret')
+    }
+
+    const now = new Date()
+    const sweep = await sweepExpiredPoints(now)
+    const reminders = await notifyExpiringPoints(now)
+
+    return successResponse({ sweep, reminders })
+  } catch (error) {
+    logger.error('Loyalty points expiry job failed', error)
+    return handleApiError(error)
+  }
+}
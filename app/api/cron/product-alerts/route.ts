@@ -0,0 +1,33 @@
+/**
+ * Product Alert Delivery Job
+ *
+ * GET /api/cron/product-alerts - Email triggered back-in-stock and price-drop alerts (scheduled, hourly)
+ *
+ * @module app/api/cron/product-alerts/route
+ */
+
+import { successResponse, unauthorizedResponse, handleApiError } from '@/lib/api-response'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { deliverProductAlerts } from '@/lib/product-alerts'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/cron/product-alerts
+ * Alerts are marked triggered when stock or prices change; this job sends them.
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return unauthorizedResponse('Invalid cron secret')
+    }
+
+    const result = await deliverProductAlerts()
+
+    return successResponse(result)
+  } catch (error) {
+    logger.error('Product alert delivery job failed', error)
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Subscription Dunning Job
+ *
+ * GET /api/cron/subscription-dunning - Retry unpaid renewals, send reminders and cancel after the final attempt (scheduled, hourly)
+ *
+ * @module app/api/cron/subscription-dunning/route
+ */
+
+import { successResponse, unauthorizedResponse, handleApiError } from '@/lib/api-response'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { runDunning } from '@/lib/subscription-dunning'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/cron/subscription-dunning
+ * Steps that fail for reasons other than a declined card are retried on the
+ * next run.
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return unauthorizedResponse('Invalid cron secret')
+    }
+
+    const result = await runDunning()
+
+    return successResponse(result)
+  } catch (error) {
+    logger.error('Subscription dunning job failed', error)
+    return handleApiError(error)
+  }
+}
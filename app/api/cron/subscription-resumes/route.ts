@@ -0,0 +1,33 @@
+/**
+ * Scheduled Subscription Resume Job
+ *
+ * GET /api/cron/subscription-resumes - Resume subscriptions paused until a date that has passed (scheduled, hourly)
+ *
+ * @module app/api/cron/subscription-resumes/route
+ */
+
+import { successResponse, unauthorizedResponse, handleApiError } from '@/lib/api-response'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { resumeDueSubscriptions } from '@/lib/subscription-schedule'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/cron/subscription-resumes
+ * Failed resumes stay due and are retried on the next run.
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return unauthorizedResponse('Invalid cron secret')
+    }
+
+    const result = await resumeDueSubscriptions()
+
+    return successResponse(result)
+  } catch (error) {
+    logger.error('Subscription resume job failed', error)
+    return handleApiError(error)
+  }
+}
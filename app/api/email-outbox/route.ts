@@ -0,0 +1,111 @@
+/**
+ * Email Outbox API Routes
+ *
+ * GET /api/email-outbox - List messages captured by the outbox transport
+ * DELETE /api/email-outbox - Clear the outbox
+ *
+ * @module app/api/email-outbox/route
+ */
+
+import { z } from 'zod'
+import { getServerAuth } from '@/lib/auth'
+import { validateCsrfToken } from '@/lib/csrf'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  successResponse,
+  errorResponse,
+  forbiddenResponse,
+  rateLimitErrorResponse,
+  validationErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { EMAIL_OUTBOX_CONFIG, canAccessEmailTools, clearOutbox, listOutboxMessages } from '@/lib/email/outbox'
+
+export const dynamic = 'force-dynamic'
+
+const queryParamsSchema = z.object({
+  to: z.string().max(254).optional(),
+  template: z.string().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(EMAIL_OUTBOX_CONFIG.MAX_LIMIT).optional(),
+})
+
+/**
+ * GET /api/email-outbox
+ * Lists captured messages, newest first. Filter by recipient (`to`) or
+ * template name, e.g. to pick a verification link out in an e2e test.
+ * Open outside production; requires ADMIN role in production.
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await getServerAuth()
+
+    if (!(await canAccessEmailTools(userId))) {
+      return forbiddenResponse('Admin access required')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const url = new URL(request.url)
+    const validation = queryParamsSchema.safeParse(
+      Object.fromEntries(
+        Array.from(url.searchParams.entries()).filter(([, value]) => value.trim() !== '')
+      )
+    )
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error)
+    }
+
+    const messages = await listOutboxMessages(validation.data)
+
+    return successResponse(messages)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * DELETE /api/email-outbox
+ * Deletes every captured message.
+ * Open outside production; requires ADMIN role in production.
+ */
+export async function DELETE(request: Request) {
+  try {
+    const csrfValid = await validateCsrfToken(request)
+    if (!csrfValid) {
+      return errorResponse(
+        'Invalid or missing CSRF token',
+        'CSRF_VALIDATION_FAILED',
+        undefined,
+        403
+      )
+    }
+
+    const { userId } = await getServerAuth()
+
+    if (!(await canAccessEmailTools(userId))) {
+      return forbiddenResponse('Admin access required')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const deleted = await clearOutbox()
+
+    logger.info('Email outbox cleared', { userId, deleted })
+
+    return successResponse({ deleted })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Email Template Preview API Routes
+ *
+ * GET /api/email-templates/[name] - Render a template with fixture data
+ *
+ * @module app/api/email-templates/[name]/route
+ */
+
+import { z } from 'zod'
+import { getServerAuth } from '@/lib/auth'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  forbiddenResponse,
+  notFoundResponse,
+  rateLimitErrorResponse,
+  validationErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { canAccessEmailTools } from '@/lib/email/outbox'
+import { isEmailTemplateName, renderEmailPreview } from '@/lib/email/templates'
+
+export const dynamic = 'force-dynamic'
+
+const queryParamsSchema = z.object({
+  format: z.enum(['html', 'text']).default('html'),
+})
+
+/**
+ * GET /api/email-templates/[name]?format=html|text
+ * Returns the rendered email body itself (not JSON) so it can be opened in
+ * a browser tab or an iframe.
+ * Open outside production; requires ADMIN role in production.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { userId } = await getServerAuth()
+
+    if (!(await canAccessEmailTools(userId))) {
+      return forbiddenResponse('Admin access required')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const { name } = await params
+    if (!isEmailTemplateName(name)) {
+      return notFoundResponse('Email template')
+    }
+
+    const url = new URL(request.url)
+    const validation = queryParamsSchema.safeParse({
+      format: url.searchParams.get('format') || undefined,
+    })
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error)
+    }
+
+    const rendered = renderEmailPreview(name)
+    const isHtml = validation.data.format === 'html'
+
+    return new Response(isHtml ? rendered.html : rendered.text, {
+      headers: {
+        'Content-Type': `${isHtml ? 'text/html' : 'text/plain'}; charset=utf-8`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
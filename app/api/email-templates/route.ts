@@ -0,0 +1,54 @@
+/**
+ * Email Template Preview API Routes
+ *
+ * GET /api/email-templates - List transactional email templates
+ *
+ * @module app/api/email-templates/route
+ */
+
+import { getServerAuth } from '@/lib/auth'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  successResponse,
+  forbiddenResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { canAccessEmailTools } from '@/lib/email/outbox'
+import { EMAIL_TEMPLATES, renderEmailPreview, type EmailTemplateName } from '@/lib/email/templates'
+import { getEmailTransportName } from '@/lib/email/transport'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/email-templates
+ * Lists every template with its description and the subject it renders
+ * with fixture data, plus the active transport.
+ * Open outside production; requires ADMIN role in production.
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await getServerAuth()
+
+    if (!(await canAccessEmailTools(userId))) {
+      return forbiddenResponse('Admin access required')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const templates = (Object.keys(EMAIL_TEMPLATES) as EmailTemplateName[]).map((name) => ({
+      name,
+      description: EMAIL_TEMPLATES[name].description,
+      subject: renderEmailPreview(name).subject,
+    }))
+
+    return successResponse({ templates, transport: getEmailTransportName() })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -19,6 +19,7 @@ import {
   handleApiError,
 } from '@/lib/api-response'
 import { logger } from '@/lib/logger'
+import { withAuditLog } from '@/lib/audit-log'
 import {
   redeemGiftCard,
   formatGiftCardCode,
@@ -45,82 +46,89 @@ const RedeemGiftCardSchema = z.object({
  * POST /api/gift-cards/redeem
  * Redeem gift card at checkout
  */
-export async function POST(request: Request) {
-  try {
-    // CSRF protection
-    const csrfValid = await validateCsrfToken(request)
-    if (!csrfValid) {
-      return errorResponse(
-        'Invalid or missing CSRF token',
-        'CSRF_VALIDATION_FAILED',
-        undefined,
-        403
-      )
-    }
+export const POST = withAuditLog(
+  { action: 'gift_card.redeem', entityType: 'GiftCard' },
+  async (request: Request, _context: unknown, audit) => {
+    try {
+      // CSRF protection
+      const csrfValid = await validateCsrfToken(request)
+      if (!csrfValid) {
+        return errorResponse(
+          'Invalid or missing CSRF token',
+          'CSRF_VALIDATION_FAILED',
+          undefined,
+          403
+        )
+      }
 
-    // Require authentication for redemption
-    const { userId } = await getServerAuth()
-    if (!userId) {
-      return unauthorizedResponse('You must be signed in to redeem a gift card')
-    }
+      // Require authentication for redemption
+      const { userId } = await getServerAuth()
+      if (!userId) {
+        return unauthorizedResponse('You must be signed in to redeem a gift card')
+      }
 
-    // Apply strict rate limiting (5 requests per minute)
-    const identifier = getIdentifier(request, userId)
-    const { success, reset } = await checkStrictRateLimit(identifier)
+      // Apply strict rate limiting (5 requests per minute)
+      const identifier = getIdentifier(request, userId)
+      const { success, reset } = await checkStrictRateLimit(identifier)
 
-    if (!success) {
-      return rateLimitErrorResponse(reset)
-    }
+      if (!success) {
+        return rateLimitErrorResponse(reset)
+      }
 
-    // Parse and validate request body
-    const body = await request.json()
-    const validation = RedeemGiftCardSchema.safeParse(body)
+      // Parse and validate request body
+      const body = await request.json()
+      const validation = RedeemGiftCardSchema.safeParse(body)
 
-    if (!validation.success) {
-      return validationErrorResponse(validation.error)
-    }
+      if (!validation.success) {
+        return validationErrorResponse(validation.error)
+      }
 
-    const { code, amount, orderId } = validation.data
+      const { code, amount, orderId } = validation.data
 
-    // Validate code format
-    if (!isValidCodeFormat(code)) {
-      return errorResponse(
-        'Invalid gift card code format',
-        'INVALID_CODE_FORMAT',
-        undefined,
-        400
-      )
-    }
+      // Validate code format
+      if (!isValidCodeFormat(code)) {
+        return errorResponse(
+          'Invalid gift card code format',
+          'INVALID_CODE_FORMAT',
+          undefined,
+          400
+        )
+      }
 
-    // Attempt to redeem the gift card
-    const result = await redeemGiftCard(code, amount, orderId)
+      // Attempt to redeem the gift card
+      const result = await redeemGiftCard(code, amount, orderId)
 
-    if (!result.success) {
-      return errorResponse(
-        result.error,
-        'REDEMPTION_FAILED',
-        undefined,
-        400
-      )
-    }
+      if (!result.success) {
+        return errorResponse(
+          result.error,
+          'REDEMPTION_FAILED',
+          undefined,
+          400
+        )
+      }
+
+      audit.entityId = result.giftCardId
+      audit.before = { currentBalance: result.previousBalance }
+      audit.after = { currentBalance: result.remainingBalance, orderId: orderId ?? null }
 
-    logger.info('Gift card redeemed', {
-      code: normalizeGiftCardCode(code),
-      amountRequested: amount,
-      amountApplied: result.amountApplied,
-      remainingBalance: result.remainingBalance,
-      userId,
-      orderId,
-    })
-
-    // Return redemption details
-    return successResponse({
-      amountApplied: result.amountApplied,
-      remainingBalance: result.remainingBalance,
-      code: formatGiftCardCode(normalizeGiftCardCode(code)),
-    })
-  } catch (error) {
-    logger.error('Failed to redeem gift card', error)
-    return handleApiError(error)
+      logger.info('Gift card redeemed', {
+        code: normalizeGiftCardCode(code),
+        amountRequested: amount,
+        amountApplied: result.amountApplied,
+        remainingBalance: result.remainingBalance,
+        userId,
+        orderId,
+      })
+
+      // Return redemption details
+      return successResponse({
+        amountApplied: result.amountApplied,
+        remainingBalance: result.remainingBalance,
+        code: formatGiftCardCode(normalizeGiftCardCode(code)),
+      })
+    } catch (error) {
+      logger.error('Failed to redeem gift card', error)
+      return handleApiError(error)
+    }
   }
-}
+)
@@ -18,6 +18,7 @@ import {
   handleApiError,
 } from '@/lib/api-response'
 import { logger } from '@/lib/logger'
+import { withAuditLog } from '@/lib/audit-log'
 import {
   createGiftCard,
   formatGiftCardCode,
@@ -62,72 +63,85 @@ const PurchaseGiftCardSchema = z.object({
  * POST /api/gift-cards
  * Purchase a new gift card
  */
-export async function POST(request: Request) {
-  try {
-    // CSRF protection
-    const csrfValid = await validateCsrfToken(request)
-    if (!csrfValid) {
-      return errorResponse(
-        'Invalid or missing CSRF token',
-        'CSRF_VALIDATION_FAILED',
-        undefined,
-        403
-      )
-    }
+export const POST = withAuditLog(
+  { action: 'gift_card.purchase', entityType: 'GiftCard' },
+  async (request: Request, _context: unknown, audit) => {
+    try {
+      // CSRF protection
+      const csrfValid = await validateCsrfToken(request)
+      if (!csrfValid) {
+        return errorResponse(
+          'Invalid or missing CSRF token',
+          'CSRF_VALIDATION_FAILED',
+          undefined,
+          403
+        )
+      }
 
-    // Get authenticated user ID (optional for gift card purchases)
-    const { userId } = await getServerAuth()
+      // Get authenticated user ID (optional for gift card purchases)
+      const { userId } = await getServerAuth()
 
-    // Apply strict rate limiting (5 requests per minute)
-    const identifier = getIdentifier(request, userId)
-    const { success, reset } = await checkStrictRateLimit(identifier)
+      // Apply strict rate limiting (5 requests per minute)
+      const identifier = getIdentifier(request, userId)
+      const { success, reset } = await checkStrictRateLimit(identifier)
 
-    if (!success) {
-      return rateLimitErrorResponse(reset)
-    }
-
-    // Parse and validate request body
-    const body = await request.json()
-    const validation = PurchaseGiftCardSchema.safeParse(body)
+      if (!success) {
+        return rateLimitErrorResponse(reset)
+      }
 
-    if (!validation.success) {
-      return validationErrorResponse(validation.error)
-    }
+      // Parse and validate request body
+      const body = await request.json()
+      const validation = PurchaseGiftCardSchema.safeParse(body)
 
-    const { amount, recipientEmail, recipientName, message, expiryDays } = validation.data
+      if (!validation.success) {
+        return validationErrorResponse(validation.error)
+      }
 
-    // Create the gift card
-    const giftCard = await createGiftCard({
-      amount,
-      purchaserId: userId,
-      recipientEmail,
-      recipientName,
-      message,
-      expiryDays,
-    })
+      const { amount, recipientEmail, recipientName, message, expiryDays } = validation.data
 
-    logger.info('Gift card purchased', {
-      giftCardId: giftCard.id,
-      amount,
-      purchaserId: userId,
-      hasRecipient: !!recipientEmail,
-    })
+      // Create the gift card
+      const giftCard = await createGiftCard({
+        amount,
+        purchaserId: userId,
+        recipientEmail,
+        recipientName,
+        message,
+        expiryDays,
+      })
 
-    // Return the created gift card (with formatted code for display)
-    return successResponse(
-      {
-        id: giftCard.id,
-        code: formatGiftCardCode(giftCard.code),
-        amount: giftCard.initialBalance,
-        balance: giftCard.currentBalance,
+      audit.entityId = giftCard.id
+      audit.after = {
+        initialBalance: giftCard.initialBalance,
+        currentBalance: giftCard.currentBalance,
         status: giftCard.status,
         expiresAt: giftCard.expiresAt,
-      },
-      undefined,
-      201
-    )
-  } catch (error) {
-    logger.error('Failed to purchase gift card', error)
-    return handleApiError(error)
+        purchaserId: userId,
+        recipientEmail: recipientEmail ?? null,
+      }
+
+      logger.info('Gift card purchased', {
+        giftCardId: giftCard.id,
+        amount,
+        purchaserId: userId,
+        hasRecipient: !!recipientEmail,
+      })
+
+      // Return the created gift card (with formatted code for display)
+      return successResponse(
+        {
+          id: giftCard.id,
+          code: formatGiftCardCode(giftCard.code),
+          amount: giftCard.initialBalance,
+          balance: giftCard.currentBalance,
+          status: giftCard.status,
+          expiresAt: giftCard.expiresAt,
+        },
+        undefined,
+        201
+      )
+    } catch (error) {
+      logger.error('Failed to purchase gift card', error)
+      return handleApiError(error)
+    }
   }
-}
+)
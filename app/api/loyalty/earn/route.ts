@@ -11,7 +11,9 @@
  * - orderTotal?: number (required for PURCHASE source)
  * - reviewId?: string (required for REVIEW source)
  * - referralId?: string (required for REFERRAL source)
+ * - reason?: string (why the points were awarded, for the audit log)
  *
+ * Every award is recorded in the audit log against the user who received it.
  * For regular users, this endpoint validates the source data to prevent fraud.
  * Admin users can award arbitrary points.
  */
@@ -39,6 +41,9 @@ import {
   handleApiError,
 } from "@/lib/api-response";
 import { logger } from "@/lib/logger";
+import { withAuditLog } from "@/lib/audit-log";
+import { prisma } from "@/lib/prisma";
+import { REVIEW_CONFIG } from "@/lib/reviews";
 
 export const dynamic = 'force-dynamic'
 
@@ -53,141 +58,171 @@ const EarnPointsSchema = z.object({
   orderTotal: z.number().positive().max(1000000).optional(),
   reviewId: z.string().optional(),
   referralId: z.string().optional(),
+  // Why points were awarded by hand, kept in the audit log
+  reason: z.string().trim().max(500).optional(),
 });
 
-export async function POST(req: Request) {
-  try {
-    // CSRF protection
-    const csrfValid = await validateCsrfToken(req);
-    if (!csrfValid) {
-      return errorResponse(
-        "Invalid or missing CSRF token",
-        "CSRF_VALIDATION_FAILED",
-        undefined,
-        403
-      );
-    }
-
-    const { userId } = await getServerAuth();
-
-    if (!userId) {
-      return unauthorizedResponse("You must be logged in to earn points");
-    }
-
-    // Rate limiting
-    const identifier = getIdentifier(req, userId);
-    const { success, reset } = await checkRateLimit(identifier);
-
-    if (!success) {
-      return rateLimitErrorResponse(reset);
-    }
-
-    const body = await req.json();
-
-    // Validate input
-    const validation = EarnPointsSchema.safeParse(body);
-    if (!validation.success) {
-      return validationErrorResponse(validation.error);
-    }
-
-    const { source, orderId, orderTotal, reviewId, referralId } = validation.data;
-
-    let result: { success: boolean; pointsAwarded?: number; error?: string };
-
-    switch (source) {
-      case POINT_SOURCES.PURCHASE:
-        // Purchase points are typically awarded by the webhook
-        // Only admins can manually award purchase points
-        const isAdmin = await requireRole(userId, ["ADMIN"]);
-        if (!isAdmin) {
-          return forbiddenResponse(
-            "Purchase points are automatically awarded after checkout"
-          );
-        }
-        if (!orderId || !orderTotal) {
-          return errorResponse(
-            "orderId and orderTotal are required for purchase points",
-            undefined,
-            undefined,
-            400
-          );
-        }
-        const purchaseResult = await awardPurchasePoints(userId, orderId, orderTotal);
-        result = {
-          success: purchaseResult.success,
-          pointsAwarded: purchaseResult.pointsAwarded,
-        };
-        break;
-
-      case POINT_SOURCES.REVIEW:
-        if (!reviewId) {
-          return errorResponse(
-            "reviewId is required for review points",
-            undefined,
-            undefined,
-            400
-          );
-        }
-        const reviewSuccess = await awardReviewPoints(userId, reviewId);
-        result = {
-          success: reviewSuccess,
-          pointsAwarded: reviewSuccess ? 50 : 0,
-          error: reviewSuccess ? undefined : "Points already awarded for this review",
-        };
-        break;
-
-      case POINT_SOURCES.REFERRAL:
-        if (!referralId) {
-          return errorResponse(
-            "referralId is required for referral points",
-            undefined,
-            undefined,
-            400
-          );
-        }
-        const referralSuccess = await awardReferralPoints(userId, referralId);
-        result = {
-          success: referralSuccess,
-          pointsAwarded: referralSuccess ? 200 : 0,
-          error: referralSuccess ? undefined : "Points already awarded for this referral",
-        };
-        break;
-
-      case POINT_SOURCES.SIGNUP:
-        const signupSuccess = await awardSignupBonus(userId);
-        result = {
-          success: signupSuccess,
-          pointsAwarded: signupSuccess ? LOYALTY_CONFIG.signupBonus : 0,
-          error: signupSuccess ? undefined : "Signup bonus already claimed",
+export const POST = withAuditLog(
+  { action: "loyalty.award", entityType: "LoyaltyPoints" },
+  async (req: Request, _context: unknown, audit) => {
+    try {
+      // CSRF protection
+      const csrfValid = await validateCsrfToken(req);
+      if (!csrfValid) {
+        return errorResponse(
+          "Invalid or missing CSRF token",
+          "CSRF_VALIDATION_FAILED",
+          undefined,
+          403
+        );
+      }
+
+      const { userId } = await getServerAuth();
+
+      if (!userId) {
+        return unauthorizedResponse("You must be logged in to earn points");
+      }
+
+      // Rate limiting
+      const identifier = getIdentifier(req, userId);
+      const { success, reset } = await checkRateLimit(identifier);
+
+      if (!success) {
+        return rateLimitErrorResponse(reset);
+      }
+
+      const body = await req.json();
+
+      // Validate input
+      const validation = EarnPointsSchema.safeParse(body);
+      if (!validation.success) {
+        return validationErrorResponse(validation.error);
+      }
+
+      const { source, orderId, orderTotal, reviewId, referralId, reason } = validation.data;
+
+      let result: { success: boolean; pointsAwarded?: number; error?: string };
+
+      switch (source) {
+        case POINT_SOURCES.PURCHASE:
+          // Purchase points are typically awarded by the webhook
+          // Only admins can manually award purchase points
+          const isAdmin = await requireRole(userId, ["ADMIN"]);
+          if (!isAdmin) {
+            return forbiddenResponse(
+              "Purchase points are automatically awarded after checkout"
+            );
+          }
+          if (!orderId || !orderTotal) {
+            return errorResponse(
+              "orderId and orderTotal are required for purchase points",
+              undefined,
+              undefined,
+              400
+            );
+          }
+          const purchaseResult = await awardPurchasePoints(userId, orderId, orderTotal);
+          result = {
+            success: purchaseResult.success,
+            pointsAwarded: purchaseResult.pointsAwarded,
+          };
+          break;
+
+        case POINT_SOURCES.REVIEW:
+          if (!reviewId) {
+            return errorResponse(
+              "reviewId is required for review points",
+              undefined,
+              undefined,
+              400
+            );
+          }
+          // Points are only available for the caller's own approved reviews
+          const approvedReview = await prisma.review.findFirst({
+            where: { id: reviewId, userId, status: REVIEW_CONFIG.STATUS.APPROVED },
+            select: { id: true },
+          });
+          if (!approvedReview) {
+            return errorResponse(
+              "Review points are awarded once your review has been approved",
+              undefined,
+              undefined,
+              400
+            );
+          }
+          const reviewSuccess = await awardReviewPoints(userId, reviewId);
+          result = {
+            success: reviewSuccess,
+            pointsAwarded: reviewSuccess ? 50 : 0,
+            error: reviewSuccess ? undefined : "Points already awarded for this review",
+          };
+          break;
+
+        case POINT_SOURCES.REFERRAL:
+          if (!referralId) {
+            return errorResponse(
+              "referralId is required for referral points",
+              undefined,
+              undefined,
+              400
+            );
+          }
+          const referralSuccess = await awardReferralPoints(userId, referralId);
+          result = {
+            success: referralSuccess,
+            pointsAwarded: referralSuccess ? 200 : 0,
+            error: referralSuccess ? undefined : "Points already awarded for this referral",
+          };
+          break;
+
+        case POINT_SOURCES.SIGNUP:
+          const signupSuccess = await awardSignupBonus(userId);
+          result = {
+            success: signupSuccess,
+            pointsAwarded: signupSuccess ? LOYALTY_CONFIG.signupBonus : 0,
+            error: signupSuccess ? undefined : "Signup bonus already claimed",
+          };
+          break;
+
+        default:
+          return errorResponse("Invalid points source", undefined, undefined, 400);
+      }
+
+      if (!result.success) {
+        return errorResponse(
+          result.error || "Failed to award points",
+          undefined,
+          undefined,
+          400
+        );
+      }
+
+      if (result.pointsAwarded) {
+        audit.entityId = userId;
+        audit.after = {
+          source,
+          pointsAwarded: result.pointsAwarded,
+          orderId: orderId ?? null,
+          reviewId: reviewId ?? null,
+          referralId: referralId ?? null,
+          reason: reason ?? null,
         };
-        break;
-
-      default:
-        return errorResponse("Invalid points source", undefined, undefined, 400);
-    }
-
-    if (!result.success) {
-      return errorResponse(
-        result.error || "Failed to award points",
-        undefined,
-        undefined,
-        400
-      );
+      }
+
+      logger.info("Points earned via API", {
+        userId,
+        source,
+        pointsAwarded: result.pointsAwarded,
+      });
+
+      return successResponse({
+        success: true,
+        pointsAwarded: result.pointsAwarded,
+        source,
+      });
+    } catch (error) {
+      logger.error("Failed to earn points", error);
+      return handleApiError(error);
     }
-
-    logger.info("Points earned via API", {
-      userId,
-      source,
-      pointsAwarded: result.pointsAwarded,
-    });
-
-    return successResponse({
-      success: true,
-      pointsAwarded: result.pointsAwarded,
-      source,
-    });
-  } catch (error) {
-    logger.error("Failed to earn points", error);
-    return handleApiError(error);
   }
-}
+);
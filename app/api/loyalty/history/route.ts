@@ -2,7 +2,7 @@
  * GET /api/loyalty/history
  *
  * Returns the authenticated user's loyalty points transaction history.
- * Includes both earned points and redemptions, sorted by date descending.
+ * Includes earned points, redemptions and expired points, sorted by date descending.
  *
  * Query parameters:
  * - page: number (default: 1)
@@ -0,0 +1,67 @@
+import { checkStrictRateLimit, getIdentifier } from "@/lib/rate-limit"
+import { validateCsrfToken } from "@/lib/csrf"
+import { confirmNewsletterSubscription } from "@/lib/newsletter"
+import { z } from "zod"
+import {
+  successResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+  errorResponse
+} from "@/lib/api-response"
+
+export const dynamic = 'force-dynamic'
+
+const ConfirmSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+})
+
+/**
+ * POST /api/newsletter/confirm
+ *
+ * Confirms a pending subscription with the token from the opt-in email.
+ * The confirm page posts here from the browser so that link scanners
+ * fetching the emailed URL cannot confirm on the reader's behalf.
+ *
+ * Body: { token: string }
+ */
+export async function POST(req: Request) {
+  try {
+    const csrfValid = await validateCsrfToken(req);
+    if (!csrfValid) {
+      return errorResponse(
+        "Invalid or missing CSRF token",
+        "CSRF_VALIDATION_FAILED",
+        undefined,
+        403
+      );
+    }
+
+    const identifier = getIdentifier(req);
+    const { success, reset } = await checkStrictRateLimit(identifier);
+
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    const body = await req.json()
+
+    const validation = ConfirmSchema.safeParse(body)
+    if (!validation.success) {
+      return validationErrorResponse(validation.error);
+    }
+
+    const result = await confirmNewsletterSubscription(validation.data.token)
+
+    if (!result.success) {
+      return errorResponse(result.error, result.code, undefined, 400);
+    }
+
+    return successResponse(
+      { alreadyConfirmed: result.alreadyConfirmed },
+      { message: "Subscription confirmed" }
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,103 @@
+import { checkRateLimit, checkStrictRateLimit, getIdentifier } from "@/lib/rate-limit"
+import { validateCsrfToken } from "@/lib/csrf"
+import {
+  getNewsletterPreferences,
+  updateNewsletterPreferences,
+  NEWSLETTER_CONFIG,
+} from "@/lib/newsletter"
+import { z } from "zod"
+import {
+  successResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+  errorResponse
+} from "@/lib/api-response"
+
+export const dynamic = 'force-dynamic'
+
+const PreferencesSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  // An empty list unsubscribes from everything
+  topics: z.array(z.enum(NEWSLETTER_CONFIG.TOPICS)),
+})
+
+/**
+ * GET /api/newsletter/preferences?token=...
+ *
+ * Returns the subscriber's status and topics for the preferences page.
+ */
+export async function GET(req: Request) {
+  try {
+    const identifier = getIdentifier(req);
+    const { success, reset } = await checkRateLimit(identifier);
+
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    const token = new URL(req.url).searchParams.get("token")
+
+    if (!token) {
+      return errorResponse("Token is required", "VALIDATION_ERROR", undefined, 400);
+    }
+
+    const result = await getNewsletterPreferences(token)
+
+    if (!result.success) {
+      return errorResponse(result.error, result.code, undefined, 400);
+    }
+
+    return successResponse({ email: result.email, status: result.status, topics: result.topics });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PATCH /api/newsletter/preferences
+ *
+ * Updates topic preferences using the token from a newsletter email.
+ *
+ * Body: { token: string, topics: string[] }
+ */
+export async function PATCH(req: Request) {
+  try {
+    const csrfValid = await validateCsrfToken(req);
+    if (!csrfValid) {
+      return errorResponse(
+        "Invalid or missing CSRF token",
+        "CSRF_VALIDATION_FAILED",
+        undefined,
+        403
+      );
+    }
+
+    const identifier = getIdentifier(req);
+    const { success, reset } = await checkStrictRateLimit(identifier);
+
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    const body = await req.json()
+
+    const validation = PreferencesSchema.safeParse(body)
+    if (!validation.success) {
+      return validationErrorResponse(validation.error);
+    }
+
+    const result = await updateNewsletterPreferences(validation.data.token, validation.data.topics)
+
+    if (!result.success) {
+      return errorResponse(result.error, result.code, undefined, 400);
+    }
+
+    return successResponse(
+      { email: result.email, status: result.status, topics: result.topics },
+      { message: "Preferences saved" }
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,7 +1,6 @@
 import { checkStrictRateLimit, getIdentifier } from "@/lib/rate-limit"
 import { validateCsrfToken } from "@/lib/csrf"
-import { prisma } from "@/lib/prisma"
-import { sendNewsletterConfirmation, isEmailConfigured } from "@/lib/email"
+import { subscribeToNewsletter, NEWSLETTER_CONFIG } from "@/lib/newsletter"
 import { z } from "zod"
 import {
   successResponse,
@@ -10,15 +9,23 @@ import {
   handleApiError,
   errorResponse
 } from "@/lib/api-response"
-import { logger } from "@/lib/logger"
 
 export const dynamic = 'force-dynamic'
 
 // Validation schema for newsletter subscription
 const NewsletterSchema = z.object({
   email: z.string().email("Invalid email address").toLowerCase(),
+  topics: z.array(z.enum(NEWSLETTER_CONFIG.TOPICS)).min(1, "Choose at least one topic").optional(),
 })
 
+/**
+ * POST /api/newsletter
+ *
+ * Starts a double opt-in subscription. Nothing is sent beyond the
+ * confirmation email until the subscriber clicks its link.
+ *
+ * Body: { email: string, topics?: ("DEALS" | "BLOG_DIGEST" | "IMPACT_REPORTS")[] }
+ */
 export async function POST(req: Request) {
   try {
     // CSRF protection
@@ -48,38 +55,20 @@ export async function POST(req: Request) {
       return validationErrorResponse(validation.error);
     }
 
-    const { email } = validation.data
+    const { email, topics } = validation.data
 
-    // Check if already subscribed
-    const existing = await prisma.newsletter.findUnique({
-      where: { email }
-    })
+    const result = await subscribeToNewsletter(email, topics)
 
-    if (existing) {
+    if (result.alreadySubscribed) {
       return successResponse(
         { email, alreadySubscribed: true },
         { message: "Email already subscribed" }
       );
     }
 
-    // Store subscription in database
-    const subscription = await prisma.newsletter.create({
-      data: {
-        email,
-        subscribedAt: new Date(),
-      }
-    })
-
-    // Send confirmation email (if configured)
-    if (isEmailConfigured()) {
-      await sendNewsletterConfirmation(email);
-    } else {
-      logger.warn('Email service not configured - skipping confirmation email');
-    }
-
     return successResponse(
-      { email, subscriptionId: subscription.id },
-      { message: "Successfully subscribed to newsletter" },
+      { email, subscriptionId: result.subscriberId, status: result.status },
+      { message: "Check your inbox to confirm your subscription" },
       201
     );
   } catch (error) {
@@ -0,0 +1,45 @@
+import { checkRateLimit, getIdentifier } from "@/lib/rate-limit"
+import { unsubscribeFromNewsletter } from "@/lib/newsletter"
+import {
+  successResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+  errorResponse
+} from "@/lib/api-response"
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/newsletter/unsubscribe?token=...
+ *
+ * RFC 8058 one-click unsubscribe target, advertised in the
+ * List-Unsubscribe header of newsletter emails. Mail clients POST here
+ * without cookies or a CSRF token, so the signed token in the URL is the
+ * only credential. The preferences page uses the same endpoint.
+ */
+export async function POST(req: Request) {
+  try {
+    const identifier = getIdentifier(req);
+    const { success, reset } = await checkRateLimit(identifier);
+
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    const token = new URL(req.url).searchParams.get("token")
+
+    if (!token) {
+      return errorResponse("Token is required", "VALIDATION_ERROR", undefined, 400);
+    }
+
+    const result = await unsubscribeFromNewsletter(token)
+
+    if (!result.success) {
+      return errorResponse(result.error, result.code, undefined, 400);
+    }
+
+    return successResponse({ unsubscribed: true }, { message: "You have been unsubscribed" });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,64 @@
+import { getServerAuth, requireRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  handleApiError,
+  rateLimitErrorResponse,
+} from "@/lib/api-response";
+import { checkRateLimit, getIdentifier } from "@/lib/rate-limit";
+import { logger } from "@/lib/logger";
+import { getOrderEvents } from "@/lib/order-events";
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/orders/[id]/events
+ *
+ * Returns the order's admin history (status changes, shipments, refunds
+ * and internal notes), newest first. Requires ADMIN role.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await getServerAuth();
+
+    if (!userId) {
+      return unauthorizedResponse("You must be logged in");
+    }
+
+    const isAdmin = await requireRole(userId, ['ADMIN']);
+    if (!isAdmin) {
+      return forbiddenResponse("Admin access required");
+    }
+
+    const identifier = getIdentifier(req, userId);
+    const { success, reset } = await checkRateLimit(identifier);
+
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    const { id } = await params;
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!order) {
+      return notFoundResponse("Order");
+    }
+
+    const events = await getOrderEvents(id);
+
+    return successResponse(events);
+  } catch (error) {
+    logger.error("Failed to fetch order events", error);
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,89 @@
+import { getServerAuth, requireRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  handleApiError,
+  rateLimitErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-response";
+import { checkRateLimit, getIdentifier } from "@/lib/rate-limit";
+import { validateCsrfToken } from "@/lib/csrf";
+import { logger } from "@/lib/logger";
+import { ORDER_EVENT_TYPES, recordOrderEvent } from "@/lib/order-events";
+
+export const dynamic = 'force-dynamic'
+
+const createNoteSchema = z.object({
+  note: z.string().trim().min(1, "Note cannot be empty").max(2000, "Note is too long"),
+});
+
+/**
+ * POST /api/orders/[id]/notes
+ *
+ * Adds an internal note to the order's history. Notes are only visible to
+ * admins. Requires ADMIN role.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, user } = await getServerAuth();
+
+    if (!userId) {
+      return unauthorizedResponse("You must be logged in");
+    }
+
+    // Validate CSRF token
+    const csrfValid = await validateCsrfToken(req);
+    if (!csrfValid) {
+      return forbiddenResponse("Invalid or missing CSRF token");
+    }
+
+    const isAdmin = await requireRole(userId, ['ADMIN']);
+    if (!isAdmin) {
+      return forbiddenResponse("Admin access required");
+    }
+
+    const identifier = getIdentifier(req, userId);
+    const { success, reset } = await checkRateLimit(identifier);
+
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    const { id } = await params;
+
+    const body = await req.json();
+    const validation = createNoteSchema.safeParse(body);
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error);
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!order) {
+      return notFoundResponse("Order");
+    }
+
+    const event = await recordOrderEvent({
+      orderId: id,
+      type: ORDER_EVENT_TYPES.NOTE,
+      message: validation.data.note,
+      actor: { userId, email: user?.email, name: user?.name },
+    });
+
+    return successResponse({ ...event, metadata: null }, undefined, 201);
+  } catch (error) {
+    logger.error("Failed to add order note", error);
+    return handleApiError(error);
+  }
+}
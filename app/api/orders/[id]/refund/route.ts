@@ -15,7 +15,9 @@ import {
 import { checkRateLimit, getIdentifier } from "@/lib/rate-limit";
 import { validateCsrfToken } from "@/lib/csrf";
 import { logger } from "@/lib/logger";
+import { withAuditLog } from "@/lib/audit-log";
 import { calculateProratedPartialRefund, processRefund, type RefundItemInput } from "@/lib/refund";
+import { ORDER_EVENT_TYPES, recordOrderEvent } from "@/lib/order-events";
 
 export const dynamic = 'force-dynamic'
 
@@ -33,6 +35,7 @@ const RefundBodySchema = z.object({
     { message: 'Duplicate orderItemId values are not allowed' }
   ).optional(),
   reason: z.string().max(500).optional(),
+  preview: z.boolean().optional(),
 }).optional()
 
 /**
@@ -52,204 +55,260 @@ const RefundBodySchema = z.object({
  *   - Restores inventory for specified items only
  *   - Does NOT reverse loyalty points or gift card
  *
+ * Preview (body with preview: true):
+ *   - Returns the calculated refund amount without touching Stripe or the order
+ *
  * The order must have status "paid" or "partially_refunded" and a valid Stripe session ID.
+ * Completed refunds are recorded in the order's event history.
  */
-export async function POST(
-  req: Request,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const { userId } = await getServerAuth();
-
-    if (!userId) {
-      return unauthorizedResponse("You must be logged in");
-    }
+export const POST = withAuditLog(
+  { action: "order.refund", entityType: "Order" },
+  async (req: Request, { params }: { params: Promise<{ id: string }> }, audit) => {
+    try {
+      const { userId, user } = await getServerAuth();
 
-    // Validate CSRF token
-    const csrfValid = await validateCsrfToken(req);
-    if (!csrfValid) {
-      return forbiddenResponse("Invalid or missing CSRF token");
-    }
+      if (!userId) {
+        return unauthorizedResponse("You must be logged in");
+      }
 
-    // Require ADMIN role
-    const isAdmin = await requireRole(userId, ['ADMIN']);
-    if (!isAdmin) {
-      return forbiddenResponse("Admin access required");
-    }
+      // Validate CSRF token
+      const csrfValid = await validateCsrfToken(req);
+      if (!csrfValid) {
+        return forbiddenResponse("Invalid or missing CSRF token");
+      }
 
-    // Apply rate limiting
-    const identifier = getIdentifier(req, userId);
-    const { success, reset } = await checkRateLimit(identifier);
+      // Require ADMIN role
+      const isAdmin = await requireRole(userId, ['ADMIN']);
+      if (!isAdmin) {
+        return forbiddenResponse("Admin access required");
+      }
 
-    if (!success) {
-      return rateLimitErrorResponse(reset);
-    }
+      // Apply rate limiting
+      const identifier = getIdentifier(req, userId);
+      const { success, reset } = await checkRateLimit(identifier);
 
-    // Parse optional request body
-    let body: z.infer<typeof RefundBodySchema> = undefined
-    try {
-      const text = await req.text()
-      if (text.trim()) {
-        const parsed = JSON.parse(text)
-        const validated = RefundBodySchema.parse(parsed)
-        body = validated
+      if (!success) {
+        return rateLimitErrorResponse(reset);
       }
-    } catch (parseError) {
-      if (parseError instanceof z.ZodError) {
-        return validationErrorResponse(parseError)
+
+      // Parse optional request body
+      let body: z.infer<typeof RefundBodySchema> = undefined
+      try {
+        const text = await req.text()
+        if (text.trim()) {
+          const parsed = JSON.parse(text)
+          const validated = RefundBodySchema.parse(parsed)
+          body = validated
+        }
+      } catch (parseError) {
+        if (parseError instanceof z.ZodError) {
+          return validationErrorResponse(parseError)
+        }
+        if (parseError instanceof SyntaxError) {
+          return errorResponse('Invalid JSON body', 'BAD_REQUEST', undefined, 400)
+        }
+        throw parseError
       }
-      if (parseError instanceof SyntaxError) {
-        return errorResponse('Invalid JSON body', 'BAD_REQUEST', undefined, 400)
+
+      const { id } = await params;
+
+      // Fetch the order with items included
+      const order = await prisma.order.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          status: true,
+          stripeSessionId: true,
+          amount: true,
+          refundAmount: true,
+          customerEmail: true,
+          customerName: true,
+          giftCardId: true,
+          giftCardAmountUsed: true,
+          items: true,
+        },
+      });
+
+      if (!order) {
+        return notFoundResponse("Order");
       }
-      throw parseError
-    }
 
-    const { id } = await params;
-
-    // Fetch the order with items included
-    const order = await prisma.order.findUnique({
-      where: { id },
-      select: {
-        id: true,
-        status: true,
-        stripeSessionId: true,
-        amount: true,
-        refundAmount: true,
-        customerEmail: true,
-        customerName: true,
-        giftCardId: true,
-        giftCardAmountUsed: true,
-        items: true,
-      },
-    });
-
-    if (!order) {
-      return notFoundResponse("Order");
-    }
+      // Verify order is in a refundable state
+      if (order.status === 'refunded') {
+        return errorResponse(
+          "This order has already been fully refunded",
+          "ALREADY_REFUNDED",
+          undefined,
+          409
+        );
+      }
 
-    // Verify order is in a refundable state
-    if (order.status === 'refunded') {
-      return errorResponse(
-        "This order has already been fully refunded",
-        "ALREADY_REFUNDED",
-        undefined,
-        409
-      );
-    }
+      if (order.status !== 'paid' && order.status !== 'partially_refunded') {
+        return errorResponse(
+          `Cannot refund an order with status "${order.status}". Only paid or partially_refunded orders can be refunded.`,
+          "INVALID_ORDER_STATUS",
+          undefined,
+          400
+        );
+      }
 
-    if (order.status !== 'paid' && order.status !== 'partially_refunded') {
-      return errorResponse(
-        `Cannot refund an order with status "${order.status}". Only paid or partially_refunded orders can be refunded.`,
-        "INVALID_ORDER_STATUS",
-        undefined,
-        400
-      );
-    }
+      if (!order.stripeSessionId) {
+        return errorResponse(
+          "This order does not have an associated Stripe session and cannot be refunded automatically",
+          "NO_STRIPE_SESSION",
+          undefined,
+          400
+        );
+      }
 
-    if (!order.stripeSessionId) {
-      return errorResponse(
-        "This order does not have an associated Stripe session and cannot be refunded automatically",
-        "NO_STRIPE_SESSION",
-        undefined,
-        400
-      );
-    }
+      const isPartial = !!body?.items && body.items.length > 0
 
-    // Retrieve the Stripe Checkout Session to get the PaymentIntent
-    const stripe = getStripe();
-    const session = await stripe.checkout.sessions.retrieve(order.stripeSessionId);
+      // Calculate refund amount
+      let stripeRefundAmountCents: number | undefined = undefined // undefined = full refund in Stripe
+      let normalizedRefundItems: RefundItemInput[] | undefined = undefined
+      let partialRefundAmount = 0
 
-    const paymentIntentId = session.payment_intent as string;
+      if (isPartial) {
+        try {
+          const partialCalculation = calculateProratedPartialRefund(order, body!.items!)
+          normalizedRefundItems = partialCalculation.normalizedItems
+          partialRefundAmount = partialCalculation.refundAmount
+          stripeRefundAmountCents = partialCalculation.refundAmountCents
+        } catch (calculationError) {
+          const message = calculationError instanceof Error
+            ? calculationError.message
+            : 'Invalid partial refund request'
+          return errorResponse(
+            message,
+            "INVALID_REFUND_REQUEST",
+            undefined,
+            400
+          )
+        }
+      }
 
-    if (!paymentIntentId) {
-      return errorResponse(
-        "No payment intent found for this order. The payment may not have been captured.",
-        "NO_PAYMENT_INTENT",
-        undefined,
-        400
-      );
-    }
+      // Preview: report the amount without refunding anything
+      if (body?.preview) {
+        const remainingRefundableAmount = Math.max(
+          0,
+          Number(order.amount) - Number(order.refundAmount || 0)
+        )
+
+        return successResponse({
+          orderId: id,
+          preview: true,
+          isPartial,
+          items: normalizedRefundItems ?? [],
+          refundAmount: isPartial ? partialRefundAmount : remainingRefundableAmount,
+          remainingRefundableAmount,
+        });
+      }
 
-    const isPartial = !!body?.items && body.items.length > 0
+      // Retrieve the Stripe Checkout Session to get the PaymentIntent
+      const stripe = getStripe();
+      const session = await stripe.checkout.sessions.retrieve(order.stripeSessionId);
 
-    // Calculate refund amount
-    let stripeRefundAmountCents: number | undefined = undefined // undefined = full refund in Stripe
-    let normalizedRefundItems: RefundItemInput[] | undefined = undefined
-    let partialRefundAmount = 0
+      const paymentIntentId = session.payment_intent as string;
 
-    if (isPartial) {
-      try {
-        const partialCalculation = calculateProratedPartialRefund(order, body!.items!)
-        normalizedRefundItems = partialCalculation.normalizedItems
-        partialRefundAmount = partialCalculation.refundAmount
-        stripeRefundAmountCents = partialCalculation.refundAmountCents
-      } catch (calculationError) {
-        const message = calculationError instanceof Error
-          ? calculationError.message
-          : 'Invalid partial refund request'
+      if (!paymentIntentId) {
         return errorResponse(
-          message,
-          "INVALID_REFUND_REQUEST",
+          "No payment intent found for this order. The payment may not have been captured.",
+          "NO_PAYMENT_INTENT",
           undefined,
           400
-        )
+        );
       }
-    }
 
-    // Create the refund via Stripe
-    try {
-      const refundParams: { payment_intent: string; amount?: number } = {
-        payment_intent: paymentIntentId,
+      // Create the refund via Stripe
+      try {
+        const refundParams: { payment_intent: string; amount?: number } = {
+          payment_intent: paymentIntentId,
+        }
+        if (stripeRefundAmountCents !== undefined) {
+          refundParams.amount = stripeRefundAmountCents
+        }
+        await stripe.refunds.create(refundParams);
+      } catch (stripeError: unknown) {
+        const message = stripeError instanceof Error
+          ? stripeError.message
+          : 'An unexpected Stripe error occurred';
+
+        logger.error("Stripe refund failed", stripeError instanceof Error ? stripeError : undefined, {
+          orderId: id,
+          paymentIntentId,
+          isPartial,
+        });
+
+        return errorResponse(
+          `Stripe refund failed: ${message}`,
+          "STRIPE_REFUND_FAILED",
+          undefined,
+          502
+        );
       }
-      if (stripeRefundAmountCents !== undefined) {
-        refundParams.amount = stripeRefundAmountCents
+
+      // Process all refund side-effects (inventory, loyalty, order status)
+      const refundResult = await processRefund({
+        orderId: id,
+        items: normalizedRefundItems,
+        reason: body?.reason,
+        refundAmount: isPartial ? partialRefundAmount : undefined,
+      })
+
+      audit.entityId = id;
+      audit.before = {
+        status: order.status,
+        refundAmount: Number(order.refundAmount || 0),
+      };
+      audit.after = {
+        status: isPartial ? 'partially_refunded' : 'refunded',
+        refundAmount: Number(order.refundAmount || 0) + refundResult.refundedAmount,
+        refundedItems: normalizedRefundItems ?? 'all',
+        reason: body?.reason ?? null,
+      };
+
+      try {
+        await recordOrderEvent({
+          orderId: id,
+          type: ORDER_EVENT_TYPES.REFUNDED,
+          message: isPartial
+            ? `Partial refund of $${refundResult.refundedAmount.toFixed(2)}`
+            : `Full refund of $${refundResult.refundedAmount.toFixed(2)}`,
+          actor: { userId, email: user?.email, name: user?.name },
+          metadata: {
+            isPartial,
+            amount: refundResult.refundedAmount,
+            items: normalizedRefundItems ?? [],
+            reason: body?.reason ?? null,
+          },
+        });
+      } catch (eventError) {
+        // History is best-effort; the refund itself succeeded
+        logger.error("Failed to record order event", eventError instanceof Error ? eventError : undefined, {
+          orderId: id,
+        });
       }
-      await stripe.refunds.create(refundParams);
-    } catch (stripeError: unknown) {
-      const message = stripeError instanceof Error
-        ? stripeError.message
-        : 'An unexpected Stripe error occurred';
 
-      logger.error("Stripe refund failed", stripeError instanceof Error ? stripeError : undefined, {
+      logger.info("Order refund completed", {
         orderId: id,
+        adminUserId: userId,
+        amount: refundResult.refundedAmount,
         paymentIntentId,
         isPartial,
       });
 
-      return errorResponse(
-        `Stripe refund failed: ${message}`,
-        "STRIPE_REFUND_FAILED",
-        undefined,
-        502
-      );
+      return successResponse({
+        orderId: id,
+        status: isPartial ? 'partially_refunded' : 'refunded',
+        refundedAmount: refundResult.refundedAmount,
+        inventoryRestored: refundResult.inventoryRestored,
+        loyaltyPointsReversed: refundResult.loyaltyPointsReversed,
+        promoCodeReversed: refundResult.promoCodeReversed,
+        giftCardAmountRestored: refundResult.giftCardAmountRestored,
+      });
+    } catch (error) {
+      logger.error("Failed to process refund", error instanceof Error ? error : undefined);
+      return handleApiError(error);
     }
-
-    // Process all refund side-effects (inventory, loyalty, order status)
-    const refundResult = await processRefund({
-      orderId: id,
-      items: normalizedRefundItems,
-      reason: body?.reason,
-      refundAmount: isPartial ? partialRefundAmount : undefined,
-    })
-
-    logger.info("Order refund completed", {
-      orderId: id,
-      adminUserId: userId,
-      amount: refundResult.refundedAmount,
-      paymentIntentId,
-      isPartial,
-    });
-
-    return successResponse({
-      orderId: id,
-      status: isPartial ? 'partially_refunded' : 'refunded',
-      refundedAmount: refundResult.refundedAmount,
-      inventoryRestored: refundResult.inventoryRestored,
-      loyaltyPointsReversed: refundResult.loyaltyPointsReversed,
-      giftCardAmountRestored: refundResult.giftCardAmountRestored,
-    });
-  } catch (error) {
-    logger.error("Failed to process refund", error instanceof Error ? error : undefined);
-    return handleApiError(error);
   }
-}
+)
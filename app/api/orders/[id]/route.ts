@@ -14,6 +14,13 @@ import { checkRateLimit, getIdentifier } from "@/lib/rate-limit";
 import { validateCsrfToken } from "@/lib/csrf";
 import { sendShippingNotificationEmail } from "@/lib/email";
 import { logger } from "@/lib/logger";
+import { withAuditLog } from "@/lib/audit-log";
+import {
+  classifyOrderChanges,
+  describeOrderChanges,
+  diffOrderFields,
+  recordOrderEvent,
+} from "@/lib/order-events";
 
 export const dynamic = 'force-dynamic'
 
@@ -54,7 +61,8 @@ const updateOrderSchema = z.object({
 /**
  * GET /api/orders/[id]
  *
- * Returns detailed order information including shipping tracking.
+ * Returns detailed order information including shipping tracking and the
+ * certificate of any carbon offset bought with the order.
  * Admins can view any order; regular users can only view their own.
  */
 export async function GET(
@@ -94,6 +102,7 @@ export async function GET(
             variant: true,
           },
         },
+        carbonOffset: true,
       },
     });
 
@@ -139,154 +148,198 @@ export async function GET(
  * PATCH /api/orders/[id]
  *
  * Updates shipping status and tracking information for an order.
- * Requires ADMIN role.
+ * Requires ADMIN role. Every effective change is recorded in the order's
+ * event history together with the acting admin.
  */
-export async function PATCH(
-  req: Request,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const { userId } = await getServerAuth();
-
-    if (!userId) {
-      return unauthorizedResponse("You must be logged in");
-    }
-
-    // Validate CSRF token
-    const csrfValid = await validateCsrfToken(req);
-    if (!csrfValid) {
-      return forbiddenResponse("Invalid or missing CSRF token");
-    }
+export const PATCH = withAuditLog(
+  { action: "order.update", entityType: "Order" },
+  async (req: Request, { params }: { params: Promise<{ id: string }> }, audit) => {
+    try {
+      const { userId, user } = await getServerAuth();
+
+      if (!userId) {
+        return unauthorizedResponse("You must be logged in");
+      }
 
-    // Require ADMIN role
-    const isAdmin = await requireRole(userId, ['ADMIN']);
-    if (!isAdmin) {
-      return forbiddenResponse("Admin access required");
-    }
+      // Validate CSRF token
+      const csrfValid = await validateCsrfToken(req);
+      if (!csrfValid) {
+        return forbiddenResponse("Invalid or missing CSRF token");
+      }
 
-    // Apply rate limiting
-    const identifier = getIdentifier(req, userId);
-    const { success, reset } = await checkRateLimit(identifier);
+      // Require ADMIN role
+      const isAdmin = await requireRole(userId, ['ADMIN']);
+      if (!isAdmin) {
+        return forbiddenResponse("Admin access required");
+      }
 
-    if (!success) {
-      return rateLimitErrorResponse(reset);
-    }
+      // Apply rate limiting
+      const identifier = getIdentifier(req, userId);
+      const { success, reset } = await checkRateLimit(identifier);
 
-    const { id } = await params;
+      if (!success) {
+        return rateLimitErrorResponse(reset);
+      }
 
-    // Validate request body
-    const body = await req.json();
-    const validation = updateOrderSchema.safeParse(body);
+      const { id } = await params;
 
-    if (!validation.success) {
-      return validationErrorResponse(validation.error);
-    }
+      // Validate request body
+      const body = await req.json();
+      const validation = updateOrderSchema.safeParse(body);
 
-    const { shippingStatus, trackingNumber, shippingCarrier, estimatedDelivery } = validation.data;
+      if (!validation.success) {
+        return validationErrorResponse(validation.error);
+      }
 
-    // Verify order exists
-    const existingOrder = await prisma.order.findUnique({
-      where: { id },
-      select: {
-        id: true,
-        shippingStatus: true,
-        customerEmail: true,
-        customerName: true,
-      },
-    });
+      const { shippingStatus, trackingNumber, shippingCarrier, estimatedDelivery } = validation.data;
+
+      // Verify order exists
+      const existingOrder = await prisma.order.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          shippingStatus: true,
+          trackingNumber: true,
+          shippingCarrier: true,
+          estimatedDelivery: true,
+          customerEmail: true,
+          customerName: true,
+        },
+      });
 
-    if (!existingOrder) {
-      return notFoundResponse("Order");
-    }
+      if (!existingOrder) {
+        return notFoundResponse("Order");
+      }
 
-    // Build update data
-    const updateData: Record<string, unknown> = {};
+      // Build update data
+      const updateData: Record<string, unknown> = {};
 
-    if (shippingStatus !== undefined) {
-      updateData.shippingStatus = shippingStatus;
+      if (shippingStatus !== undefined) {
+        updateData.shippingStatus = shippingStatus;
 
-      // Set timestamp fields based on status transitions
-      if (shippingStatus === 'shipped') {
-        updateData.shippedAt = new Date();
-      }
-      if (shippingStatus === 'delivered') {
-        updateData.deliveredAt = new Date();
+        // Set timestamp fields based on status transitions
+        if (shippingStatus === 'shipped') {
+          updateData.shippedAt = new Date();
+        }
+        if (shippingStatus === 'delivered') {
+          updateData.deliveredAt = new Date();
+        }
       }
-    }
 
-    if (trackingNumber !== undefined) {
-      updateData.trackingNumber = trackingNumber;
-    }
+      if (trackingNumber !== undefined) {
+        updateData.trackingNumber = trackingNumber;
+      }
 
-    if (shippingCarrier !== undefined) {
-      updateData.shippingCarrier = shippingCarrier;
-    }
+      if (shippingCarrier !== undefined) {
+        updateData.shippingCarrier = shippingCarrier;
+      }
 
-    if (estimatedDelivery !== undefined) {
-      updateData.estimatedDelivery = new Date(estimatedDelivery);
-    }
+      if (estimatedDelivery !== undefined) {
+        updateData.estimatedDelivery = new Date(estimatedDelivery);
+      }
 
-    // Update the order
-    const updatedOrder = await prisma.order.update({
-      where: { id },
-      data: updateData,
-      include: {
-        items: {
-          include: {
-            product: {
-              select: {
-                id: true,
-                title: true,
-                image: true,
+      // Update the order
+      const updatedOrder = await prisma.order.update({
+        where: { id },
+        data: updateData,
+        include: {
+          items: {
+            include: {
+              product: {
+                select: {
+                  id: true,
+                  title: true,
+                  image: true,
+                },
               },
             },
           },
         },
-      },
-    });
-
-    logger.info("Order updated by admin", {
-      orderId: id,
-      adminUserId: userId,
-      changes: updateData,
-    });
+      });
+
+      logger.info("Order updated by admin", {
+        orderId: id,
+        adminUserId: userId,
+        changes: updateData,
+      });
+
+      const changes = diffOrderFields(existingOrder, {
+        shippingStatus,
+        trackingNumber,
+        shippingCarrier,
+        estimatedDelivery: updateData.estimatedDelivery,
+      });
+      let notificationSent = false;
+
+      // Send shipping notification email when status changes to "shipped"
+      if (
+        shippingStatus === 'shipped' &&
+        existingOrder.shippingStatus !== 'shipped' &&
+        existingOrder.customerEmail
+      ) {
+        const emailResult = await sendShippingNotificationEmail(
+          existingOrder.customerEmail,
+          {
+            orderId: id,
+            customerName: existingOrder.customerName || 'Customer',
+            trackingNumber: trackingNumber || updatedOrder.trackingNumber,
+            shippingCarrier: shippingCarrier || updatedOrder.shippingCarrier,
+            estimatedDelivery: estimatedDelivery || (
+              updatedOrder.estimatedDelivery
+                ? updatedOrder.estimatedDelivery.toISOString().split('T')[0]
+                : null
+            ),
+          }
+        );
+
+        notificationSent = emailResult.success;
+        if (!emailResult.success) {
+          logger.warn("Failed to send shipping notification email", {
+            orderId: id,
+            error: emailResult.error,
+          });
+          // Do not fail the request - the order update succeeded
+        }
+      }
 
-    // Send shipping notification email when status changes to "shipped"
-    if (
-      shippingStatus === 'shipped' &&
-      existingOrder.shippingStatus !== 'shipped' &&
-      existingOrder.customerEmail
-    ) {
-      const emailResult = await sendShippingNotificationEmail(
-        existingOrder.customerEmail,
-        {
-          orderId: id,
-          customerName: existingOrder.customerName || 'Customer',
-          trackingNumber: trackingNumber || updatedOrder.trackingNumber,
-          shippingCarrier: shippingCarrier || updatedOrder.shippingCarrier,
-          estimatedDelivery: estimatedDelivery || (
-            updatedOrder.estimatedDelivery
-              ? updatedOrder.estimatedDelivery.toISOString().split('T')[0]
-              : null
-          ),
+      if (changes.length > 0) {
+        audit.entityId = id;
+        audit.before = {
+          shippingStatus: existingOrder.shippingStatus,
+          trackingNumber: existingOrder.trackingNumber,
+          shippingCarrier: existingOrder.shippingCarrier,
+          estimatedDelivery: existingOrder.estimatedDelivery,
+        };
+        audit.after = {
+          shippingStatus: updatedOrder.shippingStatus,
+          trackingNumber: updatedOrder.trackingNumber,
+          shippingCarrier: updatedOrder.shippingCarrier,
+          estimatedDelivery: updatedOrder.estimatedDelivery,
+        };
+
+        try {
+          await recordOrderEvent({
+            orderId: id,
+            type: classifyOrderChanges(changes),
+            message: describeOrderChanges(changes),
+            actor: { userId, email: user?.email, name: user?.name },
+            metadata: { changes, notificationSent },
+          });
+        } catch (eventError) {
+          // History is best-effort; the order update itself succeeded
+          logger.error("Failed to record order event", eventError instanceof Error ? eventError : undefined, {
+            orderId: id,
+          });
         }
-      );
-
-      if (!emailResult.success) {
-        logger.warn("Failed to send shipping notification email", {
-          orderId: id,
-          error: emailResult.error,
-        });
-        // Do not fail the request - the order update succeeded
       }
-    }
 
-    return successResponse(updatedOrder);
-  } catch (error) {
-    logger.error("Failed to update order", error);
-    return handleApiError(error);
+      return successResponse(updatedOrder);
+    } catch (error) {
+      logger.error("Failed to update order", error);
+      return handleApiError(error);
+    }
   }
-}
+)
 
 // Helper function to generate tracking URLs for common carriers
 function getTrackingUrl(carrier: string, trackingNumber: string): string | null {
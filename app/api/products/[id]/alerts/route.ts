@@ -0,0 +1,100 @@
+/**
+ * Product Alerts API Route
+ *
+ * POST /api/products/[id]/alerts - Subscribe to a back-in-stock or price-drop alert
+ *
+ * Signed-in users are subscribed with their account email. Guests must
+ * provide an email address.
+ *
+ * @module app/api/products/[id]/alerts/route
+ */
+
+import { z } from 'zod'
+import { getServerAuth } from '@/lib/auth'
+import { checkStrictRateLimit, getIdentifier } from '@/lib/rate-limit'
+import { validateCsrfToken } from '@/lib/csrf'
+import {
+  successResponse,
+  errorResponse,
+  forbiddenResponse,
+  ErrorCodes,
+  rateLimitErrorResponse,
+  validationErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { createProductAlert, PRODUCT_ALERT_CONFIG } from '@/lib/product-alerts'
+
+export const dynamic = 'force-dynamic'
+
+const subscribeSchema = z.object({
+  type: z.enum([PRODUCT_ALERT_CONFIG.TYPES.BACK_IN_STOCK, PRODUCT_ALERT_CONFIG.TYPES.PRICE_DROP]),
+  variantId: z.string().min(1).nullable().optional(),
+  email: z.string().email('Please enter a valid email address').optional(),
+})
+
+/**
+ * POST /api/products/[id]/alerts
+ * Returns 201 for a new subscription and 200 when the email is already
+ * subscribed to the same alert.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfValid = await validateCsrfToken(request)
+    if (!csrfValid) {
+      return forbiddenResponse('Invalid or missing CSRF token')
+    }
+
+    const { userId, user } = await getServerAuth()
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkStrictRateLimit(identifier)
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const body = await request.json()
+    const validation = subscribeSchema.safeParse(body)
+    if (!validation.success) {
+      return validationErrorResponse(validation.error)
+    }
+
+    const email = user?.email ?? validation.data.email
+    if (!email) {
+      return errorResponse('Email is required', 'VALIDATION_ERROR', undefined, 400)
+    }
+
+    const { id: productId } = await params
+    const result = await createProductAlert({
+      type: validation.data.type,
+      productId,
+      variantId: validation.data.variantId,
+      email,
+      userId,
+    })
+
+    if (!result.success) {
+      return result.code === 'IN_STOCK'
+        ? errorResponse(result.error, 'IN_STOCK', undefined, 400)
+        : errorResponse(result.error, ErrorCodes.NOT_FOUND, undefined, 404)
+    }
+
+    return successResponse(
+      {
+        id: result.alert.id,
+        type: result.alert.type,
+        productId: result.alert.productId,
+        variantId: result.alert.variantId,
+        created: result.created,
+      },
+      undefined,
+      result.created ? 201 : 200
+    )
+  } catch (error) {
+    logger.error('Failed to create product alert', error)
+    return handleApiError(error)
+  }
+}
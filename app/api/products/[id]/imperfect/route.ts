@@ -13,8 +13,10 @@ import {
 } from "@/lib/api-response";
 import { validateCsrfToken } from "@/lib/csrf";
 import { logger } from "@/lib/logger";
+import { withAuditLog } from "@/lib/audit-log";
 import { invalidateProductCaches } from "@/lib/cache";
 import { IMPERFECT_REASONS } from "@/lib/products/imperfect";
+import { getImperfectBatchPrice, purchasableImperfectBatchWhere } from "@/lib/imperfect-batches";
 
 export const dynamic = 'force-dynamic'
 
@@ -73,8 +75,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         isImperfect: true,
         imperfectReason: true,
         imperfectDiscount: true,
+        // Only batches that can still be bought (see lib/imperfect-batches)
         imperfectBatches: {
-          where: { isActive: true },
+          where: purchasableImperfectBatchWhere(),
+          orderBy: { discountPercent: "desc" },
           select: {
             id: true,
             quantity: true,
@@ -133,7 +137,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         imperfectPrice: imperfectPrice ? Math.round(imperfectPrice * 100) / 100 : null,
         savings: imperfectPrice ? Math.round((effectivePrice - imperfectPrice) * 100) / 100 : null,
       },
-      batches: product.imperfectBatches,
+      batches: product.imperfectBatches.map((batch) => ({
+        ...batch,
+        price: getImperfectBatchPrice(effectivePrice, batch.discountPercent),
+      })),
       variants: product.variants.filter((v) => v.isImperfect),
       availableReasons: IMPERFECT_REASONS,
     });
@@ -147,115 +154,206 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * PATCH /api/products/[id]/imperfect
  * Admin: Mark a product as imperfect or update imperfect details
  */
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
-  try {
-    // CSRF protection for admin imperfect product management
-    const csrfValid = await validateCsrfToken(request);
-    if (!csrfValid) {
-      return errorResponse(
-        "Invalid or missing CSRF token",
-        "CSRF_VALIDATION_FAILED",
-        undefined,
-        403
-      );
-    }
+export const PATCH = withAuditLog(
+  { action: "product.imperfect_update", entityType: "Product" },
+  async (request: NextRequest, { params }: RouteParams, audit) => {
+    try {
+      // CSRF protection for admin imperfect product management
+      const csrfValid = await validateCsrfToken(request);
+      if (!csrfValid) {
+        return errorResponse(
+          "Invalid or missing CSRF token",
+          "CSRF_VALIDATION_FAILED",
+          undefined,
+          403
+        );
+      }
 
-    const { id } = await params;
+      const { id } = await params;
 
-    if (!id) {
-      return notFoundResponse("Product");
-    }
+      if (!id) {
+        return notFoundResponse("Product");
+      }
 
-    const { userId } = await getServerAuth();
+      const { userId } = await getServerAuth();
 
-    // Check if user is authenticated
-    if (!userId) {
-      return unauthorizedResponse("Please sign in to manage imperfect products");
-    }
+      // Check if user is authenticated
+      if (!userId) {
+        return unauthorizedResponse("Please sign in to manage imperfect products");
+      }
 
-    // Check if user has required role (ADMIN or EDITOR)
-    const hasPermission = await requireRole(userId, ["ADMIN", "EDITOR"]);
-    if (!hasPermission) {
-      return forbiddenResponse("Only admins and editors can manage imperfect products");
-    }
+      // Check if user has required role (ADMIN or EDITOR)
+      const hasPermission = await requireRole(userId, ["ADMIN", "EDITOR"]);
+      if (!hasPermission) {
+        return forbiddenResponse("Only admins and editors can manage imperfect products");
+      }
 
-    // Check if product exists
-    const existingProduct = await prisma.product.findUnique({
-      where: { id },
-      select: { id: true, isImperfect: true },
-    });
+      // Check if product exists
+      const existingProduct = await prisma.product.findUnique({
+        where: { id },
+        select: { id: true, title: true, isImperfect: true, imperfectReason: true, imperfectDiscount: true },
+      });
 
-    if (!existingProduct) {
-      return notFoundResponse("Product");
-    }
+      if (!existingProduct) {
+        return notFoundResponse("Product");
+      }
 
-    const body = await request.json();
+      const body = await request.json();
+
+      // Determine which schema to use based on request body
+      if ("isImperfect" in body) {
+        // Full update (mark as imperfect or remove imperfect status)
+        const validation = markImperfectSchema.safeParse(body);
+        if (!validation.success) {
+          return validationErrorResponse(validation.error);
+        }
+
+        const { isImperfect, imperfectReason, imperfectDiscount } = validation.data;
+
+        // If marking as imperfect, ensure discount is provided
+        if (isImperfect && !imperfectDiscount && imperfectDiscount !== 0) {
+          return errorResponse(
+            "Discount is required when marking product as imperfect",
+            "VALIDATION_ERROR",
+            { field: "imperfectDiscount" },
+            400
+          );
+        }
+
+        const product = await prisma.product.update({
+          where: { id },
+          data: {
+            isImperfect,
+            imperfectReason: isImperfect ? imperfectReason : null,
+            imperfectDiscount: isImperfect ? imperfectDiscount : null,
+          },
+          select: {
+            id: true,
+            title: true,
+            isImperfect: true,
+            imperfectReason: true,
+            imperfectDiscount: true,
+          },
+        });
+
+        audit.entityId = id;
+        audit.before = existingProduct;
+        audit.after = product;
+
+        // Invalidate product caches
+        await invalidateProductCaches();
+
+        logger.info(`Product ${id} ${isImperfect ? "marked as" : "removed from"} imperfect by user ${userId}`);
+
+        return successResponse({
+          message: isImperfect
+            ? "Product marked as imperfect successfully"
+            : "Product imperfect status removed successfully",
+          product,
+        });
+      } else {
+        // Partial update (only update reason or discount)
+        if (!existingProduct.isImperfect) {
+          return forbiddenResponse("Cannot update imperfect details for a non-imperfect product. Mark it as imperfect first.");
+        }
+
+        const validation = updateImperfectSchema.safeParse(body);
+        if (!validation.success) {
+          return validationErrorResponse(validation.error);
+        }
+
+        const { imperfectReason, imperfectDiscount } = validation.data;
+
+        const product = await prisma.product.update({
+          where: { id },
+          data: {
+            ...(imperfectReason !== undefined && { imperfectReason }),
+            ...(imperfectDiscount !== undefined && { imperfectDiscount }),
+          },
+          select: {
+            id: true,
+            title: true,
+            isImperfect: true,
+            imperfectReason: true,
+            imperfectDiscount: true,
+          },
+        });
 
-    // Determine which schema to use based on request body
-    if ("isImperfect" in body) {
-      // Full update (mark as imperfect or remove imperfect status)
-      const validation = markImperfectSchema.safeParse(body);
-      if (!validation.success) {
-        return validationErrorResponse(validation.error);
-      }
+        audit.entityId = id;
+        audit.before = existingProduct;
+        audit.after = product;
+
+        // Invalidate product caches
+        await invalidateProductCaches();
 
-      const { isImperfect, imperfectReason, imperfectDiscount } = validation.data;
+        logger.info(`Product ${id} imperfect details updated by user ${userId}`);
 
-      // If marking as imperfect, ensure discount is provided
-      if (isImperfect && !imperfectDiscount && imperfectDiscount !== 0) {
+        return successResponse({
+          message: "Product imperfect details updated successfully",
+          product,
+        });
+      }
+    } catch (error) {
+      logger.error("Failed to update product imperfect status", error);
+      return handleApiError(error);
+    }
+  }
+)
+
+/**
+ * DELETE /api/products/[id]/imperfect
+ * Admin: Remove imperfect status from a product
+ */
+export const DELETE = withAuditLog(
+  { action: "product.imperfect_clear", entityType: "Product" },
+  async (request: NextRequest, { params }: RouteParams, audit) => {
+    try {
+      // CSRF protection for admin imperfect product removal
+      const csrfValid = await validateCsrfToken(request);
+      if (!csrfValid) {
         return errorResponse(
-          "Discount is required when marking product as imperfect",
-          "VALIDATION_ERROR",
-          { field: "imperfectDiscount" },
-          400
+          "Invalid or missing CSRF token",
+          "CSRF_VALIDATION_FAILED",
+          undefined,
+          403
         );
       }
 
-      const product = await prisma.product.update({
-        where: { id },
-        data: {
-          isImperfect,
-          imperfectReason: isImperfect ? imperfectReason : null,
-          imperfectDiscount: isImperfect ? imperfectDiscount : null,
-        },
-        select: {
-          id: true,
-          title: true,
-          isImperfect: true,
-          imperfectReason: true,
-          imperfectDiscount: true,
-        },
-      });
+      const { id } = await params;
 
-      // Invalidate product caches
-      await invalidateProductCaches();
+      if (!id) {
+        return notFoundResponse("Product");
+      }
 
-      logger.info(`Product ${id} ${isImperfect ? "marked as" : "removed from"} imperfect by user ${userId}`);
+      const { userId } = await getServerAuth();
 
-      return successResponse({
-        message: isImperfect
-          ? "Product marked as imperfect successfully"
-          : "Product imperfect status removed successfully",
-        product,
-      });
-    } else {
-      // Partial update (only update reason or discount)
-      if (!existingProduct.isImperfect) {
-        return forbiddenResponse("Cannot update imperfect details for a non-imperfect product. Mark it as imperfect first.");
+      // Check if user is authenticated
+      if (!userId) {
+        return unauthorizedResponse("Please sign in to manage imperfect products");
       }
 
-      const validation = updateImperfectSchema.safeParse(body);
-      if (!validation.success) {
-        return validationErrorResponse(validation.error);
+      // Check if user has required role (ADMIN only for delete)
+      const hasPermission = await requireRole(userId, ["ADMIN"]);
+      if (!hasPermission) {
+        return forbiddenResponse("Only admins can remove imperfect status");
       }
 
-      const { imperfectReason, imperfectDiscount } = validation.data;
+      // Check if product exists
+      const existingProduct = await prisma.product.findUnique({
+        where: { id },
+        select: { id: true, title: true, isImperfect: true, imperfectReason: true, imperfectDiscount: true },
+      });
+
+      if (!existingProduct) {
+        return notFoundResponse("Product");
+      }
 
       const product = await prisma.product.update({
         where: { id },
         data: {
-          ...(imperfectReason !== undefined && { imperfectReason }),
-          ...(imperfectDiscount !== undefined && { imperfectDiscount }),
+          isImperfect: false,
+          imperfectReason: null,
+          imperfectDiscount: null,
         },
         select: {
           id: true,
@@ -266,93 +364,22 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         },
       });
 
+      audit.entityId = id;
+      audit.before = existingProduct;
+      audit.after = product;
+
       // Invalidate product caches
       await invalidateProductCaches();
 
-      logger.info(`Product ${id} imperfect details updated by user ${userId}`);
+      logger.info(`Product ${id} imperfect status removed by user ${userId}`);
 
       return successResponse({
-        message: "Product imperfect details updated successfully",
+        message: "Product imperfect status removed successfully",
         product,
       });
+    } catch (error) {
+      logger.error("Failed to remove product imperfect status", error);
+      return handleApiError(error);
     }
-  } catch (error) {
-    logger.error("Failed to update product imperfect status", error);
-    return handleApiError(error);
-  }
-}
-
-/**
- * DELETE /api/products/[id]/imperfect
- * Admin: Remove imperfect status from a product
- */
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
-  try {
-    // CSRF protection for admin imperfect product removal
-    const csrfValid = await validateCsrfToken(request);
-    if (!csrfValid) {
-      return errorResponse(
-        "Invalid or missing CSRF token",
-        "CSRF_VALIDATION_FAILED",
-        undefined,
-        403
-      );
-    }
-
-    const { id } = await params;
-
-    if (!id) {
-      return notFoundResponse("Product");
-    }
-
-    const { userId } = await getServerAuth();
-
-    // Check if user is authenticated
-    if (!userId) {
-      return unauthorizedResponse("Please sign in to manage imperfect products");
-    }
-
-    // Check if user has required role (ADMIN only for delete)
-    const hasPermission = await requireRole(userId, ["ADMIN"]);
-    if (!hasPermission) {
-      return forbiddenResponse("Only admins can remove imperfect status");
-    }
-
-    // Check if product exists
-    const existingProduct = await prisma.product.findUnique({
-      where: { id },
-      select: { id: true, isImperfect: true },
-    });
-
-    if (!existingProduct) {
-      return notFoundResponse("Product");
-    }
-
-    const product = await prisma.product.update({
-      where: { id },
-      data: {
-        isImperfect: false,
-        imperfectReason: null,
-        imperfectDiscount: null,
-      },
-      select: {
-        id: true,
-        title: true,
-        isImperfect: true,
-      },
-    });
-
-    // Invalidate product caches
-    await invalidateProductCaches();
-
-    logger.info(`Product ${id} imperfect status removed by user ${userId}`);
-
-    return successResponse({
-      message: "Product imperfect status removed successfully",
-      product,
-    });
-  } catch (error) {
-    logger.error("Failed to remove product imperfect status", error);
-    return handleApiError(error);
   }
-}
+)
@@ -12,6 +12,8 @@ import {
 } from '@/lib/api-response';
 import { checkRateLimit, checkStrictRateLimit, getIdentifier } from '@/lib/rate-limit';
 import { validateCsrfToken } from '@/lib/csrf';
+import { REVIEW_CONFIG, REVIEW_PUBLIC_INCLUDE, getRatingHistogram, submitReview } from '@/lib/reviews';
+import { isEmailVerified } from '@/lib/email-verification';
 import { z } from 'zod';
 
 export const dynamic = 'force-dynamic'
@@ -19,19 +21,26 @@ export const dynamic = 'force-dynamic'
 /**
  * Product Reviews API
  *
- * GET  /api/products/[id]/reviews - Get all reviews for a product
- * POST /api/products/[id]/reviews - Create a review (authenticated users only)
+ * GET  /api/products/[id]/reviews - Get approved reviews for a product
+ * POST /api/products/[id]/reviews - Submit a review for moderation (authenticated users only)
  */
 
 const createReviewSchema = z.object({
   rating: z.number().int().min(1).max(5, 'Rating must be between 1 and 5'),
   comment: z.string().min(10, 'Comment must be at least 10 characters').max(1000, 'Comment must be less than 1000 characters').optional(),
+  photoUrls: z
+    .array(z.string().url('Photo must be a valid URL').startsWith('https://', 'Photo URLs must use https'))
+    .max(REVIEW_CONFIG.MAX_PHOTOS, `You can attach up to ${REVIEW_CONFIG.MAX_PHOTOS} photos`)
+    .optional(),
 });
 
+const SORTABLE_FIELDS = ['createdAt', 'rating', 'helpfulCount'] as const;
+
 /**
  * GET /api/products/[id]/reviews
  *
- * Get all reviews for a product with pagination and sorting options
+ * Get approved reviews for a product with pagination and sorting options.
+ * Pending, rejected and flagged reviews are never returned here.
  */
 export async function GET(
   request: Request,
@@ -54,31 +63,36 @@ export async function GET(
     const offset = Number(searchParams.get('offset')) || 0;
 
     // Sorting
-    const sortBy = searchParams.get('sortBy') || 'createdAt';
+    const requestedSort = searchParams.get('sortBy');
+    const sortBy = SORTABLE_FIELDS.find((field) => field === requestedSort) ?? 'createdAt';
     const order = searchParams.get('order') === 'asc' ? 'asc' : 'desc';
 
     // Check if product exists
     const product = await prisma.product.findUnique({
       where: { id: productId },
+      select: {
+        id: true,
+        averageRating: true,
+        reviewCount: true,
+        ratingCount1: true,
+        ratingCount2: true,
+        ratingCount3: true,
+        ratingCount4: true,
+        ratingCount5: true,
+      },
     });
 
     if (!product) {
       return notFoundResponse('Product');
     }
 
-    // Fetch reviews with user information
+    const approved = { productId, status: REVIEW_CONFIG.STATUS.APPROVED };
+
+    // Fetch reviews with user information and photos
     const [reviews, total] = await Promise.all([
       prisma.review.findMany({
-        where: { productId },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              image: true,
-            },
-          },
-        },
+        where: approved,
+        include: REVIEW_PUBLIC_INCLUDE,
         orderBy: {
           [sortBy]: order,
         },
@@ -86,45 +100,17 @@ export async function GET(
         skip: offset,
       }),
       prisma.review.count({
-        where: { productId },
+        where: approved,
       }),
     ]);
 
-    // Calculate average rating
-    const avgRating = await prisma.review.aggregate({
-      where: { productId },
-      _avg: {
-        rating: true,
-      },
-    });
-
-    // Get rating distribution
-    const ratingDistribution = await prisma.review.groupBy({
-      by: ['rating'],
-      where: { productId },
-      _count: {
-        rating: true,
-      },
-    });
-
-    const distribution = {
-      1: 0,
-      2: 0,
-      3: 0,
-      4: 0,
-      5: 0,
-    };
-
-    ratingDistribution.forEach((item) => {
-      distribution[item.rating as keyof typeof distribution] = item._count.rating;
-    });
-
     return successResponse(
       {
         reviews,
-        averageRating: avgRating._avg.rating || 0,
-        totalReviews: total,
-        ratingDistribution: distribution,
+        // Summary figures come from the product's maintained aggregates
+        averageRating: product.averageRating,
+        totalReviews: product.reviewCount,
+        ratingDistribution: getRatingHistogram(product),
       },
       {
         pagination: {
@@ -143,7 +129,8 @@ export async function GET(
 /**
  * POST /api/products/[id]/reviews
  *
- * Create a new review for a product (authenticated users only)
+ * Submit a review for a product (authenticated users only). Reviews enter
+ * the moderation queue and are published once an admin approves them.
  */
 export async function POST(
   request: Request,
@@ -177,6 +164,16 @@ export async function POST(
       return rateLimitErrorResponse(reset);
     }
 
+    // Reviews require a verified email address
+    if (!(await isEmailVerified(userId))) {
+      return errorResponse(
+        'Please verify your email address before posting a review',
+        'EMAIL_NOT_VERIFIED',
+        undefined,
+        403
+      );
+    }
+
     // Parse and validate request body
     const body = await request.json();
     const validatedData = createReviewSchema.parse(body);
@@ -207,23 +204,12 @@ export async function POST(
       );
     }
 
-    // Create review
-    const review = await prisma.review.create({
-      data: {
-        productId,
-        userId,
-        rating: validatedData.rating,
-        comment: validatedData.comment,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            image: true,
-          },
-        },
-      },
+    const review = await submitReview({
+      userId,
+      productId,
+      rating: validatedData.rating,
+      comment: validatedData.comment,
+      photoUrls: validatedData.photoUrls,
     });
 
     return successResponse(review, undefined, 201);
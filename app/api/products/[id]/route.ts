@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { REVIEW_CONFIG } from '@/lib/reviews';
 import {
   handleApiError,
   errorResponse,
@@ -12,10 +13,14 @@ import {
 } from '@/lib/api-response';
 import { checkRateLimit, getIdentifier } from '@/lib/rate-limit';
 import { logger } from '@/lib/logger';
+import { withAuditLog } from '@/lib/audit-log';
 import { withPrismaRetry } from '@/lib/prisma-retry';
 import { getServerAuth, requireRole } from '@/lib/auth';
 import { validateCsrfToken } from '@/lib/csrf';
 import { invalidateProductCaches } from '@/lib/cache';
+import { triggerBackInStockAlerts, triggerPriceDropAlerts } from '@/lib/product-alerts';
+import { withAvailableInventory } from '@/lib/inventory-reservations';
+import { getUserLoyaltyTier, hasEarlyAccess, isInEarlyAccessWindow } from '@/lib/loyalty';
 import { z } from 'zod';
 
 export const dynamic = 'force-dynamic'
@@ -43,6 +48,7 @@ export async function GET(request: NextRequest) {
         where: { id },
         include: {
           reviews: {
+            where: { status: REVIEW_CONFIG.STATUS.APPROVED },
             select: {
               rating: true,
             },
@@ -73,12 +79,27 @@ export async function GET(request: NextRequest) {
       return notFoundResponse("Product");
     }
 
+    // Like the listing, hide early-access products from tiers without the
+    // entitlement until the window ends. Admins still see them to edit them.
+    if (isInEarlyAccessWindow(product)) {
+      const { userId } = await getServerAuth();
+      const canView =
+        hasEarlyAccess(await getUserLoyaltyTier(userId)) ||
+        (!!userId && (await requireRole(userId, ['ADMIN'])));
+      if (!canView) {
+        return notFoundResponse("Product");
+      }
+    }
+
+    // Report stock net of units held by open checkouts
+    const availableProduct = await withAvailableInventory(product);
+
     // Normalize prices and flatten values
     const normalizedProduct = {
-      ...product,
+      ...availableProduct,
       price: Number(product.price),
       salePrice: product.salePrice ? Number(product.salePrice) : null,
-      variants: product.variants.map((variant) => ({
+      variants: availableProduct.variants.map((variant) => ({
         ...variant,
         price: variant.price ? Number(variant.price) : null,
         salePrice: variant.salePrice ? Number(variant.salePrice) : null,
@@ -107,6 +128,9 @@ const updateProductSchema = z.object({
   isImperfect: z.boolean().optional(),
   imperfectDiscount: z.number().int().min(1).max(90).nullable().optional(),
   isSubscribable: z.boolean().optional(),
+  weightGrams: z.number().int('Weight must be a whole number of grams').min(0).max(1000000).nullable().optional(),
+  oversizeSurcharge: z.number().min(0, 'Surcharge cannot be negative').max(1000).nullable().optional(),
+  earlyAccessUntil: z.string().datetime('Early access end must be an ISO date').nullable().optional(),
 }).refine((data) => {
   if (data.salePrice !== undefined && data.salePrice !== null && data.price !== undefined) {
     return data.salePrice < data.price
@@ -117,93 +141,116 @@ const updateProductSchema = z.object({
   path: ['salePrice'],
 })
 
-export async function PATCH(request: NextRequest) {
-  // Extract the ID from the URL path
-  const pathname = request.nextUrl.pathname
-  const segments = pathname.split('/')
-  // Path is /api/products/[id], so id is the last segment
-  const id = segments[segments.length - 1]
-
-  if (!id) {
-    return errorResponse('Product ID is required', undefined, undefined, 400)
-  }
+export const PATCH = withAuditLog(
+  { action: 'product.update', entityType: 'Product' },
+  async (request: NextRequest, _context: unknown, audit) => {
+    // Extract the ID from the URL path
+    const pathname = request.nextUrl.pathname
+    const segments = pathname.split('/')
+    // Path is /api/products/[id], so id is the last segment
+    const id = segments[segments.length - 1]
 
-  try {
-    // CSRF protection for product updates
-    const csrfValid = await validateCsrfToken(request)
-    if (!csrfValid) {
-      return errorResponse(
-        'Invalid or missing CSRF token',
-        'CSRF_VALIDATION_FAILED',
-        undefined,
-        403
-      )
+    if (!id) {
+      return errorResponse('Product ID is required', undefined, undefined, 400)
     }
 
-    const { userId } = await getServerAuth()
+    try {
+      // CSRF protection for product updates
+      const csrfValid = await validateCsrfToken(request)
+      if (!csrfValid) {
+        return errorResponse(
+          'Invalid or missing CSRF token',
+          'CSRF_VALIDATION_FAILED',
+          undefined,
+          403
+        )
+      }
 
-    if (!userId) {
-      return unauthorizedResponse('Please sign in to update products')
-    }
+      const { userId } = await getServerAuth()
 
-    const hasPermission = await requireRole(userId, ['ADMIN', 'EDITOR'])
-    if (!hasPermission) {
-      return forbiddenResponse('Only admins and editors can update products')
-    }
+      if (!userId) {
+        return unauthorizedResponse('Please sign in to update products')
+      }
 
-    const body = await request.json()
+      const hasPermission = await requireRole(userId, ['ADMIN', 'EDITOR'])
+      if (!hasPermission) {
+        return forbiddenResponse('Only admins and editors can update products')
+      }
 
-    // Validate input
-    const validation = updateProductSchema.safeParse(body)
-    if (!validation.success) {
-      return validationErrorResponse(validation.error)
-    }
+      const body = await request.json()
 
-    // Check that the product exists before updating
-    const existing = await withPrismaRetry(async () =>
-      prisma.product.findUnique({ where: { id } })
-    )
+      // Validate input
+      const validation = updateProductSchema.safeParse(body)
+      if (!validation.success) {
+        return validationErrorResponse(validation.error)
+      }
 
-    if (!existing) {
-      return notFoundResponse('Product')
-    }
+      // Check that the product exists before updating
+      const existing = await withPrismaRetry(async () =>
+        prisma.product.findUnique({ where: { id } })
+      )
 
-    // If salePrice is provided without price, validate against existing price
-    if (
-      validation.data.salePrice !== undefined &&
-      validation.data.salePrice !== null &&
-      validation.data.price === undefined
-    ) {
-      if (validation.data.salePrice >= Number(existing.price)) {
-        return errorResponse(
-          'Sale price must be less than regular price',
-          'VALIDATION_ERROR',
-          undefined,
-          400
-        )
+      if (!existing) {
+        return notFoundResponse('Product')
       }
-    }
 
-    const product = await withPrismaRetry(async () =>
-      prisma.product.update({
-        where: { id },
-        data: validation.data,
-      })
-    )
+      // If salePrice is provided without price, validate against existing price
+      if (
+        validation.data.salePrice !== undefined &&
+        validation.data.salePrice !== null &&
+        validation.data.price === undefined
+      ) {
+        if (validation.data.salePrice >= Number(existing.price)) {
+          return errorResponse(
+            'Sale price must be less than regular price',
+            'VALIDATION_ERROR',
+            undefined,
+            400
+          )
+        }
+      }
 
-    // Invalidate product caches
-    await invalidateProductCaches(id)
+      const priceChanged =
+        validation.data.price !== undefined || validation.data.salePrice !== undefined
 
-    // Normalize prices in response
-    const normalizedProduct = {
-      ...product,
-      price: Number(product.price),
-      salePrice: product.salePrice ? Number(product.salePrice) : null,
-    }
+      const product = await withPrismaRetry(async () =>
+        prisma.$transaction(async (tx) => {
+          const updated = await tx.product.update({
+            where: { id },
+            data: validation.data,
+          })
 
-    return successResponse(normalizedProduct)
-  } catch (error) {
-    logger.error('Failed to update product', error)
-    return handleApiError(error)
+          // Queue alerts for subscribers in the same transaction as the change
+          if (existing.inventory <= 0 && updated.inventory > 0) {
+            await triggerBackInStockAlerts(tx, { productId: id })
+          }
+          if (priceChanged) {
+            await triggerPriceDropAlerts(tx, id)
+          }
+
+          return updated
+        })
+      )
+
+      audit.entityId = id
+      audit.before = existing
+      audit.after = product
+
+      // Invalidate product caches
+      await invalidateProductCaches(id)
+
+      // Normalize prices in response
+      const normalizedProduct = {
+        ...product,
+        price: Number(product.price),
+        salePrice: product.salePrice ? Number(product.salePrice) : null,
+        oversizeSurcharge: product.oversizeSurcharge ? Number(product.oversizeSurcharge) : null,
+      }
+
+      return successResponse(normalizedProduct)
+    } catch (error) {
+      logger.error('Failed to update product', error)
+      return handleApiError(error)
+    }
   }
-}
+)
@@ -1,5 +1,6 @@
 import { NextRequest } from "next/server"
 import { prisma } from "@/lib/prisma"
+import { REVIEW_CONFIG } from "@/lib/reviews"
 import { z } from "zod"
 import {
   successResponse,
@@ -49,7 +50,7 @@ export async function POST(request: NextRequest) {
     // Build include clause based on options
     const include: {
       variants?: boolean
-      reviews?: { select: { rating: boolean } }
+      reviews?: { where: { status: string }; select: { rating: boolean } }
       values?: {
         include: {
           value: {
@@ -83,6 +84,7 @@ export async function POST(request: NextRequest) {
 
     if (includeReviews) {
       include.reviews = {
+        where: { status: REVIEW_CONFIG.STATUS.APPROVED },
         select: { rating: true },
       }
     }
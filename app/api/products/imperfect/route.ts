@@ -11,6 +11,7 @@ import {
 import { logger } from "@/lib/logger";
 import { checkRateLimit, getIdentifier } from "@/lib/rate-limit";
 import { IMPERFECT_REASONS } from "@/lib/products/imperfect";
+import { getImperfectBatchPrice, purchasableImperfectBatchWhere } from "@/lib/imperfect-batches";
 
 export const dynamic = 'force-dynamic'
 
@@ -112,11 +113,6 @@ export async function GET(request: NextRequest) {
     const products = await prisma.product.findMany({
       where,
       include: {
-        reviews: {
-          select: {
-            rating: true,
-          },
-        },
         variants: {
           select: {
             id: true,
@@ -136,6 +132,17 @@ export async function GET(request: NextRequest) {
             imperfectDiscount: true,
           },
         },
+        imperfectBatches: {
+          where: purchasableImperfectBatchWhere(),
+          orderBy: { discountPercent: "desc" },
+          select: {
+            id: true,
+            quantity: true,
+            reason: true,
+            discountPercent: true,
+            expiresAt: true,
+          },
+        },
       },
       orderBy,
       skip: (page - 1) * pageSize,
@@ -159,11 +166,6 @@ export async function GET(request: NextRequest) {
                r.label.toLowerCase() === product.imperfectReason?.toLowerCase()
       );
 
-      // Calculate average rating
-      const avgRating = product.reviews.length > 0
-        ? product.reviews.reduce((sum, r) => sum + r.rating, 0) / product.reviews.length
-        : null;
-
       return {
         id: product.id,
         title: product.title,
@@ -183,9 +185,14 @@ export async function GET(request: NextRequest) {
         imperfectReason: product.imperfectReason,
         imperfectReasonLabel: reasonDetails?.label || product.imperfectReason,
         imperfectReasonDescription: reasonDetails?.description || "This item has minor imperfections that don't affect its quality or performance.",
+        // Batches that can be bought at their own discount, biggest discount first
+        batches: product.imperfectBatches.map((batch) => ({
+          ...batch,
+          price: getImperfectBatchPrice(effectiveBasePrice, batch.discountPercent),
+        })),
         // Reviews
-        averageRating: avgRating ? Math.round(avgRating * 10) / 10 : null,
-        reviewCount: product.reviews.length,
+        averageRating: product.reviewCount > 0 ? Math.round(product.averageRating * 10) / 10 : null,
+        reviewCount: product.reviewCount,
         // Metadata
         featured: product.featured,
         createdAt: product.createdAt,
@@ -1,6 +1,7 @@
 import { NextRequest } from "next/server"
 import { getServerAuth, requireRole } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { withRatingHistogram } from "@/lib/reviews"
 import { Prisma } from "@prisma/client"
 import { z } from "zod"
 import {
@@ -14,11 +15,13 @@ import {
   paginatedResponse,
 } from "@/lib/api-response"
 import { logger } from "@/lib/logger"
+import { withAuditLog } from "@/lib/audit-log"
 import { invalidateProductCaches } from "@/lib/cache"
 import { checkRateLimit, getIdentifier } from "@/lib/rate-limit"
 import { validateCsrfToken } from "@/lib/csrf"
 import { calculatePaginationMeta } from "@/lib/api/pagination"
 import { withPrismaRetry } from "@/lib/prisma-retry"
+import { getUserLoyaltyTier, hasEarlyAccess } from "@/lib/loyalty"
 
 export const dynamic = 'force-dynamic'
 
@@ -100,6 +103,14 @@ export async function GET(request: NextRequest) {
     // Build where clause with proper Prisma types
     const where: Prisma.ProductWhereInput = {};
 
+    // Early-access products are only listed for tiers with the early-access entitlement
+    const { userId } = await getServerAuth();
+    if (!hasEarlyAccess(await getUserLoyaltyTier(userId))) {
+      where.AND = [
+        { OR: [{ earlyAccessUntil: null }, { earlyAccessUntil: { lte: new Date() } }] },
+      ];
+    }
+
     if (search) {
       where.OR = [
         { title: { contains: search, mode: 'insensitive' } },
@@ -152,24 +163,13 @@ export async function GET(request: NextRequest) {
       };
     }
 
-    const { total, products } = await withPrismaRetry(async () => {
-      // Pre-filter by rating using Prisma groupBy to fix pagination count mismatch
-      if (rating) {
-        const ratingGroups = await prisma.review.groupBy({
-          by: ['productId'],
-          _avg: { rating: true },
-          having: { rating: { _avg: { gte: rating } } },
-        })
-        const qualifiedProductIds = ratingGroups.map(g => g.productId)
-        where.id = { in: qualifiedProductIds }
-      }
+    // Rating filter and sort use the denormalized aggregates maintained by lib/reviews
+    if (rating) {
+      where.averageRating = { gte: rating }
+    }
 
+    const { total, products } = await withPrismaRetry(async () => {
       const includeConfig = {
-        reviews: {
-          select: {
-            rating: true,
-          },
-        },
         // Include product values for "Shop by Values" badges
         values: {
           include: {
@@ -185,39 +185,14 @@ export async function GET(request: NextRequest) {
         },
       } satisfies Prisma.ProductInclude
 
-      if (sortBy === 'rating') {
-        const allProducts = await prisma.product.findMany({
-          where,
-          include: includeConfig,
-        })
-
-        const sorted = allProducts.sort((a, b) => {
-          const ratingA =
-            a.reviews.length > 0
-              ? a.reviews.reduce((sum, review) => sum + review.rating, 0) / a.reviews.length
-              : 0
-          const ratingB =
-            b.reviews.length > 0
-              ? b.reviews.reduce((sum, review) => sum + review.rating, 0) / b.reviews.length
-              : 0
-
-          if (ratingB !== ratingA) {
-            return ratingB - ratingA
-          }
-          return b.createdAt.getTime() - a.createdAt.getTime()
-        })
-
-        const total = sorted.length
-        const products = sorted.slice((page - 1) * pageSize, (page - 1) * pageSize + pageSize)
-        return { total, products }
-      }
-
-      const orderBy: Prisma.ProductOrderByWithRelationInput =
+      const orderBy: Prisma.ProductOrderByWithRelationInput[] =
         sortBy === 'price_asc'
-          ? { price: 'asc' }
+          ? [{ price: 'asc' }]
           : sortBy === 'price_desc'
-            ? { price: 'desc' }
-            : { createdAt: 'desc' }
+            ? [{ price: 'desc' }]
+            : sortBy === 'rating'
+              ? [{ averageRating: 'desc' }, { createdAt: 'desc' }]
+              : [{ createdAt: 'desc' }]
 
       // Query count + items separately so transient pooled-connection hiccups can be retried safely.
       const total = await prisma.product.count({ where })
@@ -248,7 +223,7 @@ export async function GET(request: NextRequest) {
       const values = product.values?.map((pva) => pva.value) || [];
 
       return {
-        ...product,
+        ...withRatingHistogram(product),
         price: basePrice,
         salePrice,
         imperfectPrice,
@@ -266,59 +241,65 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    // CSRF protection for admin product creation
-    const csrfValid = await validateCsrfToken(request);
-    if (!csrfValid) {
-      return errorResponse(
-        "Invalid or missing CSRF token",
-        "CSRF_VALIDATION_FAILED",
-        undefined,
-        403
-      );
-    }
+export const POST = withAuditLog(
+  { action: "product.create", entityType: "Product" },
+  async (request: NextRequest, _context: unknown, audit) => {
+    try {
+      // CSRF protection for admin product creation
+      const csrfValid = await validateCsrfToken(request);
+      if (!csrfValid) {
+        return errorResponse(
+          "Invalid or missing CSRF token",
+          "CSRF_VALIDATION_FAILED",
+          undefined,
+          403
+        );
+      }
 
-    const { userId } = await getServerAuth()
+      const { userId } = await getServerAuth()
 
-    // Check if user is authenticated
-    if (!userId) {
-      return unauthorizedResponse("Please sign in to create products")
-    }
+      // Check if user is authenticated
+      if (!userId) {
+        return unauthorizedResponse("Please sign in to create products")
+      }
 
-    // Check if user has required role (ADMIN or EDITOR)
-    const hasPermission = await requireRole(userId, ['ADMIN', 'EDITOR'])
-    if (!hasPermission) {
-      return forbiddenResponse("Only admins and editors can create products")
-    }
+      // Check if user has required role (ADMIN or EDITOR)
+      const hasPermission = await requireRole(userId, ['ADMIN', 'EDITOR'])
+      if (!hasPermission) {
+        return forbiddenResponse("Only admins and editors can create products")
+      }
 
-    const body = await request.json();
+      const body = await request.json();
 
-    // Validate input
-    const validation = createProductSchema.safeParse(body);
-    if (!validation.success) {
-      return validationErrorResponse(validation.error);
-    }
+      // Validate input
+      const validation = createProductSchema.safeParse(body);
+      if (!validation.success) {
+        return validationErrorResponse(validation.error);
+      }
 
-    const { title, description, price, salePrice, image, category } = validation.data;
-
-    const product = await prisma.product.create({
-      data: {
-        title,
-        description: description || null,
-        price,
-        salePrice: salePrice || null,
-        image,
-        category,
-      },
-    });
+      const { title, description, price, salePrice, image, category } = validation.data;
 
-    // Invalidate product caches
-    await invalidateProductCaches();
+      const product = await prisma.product.create({
+        data: {
+          title,
+          description: description || null,
+          price,
+          salePrice: salePrice || null,
+          image,
+          category,
+        },
+      });
 
-    return successResponse(product, undefined, 201)
-  } catch (error) {
-    logger.error('Failed to create product', error);
-    return handleApiError(error);
+      audit.entityId = product.id
+      audit.after = product
+
+      // Invalidate product caches
+      await invalidateProductCaches();
+
+      return successResponse(product, undefined, 201)
+    } catch (error) {
+      logger.error('Failed to create product', error);
+      return handleApiError(error);
+    }
   }
-}
+)
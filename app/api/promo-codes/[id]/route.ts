@@ -0,0 +1,205 @@
+/**
+ * Promo Code Admin API Routes
+ *
+ * PATCH /api/promo-codes/[id] - Update a promo code (admin)
+ * DELETE /api/promo-codes/[id] - Delete an unused promo code (admin)
+ *
+ * @module app/api/promo-codes/[id]/route
+ */
+
+import { Prisma } from '@prisma/client'
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateCsrfToken } from '@/lib/csrf'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  conflictResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { withAuditLog } from '@/lib/audit-log'
+import { formatPromoCode, serializeScopeList, PROMO_CODE_CONFIG } from '@/lib/promo-codes'
+import { UpdatePromoCodeSchema } from '@/lib/validations/promo-code'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+async function authorizeAdmin(request: Request) {
+  const csrfValid = await validateCsrfToken(request)
+  if (!csrfValid) {
+    return {
+      response: errorResponse(
+        'Invalid or missing CSRF token',
+        'CSRF_VALIDATION_FAILED',
+        undefined,
+        403
+      ),
+    }
+  }
+
+  const { userId } = await getServerAuth()
+
+  if (!userId) {
+    return { response: unauthorizedResponse('You must be logged in') }
+  }
+
+  const isAdmin = await requireRole(userId, ['ADMIN'])
+  if (!isAdmin) {
+    return { response: forbiddenResponse('Admin access required') }
+  }
+
+  const identifier = getIdentifier(request, userId)
+  const { success, reset } = await checkRateLimit(identifier)
+
+  if (!success) {
+    return { response: rateLimitErrorResponse(reset) }
+  }
+
+  return { userId }
+}
+
+/**
+ * PATCH /api/promo-codes/[id]
+ * Update a promo code's rules, window, caps or active flag.
+ */
+export const PATCH = withAuditLog(
+  { action: 'promo_code.update', entityType: 'PromoCode' },
+  async (request: Request, context: RouteContext, audit) => {
+    try {
+      const auth = await authorizeAdmin(request)
+      if (auth.response) {
+        return auth.response
+      }
+
+      const { id } = await context.params
+
+      const body = await request.json()
+      const validation = UpdatePromoCodeSchema.safeParse(body)
+
+      if (!validation.success) {
+        return validationErrorResponse(validation.error)
+      }
+
+      const existing = await prisma.promoCode.findUnique({
+        where: { id },
+      })
+
+      if (!existing) {
+        return notFoundResponse('Promo code')
+      }
+
+      const data = validation.data
+
+      if (data.value !== undefined) {
+        if (
+          existing.type === PROMO_CODE_CONFIG.TYPES.PERCENT &&
+          (data.value <= 0 || data.value > 100)
+        ) {
+          return errorResponse('Percent discounts must be between 0 and 100', 'BAD_REQUEST', undefined, 400)
+        }
+        if (existing.type === PROMO_CODE_CONFIG.TYPES.FIXED && data.value <= 0) {
+          return errorResponse('Fixed discounts must be greater than 0', 'BAD_REQUEST', undefined, 400)
+        }
+      }
+
+      const updateData: Prisma.PromoCodeUpdateInput = {}
+
+      if (data.description !== undefined) updateData.description = data.description
+      if (data.value !== undefined && existing.type !== PROMO_CODE_CONFIG.TYPES.FREE_SHIPPING) {
+        updateData.value = data.value
+      }
+      if (data.minSubtotal !== undefined) updateData.minSubtotal = data.minSubtotal
+      if (data.usageLimit !== undefined) updateData.usageLimit = data.usageLimit
+      if (data.usageLimitPerCustomer !== undefined) {
+        updateData.usageLimitPerCustomer = data.usageLimitPerCustomer
+      }
+      if (data.startsAt !== undefined) updateData.startsAt = data.startsAt
+      if (data.endsAt !== undefined) updateData.endsAt = data.endsAt
+      if (data.isActive !== undefined) updateData.isActive = data.isActive
+      if (data.categories !== undefined) updateData.categories = serializeScopeList(data.categories)
+      if (data.brandIds !== undefined) updateData.brandIds = serializeScopeList(data.brandIds)
+      if (data.productIds !== undefined) updateData.productIds = serializeScopeList(data.productIds)
+
+      const promoCode = await prisma.promoCode.update({
+        where: { id },
+        data: updateData,
+      })
+
+      audit.entityId = id
+      audit.before = existing
+      audit.after = promoCode
+
+      logger.info('Promo code updated', {
+        promoCodeId: id,
+        adminUserId: auth.userId,
+        fields: Object.keys(updateData),
+      })
+
+      return successResponse(formatPromoCode(promoCode))
+    } catch (error) {
+      logger.error('Failed to update promo code', error)
+      return handleApiError(error)
+    }
+  }
+)
+
+/**
+ * DELETE /api/promo-codes/[id]
+ * Delete a promo code that has never been redeemed.
+ * Codes with redemptions should be deactivated instead to preserve order history.
+ */
+export const DELETE = withAuditLog(
+  { action: 'promo_code.delete', entityType: 'PromoCode' },
+  async (request: Request, context: RouteContext, audit) => {
+    try {
+      const auth = await authorizeAdmin(request)
+      if (auth.response) {
+        return auth.response
+      }
+
+      const { id } = await context.params
+
+      const promoCode = await prisma.promoCode.findUnique({
+        where: { id },
+        include: {
+          _count: { select: { redemptions: true } },
+        },
+      })
+
+      if (!promoCode) {
+        return notFoundResponse('Promo code')
+      }
+
+      if (promoCode._count.redemptions > 0) {
+        return conflictResponse('This promo code has been redeemed. Deactivate it instead.')
+      }
+
+      await prisma.promoCode.delete({ where: { id } })
+
+      const { _count: _redemptionCount, ...deleted } = promoCode
+      audit.entityId = id
+      audit.before = deleted
+
+      logger.info('Promo code deleted', {
+        promoCodeId: id,
+        code: promoCode.code,
+        adminUserId: auth.userId,
+      })
+
+      return successResponse({ id })
+    } catch (error) {
+      logger.error('Failed to delete promo code', error)
+      return handleApiError(error)
+    }
+  }
+)
@@ -0,0 +1,185 @@
+/**
+ * Promo Codes Admin API Routes
+ *
+ * GET /api/promo-codes - List promo codes (admin)
+ * POST /api/promo-codes - Create a promo code (admin)
+ *
+ * @module app/api/promo-codes/route
+ */
+
+import { z } from 'zod'
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateCsrfToken } from '@/lib/csrf'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  conflictResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  paginatedResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { calculatePaginationMeta } from '@/lib/api/pagination'
+import { logger } from '@/lib/logger'
+import { withAuditLog } from '@/lib/audit-log'
+import { formatPromoCode, serializeScopeList } from '@/lib/promo-codes'
+import { CreatePromoCodeSchema } from '@/lib/validations/promo-code'
+
+export const dynamic = 'force-dynamic'
+
+const queryParamsSchema = z.object({
+  page: z.coerce.number().int().min(1).max(10000).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(['active', 'inactive', 'all']).default('all'),
+})
+
+/**
+ * GET /api/promo-codes
+ * List promo codes with usage counts. Requires ADMIN role.
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await getServerAuth()
+
+    if (!userId) {
+      return unauthorizedResponse('You must be logged in')
+    }
+
+    const isAdmin = await requireRole(userId, ['ADMIN'])
+    if (!isAdmin) {
+      return forbiddenResponse('Admin access required')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const url = new URL(request.url)
+    const validation = queryParamsSchema.safeParse({
+      page: url.searchParams.get('page') || undefined,
+      limit: url.searchParams.get('limit') || undefined,
+      status: url.searchParams.get('status') || undefined,
+    })
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error)
+    }
+
+    const { page, limit, status } = validation.data
+    const where = status === 'all' ? {} : { isActive: status === 'active' }
+
+    const [promoCodes, total] = await Promise.all([
+      prisma.promoCode.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.promoCode.count({ where }),
+    ])
+
+    return paginatedResponse(
+      promoCodes.map(formatPromoCode),
+      calculatePaginationMeta(total, page, limit)
+    )
+  } catch (error) {
+    logger.error('Failed to list promo codes', error)
+    return handleApiError(error)
+  }
+}
+
+/**
+ * POST /api/promo-codes
+ * Create a promo code. Requires ADMIN role.
+ */
+export const POST = withAuditLog(
+  { action: 'promo_code.create', entityType: 'PromoCode' },
+  async (request: Request, _context: unknown, audit) => {
+    try {
+      const csrfValid = await validateCsrfToken(request)
+      if (!csrfValid) {
+        return errorResponse(
+          'Invalid or missing CSRF token',
+          'CSRF_VALIDATION_FAILED',
+          undefined,
+          403
+        )
+      }
+
+      const { userId } = await getServerAuth()
+
+      if (!userId) {
+        return unauthorizedResponse('You must be logged in')
+      }
+
+      const isAdmin = await requireRole(userId, ['ADMIN'])
+      if (!isAdmin) {
+        return forbiddenResponse('Admin access required')
+      }
+
+      const identifier = getIdentifier(request, userId)
+      const { success, reset } = await checkRateLimit(identifier)
+
+      if (!success) {
+        return rateLimitErrorResponse(reset)
+      }
+
+      const body = await request.json()
+      const validation = CreatePromoCodeSchema.safeParse(body)
+
+      if (!validation.success) {
+        return validationErrorResponse(validation.error)
+      }
+
+      const data = validation.data
+
+      const existing = await prisma.promoCode.findUnique({
+        where: { code: data.code },
+        select: { id: true },
+      })
+
+      if (existing) {
+        return conflictResponse('A promo code with this code already exists')
+      }
+
+      const promoCode = await prisma.promoCode.create({
+        data: {
+          code: data.code,
+          description: data.description ?? null,
+          type: data.type,
+          value: data.type === 'FREE_SHIPPING' ? 0 : data.value,
+          minSubtotal: data.minSubtotal ?? null,
+          usageLimit: data.usageLimit ?? null,
+          usageLimitPerCustomer: data.usageLimitPerCustomer ?? null,
+          startsAt: data.startsAt ?? null,
+          endsAt: data.endsAt ?? null,
+          isActive: data.isActive,
+          categories: serializeScopeList(data.categories),
+          brandIds: serializeScopeList(data.brandIds),
+          productIds: serializeScopeList(data.productIds),
+        },
+      })
+
+      audit.entityId = promoCode.id
+      audit.after = formatPromoCode(promoCode)
+
+      logger.info('Promo code created', {
+        promoCodeId: promoCode.id,
+        code: promoCode.code,
+        adminUserId: userId,
+      })
+
+      return successResponse(formatPromoCode(promoCode), undefined, 201)
+    } catch (error) {
+      logger.error('Failed to create promo code', error)
+      return handleApiError(error)
+    }
+  }
+)
@@ -0,0 +1,102 @@
+/**
+ * Promo Code Validation API Route
+ *
+ * POST /api/promo-codes/validate - Preview a promo code against the current cart
+ *
+ * @module app/api/promo-codes/validate/route
+ */
+
+import { getServerAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getUserIdForCart } from '@/lib/session'
+import { validateCsrfToken } from '@/lib/csrf'
+import { checkStrictRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  successResponse,
+  errorResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { evaluatePromoCode, type PromoCartLine } from '@/lib/promo-codes'
+import { ValidatePromoCodeSchema } from '@/lib/validations/promo-code'
+import { CART_LINE_INCLUDE, getCartLineUnitPrice } from '@/lib/bundle-cart'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/promo-codes/validate
+ * Validate a promo code against the server-side cart and return the discount
+ * it would apply. Does not reserve the code; checkout places the hold.
+ */
+export async function POST(request: Request) {
+  try {
+    const csrfValid = await validateCsrfToken(request)
+    if (!csrfValid) {
+      return errorResponse(
+        'Invalid or missing CSRF token',
+        'CSRF_VALIDATION_FAILED',
+        undefined,
+        403
+      )
+    }
+
+    const { userId } = await getServerAuth()
+
+    // Strict rate limiting to prevent code enumeration
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkStrictRateLimit(`promo-validate:${identifier}`)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const body = await request.json()
+    const validation = ValidatePromoCodeSchema.safeParse(body)
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error)
+    }
+
+    const userIdToUse = await getUserIdForCart(userId)
+
+    const cartItems = await prisma.cartItem.findMany({
+      where: { userId: userIdToUse },
+      include: CART_LINE_INCLUDE,
+    })
+
+    if (cartItems.length === 0) {
+      return errorResponse('Cart is empty', undefined, undefined, 400)
+    }
+
+    const lines: PromoCartLine[] = cartItems.map((item) => ({
+      productId: item.product.id,
+      category: item.product.category,
+      brandId: item.product.brandId,
+      price: getCartLineUnitPrice(item),
+      quantity: item.quantity,
+    }))
+
+    const evaluation = await evaluatePromoCode(validation.data.code, {
+      userId: userIdToUse,
+      customerEmail: validation.data.email,
+      lines,
+    })
+
+    if (!evaluation.valid) {
+      return errorResponse(evaluation.reason, 'INVALID_PROMO_CODE', undefined, 400)
+    }
+
+    return successResponse({
+      code: evaluation.code,
+      type: evaluation.type,
+      description: evaluation.description,
+      discountAmount: evaluation.discountAmount,
+      freeShipping: evaluation.freeShipping,
+    })
+  } catch (error) {
+    logger.error('Failed to validate promo code', error)
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Review Helpful Vote API Route
+ *
+ * POST /api/reviews/[id]/helpful - Toggle the current user's "helpful" vote
+ *
+ * @module app/api/reviews/[id]/helpful/route
+ */
+
+import { getServerAuth } from '@/lib/auth'
+import { checkStrictRateLimit, getIdentifier } from '@/lib/rate-limit'
+import { validateCsrfToken } from '@/lib/csrf'
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { toggleHelpfulVote } from '@/lib/reviews'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/reviews/[id]/helpful
+ * Marks an approved review as helpful, or removes the mark if the user has
+ * already voted. Authors cannot vote on their own reviews.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfValid = await validateCsrfToken(request)
+    if (!csrfValid) {
+      return forbiddenResponse('Invalid or missing CSRF token')
+    }
+
+    const { userId } = await getServerAuth()
+    if (!userId) {
+      return unauthorizedResponse('You must be logged in to vote on reviews')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkStrictRateLimit(identifier)
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const { id } = await params
+    const result = await toggleHelpfulVote(id, userId)
+
+    if (!result.success) {
+      return result.code === 'FORBIDDEN'
+        ? forbiddenResponse(result.error)
+        : notFoundResponse('Review')
+    }
+
+    return successResponse({ helpful: result.helpful, helpfulCount: result.helpfulCount })
+  } catch (error) {
+    logger.error('Failed to toggle review helpful vote', error)
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Review Merchant Reply API Route
+ *
+ * PUT /api/reviews/[id]/reply - Set or clear the merchant's public reply (admin)
+ *
+ * @module app/api/reviews/[id]/reply/route
+ */
+
+import { z } from 'zod'
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { validateCsrfToken } from '@/lib/csrf'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { withAuditLog } from '@/lib/audit-log'
+import { REVIEW_CONFIG, setMerchantReply } from '@/lib/reviews'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const merchantReplySchema = z.object({
+  reply: z
+    .string()
+    .trim()
+    .max(REVIEW_CONFIG.MAX_REPLY_LENGTH, `Reply must be ${REVIEW_CONFIG.MAX_REPLY_LENGTH} characters or fewer`)
+    .nullable(),
+})
+
+/**
+ * PUT /api/reviews/[id]/reply
+ * Set the merchant reply shown under the review. An empty or null reply
+ * removes it.
+ */
+export const PUT = withAuditLog(
+  { action: 'review.reply', entityType: 'Review' },
+  async (request: Request, context: RouteContext, audit) => {
+    try {
+      const csrfValid = await validateCsrfToken(request)
+      if (!csrfValid) {
+        return errorResponse('Invalid or missing CSRF token', 'CSRF_VALIDATION_FAILED', undefined, 403)
+      }
+
+      const { userId } = await getServerAuth()
+
+      if (!userId) {
+        return unauthorizedResponse('You must be logged in')
+      }
+
+      const isAdmin = await requireRole(userId, ['ADMIN'])
+      if (!isAdmin) {
+        return forbiddenResponse('Admin access required')
+      }
+
+      const identifier = getIdentifier(request, userId)
+      const { success, reset } = await checkRateLimit(identifier)
+
+      if (!success) {
+        return rateLimitErrorResponse(reset)
+      }
+
+      const { id } = await context.params
+
+      const body = await request.json()
+      const validation = merchantReplySchema.safeParse(body)
+
+      if (!validation.success) {
+        return validationErrorResponse(validation.error)
+      }
+
+      const result = await setMerchantReply(id, validation.data.reply)
+
+      if (!result.success) {
+        return notFoundResponse('Review')
+      }
+
+      audit.entityId = id
+      audit.before = { merchantReply: result.before.merchantReply }
+      audit.after = { merchantReply: result.review.merchantReply }
+
+      logger.info('Review merchant reply updated', {
+        reviewId: id,
+        adminUserId: userId,
+        cleared: !result.review.merchantReply,
+      })
+
+      return successResponse(result.review)
+    } catch (error) {
+      logger.error('Failed to update review reply', error)
+      return handleApiError(error)
+    }
+  }
+)
@@ -0,0 +1,169 @@
+/**
+ * Review Moderation API Route
+ *
+ * PATCH /api/reviews/[id] - Approve, reject or flag a review (admin)
+ * DELETE /api/reviews/[id] - Permanently delete a review (admin)
+ *
+ * @module app/api/reviews/[id]/route
+ */
+
+import { z } from 'zod'
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { validateCsrfToken } from '@/lib/csrf'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  conflictResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { withAuditLog } from '@/lib/audit-log'
+import { REVIEW_CONFIG, deleteReview, moderateReview } from '@/lib/reviews'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const moderateReviewSchema = z.object({
+  action: z.enum(REVIEW_CONFIG.MODERATION_ACTIONS),
+  reason: z.string().trim().max(500, 'Reason is too long').optional(),
+})
+
+async function authorizeAdmin(request: Request) {
+  const csrfValid = await validateCsrfToken(request)
+  if (!csrfValid) {
+    return {
+      response: errorResponse('Invalid or missing CSRF token', 'CSRF_VALIDATION_FAILED', undefined, 403),
+    }
+  }
+
+  const { userId } = await getServerAuth()
+
+  if (!userId) {
+    return { response: unauthorizedResponse('You must be logged in') }
+  }
+
+  const isAdmin = await requireRole(userId, ['ADMIN'])
+  if (!isAdmin) {
+    return { response: forbiddenResponse('Admin access required') }
+  }
+
+  const identifier = getIdentifier(request, userId)
+  const { success, reset } = await checkRateLimit(identifier)
+
+  if (!success) {
+    return { response: rateLimitErrorResponse(reset) }
+  }
+
+  return { userId }
+}
+
+function moderationSnapshot(review: {
+  status: string
+  moderationReason: string | null
+  moderatedById: string | null
+}) {
+  return {
+    status: review.status,
+    moderationReason: review.moderationReason,
+    moderatedById: review.moderatedById,
+  }
+}
+
+/**
+ * PATCH /api/reviews/[id]
+ * Apply a moderation decision. Rejecting or flagging requires a reason.
+ * Approval publishes the review and awards the author's review points.
+ */
+export const PATCH = withAuditLog(
+  { action: 'review.moderate', entityType: 'Review' },
+  async (request: Request, context: RouteContext, audit) => {
+    try {
+      const auth = await authorizeAdmin(request)
+      if (auth.response) {
+        return auth.response
+      }
+
+      const { id } = await context.params
+
+      const body = await request.json()
+      const validation = moderateReviewSchema.safeParse(body)
+
+      if (!validation.success) {
+        return validationErrorResponse(validation.error)
+      }
+
+      const result = await moderateReview({
+        reviewId: id,
+        action: validation.data.action,
+        reason: validation.data.reason,
+        moderatorId: auth.userId,
+      })
+
+      if (!result.success) {
+        if (result.code === 'NOT_FOUND') {
+          return notFoundResponse('Review')
+        }
+        if (result.code === 'INVALID_STATE') {
+          return conflictResponse(result.error)
+        }
+        return errorResponse(result.error, 'BAD_REQUEST', undefined, 400)
+      }
+
+      audit.entityId = id
+      audit.before = moderationSnapshot(result.before)
+      audit.after = moderationSnapshot(result.review)
+
+      return successResponse({ ...result.review, pointsAwarded: result.pointsAwarded })
+    } catch (error) {
+      logger.error('Failed to moderate review', error)
+      return handleApiError(error)
+    }
+  }
+)
+
+/**
+ * DELETE /api/reviews/[id]
+ * Permanently delete a review along with its photos and votes. The
+ * product's rating aggregates are recomputed in the same transaction.
+ */
+export const DELETE = withAuditLog(
+  { action: 'review.delete', entityType: 'Review' },
+  async (request: Request, context: RouteContext, audit) => {
+    try {
+      const auth = await authorizeAdmin(request)
+      if (auth.response) {
+        return auth.response
+      }
+
+      const { id } = await context.params
+      const result = await deleteReview(id)
+
+      if (!result.success) {
+        return notFoundResponse('Review')
+      }
+
+      audit.entityId = id
+      audit.before = result.before
+
+      logger.info('Review deleted', {
+        reviewId: id,
+        productId: result.before.productId,
+        adminUserId: auth.userId,
+      })
+
+      return successResponse({ id })
+    } catch (error) {
+      logger.error('Failed to delete review', error)
+      return handleApiError(error)
+    }
+  }
+)
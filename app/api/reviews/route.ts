@@ -0,0 +1,98 @@
+/**
+ * Review Moderation Queue API Route
+ *
+ * GET /api/reviews - List reviews by moderation status (admin)
+ *
+ * @module app/api/reviews/route
+ */
+
+import { z } from 'zod'
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  unauthorizedResponse,
+  forbiddenResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  paginatedResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { calculatePaginationMeta } from '@/lib/api/pagination'
+import { logger } from '@/lib/logger'
+import { REVIEW_CONFIG } from '@/lib/reviews'
+
+export const dynamic = 'force-dynamic'
+
+const REVIEW_STATUSES = Object.values(REVIEW_CONFIG.STATUS) as [string, ...string[]]
+
+const queryParamsSchema = z.object({
+  page: z.coerce.number().int().min(1).max(10000).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(REVIEW_STATUSES).default(REVIEW_CONFIG.STATUS.PENDING),
+  productId: z.string().max(100).optional(),
+})
+
+/**
+ * GET /api/reviews
+ * List reviews in a moderation state (PENDING by default), oldest first so
+ * the queue is worked in submission order. Requires ADMIN role.
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await getServerAuth()
+
+    if (!userId) {
+      return unauthorizedResponse('You must be logged in')
+    }
+
+    const isAdmin = await requireRole(userId, ['ADMIN'])
+    if (!isAdmin) {
+      return forbiddenResponse('Admin access required')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const url = new URL(request.url)
+    const validation = queryParamsSchema.safeParse(
+      Object.fromEntries(
+        Array.from(url.searchParams.entries()).filter(([, value]) => value.trim() !== '')
+      )
+    )
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error)
+    }
+
+    const { page, limit, status, productId } = validation.data
+    const where = { status, ...(productId ? { productId } : {}) }
+
+    const [reviews, total] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+          product: { select: { id: true, title: true } },
+          photos: {
+            select: { id: true, url: true },
+            orderBy: { sortOrder: 'asc' },
+          },
+        },
+        orderBy: { createdAt: status === REVIEW_CONFIG.STATUS.PENDING ? 'asc' : 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.review.count({ where }),
+    ])
+
+    return paginatedResponse(reviews, calculatePaginationMeta(total, page, limit))
+  } catch (error) {
+    logger.error('Failed to list reviews for moderation', error)
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Shipping Quote API Route
+ *
+ * GET /api/shipping/quote - Quote shipping options for the current cart
+ *
+ * @module app/api/shipping/quote/route
+ */
+
+import { getServerAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getUserIdForCart } from '@/lib/session'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  successResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { getShippingQuote, type ShippingCartLine } from '@/lib/shipping'
+import { ShippingQuoteQuerySchema } from '@/lib/validations/shipping'
+import { CART_LINE_INCLUDE, getCartLineUnitPrice } from '@/lib/bundle-cart'
+import { getCarbonOffsetQuote } from '@/lib/carbon-offsets'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/shipping/quote?country=US&state=CA
+ * Returns the shipping options checkout would offer for the server-side cart,
+ * including loyalty-tier waivers for signed-in customers, and what the
+ * optional carbon offset would cost.
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await getServerAuth()
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const url = new URL(request.url)
+    const validation = ShippingQuoteQuerySchema.safeParse({
+      country: url.searchParams.get('country') || undefined,
+      state: url.searchParams.get('state') || undefined,
+    })
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error)
+    }
+
+    const userIdToUse = await getUserIdForCart(userId)
+
+    const cartItems = await prisma.cartItem.findMany({
+      where: { userId: userIdToUse },
+      include: CART_LINE_INCLUDE,
+    })
+
+    const lines: ShippingCartLine[] = cartItems.map((item) => ({
+      price: getCartLineUnitPrice(item),
+      quantity: item.quantity,
+      weightGrams: item.product.weightGrams,
+      oversizeSurcharge:
+        item.product.oversizeSurcharge !== null ? Number(item.product.oversizeSurcharge) : null,
+    }))
+
+    const quote = await getShippingQuote({
+      userId,
+      lines,
+      destination: validation.data,
+    })
+
+    const carbonOffset = getCarbonOffsetQuote(
+      cartItems.map((item) => ({
+        carbonFootprintGrams: item.product.carbonFootprintGrams,
+        weightGrams: item.product.weightGrams,
+        quantity: item.quantity,
+      })),
+      quote.options
+    )
+
+    return successResponse({ ...quote, carbonOffset })
+  } catch (error) {
+    logger.error('Failed to quote shipping', error)
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Shipping Zone Admin API Routes
+ *
+ * PUT /api/shipping/zones/[id] - Replace a zone and its rate table (admin)
+ * DELETE /api/shipping/zones/[id] - Delete a zone and its rates (admin)
+ *
+ * @module app/api/shipping/zones/[id]/route
+ */
+
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateCsrfToken } from '@/lib/csrf'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { withAuditLog } from '@/lib/audit-log'
+import { formatShippingZone, serializeCodeList } from '@/lib/shipping'
+import { ShippingZoneSchema } from '@/lib/validations/shipping'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+async function authorizeAdmin(request: Request) {
+  const csrfValid = await validateCsrfToken(request)
+  if (!csrfValid) {
+    return {
+      response: errorResponse(
+        'Invalid or missing CSRF token',
+        'CSRF_VALIDATION_FAILED',
+        undefined,
+        403
+      ),
+    }
+  }
+
+  const { userId } = await getServerAuth()
+
+  if (!userId) {
+    return { response: unauthorizedResponse('You must be logged in') }
+  }
+
+  const isAdmin = await requireRole(userId, ['ADMIN'])
+  if (!isAdmin) {
+    return { response: forbiddenResponse('Admin access required') }
+  }
+
+  const identifier = getIdentifier(request, userId)
+  const { success, reset } = await checkRateLimit(identifier)
+
+  if (!success) {
+    return { response: rateLimitErrorResponse(reset) }
+  }
+
+  return { userId }
+}
+
+/**
+ * PUT /api/shipping/zones/[id]
+ * Replace a zone's settings and its full rate table in one transaction.
+ */
+export const PUT = withAuditLog(
+  { action: 'shipping_zone.update', entityType: 'ShippingZone' },
+  async (request: Request, context: RouteContext, audit) => {
+    try {
+      const auth = await authorizeAdmin(request)
+      if (auth.response) {
+        return auth.response
+      }
+
+      const { id } = await context.params
+
+      const body = await request.json()
+      const validation = ShippingZoneSchema.safeParse(body)
+
+      if (!validation.success) {
+        return validationErrorResponse(validation.error)
+      }
+
+      const existing = await prisma.shippingZone.findUnique({
+        where: { id },
+        include: { rates: true },
+      })
+
+      if (!existing) {
+        return notFoundResponse('Shipping zone')
+      }
+
+      const { rates, ...zone } = validation.data
+
+      const updated = await prisma.$transaction(async (tx) => {
+        await tx.shippingRate.deleteMany({ where: { zoneId: id } })
+
+        return tx.shippingZone.update({
+          where: { id },
+          data: {
+            name: zone.name,
+            countries: serializeCodeList(zone.countries) ?? '[]',
+            states: serializeCodeList(zone.states),
+            priority: zone.priority,
+            isActive: zone.isActive,
+            rates: {
+              create: rates.map((rate) => ({
+                ...rate,
+                maxThreshold: rate.maxThreshold ?? null,
+              })),
+            },
+          },
+          include: { rates: true },
+        })
+      })
+
+      audit.entityId = id
+      audit.before = formatShippingZone(existing)
+      audit.after = formatShippingZone(updated)
+
+      logger.info('Shipping zone updated', {
+        zoneId: id,
+        rateCount: rates.length,
+        adminUserId: auth.userId,
+      })
+
+      return successResponse(formatShippingZone(updated))
+    } catch (error) {
+      logger.error('Failed to update shipping zone', error)
+      return handleApiError(error)
+    }
+  }
+)
+
+/**
+ * DELETE /api/shipping/zones/[id]
+ * Delete a zone. Destinations it covered fall back to other zones or the defaults.
+ */
+export const DELETE = withAuditLog(
+  { action: 'shipping_zone.delete', entityType: 'ShippingZone' },
+  async (request: Request, context: RouteContext, audit) => {
+    try {
+      const auth = await authorizeAdmin(request)
+      if (auth.response) {
+        return auth.response
+      }
+
+      const { id } = await context.params
+
+      const existing = await prisma.shippingZone.findUnique({
+        where: { id },
+        include: { rates: true },
+      })
+
+      if (!existing) {
+        return notFoundResponse('Shipping zone')
+      }
+
+      await prisma.shippingZone.delete({ where: { id } })
+
+      audit.entityId = id
+      audit.before = formatShippingZone(existing)
+
+      logger.info('Shipping zone deleted', {
+        zoneId: id,
+        adminUserId: auth.userId,
+      })
+
+      return successResponse({ id })
+    } catch (error) {
+      logger.error('Failed to delete shipping zone', error)
+      return handleApiError(error)
+    }
+  }
+)
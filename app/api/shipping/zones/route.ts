@@ -0,0 +1,143 @@
+/**
+ * Shipping Zones Admin API Routes
+ *
+ * GET /api/shipping/zones - List shipping zones with rates (admin)
+ * POST /api/shipping/zones - Create a shipping zone with rates (admin)
+ *
+ * @module app/api/shipping/zones/route
+ */
+
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateCsrfToken } from '@/lib/csrf'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { withAuditLog } from '@/lib/audit-log'
+import { formatShippingZone, serializeCodeList } from '@/lib/shipping'
+import { ShippingZoneSchema } from '@/lib/validations/shipping'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/shipping/zones
+ * List all shipping zones (active and inactive) with their rate tables.
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await getServerAuth()
+
+    if (!userId) {
+      return unauthorizedResponse('You must be logged in')
+    }
+
+    const isAdmin = await requireRole(userId, ['ADMIN'])
+    if (!isAdmin) {
+      return forbiddenResponse('Admin access required')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const zones = await prisma.shippingZone.findMany({
+      include: { rates: true },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    })
+
+    return successResponse(zones.map(formatShippingZone))
+  } catch (error) {
+    logger.error('Failed to list shipping zones', error)
+    return handleApiError(error)
+  }
+}
+
+/**
+ * POST /api/shipping/zones
+ * Create a shipping zone together with its rate tiers.
+ */
+export const POST = withAuditLog(
+  { action: 'shipping_zone.create', entityType: 'ShippingZone' },
+  async (request: Request, _context: unknown, audit) => {
+    try {
+      const csrfValid = await validateCsrfToken(request)
+      if (!csrfValid) {
+        return errorResponse(
+          'Invalid or missing CSRF token',
+          'CSRF_VALIDATION_FAILED',
+          undefined,
+          403
+        )
+      }
+
+      const { userId } = await getServerAuth()
+
+      if (!userId) {
+        return unauthorizedResponse('You must be logged in')
+      }
+
+      const isAdmin = await requireRole(userId, ['ADMIN'])
+      if (!isAdmin) {
+        return forbiddenResponse('Admin access required')
+      }
+
+      const identifier = getIdentifier(request, userId)
+      const { success, reset } = await checkRateLimit(identifier)
+
+      if (!success) {
+        return rateLimitErrorResponse(reset)
+      }
+
+      const body = await request.json()
+      const validation = ShippingZoneSchema.safeParse(body)
+
+      if (!validation.success) {
+        return validationErrorResponse(validation.error)
+      }
+
+      const { rates, ...zone } = validation.data
+
+      const created = await prisma.shippingZone.create({
+        data: {
+          name: zone.name,
+          countries: serializeCodeList(zone.countries) ?? '[]',
+          states: serializeCodeList(zone.states),
+          priority: zone.priority,
+          isActive: zone.isActive,
+          rates: {
+            create: rates.map((rate) => ({
+              ...rate,
+              maxThreshold: rate.maxThreshold ?? null,
+            })),
+          },
+        },
+        include: { rates: true },
+      })
+
+      audit.entityId = created.id
+      audit.after = formatShippingZone(created)
+
+      logger.info('Shipping zone created', {
+        zoneId: created.id,
+        rateCount: rates.length,
+        adminUserId: userId,
+      })
+
+      return successResponse(formatShippingZone(created), undefined, 201)
+    } catch (error) {
+      logger.error('Failed to create shipping zone', error)
+      return handleApiError(error)
+    }
+  }
+)
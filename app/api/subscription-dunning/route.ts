@@ -0,0 +1,80 @@
+/**
+ * Subscription Dunning Admin API Routes
+ *
+ * GET /api/subscription-dunning - List subscriptions with an unpaid renewal (admin)
+ *
+ * @module app/api/subscription-dunning/route
+ */
+
+import { z } from 'zod'
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  unauthorizedResponse,
+  forbiddenResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  paginatedResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { calculatePaginationMeta } from '@/lib/api/pagination'
+import { logger } from '@/lib/logger'
+import { listDunningSubscriptions } from '@/lib/subscription-dunning'
+
+export const dynamic = 'force-dynamic'
+
+const queryParamsSchema = z.object({
+  page: z.coerce.number().int().min(1).max(10000).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+/**
+ * GET /api/subscription-dunning
+ * List subscriptions in dunning, longest-running first, with the dates of
+ * their grace period end, next retry and cancellation.
+ * Requires ADMIN role.
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await getServerAuth()
+
+    if (!userId) {
+      return unauthorizedResponse('You must be logged in')
+    }
+
+    const isAdmin = await requireRole(userId, ['ADMIN'])
+    if (!isAdmin) {
+      return forbiddenResponse('Admin access required')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const url = new URL(request.url)
+    const validation = queryParamsSchema.safeParse(
+      Object.fromEntries(
+        Array.from(url.searchParams.entries()).filter(([, value]) => value.trim() !== '')
+      )
+    )
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error)
+    }
+
+    const { page, limit } = validation.data
+
+    const { subscriptions, total } = await listDunningSubscriptions({
+      skip: (page - 1) * limit,
+      take: limit,
+    })
+
+    return paginatedResponse(subscriptions, calculatePaginationMeta(total, page, limit))
+  } catch (error) {
+    logger.error('Failed to list subscriptions in dunning', error)
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getServerAuth } from '@/lib/auth';
+import { validateCsrfToken } from '@/lib/csrf';
+import { logger } from '@/lib/logger';
+import {
+  successResponse,
+  validationErrorResponse,
+  unauthorizedResponse,
+  errorResponse,
+  handleApiError,
+  rateLimitErrorResponse,
+} from '@/lib/api-response';
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit';
+import {
+  SUBSCRIPTION_ITEM_CONFIG,
+  removeSubscriptionItem,
+  updateSubscriptionItem,
+  type SubscriptionItemEditFailure,
+} from '@/lib/subscription-items';
+
+export const dynamic = 'force-dynamic'
+
+const updateItemSchema = z
+  .object({
+    quantity: z
+      .number()
+      .int()
+      .min(SUBSCRIPTION_ITEM_CONFIG.MIN_QUANTITY)
+      .max(SUBSCRIPTION_ITEM_CONFIG.MAX_QUANTITY)
+      .optional(),
+    variantId: z.string().min(1).optional(),
+  })
+  .refine((data) => data.quantity !== undefined || data.variantId !== undefined, {
+    message: 'Provide a quantity or a variant to change',
+  });
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+    itemId: string;
+  }>;
+}
+
+const FAILURE_STATUS: Record<SubscriptionItemEditFailure['code'], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  NOT_MODIFIABLE: 403,
+  NOT_SUBSCRIBABLE: 400,
+  DUPLICATE_ITEM: 409,
+  LAST_ITEM: 400,
+};
+
+/**
+ * Shared rate limit, CSRF and auth checks. Returns the signed-in user's ID
+ * or the response to send.
+ */
+async function authorize(request: NextRequest) {
+  // Rate limiting (standard: 10 req/10s)
+  const identifier = getIdentifier(request);
+  const { success, reset } = await checkRateLimit(`subscription-items:${identifier}`);
+  if (!success) {
+    return { response: rateLimitErrorResponse(reset) };
+  }
+
+  // CSRF protection
+  const csrfValid = await validateCsrfToken(request);
+  if (!csrfValid) {
+    return {
+      response: errorResponse(
+        'Invalid or missing CSRF token',
+        'CSRF_VALIDATION_FAILED',
+        undefined,
+        403
+      ),
+    };
+  }
+
+  const { userId } = await getServerAuth();
+  if (!userId) {
+    return { response: unauthorizedResponse('Please sign in to update your subscription') };
+  }
+
+  return { userId };
+}
+
+/**
+ * PATCH /api/subscriptions/[id]/items/[itemId]
+ * Change an item's quantity or swap it to another variant of the same product
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.userId) {
+      return auth.response;
+    }
+
+    const { id, itemId } = await params;
+
+    const body = await request.json();
+    const validation = updateItemSchema.safeParse(body);
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error);
+    }
+
+    const result = await updateSubscriptionItem(auth.userId, id, itemId, validation.data);
+    if (!result.success) {
+      return errorResponse(result.error, result.code, undefined, FAILURE_STATUS[result.code]);
+    }
+
+    return successResponse({ subscription: result.subscription, totals: result.totals });
+  } catch (error) {
+    logger.error('Failed to update subscription item', error);
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/subscriptions/[id]/items/[itemId]
+ * Remove an item from a subscription
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorize(request);
+    if (!auth.userId) {
+      return auth.response;
+    }
+
+    const { id, itemId } = await params;
+
+    const result = await removeSubscriptionItem(auth.userId, id, itemId);
+    if (!result.success) {
+      return errorResponse(result.error, result.code, undefined, FAILURE_STATUS[result.code]);
+    }
+
+    return successResponse({ subscription: result.subscription, totals: result.totals });
+  } catch (error) {
+    logger.error('Failed to remove subscription item', error);
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getServerAuth } from '@/lib/auth';
+import { validateCsrfToken } from '@/lib/csrf';
+import { logger } from '@/lib/logger';
+import {
+  successResponse,
+  validationErrorResponse,
+  unauthorizedResponse,
+  errorResponse,
+  handleApiError,
+  rateLimitErrorResponse,
+} from '@/lib/api-response';
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit';
+import {
+  SUBSCRIPTION_ITEM_CONFIG,
+  addSubscriptionItem,
+  type SubscriptionItemEditFailure,
+} from '@/lib/subscription-items';
+
+export const dynamic = 'force-dynamic'
+
+const addItemSchema = z.object({
+  productId: z.string().min(1, 'Product ID is required'),
+  variantId: z.string().optional().nullable(),
+  quantity: z
+    .number()
+    .int()
+    .min(SUBSCRIPTION_ITEM_CONFIG.MIN_QUANTITY)
+    .max(SUBSCRIPTION_ITEM_CONFIG.MAX_QUANTITY)
+    .default(1),
+});
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+const FAILURE_STATUS: Record<SubscriptionItemEditFailure['code'], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  NOT_MODIFIABLE: 403,
+  NOT_SUBSCRIBABLE: 400,
+  DUPLICATE_ITEM: 409,
+  LAST_ITEM: 400,
+};
+
+/**
+ * POST /api/subscriptions/[id]/items
+ * Add a product to a subscription
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Rate limiting (standard: 10 req/10s)
+    const identifier = getIdentifier(request);
+    const { success, reset } = await checkRateLimit(`subscription-items:${identifier}`);
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    // CSRF protection
+    const csrfValid = await validateCsrfToken(request);
+    if (!csrfValid) {
+      return errorResponse(
+        'Invalid or missing CSRF token',
+        'CSRF_VALIDATION_FAILED',
+        undefined,
+        403
+      );
+    }
+
+    const { userId } = await getServerAuth();
+    const { id } = await params;
+
+    if (!userId) {
+      return unauthorizedResponse('Please sign in to update your subscription');
+    }
+
+    const body = await request.json();
+    const validation = addItemSchema.safeParse(body);
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error);
+    }
+
+    const result = await addSubscriptionItem(userId, id, validation.data);
+    if (!result.success) {
+      return errorResponse(result.error, result.code, undefined, FAILURE_STATUS[result.code]);
+    }
+
+    return successResponse({ subscription: result.subscription, totals: result.totals }, undefined, 201);
+  } catch (error) {
+    logger.error('Failed to add subscription item', error);
+    return handleApiError(error);
+  }
+}
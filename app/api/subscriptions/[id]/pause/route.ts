@@ -0,0 +1,88 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getServerAuth } from '@/lib/auth';
+import { validateCsrfToken } from '@/lib/csrf';
+import { logger } from '@/lib/logger';
+import {
+  successResponse,
+  validationErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  forbiddenResponse,
+  errorResponse,
+  handleApiError,
+  rateLimitErrorResponse,
+} from '@/lib/api-response';
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit';
+import { SUBSCRIPTION_SCHEDULE_CONFIG, pauseSubscription } from '@/lib/subscription-schedule';
+
+export const dynamic = 'force-dynamic'
+
+// Omit cycles to pause until the customer resumes
+const pauseSubscriptionSchema = z.object({
+  cycles: z.number().int().min(1).max(SUBSCRIPTION_SCHEDULE_CONFIG.MAX_PAUSE_CYCLES).optional(),
+  reason: z.string().max(SUBSCRIPTION_SCHEDULE_CONFIG.MAX_REASON_LENGTH).optional(),
+});
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * POST /api/subscriptions/[id]/pause
+ * Pause a subscription for a number of delivery cycles, or indefinitely
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const identifier = getIdentifier(request);
+    const { success, reset } = await checkRateLimit(`subscription-pause:${identifier}`);
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    // CSRF protection
+    const csrfValid = await validateCsrfToken(request);
+    if (!csrfValid) {
+      return errorResponse(
+        'Invalid or missing CSRF token',
+        'CSRF_VALIDATION_FAILED',
+        undefined,
+        403
+      );
+    }
+
+    const { userId } = await getServerAuth();
+    const { id } = await params;
+
+    if (!userId) {
+      return unauthorizedResponse('Please sign in to pause your subscription');
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = pauseSubscriptionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error);
+    }
+
+    const result = await pauseSubscription(userId, id, validation.data);
+    if (!result.success) {
+      if (result.code === 'NOT_FOUND') {
+        return notFoundResponse('Subscription');
+      }
+      return forbiddenResponse(result.error);
+    }
+
+    return successResponse({
+      resumeAt: result.resumeAt,
+      message: result.resumeAt
+        ? `Subscription paused until ${result.resumeAt.toLocaleDateString()}`
+        : 'Subscription paused',
+    });
+  } catch (error) {
+    logger.error('Failed to pause subscription', error);
+    return handleApiError(error);
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest } from 'next/server';
+import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { getServerAuth } from '@/lib/auth';
 import { validateCsrfToken } from '@/lib/csrf';
@@ -7,6 +8,7 @@ import { getBaseUrl } from '@/lib/url';
 import { getOrCreateStripeCustomer } from '@/lib/stripe-subscription';
 import {
   successResponse,
+  validationErrorResponse,
   unauthorizedResponse,
   forbiddenResponse,
   notFoundResponse,
@@ -18,12 +20,21 @@ import { checkRateLimit, getIdentifier } from '@/lib/rate-limit';
 
 export const dynamic = 'force-dynamic';
 
+// `payment_method_update` opens the portal straight on the card form
+const portalSessionSchema = z.object({
+  flow: z.enum(['payment_method_update']).optional(),
+});
+
 interface RouteParams {
   params: Promise<{
     id: string;
   }>;
 }
 
+/**
+ * POST /api/subscriptions/[id]/portal
+ * Create a Stripe billing portal session for the subscription's customer
+ */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const identifier = getIdentifier(request);
@@ -49,6 +60,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return unauthorizedResponse('Please sign in to manage your subscription billing');
     }
 
+    const body = await request.json().catch(() => ({}));
+    const validation = portalSessionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error);
+    }
+
     const subscription = await prisma.subscription.findUnique({
       where: { id },
       select: {
@@ -66,9 +84,21 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     const customerId = await getOrCreateStripeCustomer(userId);
+    const returnUrl = `${getBaseUrl()}/account/subscriptions`;
     const portalSession = await getStripe().billingPortal.sessions.create({
       customer: customerId,
-      return_url: `${getBaseUrl()}/account/subscriptions`,
+      return_url: returnUrl,
+      ...(validation.data.flow === 'payment_method_update'
+        ? {
+            flow_data: {
+              type: 'payment_method_update' as const,
+              after_completion: {
+                type: 'redirect' as const,
+                redirect: { return_url: returnUrl },
+              },
+            },
+          }
+        : {}),
     });
 
     return successResponse({
@@ -29,6 +29,7 @@ import {
   FREQUENCY_TO_STRIPE_INTERVAL,
   archiveStripePrices,
 } from '@/lib/stripe-subscription';
+import { closeOpenPauses } from '@/lib/subscription-schedule';
 
 export const dynamic = 'force-dynamic'
 
@@ -416,6 +417,17 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     // Update the subscription
     const updatedSubscription = await prisma.$transaction(async (tx) => {
+      // Keep pause history in step so a scheduled resume never acts on an
+      // earlier pause
+      if (needsStatusUpdate) {
+        await closeOpenPauses(tx, id);
+        if (status === 'PAUSED') {
+          await tx.subscriptionPause.create({
+            data: { subscriptionId: id },
+          });
+        }
+      }
+
       if (newDiscountPercent !== null) {
         for (const item of subscription.items) {
           await tx.subscriptionItem.update({
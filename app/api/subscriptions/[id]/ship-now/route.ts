@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { getServerAuth } from '@/lib/auth';
+import { validateCsrfToken } from '@/lib/csrf';
+import { logger } from '@/lib/logger';
+import {
+  successResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  forbiddenResponse,
+  errorResponse,
+  handleApiError,
+  rateLimitErrorResponse,
+} from '@/lib/api-response';
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit';
+import { shipSubscriptionNow } from '@/lib/subscription-schedule';
+
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * POST /api/subscriptions/[id]/ship-now
+ * Bill the current cycle now and ship the next box early.
+ * Later deliveries are scheduled from today.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const identifier = getIdentifier(request);
+    const { success, reset } = await checkRateLimit(`subscription-ship-now:${identifier}`);
+    if (!success) {
+      return rateLimitErrorResponse(reset);
+    }
+
+    // CSRF protection
+    const csrfValid = await validateCsrfToken(request);
+    if (!csrfValid) {
+      return errorResponse(
+        'Invalid or missing CSRF token',
+        'CSRF_VALIDATION_FAILED',
+        undefined,
+        403
+      );
+    }
+
+    const { userId } = await getServerAuth();
+    const { id } = await params;
+
+    if (!userId) {
+      return unauthorizedResponse('Please sign in to ship your subscription');
+    }
+
+    const result = await shipSubscriptionNow(userId, id);
+    if (!result.success) {
+      if (result.code === 'NOT_FOUND') {
+        return notFoundResponse('Subscription');
+      }
+      if (result.code === 'PAYMENT_FAILED') {
+        return errorResponse(result.error, 'CARD_ERROR', undefined, 402);
+      }
+      return forbiddenResponse(result.error);
+    }
+
+    return successResponse({
+      nextDeliveryDate: result.nextDeliveryDate,
+      message: `Your box is on its way. Following delivery: ${result.nextDeliveryDate.toLocaleDateString()}`,
+    });
+  } catch (error) {
+    logger.error('Failed to ship subscription now', error);
+    return handleApiError(error);
+  }
+}
@@ -144,6 +144,13 @@ export async function GET(request: NextRequest) {
             },
           },
         },
+        // Current pause, for showing a scheduled resume date
+        pauses: {
+          where: { resumedAt: null },
+          orderBy: { pausedAt: 'desc' },
+          take: 1,
+          select: { resumeAt: true },
+        },
       },
       orderBy: { createdAt: 'desc' },
       skip,
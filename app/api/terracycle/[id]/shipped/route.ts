@@ -0,0 +1,81 @@
+/**
+ * TerraCycle Shipped API Route
+ *
+ * POST /api/terracycle/[id]/shipped - Mark a recycling shipment as sent
+ *
+ * @module app/api/terracycle/[id]/shipped/route
+ */
+
+import { getServerAuth } from '@/lib/auth'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import { validateCsrfToken } from '@/lib/csrf'
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  conflictResponse,
+  rateLimitErrorResponse,
+  validationErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { markTerraCycleShipped } from '@/lib/terracycle'
+import { MarkTerraCycleShippedSchema } from '@/lib/validations/terracycle'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/terracycle/[id]/shipped
+ * Only shipments whose label has been sent can be marked shipped. The
+ * tracking number and carrier are optional.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfValid = await validateCsrfToken(request)
+    if (!csrfValid) {
+      return errorResponse(
+        'Invalid or missing CSRF token',
+        'CSRF_VALIDATION_FAILED',
+        undefined,
+        403
+      )
+    }
+
+    const { userId } = await getServerAuth()
+
+    if (!userId) {
+      return unauthorizedResponse('Please sign in to update your recycling shipment')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validation = MarkTerraCycleShippedSchema.safeParse(body)
+    if (!validation.success) {
+      return validationErrorResponse(validation.error)
+    }
+
+    const { id } = await params
+    const result = await markTerraCycleShipped(userId, id, validation.data)
+
+    if (!result.success) {
+      if (result.code === 'NOT_FOUND') {
+        return notFoundResponse('Recycling shipment')
+      }
+      return conflictResponse(result.error)
+    }
+
+    return successResponse(result.submission)
+  } catch (error) {
+    logger.error('Failed to mark TerraCycle submission shipped', error)
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * TerraCycle API Routes
+ *
+ * GET /api/terracycle - The signed-in user's recycling shipments and totals
+ * POST /api/terracycle - Request a prepaid TerraCycle shipping label
+ *
+ * @module app/api/terracycle/route
+ */
+
+import { getServerAuth } from '@/lib/auth'
+import { checkRateLimit, checkStrictRateLimit, getIdentifier } from '@/lib/rate-limit'
+import { validateCsrfToken } from '@/lib/csrf'
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  conflictResponse,
+  rateLimitErrorResponse,
+  validationErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { getUserTerraCycleHistory, requestTerraCycleLabel } from '@/lib/terracycle'
+import { RequestTerraCycleLabelSchema } from '@/lib/validations/terracycle'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/terracycle
+ * Submissions newest first, with the user's recycling stats (null until
+ * their first request).
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await getServerAuth()
+
+    if (!userId) {
+      return unauthorizedResponse('Please sign in to view your recycling shipments')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    return successResponse(await getUserTerraCycleHistory(userId))
+  } catch (error) {
+    logger.error('Failed to fetch TerraCycle submissions', error)
+    return handleApiError(error)
+  }
+}
+
+/**
+ * POST /api/terracycle
+ * Returns 201 with the new PENDING submission, or 409 when the user already
+ * has the maximum number of shipments in progress.
+ */
+export async function POST(request: Request) {
+  try {
+    const csrfValid = await validateCsrfToken(request)
+    if (!csrfValid) {
+      return errorResponse(
+        'Invalid or missing CSRF token',
+        'CSRF_VALIDATION_FAILED',
+        undefined,
+        403
+      )
+    }
+
+    const { userId } = await getServerAuth()
+
+    if (!userId) {
+      return unauthorizedResponse('Please sign in to request a recycling label')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkStrictRateLimit(identifier)
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validation = RequestTerraCycleLabelSchema.safeParse(body)
+    if (!validation.success) {
+      return validationErrorResponse(validation.error)
+    }
+
+    const result = await requestTerraCycleLabel(userId, validation.data)
+    if (!result.success) {
+      return conflictResponse(result.error)
+    }
+
+    return successResponse(result.submission, undefined, 201)
+  } catch (error) {
+    logger.error('Failed to request TerraCycle label', error)
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * TerraCycle Submission Admin API Routes
+ *
+ * PATCH /api/terracycle/submissions/[id] - Advance a recycling shipment (admin)
+ *
+ * @module app/api/terracycle/submissions/[id]/route
+ */
+
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { validateCsrfToken } from '@/lib/csrf'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  conflictResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { withAuditLog } from '@/lib/audit-log'
+import { advanceTerraCycleSubmission } from '@/lib/terracycle'
+import { AdvanceTerraCycleSchema } from '@/lib/validations/terracycle'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+async function authorizeAdmin(request: Request) {
+  const csrfValid = await validateCsrfToken(request)
+  if (!csrfValid) {
+    return {
+      response: errorResponse(
+        'Invalid or missing CSRF token',
+        'CSRF_VALIDATION_FAILED',
+        undefined,
+        403
+      ),
+    }
+  }
+
+  const { userId } = await getServerAuth()
+
+  if (!userId) {
+    return { response: unauthorizedResponse('You must be logged in') }
+  }
+
+  const isAdmin = await requireRole(userId, ['ADMIN'])
+  if (!isAdmin) {
+    return { response: forbiddenResponse('Admin access required') }
+  }
+
+  const identifier = getIdentifier(request, userId)
+  const { success, reset } = await checkRateLimit(identifier)
+
+  if (!success) {
+    return { response: rateLimitErrorResponse(reset) }
+  }
+
+  return { userId }
+}
+
+/**
+ * PATCH /api/terracycle/submissions/[id]
+ * Attach the shipping label (LABEL_SENT), record arrival (RECEIVED) or
+ * record the processed weight and materials (PROCESSED). Processing adds
+ * the shipment to the customer's recycling stats and awards their points.
+ */
+export const PATCH = withAuditLog(
+  { action: 'terracycle_submission.update', entityType: 'TerraCycleSubmission' },
+  async (request: Request, context: RouteContext, audit) => {
+    try {
+      const auth = await authorizeAdmin(request)
+      if (auth.response) {
+        return auth.response
+      }
+
+      const { id } = await context.params
+
+      const body = await request.json()
+      const validation = AdvanceTerraCycleSchema.safeParse(body)
+
+      if (!validation.success) {
+        return validationErrorResponse(validation.error)
+      }
+
+      const result = await advanceTerraCycleSubmission(id, validation.data)
+
+      if (!result.success) {
+        if (result.code === 'NOT_FOUND') {
+          return notFoundResponse('Recycling shipment')
+        }
+        if (result.code === 'INVALID_TRANSITION') {
+          return conflictResponse(result.error)
+        }
+        return errorResponse(result.error, 'BAD_REQUEST', undefined, 400)
+      }
+
+      audit.entityId = id
+      audit.before = result.before
+      audit.after = result.submission
+
+      logger.info('TerraCycle submission advanced', {
+        submissionId: id,
+        status: result.submission.status,
+        adminUserId: auth.userId,
+      })
+
+      return successResponse(result.submission)
+    } catch (error) {
+      logger.error('Failed to update TerraCycle submission', error)
+      return handleApiError(error)
+    }
+  }
+)
@@ -0,0 +1,76 @@
+/**
+ * TerraCycle Submissions Admin API Routes
+ *
+ * GET /api/terracycle/submissions - List recycling shipments (admin)
+ *
+ * @module app/api/terracycle/submissions/route
+ */
+
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  unauthorizedResponse,
+  forbiddenResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  paginatedResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { calculatePaginationMeta } from '@/lib/api/pagination'
+import { logger } from '@/lib/logger'
+import { listTerraCycleSubmissions } from '@/lib/terracycle'
+import { TerraCycleListQuerySchema } from '@/lib/validations/terracycle'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/terracycle/submissions
+ * List submissions oldest first, optionally filtered by status (e.g.
+ * `?status=RECEIVED` for the shipments waiting to be processed).
+ * Requires ADMIN role.
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await getServerAuth()
+
+    if (!userId) {
+      return unauthorizedResponse('You must be logged in')
+    }
+
+    const isAdmin = await requireRole(userId, ['ADMIN'])
+    if (!isAdmin) {
+      return forbiddenResponse('Admin access required')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const url = new URL(request.url)
+    const validation = TerraCycleListQuerySchema.safeParse(
+      Object.fromEntries(
+        Array.from(url.searchParams.entries()).filter(([, value]) => value.trim() !== '')
+      )
+    )
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error)
+    }
+
+    const { status, page, limit } = validation.data
+
+    const { submissions, total } = await listTerraCycleSubmissions({
+      status,
+      skip: (page - 1) * limit,
+      take: limit,
+    })
+
+    return paginatedResponse(submissions, calculatePaginationMeta(total, page, limit))
+  } catch (error) {
+    logger.error('Failed to list TerraCycle submissions', error)
+    return handleApiError(error)
+  }
+}
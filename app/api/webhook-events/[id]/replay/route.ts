@@ -0,0 +1,91 @@
+/**
+ * Stripe Webhook Event Replay API Route
+ *
+ * POST /api/webhook-events/[id]/replay - Reprocess a stored event (admin)
+ *
+ * @module app/api/webhook-events/[id]/replay/route
+ */
+
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { validateCsrfToken } from '@/lib/csrf'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { withAuditLog } from '@/lib/audit-log'
+import { runDueJobsAfterResponse } from '@/lib/job-handlers'
+import { replayWebhookEvent } from '@/lib/stripe-webhook-events'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/webhook-events/[id]/replay
+ * Runs the stored event through the same handler as the webhook route,
+ * whatever its status. Handlers skip work that is already done, so
+ * replaying a processed event is safe. A failed replay is recorded on the
+ * event and returned as a 502.
+ * Requires ADMIN role.
+ */
+export const POST = withAuditLog(
+  { action: 'stripeWebhookEvent.replay', entityType: 'StripeWebhookEvent' },
+  async (request: Request, context: RouteContext, audit) => {
+    try {
+      const csrfValid = await validateCsrfToken(request)
+      if (!csrfValid) {
+        return errorResponse('Invalid or missing CSRF token', 'CSRF_VALIDATION_FAILED', undefined, 403)
+      }
+
+      const { userId } = await getServerAuth()
+
+      if (!userId) {
+        return unauthorizedResponse('You must be logged in')
+      }
+
+      const isAdmin = await requireRole(userId, ['ADMIN'])
+      if (!isAdmin) {
+        return forbiddenResponse('Admin access required')
+      }
+
+      const identifier = getIdentifier(request, userId)
+      const { success, reset } = await checkRateLimit(identifier)
+
+      if (!success) {
+        return rateLimitErrorResponse(reset)
+      }
+
+      const { id } = await context.params
+      const result = await replayWebhookEvent(id)
+
+      if (!result.success) {
+        if (result.code === 'NOT_FOUND') {
+          return notFoundResponse('Webhook event')
+        }
+        return errorResponse(result.error, 'WEBHOOK_REPLAY_FAILED', undefined, 502)
+      }
+
+      runDueJobsAfterResponse({ webhookEventId: id })
+
+      audit.entityId = id
+      audit.before = { status: result.previousStatus }
+      audit.after = { status: result.status }
+
+      logger.info('Webhook event replayed by admin', { id, adminUserId: userId })
+
+      return successResponse({ id, status: result.status })
+    } catch (error) {
+      logger.error('Failed to replay webhook event', error)
+      return handleApiError(error)
+    }
+  }
+)
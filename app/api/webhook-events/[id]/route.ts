@@ -0,0 +1,65 @@
+/**
+ * Stripe Webhook Event Detail API Route
+ *
+ * GET /api/webhook-events/[id] - Get a stored event with its payload (admin)
+ *
+ * @module app/api/webhook-events/[id]/route
+ */
+
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  successResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  rateLimitErrorResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { logger } from '@/lib/logger'
+import { getWebhookEvent } from '@/lib/stripe-webhook-events'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/webhook-events/[id]
+ * Returns the event as Stripe sent it, with its processing history.
+ * Requires ADMIN role.
+ */
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const { userId } = await getServerAuth()
+
+    if (!userId) {
+      return unauthorizedResponse('You must be logged in')
+    }
+
+    const isAdmin = await requireRole(userId, ['ADMIN'])
+    if (!isAdmin) {
+      return forbiddenResponse('Admin access required')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const { id } = await context.params
+    const event = await getWebhookEvent(id)
+
+    if (!event) {
+      return notFoundResponse('Webhook event')
+    }
+
+    return successResponse(event)
+  } catch (error) {
+    logger.error('Failed to get webhook event', error)
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Stripe Webhook Event Admin API Routes
+ *
+ * GET /api/webhook-events - List stored Stripe webhook events (admin)
+ *
+ * @module app/api/webhook-events/route
+ */
+
+import { z } from 'zod'
+import { getServerAuth, requireRole } from '@/lib/auth'
+import { checkRateLimit, getIdentifier } from '@/lib/rate-limit'
+import {
+  unauthorizedResponse,
+  forbiddenResponse,
+  validationErrorResponse,
+  rateLimitErrorResponse,
+  paginatedResponse,
+  handleApiError,
+} from '@/lib/api-response'
+import { calculatePaginationMeta } from '@/lib/api/pagination'
+import { logger } from '@/lib/logger'
+import { WEBHOOK_EVENT_CONFIG, listWebhookEvents } from '@/lib/stripe-webhook-events'
+
+export const dynamic = 'force-dynamic'
+
+const queryParamsSchema = z.object({
+  page: z.coerce.number().int().min(1).max(10000).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  status: z.nativeEnum(WEBHOOK_EVENT_CONFIG.STATUS).optional(),
+  endpoint: z.enum(WEBHOOK_EVENT_CONFIG.ENDPOINTS).optional(),
+  type: z.string().max(100).optional(),
+  eventId: z.string().max(255).optional(),
+})
+
+/**
+ * GET /api/webhook-events
+ * List stored events, newest first, without payloads. Supports filtering by
+ * status, endpoint, event type and Stripe event ID.
+ * Requires ADMIN role.
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await getServerAuth()
+
+    if (!userId) {
+      return unauthorizedResponse('You must be logged in')
+    }
+
+    const isAdmin = await requireRole(userId, ['ADMIN'])
+    if (!isAdmin) {
+      return forbiddenResponse('Admin access required')
+    }
+
+    const identifier = getIdentifier(request, userId)
+    const { success, reset } = await checkRateLimit(identifier)
+
+    if (!success) {
+      return rateLimitErrorResponse(reset)
+    }
+
+    const url = new URL(request.url)
+    const validation = queryParamsSchema.safeParse(
+      Object.fromEntries(
+        Array.from(url.searchParams.entries()).filter(([, value]) => value.trim() !== '')
+      )
+    )
+
+    if (!validation.success) {
+      return validationErrorResponse(validation.error)
+    }
+
+    const { page, limit, ...filters } = validation.data
+
+    const { events, total } = await listWebhookEvents(filters, {
+      skip: (page - 1) * limit,
+      take: limit,
+    })
+
+    return paginatedResponse(events, calculatePaginationMeta(total, page, limit))
+  } catch (error) {
+    logger.error('Failed to list webhook events', error)
+    return handleApiError(error)
+  }
+}
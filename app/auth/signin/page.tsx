@@ -8,14 +8,27 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { OAuthButtons } from "@/components/authentication/oauth-buttons";
+
+// Reasons an OAuth sign-in was refused (see lib/oauth-accounts)
+const OAUTH_ERROR_MESSAGES: Record<string, string> = {
+  OAuthAccountNotLinked:
+    "An account already exists with this email. Sign in with your password, then connect this provider from your account settings.",
+  OAuthAccountInUse: "That provider account is already connected to a different Link Flame account.",
+  OAuthEmailRequired: "Your provider did not share an email address, so we couldn't create an account.",
+  TwoFactorRequired: "Your account uses two-factor authentication. Please sign in with your password.",
+};
 
 function SignInForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const callbackUrl = searchParams.get("callbackUrl") || "/";
+  const oauthError = OAUTH_ERROR_MESSAGES[searchParams.get("error") ?? ""];
 
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [needsCode, setNeedsCode] = useState(false);
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
 
@@ -28,10 +41,16 @@ function SignInForm() {
       const result = await signIn("credentials", {
         email,
         password,
+        ...(needsCode ? { code } : {}),
         redirect: false,
       });
 
-      if (result?.error) {
+      if (result?.code === "two_factor_required") {
+        // Password matched; ask for the authenticator code
+        setNeedsCode(true);
+      } else if (result?.code === "invalid_two_factor_code") {
+        setError("Invalid authentication code");
+      } else if (result?.error) {
         setError("Invalid email or password");
       } else {
         router.push(callbackUrl);
@@ -54,6 +73,11 @@ function SignInForm() {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {oauthError && !error && (
+            <div className="mb-4 rounded bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950/40 dark:text-red-400">
+              {oauthError}
+            </div>
+          )}
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="email">Email</Label>
@@ -79,6 +103,24 @@ function SignInForm() {
                 disabled={loading}
               />
             </div>
+            {needsCode && (
+              <div className="space-y-2">
+                <Label htmlFor="code">Authentication Code</Label>
+                <Input
+                  id="code"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  autoFocus
+                  disabled={loading}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                </p>
+              </div>
+            )}
             {error && (
               <div className="rounded bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950/40 dark:text-red-400">
                 {error}
@@ -90,9 +132,14 @@ function SignInForm() {
               </Link>
             </div>
             <Button type="submit" className="w-full" disabled={loading}>
-              {loading ? "Signing in..." : "Sign In"}
+              {loading ? "Signing in..." : needsCode ? "Verify" : "Sign In"}
             </Button>
           </form>
+          {!needsCode && (
+            <div className="mt-4">
+              <OAuthButtons callbackUrl={callbackUrl} />
+            </div>
+          )}
           <div className="mt-4 text-center text-sm">
             Don&apos;t have an account?{" "}
             <Link href="/auth/signup" className="text-primary hover:underline">
@@ -8,6 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { OAuthButtons } from "@/components/authentication/oauth-buttons";
 import { Gift } from "lucide-react";
 
 export default function SignUpPage() {
@@ -19,7 +20,6 @@ export default function SignUpPage() {
   const [confirmPassword, setConfirmPassword] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
-  const [bonusAwarded, setBonusAwarded] = useState<{ points: number; message: string } | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -66,15 +66,6 @@ export default function SignUpPage() {
         return;
       }
 
-      // Check if bonus points were awarded
-      const bonusWasAwarded = data.loyaltyBonus?.awarded;
-      if (bonusWasAwarded) {
-        setBonusAwarded({
-          points: data.loyaltyBonus.points,
-          message: data.loyaltyBonus.message,
-        });
-      }
-
       // Auto sign in after successful registration
       const result = await signIn("credentials", {
         email,
@@ -86,9 +77,8 @@ export default function SignUpPage() {
         setError("Account created but sign in failed. Please try signing in.");
         setLoading(false);
       } else {
-        // Redirect with welcome bonus parameter if points were awarded
-        const redirectUrl = bonusWasAwarded ? `/?welcome=true&bonus=${data.loyaltyBonus.points}` : "/";
-        router.push(redirectUrl);
+        // The welcome bonus is awarded once the email address is verified
+        router.push("/auth/verify-email");
         router.refresh();
       }
     } catch (err) {
@@ -109,7 +99,7 @@ export default function SignUpPage() {
           <div className="mt-3 flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-700 dark:border-green-900/50 dark:bg-green-950/40 dark:text-green-300">
             <Gift className="size-5 shrink-0" />
             <span>
-              <strong>Earn 200 points</strong> when you sign up! Start saving on your eco-friendly purchases.
+              <strong>Earn 200 points</strong> when you sign up and verify your email! Start saving on your eco-friendly purchases.
             </span>
           </div>
         </CardHeader>
@@ -174,6 +164,9 @@ export default function SignUpPage() {
               {loading ? "Creating account..." : "Create Account"}
             </Button>
           </form>
+          <div className="mt-4">
+            <OAuthButtons callbackUrl="/" />
+          </div>
           <div className="mt-4 text-center text-sm">
             Already have an account?{" "}
             <Link href="/auth/signin" className="text-primary hover:underline">
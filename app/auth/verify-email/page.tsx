@@ -0,0 +1,228 @@
+"use client"
+
+import { useState, Suspense, useEffect, useCallback, useRef } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { useSession } from "next-auth/react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+async function fetchCsrfToken(): Promise<string | null> {
+  try {
+    const response = await fetch("/api/csrf")
+    const data = await response.json()
+    return typeof data?.token === "string" ? data.token : null
+  } catch {
+    // CSRF fetch failures surface as request failure on submit.
+    return null
+  }
+}
+
+function ResendVerificationForm() {
+  const { data: session } = useSession()
+  const [email, setEmail] = useState("")
+  const [message, setMessage] = useState("")
+  const [error, setError] = useState("")
+  const [loading, setLoading] = useState(false)
+
+  const isSignedIn = !!session?.user
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    setMessage("")
+    setLoading(true)
+
+    try {
+      const csrfToken = await fetchCsrfToken()
+      const response = await fetch("/api/auth/verify-email/resend", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
+        },
+        body: JSON.stringify(isSignedIn ? {} : { email }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Something went wrong")
+      }
+
+      setMessage(data.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred. Please try again.")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {!isSignedIn && (
+        <div className="space-y-2">
+          <Label htmlFor="email">Email</Label>
+          <Input
+            id="email"
+            type="email"
+            placeholder="you@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            disabled={loading}
+          />
+        </div>
+      )}
+      {message && (
+        <div className="rounded bg-green-50 p-3 text-sm text-green-700 dark:bg-green-950/40 dark:text-green-300">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="rounded bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950/40 dark:text-red-400">
+          {error}
+        </div>
+      )}
+      <Button type="submit" variant="outline" className="w-full" disabled={loading}>
+        {loading ? "Sending..." : "Resend Verification Email"}
+      </Button>
+    </form>
+  )
+}
+
+function VerifyEmailContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams.get("token")
+
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">("verifying")
+  const [error, setError] = useState("")
+  const [bonusPoints, setBonusPoints] = useState<number | null>(null)
+  const requested = useRef(false)
+
+  const verify = useCallback(async (verificationToken: string) => {
+    try {
+      const csrfToken = await fetchCsrfToken()
+      const response = await fetch("/api/auth/verify-email", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
+        },
+        body: JSON.stringify({ token: verificationToken }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Something went wrong")
+      }
+
+      setBonusPoints(data.loyaltyBonus?.awarded ? data.loyaltyBonus.points : null)
+      setStatus("verified")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred. Please try again.")
+      setStatus("failed")
+    }
+  }, [])
+
+  useEffect(() => {
+    // Tokens are single-use, so verify once even if the effect re-runs
+    if (token && !requested.current) {
+      requested.current = true
+      verify(token)
+    }
+  }, [token, verify])
+
+  if (!token) {
+    return (
+      <div className="container flex min-h-[calc(100vh-200px)] items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Check Your Inbox</CardTitle>
+            <CardDescription>
+              We sent you a link to verify your email address. Verify it to claim your welcome bonus,
+              earn referral rewards and post reviews.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="mb-4 text-sm text-muted-foreground">
+              Didn&apos;t get the email? Check your spam folder or send a new link.
+            </p>
+            <ResendVerificationForm />
+            <div className="mt-4 text-center text-sm">
+              <Link href="/" className="text-primary hover:underline">
+                Continue shopping
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (status === "verifying") {
+    return (
+      <div className="container flex min-h-[calc(100vh-200px)] items-center justify-center">
+        Verifying your email...
+      </div>
+    )
+  }
+
+  if (status === "verified") {
+    return (
+      <div className="container flex min-h-[calc(100vh-200px)] items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Email Verified</CardTitle>
+            <CardDescription>
+              Your email address has been verified. Thanks for joining Link Flame!
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button
+              className="w-full"
+              onClick={() => router.push(bonusPoints ? `/?welcome=true&bonus=${bonusPoints}` : "/")}
+            >
+              Start Shopping
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container flex min-h-[calc(100vh-200px)] items-center justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Verification Failed</CardTitle>
+          <CardDescription>{error}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResendVerificationForm />
+          <div className="mt-4 text-center text-sm">
+            <Link href="/auth/signin" className="text-primary hover:underline">
+              Back to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense fallback={
+      <div className="container flex min-h-[calc(100vh-200px)] items-center justify-center">
+        Loading...
+      </div>
+    }>
+      <VerifyEmailContent />
+    </Suspense>
+  )
+}
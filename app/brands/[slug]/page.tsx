@@ -34,11 +34,8 @@ async function getBrand(slug: string) {
           isVegan: true,
           isCrueltyFree: true,
           isOrganicCertified: true,
-          reviews: {
-            select: {
-              rating: true,
-            },
-          },
+          averageRating: true,
+          reviewCount: true,
         },
         orderBy: [
           { featured: 'desc' },
@@ -61,11 +58,7 @@ async function getBrand(slug: string) {
       ...product,
       price: Number(product.price),
       salePrice: product.salePrice ? Number(product.salePrice) : null,
-      averageRating:
-        product.reviews.length > 0
-          ? product.reviews.reduce((sum, r) => sum + r.rating, 0) / product.reviews.length
-          : null,
-      reviewCount: product.reviews.length,
+      averageRating: product.reviewCount > 0 ? product.averageRating : null,
     })),
   }
 
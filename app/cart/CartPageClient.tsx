@@ -40,8 +40,19 @@ const CartItemRow = memo(({
   saveForLater
 }: { 
   item: CartItem; 
-  updateQuantity: (id: string, quantity: number) => void; 
-  removeItem: (id: string, variantId?: string | null, cartItemId?: string) => void;
+  updateQuantity: (
+    id: string,
+    quantity: number,
+    variantId?: string | null,
+    imperfectBatchId?: string | null
+  ) => void; 
+  removeItem: (
+    id: string,
+    variantId?: string | null,
+    cartItemId?: string,
+    bundleSelectionId?: string | null,
+    imperfectBatchId?: string | null
+  ) => void;
   saveForLater: (item: CartItem) => void;
 }) => {
   const [isUpdating, setIsUpdating] = useState(false);
@@ -50,7 +61,7 @@ const CartItemRow = memo(({
   const handleSaveForLater = () => {
     setIsSaving(true);
     saveForLater(item);
-    removeItem(item.id, item.variantId ?? null, item.cartItemId);
+    removeItem(item.id, item.variantId ?? null, item.cartItemId, null, item.imperfectBatchId ?? null);
     // Reset saving state after a short delay
     setTimeout(() => setIsSaving(false), 600);
   };
@@ -72,6 +83,13 @@ const CartItemRow = memo(({
       </div>
       <div className="flex-1 space-y-1">
         <h3 className="font-medium">{item.title}</h3>
+        {item.imperfectBatch && (
+          <p className="text-sm text-amber-700 dark:text-amber-400">
+            {item.imperfectBatch.available
+              ? `Imperfect: ${item.imperfectBatch.reason}`
+              : "This imperfect batch is no longer available. Remove it to check out."}
+          </p>
+        )}
         <div className="flex items-center space-x-2">
           <label htmlFor={`quantity-${item.id}`} className="text-sm font-medium">
             Quantity:
@@ -92,7 +110,7 @@ const CartItemRow = memo(({
                 const quantity = parseInt(e.target.value);
                 if (quantity >= 1 && quantity <= 99) {
                   setIsUpdating(true);
-                  updateQuantity(item.id, quantity);
+                  updateQuantity(item.id, quantity, item.variantId ?? null, item.imperfectBatchId ?? null);
                   // Reset updating state after a short delay
                   setTimeout(() => setIsUpdating(false), 600);
                 }
@@ -100,7 +118,14 @@ const CartItemRow = memo(({
             />
           )}
         </div>
-        <p className="font-medium">{formatPrice(item.price)} each</p>
+        <p className="font-medium">
+          {formatPrice(item.price)} each
+          {item.imperfectBatch && item.originalPrice !== undefined && item.originalPrice > item.price && (
+            <span className="ml-2 text-sm text-muted-foreground line-through">
+              {formatPrice(item.originalPrice)}
+            </span>
+          )}
+        </p>
         <p className="text-sm text-muted-foreground">
           Subtotal: {formatPrice(item.price * item.quantity)}
         </p>
@@ -109,7 +134,9 @@ const CartItemRow = memo(({
         <Button
           variant="ghost"
           size="sm"
-          onClick={() => removeItem(item.id, item.variantId ?? null, item.cartItemId)}
+          onClick={() =>
+            removeItem(item.id, item.variantId ?? null, item.cartItemId, null, item.imperfectBatchId ?? null)
+          }
           aria-label="Remove item"
           className="h-8 px-2"
         >
@@ -188,12 +215,114 @@ const CartItemRow = memo(({
 
 CartItemRow.displayName = "CartItemRow";
 
+// Lines added together as a bundle. They are priced as a bundle, so their
+// quantities are fixed; removing one line ends the discount for the rest.
+const BundleCartGroup = memo(({
+  items,
+  removeItem,
+  removeBundle,
+}: {
+  items: CartItem[];
+  removeItem: (
+    id: string,
+    variantId?: string | null,
+    cartItemId?: string,
+    bundleSelectionId?: string | null
+  ) => void;
+  removeBundle: (bundleSelectionId: string) => void;
+}) => {
+  const bundle = items[0].bundle;
+  const bundleSelectionId = items[0].bundleSelectionId;
+  const total = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const originalTotal = items.reduce(
+    (sum, item) => sum + (item.originalPrice ?? item.price) * item.quantity,
+    0
+  );
+
+  return (
+    <div data-testid="cart-bundle" className="rounded-lg border p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-medium">{bundle?.title ?? "Bundle"}</h3>
+          {bundle && bundle.discountPercent > 0 ? (
+            <p className="text-sm text-green-700 dark:text-green-400">
+              Bundle price: {formatPrice(total)}{" "}
+              <span className="text-muted-foreground line-through">{formatPrice(originalTotal)}</span>{" "}
+              (save {bundle.discountPercent}%)
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              The bundle discount is no longer available for these items.
+            </p>
+          )}
+          <p className="mt-1 text-xs text-muted-foreground">
+            Removing an item ends the bundle discount for the rest.
+          </p>
+        </div>
+        {bundleSelectionId && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => removeBundle(bundleSelectionId)}
+            className="h-8 px-2 text-xs"
+          >
+            Remove bundle
+          </Button>
+        )}
+      </div>
+      <ul className="mt-3 divide-y">
+        {items.map((item) => (
+          <li
+            key={item.cartItemId ?? item.id}
+            data-testid="cart-item"
+            className="flex items-center gap-4 py-3"
+          >
+            <div className="relative size-16 overflow-hidden rounded-md">
+              <Image
+                src={item.image}
+                alt={item.title}
+                fill
+                className="object-cover"
+                sizes="64px"
+              />
+            </div>
+            <div className="flex-1 space-y-1">
+              <p className="font-medium">{item.title}</p>
+              <p className="text-sm text-muted-foreground">Quantity: {item.quantity}</p>
+            </div>
+            <p className="font-medium">{formatPrice(item.price * item.quantity)}</p>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                removeItem(item.id, item.variantId ?? null, item.cartItemId, item.bundleSelectionId)
+              }
+              aria-label={`Remove ${item.title} from bundle`}
+              className="h-8 px-2 text-xs"
+            >
+              Remove
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
+
+BundleCartGroup.displayName = "BundleCartGroup";
+
+interface ShippingEstimate {
+  name: string;
+  amount: number;
+}
+
 export default function CartPageClient() {
   const router = useRouter();
   const { data: session, status } = useSession();
   const {
     cart,
     removeItem,
+    removeBundle,
     updateQuantity,
     isLoading,
     cartTotal,
@@ -204,11 +333,49 @@ export default function CartPageClient() {
 
   const items = cart.items || [];
 
+  // Bundle lines are shown together, one group per bundle
+  const plainItems = items.filter((item) => !item.bundleSelectionId);
+  const bundleGroups = new Map<string, CartItem[]>();
+  for (const item of items) {
+    if (item.bundleSelectionId) {
+      bundleGroups.set(item.bundleSelectionId, [
+        ...(bundleGroups.get(item.bundleSelectionId) ?? []),
+        item,
+      ]);
+    }
+  }
+  const [shippingEstimate, setShippingEstimate] = useState<ShippingEstimate | null>(null);
+
   // Fetch cart items when the page loads
   useEffect(() => {
     fetchCartItems();
   }, [fetchCartItems]);
 
+  // Re-quote shipping whenever the cart contents change. The cheapest option is
+  // what checkout preselects, so it is the one shown as the estimate here.
+  const cartSignature = items.map((item) => `${item.id}:${item.quantity}`).join(",");
+  useEffect(() => {
+    // The summary is only rendered for a non-empty cart
+    if (!cartSignature) return;
+
+    let cancelled = false;
+
+    fetch("/api/shipping/quote")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((responseData) => {
+        if (cancelled) return;
+        const options: ShippingEstimate[] = responseData?.data?.options ?? [];
+        setShippingEstimate(options[0] ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setShippingEstimate(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cartSignature]);
+
   // Note: Guest users can view cart but will need to sign in at checkout
   // This allows cart persistence for guests which improves conversion
 
@@ -246,9 +413,17 @@ export default function CartPageClient() {
             <div className="grid gap-8 lg:grid-cols-12">
               <div className="lg:col-span-8">
                 <div className="space-y-4">
-                  {items.map((item: CartItem) => (
+                  {Array.from(bundleGroups, ([bundleSelectionId, bundleItems]) => (
+                    <BundleCartGroup
+                      key={bundleSelectionId}
+                      items={bundleItems}
+                      removeItem={removeItem}
+                      removeBundle={removeBundle}
+                    />
+                  ))}
+                  {plainItems.map((item: CartItem) => (
                     <CartItemRow 
-                      key={item.id}
+                      key={item.cartItemId ?? item.id}
                       item={item}
                       updateQuantity={updateQuantity}
                       removeItem={removeItem}
@@ -267,15 +442,32 @@ export default function CartPageClient() {
                     </div>
                     <div className="flex items-center justify-between">
                       <span>Shipping</span>
-                      <span className="text-sm text-muted-foreground">
-                        Calculated at checkout
-                      </span>
+                      {shippingEstimate ? (
+                        <span className="text-right">
+                          <span className="font-medium">
+                            {shippingEstimate.amount === 0
+                              ? "Free"
+                              : formatPrice(shippingEstimate.amount)}
+                          </span>
+                          <span className="block text-xs text-muted-foreground">
+                            {shippingEstimate.name}
+                          </span>
+                        </span>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">
+                          Calculated at checkout
+                        </span>
+                      )}
                     </div>
                     {/* Carbon-neutral shipping line */}
                     <CarbonNeutralShippingLine />
                     <div className="flex items-center justify-between border-t pt-4">
                       <span className="text-lg font-medium">Total</span>
-                      <span className="text-lg font-bold">{cartTotal.formatted}</span>
+                      <span className="text-lg font-bold">
+                        {shippingEstimate
+                          ? formatPrice(cartTotal.raw + shippingEstimate.amount)
+                          : cartTotal.formatted}
+                      </span>
                     </div>
                     <div className="border-t pt-4">
                       <ErrorBoundary>
@@ -30,10 +30,11 @@ export default function CheckoutPage() {
   const [discounts, setDiscounts] = useState<CheckoutDiscountState>(
     DEFAULT_CHECKOUT_DISCOUNT_STATE
   );
+  const [carbonOffsetPrice, setCarbonOffsetPrice] = useState(0);
 
   const items = cart.items || [];
   const totalDiscount = discounts.totalDiscount || 0;
-  const discountedSubtotal = Math.max(0, cartTotal.raw - totalDiscount);
+  const discountedSubtotal = Math.max(0, cartTotal.raw - totalDiscount) + carbonOffsetPrice;
 
   // Fetch cart items when the page loads
   useEffect(() => {
@@ -89,7 +90,10 @@ export default function CheckoutPage() {
             {/* Checkout Form - Left Side */}
             <div className="lg:col-span-7">
               <ErrorBoundary>
-                <CheckoutForm onDiscountChange={setDiscounts} />
+                <CheckoutForm
+                  onDiscountChange={setDiscounts}
+                  onCarbonOffsetChange={setCarbonOffsetPrice}
+                />
               </ErrorBoundary>
             </div>
             
@@ -133,6 +137,12 @@ export default function CheckoutPage() {
                     <span>Subtotal</span>
                     <span className="font-medium">{cartTotal.formatted}</span>
                   </div>
+                  {discounts.promoDiscountAmount > 0 && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span>Promo code{discounts.promoCode ? ` (${discounts.promoCode})` : ""}</span>
+                      <span>-{formatPrice(discounts.promoDiscountAmount)}</span>
+                    </div>
+                  )}
                   {discounts.loyaltyDiscountAmount > 0 && (
                     <div className="flex items-center justify-between text-sm">
                       <span>Loyalty discount</span>
@@ -148,11 +158,17 @@ export default function CheckoutPage() {
                   <div className="flex items-center justify-between">
                     <span>Shipping</span>
                     <span className="text-sm text-muted-foreground">
-                      Calculated at checkout
+                      {discounts.promoFreeShipping ? "Free standard shipping" : "Calculated at checkout"}
                     </span>
                   </div>
                   {/* Carbon-neutral shipping line */}
                   <CarbonNeutralShippingLine />
+                  {carbonOffsetPrice > 0 && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span>Carbon offset</span>
+                      <span>{formatPrice(carbonOffsetPrice)}</span>
+                    </div>
+                  )}
                   <div className="flex items-center justify-between border-t pt-4" data-testid="total">
                     <span className="text-lg font-medium">Total</span>
                     <span className="text-lg font-bold">{formatPrice(discountedSubtotal)}</span>
@@ -6,6 +6,7 @@ import FilterSidebar from '@/components/collections/FilterSidebar';
 import ProductGrid from '@/components/collections/ProductGrid';
 import { ValueFilterBar, ValueFilterSidebar, ActiveFilters } from '@/components/filters';
 import { useDebounce } from '@/lib/hooks/useDebounce';
+import type { RatingHistogram } from '@/lib/reviews';
 
 interface ProductValue {
   id: string;
@@ -22,7 +23,9 @@ interface Product {
   image: string;
   category: string;
   description?: string;
-  reviews: { rating: number }[];
+  averageRating: number;
+  reviewCount: number;
+  ratingHistogram: RatingHistogram;
   createdAt: Date;
   isSubscribable?: boolean;
   isImperfect?: boolean;
@@ -23,6 +23,7 @@ interface ImperfectProduct {
   totalSavings: number;
   imperfectReason?: string | null;
   imperfectReasonLabel?: string | null;
+  batches?: Array<{ id: string; quantity: number; reason: string; discountPercent: number; price: number }>;
   averageRating?: number | null;
   reviewCount?: number;
 }
@@ -0,0 +1,102 @@
+"use client"
+
+import { useState, Suspense, useEffect, useCallback, useRef } from "react"
+import { useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { buttonVariants } from "@/components/ui/button"
+
+async function fetchCsrfToken(): Promise<string | null> {
+  try {
+    const response = await fetch("/api/csrf")
+    const data = await response.json()
+    return typeof data?.token === "string" ? data.token : null
+  } catch {
+    // CSRF fetch failures surface as request failure on submit.
+    return null
+  }
+}
+
+function ConfirmSubscriptionContent() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get("token")
+
+  const [status, setStatus] = useState<"confirming" | "confirmed" | "failed">("confirming")
+  const [error, setError] = useState("")
+  const requested = useRef(false)
+
+  const confirm = useCallback(async (confirmationToken: string) => {
+    try {
+      const csrfToken = await fetchCsrfToken()
+      const response = await fetch("/api/newsletter/confirm", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
+        },
+        body: JSON.stringify({ token: confirmationToken }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || "Something went wrong")
+      }
+
+      setStatus("confirmed")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred. Please try again.")
+      setStatus("failed")
+    }
+  }, [])
+
+  useEffect(() => {
+    // Confirm from the browser rather than on GET so link scanners can't opt people in
+    if (token && !requested.current) {
+      requested.current = true
+      confirm(token)
+    }
+  }, [token, confirm])
+
+  if (token && status === "confirming") {
+    return (
+      <div className="container flex min-h-[calc(100vh-200px)] items-center justify-center">
+        Confirming your subscription...
+      </div>
+    )
+  }
+
+  const confirmed = token && status === "confirmed"
+
+  return (
+    <div className="container flex min-h-[calc(100vh-200px)] items-center justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{confirmed ? "You're Subscribed" : "Confirmation Failed"}</CardTitle>
+          <CardDescription>
+            {confirmed
+              ? "Thanks for confirming. Your first newsletter is on its way soon."
+              : error || "This confirmation link is missing its token."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link href="/" className={`${buttonVariants()} w-full`}>
+            Continue Shopping
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function ConfirmSubscriptionPage() {
+  return (
+    <Suspense fallback={
+      <div className="container flex min-h-[calc(100vh-200px)] items-center justify-center">
+        Loading...
+      </div>
+    }>
+      <ConfirmSubscriptionContent />
+    </Suspense>
+  )
+}
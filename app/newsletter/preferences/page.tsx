@@ -0,0 +1,197 @@
+"use client"
+
+import { useState, Suspense, useEffect } from "react"
+import { useSearchParams } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import type { NewsletterPreferences, NewsletterTopic } from "@/types/newsletter"
+
+const TOPIC_OPTIONS: { value: NewsletterTopic; label: string }[] = [
+  { value: "DEALS", label: "Deals and new arrivals" },
+  { value: "BLOG_DIGEST", label: "Blog digest" },
+  { value: "IMPACT_REPORTS", label: "Impact reports" },
+]
+
+async function fetchCsrfToken(): Promise<string | null> {
+  try {
+    const response = await fetch("/api/csrf")
+    const data = await response.json()
+    return typeof data?.token === "string" ? data.token : null
+  } catch {
+    // CSRF fetch failures surface as request failure on submit.
+    return null
+  }
+}
+
+function NewsletterPreferencesContent() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get("token")
+  const unsubscribeRequested = searchParams.get("unsubscribe") === "1"
+
+  const [preferences, setPreferences] = useState<NewsletterPreferences | null>(null)
+  const [topics, setTopics] = useState<NewsletterTopic[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState("")
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!token) {
+      setError("This link is missing its token.")
+      setLoading(false)
+      return
+    }
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/newsletter/preferences?token=${encodeURIComponent(token)}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error?.message || "Something went wrong")
+        }
+
+        setPreferences(data.data)
+        setTopics(data.data.status === "UNSUBSCRIBED" ? [] : data.data.topics)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred. Please try again.")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    load()
+  }, [token])
+
+  const save = async (selectedTopics: NewsletterTopic[]) => {
+    if (!token) return
+
+    setSaving(true)
+    setError("")
+    setMessage("")
+
+    try {
+      const csrfToken = await fetchCsrfToken()
+      const response = await fetch("/api/newsletter/preferences", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
+        },
+        body: JSON.stringify({ token, topics: selectedTopics }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || "Something went wrong")
+      }
+
+      setPreferences(data.data)
+      setTopics(data.data.topics)
+      setMessage(
+        data.data.status === "UNSUBSCRIBED"
+          ? "You have been unsubscribed from all newsletters."
+          : "Your preferences have been saved."
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred. Please try again.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleTopic = (topic: NewsletterTopic, checked: boolean) => {
+    setTopics((current) =>
+      checked ? [...current, topic] : current.filter((selected) => selected !== topic)
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="container flex min-h-[calc(100vh-200px)] items-center justify-center">
+        Loading your preferences...
+      </div>
+    )
+  }
+
+  const unsubscribed = preferences?.status === "UNSUBSCRIBED"
+
+  return (
+    <div className="container flex min-h-[calc(100vh-200px)] items-center justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Newsletter Preferences</CardTitle>
+          <CardDescription>
+            {preferences
+              ? unsubscribed
+                ? `${preferences.email} is unsubscribed. Choose topics to subscribe again.`
+                : `Choose what we send to ${preferences.email}.`
+              : error}
+          </CardDescription>
+        </CardHeader>
+        {preferences && (
+          <CardContent className="space-y-4">
+            {unsubscribeRequested && !unsubscribed && (
+              <p className="text-sm text-muted-foreground">
+                Want fewer emails instead? Untick the topics you don&apos;t need, or unsubscribe
+                from everything below.
+              </p>
+            )}
+            <div className="space-y-3">
+              {TOPIC_OPTIONS.map(({ value, label }) => (
+                <div key={value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`topic-${value}`}
+                    checked={topics.includes(value)}
+                    onCheckedChange={(checked) => toggleTopic(value, checked === true)}
+                    disabled={saving}
+                  />
+                  <Label htmlFor={`topic-${value}`}>{label}</Label>
+                </div>
+              ))}
+            </div>
+            {message && (
+              <div className="rounded bg-green-50 p-3 text-sm text-green-700 dark:bg-green-950/40 dark:text-green-300">
+                {message}
+              </div>
+            )}
+            {error && (
+              <div className="rounded bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950/40 dark:text-red-400">
+                {error}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => save(topics)} disabled={saving || topics.length === 0}>
+                {saving ? "Saving..." : "Save Preferences"}
+              </Button>
+              {!unsubscribed && (
+                <Button
+                  variant={unsubscribeRequested ? "destructive" : "outline"}
+                  onClick={() => save([])}
+                  disabled={saving}
+                >
+                  Unsubscribe From All
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  )
+}
+
+export default function NewsletterPreferencesPage() {
+  return (
+    <Suspense fallback={
+      <div className="container flex min-h-[calc(100vh-200px)] items-center justify-center">
+        Loading...
+      </div>
+    }>
+      <NewsletterPreferencesContent />
+    </Suspense>
+  )
+}
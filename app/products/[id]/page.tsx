@@ -2,14 +2,20 @@ import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
 import { cache } from 'react';
 import { prisma } from '@/lib/prisma';
+import { REVIEW_CONFIG } from '@/lib/reviews';
+import { withAvailableInventory } from '@/lib/inventory-reservations';
+import { getServerAuth } from '@/lib/auth';
+import { getUserLoyaltyTier, hasEarlyAccess, isInEarlyAccessWindow } from '@/lib/loyalty';
 import ProductDetails from '@/components/products/ProductDetails';
 
-// Cache the product fetch to avoid duplicate queries
+// Cache the product fetch to avoid duplicate queries.
+// Stock shown to shoppers excludes units held by open checkouts.
 const getProduct = cache(async (id: string) => {
-  return prisma.product.findUnique({
+  const product = await prisma.product.findUnique({
     where: { id },
     include: {
       reviews: {
+        where: { status: REVIEW_CONFIG.STATUS.APPROVED },
         select: { rating: true },
       },
       variants: {
@@ -37,6 +43,20 @@ const getProduct = cache(async (id: string) => {
       },
     },
   });
+
+  return product ? withAvailableInventory(product) : null;
+});
+
+// Early-access products stay hidden from tiers without the entitlement until
+// the window ends, as in the product listing
+const getVisibleProduct = cache(async (id: string) => {
+  const product = await getProduct(id);
+  if (!product || !isInEarlyAccessWindow(product)) {
+    return product;
+  }
+
+  const { userId } = await getServerAuth();
+  return hasEarlyAccess(await getUserLoyaltyTier(userId)) ? product : null;
 });
 
 // Generate metadata for SEO
@@ -46,7 +66,7 @@ export async function generateMetadata({
   params: Promise<{ id: string }>
 }): Promise<Metadata> {
   const { id } = await params;
-  const product = await getProduct(id);
+  const product = await getVisibleProduct(id);
 
   if (!product) {
     return {
@@ -82,7 +102,7 @@ interface ProductPageProps {
 
 export default async function ProductPage({ params }: ProductPageProps) {
   const { id } = await params;
-  const product = await getProduct(id);
+  const product = await getVisibleProduct(id);
 
   if (!product) {
     notFound();
@@ -274,9 +274,9 @@ export default function TerraCyclePage() {
           <div className="mx-auto mt-12 grid max-w-3xl gap-6 text-left md:grid-cols-3">
             {[
               {
-                title: "No Account Needed",
+                title: "Track Your Shipments",
                 description:
-                  "Guest users can also participate. Create an account to track your impact.",
+                  "Request labels from your account and follow each box until it's recycled.",
               },
               {
                 title: "Always Free",
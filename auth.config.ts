@@ -1,11 +1,13 @@
 import type { NextAuthConfig } from 'next-auth';
+import { getOAuthProviders } from '@/lib/oauth-providers';
 
 /**
  * Auth config shared between middleware (Edge Runtime) and server.
  *
  * IMPORTANT: This file runs in Edge Runtime (middleware), so it must NOT
  * import Prisma, bcrypt, or any Node.js-only modules. The Credentials
- * provider with database lookup lives in auth.ts (server-side only).
+ * provider with database lookup lives in auth.ts (server-side only), as does
+ * the account linking for the OAuth providers registered here.
  */
 export default {
   // Auth.js rejects any request whose Host it does not trust, and it only
@@ -21,7 +23,7 @@ export default {
   // NEXTAUTH_URL is what callback URLs are built from, so trusting the
   // forwarded host does not let an attacker redirect the flow elsewhere.
   trustHost: true,
-  providers: [],
+  providers: getOAuthProviders(),
   pages: {
     signIn: '/auth/signin',
     signOut: '/auth/signout',
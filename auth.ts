@@ -1,19 +1,89 @@
-import NextAuth from 'next-auth';
+import NextAuth, { CredentialsSignin } from 'next-auth';
 import Credentials from 'next-auth/providers/credentials';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
+import { verifyTwoFactorCode } from '@/lib/two-factor';
+import {
+  consumeLinkIntentCookie,
+  findLinkedUser,
+  resolveOAuthSignIn,
+} from '@/lib/oauth-accounts';
+import { awardSignupBonus } from '@/lib/loyalty';
+import { linkNewsletterSubscriber } from '@/lib/newsletter';
+import { logger } from '@/lib/logger';
 import authConfig from './auth.config';
 
 const credentialsSchema = z.object({
   email: z.string().email(),
   password: z.string().min(8),
+  code: z.string().max(32).optional(),
 });
 
+// Error codes reach the client as `result.code` from signIn(), so the sign-in
+// page knows to ask for the authenticator code. Both are only thrown after the
+// password has matched.
+class TwoFactorRequiredError extends CredentialsSignin {
+  code = 'two_factor_required';
+}
+
+class InvalidTwoFactorCodeError extends CredentialsSignin {
+  code = 'invalid_two_factor_code';
+}
+
 export const { handlers, auth, signIn, signOut } = NextAuth({
   session: { strategy: 'jwt' },
   callbacks: {
-    async jwt({ token, user }) {
+    async signIn({ user, account, profile }) {
+      if (!account || account.type === 'credentials') {
+        return true;
+      }
+
+      // OAuth: map the identity to a local user (see lib/oauth-accounts)
+      const result = await resolveOAuthSignIn(
+        {
+          provider: account.provider,
+          providerAccountId: account.providerAccountId,
+          email: user.email ?? null,
+          // GitHub only exposes verified addresses; OIDC providers say so
+          emailVerified: account.provider === 'github' || profile?.email_verified === true,
+          name: user.name ?? null,
+          image: user.image ?? null,
+        },
+        await consumeLinkIntentCookie()
+      );
+
+      if (!result.allowed) {
+        return `/auth/signin?error=${result.error}`;
+      }
+
+      if (result.created) {
+        try {
+          await awardSignupBonus(result.userId);
+          if (user.email) {
+            await linkNewsletterSubscriber(result.userId, user.email);
+          }
+        } catch (error) {
+          // Post-signup bookkeeping must not block sign-in
+          logger.error('Failed to finish OAuth sign-up', error);
+        }
+      }
+
+      return true;
+    },
+    async jwt({ token, user, account }) {
+      if (account && account.type !== 'credentials') {
+        const linkedUser = await findLinkedUser(account.provider, account.providerAccountId);
+        if (!linkedUser) {
+          return {};
+        }
+
+        token.role = linkedUser.role;
+        token.id = linkedUser.id;
+        token.tokenVersion = linkedUser.tokenVersion;
+        return token;
+      }
+
       if (user) {
         token.role = user.role;
         token.id = user.id as string;
@@ -61,6 +131,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
       credentials: {
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
+        code: { label: 'Authentication code', type: 'text' },
       },
       async authorize(credentials) {
         const validatedFields = credentialsSchema.safeParse(credentials);
@@ -69,7 +140,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
           return null;
         }
 
-        const { email, password } = validatedFields.data;
+        const { email, password, code } = validatedFields.data;
 
         const user = await prisma.user.findUnique({
           where: { email },
@@ -81,6 +152,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
             role: true,
             password: true,
             tokenVersion: true,
+            twoFactorEnabled: true,
           },
         });
 
@@ -94,6 +166,17 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
           return null;
         }
 
+        if (user.twoFactorEnabled) {
+          if (!code) {
+            throw new TwoFactorRequiredError();
+          }
+
+          const codeValid = await verifyTwoFactorCode(user.id, code);
+          if (!codeValid) {
+            throw new InvalidTwoFactorCodeError();
+          }
+        }
+
         return {
           id: user.id,
           email: user.email,
@@ -0,0 +1,231 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { signIn } from "next-auth/react"
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useOAuthProviders } from "@/components/authentication/oauth-buttons"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+
+interface LinkedAccount {
+  id: string
+  provider: string
+  email: string | null
+  createdAt: string
+}
+
+interface LinkedAccountsData {
+  accounts: LinkedAccount[]
+  hasPassword: boolean
+  twoFactorEnabled: boolean
+}
+
+interface LinkedAccountsSettingsProps {
+  csrfToken: string | null
+}
+
+export function LinkedAccountsSettings({ csrfToken }: LinkedAccountsSettingsProps) {
+  const providers = useOAuthProviders()
+  const [data, setData] = useState<LinkedAccountsData | null>(null)
+  const [linkingProvider, setLinkingProvider] = useState<string | null>(null)
+  const [password, setPassword] = useState("")
+  const [code, setCode] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  const fetchLinkedAccounts = useCallback(async () => {
+    try {
+      const response = await fetch("/api/account/linked-accounts")
+      if (!response.ok) {
+        throw new Error("Failed to fetch linked accounts")
+      }
+      const result = await response.json()
+      setData(result.data)
+    } catch {
+      toast.error("Failed to load connected accounts")
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchLinkedAccounts()
+  }, [fetchLinkedAccounts])
+
+  // Nothing to manage when no OAuth providers are configured
+  if (providers.length === 0) {
+    return null
+  }
+
+  const handleConnect = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!linkingProvider) return
+
+    setSubmitting(true)
+    try {
+      const response = await fetch("/api/account/linked-accounts/link", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
+        },
+        body: JSON.stringify({ provider: linkingProvider, password, code }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || "Failed to connect account")
+      }
+
+      // The provider redirects back here once the account is linked
+      await signIn(linkingProvider, { callbackUrl: "/account/settings" })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to connect account")
+      setSubmitting(false)
+    }
+  }
+
+  const handleDisconnect = async (account: LinkedAccount) => {
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/account/linked-accounts/${account.id}`, {
+        method: "DELETE",
+        headers: {
+          ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
+        },
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || "Failed to disconnect account")
+      }
+
+      toast.success("Account disconnected")
+      await fetchLinkedAccounts()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to disconnect account")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Connected Accounts</CardTitle>
+        <CardDescription>
+          Sign in with another provider instead of your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!data ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="size-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <ul className="divide-y rounded-md border">
+              {providers.map((provider) => {
+                const account = data.accounts.find((linked) => linked.provider === provider.id)
+
+                return (
+                  <li key={provider.id} className="flex items-center justify-between gap-4 p-4">
+                    <div className="text-sm">
+                      <p className="font-medium">{provider.name}</p>
+                      {account ? (
+                        <p className="text-muted-foreground">
+                          {account.email ?? "Connected"} · since{" "}
+                          {format(new Date(account.createdAt), "MMMM d, yyyy")}
+                        </p>
+                      ) : (
+                        <p className="text-muted-foreground">Not connected</p>
+                      )}
+                    </div>
+                    {account ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={submitting}
+                        onClick={() => handleDisconnect(account)}
+                      >
+                        Disconnect
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={submitting}
+                        onClick={() => setLinkingProvider(provider.id)}
+                      >
+                        Connect
+                      </Button>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+
+            {linkingProvider && (
+              <form onSubmit={handleConnect} className="space-y-4 rounded-md border p-4">
+                <p className="text-sm text-muted-foreground">
+                  Confirm it&apos;s you before connecting{" "}
+                  {providers.find((provider) => provider.id === linkingProvider)?.name}.
+                </p>
+                {data.hasPassword && (
+                  <div className="space-y-2">
+                    <Label htmlFor="linkPassword">Current Password</Label>
+                    <Input
+                      id="linkPassword"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Enter your current password"
+                    />
+                  </div>
+                )}
+                {data.twoFactorEnabled && (
+                  <div className="space-y-2">
+                    <Label htmlFor="linkCode">Authentication Code</Label>
+                    <Input
+                      id="linkCode"
+                      autoComplete="one-time-code"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      placeholder="Code from your app or a recovery code"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Accounts with two-factor authentication keep signing in with their password.
+                    </p>
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={submitting}>
+                    {submitting ? (
+                      <>
+                        <Loader2 className="mr-2 size-4 animate-spin" />
+                        Connecting...
+                      </>
+                    ) : (
+                      "Continue"
+                    )}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    disabled={submitting}
+                    onClick={() => setLinkingProvider(null)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { getProviders, signIn } from "next-auth/react"
+import { Button } from "@/components/ui/button"
+
+type OAuthProvider = { id: string; name: string }
+
+/**
+ * Loads the OAuth providers configured on the server (none by default).
+ */
+export function useOAuthProviders() {
+  const [providers, setProviders] = useState<OAuthProvider[]>([])
+
+  useEffect(() => {
+    getProviders()
+      .then((result) => {
+        setProviders(
+          Object.values(result ?? {})
+            .filter((provider) => provider.type !== "credentials")
+            .map(({ id, name }) => ({ id, name }))
+        )
+      })
+      .catch(() => {
+        // Without the provider list the password form still works
+      })
+  }, [])
+
+  return providers
+}
+
+interface OAuthButtonsProps {
+  callbackUrl: string
+}
+
+export function OAuthButtons({ callbackUrl }: OAuthButtonsProps) {
+  const providers = useOAuthProviders()
+
+  if (providers.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-xs uppercase text-muted-foreground">
+        <span className="h-px flex-1 bg-border" />
+        or continue with
+        <span className="h-px flex-1 bg-border" />
+      </div>
+      <div className="grid gap-2">
+        {providers.map((provider) => (
+          <Button
+            key={provider.id}
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => signIn(provider.id, { callbackUrl })}
+          >
+            {provider.name}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,292 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Image from "next/image"
+import { signOut } from "next-auth/react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "sonner"
+import { Loader2, ShieldAlert, ShieldCheck } from "lucide-react"
+
+interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+interface TwoFactorSetup {
+  secret: string
+  qrCodeDataUrl: string
+}
+
+interface TwoFactorSettingsProps {
+  csrfToken: string | null
+}
+
+export function TwoFactorSettings({ csrfToken }: TwoFactorSettingsProps) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [code, setCode] = useState("")
+  const [password, setPassword] = useState("")
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/account/two-factor")
+      if (!response.ok) {
+        throw new Error("Failed to fetch two-factor status")
+      }
+      const data = await response.json()
+      setStatus(data.data)
+    } catch {
+      toast.error("Failed to load two-factor settings")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  const post = async (path: string, body: Record<string, string> = {}) => {
+    const response = await fetch(`/api/account/two-factor${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
+      },
+      body: JSON.stringify(body),
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || "Request failed")
+    }
+
+    return data.data
+  }
+
+  const handleStartSetup = async () => {
+    setSubmitting(true)
+    try {
+      const data = await post("/setup")
+      setSetup({ secret: data.secret, qrCodeDataUrl: data.qrCodeDataUrl })
+      setCode("")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start setup")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    try {
+      const data = await post("/enable", { code })
+      setRecoveryCodes(data.recoveryCodes)
+      setSetup(null)
+      setCode("")
+      toast.success("Two-factor authentication enabled")
+      await fetchStatus()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to enable two-factor authentication")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleRegenerate = async () => {
+    if (!code) {
+      toast.error("Enter an authentication code first")
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const data = await post("/recovery-codes", { code })
+      setRecoveryCodes(data.recoveryCodes)
+      setCode("")
+      toast.success("New recovery codes generated")
+      await fetchStatus()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to generate recovery codes")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    try {
+      await post("/disable", { password, code })
+      toast.success("Two-factor authentication disabled. Please sign in again.")
+      // Disabling revokes every session, including this one
+      signOut({ callbackUrl: "/auth/signin" })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to disable two-factor authentication")
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when you sign in with your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading || !status ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="size-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            {status.required && !status.enabled && (
+              <div className="flex items-start gap-3 rounded-md bg-amber-50 p-4 text-sm text-amber-800 dark:bg-amber-950/40 dark:text-amber-200">
+                <ShieldAlert className="mt-0.5 size-5 shrink-0" />
+                <p>
+                  Your account role requires two-factor authentication. Set it up to access the
+                  admin dashboard.
+                </p>
+              </div>
+            )}
+
+            {recoveryCodes && (
+              <div className="space-y-3 rounded-md border p-4">
+                <p className="text-sm font-semibold">Save your recovery codes</p>
+                <p className="text-sm text-muted-foreground">
+                  Each code works once if you lose access to your authenticator app. They will not
+                  be shown again.
+                </p>
+                <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <li key={recoveryCode}>{recoveryCode}</li>
+                  ))}
+                </ul>
+                <Button variant="outline" size="sm" onClick={() => setRecoveryCodes(null)}>
+                  I&apos;ve saved these codes
+                </Button>
+              </div>
+            )}
+
+            {status.enabled ? (
+              <>
+                <div className="flex items-center gap-2 text-sm">
+                  <ShieldCheck className="size-5 text-green-600" />
+                  <span>
+                    Two-factor authentication is on. {status.recoveryCodesRemaining} recovery
+                    codes remaining.
+                  </span>
+                </div>
+
+                <form onSubmit={handleDisable} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="twoFactorCode">Authentication Code</Label>
+                    <Input
+                      id="twoFactorCode"
+                      autoComplete="one-time-code"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      placeholder="Code from your app or a recovery code"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="twoFactorPassword">Current Password</Label>
+                    <Input
+                      id="twoFactorPassword"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Required to turn two-factor off"
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={submitting}
+                      onClick={handleRegenerate}
+                    >
+                      New Recovery Codes
+                    </Button>
+                    <Button type="submit" variant="destructive" disabled={submitting || !code}>
+                      {submitting ? (
+                        <>
+                          <Loader2 className="mr-2 size-4 animate-spin" />
+                          Working...
+                        </>
+                      ) : (
+                        "Turn Off Two-Factor"
+                      )}
+                    </Button>
+                  </div>
+                </form>
+              </>
+            ) : setup ? (
+              <form onSubmit={handleEnable} className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Scan this QR code with an authenticator app, then enter the 6-digit code it shows.
+                </p>
+                <Image
+                  src={setup.qrCodeDataUrl}
+                  alt="Two-factor authentication QR code"
+                  width={192}
+                  height={192}
+                  unoptimized
+                  className="rounded border bg-white p-2"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Can&apos;t scan it? Enter this key manually:{" "}
+                  <span className="break-all font-mono">{setup.secret}</span>
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="twoFactorSetupCode">Authentication Code</Label>
+                  <Input
+                    id="twoFactorSetupCode"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="123456"
+                  />
+                </div>
+                <Button type="submit" disabled={submitting || !code}>
+                  {submitting ? (
+                    <>
+                      <Loader2 className="mr-2 size-4 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    "Turn On Two-Factor"
+                  )}
+                </Button>
+              </form>
+            ) : (
+              <Button onClick={handleStartSetup} disabled={submitting}>
+                {submitting ? (
+                  <>
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                    Preparing...
+                  </>
+                ) : (
+                  "Set Up Two-Factor"
+                )}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
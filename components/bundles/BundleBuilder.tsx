@@ -8,6 +8,7 @@ import { BundleProgress } from "./BundleProgress"
 import { BundleProductSelector } from "./BundleProductSelector"
 import { BundleSummary } from "./BundleSummary"
 import { toast } from "sonner"
+import { useCart } from "@/lib/providers/CartProvider"
 
 interface Product {
   id: string
@@ -62,6 +63,7 @@ interface BundleBuilderProps {
 
 export function BundleBuilder({ bundle }: BundleBuilderProps) {
   const router = useRouter()
+  const { fetchCartItems } = useCart()
   const [selectedItems, setSelectedItems] = useState<SelectedItem[]>([])
   const [isAddingToCart, setIsAddingToCart] = useState(false)
 
@@ -103,10 +105,14 @@ export function BundleBuilder({ bundle }: BundleBuilderProps) {
     setIsAddingToCart(true)
 
     try {
+      const csrfResponse = await fetch("/api/csrf")
+      const { token: csrfToken } = await csrfResponse.json()
+
       const response = await fetch(`/api/bundles/${bundle.slug}/add-to-cart`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
         },
         body: JSON.stringify({ selectedItems }),
       })
@@ -114,12 +120,13 @@ export function BundleBuilder({ bundle }: BundleBuilderProps) {
       const data = await response.json()
 
       if (!response.ok) {
-        throw new Error(data.error || "Failed to add bundle to cart")
+        throw new Error(data.error?.message || "Failed to add bundle to cart")
       }
 
-      toast.success(data.message || "Bundle added to cart!")
+      toast.success(data.data?.message || "Bundle added to cart!")
 
-      // Optionally refresh or redirect
+      // Show the bundle's lines in the cart
+      await fetchCartItems()
       router.refresh()
     } catch (error) {
       if (process.env.NODE_ENV === 'development') {
@@ -0,0 +1,61 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Leaf } from "lucide-react";
+import { cn, formatPrice } from "@/lib/utils";
+
+export interface CarbonOffsetQuoteData {
+  offsetKg: number;
+  price: number;
+}
+
+interface CarbonOffsetOptionProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  quote: CarbonOffsetQuoteData | null;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function CarbonOffsetOption({
+  checked,
+  onChange,
+  quote,
+  disabled = false,
+  className,
+}: CarbonOffsetOptionProps) {
+  if (!quote) {
+    return null;
+  }
+
+  return (
+    <div className={cn("rounded-lg border p-4", className)}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Checkbox
+            id="carbonOffset"
+            checked={checked}
+            onCheckedChange={(value) => onChange(value === true)}
+            disabled={disabled}
+            aria-describedby="carbon-offset-description"
+          />
+          <div className="flex items-center space-x-2">
+            <Leaf className="size-5 text-muted-foreground" aria-hidden="true" />
+            <Label
+              htmlFor="carbonOffset"
+              className="cursor-pointer text-sm font-medium"
+            >
+              Offset this order&apos;s shipping
+            </Label>
+          </div>
+        </div>
+        <span className="text-sm font-medium">+{formatPrice(quote.price)}</span>
+      </div>
+      <p id="carbon-offset-description" className="ml-7 mt-1 text-xs text-muted-foreground">
+        Offsets about {quote.offsetKg} kg CO2e from your products and their delivery. Your
+        certificate will appear on the order page.
+      </p>
+    </div>
+  );
+}
@@ -9,6 +9,9 @@ import { formatPrice } from "@/lib/utils";
 import { toast } from "sonner";
 
 export interface CheckoutDiscountState {
+  promoCode?: string;
+  promoDiscountAmount: number;
+  promoFreeShipping: boolean;
   loyaltyPointsToRedeem?: number;
   loyaltyDiscountAmount: number;
   giftCardCode?: string;
@@ -17,6 +20,9 @@ export interface CheckoutDiscountState {
 }
 
 export const DEFAULT_CHECKOUT_DISCOUNT_STATE: CheckoutDiscountState = {
+  promoCode: undefined,
+  promoDiscountAmount: 0,
+  promoFreeShipping: false,
   loyaltyPointsToRedeem: undefined,
   loyaltyDiscountAmount: 0,
   giftCardCode: undefined,
@@ -27,6 +33,8 @@ export const DEFAULT_CHECKOUT_DISCOUNT_STATE: CheckoutDiscountState = {
 interface DiscountSectionProps {
   cartTotal: number;
   disabled?: boolean;
+  csrfToken?: string | null;
+  customerEmail?: string;
   onDiscountChange: (discounts: CheckoutDiscountState) => void;
 }
 
@@ -35,8 +43,19 @@ const roundCurrency = (value: number) => Math.round(value * 100) / 100;
 export function DiscountSection({
   cartTotal,
   disabled = false,
+  csrfToken,
+  customerEmail,
   onDiscountChange,
 }: DiscountSectionProps) {
+  const [promoCodeInput, setPromoCodeInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<{
+    code: string;
+    discountAmount: number;
+    freeShipping: boolean;
+    description: string | null;
+  } | null>(null);
+  const [promoLoading, setPromoLoading] = useState(false);
+  const [promoError, setPromoError] = useState<string | null>(null);
   const [availablePoints, setAvailablePoints] = useState(0);
   const [loyaltyPointsToRedeem, setLoyaltyPointsToRedeem] = useState(0);
   const [giftCardCodeInput, setGiftCardCodeInput] = useState("");
@@ -72,10 +91,16 @@ export function DiscountSection({
     };
   }, []);
 
+  // Promo codes apply first; loyalty and gift cards cover what remains.
+  const promoDiscountAmount = appliedPromo
+    ? roundCurrency(Math.min(appliedPromo.discountAmount, cartTotal))
+    : 0;
+  const totalAfterPromo = roundCurrency(Math.max(0, cartTotal - promoDiscountAmount));
+
   const maxRedeemablePoints = useMemo(() => {
-    const maxByTotal = Math.floor(cartTotal * 100);
+    const maxByTotal = Math.floor(totalAfterPromo * 100);
     return Math.max(0, Math.min(availablePoints, maxByTotal));
-  }, [availablePoints, cartTotal]);
+  }, [availablePoints, totalAfterPromo]);
 
   useEffect(() => {
     if (loyaltyPointsToRedeem > maxRedeemablePoints) {
@@ -84,12 +109,12 @@ export function DiscountSection({
   }, [loyaltyPointsToRedeem, maxRedeemablePoints]);
 
   const loyaltyDiscountAmount = roundCurrency(loyaltyPointsToRedeem / 100);
-  const maxGiftCardUsable = roundCurrency(Math.max(0, cartTotal - loyaltyDiscountAmount));
+  const maxGiftCardUsable = roundCurrency(Math.max(0, totalAfterPromo - loyaltyDiscountAmount));
   const normalizedGiftCardAmount = appliedGiftCardCode
     ? roundCurrency(Math.min(giftCardAmount, giftCardBalance, maxGiftCardUsable))
     : 0;
   const totalDiscount = roundCurrency(
-    Math.min(cartTotal, loyaltyDiscountAmount + normalizedGiftCardAmount)
+    Math.min(cartTotal, promoDiscountAmount + loyaltyDiscountAmount + normalizedGiftCardAmount)
   );
 
   useEffect(() => {
@@ -100,6 +125,9 @@ export function DiscountSection({
 
   useEffect(() => {
     onDiscountChange({
+      promoCode: appliedPromo?.code,
+      promoDiscountAmount,
+      promoFreeShipping: appliedPromo?.freeShipping ?? false,
       loyaltyPointsToRedeem: loyaltyPointsToRedeem > 0 ? loyaltyPointsToRedeem : undefined,
       loyaltyDiscountAmount: loyaltyDiscountAmount > 0 ? loyaltyDiscountAmount : 0,
       giftCardCode: appliedGiftCardCode || undefined,
@@ -108,13 +136,72 @@ export function DiscountSection({
     });
   }, [
     appliedGiftCardCode,
+    appliedPromo,
     loyaltyDiscountAmount,
     loyaltyPointsToRedeem,
     normalizedGiftCardAmount,
     onDiscountChange,
+    promoDiscountAmount,
     totalDiscount,
   ]);
 
+  const applyPromoCode = async () => {
+    const trimmedCode = promoCodeInput.trim();
+    if (!trimmedCode) {
+      setPromoError("Enter a promo code.");
+      return;
+    }
+
+    setPromoLoading(true);
+    setPromoError(null);
+
+    try {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      if (csrfToken) {
+        headers["X-CSRF-Token"] = csrfToken;
+      }
+
+      const response = await fetch("/api/promo-codes/validate", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          code: trimmedCode,
+          email: customerEmail || undefined,
+        }),
+      });
+      const payload = await response.json();
+
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error?.message || "Promo code is not valid.");
+      }
+
+      const promo = payload.data;
+      setAppliedPromo({
+        code: promo.code,
+        discountAmount: Number(promo.discountAmount ?? 0),
+        freeShipping: Boolean(promo.freeShipping),
+        description: promo.description ?? null,
+      });
+      setPromoError(null);
+      toast.success("Promo code applied.");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to apply promo code.";
+      setPromoError(message);
+      toast.error(message);
+    } finally {
+      setPromoLoading(false);
+    }
+  };
+
+  const clearPromoCode = () => {
+    setAppliedPromo(null);
+    setPromoCodeInput("");
+    setPromoError(null);
+  };
+
   const applyGiftCard = async () => {
     const trimmedCode = giftCardCodeInput.trim();
     if (!trimmedCode) {
@@ -173,6 +260,56 @@ export function DiscountSection({
       <h3 className="text-base font-medium">Discounts</h3>
 
       <div className="space-y-3">
+        <Label htmlFor="promo-code">Promo code</Label>
+        {appliedPromo ? (
+          <div className="space-y-2 rounded-md bg-muted/50 p-3">
+            <p className="text-sm">
+              Applied: <span className="font-medium">{appliedPromo.code}</span>
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {appliedPromo.freeShipping
+                ? "Free standard shipping"
+                : `${formatPrice(promoDiscountAmount)} off`}
+              {appliedPromo.description ? ` - ${appliedPromo.description}` : ""}
+            </p>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={disabled}
+              onClick={clearPromoCode}
+            >
+              Remove promo code
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Input
+              id="promo-code"
+              placeholder="Enter promo code"
+              value={promoCodeInput}
+              disabled={disabled}
+              onChange={(event) => setPromoCodeInput(event.target.value)}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              disabled={disabled || promoLoading}
+              onClick={applyPromoCode}
+            >
+              {promoLoading ? "Applying..." : "Apply"}
+            </Button>
+          </div>
+        )}
+
+        {promoError && (
+          <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+            {promoError}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-3 border-t pt-4">
         <div className="flex items-center justify-between">
           <Label htmlFor="loyalty-points-slider">Loyalty points</Label>
           <span className="text-xs text-muted-foreground">
@@ -259,6 +396,10 @@ export function DiscountSection({
       </div>
 
       <div className="space-y-1 border-t pt-4 text-sm">
+        <div className="flex items-center justify-between">
+          <span>Promo discount</span>
+          <span>-{formatPrice(promoDiscountAmount)}</span>
+        </div>
         <div className="flex items-center justify-between">
           <span>Loyalty discount</span>
           <span>-{formatPrice(loyaltyDiscountAmount)}</span>
@@ -11,6 +11,7 @@ import { toast } from "sonner";
 import { CarbonNeutralBanner } from "@/components/sustainability";
 import { ExpressCheckout } from "./ExpressCheckout";
 import { GiftOptions, GiftOptionsData } from "./GiftOptions";
+import { CarbonOffsetOption, type CarbonOffsetQuoteData } from "./CarbonOffsetOption";
 import {
   DiscountSection,
   DEFAULT_CHECKOUT_DISCOUNT_STATE,
@@ -24,9 +25,10 @@ type FormErrors = {
 
 interface CheckoutFormProps {
   onDiscountChange?: (discounts: CheckoutDiscountState) => void;
+  onCarbonOffsetChange?: (price: number) => void;
 }
 
-export default function CheckoutForm({ onDiscountChange }: CheckoutFormProps) {
+export default function CheckoutForm({ onDiscountChange, onCarbonOffsetChange }: CheckoutFormProps) {
   const router = useRouter();
   const { cart, cartTotal } = useCart();
   const [isLoading, setIsLoading] = useState(false);
@@ -43,6 +45,8 @@ export default function CheckoutForm({ onDiscountChange }: CheckoutFormProps) {
   const [discounts, setDiscounts] = useState<CheckoutDiscountState>(
     DEFAULT_CHECKOUT_DISCOUNT_STATE
   );
+  const [carbonOffset, setCarbonOffset] = useState(false);
+  const [carbonOffsetQuote, setCarbonOffsetQuote] = useState<CarbonOffsetQuoteData | null>(null);
   const [formData, setFormData] = useState({
     email: "",
     firstName: "",
@@ -75,6 +79,32 @@ export default function CheckoutForm({ onDiscountChange }: CheckoutFormProps) {
     fetchCsrfToken();
   }, [fetchCsrfToken]);
 
+  // Re-price the carbon offset whenever the cart contents change
+  const cartSignature = cart.items.map((item) => `${item.id}:${item.quantity}`).join(",");
+  useEffect(() => {
+    if (!cartSignature) return;
+
+    let cancelled = false;
+
+    fetch("/api/shipping/quote")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((responseData) => {
+        if (cancelled) return;
+        setCarbonOffsetQuote(responseData?.data?.carbonOffset ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setCarbonOffsetQuote(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cartSignature]);
+
+  useEffect(() => {
+    onCarbonOffsetChange?.(carbonOffset && carbonOffsetQuote ? carbonOffsetQuote.price : 0);
+  }, [carbonOffset, carbonOffsetQuote, onCarbonOffsetChange]);
+
   const handleDiscountChange = useCallback(
     (nextDiscounts: CheckoutDiscountState) => {
       setDiscounts(nextDiscounts);
@@ -156,9 +186,11 @@ export default function CheckoutForm({ onDiscountChange }: CheckoutFormProps) {
         giftRecipientName: giftOptions.giftRecipientName,
         giftRecipientEmail: giftOptions.giftRecipientEmail,
         hidePrice: giftOptions.hidePrice,
+        promoCode: discounts.promoCode,
         loyaltyPointsToRedeem: discounts.loyaltyPointsToRedeem,
         giftCardCode: discounts.giftCardCode,
         giftCardAmount: discounts.giftCardAmount,
+        carbonOffset: carbonOffset && carbonOffsetQuote !== null,
       };
 
       const headers: Record<string, string> = {
@@ -371,6 +403,8 @@ export default function CheckoutForm({ onDiscountChange }: CheckoutFormProps) {
         <DiscountSection
           cartTotal={cartTotal.raw}
           disabled={isLoading}
+          csrfToken={csrfToken}
+          customerEmail={formData.email}
           onDiscountChange={handleDiscountChange}
         />
       </div>
@@ -378,6 +412,13 @@ export default function CheckoutForm({ onDiscountChange }: CheckoutFormProps) {
       {/* Carbon Neutral Shipping Notice */}
       <div className="border-t pt-4">
         <CarbonNeutralBanner variant="compact" showLearnMore={false} />
+        <CarbonOffsetOption
+          className="mt-4"
+          checked={carbonOffset}
+          onChange={setCarbonOffset}
+          quote={carbonOffsetQuote}
+          disabled={isLoading}
+        />
       </div>
 
       <div className="flex justify-between pt-4">
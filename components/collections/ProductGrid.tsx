@@ -7,6 +7,8 @@ import { useCart } from '@/lib/providers/CartProvider';
 import { useSavedItems } from '@/hooks/useSavedItems';
 import { toast } from 'sonner';
 import { ImperfectBadge } from '@/components/imperfect';
+import { RatingHistogram } from '@/components/products/rating-histogram';
+import type { RatingHistogram as RatingHistogramCounts } from '@/lib/reviews';
 
 interface Product {
   id: string;
@@ -16,7 +18,9 @@ interface Product {
   image: string;
   category: string;
   description?: string;
-  reviews: { rating: number }[];
+  averageRating: number;
+  reviewCount: number;
+  ratingHistogram: RatingHistogramCounts;
   createdAt: Date;
   isSubscribable?: boolean;
   // Imperfect product fields
@@ -37,12 +41,6 @@ interface ProductGridProps {
 }
 
 // Helper functions moved outside component to prevent recreation
-const getAverageRating = (reviews: { rating: number }[]) => {
-  if (reviews.length === 0) return null;
-  const sum = reviews.reduce((acc, review) => acc + review.rating, 0);
-  return (sum / reviews.length).toFixed(1);
-};
-
 const isNewProduct = (date: Date) => {
   const thirtyDaysAgo = new Date();
   thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -207,20 +205,21 @@ function ProductCard({
           <p className="line-clamp-2 text-sm text-muted-foreground">{product.description}</p>
         )}
         <div className="flex items-center space-x-2">
-          {getAverageRating(product.reviews) && (
+          {product.reviewCount > 0 && (
             <>
               <div className="flex items-center">
                 <span className="text-sm font-medium text-foreground">
-                  {getAverageRating(product.reviews)}
+                  {product.averageRating.toFixed(1)}
                 </span>
                 <span className="ml-1 text-yellow-400">★</span>
               </div>
               <span className="text-sm text-muted-foreground">
-                ({product.reviews.length} reviews)
+                ({product.reviewCount} reviews)
               </span>
             </>
           )}
         </div>
+        <RatingHistogram histogram={product.ratingHistogram} reviewCount={product.reviewCount} />
       </div>
     </div>
   );
@@ -17,22 +17,13 @@ async function getFeaturedProducts() {
         { createdAt: 'desc' },
       ],
       take: 8,
-      include: {
-        reviews: {
-          select: { rating: true },
-        },
-      },
     })
 
     return products.map((p) => ({
       ...p,
       price: Number(p.price),
       salePrice: p.salePrice ? Number(p.salePrice) : null,
-      avgRating:
-        p.reviews.length > 0
-          ? p.reviews.reduce((sum, r) => sum + r.rating, 0) / p.reviews.length
-          : null,
-      reviewCount: p.reviews.length,
+      avgRating: p.reviewCount > 0 ? p.averageRating : null,
     }))
   } catch {
     return []
@@ -11,6 +11,14 @@ import { useSavedItems } from '@/hooks/useSavedItems';
 import { toast } from 'sonner';
 import { Heart } from 'lucide-react';
 
+interface ImperfectBatchOption {
+  id: string;
+  quantity: number;
+  reason: string;
+  discountPercent: number;
+  price: number;
+}
+
 interface ImperfectProduct {
   id: string;
   title: string;
@@ -28,6 +36,8 @@ interface ImperfectProduct {
   // Imperfect details
   imperfectReason?: string | null;
   imperfectReasonLabel?: string | null;
+  // Batches on sale, biggest discount first; the card sells from the first
+  batches?: ImperfectBatchOption[];
   // Reviews
   averageRating?: number | null;
   reviewCount?: number;
@@ -57,14 +67,19 @@ export const ImperfectProductCard = memo(function ImperfectProductCard({
 
   const isWishlisted = useMemo(() => isItemSaved(product.id), [isItemSaved, product.id]);
 
+  // Imperfect stock is sold from batches, each with its own price
+  const batch = product.batches?.[0];
+  const displayPrice = batch?.price ?? product.imperfectPrice;
+
   const handleAddToCart = useCallback(async () => {
     try {
       await addItemToCart({
         id: product.id,
         title: product.title,
-        price: product.imperfectPrice,
+        price: displayPrice,
         image: product.image,
         quantity: 1,
+        imperfectBatchId: batch?.id ?? null,
       });
       toast.success('Product added to cart!');
     } catch (error) {
@@ -73,7 +88,7 @@ export const ImperfectProductCard = memo(function ImperfectProductCard({
       }
       toast.error('Failed to add product to cart. Please try again.');
     }
-  }, [addItemToCart, product]);
+  }, [addItemToCart, product, batch, displayPrice]);
 
   const handleToggleWishlist = useCallback(() => {
     toggleSaveItem({
@@ -90,7 +105,7 @@ export const ImperfectProductCard = memo(function ImperfectProductCard({
       {/* Imperfect badge - top left */}
       <div className="absolute left-4 top-4 z-10">
         <ImperfectBadge
-          discountPercent={product.discountPercent}
+          discountPercent={batch?.discountPercent ?? product.discountPercent}
           size="md"
           variant="prominent"
         />
@@ -154,7 +169,7 @@ export const ImperfectProductCard = memo(function ImperfectProductCard({
         {/* Price display - emphasize savings */}
         <div className="flex items-baseline gap-2">
           <span className="text-lg font-bold text-amber-600 dark:text-amber-400">
-            ${product.imperfectPrice.toFixed(2)}
+            ${displayPrice.toFixed(2)}
           </span>
           <span className="text-sm text-muted-foreground line-through">
             ${product.originalPrice.toFixed(2)}
@@ -165,11 +180,17 @@ export const ImperfectProductCard = memo(function ImperfectProductCard({
         {showSavings && (
           <ImperfectSavingsBadge
             originalPrice={product.originalPrice}
-            imperfectPrice={product.imperfectPrice}
+            imperfectPrice={displayPrice}
             size="sm"
           />
         )}
 
+        {batch && batch.quantity <= 5 && (
+          <p className="text-xs font-medium text-amber-700 dark:text-amber-400">
+            Only {batch.quantity} left at this price
+          </p>
+        )}
+
         {/* Reason badge */}
         {showReason && product.imperfectReason && (
           <ImperfectReasonBadge
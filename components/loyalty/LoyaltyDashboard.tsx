@@ -68,7 +68,7 @@ interface LoyaltySummary {
 
 interface Transaction {
   id: string
-  type: 'earned' | 'redeemed'
+  type: 'earned' | 'redeemed' | 'expired'
   points: number
   source?: string
   description?: string
@@ -6,6 +6,7 @@ import { useState, useCallback } from 'react';
 import { useCart } from "@/lib/providers/CartProvider";
 import { toast } from 'sonner';
 import { ProductReviews } from '@/components/products/product-reviews';
+import { ProductAlertSignup } from '@/components/products/product-alert-signup';
 import { VariantSelector, ProductVariant } from '@/components/products/variant-selector';
 import { SubscribeOption } from '@/components/subscriptions';
 import { SubscriptionFrequency } from '@/lib/subscriptions';
@@ -317,6 +318,14 @@ export default function ProductDetails({ product, averageRating }: ProductDetail
                   subscriptionFrequency={subscriptionFrequency}
                 />
               </div>
+              <div className="mt-4">
+                <ProductAlertSignup
+                  key={selectedVariant?.id ?? product.id}
+                  productId={product.id}
+                  variantId={selectedVariant?.id ?? null}
+                  isOutOfStock={displayInventory <= 0}
+                />
+              </div>
             </div>
           </div>
         </div>
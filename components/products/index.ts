@@ -1,5 +1,7 @@
 // Product Components
+export { ProductAlertSignup } from './product-alert-signup'
 export { ProductReviews } from './product-reviews'
+export { RatingHistogram } from './rating-histogram'
 export { VariantSelector } from './variant-selector'
 export type { ProductVariant } from './variant-selector'
 
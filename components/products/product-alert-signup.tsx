@@ -0,0 +1,106 @@
+"use client"
+
+import { useState } from "react"
+import { useSession } from "next-auth/react"
+import { Bell, BellRing } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { toast } from "sonner"
+
+interface ProductAlertSignupProps {
+  productId: string
+  variantId?: string | null
+  isOutOfStock: boolean
+}
+
+async function getCsrfToken(): Promise<string | null> {
+  const response = await fetch('/api/csrf', { cache: 'no-store' })
+  const data = await response.json()
+  return typeof data?.token === 'string' ? data.token : null
+}
+
+/**
+ * Back-in-stock signup while the item is sold out, price-drop signup
+ * otherwise. Guests are asked for an email address.
+ */
+export function ProductAlertSignup({ productId, variantId, isOutOfStock }: ProductAlertSignupProps) {
+  const { data: session } = useSession()
+  const [email, setEmail] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+  const [subscribed, setSubscribed] = useState(false)
+
+  const type = isOutOfStock ? "BACK_IN_STOCK" : "PRICE_DROP"
+  const label = isOutOfStock ? "Email me when it's back in stock" : "Alert me if the price drops"
+  const isGuest = !session?.user
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (isGuest && !email.trim()) {
+      toast.error("Please enter your email address")
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const csrfToken = await getCsrfToken()
+      const response = await fetch(`/api/products/${productId}/alerts`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
+        },
+        body: JSON.stringify({
+          type,
+          variantId: variantId || null,
+          ...(isGuest ? { email: email.trim() } : {}),
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || "Failed to set up alert")
+      }
+
+      setSubscribed(true)
+      toast.success(
+        isOutOfStock
+          ? "We'll email you when this item is back in stock"
+          : "We'll email you if the price drops"
+      )
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to set up alert")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (subscribed) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <BellRing className="size-4 text-primary" aria-hidden="true" />
+        {isOutOfStock ? "You'll hear from us when it's back." : "You're watching this price."}
+      </p>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2 sm:flex-row">
+      {isGuest && (
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="you@example.com"
+          aria-label="Email address for alert"
+          required
+          className="sm:max-w-xs"
+        />
+      )}
+      <Button type="submit" variant="outline" disabled={submitting}>
+        <Bell className="mr-2 size-4" aria-hidden="true" />
+        {submitting ? "Saving..." : label}
+      </Button>
+    </form>
+  )
+}
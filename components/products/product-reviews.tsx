@@ -3,21 +3,32 @@
 import { useState, useEffect, useCallback } from "react"
 import { useSession } from "next-auth/react"
 import Image from "next/image"
-import { Star, ThumbsUp, ThumbsDown, AlertCircle } from "lucide-react"
+import { Star, ThumbsUp, AlertCircle, BadgeCheck, Store } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { toast } from "sonner"
 
+const MAX_REVIEW_PHOTOS = 4
+
 interface Review {
   id: string
   rating: number
   comment: string | null
   createdAt: string
+  verifiedPurchase: boolean
+  helpfulCount: number
+  merchantReply: string | null
+  merchantReplyAt: string | null
   user: {
     id: string
     name: string | null
     image: string | null
   }
+  photos: {
+    id: string
+    url: string
+  }[]
 }
 
 interface ReviewData {
@@ -37,6 +48,12 @@ interface ProductReviewsProps {
   productId: string
 }
 
+async function getCsrfToken(): Promise<string | null> {
+  const response = await fetch('/api/csrf', { cache: 'no-store' })
+  const data = await response.json()
+  return typeof data?.token === 'string' ? data.token : null
+}
+
 export function ProductReviews({ productId }: ProductReviewsProps) {
   const { data: session } = useSession()
   const [reviewData, setReviewData] = useState<ReviewData | null>(null)
@@ -48,6 +65,8 @@ export function ProductReviews({ productId }: ProductReviewsProps) {
   const [rating, setRating] = useState(5)
   const [comment, setComment] = useState("")
   const [hoverRating, setHoverRating] = useState(0)
+  const [photoUrls, setPhotoUrls] = useState<string[]>([""])
+  const [votedReviewIds, setVotedReviewIds] = useState<Set<string>>(new Set())
 
   const fetchReviews = useCallback(async () => {
     try {
@@ -88,14 +107,19 @@ export function ProductReviews({ productId }: ProductReviewsProps) {
     setSubmitting(true)
 
     try {
+      const csrfToken = await getCsrfToken()
+      const photos = photoUrls.map((url) => url.trim()).filter(Boolean)
+
       const response = await fetch(`/api/products/${productId}/reviews`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
         },
         body: JSON.stringify({
           rating,
           comment: comment.trim() || undefined,
+          photoUrls: photos.length > 0 ? photos : undefined,
         }),
       })
 
@@ -105,11 +129,9 @@ export function ProductReviews({ productId }: ProductReviewsProps) {
         throw new Error(data.error?.message || 'Failed to submit review')
       }
 
-      toast.success('Review submitted successfully!')
-      setShowReviewForm(false)
-      setRating(5)
-      setComment("")
-      fetchReviews() // Refresh reviews
+      // New reviews are held for moderation, so there is nothing new to show yet
+      toast.success('Thanks! Your review will appear once it has been approved.')
+      resetForm()
     } catch (error: unknown) {
       if (process.env.NODE_ENV === 'development') {
         console.error('Error submitting review:', error)
@@ -121,6 +143,62 @@ export function ProductReviews({ productId }: ProductReviewsProps) {
     }
   }
 
+  const handleHelpful = async (reviewId: string) => {
+    if (!session?.user) {
+      toast.error('Please sign in to vote on reviews')
+      return
+    }
+
+    try {
+      const csrfToken = await getCsrfToken()
+      const response = await fetch(`/api/reviews/${reviewId}/helpful`, {
+        method: 'POST',
+        headers: csrfToken ? { 'X-CSRF-Token': csrfToken } : {},
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to record vote')
+      }
+
+      const { helpful, helpfulCount } = data.data as { helpful: boolean; helpfulCount: number }
+      setVotedReviewIds((prev) => {
+        const next = new Set(prev)
+        if (helpful) {
+          next.add(reviewId)
+        } else {
+          next.delete(reviewId)
+        }
+        return next
+      })
+      setReviewData((prev) =>
+        prev
+          ? {
+              ...prev,
+              reviews: prev.reviews.map((review) =>
+                review.id === reviewId ? { ...review, helpfulCount } : review
+              ),
+            }
+          : prev
+      )
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to record vote'
+      toast.error(message)
+    }
+  }
+
+  const resetForm = () => {
+    setShowReviewForm(false)
+    setRating(5)
+    setComment("")
+    setPhotoUrls([""])
+  }
+
+  const updatePhotoUrl = (index: number, value: string) => {
+    setPhotoUrls((prev) => prev.map((url, i) => (i === index ? value : url)))
+  }
+
   if (loading) {
     return (
       <div className="py-8 text-center text-muted-foreground">
@@ -239,6 +317,41 @@ export function ProductReviews({ productId }: ProductReviewsProps) {
                 )}
               </div>
 
+              {/* Photos */}
+              <div>
+                <label className="mb-2 block text-sm font-medium">
+                  Photos (optional)
+                </label>
+                <div className="space-y-2">
+                  {photoUrls.map((url, index) => (
+                    <Input
+                      key={index}
+                      type="url"
+                      value={url}
+                      onChange={(e) => updatePhotoUrl(index, e.target.value)}
+                      placeholder="https://example.com/photo.jpg"
+                    />
+                  ))}
+                </div>
+                {photoUrls.length < MAX_REVIEW_PHOTOS && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="px-0"
+                    onClick={() => setPhotoUrls((prev) => [...prev, ""])}
+                  >
+                    Add another photo
+                  </Button>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Link up to {MAX_REVIEW_PHOTOS} images (https only).
+                </p>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Reviews are checked by our team before they are published.
+              </p>
+
               {/* Actions */}
               <div className="flex gap-2">
                 <Button type="submit" disabled={submitting}>
@@ -247,11 +360,7 @@ export function ProductReviews({ productId }: ProductReviewsProps) {
                 <Button
                   type="button"
                   variant="outline"
-                  onClick={() => {
-                    setShowReviewForm(false)
-                    setRating(5)
-                    setComment("")
-                  }}
+                  onClick={resetForm}
                   disabled={submitting}
                 >
                   Cancel
@@ -306,6 +415,12 @@ export function ProductReviews({ productId }: ProductReviewsProps) {
                       <span className="text-sm text-muted-foreground">
                         {new Date(review.createdAt).toLocaleDateString()}
                       </span>
+                      {review.verifiedPurchase && (
+                        <span className="inline-flex items-center gap-1 text-xs font-medium text-green-700 dark:text-green-400">
+                          <BadgeCheck className="size-3.5" />
+                          Verified purchase
+                        </span>
+                      )}
                     </div>
 
                     <div className="mb-2 flex items-center gap-1">
@@ -326,6 +441,50 @@ export function ProductReviews({ productId }: ProductReviewsProps) {
                         {review.comment}
                       </p>
                     )}
+
+                    {review.photos.length > 0 && (
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        {review.photos.map((photo) => (
+                          <a key={photo.id} href={photo.url} target="_blank" rel="noopener noreferrer">
+                            <Image
+                              src={photo.url}
+                              alt={`Photo from ${review.user.name || 'a customer'}`}
+                              width={80}
+                              height={80}
+                              unoptimized
+                              className="size-20 rounded-md object-cover"
+                            />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+
+                    {review.merchantReply && (
+                      <div className="mt-3 rounded-md bg-muted p-3">
+                        <p className="mb-1 flex items-center gap-1 text-xs font-semibold text-foreground">
+                          <Store className="size-3.5" />
+                          Response from Link Flame
+                        </p>
+                        <p className="whitespace-pre-wrap text-sm text-muted-foreground">
+                          {review.merchantReply}
+                        </p>
+                      </div>
+                    )}
+
+                    {session?.user?.id !== review.user.id && (
+                      <button
+                        type="button"
+                        onClick={() => handleHelpful(review.id)}
+                        className={`mt-3 inline-flex items-center gap-1 text-sm ${
+                          votedReviewIds.has(review.id)
+                            ? 'font-medium text-primary'
+                            : 'text-muted-foreground hover:text-foreground'
+                        }`}
+                      >
+                        <ThumbsUp className="size-4" />
+                        Helpful ({review.helpfulCount})
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
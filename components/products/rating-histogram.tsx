@@ -0,0 +1,37 @@
+import type { RatingHistogram as RatingHistogramCounts } from "@/lib/reviews"
+
+interface RatingHistogramProps {
+  histogram: RatingHistogramCounts
+  reviewCount: number
+  className?: string
+}
+
+/**
+ * Compact per-star breakdown for product cards.
+ */
+export function RatingHistogram({ histogram, reviewCount, className = "" }: RatingHistogramProps) {
+  if (reviewCount === 0) {
+    return null
+  }
+
+  return (
+    <dl className={`space-y-0.5 ${className}`} aria-label="Rating breakdown">
+      {([5, 4, 3, 2, 1] as const).map((star) => {
+        const count = histogram[star]
+        const percentage = (count / reviewCount) * 100
+
+        return (
+          <div key={star} className="flex items-center gap-2 text-xs text-muted-foreground">
+            <dt className="w-6">{star}★</dt>
+            <dd className="flex flex-1 items-center gap-2">
+              <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted">
+                <div className="h-full bg-yellow-400" style={{ width: `${percentage}%` }} />
+              </div>
+              <span className="w-6 text-right">{count}</span>
+            </dd>
+          </div>
+        )
+      })}
+    </dl>
+  )
+}
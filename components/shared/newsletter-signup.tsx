@@ -24,10 +24,14 @@ export function NewsletterSignup({
     setStatus("loading")
 
     try {
+      const csrfResponse = await fetch("/api/csrf")
+      const { token: csrfToken } = await csrfResponse.json()
+
       const response = await fetch("/api/newsletter", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
         },
         body: JSON.stringify({ email }),
       })
@@ -36,11 +40,15 @@ export function NewsletterSignup({
 
       if (response.ok) {
         setStatus("success")
-        setMessage(data.message)
+        setMessage(
+          data.data?.alreadySubscribed
+            ? "You're already subscribed."
+            : "Almost there! Check your inbox and click the link to confirm your subscription."
+        )
         setEmail("")
       } else {
         setStatus("error")
-        setMessage(data.error)
+        setMessage(data.error?.message || "Failed to subscribe. Please try again later.")
       }
     } catch (error) {
       setStatus("error")
@@ -4,7 +4,7 @@ import { useState, useMemo } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { toast } from 'sonner';
-import { CalendarDays, Pause, Play, RefreshCw, X, ChevronRight, Truck } from 'lucide-react';
+import { CalendarDays, Pause, Play, RefreshCw, X, ChevronRight, Truck, Pencil, PackageCheck } from 'lucide-react';
 import {
   SubscriptionFrequency,
   SubscriptionStatus,
@@ -12,6 +12,7 @@ import {
   calculateSubscriptionTotal,
 } from '@/lib/subscriptions';
 import { cn } from '@/lib/utils';
+import { SubscriptionItemsEditor } from './SubscriptionItemsEditor';
 
 interface SubscriptionItem {
   id: string;
@@ -46,6 +47,8 @@ interface Subscription {
   skipNextDelivery: boolean;
   createdAt: string;
   items: SubscriptionItem[];
+  pauses?: { resumeAt: string | null }[];
+  dunningStartedAt?: string | null;
 }
 
 interface SubscriptionCardProps {
@@ -61,6 +64,13 @@ const statusColors: Record<SubscriptionStatus, string> = {
   CANCELLED: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200',
 };
 
+const pauseOptions: { cycles?: number; label: string }[] = [
+  { cycles: 1, label: '1 delivery' },
+  { cycles: 2, label: '2 deliveries' },
+  { cycles: 3, label: '3 deliveries' },
+  { label: 'Until I resume' },
+];
+
 const statusLabels: Record<SubscriptionStatus, string> = {
   PENDING: 'Pending checkout',
   ACTIVE: 'Active',
@@ -72,6 +82,8 @@ const statusLabels: Record<SubscriptionStatus, string> = {
 export function SubscriptionCard({ subscription, onUpdate }: SubscriptionCardProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isEditingItems, setIsEditingItems] = useState(false);
+  const [showPauseOptions, setShowPauseOptions] = useState(false);
 
   const getCsrfToken = async () => {
     const response = await fetch('/api/csrf', { cache: 'no-store' });
@@ -93,19 +105,21 @@ export function SubscriptionCard({ subscription, onUpdate }: SubscriptionCardPro
   const isPending = subscription.status === 'PENDING';
   const isPaymentFailed = subscription.status === 'PAYMENT_FAILED';
   const isCancelled = subscription.status === 'CANCELLED';
+  const scheduledResume = subscription.pauses?.[0]?.resumeAt
+    ? new Date(subscription.pauses[0].resumeAt)
+    : null;
 
-  const handlePauseResume = async () => {
+  const handleResume = async () => {
     setIsLoading(true);
     try {
       const csrfToken = await getCsrfToken();
-      const newStatus = isActive ? 'PAUSED' : 'ACTIVE';
       const response = await fetch(`/api/subscriptions/${subscription.id}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
           ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: 'ACTIVE' }),
       });
 
       if (!response.ok) {
@@ -113,7 +127,7 @@ export function SubscriptionCard({ subscription, onUpdate }: SubscriptionCardPro
         throw new Error(error.error?.message || 'Failed to update subscription');
       }
 
-      toast.success(isActive ? 'Subscription paused' : 'Subscription resumed');
+      toast.success('Subscription resumed');
       onUpdate?.();
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to update subscription');
@@ -122,6 +136,63 @@ export function SubscriptionCard({ subscription, onUpdate }: SubscriptionCardPro
     }
   };
 
+  const handlePause = async (cycles?: number) => {
+    setIsLoading(true);
+    setShowPauseOptions(false);
+    try {
+      const csrfToken = await getCsrfToken();
+      const response = await fetch(`/api/subscriptions/${subscription.id}/pause`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+        },
+        body: JSON.stringify(cycles ? { cycles } : {}),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to pause subscription');
+      }
+
+      toast.success(data?.data?.message || 'Subscription paused');
+      onUpdate?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to pause subscription');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleShipNow = async () => {
+    if (!confirm('Charge for and ship your next box now? Later deliveries will be scheduled from today.')) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const csrfToken = await getCsrfToken();
+      const response = await fetch(`/api/subscriptions/${subscription.id}/ship-now`, {
+        method: 'POST',
+        headers: {
+          ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+        },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to ship now');
+      }
+
+      toast.success(data?.data?.message || 'Your box is on its way');
+      onUpdate?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to ship now');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleSkipDelivery = async () => {
     setIsLoading(true);
     try {
@@ -299,7 +370,13 @@ export function SubscriptionCard({ subscription, onUpdate }: SubscriptionCardPro
           <div className="mt-4 flex items-center rounded-lg bg-yellow-50 px-3 py-2 dark:bg-yellow-950/40">
             <Pause className="mr-2 size-5 text-yellow-600 dark:text-yellow-400" />
             <span className="text-sm text-yellow-800 dark:text-yellow-200">
-              Subscription is paused. Resume to continue deliveries.
+              {scheduledResume
+                ? `Paused until ${scheduledResume.toLocaleDateString('en-US', {
+                    weekday: 'short',
+                    month: 'short',
+                    day: 'numeric',
+                  })}. Deliveries resume automatically.`
+                : 'Subscription is paused. Resume to continue deliveries.'}
             </span>
           </div>
         )}
@@ -322,52 +399,81 @@ export function SubscriptionCard({ subscription, onUpdate }: SubscriptionCardPro
           </div>
         )}
 
+        {isActive && subscription.dunningStartedAt && (
+          <div className="mt-4 flex items-center rounded-lg bg-orange-50 px-3 py-2 dark:bg-orange-950/40">
+            <RefreshCw className="mr-2 size-5 text-orange-600 dark:text-orange-400" />
+            <span className="text-sm text-orange-800 dark:text-orange-200">
+              We couldn&apos;t take your last payment. Update billing details to keep deliveries coming.
+            </span>
+          </div>
+        )}
+
         {/* Expanded content */}
         {isExpanded && (
           <div className="mt-4 border-t border-border pt-4">
             {/* Items list */}
-            <h4 className="mb-2 text-sm font-medium text-foreground">Items</h4>
-            <ul className="divide-y divide-border">
-              {subscription.items.map((item) => {
-                const discountedPrice = item.priceAtSubscription * (1 - item.discountPercent / 100);
-                return (
-                  <li key={item.id} className="flex items-center gap-3 py-2">
-                    <div className="relative size-10 shrink-0 overflow-hidden rounded bg-muted">
-                      <Image
-                        src={item.variant?.image || item.product.image}
-                        alt={item.product.title}
-                        fill
-                        className="object-cover"
-                        sizes="40px"
-                      />
-                    </div>
-                    <div className="min-w-0 flex-1">
-                      <Link
-                        href={`/products/${item.product.id}`}
-                        className="text-sm font-medium text-foreground hover:text-green-700"
-                      >
-                        {item.product.title}
-                      </Link>
-                      {item.variant && (
-                        <p className="text-xs text-muted-foreground">
-                          {[item.variant.size, item.variant.color, item.variant.material]
-                            .filter(Boolean)
-                            .join(' / ')}
+            <div className="mb-2 flex items-center justify-between">
+              <h4 className="text-sm font-medium text-foreground">Items</h4>
+              {(isActive || isPaused) && (
+                <button
+                  type="button"
+                  onClick={() => setIsEditingItems(!isEditingItems)}
+                  className="inline-flex items-center text-xs font-medium text-green-700 hover:text-green-800 dark:text-green-400"
+                >
+                  <Pencil className="mr-1 size-3" />
+                  {isEditingItems ? 'Done' : 'Edit items'}
+                </button>
+              )}
+            </div>
+            {isEditingItems && (isActive || isPaused) ? (
+              <SubscriptionItemsEditor
+                subscriptionId={subscription.id}
+                items={subscription.items}
+                onUpdate={onUpdate}
+              />
+            ) : (
+              <ul className="divide-y divide-border">
+                {subscription.items.map((item) => {
+                  const discountedPrice = item.priceAtSubscription * (1 - item.discountPercent / 100);
+                  return (
+                    <li key={item.id} className="flex items-center gap-3 py-2">
+                      <div className="relative size-10 shrink-0 overflow-hidden rounded bg-muted">
+                        <Image
+                          src={item.variant?.image || item.product.image}
+                          alt={item.product.title}
+                          fill
+                          className="object-cover"
+                          sizes="40px"
+                        />
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <Link
+                          href={`/products/${item.product.id}`}
+                          className="text-sm font-medium text-foreground hover:text-green-700"
+                        >
+                          {item.product.title}
+                        </Link>
+                        {item.variant && (
+                          <p className="text-xs text-muted-foreground">
+                            {[item.variant.size, item.variant.color, item.variant.material]
+                              .filter(Boolean)
+                              .join(' / ')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm text-foreground">
+                          {item.quantity} x ${discountedPrice.toFixed(2)}
                         </p>
-                      )}
-                    </div>
-                    <div className="text-right">
-                      <p className="text-sm text-foreground">
-                        {item.quantity} x ${discountedPrice.toFixed(2)}
-                      </p>
-                      <p className="text-xs text-muted-foreground line-through">
-                        ${item.priceAtSubscription.toFixed(2)}
-                      </p>
-                    </div>
-                  </li>
-                );
-              })}
-            </ul>
+                        <p className="text-xs text-muted-foreground line-through">
+                          ${item.priceAtSubscription.toFixed(2)}
+                        </p>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
 
             {/* Summary */}
             <div className="mt-4 border-t border-border pt-4">
@@ -405,7 +511,16 @@ export function SubscriptionCard({ subscription, onUpdate }: SubscriptionCardPro
                 </button>
                 <button
                   type="button"
-                  onClick={handlePauseResume}
+                  onClick={handleShipNow}
+                  disabled={isLoading}
+                  className="inline-flex items-center rounded-md border border-border bg-card px-3 py-1.5 text-xs font-medium text-foreground hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <PackageCheck className="mr-1.5 size-4" />
+                  Ship now
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowPauseOptions(!showPauseOptions)}
                   disabled={isLoading}
                   className="inline-flex items-center rounded-md border border-border bg-card px-3 py-1.5 text-xs font-medium text-foreground hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
                 >
@@ -417,7 +532,7 @@ export function SubscriptionCard({ subscription, onUpdate }: SubscriptionCardPro
             {isPaused && (
               <button
                 type="button"
-                onClick={handlePauseResume}
+                onClick={handleResume}
                 disabled={isLoading}
                 className="inline-flex items-center rounded-md border border-green-600 bg-green-700 px-3 py-1.5 text-xs font-medium text-white hover:bg-green-700 disabled:cursor-not-allowed disabled:opacity-50"
               >
@@ -446,6 +561,22 @@ export function SubscriptionCard({ subscription, onUpdate }: SubscriptionCardPro
               Cancel
             </button>
           </div>
+          {isActive && showPauseOptions && (
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <span className="text-xs text-muted-foreground">Pause for:</span>
+              {pauseOptions.map((option) => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => handlePause(option.cycles)}
+                  disabled={isLoading}
+                  className="rounded-md border border-border bg-card px-2.5 py-1 text-xs font-medium text-foreground hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -44,6 +44,8 @@ interface Subscription {
   skipNextDelivery: boolean;
   createdAt: string;
   items: SubscriptionItem[];
+  pauses?: { resumeAt: string | null }[];
+  dunningStartedAt?: string | null;
 }
 
 type FilterStatus = 'all' | SubscriptionStatus;
@@ -92,6 +94,44 @@ export function SubscriptionDashboard() {
     }
   }, [authStatus, fetchSubscriptions]);
 
+  // Payment reminder emails link here with ?updateBilling=<id> to open the
+  // card update form directly
+  useEffect(() => {
+    if (authStatus !== 'authenticated') return;
+
+    const subscriptionId = new URLSearchParams(window.location.search).get('updateBilling');
+    if (!subscriptionId) return;
+
+    async function openCardUpdate(id: string) {
+      window.history.replaceState(null, '', window.location.pathname);
+      try {
+        const csrfResponse = await fetch('/api/csrf', { cache: 'no-store' });
+        const csrfData = csrfResponse.ok ? await csrfResponse.json() : null;
+        const csrfToken = typeof csrfData?.token === 'string' ? csrfData.token : null;
+
+        const response = await fetch(`/api/subscriptions/${encodeURIComponent(id)}/portal`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+          },
+          body: JSON.stringify({ flow: 'payment_method_update' }),
+        });
+
+        const data = await response.json();
+        if (!response.ok || !data?.data?.sessionUrl) {
+          throw new Error(data?.error?.message || 'Failed to open billing portal');
+        }
+
+        window.location.href = data.data.sessionUrl;
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to open billing portal');
+      }
+    }
+
+    openCardUpdate(subscriptionId);
+  }, [authStatus]);
+
   // Filter subscriptions - memoized to prevent recalculation on every render
   // Must be defined before any conditional returns to follow Rules of Hooks
   const filteredSubscriptions = useMemo(
@@ -0,0 +1,352 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Minus, Plus, Search, Trash2 } from 'lucide-react';
+
+interface EditableItem {
+  id: string;
+  quantity: number;
+  product: {
+    id: string;
+    title: string;
+  };
+  variant: {
+    id: string;
+  } | null;
+}
+
+interface VariantOption {
+  id: string;
+  size: string | null;
+  color: string | null;
+  material: string | null;
+}
+
+interface ProductResult {
+  id: string;
+  title: string;
+}
+
+interface SubscriptionItemsEditorProps {
+  subscriptionId: string;
+  items: EditableItem[];
+  onUpdate?: () => void;
+}
+
+const MAX_QUANTITY = 99;
+
+function variantLabel(variant: VariantOption): string {
+  return [variant.size, variant.color, variant.material].filter(Boolean).join(' / ') || 'Default';
+}
+
+async function getCsrfToken() {
+  const response = await fetch('/api/csrf', { cache: 'no-store' });
+  if (!response.ok) {
+    return null;
+  }
+  const data = await response.json();
+  return typeof data?.token === 'string' ? data.token : null;
+}
+
+async function fetchVariants(productId: string): Promise<VariantOption[]> {
+  const response = await fetch(`/api/products/${productId}`);
+  if (!response.ok) {
+    return [];
+  }
+  const data = await response.json();
+  return data?.data?.variants || [];
+}
+
+export function SubscriptionItemsEditor({
+  subscriptionId,
+  items,
+  onUpdate,
+}: SubscriptionItemsEditorProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [variantsByProduct, setVariantsByProduct] = useState<Record<string, VariantOption[]>>({});
+  const [searchDraft, setSearchDraft] = useState('');
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<ProductResult[]>([]);
+  const [selectedProduct, setSelectedProduct] = useState<ProductResult | null>(null);
+  const [selectedVariantId, setSelectedVariantId] = useState('');
+  const [newQuantity, setNewQuantity] = useState(1);
+
+  const productIdsKey = Array.from(new Set(items.map((item) => item.product.id))).sort().join(',');
+
+  // Load variant options so items can be swapped to another variant
+  useEffect(() => {
+    if (!productIdsKey) return;
+
+    async function loadVariants() {
+      const productIds = productIdsKey.split(',');
+      const variants = await Promise.all(productIds.map(fetchVariants));
+      setVariantsByProduct((current) => ({
+        ...current,
+        ...Object.fromEntries(productIds.map((id, index) => [id, variants[index]])),
+      }));
+    }
+
+    loadVariants();
+  }, [productIdsKey]);
+
+  useEffect(() => {
+    if (!search) return;
+
+    async function searchProducts() {
+      try {
+        const params = new URLSearchParams({ subscribable: 'true', search, pageSize: '5' });
+        const response = await fetch(`/api/products?${params.toString()}`);
+        const data = await response.json().catch(() => null);
+        setResults(response.ok ? data?.data || [] : []);
+      } catch {
+        setResults([]);
+      }
+    }
+
+    searchProducts();
+  }, [search]);
+
+  useEffect(() => {
+    if (!selectedProduct || variantsByProduct[selectedProduct.id]) return;
+
+    const productId = selectedProduct.id;
+    async function loadSelectedVariants() {
+      const variants = await fetchVariants(productId);
+      setVariantsByProduct((current) => ({ ...current, [productId]: variants }));
+    }
+
+    loadSelectedVariants();
+  }, [selectedProduct, variantsByProduct]);
+
+  const sendChange = async (
+    path: string,
+    method: 'POST' | 'PATCH' | 'DELETE',
+    body: Record<string, unknown> | null,
+    successMessage: string
+  ) => {
+    setIsSaving(true);
+    try {
+      const csrfToken = await getCsrfToken();
+      const response = await fetch(`/api/subscriptions/${subscriptionId}/items${path}`, {
+        method,
+        headers: {
+          ...(body ? { 'Content-Type': 'application/json' } : {}),
+          ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+        },
+        ...(body ? { body: JSON.stringify(body) } : {}),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error?.message || 'Failed to update subscription items');
+      }
+
+      toast.success(successMessage);
+      onUpdate?.();
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update subscription items');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleQuantity = (item: EditableItem, quantity: number) => {
+    sendChange(`/${item.id}`, 'PATCH', { quantity }, 'Quantity updated');
+  };
+
+  const handleSwap = (item: EditableItem, variantId: string) => {
+    sendChange(`/${item.id}`, 'PATCH', { variantId }, 'Variant updated');
+  };
+
+  const handleRemove = (item: EditableItem) => {
+    if (!confirm(`Remove ${item.product.title} from this subscription?`)) {
+      return;
+    }
+    sendChange(`/${item.id}`, 'DELETE', null, 'Item removed');
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSelectedProduct(null);
+    setSearch(searchDraft.trim());
+  };
+
+  const handleAdd = async () => {
+    if (!selectedProduct) return;
+
+    const added = await sendChange(
+      '',
+      'POST',
+      {
+        productId: selectedProduct.id,
+        variantId: selectedVariantId || null,
+        quantity: newQuantity,
+      },
+      `${selectedProduct.title} added`
+    );
+
+    if (added) {
+      setSelectedProduct(null);
+      setSelectedVariantId('');
+      setNewQuantity(1);
+      setResults([]);
+      setSearchDraft('');
+      setSearch('');
+    }
+  };
+
+  const selectedVariants = selectedProduct ? variantsByProduct[selectedProduct.id] || [] : [];
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y divide-border">
+        {items.map((item) => {
+          const variants = variantsByProduct[item.product.id] || [];
+          return (
+            <li key={item.id} className="flex flex-wrap items-center gap-3 py-2">
+              <span className="min-w-0 flex-1 text-sm font-medium text-foreground">
+                {item.product.title}
+              </span>
+              {variants.length > 1 && item.variant && (
+                <select
+                  aria-label={`Variant for ${item.product.title}`}
+                  value={item.variant.id}
+                  onChange={(e) => handleSwap(item, e.target.value)}
+                  disabled={isSaving}
+                  className="rounded-md border border-border bg-background px-2 py-1 text-xs text-foreground"
+                >
+                  {variants.map((variant) => (
+                    <option key={variant.id} value={variant.id}>
+                      {variantLabel(variant)}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  aria-label="Decrease quantity"
+                  onClick={() => handleQuantity(item, item.quantity - 1)}
+                  disabled={isSaving || item.quantity <= 1}
+                  className="rounded-md border border-border p-1 hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <Minus className="size-3" />
+                </button>
+                <span className="w-6 text-center text-sm text-foreground">{item.quantity}</span>
+                <button
+                  type="button"
+                  aria-label="Increase quantity"
+                  onClick={() => handleQuantity(item, item.quantity + 1)}
+                  disabled={isSaving || item.quantity >= MAX_QUANTITY}
+                  className="rounded-md border border-border p-1 hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <Plus className="size-3" />
+                </button>
+              </div>
+              <button
+                type="button"
+                aria-label={`Remove ${item.product.title}`}
+                onClick={() => handleRemove(item)}
+                disabled={isSaving || items.length <= 1}
+                title={items.length <= 1 ? 'Cancel the subscription to remove its last item' : undefined}
+                className="rounded-md p-1 text-red-700 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50 dark:text-red-300"
+              >
+                <Trash2 className="size-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Add a product */}
+      <div className="space-y-2">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <input
+            value={searchDraft}
+            onChange={(e) => setSearchDraft(e.target.value)}
+            placeholder="Find a Subscribe & Save product"
+            className="min-w-0 flex-1 rounded-md border border-border bg-background px-3 py-1.5 text-sm text-foreground"
+          />
+          <button
+            type="submit"
+            className="inline-flex items-center rounded-md border border-border bg-card px-3 py-1.5 text-xs font-medium text-foreground hover:bg-muted"
+          >
+            <Search className="mr-1.5 size-4" />
+            Search
+          </button>
+        </form>
+
+        {search && !selectedProduct && (
+          <ul className="divide-y divide-border rounded-md border border-border">
+            {results.length === 0 ? (
+              <li className="px-3 py-2 text-sm text-muted-foreground">No matching products</li>
+            ) : (
+              results.map((product) => (
+                <li key={product.id}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSelectedProduct(product);
+                      setSelectedVariantId('');
+                    }}
+                    className="w-full px-3 py-2 text-left text-sm text-foreground hover:bg-muted"
+                  >
+                    {product.title}
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+        )}
+
+        {selectedProduct && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border border-border p-3">
+            <span className="min-w-0 flex-1 text-sm font-medium text-foreground">
+              {selectedProduct.title}
+            </span>
+            {selectedVariants.length > 0 && (
+              <select
+                aria-label="Variant"
+                value={selectedVariantId}
+                onChange={(e) => setSelectedVariantId(e.target.value)}
+                className="rounded-md border border-border bg-background px-2 py-1 text-xs text-foreground"
+              >
+                <option value="">Choose an option</option>
+                {selectedVariants.map((variant) => (
+                  <option key={variant.id} value={variant.id}>
+                    {variantLabel(variant)}
+                  </option>
+                ))}
+              </select>
+            )}
+            <input
+              type="number"
+              aria-label="Quantity"
+              min={1}
+              max={MAX_QUANTITY}
+              value={newQuantity}
+              onChange={(e) =>
+                setNewQuantity(Math.min(MAX_QUANTITY, Math.max(1, Number(e.target.value) || 1)))
+              }
+              className="w-16 rounded-md border border-border bg-background px-2 py-1 text-sm text-foreground"
+            />
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={isSaving || (selectedVariants.length > 0 && !selectedVariantId)}
+              className="inline-flex items-center rounded-md border border-green-600 bg-green-700 px-3 py-1.5 text-xs font-medium text-white hover:bg-green-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <Plus className="mr-1.5 size-4" />
+              Add to subscription
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SubscriptionItemsEditor;
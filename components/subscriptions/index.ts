@@ -2,3 +2,4 @@ export { SubscribeOption } from './SubscribeOption';
 export { FrequencySelector } from './FrequencySelector';
 export { SubscriptionCard } from './SubscriptionCard';
 export { SubscriptionDashboard } from './SubscriptionDashboard';
+export { SubscriptionItemsEditor } from './SubscriptionItemsEditor';
@@ -0,0 +1,286 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ExternalLink, Loader2, Package, Recycle, Truck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+type SubmissionStatus = "PENDING" | "LABEL_SENT" | "SHIPPED" | "RECEIVED" | "PROCESSED";
+
+interface Submission {
+  id: string;
+  visibleId: string;
+  status: SubmissionStatus;
+  itemCount: number | null;
+  weightKg: number | null;
+  shippingLabelUrl: string | null;
+  trackingNumber: string | null;
+  carrier: string | null;
+  pointsAwarded: number;
+  labelRequestedAt: string;
+  processedAt: string | null;
+}
+
+interface Stats {
+  totalSubmissions: number;
+  totalItemsRecycled: number;
+  totalWeightKg: number;
+  totalPointsEarned: number;
+  co2SavedKg: number;
+  waterSavedLiters: number;
+}
+
+const STATUS_LABELS: Record<SubmissionStatus, { label: string; description: string }> = {
+  PENDING: { label: "Label requested", description: "We're preparing your prepaid label." },
+  LABEL_SENT: { label: "Ready to ship", description: "Print your label and drop off the box." },
+  SHIPPED: { label: "On its way", description: "Your box is on its way to TerraCycle." },
+  RECEIVED: { label: "Received", description: "TerraCycle is sorting your box." },
+  PROCESSED: { label: "Recycled", description: "Your items have been recycled." },
+};
+
+async function getCsrfToken(): Promise<string | undefined> {
+  const csrfResponse = await fetch("/api/csrf");
+  const { token } = await csrfResponse.json();
+  return token;
+}
+
+interface TerraCycleDashboardProps {
+  className?: string;
+}
+
+export function TerraCycleDashboard({ className }: TerraCycleDashboardProps) {
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [itemCount, setItemCount] = useState("");
+  const [requesting, setRequesting] = useState(false);
+  const [shippingId, setShippingId] = useState<string | null>(null);
+  const [trackingNumbers, setTrackingNumbers] = useState<Record<string, string>>({});
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch("/api/terracycle");
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setSubmissions(data.data.submissions);
+        setStats(data.data.stats);
+      }
+    } catch (error) {
+      if (process.env.NODE_ENV === "development") {
+        console.error("Failed to fetch recycling shipments:", error);
+      }
+      toast.error("Failed to load your recycling shipments");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleRequestLabel = async () => {
+    setRequesting(true);
+    try {
+      const csrfToken = await getCsrfToken();
+      const count = parseInt(itemCount, 10);
+
+      const response = await fetch("/api/terracycle", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
+        },
+        body: JSON.stringify(Number.isNaN(count) ? {} : { itemCount: count }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || "Failed to request a label");
+      }
+
+      toast.success("Label requested! We'll email you when it's ready.");
+      setItemCount("");
+      await fetchHistory();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to request a label");
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const handleMarkShipped = async (submission: Submission) => {
+    setShippingId(submission.id);
+    try {
+      const csrfToken = await getCsrfToken();
+      const trackingNumber = trackingNumbers[submission.id]?.trim();
+
+      const response = await fetch(`/api/terracycle/${submission.id}/shipped`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
+        },
+        body: JSON.stringify(trackingNumber ? { trackingNumber } : {}),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || "Failed to update shipment");
+      }
+
+      toast.success("Thanks! We'll let you know when it arrives.");
+      await fetchHistory();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update shipment");
+    } finally {
+      setShippingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className={cn("flex items-center justify-center py-12", className)}>
+        <Loader2 className="size-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      {stats && stats.totalSubmissions > 0 && (
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          {[
+            { label: "Items recycled", value: stats.totalItemsRecycled },
+            { label: "Kg recycled", value: stats.totalWeightKg.toFixed(1) },
+            { label: "Kg CO2 saved", value: stats.co2SavedKg.toFixed(1) },
+            { label: "Points earned", value: stats.totalPointsEarned },
+          ].map((stat) => (
+            <Card key={stat.label}>
+              <CardContent className="pt-6 text-center">
+                <p className="text-2xl font-bold">{stat.value}</p>
+                <p className="text-sm text-muted-foreground">{stat.label}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Recycle className="size-5" />
+            Request a Free Shipping Label
+          </CardTitle>
+          <CardDescription>
+            Fill a box with empty packaging and we&apos;ll send you a prepaid label. You earn
+            loyalty points once TerraCycle has recycled it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="terracycle-item-count">Approximate number of items</Label>
+              <Input
+                id="terracycle-item-count"
+                type="number"
+                min={1}
+                value={itemCount}
+                onChange={(event) => setItemCount(event.target.value)}
+                className="sm:w-48"
+              />
+            </div>
+            <Button onClick={handleRequestLabel} disabled={requesting}>
+              {requesting && <Loader2 className="mr-2 size-4 animate-spin" />}
+              Request Label
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Shipments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {submissions.length === 0 ? (
+            <p className="py-6 text-center text-muted-foreground">
+              You haven&apos;t sent anything for recycling yet.
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {submissions.map((submission) => (
+                <li key={submission.id} className="space-y-3 py-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Package className="size-4 text-muted-foreground" />
+                      <span className="font-medium">{submission.visibleId}</span>
+                      <Badge variant={submission.status === "PROCESSED" ? "default" : "secondary"}>
+                        {STATUS_LABELS[submission.status].label}
+                      </Badge>
+                    </div>
+                    <span className="text-sm text-muted-foreground">
+                      Requested {new Date(submission.labelRequestedAt).toLocaleDateString()}
+                    </span>
+                  </div>
+
+                  <p className="text-sm text-muted-foreground">
+                    {STATUS_LABELS[submission.status].description}
+                    {submission.status === "PROCESSED" && submission.weightKg !== null && (
+                      <> {submission.weightKg} kg recycled, {submission.pointsAwarded} points earned.</>
+                    )}
+                    {submission.trackingNumber && (
+                      <> Tracking: {submission.carrier ? `${submission.carrier} ` : ""}{submission.trackingNumber}</>
+                    )}
+                  </p>
+
+                  {submission.status === "LABEL_SENT" && (
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                      {submission.shippingLabelUrl && (
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={submission.shippingLabelUrl} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="mr-2 size-4" />
+                            Print Label
+                          </a>
+                        </Button>
+                      )}
+                      <Input
+                        placeholder="Tracking number (optional)"
+                        aria-label={`Tracking number for ${submission.visibleId}`}
+                        value={trackingNumbers[submission.id] ?? ""}
+                        onChange={(event) =>
+                          setTrackingNumbers((current) => ({
+                            ...current,
+                            [submission.id]: event.target.value,
+                          }))
+                        }
+                        className="sm:w-56"
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => handleMarkShipped(submission)}
+                        disabled={shippingId === submission.id}
+                      >
+                        {shippingId === submission.id ? (
+                          <Loader2 className="mr-2 size-4 animate-spin" />
+                        ) : (
+                          <Truck className="mr-2 size-4" />
+                        )}
+                        Mark as Shipped
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
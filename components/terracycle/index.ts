@@ -5,3 +5,4 @@ export { TerraCycleHero } from "./TerraCycleHero";
 export { RecyclingSteps } from "./RecyclingSteps";
 export { AcceptedItems } from "./AcceptedItems";
 export { TerraCycleFAQ } from "./TerraCycleFAQ";
+export { TerraCycleDashboard } from "./TerraCycleDashboard";
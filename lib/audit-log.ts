@@ -0,0 +1,252 @@
+/**
+ * Audit Log
+ *
+ * Append-only record of admin and financial mutations. Each entry captures
+ * who acted, what they did, which entity changed and a before/after diff,
+ * along with the request id (set in `proxy.ts`) and client IP so entries can
+ * be correlated with application logs.
+ *
+ * Route handlers opt in via `withAuditLog`, which hands the handler an
+ * `AuditRecorder` to fill in and writes the entry once the handler has
+ * responded successfully. Failed or rejected requests are never recorded.
+ *
+ * Blog edits and role changes are not audited: no API route makes them yet
+ * (the admin blog pages post to a `/api/blog` that does not exist, and roles
+ * are only set in the database). Wrap those routes when they are added.
+ *
+ * @module lib/audit-log
+ */
+
+import { prisma } from '@/lib/prisma'
+import { getServerAuth } from '@/lib/auth'
+import { logger, getRequestIdFromRequest } from '@/lib/logger'
+
+export const AUDIT_LOG_CONFIG = {
+  // Fields that must never be written to the log
+  redactedFields: ['password', 'tokenVersion', 'stripeCustomerId'],
+  redactedValue: '[REDACTED]',
+  // Upper bound on rows returned by a single export
+  maxExportRows: 5000,
+} as const
+
+export interface AuditFieldChange {
+  before: unknown
+  after: unknown
+}
+
+export type AuditChanges = Record<string, AuditFieldChange>
+
+/**
+ * Filled in by an audited handler. Leaving `entityId` unset (or setting
+ * `skip`) means nothing is recorded, e.g. for previews or no-op requests.
+ */
+export interface AuditRecorder {
+  entityId: string | null
+  before: unknown
+  after: unknown
+  skip: boolean
+}
+
+export interface AuditLogEntry {
+  action: string
+  entityType: string
+  entityId: string
+  actorUserId?: string | null
+  actorEmail?: string | null
+  before?: unknown
+  after?: unknown
+  requestId?: string | null
+  ipAddress?: string | null
+}
+
+export interface AuditLogOptions {
+  /** Dotted action name, e.g. `order.refund` or `product.update` */
+  action: string
+  /** Prisma model name of the mutated entity, e.g. `Order` */
+  entityType: string
+}
+
+/**
+ * Converts a value to plain JSON (Dates to ISO strings, Decimals to strings)
+ * and redacts sensitive fields at any depth.
+ */
+export function toAuditJson(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null
+  }
+
+  const redacted = new Set<string>(AUDIT_LOG_CONFIG.redactedFields)
+  return JSON.parse(
+    JSON.stringify(value, (key, fieldValue) =>
+      redacted.has(key) ? AUDIT_LOG_CONFIG.redactedValue : fieldValue
+    )
+  )
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Computes a field-level diff between two snapshots. Creations (no before)
+ * and deletions (no after) list every field; nested objects and arrays are
+ * compared as a whole.
+ */
+export function diffAuditSnapshots(before: unknown, after: unknown): AuditChanges {
+  const beforeJson = toAuditJson(before)
+  const afterJson = toAuditJson(after)
+  const beforeFields = isPlainObject(beforeJson) ? beforeJson : {}
+  const afterFields = isPlainObject(afterJson) ? afterJson : {}
+  const changes: AuditChanges = {}
+
+  const fields = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])
+  for (const field of fields) {
+    const beforeValue = field in beforeFields ? beforeFields[field] : null
+    const afterValue = field in afterFields ? afterFields[field] : null
+
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue }
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Returns the originating client IP from proxy headers.
+ */
+export function getClientIp(request: Request): string | null {
+  const forwarded = request.headers.get('x-forwarded-for')
+  if (forwarded) {
+    return forwarded.split(',')[0].trim() || null
+  }
+  return request.headers.get('x-real-ip')
+}
+
+/**
+ * Appends an entry to the audit log.
+ */
+export async function recordAuditLog(entry: AuditLogEntry) {
+  const changes = diffAuditSnapshots(entry.before, entry.after)
+
+  return prisma.auditLog.create({
+    data: {
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      actorUserId: entry.actorUserId ?? null,
+      actorEmail: entry.actorEmail ?? null,
+      changes: Object.keys(changes).length > 0 ? JSON.stringify(changes) : null,
+      requestId: entry.requestId ?? null,
+      ipAddress: entry.ipAddress ?? null,
+    },
+  })
+}
+
+/**
+ * Wraps a route handler so that successful responses are recorded in the
+ * audit log. The handler describes the mutation through the recorder:
+ *
+ * ```ts
+ * export const PATCH = withAuditLog(
+ *   { action: 'product.update', entityType: 'Product' },
+ *   async (request, context: RouteContext, audit) => {
+ *     audit.entityId = id
+ *     audit.before = existing
+ *     audit.after = await prisma.product.update(...)
+ *     return successResponse(...)
+ *   }
+ * )
+ * ```
+ *
+ * Audit write failures are logged but never change the handler's response,
+ * since the mutation itself has already been committed.
+ */
+export function withAuditLog<TRequest extends Request = Request, TContext = unknown>(
+  options: AuditLogOptions,
+  handler: (request: TRequest, context: TContext, audit: AuditRecorder) => Promise<Response>
+): (request: TRequest, context: TContext) => Promise<Response> {
+  return async (request, context) => {
+    const audit: AuditRecorder = { entityId: null, before: null, after: null, skip: false }
+    const response = await handler(request, context, audit)
+
+    if (!response.ok || audit.skip || !audit.entityId) {
+      return response
+    }
+
+    try {
+      const { userId, user } = await getServerAuth()
+
+      await recordAuditLog({
+        action: options.action,
+        entityType: options.entityType,
+        entityId: audit.entityId,
+        actorUserId: userId,
+        actorEmail: user?.email ?? null,
+        before: audit.before,
+        after: audit.after,
+        requestId: getRequestIdFromRequest(request) ?? null,
+        ipAddress: getClientIp(request),
+      })
+    } catch (error) {
+      logger.error('Failed to write audit log entry', error instanceof Error ? error : undefined, {
+        action: options.action,
+        entityType: options.entityType,
+        entityId: audit.entityId,
+      })
+    }
+
+    return response
+  }
+}
+
+/**
+ * Escapes a value for inclusion in a CSV cell.
+ */
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value)
+  // Neutralise spreadsheet formulas and quote anything with separators
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export interface AuditLogCsvRow {
+  id: string
+  createdAt: Date | string
+  action: string
+  entityType: string
+  entityId: string
+  actorUserId: string | null
+  actorEmail: string | null
+  changes: string | null
+  requestId: string | null
+  ipAddress: string | null
+}
+
+const CSV_COLUMNS: Array<keyof AuditLogCsvRow> = [
+  'id',
+  'createdAt',
+  'action',
+  'entityType',
+  'entityId',
+  'actorUserId',
+  'actorEmail',
+  'changes',
+  'requestId',
+  'ipAddress',
+]
+
+/**
+ * Formats audit log rows as CSV with a header line.
+ */
+export function formatAuditLogCsv(rows: AuditLogCsvRow[]): string {
+  const lines = [CSV_COLUMNS.join(',')]
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map((column) => toCsvCell(row[column])).join(','))
+  }
+  return lines.join('\n') + '\n'
+}
@@ -1,5 +1,6 @@
 import { auth as nextAuth } from '@/auth';
 import { prisma } from '@/lib/prisma';
+import { meetsTwoFactorPolicy } from '@/lib/two-factor';
 
 /**
  * Server-side auth helper using NextAuth
@@ -16,6 +17,7 @@ export async function getServerAuth() {
 
 /**
  * Check if user has a specific role
+ * ADMIN and EDITOR accounts only pass once they have enrolled in 2FA.
  * @param userId - The user ID to check
  * @param allowedRoles - Array of allowed roles
  * @returns true if user has one of the allowed roles
@@ -28,12 +30,12 @@ export async function requireRole(
 
   const user = await prisma.user.findUnique({
     where: { id: userId },
-    select: { role: true },
+    select: { role: true, twoFactorEnabled: true },
   });
 
   if (!user) return false;
 
-  return allowedRoles.includes(user.role);
+  return allowedRoles.includes(user.role) && meetsTwoFactorPolicy(user);
 }
 
 /**
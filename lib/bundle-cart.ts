@@ -0,0 +1,231 @@
+/**
+ * Bundle Cart Lines
+ *
+ * Adding a bundle to the cart records a BundleSelection and adds one cart
+ * line per product linked to it. Linked lines are kept apart from lines for
+ * the same products added on their own, and are priced with the bundle's
+ * discount everywhere the cart is priced (cart, shipping quotes, promo codes
+ * and checkout):
+ *
+ * - Removing one line of a bundle breaks it apart: the rest of its lines
+ *   become ordinary lines at full price and the selection is marked `broken`.
+ * - Removing the whole bundle removes all its lines and marks it `removed`.
+ * - The checkout webhook marks the selection `purchased` once paid.
+ *
+ * The discount only applies while the selection is `in_cart` and the bundle
+ * is still active.
+ *
+ * Lines bought from an imperfect batch are priced here too, with the batch's
+ * discount (see lib/imperfect-batches).
+ *
+ * @module lib/bundle-cart
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getImperfectBatchPrice } from '@/lib/imperfect-batches'
+
+export const BUNDLE_SELECTION_STATUS = {
+  PENDING: 'pending',
+  IN_CART: 'in_cart',
+  BROKEN: 'broken',
+  REMOVED: 'removed',
+  PURCHASED: 'purchased',
+} as const
+
+/**
+ * Include for loading cart lines with everything needed to price them.
+ */
+export const CART_LINE_INCLUDE = {
+  product: true,
+  variant: true,
+  bundleSelection: {
+    select: {
+      id: true,
+      status: true,
+      bundle: {
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          discountPercent: true,
+          isActive: true,
+        },
+      },
+    },
+  },
+  imperfectBatch: {
+    select: {
+      id: true,
+      reason: true,
+      discountPercent: true,
+      quantity: true,
+      isActive: true,
+      expiresAt: true,
+    },
+  },
+} satisfies Prisma.CartItemInclude
+
+export type PricedCartLine = Prisma.CartItemGetPayload<{ include: typeof CART_LINE_INCLUDE }>
+
+type PricingLine = Pick<PricedCartLine, 'product' | 'variant' | 'bundleSelection'> &
+  Partial<Pick<PricedCartLine, 'imperfectBatch'>>
+
+/**
+ * Full unit price of a line, before any bundle or imperfect batch discount.
+ */
+export function getCartLineBasePrice(line: Pick<PricingLine, 'product' | 'variant'>): number {
+  return Number(
+    line.variant?.salePrice ?? line.variant?.price ?? line.product.salePrice ?? line.product.price
+  )
+}
+
+/**
+ * The bundle discount that applies to a line, or 0 for lines outside a
+ * bundle (or in one that no longer qualifies).
+ */
+export function getCartLineBundleDiscountPercent(line: Pick<PricingLine, 'bundleSelection'>): number {
+  const selection = line.bundleSelection
+  if (
+    !selection ||
+    selection.status !== BUNDLE_SELECTION_STATUS.IN_CART ||
+    !selection.bundle.isActive
+  ) {
+    return 0
+  }
+  return Math.min(100, Math.max(0, selection.bundle.discountPercent))
+}
+
+/**
+ * Unit price charged for a line, rounded to the cent.
+ */
+export function getCartLineUnitPrice(line: PricingLine): number {
+  if (line.imperfectBatch) {
+    return getImperfectBatchPrice(getCartLineBasePrice(line), line.imperfectBatch.discountPercent)
+  }
+
+  const discountPercent = getCartLineBundleDiscountPercent(line)
+  const price = getCartLineBasePrice(line) * (1 - discountPercent / 100)
+  return Math.round(price * 100) / 100
+}
+
+/**
+ * Turns the remaining lines of a bundle into ordinary lines, merging each
+ * into an existing line for the same product and variant if there is one.
+ */
+async function breakApartBundle(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  bundleSelectionId: string
+): Promise<void> {
+  const bundleLines = await tx.cartItem.findMany({
+    where: { userId, bundleSelectionId },
+    select: { id: true, productId: true, variantId: true, quantity: true },
+  })
+
+  for (const line of bundleLines) {
+    const plainLine = await tx.cartItem.findFirst({
+      where: {
+        userId,
+        productId: line.productId,
+        variantId: line.variantId,
+        bundleSelectionId: null,
+      },
+      select: { id: true },
+    })
+
+    if (plainLine) {
+      await tx.cartItem.update({
+        where: { id: plainLine.id },
+        data: { quantity: { increment: line.quantity } },
+      })
+      await tx.cartItem.delete({ where: { id: line.id } })
+    } else {
+      await tx.cartItem.update({
+        where: { id: line.id },
+        data: { bundleSelectionId: null },
+      })
+    }
+  }
+
+  await tx.bundleSelection.updateMany({
+    where: { id: bundleSelectionId, status: BUNDLE_SELECTION_STATUS.IN_CART },
+    data: { status: BUNDLE_SELECTION_STATUS.BROKEN },
+  })
+}
+
+/**
+ * Removes one cart line. If it was part of a bundle, the bundle is broken
+ * apart and its other lines stay in the cart at full price.
+ */
+export async function removeCartLine(
+  userId: string,
+  cartItemId: string
+): Promise<{ removed: boolean; brokenBundleSelectionId: string | null }> {
+  return prisma.$transaction(async (tx) => {
+    const line = await tx.cartItem.findFirst({
+      where: { id: cartItemId, userId },
+      select: { id: true, bundleSelectionId: true },
+    })
+
+    if (!line) {
+      return { removed: false, brokenBundleSelectionId: null }
+    }
+
+    await tx.cartItem.delete({ where: { id: line.id } })
+
+    if (line.bundleSelectionId) {
+      await breakApartBundle(tx, userId, line.bundleSelectionId)
+    }
+
+    return { removed: true, brokenBundleSelectionId: line.bundleSelectionId }
+  })
+}
+
+/**
+ * Removes every line of a bundle from the cart.
+ */
+export async function removeBundleFromCart(
+  userId: string,
+  bundleSelectionId: string
+): Promise<{ removed: number }> {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.cartItem.deleteMany({
+      where: { userId, bundleSelectionId },
+    })
+
+    if (count > 0) {
+      await tx.bundleSelection.updateMany({
+        where: { id: bundleSelectionId, status: BUNDLE_SELECTION_STATUS.IN_CART },
+        data: { status: BUNDLE_SELECTION_STATUS.REMOVED },
+      })
+    }
+
+    return { removed: count }
+  })
+}
+
+/**
+ * Marks the bundles of a paid order as purchased.
+ */
+export async function markBundleSelectionsPurchased(
+  client: Pick<typeof prisma, 'bundleSelection'>,
+  orderItems: Array<{ bundleSelectionId: string | null }>
+): Promise<void> {
+  const bundleSelectionIds = [
+    ...new Set(
+      orderItems
+        .map((item) => item.bundleSelectionId)
+        .filter((id): id is string => Boolean(id))
+    ),
+  ]
+
+  if (bundleSelectionIds.length === 0) {
+    return
+  }
+
+  await client.bundleSelection.updateMany({
+    where: { id: { in: bundleSelectionIds } },
+    data: { status: BUNDLE_SELECTION_STATUS.PURCHASED },
+  })
+}
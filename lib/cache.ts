@@ -39,6 +39,7 @@ export const CacheKeys = {
   BLOG_POST: (slug: string) => `cache:blog_post:${slug}`,
   BLOG_CATEGORIES: "cache:blog_categories",
   BLOG_TAGS: "cache:blog_tags",
+  COMMUNITY_IMPACT: "cache:community_impact",
 } as const;
 
 /**
@@ -195,3 +196,11 @@ export async function invalidateBlogCaches(slug?: string): Promise<void> {
     await deleteCached(CacheKeys.BLOG_POST(slug));
   }
 }
+
+/**
+ * Invalidate impact-related caches
+ * Call this when user impact totals change (orders paid or refunded)
+ */
+export async function invalidateImpactCaches(): Promise<void> {
+  await deleteCached(CacheKeys.COMMUNITY_IMPACT);
+}
@@ -0,0 +1,241 @@
+/**
+ * Carbon Offsets
+ *
+ * Customers can add a carbon offset to an order at checkout. The offset
+ * covers the products' carbon footprint (`carbonFootprintGrams`) plus an
+ * estimate for shipping them:
+ *
+ * - Shipping emissions are estimated from the cart weight and the shipping
+ *   speed. The speed is picked on the Stripe payment page, after the offset
+ *   is added, so checkout prices the offset for the most carbon-intensive
+ *   speed on offer; it covers whichever one the customer picks.
+ * - Checkout records the offset on the pending order. Once the order is
+ *   paid, the `carbonOffset.purchase` job buys it from the configured
+ *   provider and stores a CarbonOffset with its certificate.
+ * - Purchased offsets count towards the community carbon offset total.
+ *
+ * The provider is chosen by CARBON_OFFSET_PROVIDER. Only the local `fake`
+ * provider exists so far; it issues certificates without buying anything.
+ *
+ * @module lib/carbon-offsets
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { invalidateImpactCaches } from '@/lib/cache'
+
+export const CARBON_OFFSET_CONFIG = {
+  // Price per kg of CO2e offset (USD), i.e. $20 per tonne
+  PRICE_PER_KG: 0.02,
+
+  // Smallest offset charge (USD)
+  MIN_PRICE: 0.5,
+
+  // Weight assumed for products without a shipping weight
+  DEFAULT_ITEM_WEIGHT_GRAMS: 500,
+
+  // Grams of CO2e per kg shipped, by shipping speed (express ships by air)
+  SHIPPING_EMISSIONS_GRAMS_PER_KG: {
+    standard: 200,
+    express: 1000,
+  } as Record<string, number>,
+
+  DEFAULT_PROVIDER: 'fake',
+
+  // Impact metric purchased offsets are added to
+  IMPACT_METRIC_SLUG: 'carbon-offset',
+} as const
+
+/**
+ * Cart line used to price an offset.
+ */
+export interface CarbonOffsetLine {
+  carbonFootprintGrams: number | null
+  weightGrams: number | null
+  quantity: number
+}
+
+export interface CarbonOffsetQuote {
+  offsetKg: number
+  price: number
+  shippingSpeed: string
+}
+
+export interface CarbonOffsetPurchaseRequest {
+  orderId: string
+  offsetKg: number
+}
+
+export interface CarbonOffsetPurchase {
+  provider: string
+  projectName: string
+  certificateUrl: string | null
+  reference: string
+}
+
+export interface CarbonOffsetProvider {
+  name: string
+  purchase(request: CarbonOffsetPurchaseRequest): Promise<CarbonOffsetPurchase>
+}
+
+function roundToCents(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100
+}
+
+function getShippingEmissionsPerKg(shippingSpeed: string): number {
+  const rates = CARBON_OFFSET_CONFIG.SHIPPING_EMISSIONS_GRAMS_PER_KG
+  return rates[shippingSpeed] ?? Math.max(...Object.values(rates))
+}
+
+/**
+ * Prices the offset for a cart shipped at the given speed. Unknown speeds
+ * are treated as the most carbon-intensive one.
+ */
+export function calculateCarbonOffset(
+  lines: CarbonOffsetLine[],
+  shippingSpeed: string
+): CarbonOffsetQuote {
+  let productGrams = 0
+  let weightGrams = 0
+  for (const line of lines) {
+    productGrams += (line.carbonFootprintGrams ?? 0) * line.quantity
+    weightGrams +=
+      (line.weightGrams ?? CARBON_OFFSET_CONFIG.DEFAULT_ITEM_WEIGHT_GRAMS) * line.quantity
+  }
+
+  const shippingGrams = (weightGrams / 1000) * getShippingEmissionsPerKg(shippingSpeed)
+
+  // Round up to the next 10 g so the offset never falls short
+  const offsetKg = Math.ceil((productGrams + shippingGrams) / 10) / 100
+
+  return {
+    offsetKg,
+    price: Math.max(
+      CARBON_OFFSET_CONFIG.MIN_PRICE,
+      roundToCents(offsetKg * CARBON_OFFSET_CONFIG.PRICE_PER_KG)
+    ),
+    shippingSpeed,
+  }
+}
+
+/**
+ * Prices the offset for the most carbon-intensive of the shipping options
+ * offered, since the customer picks one only after checkout starts.
+ */
+export function getCarbonOffsetQuote(
+  lines: CarbonOffsetLine[],
+  shippingOptions: Array<{ speed: string }>
+): CarbonOffsetQuote {
+  const speeds = shippingOptions.length > 0 ? shippingOptions.map((option) => option.speed) : ['standard']
+  const shippingSpeed = speeds.reduce((highest, speed) =>
+    getShippingEmissionsPerKg(speed) > getShippingEmissionsPerKg(highest) ? speed : highest
+  )
+
+  return calculateCarbonOffset(lines, shippingSpeed)
+}
+
+/**
+ * Local provider for development and tests. Issues a certificate reference
+ * without buying anything.
+ */
+export const fakeCarbonOffsetProvider: CarbonOffsetProvider = {
+  name: 'fake',
+  async purchase(request) {
+    return {
+      provider: 'Link Flame Test Offsets',
+      projectName: 'Test Reforestation Project',
+      certificateUrl: null,
+      reference: `FAKE-${request.orderId}`,
+    }
+  },
+}
+
+const CARBON_OFFSET_PROVIDERS: Record<string, CarbonOffsetProvider> = {
+  fake: fakeCarbonOffsetProvider,
+}
+
+/**
+ * The provider named by CARBON_OFFSET_PROVIDER (default `fake`).
+ */
+export function getCarbonOffsetProvider(): CarbonOffsetProvider {
+  const name = process.env.CARBON_OFFSET_PROVIDER || CARBON_OFFSET_CONFIG.DEFAULT_PROVIDER
+  const provider = CARBON_OFFSET_PROVIDERS[name]
+  if (!provider) {
+    throw new Error(`Unknown carbon offset provider: ${name}`)
+  }
+  return provider
+}
+
+/**
+ * Buys the offset added to a paid order and records it. Does nothing when
+ * the order has no offset, already has one, or was refunded before the
+ * offset was bought.
+ */
+export async function purchaseOrderCarbonOffset(
+  orderId: string,
+  provider: CarbonOffsetProvider = getCarbonOffsetProvider()
+) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      status: true,
+      carbonOffsetKg: true,
+      carbonOffset: { select: { id: true } },
+    },
+  })
+
+  if (!order || !order.carbonOffsetKg || order.carbonOffset) {
+    return null
+  }
+
+  if (order.status !== 'paid' && order.status !== 'partially_refunded') {
+    logger.info('Skipping carbon offset for unpaid or refunded order', {
+      orderId,
+      status: order.status,
+    })
+    return null
+  }
+
+  const purchase = await provider.purchase({ orderId, offsetKg: order.carbonOffsetKg })
+
+  try {
+    const carbonOffset = await prisma.carbonOffset.create({
+      data: {
+        orderId,
+        offsetAmountKg: order.carbonOffsetKg,
+        provider: purchase.provider,
+        projectName: purchase.projectName,
+        certificateUrl: purchase.certificateUrl,
+        providerReference: purchase.reference,
+      },
+    })
+
+    await invalidateImpactCaches()
+
+    logger.info('Carbon offset purchased', {
+      orderId,
+      offsetKg: order.carbonOffsetKg,
+      provider: provider.name,
+      reference: purchase.reference,
+    })
+
+    return carbonOffset
+  } catch (error) {
+    // Another run recorded it first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Total kg of CO2e offset across all orders.
+ */
+export async function getTotalCarbonOffsetKg(): Promise<number> {
+  const aggregate = await prisma.carbonOffset.aggregate({
+    _sum: { offsetAmountKg: true },
+  })
+  return aggregate._sum.offsetAmountKg ?? 0
+}
@@ -0,0 +1,33 @@
+/**
+ * Scheduled Job Authorization
+ *
+ * Scheduled jobs are plain GET routes under /api/cron, invoked by the
+ * platform scheduler (see vercel.json). Vercel sends
+ * `Authorization: Bearer <CRON_SECRET>` with every cron invocation, so the
+ * routes only need to compare that header against the configured secret.
+ *
+ * Without CRON_SECRET the routes refuse every request rather than running
+ * unauthenticated.
+ *
+ * @module lib/cron
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { logger } from '@/lib/logger'
+
+/**
+ * Check that a request carries the scheduler's bearer secret.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    logger.warn('CRON_SECRET is not set; refusing scheduled job request')
+    return false
+  }
+
+  const header = request.headers.get('authorization') ?? ''
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const provided = Buffer.from(header)
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected)
+}
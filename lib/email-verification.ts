@@ -0,0 +1,133 @@
+/**
+ * Email Verification
+ *
+ * Confirms that credentials sign-ups own the address they registered with.
+ * Tokens mirror password reset tokens: 32 random bytes are emailed and only
+ * their SHA-256 hash is stored. Requesting a new link invalidates older ones.
+ *
+ * Rewards that could be farmed with throwaway or borrowed addresses (the
+ * signup bonus, referral completion) and review posting require a verified
+ * email.
+ *
+ * @module lib/email-verification
+ */
+
+import { randomBytes, createHash } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { sendVerificationEmail } from '@/lib/email'
+
+export const EMAIL_VERIFICATION_CONFIG = {
+  TOKEN_EXPIRY_MS: 24 * 60 * 60 * 1000, // 24 hours
+} as const
+
+/**
+ * Failure result for token verification. `code` lets routes pick a message.
+ */
+export interface EmailVerificationFailure {
+  success: false
+  error: string
+  code: 'INVALID' | 'USED' | 'EXPIRED'
+}
+
+export function hashVerificationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { emailVerified: true },
+  })
+
+  return !!user?.emailVerified
+}
+
+/**
+ * Creates a verification token for the address and emails the link.
+ * Unused tokens for the same address stop working.
+ */
+export async function issueEmailVerification(
+  email: string,
+  now: Date = new Date()
+): Promise<{ sent: boolean }> {
+  const normalizedEmail = email.toLowerCase()
+
+  await prisma.emailVerificationToken.updateMany({
+    where: { email: normalizedEmail, usedAt: null },
+    data: { usedAt: now },
+  })
+
+  const token = randomBytes(32).toString('hex')
+
+  await prisma.emailVerificationToken.create({
+    data: {
+      email: normalizedEmail,
+      tokenHash: hashVerificationToken(token),
+      expiresAt: new Date(now.getTime() + EMAIL_VERIFICATION_CONFIG.TOKEN_EXPIRY_MS),
+    },
+  })
+
+  const result = await sendVerificationEmail(normalizedEmail, token)
+  return { sent: result.success }
+}
+
+/**
+ * Consumes a verification token and marks the account's email verified.
+ * `alreadyVerified` is true when the account was verified before, so callers
+ * only grant first-verification rewards once.
+ */
+export async function verifyEmailToken(
+  token: string,
+  now: Date = new Date()
+): Promise<{ success: true; userId: string; alreadyVerified: boolean } | EmailVerificationFailure> {
+  const record = await prisma.emailVerificationToken.findUnique({
+    where: { tokenHash: hashVerificationToken(token) },
+  })
+
+  if (!record) {
+    return verificationFailure('Invalid or expired verification link.', 'INVALID')
+  }
+
+  if (record.usedAt) {
+    return verificationFailure('This verification link has already been used.', 'USED')
+  }
+
+  if (now > record.expiresAt) {
+    return verificationFailure(
+      'This verification link has expired. Please request a new one.',
+      'EXPIRED'
+    )
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: record.email },
+    select: { id: true, emailVerified: true },
+  })
+
+  if (!user) {
+    return verificationFailure('Invalid or expired verification link.', 'INVALID')
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerified: user.emailVerified ?? now },
+    }),
+    prisma.emailVerificationToken.update({
+      where: { id: record.id },
+      data: { usedAt: now },
+    }),
+  ])
+
+  logger.info('Email verified', { userId: user.id })
+
+  return { success: true, userId: user.id, alreadyVerified: !!user.emailVerified }
+}
+
+function verificationFailure(
+  error: string,
+  code: EmailVerificationFailure['code']
+): EmailVerificationFailure {
+  return { success: false, error, code }
+}
@@ -0,0 +1,256 @@
+/**
+ * Email Service
+ *
+ * Provides email sending functionality for:
+ * - Order confirmations
+ * - Newsletter double opt-in and welcome emails (RFC 8058 one-click unsubscribe)
+ * - Contact form notifications
+ * - Loyalty points expiry reminders
+ * - Back-in-stock and price-drop product alerts
+ * - Email address verification
+ *
+ * Messages are rendered from the typed templates in lib/email/templates
+ * (HTML plus a plain-text alternative) and delivered by the transport
+ * configured in lib/email/transport: Resend in production, or a database
+ * outbox for development and tests.
+ *
+ * @see https://resend.com/docs
+ */
+
+import { logger } from '@/lib/logger';
+import { getBaseUrl } from '@/lib/url';
+import {
+  renderEmailTemplate,
+  type EmailTemplateName,
+  type EmailTemplateProps,
+  type NewsletterEmailLinks,
+  type OrderConfirmationProps,
+  type PriceDropProps,
+  type ProductAlertProps,
+  type ShippingNotificationProps,
+} from './templates';
+import { getEmailTransport } from './transport';
+
+export type { NewsletterEmailLinks } from './templates';
+
+// Default sender email (must be verified domain in Resend)
+const FROM_EMAIL = process.env.EMAIL_FROM || 'noreply@linkflame.com';
+
+export type SendEmailResult = { success: true; id: string | null } | { success: false; error: unknown };
+
+/**
+ * Check if email service is configured
+ */
+export function isEmailConfigured(): boolean {
+  return getEmailTransport() !== null;
+}
+
+/**
+ * Renders a template and delivers it through the configured transport.
+ * Never throws; failures are logged and returned.
+ */
+export async function sendTemplateEmail<N extends EmailTemplateName>(
+  template: N,
+  props: EmailTemplateProps<N>,
+  options: { to: string; replyTo?: string; headers?: Record<string, string> }
+): Promise<SendEmailResult> {
+  const transport = getEmailTransport();
+
+  if (!transport) {
+    logger.warn('Email transport not configured - skipping email', { template });
+    return { success: false, error: 'Email service not configured' };
+  }
+
+  try {
+    const rendered = renderEmailTemplate(template, props);
+    const result = await transport.send({
+      template,
+      from: FROM_EMAIL,
+      to: options.to,
+      replyTo: options.replyTo,
+      headers: options.headers,
+      ...rendered,
+    });
+
+    if (!result.success) {
+      logger.error('Failed to send email', result.error, { template, to: options.to });
+      return result;
+    }
+
+    logger.info('Email sent', { template, to: options.to, transport: transport.name });
+    return result;
+  } catch (error) {
+    logger.error('Error sending email', error, { template, to: options.to });
+    return { success: false, error };
+  }
+}
+
+/**
+ * RFC 8058 one-click unsubscribe headers. Mail clients POST
+ * `List-Unsubscribe=One-Click` to the URL without user interaction, so the
+ * URL must unsubscribe on POST on its own (no cookies, no CSRF token).
+ */
+export function getListUnsubscribeHeaders(oneClickUnsubscribeUrl: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${oneClickUnsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
+/**
+ * Send order confirmation email
+ *
+ * @param to - Customer email address
+ * @param orderDetails - Order information
+ */
+export async function sendOrderConfirmation(to: string, orderDetails: OrderConfirmationProps) {
+  return sendTemplateEmail('orderConfirmation', orderDetails, { to });
+}
+
+/**
+ * Send newsletter double opt-in email
+ *
+ * @param to - Subscriber email address
+ * @param confirmUrl - Signed link that confirms the subscription
+ */
+export async function sendNewsletterOptInEmail(to: string, confirmUrl: string) {
+  return sendTemplateEmail('newsletterOptIn', { confirmUrl }, { to });
+}
+
+/**
+ * Send newsletter welcome email once the subscription is confirmed
+ *
+ * @param to - Subscriber email address
+ * @param links - Unsubscribe and preference links for this subscriber
+ */
+export async function sendNewsletterConfirmation(to: string, links: NewsletterEmailLinks) {
+  return sendTemplateEmail(
+    'newsletterWelcome',
+    { email: to, links },
+    { to, headers: getListUnsubscribeHeaders(links.oneClickUnsubscribeUrl) }
+  );
+}
+
+/**
+ * Send contact form notification to admin, and a copy to the sender
+ *
+ * @param contactData - Form submission data
+ */
+export async function sendContactNotification(contactData: {
+  name: string;
+  email: string;
+  subject: string;
+  message: string;
+}) {
+  const adminEmail = process.env.ADMIN_EMAIL || 'admin@linkflame.com';
+
+  const result = await sendTemplateEmail('contactNotification', contactData, {
+    to: adminEmail,
+    replyTo: contactData.email,
+  });
+
+  if (!result.success) {
+    return result;
+  }
+
+  await sendTemplateEmail('contactConfirmation', contactData, { to: contactData.email });
+
+  return result;
+}
+
+/**
+ * Send password reset email
+ *
+ * @param to - User email address
+ * @param resetToken - The plaintext reset token (will be included in URL)
+ */
+export async function sendPasswordResetEmail(to: string, resetToken: string) {
+  const resetUrl = `${getBaseUrl()}/auth/reset-password?token=${encodeURIComponent(resetToken)}`;
+  return sendTemplateEmail('passwordReset', { resetUrl }, { to });
+}
+
+/**
+ * Send email address verification email
+ *
+ * @param to - Address being verified
+ * @param verificationToken - The plaintext verification token (will be included in URL)
+ */
+export async function sendVerificationEmail(to: string, verificationToken: string) {
+  const verifyUrl = `${getBaseUrl()}/auth/verify-email?token=${encodeURIComponent(verificationToken)}`;
+  return sendTemplateEmail('emailVerification', { verifyUrl }, { to });
+}
+
+/**
+ * Send shipping notification email
+ *
+ * @param to - Customer email address
+ * @param orderDetails - Shipping information
+ */
+export async function sendShippingNotificationEmail(
+  to: string,
+  orderDetails: ShippingNotificationProps
+) {
+  return sendTemplateEmail('shippingNotification', orderDetails, { to });
+}
+
+/**
+ * Send out-of-stock refund notification email
+ *
+ * @param to - Customer email address
+ * @param orderId - The order ID that was refunded
+ * @param customerName - Customer display name
+ */
+export async function sendOutOfStockRefundEmail(to: string, orderId: string, customerName: string) {
+  return sendTemplateEmail('outOfStockRefund', { orderId, customerName }, { to });
+}
+
+/**
+ * Send subscription payment failure notification email
+ */
+export async function sendSubscriptionPaymentFailedEmail(
+  to: string,
+  subscriptionVisibleId: string,
+  customerName: string,
+  failedAttemptCount: number,
+  dunning: { updatePaymentUrl: string; cancelsAt: Date }
+) {
+  return sendTemplateEmail(
+    'subscriptionPaymentFailed',
+    { subscriptionVisibleId, customerName, failedAttemptCount, ...dunning },
+    { to }
+  );
+}
+
+/**
+ * Send loyalty points expiring soon notification email
+ */
+export async function sendPointsExpiringEmail(
+  to: string,
+  details: {
+    customerName: string;
+    points: number;
+    expiresAt: Date;
+  }
+) {
+  return sendTemplateEmail('pointsExpiring', details, { to });
+}
+
+/**
+ * Send back-in-stock product alert email
+ */
+export async function sendBackInStockEmail(to: string, details: ProductAlertProps) {
+  return sendTemplateEmail('backInStock', details, {
+    to,
+    headers: { 'List-Unsubscribe': `<${details.unsubscribeUrl}>` },
+  });
+}
+
+/**
+ * Send price-drop product alert email
+ */
+export async function sendPriceDropEmail(to: string, details: PriceDropProps) {
+  return sendTemplateEmail('priceDrop', details, {
+    to,
+    headers: { 'List-Unsubscribe': `<${details.unsubscribeUrl}>` },
+  });
+}
@@ -0,0 +1,181 @@
+/**
+ * Email Layout and Partials
+ *
+ * Shared building blocks for the templates in lib/email/templates: the
+ * branded HTML shell, common content blocks and the plain-text layout.
+ * Partials take trusted HTML; escape user-supplied values with
+ * `escapeHtml` before passing them in.
+ *
+ * @module lib/email/layout
+ */
+
+const COLORS = {
+  brand: '#10b981',
+  brandDark: '#059669',
+  warning: '#f59e0b',
+  warningDark: '#d97706',
+  neutral: '#1f2937',
+  text: '#374151',
+  heading: '#1f2937',
+  muted: '#6b7280',
+  subtle: '#9ca3af',
+  panel: '#f9fafb',
+  border: '#e5e7eb',
+} as const
+
+const FONT_STACK =
+  "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif"
+
+const COPYRIGHT = '© 2026 Link Flame. All rights reserved.'
+
+export type LayoutTone = 'brand' | 'warning' | 'neutral'
+
+export interface LayoutOptions {
+  // Large header text; defaults to the brand name
+  heading?: string
+  // Smaller line under the heading
+  subheading?: string
+  tone?: LayoutTone
+  body: string
+  // Extra footer lines above the copyright, e.g. unsubscribe links
+  footer?: string
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+export function escapeHtml(value: string | number): string {
+  return String(value).replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+}
+
+export function formatMoney(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
+
+function headerStyle(tone: LayoutTone): string {
+  if (tone === 'neutral') {
+    return `background-color: ${COLORS.neutral}; padding: 24px 30px;`
+  }
+  const [from, to] =
+    tone === 'warning' ? [COLORS.warning, COLORS.warningDark] : [COLORS.brand, COLORS.brandDark]
+  return `background: linear-gradient(135deg, ${from} 0%, ${to} 100%); padding: 40px 30px; text-align: center;`
+}
+
+/**
+ * Wraps template content in the branded email shell.
+ */
+export function renderLayout({
+  heading = 'Link Flame',
+  subheading,
+  tone = 'brand',
+  body,
+  footer = '',
+}: LayoutOptions): string {
+  const headingSize = tone === 'neutral' ? '20px' : '28px'
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  </head>
+  <body style="font-family: ${FONT_STACK}; line-height: 1.6; color: ${COLORS.text}; margin: 0; padding: 0; background-color: #f3f4f6;">
+    <div style="max-width: 600px; margin: 40px auto; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);">
+      <div style="${headerStyle(tone)}">
+        <h1 style="color: #ffffff; margin: 0; font-size: ${headingSize}; font-weight: 600;">${heading}</h1>
+        ${subheading ? `<p style="color: rgba(255, 255, 255, 0.9); margin: 10px 0 0 0; font-size: 16px;">${subheading}</p>` : ''}
+      </div>
+      <div style="padding: 40px 30px;">
+        ${body}
+      </div>
+      <div style="background-color: ${COLORS.panel}; padding: 24px 30px; text-align: center; border-top: 1px solid ${COLORS.border};">
+        ${footer}
+        <p style="margin: 0; font-size: 12px; color: ${COLORS.subtle};">${COPYRIGHT}</p>
+      </div>
+    </div>
+  </body>
+</html>`
+}
+
+export function paragraph(content: string, options: { muted?: boolean } = {}): string {
+  const style = options.muted
+    ? `margin: 0 0 20px 0; font-size: 14px; color: ${COLORS.muted};`
+    : 'margin: 0 0 20px 0; font-size: 16px;'
+  return `<p style="${style}">${content}</p>`
+}
+
+export function sectionHeading(content: string): string {
+  return `<h2 style="color: ${COLORS.heading}; margin: 0 0 20px 0; font-size: 22px;">${content}</h2>`
+}
+
+export function footerLine(content: string): string {
+  return `<p style="margin: 0 0 8px 0; font-size: 12px; color: ${COLORS.subtle};">${content}</p>`
+}
+
+export function link(url: string, label: string): string {
+  return `<a href="${escapeHtml(url)}" style="color: ${COLORS.brandDark};">${label}</a>`
+}
+
+export function button(url: string, label: string): string {
+  return `<div style="text-align: center; margin: 32px 0;">
+  <a href="${escapeHtml(url)}" style="display: inline-block; background-color: ${COLORS.brand}; color: #ffffff; padding: 12px 32px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">${label}</a>
+</div>`
+}
+
+/**
+ * The raw URL under a button, for clients that strip links.
+ */
+export function fallbackLink(url: string): string {
+  return `${paragraph("If the button doesn't work, copy and paste this URL into your browser:", { muted: true })}
+<p style="margin: 0; font-size: 12px; color: ${COLORS.subtle}; word-break: break-all;">${escapeHtml(url)}</p>`
+}
+
+/**
+ * Highlighted label/value rows, e.g. an order ID or tracking number.
+ */
+export function detailsPanel(rows: Array<{ label: string; value: string }>, content = ''): string {
+  const rowsHtml = rows
+    .map(
+      ({ label, value }) => `<p style="margin: 0 0 4px 0; font-size: 14px; color: ${COLORS.muted};">${label}</p>
+<p style="margin: 0 0 12px 0; font-size: 16px; font-weight: 600; color: ${COLORS.heading}; white-space: pre-wrap;">${value}</p>`
+    )
+    .join('')
+
+  return `<div style="background-color: ${COLORS.panel}; border-left: 4px solid ${COLORS.brand}; padding: 16px; margin: 0 0 24px 0; border-radius: 4px;">${rowsHtml}${content}</div>`
+}
+
+export function signOff(): string {
+  return `<p style="margin: 0; font-size: 16px;">The Link Flame Team</p>`
+}
+
+export interface TextLayoutOptions {
+  heading: string
+  paragraphs: Array<string | null | false | undefined>
+  footer?: string[]
+  signOff?: boolean
+}
+
+/**
+ * Plain-text alternative. Falsy paragraphs are skipped so templates can
+ * include optional lines inline.
+ */
+export function renderTextLayout({
+  heading,
+  paragraphs,
+  footer = [],
+  signOff: includeSignOff = true,
+}: TextLayoutOptions): string {
+  const blocks = [
+    heading,
+    ...paragraphs.filter((block): block is string => Boolean(block)),
+    ...(includeSignOff ? ['The Link Flame Team'] : []),
+    ['--', ...footer, COPYRIGHT].join('\n'),
+  ]
+
+  return `${blocks.join('\n\n')}\n`
+}
@@ -0,0 +1,47 @@
+/**
+ * Email Outbox
+ *
+ * Reads and clears messages captured by the outbox transport, and decides
+ * who may use the email developer tools (template previews and the outbox).
+ *
+ * @module lib/email/outbox
+ */
+
+import { prisma } from '@/lib/prisma'
+import { requireRole } from '@/lib/auth'
+
+export const EMAIL_OUTBOX_CONFIG = {
+  DEFAULT_LIMIT: 50,
+  MAX_LIMIT: 200,
+} as const
+
+/**
+ * Previews and the outbox are open to anyone outside production so local
+ * development and test runs can use them without signing in. In production
+ * the outbox may hold real password reset links, so they require an admin.
+ */
+export async function canAccessEmailTools(userId: string | null): Promise<boolean> {
+  if (process.env.NODE_ENV !== 'production') {
+    return true
+  }
+
+  return requireRole(userId, ['ADMIN'])
+}
+
+export async function listOutboxMessages(
+  filters: { to?: string; template?: string; limit?: number } = {}
+) {
+  return prisma.emailOutboxMessage.findMany({
+    where: {
+      ...(filters.to ? { to: { equals: filters.to, mode: 'insensitive' } } : {}),
+      ...(filters.template ? { template: filters.template } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: Math.min(filters.limit ?? EMAIL_OUTBOX_CONFIG.DEFAULT_LIMIT, EMAIL_OUTBOX_CONFIG.MAX_LIMIT),
+  })
+}
+
+export async function clearOutbox(): Promise<number> {
+  const { count } = await prisma.emailOutboxMessage.deleteMany({})
+  return count
+}
@@ -0,0 +1,649 @@
+/**
+ * Transactional Email Templates
+ *
+ * Typed registry of every email the store sends. Each template renders a
+ * subject, an HTML body (inside the shared layout) and a plain-text
+ * alternative from its props, and carries fixture props so it can be
+ * previewed without real data (see /admin/emails).
+ *
+ * Add a template by defining its props type and registering it in
+ * `EMAIL_TEMPLATES`; lib/email exposes a send function per template.
+ *
+ * @module lib/email/templates
+ */
+
+import { getBaseUrl } from '@/lib/url'
+import {
+  button,
+  detailsPanel,
+  escapeHtml,
+  fallbackLink,
+  footerLine,
+  formatMoney,
+  link,
+  paragraph,
+  renderLayout,
+  renderTextLayout,
+  sectionHeading,
+  signOff,
+} from './layout'
+
+export interface EmailTemplate<P> {
+  description: string
+  subject: (props: P) => string
+  html: (props: P) => string
+  text: (props: P) => string
+  fixture: P
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+function defineTemplate<P>(template: EmailTemplate<P>): EmailTemplate<P> {
+  return template
+}
+
+export interface OrderConfirmationProps {
+  orderId: string
+  customerName: string
+  items: Array<{ title: string; quantity: number; price: number }>
+  total: number
+}
+
+export interface ShippingNotificationProps {
+  orderId: string
+  customerName: string
+  trackingNumber?: string | null
+  shippingCarrier?: string | null
+  estimatedDelivery?: string | null
+}
+
+export interface OutOfStockRefundProps {
+  orderId: string
+  customerName: string
+}
+
+export interface SubscriptionPaymentFailedProps {
+  subscriptionVisibleId: string
+  customerName: string
+  failedAttemptCount: number
+  updatePaymentUrl: string
+  // When the subscription is cancelled if payment is still failing
+  cancelsAt: Date
+}
+
+export interface PointsExpiringProps {
+  customerName: string
+  points: number
+  expiresAt: Date
+}
+
+export interface ProductAlertProps {
+  productTitle: string
+  variantLabel: string | null
+  productImage: string
+  productUrl: string
+  unsubscribeUrl: string
+}
+
+export interface PriceDropProps extends ProductAlertProps {
+  previousPrice: number
+  currentPrice: number
+}
+
+export interface ContactProps {
+  name: string
+  email: string
+  subject: string
+  message: string
+}
+
+/**
+ * Links carried by every newsletter email. `oneClickUnsubscribeUrl` is the
+ * RFC 8058 POST target; `unsubscribeUrl` and `preferencesUrl` are pages.
+ */
+export interface NewsletterEmailLinks {
+  oneClickUnsubscribeUrl: string
+  unsubscribeUrl: string
+  preferencesUrl: string
+}
+
+export interface NewsletterWelcomeProps {
+  email: string
+  links: NewsletterEmailLinks
+}
+
+const CARRIER_TRACKING_URLS: Record<string, string> = {
+  ups: 'https://www.ups.com/track?tracknum=',
+  usps: 'https://tools.usps.com/go/TrackConfirmAction?tLabels=',
+  fedex: 'https://www.fedex.com/fedextrack/?trknbr=',
+  dhl: 'https://www.dhl.com/us-en/home/tracking/tracking-global-forwarding.html?submit=1&tracking-id=',
+}
+
+function getTrackingUrl(carrier: string | null | undefined, trackingNumber: string): string | null {
+  const baseUrl = CARRIER_TRACKING_URLS[(carrier || '').toLowerCase().replace(/[^a-z]/g, '')]
+  return baseUrl ? `${baseUrl}${encodeURIComponent(trackingNumber)}` : null
+}
+
+function formatAlertProductName(props: ProductAlertProps): string {
+  return props.variantLabel ? `${props.productTitle} (${props.variantLabel})` : props.productTitle
+}
+
+function formatExpiryDate(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+const SUPPORT_LINE = 'Questions? Contact us at support@linkflame.com'
+
+function renderProductAlert(props: ProductAlertProps, heading: string, message: string): string {
+  return renderLayout({
+    subheading: heading,
+    body: `<div style="text-align: center; margin-bottom: 24px;">
+  <img src="${escapeHtml(props.productImage)}" alt="${escapeHtml(props.productTitle)}" width="200" style="max-width: 200px; border-radius: 8px;" />
+</div>
+${paragraph(message)}
+${button(props.productUrl, 'Shop Now')}
+${signOff()}`,
+    footer: `${footerLine("You're receiving this because you asked to be alerted about this product.")}
+${footerLine(link(props.unsubscribeUrl, 'Unsubscribe from this alert'))}`,
+  })
+}
+
+const PRODUCT_ALERT_FIXTURE: ProductAlertProps = {
+  productTitle: 'Bamboo Toothbrush Set',
+  variantLabel: 'Charcoal',
+  productImage: 'https://images.unsplash.com/photo-1607613009820-a29f7bb81c04?w=400',
+  productUrl: 'https://linkflame.com/products/bamboo-toothbrush-set',
+  unsubscribeUrl: 'https://linkflame.com/api/alerts/unsubscribe?token=preview',
+}
+
+export const EMAIL_TEMPLATES = {
+  orderConfirmation: defineTemplate<OrderConfirmationProps>({
+    description: 'Sent when checkout payment succeeds and for each subscription renewal order',
+    subject: (props) => `Order Confirmation - ${props.orderId}`,
+    html: (props) => {
+      const cell = 'padding: 12px; border-bottom: 1px solid #e5e7eb;'
+      const itemsHtml = props.items
+        .map(
+          (item) => `<tr>
+  <td style="${cell}">${escapeHtml(item.title)}</td>
+  <td style="${cell} text-align: center;">${item.quantity}</td>
+  <td style="${cell} text-align: right;">${formatMoney(item.price)}</td>
+  <td style="${cell} text-align: right;">${formatMoney(item.price * item.quantity)}</td>
+</tr>`
+        )
+        .join('')
+      const th = 'padding: 12px; font-weight: 600; color: #6b7280; font-size: 14px;'
+
+      return renderLayout({
+        subheading: 'Eco-friendly living made simple',
+        body: `${sectionHeading('Thank you for your order!')}
+${paragraph(`Hi ${escapeHtml(props.customerName)},`)}
+${paragraph("We've received your order and it's being processed. Here are the details:")}
+${detailsPanel([{ label: 'Order ID', value: escapeHtml(props.orderId) }])}
+<table style="width: 100%; border-collapse: collapse; margin: 0 0 24px 0;">
+  <thead>
+    <tr style="background-color: #f9fafb;">
+      <th style="${th} text-align: left;">Product</th>
+      <th style="${th} text-align: center;">Qty</th>
+      <th style="${th} text-align: right;">Price</th>
+      <th style="${th} text-align: right;">Total</th>
+    </tr>
+  </thead>
+  <tbody>${itemsHtml}</tbody>
+  <tfoot>
+    <tr>
+      <td colspan="3" style="padding: 16px 12px 12px 12px; text-align: right; font-weight: 600; font-size: 16px; color: #1f2937;">Total:</td>
+      <td style="padding: 16px 12px 12px 12px; text-align: right; font-weight: 700; font-size: 18px; color: #10b981;">${formatMoney(props.total)}</td>
+    </tr>
+  </tfoot>
+</table>
+${paragraph("We'll send you another email once your order ships with tracking information.")}
+${paragraph('Thank you for supporting sustainable living!')}
+${signOff()}`,
+        footer: footerLine(SUPPORT_LINE),
+      })
+    },
+    text: (props) =>
+      renderTextLayout({
+        heading: 'Thank you for your order!',
+        paragraphs: [
+          `Hi ${props.customerName},`,
+          "We've received your order and it's being processed.",
+          `Order ID: ${props.orderId}`,
+          props.items
+            .map(
+              (item) =>
+                `- ${item.title} x${item.quantity}: ${formatMoney(item.price * item.quantity)}`
+            )
+            .join('\n'),
+          `Total: ${formatMoney(props.total)}`,
+          "We'll send you another email once your order ships with tracking information.",
+        ],
+        footer: [SUPPORT_LINE],
+      }),
+    fixture: {
+      orderId: 'order_preview_123',
+      customerName: 'Alex Rivera',
+      items: [
+        { title: 'Bamboo Toothbrush Set', quantity: 2, price: 12.99 },
+        { title: 'Reusable Produce Bags', quantity: 1, price: 18.5 },
+      ],
+      total: 44.48,
+    },
+  }),
+
+  shippingNotification: defineTemplate<ShippingNotificationProps>({
+    description: 'Sent when an admin marks an order as shipped',
+    subject: () => 'Your Order Has Shipped! - Link Flame',
+    html: (props) => {
+      const trackingUrl = props.trackingNumber
+        ? getTrackingUrl(props.shippingCarrier, props.trackingNumber)
+        : null
+      const tracking = props.trackingNumber
+        ? detailsPanel(
+            [
+              { label: 'Carrier', value: escapeHtml(props.shippingCarrier || 'Carrier') },
+              { label: 'Tracking Number', value: escapeHtml(props.trackingNumber) },
+            ],
+            trackingUrl ? button(trackingUrl, 'Track Your Package') : ''
+          )
+        : ''
+
+      return renderLayout({
+        subheading: 'Your Order Has Shipped!',
+        body: `${paragraph(`Hi ${escapeHtml(props.customerName)},`)}
+${paragraph('Great news! Your order has been shipped and is on its way to you.')}
+${detailsPanel([{ label: 'Order ID', value: escapeHtml(props.orderId) }])}
+${tracking}
+${props.estimatedDelivery ? detailsPanel([{ label: 'Estimated Delivery', value: escapeHtml(props.estimatedDelivery) }]) : ''}
+${paragraph('You can track your order at any time by visiting your account page.')}
+${button(`${getBaseUrl()}/account/orders/${props.orderId}`, 'View Order Details')}
+${paragraph('Thank you for supporting sustainable living!')}
+${signOff()}`,
+        footer: footerLine(SUPPORT_LINE),
+      })
+    },
+    text: (props) => {
+      const trackingUrl = props.trackingNumber
+        ? getTrackingUrl(props.shippingCarrier, props.trackingNumber)
+        : null
+
+      return renderTextLayout({
+        heading: 'Your order has shipped!',
+        paragraphs: [
+          `Hi ${props.customerName},`,
+          'Great news! Your order has been shipped and is on its way to you.',
+          `Order ID: ${props.orderId}`,
+          props.trackingNumber &&
+            [
+              `Carrier: ${props.shippingCarrier || 'Carrier'}`,
+              `Tracking number: ${props.trackingNumber}`,
+              trackingUrl && `Track your package: ${trackingUrl}`,
+            ]
+              .filter(Boolean)
+              .join('\n'),
+          props.estimatedDelivery && `Estimated delivery: ${props.estimatedDelivery}`,
+          `View your order: ${getBaseUrl()}/account/orders/${props.orderId}`,
+        ],
+        footer: [SUPPORT_LINE],
+      })
+    },
+    fixture: {
+      orderId: 'order_preview_123',
+      customerName: 'Alex Rivera',
+      trackingNumber: '1Z999AA10123456784',
+      shippingCarrier: 'UPS',
+      estimatedDelivery: 'October 24, 2026',
+    },
+  }),
+
+  outOfStockRefund: defineTemplate<OutOfStockRefundProps>({
+    description: 'Sent when a paid order is refunded because stock ran out before fulfilment',
+    subject: () => 'Your Order Has Been Refunded - Link Flame',
+    html: (props) =>
+      renderLayout({
+        subheading: 'Order Refund Notification',
+        body: `${paragraph(`Hi ${escapeHtml(props.customerName)},`)}
+${paragraph(`We're sorry, but one or more items in your order <strong>${escapeHtml(props.orderId)}</strong> went out of stock between checkout and payment processing.`)}
+${paragraph('A <strong>full refund</strong> has been automatically issued to your original payment method. Please allow 5-10 business days for the refund to appear.')}
+${paragraph('We sincerely apologize for the inconvenience. Please visit our store to find similar products.')}
+${button(`${getBaseUrl()}/collections`, 'Browse Products')}
+${signOff()}`,
+      }),
+    text: (props) =>
+      renderTextLayout({
+        heading: 'Your order has been refunded',
+        paragraphs: [
+          `Hi ${props.customerName},`,
+          `We're sorry, but one or more items in your order ${props.orderId} went out of stock between checkout and payment processing.`,
+          'A full refund has been automatically issued to your original payment method. Please allow 5-10 business days for the refund to appear.',
+          `Browse similar products: ${getBaseUrl()}/collections`,
+        ],
+      }),
+    fixture: { orderId: 'order_preview_123', customerName: 'Alex Rivera' },
+  }),
+
+  passwordReset: defineTemplate<{ resetUrl: string }>({
+    description: 'Sent from the forgot-password form',
+    subject: () => 'Reset Your Password - Link Flame',
+    html: ({ resetUrl }) =>
+      renderLayout({
+        subheading: 'Password Reset Request',
+        body: `${paragraph('We received a request to reset your password. Click the button below to choose a new password:')}
+${button(resetUrl, 'Reset Password')}
+${paragraph("This link will expire in 1 hour. If you didn't request a password reset, you can safely ignore this email.", { muted: true })}
+${fallbackLink(resetUrl)}`,
+      }),
+    text: ({ resetUrl }) =>
+      renderTextLayout({
+        heading: 'Reset your password',
+        paragraphs: [
+          'We received a request to reset your password. Open this link to choose a new password:',
+          resetUrl,
+          "This link will expire in 1 hour. If you didn't request a password reset, you can safely ignore this email.",
+        ],
+        signOff: false,
+      }),
+    fixture: { resetUrl: 'https://linkflame.com/auth/reset-password?token=preview' },
+  }),
+
+  emailVerification: defineTemplate<{ verifyUrl: string }>({
+    description: 'Sent after credentials sign-up and when a verification link is re-requested',
+    subject: () => 'Verify Your Email - Link Flame',
+    html: ({ verifyUrl }) =>
+      renderLayout({
+        subheading: 'Confirm Your Email',
+        body: `${paragraph('Thanks for joining Link Flame! Please confirm this is your email address to activate your welcome bonus, referral rewards and reviews:')}
+${button(verifyUrl, 'Verify Email')}
+${paragraph("This link will expire in 24 hours. If you didn't create an account, you can safely ignore this email.", { muted: true })}
+${fallbackLink(verifyUrl)}`,
+      }),
+    text: ({ verifyUrl }) =>
+      renderTextLayout({
+        heading: 'Confirm your email',
+        paragraphs: [
+          'Thanks for joining Link Flame! Please confirm this is your email address to activate your welcome bonus, referral rewards and reviews:',
+          verifyUrl,
+          "This link will expire in 24 hours. If you didn't create an account, you can safely ignore this email.",
+        ],
+        signOff: false,
+      }),
+    fixture: { verifyUrl: 'https://linkflame.com/auth/verify-email?token=preview' },
+  }),
+
+  newsletterOptIn: defineTemplate<{ confirmUrl: string }>({
+    description: 'Double opt-in confirmation for new newsletter subscribers',
+    subject: () => 'Confirm your Link Flame newsletter subscription',
+    html: ({ confirmUrl }) =>
+      renderLayout({
+        subheading: 'Confirm Your Subscription',
+        body: `${paragraph("Please confirm you'd like to receive the Link Flame newsletter. We won't email you again until you do.")}
+${button(confirmUrl, 'Confirm Subscription')}
+${paragraph("This link will expire in 7 days. If you didn't sign up, you can safely ignore this email.", { muted: true })}
+${fallbackLink(confirmUrl)}`,
+      }),
+    text: ({ confirmUrl }) =>
+      renderTextLayout({
+        heading: 'Confirm your subscription',
+        paragraphs: [
+          "Please confirm you'd like to receive the Link Flame newsletter. We won't email you again until you do.",
+          confirmUrl,
+          "This link will expire in 7 days. If you didn't sign up, you can safely ignore this email.",
+        ],
+        signOff: false,
+      }),
+    fixture: { confirmUrl: 'https://linkflame.com/newsletter/confirm?token=preview' },
+  }),
+
+  newsletterWelcome: defineTemplate<NewsletterWelcomeProps>({
+    description: 'Welcome email once a newsletter subscription is confirmed',
+    subject: () => 'Welcome to Link Flame Newsletter! 🌱',
+    html: ({ email, links }) =>
+      renderLayout({
+        heading: '🌱 Welcome to Link Flame!',
+        body: `${sectionHeading('Thank you for subscribing!')}
+${paragraph(`You've successfully subscribed to our newsletter at <strong>${escapeHtml(email)}</strong>.`)}
+${paragraph("You'll now receive updates about:")}
+<ul style="margin: 0 0 24px 0; padding-left: 24px; font-size: 16px;">
+  <li>Eco-friendly product launches</li>
+  <li>Sustainable living tips</li>
+  <li>Exclusive offers and discounts</li>
+  <li>Community stories and news</li>
+</ul>
+${paragraph("Together, we're making a difference for our planet!")}
+${button(getBaseUrl(), 'Explore Products')}`,
+        footer: footerLine(
+          `Choose which emails you get on your ${link(links.preferencesUrl, 'preferences page')}, or ${link(links.unsubscribeUrl, 'unsubscribe')} at any time.`
+        ),
+      }),
+    text: ({ email, links }) =>
+      renderTextLayout({
+        heading: 'Welcome to the Link Flame newsletter!',
+        paragraphs: [
+          `You've successfully subscribed to our newsletter at ${email}.`,
+          "You'll now receive updates about eco-friendly product launches, sustainable living tips, exclusive offers and community stories.",
+          `Explore products: ${getBaseUrl()}`,
+        ],
+        footer: [`Manage preferences: ${links.preferencesUrl}`, `Unsubscribe: ${links.unsubscribeUrl}`],
+      }),
+    fixture: {
+      email: 'alex@example.com',
+      links: {
+        oneClickUnsubscribeUrl: 'https://linkflame.com/api/newsletter/unsubscribe?token=preview',
+        unsubscribeUrl: 'https://linkflame.com/newsletter/preferences?token=preview&unsubscribe=1',
+        preferencesUrl: 'https://linkflame.com/newsletter/preferences?token=preview',
+      },
+    },
+  }),
+
+  contactNotification: defineTemplate<ContactProps>({
+    description: 'Internal notification of a contact form submission, sent to ADMIN_EMAIL',
+    subject: (props) => `New Contact Form: ${props.subject}`,
+    html: (props) =>
+      renderLayout({
+        heading: 'New Contact Form Submission',
+        tone: 'neutral',
+        body: `${detailsPanel([
+          { label: 'From', value: `${escapeHtml(props.name)} (${escapeHtml(props.email)})` },
+          { label: 'Subject', value: escapeHtml(props.subject) },
+          { label: 'Message', value: escapeHtml(props.message) },
+        ])}
+${paragraph(`Reply to this email to respond directly to ${escapeHtml(props.name)}.`, { muted: true })}`,
+      }),
+    text: (props) =>
+      renderTextLayout({
+        heading: 'New contact form submission',
+        paragraphs: [
+          `From: ${props.name} (${props.email})`,
+          `Subject: ${props.subject}`,
+          props.message,
+          `Reply to this email to respond directly to ${props.name}.`,
+        ],
+        signOff: false,
+      }),
+    fixture: {
+      name: 'Alex Rivera',
+      email: 'alex@example.com',
+      subject: 'Question about refills',
+      message: 'Do you offer refill pouches for the dish soap?\nThanks!',
+    },
+  }),
+
+  contactConfirmation: defineTemplate<ContactProps>({
+    description: 'Acknowledgement sent to the person who submitted the contact form',
+    subject: () => 'We received your message - Link Flame',
+    html: (props) =>
+      renderLayout({
+        heading: 'Message Received!',
+        body: `${paragraph(`Hi ${escapeHtml(props.name)},`)}
+${paragraph(`Thank you for contacting Link Flame! We've received your message about "<strong>${escapeHtml(props.subject)}</strong>" and our team will get back to you within 24-48 hours.`)}
+${detailsPanel([{ label: 'Your message', value: escapeHtml(props.message) }])}
+${signOff()}`,
+        footer: footerLine(`Visit our website: ${link(getBaseUrl(), 'linkflame.com')}`),
+      }),
+    text: (props) =>
+      renderTextLayout({
+        heading: 'Message received!',
+        paragraphs: [
+          `Hi ${props.name},`,
+          `Thank you for contacting Link Flame! We've received your message about "${props.subject}" and our team will get back to you within 24-48 hours.`,
+          `Your message:\n${props.message}`,
+        ],
+      }),
+    fixture: {
+      name: 'Alex Rivera',
+      email: 'alex@example.com',
+      subject: 'Question about refills',
+      message: 'Do you offer refill pouches for the dish soap?\nThanks!',
+    },
+  }),
+
+  subscriptionPaymentFailed: defineTemplate<SubscriptionPaymentFailedProps>({
+    description: 'Sent when a subscription renewal payment fails',
+    subject: () => 'Action needed: Subscription payment failed - Link Flame',
+    html: (props) =>
+      renderLayout({
+        subheading: 'Subscription Payment Issue',
+        tone: 'warning',
+        body: `${paragraph(`Hi ${escapeHtml(props.customerName)},`)}
+${paragraph(`We couldn't process payment for your subscription <strong>${escapeHtml(props.subscriptionVisibleId)}</strong>.`)}
+${paragraph(`This is failed payment attempt #${props.failedAttemptCount}.`)}
+${paragraph(subscriptionFailureNotice(props.cancelsAt))}
+${button(props.updatePaymentUrl, 'Update Payment Method')}
+${paragraph("If you've already updated your payment details, no further action is needed.")}
+${signOff()}`,
+      }),
+    text: (props) =>
+      renderTextLayout({
+        heading: 'Subscription payment failed',
+        paragraphs: [
+          `Hi ${props.customerName},`,
+          `We couldn't process payment for your subscription ${props.subscriptionVisibleId}. This is failed payment attempt #${props.failedAttemptCount}.`,
+          subscriptionFailureNotice(props.cancelsAt),
+          `Update your payment method: ${props.updatePaymentUrl}`,
+          "If you've already updated your payment details, no further action is needed.",
+        ],
+      }),
+    fixture: {
+      subscriptionVisibleId: 'SUB-PREVIEW',
+      customerName: 'Alex Rivera',
+      failedAttemptCount: 1,
+      updatePaymentUrl: `${getBaseUrl()}/account/subscriptions?updateBilling=preview`,
+      cancelsAt: new Date('2026-01-08T00:00:00Z'),
+    },
+  }),
+
+  pointsExpiring: defineTemplate<PointsExpiringProps>({
+    description: 'Reminder that loyalty points are about to expire',
+    subject: (props) =>
+      `Your ${props.points.toLocaleString('en-US')} reward points expire soon - Link Flame`,
+    html: (props) =>
+      renderLayout({
+        subheading: 'Rewards Reminder',
+        body: `${paragraph(`Hi ${escapeHtml(props.customerName)},`)}
+${paragraph(`<strong>${props.points.toLocaleString('en-US')} of your reward points</strong> will expire on <strong>${formatExpiryDate(props.expiresAt)}</strong>.`)}
+${paragraph('Use them at checkout before then to take money off your next order.')}
+${button(`${getBaseUrl()}/account/loyalty`, 'View My Rewards')}
+${signOff()}`,
+      }),
+    text: (props) =>
+      renderTextLayout({
+        heading: 'Your reward points expire soon',
+        paragraphs: [
+          `Hi ${props.customerName},`,
+          `${props.points.toLocaleString('en-US')} of your reward points will expire on ${formatExpiryDate(props.expiresAt)}.`,
+          'Use them at checkout before then to take money off your next order.',
+          `View your rewards: ${getBaseUrl()}/account/loyalty`,
+        ],
+      }),
+    fixture: {
+      customerName: 'Alex Rivera',
+      points: 1250,
+      expiresAt: new Date('2026-12-31T00:00:00Z'),
+    },
+  }),
+
+  backInStock: defineTemplate<ProductAlertProps>({
+    description: 'Product alert sent when a watched product or variant is restocked',
+    subject: (props) => `${props.productTitle} is back in stock - Link Flame`,
+    html: (props) =>
+      renderProductAlert(
+        props,
+        'Back in Stock',
+        `Good news! <strong>${escapeHtml(formatAlertProductName(props))}</strong> is back in stock. Popular items can sell out quickly, so grab yours while it lasts.`
+      ),
+    text: (props) =>
+      renderTextLayout({
+        heading: 'Back in stock',
+        paragraphs: [
+          `Good news! ${formatAlertProductName(props)} is back in stock. Popular items can sell out quickly, so grab yours while it lasts.`,
+          `Shop now: ${props.productUrl}`,
+        ],
+        footer: [`Unsubscribe from this alert: ${props.unsubscribeUrl}`],
+      }),
+    fixture: PRODUCT_ALERT_FIXTURE,
+  }),
+
+  priceDrop: defineTemplate<PriceDropProps>({
+    description: 'Product alert sent when a watched product or variant gets cheaper',
+    subject: (props) =>
+      `Price drop: ${props.productTitle} is now ${formatMoney(props.currentPrice)} - Link Flame`,
+    html: (props) =>
+      renderProductAlert(
+        props,
+        'Price Drop',
+        `<strong>${escapeHtml(formatAlertProductName(props))}</strong> has dropped from <span style="text-decoration: line-through;">${formatMoney(props.previousPrice)}</span> to <strong>${formatMoney(props.currentPrice)}</strong>.`
+      ),
+    text: (props) =>
+      renderTextLayout({
+        heading: 'Price drop',
+        paragraphs: [
+          `${formatAlertProductName(props)} has dropped from ${formatMoney(props.previousPrice)} to ${formatMoney(props.currentPrice)}.`,
+          `Shop now: ${props.productUrl}`,
+        ],
+        footer: [`Unsubscribe from this alert: ${props.unsubscribeUrl}`],
+      }),
+    fixture: { ...PRODUCT_ALERT_FIXTURE, previousPrice: 24.99, currentPrice: 19.99 },
+  }),
+}
+
+function subscriptionFailureNotice(cancelsAt: Date): string {
+  return `We'll try again over the next few days. Please update your payment method to avoid interruption to your deliveries; if we still can't collect payment by ${formatExpiryDate(cancelsAt)}, your subscription will be cancelled.`
+}
+
+export type EmailTemplateName = keyof typeof EMAIL_TEMPLATES
+
+export type EmailTemplateProps<N extends EmailTemplateName> =
+  (typeof EMAIL_TEMPLATES)[N] extends EmailTemplate<infer P> ? P : never
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATES, name)
+}
+
+export function renderEmailTemplate<N extends EmailTemplateName>(
+  name: N,
+  props: EmailTemplateProps<N>
+): RenderedEmail {
+  const template = EMAIL_TEMPLATES[name] as unknown as EmailTemplate<EmailTemplateProps<N>>
+  return {
+    subject: template.subject(props),
+    html: template.html(props),
+    text: template.text(props),
+  }
+}
+
+/**
+ * Renders a template with its fixture props.
+ */
+export function renderEmailPreview(name: EmailTemplateName): RenderedEmail {
+  return renderEmailTemplate(name, EMAIL_TEMPLATES[name].fixture as EmailTemplateProps<typeof name>)
+}
@@ -0,0 +1,130 @@
+/**
+ * Email Transports
+ *
+ * Delivers rendered messages. The transport is chosen by EMAIL_TRANSPORT:
+ *
+ * - `resend`: send through Resend (requires RESEND_API_KEY)
+ * - `outbox`: store messages in the EmailOutboxMessage table instead of
+ *   sending them, so development and test runs can inspect what would have
+ *   gone out (see /admin/emails)
+ * - `none`: drop messages with a warning
+ *
+ * When EMAIL_TRANSPORT is unset, Resend is used if RESEND_API_KEY is set,
+ * otherwise the outbox outside production and `none` in production.
+ *
+ * @module lib/email/transport
+ */
+
+import { Resend } from 'resend'
+import { prisma } from '@/lib/prisma'
+
+export const EMAIL_TRANSPORTS = ['resend', 'outbox', 'none'] as const
+
+export type EmailTransportName = (typeof EMAIL_TRANSPORTS)[number]
+
+export interface EmailMessage {
+  template: string
+  from: string
+  to: string
+  replyTo?: string
+  subject: string
+  html: string
+  text: string
+  headers?: Record<string, string>
+}
+
+export type EmailTransportResult =
+  | { success: true; id: string | null }
+  | { success: false; error: unknown }
+
+export interface EmailTransport {
+  name: Exclude<EmailTransportName, 'none'>
+  send(message: EmailMessage): Promise<EmailTransportResult>
+}
+
+export function createResendTransport(apiKey: string): EmailTransport {
+  const resend = new Resend(apiKey)
+
+  return {
+    name: 'resend',
+    async send(message) {
+      const { data, error } = await resend.emails.send({
+        from: message.from,
+        to: message.to,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+      })
+
+      if (error) {
+        return { success: false, error }
+      }
+
+      return { success: true, id: data?.id ?? null }
+    },
+  }
+}
+
+export const outboxTransport: EmailTransport = {
+  name: 'outbox',
+  async send(message) {
+    const stored = await prisma.emailOutboxMessage.create({
+      data: {
+        template: message.template,
+        from: message.from,
+        to: message.to,
+        replyTo: message.replyTo ?? null,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers ? JSON.stringify(message.headers) : null,
+      },
+      select: { id: true },
+    })
+
+    return { success: true, id: stored.id }
+  },
+}
+
+let resendTransport: { apiKey: string; transport: EmailTransport } | null = null
+
+function getResendTransport(): EmailTransport | null {
+  const apiKey = process.env.RESEND_API_KEY
+  if (!apiKey) {
+    return null
+  }
+
+  if (resendTransport?.apiKey !== apiKey) {
+    resendTransport = { apiKey, transport: createResendTransport(apiKey) }
+  }
+  return resendTransport.transport
+}
+
+export function getEmailTransportName(): EmailTransportName {
+  const configured = process.env.EMAIL_TRANSPORT as EmailTransportName | undefined
+  if (configured && EMAIL_TRANSPORTS.includes(configured)) {
+    return configured
+  }
+
+  if (process.env.RESEND_API_KEY) {
+    return 'resend'
+  }
+
+  return process.env.NODE_ENV === 'production' ? 'none' : 'outbox'
+}
+
+/**
+ * The transport for this environment, or null when email is disabled.
+ */
+export function getEmailTransport(): EmailTransport | null {
+  switch (getEmailTransportName()) {
+    case 'resend':
+      return getResendTransport()
+    case 'outbox':
+      return outboxTransport
+    default:
+      return null
+  }
+}
@@ -43,8 +43,17 @@ const envSchema = z.object({
   // Optional: Resend (for email notifications)
   RESEND_API_KEY: z.string().startsWith('re_', 'RESEND_API_KEY must start with re_').optional(),
 
+  // Optional: Email delivery (see lib/email/transport)
+  EMAIL_TRANSPORT: z.enum(['resend', 'outbox', 'none']).optional(),
+
+  // Optional: Carbon offset provider (see lib/carbon-offsets)
+  CARBON_OFFSET_PROVIDER: z.enum(['fake']).optional(),
+
   // Optional: Sentry (for error tracking)
   SENTRY_DSN: z.string().url().optional(),
+
+  // Optional: Scheduled jobs (/api/cron/*) are refused without it
+  CRON_SECRET: z.string().min(16, 'CRON_SECRET must be at least 16 characters').optional(),
 });
 
 // Parse and validate environment variables
@@ -65,7 +74,10 @@ function validateEnv() {
       UPSTASH_REDIS_REST_URL: process.env.UPSTASH_REDIS_REST_URL,
       UPSTASH_REDIS_REST_TOKEN: process.env.UPSTASH_REDIS_REST_TOKEN,
       RESEND_API_KEY: process.env.RESEND_API_KEY,
+      EMAIL_TRANSPORT: process.env.EMAIL_TRANSPORT,
+      CARBON_OFFSET_PROVIDER: process.env.CARBON_OFFSET_PROVIDER,
       SENTRY_DSN: process.env.SENTRY_DSN,
+      CRON_SECRET: process.env.CRON_SECRET,
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -100,9 +112,15 @@ if (env.NODE_ENV === 'production') {
   if (!env.SENTRY_DSN) {
     console.warn('⚠️  SENTRY_DSN is not set. Error tracking is disabled.');
   }
-  if (!env.RESEND_API_KEY) {
+  if (!env.RESEND_API_KEY && env.EMAIL_TRANSPORT !== 'outbox') {
     console.warn('⚠️  RESEND_API_KEY is not set. Email notifications are disabled.');
   }
+  if (env.EMAIL_TRANSPORT === 'outbox') {
+    console.warn('⚠️  EMAIL_TRANSPORT is "outbox". Emails are stored, not sent.');
+  }
+  if (!env.CRON_SECRET) {
+    console.warn('⚠️  CRON_SECRET is not set. Scheduled jobs will not run.');
+  }
 }
 
 // Type-safe environment variables
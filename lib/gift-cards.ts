@@ -328,7 +328,7 @@ export async function redeemGiftCard(
   amount: number,
   orderId?: string
 ): Promise<
-  | { success: true; remainingBalance: number; amountApplied: number }
+  | { success: true; giftCardId: string; previousBalance: number; remainingBalance: number; amountApplied: number }
   | { success: false; error: string }
 > {
   const normalizedCode = normalizeGiftCardCode(code)
@@ -385,6 +385,8 @@ export async function redeemGiftCard(
 
     return {
       success: true,
+      giftCardId: giftCard.id,
+      previousBalance: Number(giftCard.currentBalance),
       remainingBalance: newBalance,
       amountApplied: amountToApply,
     }
@@ -2,11 +2,14 @@
  * Environmental Impact Calculation and Management Utilities
  *
  * This module provides functions for calculating, storing, and retrieving
- * environmental impact metrics for users, orders, and products.
+ * environmental impact metrics for users, orders, and products. Refunds
+ * take the refunded goods' impact back off the order and the user's totals.
  */
 
 import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
+import { CacheKeys, CacheTTL, getOrSetCached, invalidateImpactCaches } from "@/lib/cache";
+import { CARBON_OFFSET_CONFIG, getTotalCarbonOffsetKg } from "@/lib/carbon-offsets";
 
 /**
  * Impact metric definitions with comparison calculations
@@ -75,6 +78,26 @@ export function checkMilestoneAchieved(
   return null;
 }
 
+/**
+ * Check if a milestone was lost, e.g. when a refund takes a total back
+ * below it
+ */
+export function checkMilestoneLost(
+  metricSlug: string,
+  previousValue: number,
+  newValue: number
+): number | null {
+  const milestones = MILESTONES[metricSlug as keyof typeof MILESTONES];
+  if (!milestones) return null;
+
+  for (const milestone of milestones) {
+    if (previousValue >= milestone && newValue < milestone) {
+      return milestone;
+    }
+  }
+  return null;
+}
+
 /**
  * Calculate impact for a list of order items
  */
@@ -106,7 +129,8 @@ export async function calculateOrderImpact(
 }
 
 /**
- * Store impact for a completed order
+ * Store impact for a completed order.
+ * Does nothing if the order's impact is already stored, so retries are safe.
  */
 export async function storeOrderImpact(
   orderId: string,
@@ -116,6 +140,15 @@ export async function storeOrderImpact(
   orderImpacts: Array<{ metricId: string; value: number }>;
   milestones: Array<{ metricSlug: string; milestone: number }>;
 }> {
+  const alreadyStored = await prisma.orderImpact.findFirst({
+    where: { orderId },
+    select: { id: true },
+  });
+
+  if (alreadyStored) {
+    return { orderImpacts: [], milestones: [] };
+  }
+
   const impactMap = await calculateOrderImpact(items);
   const milestones: Array<{ metricSlug: string; milestone: number }> = [];
 
@@ -178,6 +211,8 @@ export async function storeOrderImpact(
     }
   });
 
+  await invalidateImpactCaches();
+
   return {
     orderImpacts: Array.from(impactMap).map(([metricId, value]) => ({
       metricId,
@@ -187,6 +222,111 @@ export async function storeOrderImpact(
   };
 }
 
+type ImpactItem = { productId: string; quantity: number };
+
+function sumQuantitiesByProduct(items: ImpactItem[]): Map<string, number> {
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+  }
+  return quantities;
+}
+
+/**
+ * Reverse the impact of refunded order items.
+ *
+ * Each metric's stored order impact is reduced by the refunded items' share
+ * of the impact of the items not refunded before, and the user's total by
+ * the same amount. Refunding everything that is left reverses the rest of
+ * the order's impact. Order impact rows are zeroed rather than deleted, so
+ * storeOrderImpact still treats the order as stored.
+ *
+ * Call inside the refund transaction; invalidate the impact caches after it
+ * commits. Returns milestones the user dropped back below.
+ */
+export async function reverseOrderImpact(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  userId: string,
+  remainingItems: ImpactItem[],
+  refundedItems: ImpactItem[]
+): Promise<{
+  reversed: Array<{ metricId: string; value: number }>;
+  milestonesLost: Array<{ metricSlug: string; milestone: number }>;
+}> {
+  const orderImpacts = await tx.orderImpact.findMany({
+    where: { orderId, value: { gt: 0 } },
+    include: { metric: true },
+  });
+
+  if (orderImpacts.length === 0 || refundedItems.length === 0) {
+    return { reversed: [], milestonesLost: [] };
+  }
+
+  const [remainingImpact, refundedImpact] = await Promise.all([
+    calculateOrderImpact(remainingItems),
+    calculateOrderImpact(refundedItems),
+  ]);
+
+  const refundedQuantities = sumQuantitiesByProduct(refundedItems);
+  const refundsEverything = Array.from(sumQuantitiesByProduct(remainingItems)).every(
+    ([productId, quantity]) => (refundedQuantities.get(productId) || 0) >= quantity
+  );
+
+  const reversed: Array<{ metricId: string; value: number }> = [];
+  const milestonesLost: Array<{ metricSlug: string; milestone: number }> = [];
+
+  for (const orderImpact of orderImpacts) {
+    const remainingValue = remainingImpact.get(orderImpact.metricId) || 0;
+    const share = refundsEverything
+      ? 1
+      : remainingValue > 0
+        ? Math.min(1, (refundedImpact.get(orderImpact.metricId) || 0) / remainingValue)
+        : 0;
+    const reduction = orderImpact.value * share;
+
+    if (reduction <= 0) {
+      continue;
+    }
+
+    await tx.orderImpact.update({
+      where: { id: orderImpact.id },
+      data: { value: share === 1 ? 0 : Math.max(0, orderImpact.value - reduction) },
+    });
+    reversed.push({ metricId: orderImpact.metricId, value: reduction });
+
+    const userImpact = await tx.userImpact.findUnique({
+      where: {
+        userId_metricId: { userId, metricId: orderImpact.metricId },
+      },
+    });
+
+    if (!userImpact) {
+      continue;
+    }
+
+    const newValue = Math.max(0, userImpact.totalValue - reduction);
+    await tx.userImpact.update({
+      where: { id: userImpact.id },
+      data: {
+        totalValue: newValue,
+        lastUpdatedAt: new Date(),
+      },
+    });
+
+    const milestone = checkMilestoneLost(
+      orderImpact.metric.slug,
+      userImpact.totalValue,
+      newValue
+    );
+    if (milestone) {
+      milestonesLost.push({ metricSlug: orderImpact.metric.slug, milestone });
+    }
+  }
+
+  return { reversed, milestonesLost };
+}
+
 /**
  * Get personal impact for a user
  */
@@ -221,14 +361,27 @@ export async function getPersonalImpact(userId: string) {
 }
 
 /**
- * Get community (aggregate) impact
+ * Get community (aggregate) impact, including carbon offsets bought at
+ * checkout. Cached briefly; paid and refunded orders and offset purchases
+ * invalidate the cache.
  */
 export async function getCommunityImpact() {
+  return getOrSetCached(
+    CacheKeys.COMMUNITY_IMPACT,
+    calculateCommunityImpact,
+    CacheTTL.SHORT
+  );
+}
+
+async function calculateCommunityImpact() {
   // Get all active metrics
-  const metrics = await prisma.impactMetric.findMany({
-    where: { isActive: true },
-    orderBy: { sortOrder: "asc" },
-  });
+  const [metrics, offsetKg] = await Promise.all([
+    prisma.impactMetric.findMany({
+      where: { isActive: true },
+      orderBy: { sortOrder: "asc" },
+    }),
+    getTotalCarbonOffsetKg(),
+  ]);
 
   // Calculate totals for each metric
   const results = await Promise.all(
@@ -239,7 +392,9 @@ export async function getCommunityImpact() {
         _count: { userId: true },
       });
 
-      const totalValue = aggregate._sum.totalValue || 0;
+      const totalValue =
+        (aggregate._sum.totalValue || 0) +
+        (metric.slug === CARBON_OFFSET_CONFIG.IMPACT_METRIC_SLUG ? offsetKg : 0);
       const contributorCount = aggregate._count.userId || 0;
 
       return {
@@ -0,0 +1,211 @@
+/**
+ * Imperfect Batches
+ *
+ * An ImperfectBatch is a run of a product sold at a discount because of a
+ * cosmetic flaw. A batch has its own stock, separate from the product's
+ * inventory, and is bought as its own cart line:
+ *
+ * - A batch line costs the product price less the batch's `discountPercent`,
+ *   everywhere the cart is priced (cart, shipping quotes, promo codes and
+ *   checkout).
+ * - Checkout holds batch stock the same way it holds product stock.
+ * - Payment decrements the batch; a batch that sells out is deactivated.
+ *   Refunds put the units back and reactivate a batch that had sold out.
+ * - A batch past `expiresAt` stops selling straight away and is deactivated
+ *   by deactivateExpiredImperfectBatches (/api/cron/imperfect-batches).
+ *
+ * @module lib/imperfect-batches
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+
+type BatchClient = Pick<typeof prisma, 'imperfectBatch'>
+
+export type ImperfectBatchCartErrorCode = 'NOT_FOUND' | 'UNAVAILABLE' | 'INSUFFICIENT_STOCK'
+
+export interface ImperfectBatchCartFailure {
+  success: false
+  error: string
+  code: ImperfectBatchCartErrorCode
+}
+
+interface BatchAvailability {
+  isActive: boolean
+  quantity: number
+  expiresAt: Date | null
+}
+
+/**
+ * Whether a batch can still be sold from: active, in stock and not expired.
+ */
+export function isImperfectBatchPurchasable(
+  batch: BatchAvailability,
+  now: Date = new Date()
+): boolean {
+  return (
+    batch.isActive && batch.quantity > 0 && (!batch.expiresAt || batch.expiresAt > now)
+  )
+}
+
+/**
+ * Where clause for batches that can still be sold from.
+ */
+export function purchasableImperfectBatchWhere(
+  now: Date = new Date()
+): Prisma.ImperfectBatchWhereInput {
+  return {
+    isActive: true,
+    quantity: { gt: 0 },
+    OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+  }
+}
+
+/**
+ * Unit price of an item from a batch, rounded to the cent.
+ */
+export function getImperfectBatchPrice(basePrice: number, discountPercent: number): number {
+  const percent = Math.min(100, Math.max(0, discountPercent))
+  return Math.round(basePrice * (1 - percent / 100) * 100) / 100
+}
+
+function failure(error: string, code: ImperfectBatchCartErrorCode): ImperfectBatchCartFailure {
+  return { success: false, error, code }
+}
+
+/**
+ * Adds units from a batch to the cart, on the cart's line for that batch.
+ * Batch lines have no variant; the batch is stock of the product itself.
+ */
+export async function addImperfectBatchToCart(
+  userId: string,
+  productId: string,
+  imperfectBatchId: string,
+  quantity: number,
+  now: Date = new Date()
+): Promise<{ success: true } | ImperfectBatchCartFailure> {
+  const batch = await prisma.imperfectBatch.findUnique({
+    where: { id: imperfectBatchId },
+    select: {
+      productId: true,
+      quantity: true,
+      isActive: true,
+      expiresAt: true,
+      product: { select: { title: true } },
+    },
+  })
+
+  if (!batch || batch.productId !== productId) {
+    return failure('Imperfect batch not found', 'NOT_FOUND')
+  }
+  if (!isImperfectBatchPurchasable(batch, now)) {
+    return failure('This imperfect batch is no longer available', 'UNAVAILABLE')
+  }
+
+  const where = {
+    userId,
+    productId,
+    variantId: null,
+    bundleSelectionId: null,
+    imperfectBatchId,
+  }
+  const existingItem = await prisma.cartItem.findFirst({
+    where,
+    select: { id: true, quantity: true },
+  })
+
+  const newQuantity = (existingItem?.quantity ?? 0) + quantity
+  if (newQuantity > batch.quantity) {
+    return failure(
+      `Only ${batch.quantity} imperfect items available for ${batch.product.title}`,
+      'INSUFFICIENT_STOCK'
+    )
+  }
+
+  if (existingItem) {
+    await prisma.cartItem.update({
+      where: { id: existingItem.id },
+      data: { quantity: newQuantity },
+    })
+  } else {
+    await prisma.cartItem.create({ data: { ...where, quantity } })
+  }
+
+  return { success: true }
+}
+
+/**
+ * Takes paid units out of a batch, deactivating it if it sells out. Throws
+ * an `Insufficient ...` error when the batch no longer has the units, which
+ * the checkout webhook turns into an automatic refund.
+ */
+export async function decrementImperfectBatchStock(
+  client: BatchClient,
+  imperfectBatchId: string,
+  quantity: number,
+  now: Date = new Date()
+): Promise<void> {
+  const result = await client.imperfectBatch.updateMany({
+    where: { id: imperfectBatchId, quantity: { gte: quantity } },
+    data: { quantity: { decrement: quantity } },
+  })
+
+  if (result.count === 0) {
+    throw new Error(`Insufficient imperfect batch stock for ${imperfectBatchId}`)
+  }
+
+  const soldOut = await client.imperfectBatch.updateMany({
+    where: { id: imperfectBatchId, quantity: { lte: 0 }, isActive: true },
+    data: { isActive: false, soldOutAt: now },
+  })
+
+  if (soldOut.count > 0) {
+    logger.info('Imperfect batch sold out and deactivated', { imperfectBatchId })
+  }
+}
+
+/**
+ * Puts refunded units back into a batch. A batch deactivated because it
+ * sold out is reactivated unless it has expired since; batches switched off
+ * by hand stay off.
+ */
+export async function restoreImperfectBatchStock(
+  client: BatchClient,
+  imperfectBatchId: string,
+  quantity: number,
+  now: Date = new Date()
+): Promise<void> {
+  await client.imperfectBatch.update({
+    where: { id: imperfectBatchId },
+    data: { quantity: { increment: quantity } },
+  })
+
+  await client.imperfectBatch.updateMany({
+    where: {
+      id: imperfectBatchId,
+      soldOutAt: { not: null },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    },
+    data: { isActive: true, soldOutAt: null },
+  })
+
+  logger.info('Restored imperfect batch stock', { imperfectBatchId, quantity })
+}
+
+/**
+ * Deactivates batches whose expiry date has passed. Expired batches already
+ * stop selling; this keeps them out of admin and storefront listings.
+ */
+export async function deactivateExpiredImperfectBatches(
+  now: Date = new Date()
+): Promise<{ deactivated: number }> {
+  const result = await prisma.imperfectBatch.updateMany({
+    where: { isActive: true, expiresAt: { lte: now } },
+    data: { isActive: false },
+  })
+
+  logger.info('Expired imperfect batches deactivated', { deactivated: result.count })
+
+  return { deactivated: result.count }
+}
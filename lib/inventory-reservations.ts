@@ -0,0 +1,339 @@
+/**
+ * Inventory Reservations
+ *
+ * Short-lived stock holds for checkouts in progress. A hold is placed for
+ * every cart line before the Stripe session is opened, so two shoppers can
+ * no longer pay for the last unit at the same time.
+ *
+ * Holds move through three statuses:
+ * 1. ACTIVE: counted against available stock until `expiresAt`.
+ * 2. CONVERTED: the order was paid and inventory decremented.
+ * 3. RELEASED: the session expired, checkout failed, or the hold timed out.
+ *
+ * An ACTIVE hold past `expiresAt` no longer counts against stock even before
+ * the sweep job marks it RELEASED.
+ *
+ * Lines bought from an imperfect batch hold the batch's own stock rather
+ * than the product's.
+ *
+ * @module lib/inventory-reservations
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { isImperfectBatchPurchasable } from '@/lib/imperfect-batches'
+
+type ReservationClient = Prisma.TransactionClient | typeof prisma
+
+export const INVENTORY_RESERVATION_CONFIG = {
+  // Stripe checkout sessions expire after 30 minutes. Holds outlive them
+  // slightly so a late completion webhook still finds its hold.
+  HOLD_MINUTES: 35,
+
+  STATUS: {
+    ACTIVE: 'ACTIVE',
+    CONVERTED: 'CONVERTED',
+    RELEASED: 'RELEASED',
+  } as const,
+
+  // Attempts when the serializable reservation transaction conflicts
+  MAX_RETRIES: 3,
+} as const
+
+export interface ReservationLine {
+  productId: string
+  variantId: string | null
+  // Set for lines bought from an imperfect batch
+  imperfectBatchId?: string | null
+  quantity: number
+  // Shown to the shopper when the line cannot be reserved
+  label: string
+}
+
+export interface ReservedQuantities {
+  // Product-level holds (lines without a variant), keyed by product ID
+  products: Map<string, number>
+  // Variant holds, keyed by variant ID
+  variants: Map<string, number>
+  // Imperfect batch holds, keyed by batch ID
+  batches: Map<string, number>
+}
+
+interface StockedProduct {
+  id: string
+  inventory: number
+  variants?: Array<{ id: string; inventory: number }>
+}
+
+function activeHoldWhere(now: Date) {
+  return {
+    status: INVENTORY_RESERVATION_CONFIG.STATUS.ACTIVE,
+    expiresAt: { gt: now },
+  }
+}
+
+/**
+ * Sums active holds for the given products, split into product-level,
+ * variant and imperfect batch holds.
+ */
+export async function getReservedQuantities(
+  client: ReservationClient,
+  productIds: string[],
+  now: Date = new Date()
+): Promise<ReservedQuantities> {
+  const reserved: ReservedQuantities = {
+    products: new Map(),
+    variants: new Map(),
+    batches: new Map(),
+  }
+  if (productIds.length === 0) {
+    return reserved
+  }
+
+  const groups = await client.inventoryReservation.groupBy({
+    by: ['productId', 'variantId', 'imperfectBatchId'],
+    where: { productId: { in: productIds }, ...activeHoldWhere(now) },
+    _sum: { quantity: true },
+  })
+
+  for (const group of groups) {
+    const quantity = group._sum.quantity ?? 0
+    if (group.imperfectBatchId) {
+      reserved.batches.set(group.imperfectBatchId, quantity)
+    } else if (group.variantId) {
+      reserved.variants.set(group.variantId, quantity)
+    } else {
+      reserved.products.set(group.productId, quantity)
+    }
+  }
+
+  return reserved
+}
+
+/**
+ * Returns the product with `inventory` (and each variant's `inventory`)
+ * reduced by active holds, never below zero.
+ */
+export function applyReservedInventory<T extends StockedProduct>(
+  product: T,
+  reserved: ReservedQuantities
+): T {
+  return {
+    ...product,
+    inventory: Math.max(0, product.inventory - (reserved.products.get(product.id) ?? 0)),
+    ...(product.variants
+      ? {
+          variants: product.variants.map((variant) => ({
+            ...variant,
+            inventory: Math.max(0, variant.inventory - (reserved.variants.get(variant.id) ?? 0)),
+          })),
+        }
+      : {}),
+  }
+}
+
+/**
+ * Loads active holds for a single product and subtracts them from its
+ * stock, for product pages and the product API.
+ */
+export async function withAvailableInventory<T extends StockedProduct>(
+  product: T,
+  now: Date = new Date()
+): Promise<T> {
+  const reserved = await getReservedQuantities(prisma, [product.id], now)
+  return applyReservedInventory(product, reserved)
+}
+
+/**
+ * Units a line could draw on before holds: the batch's stock for imperfect
+ * batch lines (none once it stops selling), otherwise the variant's or
+ * product's inventory.
+ */
+async function getLineStock(
+  tx: Prisma.TransactionClient,
+  line: ReservationLine,
+  now: Date
+): Promise<number> {
+  if (line.imperfectBatchId) {
+    const batch = await tx.imperfectBatch.findUnique({
+      where: { id: line.imperfectBatchId },
+      select: { quantity: true, isActive: true, expiresAt: true },
+    })
+    return batch && isImperfectBatchPurchasable(batch, now) ? batch.quantity : 0
+  }
+
+  const stock = line.variantId
+    ? await tx.productVariant.findUnique({
+        where: { id: line.variantId },
+        select: { inventory: true },
+      })
+    : await tx.product.findUnique({
+        where: { id: line.productId },
+        select: { inventory: true },
+      })
+  return stock?.inventory ?? 0
+}
+
+/**
+ * Places holds for every checkout line. Runs in a serializable transaction
+ * so concurrent checkouts cannot both reserve the last units; throws with a
+ * shopper-facing message when a line cannot be covered.
+ */
+export async function reserveInventoryForCheckout(
+  lines: ReservationLine[],
+  now: Date = new Date()
+): Promise<{ reservationIds: string[]; expiresAt: Date }> {
+  const expiresAt = new Date(now.getTime() + INVENTORY_RESERVATION_CONFIG.HOLD_MINUTES * 60 * 1000)
+
+  for (let attempt = 1; attempt <= INVENTORY_RESERVATION_CONFIG.MAX_RETRIES; attempt += 1) {
+    try {
+      const reservationIds = await prisma.$transaction(
+        async (tx) => {
+          const productIds = [...new Set(lines.map((line) => line.productId))]
+          const reserved = await getReservedQuantities(tx, productIds, now)
+          const ids: string[] = []
+
+          for (const line of lines) {
+            const stock = await getLineStock(tx, line, now)
+
+            const holds = line.imperfectBatchId
+              ? reserved.batches
+              : line.variantId
+                ? reserved.variants
+                : reserved.products
+            const holdKey = line.imperfectBatchId ?? line.variantId ?? line.productId
+            const held = holds.get(holdKey) ?? 0
+            const available = Math.max(0, stock - held)
+
+            if (available < line.quantity) {
+              throw new Error(
+                `Insufficient inventory for ${line.label}. Only ${available} available.`
+              )
+            }
+
+            const reservation = await tx.inventoryReservation.create({
+              data: {
+                productId: line.productId,
+                variantId: line.variantId,
+                ...(line.imperfectBatchId ? { imperfectBatchId: line.imperfectBatchId } : {}),
+                quantity: line.quantity,
+                expiresAt,
+              },
+              select: { id: true },
+            })
+            // Later lines for the same item see this hold
+            holds.set(holdKey, held + line.quantity)
+            ids.push(reservation.id)
+          }
+
+          return ids
+        },
+        {
+          isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        }
+      )
+
+      logger.info('Inventory reserved for checkout', {
+        reservationCount: reservationIds.length,
+        expiresAt,
+      })
+
+      return { reservationIds, expiresAt }
+    } catch (error) {
+      const isSerializationConflict =
+        error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034'
+
+      if (isSerializationConflict && attempt < INVENTORY_RESERVATION_CONFIG.MAX_RETRIES) {
+        continue
+      }
+
+      throw error
+    }
+  }
+
+  throw new Error('Unable to reserve inventory. Please try again.')
+}
+
+/**
+ * Releases active holds by ID, e.g. when checkout fails before an order
+ * exists.
+ */
+export async function releaseReservations(
+  reservationIds: string[],
+  now: Date = new Date()
+): Promise<number> {
+  if (reservationIds.length === 0) {
+    return 0
+  }
+
+  const result = await prisma.inventoryReservation.updateMany({
+    where: { id: { in: reservationIds }, status: INVENTORY_RESERVATION_CONFIG.STATUS.ACTIVE },
+    data: { status: INVENTORY_RESERVATION_CONFIG.STATUS.RELEASED, releasedAt: now },
+  })
+
+  logger.info('Inventory reservations released', { count: result.count })
+
+  return result.count
+}
+
+/**
+ * Releases an order's active holds when its checkout session expires or the
+ * order cannot be fulfilled.
+ */
+export async function releaseOrderReservations(
+  orderId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const result = await prisma.inventoryReservation.updateMany({
+    where: { orderId, status: INVENTORY_RESERVATION_CONFIG.STATUS.ACTIVE },
+    data: { status: INVENTORY_RESERVATION_CONFIG.STATUS.RELEASED, releasedAt: now },
+  })
+
+  if (result.count > 0) {
+    logger.info('Order inventory reservations released', { orderId, count: result.count })
+  }
+
+  return result.count
+}
+
+/**
+ * Marks an order's holds converted. Call in the transaction that decrements
+ * inventory for the paid order. Holds that already timed out are converted
+ * too; the guarded decrement is what protects stock at that point.
+ */
+export async function convertOrderReservations(
+  client: ReservationClient,
+  orderId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const result = await client.inventoryReservation.updateMany({
+    where: {
+      orderId,
+      status: { not: INVENTORY_RESERVATION_CONFIG.STATUS.CONVERTED },
+    },
+    data: { status: INVENTORY_RESERVATION_CONFIG.STATUS.CONVERTED, convertedAt: now },
+  })
+
+  return result.count
+}
+
+/**
+ * Marks timed-out holds released. Expired holds already stop counting
+ * against stock; the sweep keeps the table tidy and the statuses honest.
+ */
+export async function sweepExpiredReservations(
+  now: Date = new Date()
+): Promise<{ released: number }> {
+  const result = await prisma.inventoryReservation.updateMany({
+    where: {
+      status: INVENTORY_RESERVATION_CONFIG.STATUS.ACTIVE,
+      expiresAt: { lte: now },
+    },
+    data: { status: INVENTORY_RESERVATION_CONFIG.STATUS.RELEASED, releasedAt: now },
+  })
+
+  logger.info('Expired inventory reservations swept', { released: result.count })
+
+  return { released: result.count }
+}
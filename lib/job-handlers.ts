@@ -0,0 +1,247 @@
+/**
+ * Job Handlers
+ *
+ * What each background job type (see lib/jobs) does. A handler can run more
+ * than once, after a retry or when a worker dies mid-job, so each one reads
+ * current state and skips work that is already done. Throwing schedules a
+ * retry; returning normally, including when there is nothing to do, marks
+ * the job succeeded.
+ *
+ * @module lib/job-handlers
+ */
+
+import { after } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import {
+  isEmailConfigured,
+  sendOrderConfirmation,
+  sendOutOfStockRefundEmail,
+  sendSubscriptionPaymentFailedEmail,
+} from '@/lib/email'
+import { awardPurchasePoints, awardReferralPoints } from '@/lib/loyalty'
+import { storeOrderImpact } from '@/lib/impact'
+import { completeReferral } from '@/lib/referrals'
+import { purchaseOrderCarbonOffset } from '@/lib/carbon-offsets'
+import { getDunningSchedule, getUpdatePaymentUrl } from '@/lib/subscription-dunning'
+import { processJobs, type JobHandlers, type JobRunSummary } from '@/lib/jobs'
+
+/**
+ * Returns false when email is not configured, in which case email jobs
+ * succeed without sending rather than retrying until they die.
+ */
+function canSendEmail(jobType: string, context: Record<string, unknown>): boolean {
+  if (!isEmailConfigured()) {
+    logger.info('Email service not configured - skipping email job', { jobType, ...context })
+    return false
+  }
+  return true
+}
+
+function assertSent(result: { success: boolean; error?: unknown }, message: string): void {
+  if (!result.success) {
+    throw new Error(
+      `${message}: ${result.error instanceof Error ? result.error.message : String(result.error)}`
+    )
+  }
+}
+
+export const JOB_HANDLERS: JobHandlers = {
+  'order.confirmationEmail': async ({ orderId }) => {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: { items: true },
+    })
+
+    if (!order?.customerEmail) {
+      logger.warn('No customer email available for order confirmation', { orderId })
+      return
+    }
+
+    if (!canSendEmail('order.confirmationEmail', { orderId })) {
+      return
+    }
+
+    const result = await sendOrderConfirmation(order.customerEmail, {
+      orderId: order.id,
+      items: order.items.map((item) => ({
+        title: item.title,
+        quantity: item.quantity,
+        price: Number(item.price),
+      })),
+      total: Number(order.amount),
+      customerName: order.customerName || 'Customer',
+    })
+    assertSent(result, 'Failed to send order confirmation email')
+  },
+
+  'order.outOfStockEmail': async ({ orderId }) => {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { id: true, customerEmail: true, customerName: true },
+    })
+
+    if (!order?.customerEmail || !canSendEmail('order.outOfStockEmail', { orderId })) {
+      return
+    }
+
+    const result = await sendOutOfStockRefundEmail(
+      order.customerEmail,
+      order.id,
+      order.customerName || 'Customer'
+    )
+    assertSent(result, 'Failed to send out-of-stock email')
+  },
+
+  'subscription.paymentFailedEmail': async ({ subscriptionId, failedAttemptCount }) => {
+    const subscription = await prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+      select: {
+        visibleId: true,
+        dunningStartedAt: true,
+        user: { select: { email: true, name: true } },
+      },
+    })
+
+    // Paid (or cancelled) since the job was enqueued
+    if (!subscription?.dunningStartedAt) {
+      return
+    }
+
+    if (
+      !subscription.user.email ||
+      !canSendEmail('subscription.paymentFailedEmail', { subscriptionId })
+    ) {
+      return
+    }
+
+    const result = await sendSubscriptionPaymentFailedEmail(
+      subscription.user.email,
+      subscription.visibleId,
+      subscription.user.name || 'Customer',
+      failedAttemptCount,
+      {
+        updatePaymentUrl: getUpdatePaymentUrl(subscriptionId),
+        cancelsAt: getDunningSchedule(subscription.dunningStartedAt).cancelsAt,
+      }
+    )
+    assertSent(result, 'Failed to send subscription payment failure email')
+  },
+
+  'loyalty.purchasePoints': async ({ orderId }) => {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { userId: true, amount: true, refundAmount: true, status: true },
+    })
+
+    // A refund processed before this job ran found no points to reverse, so
+    // award nothing for a refunded order and only the rest of a partial one
+    if (!order || order.status === 'refunded') {
+      return
+    }
+
+    const amount = Number(order.amount) - Number(order.refundAmount ?? 0)
+    if (amount <= 0) {
+      return
+    }
+
+    const result = await awardPurchasePoints(order.userId, orderId, amount)
+    if (result.pointsAwarded > 0) {
+      logger.info('Loyalty points awarded for purchase', {
+        userId: order.userId,
+        orderId,
+        pointsAwarded: result.pointsAwarded,
+      })
+    }
+  },
+
+  'impact.storeOrder': async ({ orderId }) => {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: {
+        userId: true,
+        status: true,
+        items: { select: { productId: true, quantity: true, refundedQuantity: true } },
+      },
+    })
+
+    if (!order || order.status === 'refunded') {
+      return
+    }
+
+    // A refund processed before this job ran has nothing to reverse yet, so
+    // leave refunded quantities out instead
+    const items = order.items
+      .map((item) => ({ productId: item.productId, quantity: item.quantity - item.refundedQuantity }))
+      .filter((item) => item.quantity > 0)
+
+    const result = await storeOrderImpact(orderId, order.userId, items)
+    if (result.milestones.length > 0) {
+      logger.info('User achieved impact milestones', {
+        userId: order.userId,
+        orderId,
+        milestones: result.milestones,
+      })
+    }
+  },
+
+  'carbonOffset.purchase': async ({ orderId }) => {
+    await purchaseOrderCarbonOffset(orderId)
+  },
+
+  'referral.complete': async ({ orderId }) => {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { userId: true, amount: true, refundAmount: true, status: true },
+    })
+
+    // A refunded order does not qualify the referral; a later order can
+    if (!order || order.status === 'refunded') {
+      return
+    }
+
+    const result = await completeReferral(
+      order.userId,
+      orderId,
+      Number(order.amount) - Number(order.refundAmount ?? 0)
+    )
+    if (!result.success) {
+      // An unverified referee stays pending; a later order completes it
+      logger.info('Referral not completed', { orderId, reason: result.error })
+      return
+    }
+
+    // Looked up rather than taken from the result so a retry after the
+    // referral was completed still awards the referrer
+    const referral = await prisma.referral.findFirst({
+      where: { refereeId: order.userId, refereeOrderId: orderId },
+      select: { id: true, referrerId: true },
+    })
+
+    if (referral) {
+      await awardReferralPoints(referral.referrerId, referral.id)
+    }
+  },
+}
+
+/**
+ * Runs one batch of due jobs with the registered handlers.
+ */
+export async function runDueJobs(now: Date = new Date()): Promise<JobRunSummary> {
+  return processJobs(JOB_HANDLERS, { now })
+}
+
+/**
+ * Runs due jobs once the current response has been sent, so work a request
+ * enqueued (e.g. an order confirmation email) does not wait for the next
+ * worker tick. Failures are left to the worker's retries.
+ */
+export function runDueJobsAfterResponse(context: Record<string, unknown> = {}): void {
+  after(async () => {
+    try {
+      await runDueJobs()
+    } catch (error) {
+      logger.error('Failed to run jobs after response', error, context)
+    }
+  })
+}
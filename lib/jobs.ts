@@ -0,0 +1,309 @@
+/**
+ * Background Jobs
+ *
+ * A Postgres-backed queue for side effects that must eventually happen but
+ * should not decide whether a request succeeds, such as the emails, loyalty
+ * points and impact records that follow a paid order.
+ *
+ * 1. Enqueue: `enqueueJobs` inserts jobs, usually inside the transaction that
+ *    makes them necessary, so a committed order always has its follow-up
+ *    work recorded. Every job has an idempotency key; enqueueing a key that
+ *    already exists is a no-op, so retried webhooks do not duplicate work.
+ * 2. Claim: the worker (`/api/cron/jobs`, `npm run jobs:work`) claims due
+ *    jobs with a conditional update, so concurrent workers never run the
+ *    same job. Jobs left RUNNING by a worker that died are reclaimed after
+ *    LOCK_TIMEOUT_MS.
+ * 3. Run: a handler that throws is retried with exponential backoff. After
+ *    maxAttempts the job is DEAD and waits for `retryJob`.
+ *
+ * Delivery is at least once, so handlers (see lib/job-handlers) must be
+ * idempotent.
+ *
+ * @module lib/jobs
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+
+export const JOB_CONFIG = {
+  STATUS: {
+    PENDING: 'PENDING',
+    RUNNING: 'RUNNING',
+    SUCCEEDED: 'SUCCEEDED',
+    DEAD: 'DEAD',
+  } as const,
+
+  MAX_ATTEMPTS: 8,
+  BASE_BACKOFF_MS: 30 * 1000, // 30 seconds, doubled per attempt
+  MAX_BACKOFF_MS: 6 * 60 * 60 * 1000, // 6 hours
+  LOCK_TIMEOUT_MS: 10 * 60 * 1000, // 10 minutes
+  BATCH_SIZE: 25,
+  MAX_ERROR_LENGTH: 2000,
+} as const
+
+export type JobStatus = (typeof JOB_CONFIG.STATUS)[keyof typeof JOB_CONFIG.STATUS]
+
+/**
+ * Payload for each job type. Payloads carry IDs rather than snapshots so
+ * handlers act on current data when they run.
+ */
+export interface JobPayloads {
+  'order.confirmationEmail': { orderId: string }
+  'order.outOfStockEmail': { orderId: string }
+  'subscription.paymentFailedEmail': { subscriptionId: string; failedAttemptCount: number }
+  'loyalty.purchasePoints': { orderId: string }
+  'impact.storeOrder': { orderId: string }
+  'referral.complete': { orderId: string }
+  'carbonOffset.purchase': { orderId: string }
+}
+
+export type JobType = keyof JobPayloads
+
+export type JobRequest = {
+  [T in JobType]: {
+    type: T
+    payload: JobPayloads[T]
+    idempotencyKey: string
+    runAt?: Date
+    maxAttempts?: number
+  }
+}[JobType]
+
+export type JobHandlers = {
+  [T in JobType]: (payload: JobPayloads[T], job: { id: string; attempts: number }) => Promise<void>
+}
+
+export interface JobRunSummary {
+  claimed: number
+  succeeded: number
+  retried: number
+  dead: number
+}
+
+type JobClient = Prisma.TransactionClient | typeof prisma
+
+type ClaimedJob = Prisma.JobGetPayload<{
+  select: { id: true; type: true; payload: true; attempts: true; maxAttempts: true }
+}>
+
+/**
+ * Builds an idempotency key such as `order.confirmationEmail:<orderId>`.
+ */
+export function jobKey(type: JobType, ...parts: string[]): string {
+  return [type, ...parts].join(':')
+}
+
+/**
+ * Inserts jobs, skipping any whose idempotency key already exists. Pass the
+ * transaction client to enqueue atomically with the change that needs them.
+ *
+ * @returns The number of jobs actually inserted
+ */
+export async function enqueueJobs(
+  jobs: JobRequest[],
+  client: JobClient = prisma
+): Promise<number> {
+  if (jobs.length === 0) {
+    return 0
+  }
+
+  const result = await client.job.createMany({
+    data: jobs.map((job) => ({
+      type: job.type,
+      payload: JSON.stringify(job.payload),
+      idempotencyKey: job.idempotencyKey,
+      runAt: job.runAt ?? new Date(),
+      maxAttempts: job.maxAttempts ?? JOB_CONFIG.MAX_ATTEMPTS,
+    })),
+    skipDuplicates: true,
+  })
+
+  return result.count
+}
+
+/**
+ * Delay before the next attempt after `attempt` failed attempts:
+ * 30s, 1m, 2m, 4m, ... capped at MAX_BACKOFF_MS.
+ */
+export function getJobBackoffMs(attempt: number): number {
+  const backoff = JOB_CONFIG.BASE_BACKOFF_MS * 2 ** Math.max(attempt - 1, 0)
+  return Math.min(backoff, JOB_CONFIG.MAX_BACKOFF_MS)
+}
+
+/**
+ * Claims up to `limit` due jobs for this worker. Each claim is a
+ * conditional update on the state the job was read in, so a job another
+ * worker claimed in the meantime is skipped.
+ */
+export async function claimJobs(
+  now: Date = new Date(),
+  limit: number = JOB_CONFIG.BATCH_SIZE
+): Promise<ClaimedJob[]> {
+  const staleBefore = new Date(now.getTime() - JOB_CONFIG.LOCK_TIMEOUT_MS)
+
+  const candidates = await prisma.job.findMany({
+    where: {
+      OR: [
+        { status: JOB_CONFIG.STATUS.PENDING, runAt: { lte: now } },
+        { status: JOB_CONFIG.STATUS.RUNNING, lockedAt: { lt: staleBefore } },
+      ],
+    },
+    orderBy: { runAt: 'asc' },
+    take: limit,
+    select: { id: true, status: true, lockedAt: true },
+  })
+
+  const claimedIds: string[] = []
+  for (const candidate of candidates) {
+    const result = await prisma.job.updateMany({
+      where: { id: candidate.id, status: candidate.status, lockedAt: candidate.lockedAt },
+      data: {
+        status: JOB_CONFIG.STATUS.RUNNING,
+        lockedAt: now,
+        attempts: { increment: 1 },
+      },
+    })
+
+    if (result.count === 1) {
+      claimedIds.push(candidate.id)
+    }
+  }
+
+  if (claimedIds.length === 0) {
+    return []
+  }
+
+  return prisma.job.findMany({
+    where: { id: { in: claimedIds } },
+    orderBy: { runAt: 'asc' },
+    select: { id: true, type: true, payload: true, attempts: true, maxAttempts: true },
+  })
+}
+
+/**
+ * Runs one claimed job and records the outcome.
+ */
+export async function runJob(
+  job: ClaimedJob,
+  handlers: JobHandlers,
+  now: Date = new Date()
+): Promise<JobStatus> {
+  try {
+    const handler = handlers[job.type as JobType] as
+      | ((payload: unknown, job: { id: string; attempts: number }) => Promise<void>)
+      | undefined
+    if (!handler) {
+      throw new Error(`No handler registered for job type "${job.type}"`)
+    }
+
+    await handler(JSON.parse(job.payload), { id: job.id, attempts: job.attempts })
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: JOB_CONFIG.STATUS.SUCCEEDED,
+        completedAt: new Date(),
+        lockedAt: null,
+        lastError: null,
+      },
+    })
+
+    return JOB_CONFIG.STATUS.SUCCEEDED
+  } catch (error) {
+    const message = (error instanceof Error ? error.message : String(error)).slice(
+      0,
+      JOB_CONFIG.MAX_ERROR_LENGTH
+    )
+
+    if (job.attempts >= job.maxAttempts) {
+      await prisma.job.update({
+        where: { id: job.id },
+        data: { status: JOB_CONFIG.STATUS.DEAD, lockedAt: null, lastError: message },
+      })
+
+      logger.error('Job failed permanently', error, {
+        jobId: job.id,
+        type: job.type,
+        attempts: job.attempts,
+      })
+
+      return JOB_CONFIG.STATUS.DEAD
+    }
+
+    const runAt = new Date(now.getTime() + getJobBackoffMs(job.attempts))
+    await prisma.job.update({
+      where: { id: job.id },
+      data: { status: JOB_CONFIG.STATUS.PENDING, lockedAt: null, lastError: message, runAt },
+    })
+
+    logger.warn('Job failed, will retry', {
+      jobId: job.id,
+      type: job.type,
+      attempts: job.attempts,
+      runAt: runAt.toISOString(),
+      error: message,
+    })
+
+    return JOB_CONFIG.STATUS.PENDING
+  }
+}
+
+/**
+ * Claims and runs one batch of due jobs.
+ */
+export async function processJobs(
+  handlers: JobHandlers,
+  options: { now?: Date; limit?: number } = {}
+): Promise<JobRunSummary> {
+  const now = options.now ?? new Date()
+  const jobs = await claimJobs(now, options.limit)
+  const summary: JobRunSummary = { claimed: jobs.length, succeeded: 0, retried: 0, dead: 0 }
+
+  for (const job of jobs) {
+    const status = await runJob(job, handlers, now)
+    if (status === JOB_CONFIG.STATUS.SUCCEEDED) {
+      summary.succeeded++
+    } else if (status === JOB_CONFIG.STATUS.DEAD) {
+      summary.dead++
+    } else {
+      summary.retried++
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Puts a dead job back in the queue with a fresh set of attempts.
+ *
+ * @returns false if the job does not exist or is not dead
+ */
+export async function retryJob(jobId: string, now: Date = new Date()): Promise<boolean> {
+  const result = await prisma.job.updateMany({
+    where: { id: jobId, status: JOB_CONFIG.STATUS.DEAD },
+    data: { status: JOB_CONFIG.STATUS.PENDING, attempts: 0, runAt: now },
+  })
+
+  if (result.count > 0) {
+    logger.info('Dead job requeued', { jobId })
+  }
+
+  return result.count > 0
+}
+
+export async function listDeadJobs(limit: number = 50) {
+  return prisma.job.findMany({
+    where: { status: JOB_CONFIG.STATUS.DEAD },
+    orderBy: { updatedAt: 'desc' },
+    take: limit,
+    select: {
+      id: true,
+      type: true,
+      idempotencyKey: true,
+      attempts: true,
+      lastError: true,
+      updatedAt: true,
+    },
+  })
+}
@@ -18,11 +18,24 @@
  * - SPROUT: 500-1499 lifetime points (1.1x multiplier)
  * - BLOOM: 1500-2999 lifetime points (1.25x multiplier)
  * - FLOURISH: 3000+ lifetime points (1.5x multiplier)
+ *
+ * Tier entitlements (enforced, see LOYALTY_CONFIG.tierEntitlements):
+ * - Free shipping: applied by lib/shipping in both checkout routes
+ * - Early access: early-access products are listed and purchasable
+ * - Birthday bonus: awarded by the daily birthday job
+ *
+ * Expiry:
+ * - Earned points expire 12 months after they are earned
+ * - Redemptions consume the oldest unexpired lots first (FIFO)
+ * - The daily expiry sweep writes off each expired lot's unused remainder as
+ *   an EXPIRED ledger entry, and warns customers 30 days ahead by email
  */
 
 import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
+import { sendPointsExpiringEmail } from "@/lib/email";
+import { isEmailVerified } from "@/lib/email-verification";
 
 /**
  * Loyalty tier definitions
@@ -44,6 +57,9 @@ export const POINT_SOURCES = {
   REVIEW: "REVIEW",
   REFERRAL: "REFERRAL",
   SIGNUP: "SIGNUP",
+  BIRTHDAY: "BIRTHDAY",
+  RECYCLING: "RECYCLING",
+  EXPIRED: "EXPIRED",
 } as const;
 
 export type PointSource = (typeof POINT_SOURCES)[keyof typeof POINT_SOURCES];
@@ -61,6 +77,11 @@ export const LOYALTY_CONFIG = {
   // Redemption rate: 100 points = $1
   pointsPerDollarDiscount: 100,
 
+  // Expiry: earned points lapse after this many months; customers are warned
+  // this many days ahead
+  pointsExpiryMonths: 12,
+  expiryWarningDays: 30,
+
   // Tier thresholds (lifetime points)
   tiers: {
     SEEDLING: { min: 0, max: 499, multiplier: 1.0, name: "Seedling" },
@@ -76,8 +97,35 @@ export const LOYALTY_CONFIG = {
     BLOOM: ["Earn 1.25x points on purchases", "Free shipping on all orders", "Birthday bonus points"],
     FLOURISH: ["Earn 1.5x points on purchases", "Free express shipping", "Exclusive products", "VIP support"],
   },
+
+  // Machine-readable entitlements behind tierBenefits. Higher tiers keep the
+  // perks of lower tiers (a Bloom member still gets early access).
+  tierEntitlements: {
+    SEEDLING: {
+      freeShipping: null,
+      earlyAccess: false,
+      birthdayBonusPoints: 0,
+    },
+    SPROUT: {
+      freeShipping: { speeds: ["standard"], minSubtotal: 50 },
+      earlyAccess: true,
+      birthdayBonusPoints: 0,
+    },
+    BLOOM: {
+      freeShipping: { speeds: ["standard"], minSubtotal: 0 },
+      earlyAccess: true,
+      birthdayBonusPoints: 250,
+    },
+    FLOURISH: {
+      freeShipping: { speeds: ["standard", "express"], minSubtotal: 0 },
+      earlyAccess: true,
+      birthdayBonusPoints: 500,
+    },
+  },
 } as const;
 
+export type TierEntitlements = (typeof LOYALTY_CONFIG.tierEntitlements)[LoyaltyTier];
+
 /**
  * Calculate tier from lifetime points
  */
@@ -105,6 +153,49 @@ export function getTierInfo(tier: LoyaltyTier) {
   };
 }
 
+/**
+ * Get the enforceable entitlements for a tier
+ */
+export function getTierEntitlements(tier: LoyaltyTier): TierEntitlements {
+  return LOYALTY_CONFIG.tierEntitlements[tier] ?? LOYALTY_CONFIG.tierEntitlements.SEEDLING;
+}
+
+/**
+ * Check whether a tier can see and buy early-access products
+ */
+export function hasEarlyAccess(tier: LoyaltyTier | null | undefined): boolean {
+  return tier ? getTierEntitlements(tier).earlyAccess : false;
+}
+
+/**
+ * Check whether a product is still in its members-only early-access window
+ */
+export function isInEarlyAccessWindow(
+  product: { earlyAccessUntil: Date | null },
+  now: Date = new Date()
+): boolean {
+  return product.earlyAccessUntil !== null && product.earlyAccessUntil > now;
+}
+
+/**
+ * Look up a user's loyalty tier for entitlement checks.
+ * Guests (and unknown users) have no tier.
+ */
+export async function getUserLoyaltyTier(
+  userId: string | null | undefined
+): Promise<LoyaltyTier | null> {
+  if (!userId || userId.startsWith("guest_")) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { loyaltyTier: true },
+  });
+
+  return (user?.loyaltyTier as LoyaltyTier | undefined) ?? null;
+}
+
 /**
  * Calculate points needed for next tier
  */
@@ -169,15 +260,12 @@ async function getAvailablePointsFromClient(
 ): Promise<number> {
   const includePending = options.includePending ?? true;
 
-  // Get total earned points
+  // Net ledger balance. Expired lots stay on the ledger at face value and are
+  // offset by the negative EXPIRED entry the sweep writes, which only covers
+  // the part of each lot that was never redeemed.
   const earnedPoints = await client.loyaltyPoints.aggregate({
     where: {
       userId,
-      // Only count non-expired points
-      OR: [
-        { expiresAt: null },
-        { expiresAt: { gt: new Date() } },
-      ],
     },
     _sum: {
       points: true,
@@ -200,7 +288,21 @@ async function getAvailablePointsFromClient(
   const earned = earnedPoints._sum.points || 0;
   const redeemed = redeemedPoints._sum.pointsUsed || 0;
 
-  return Math.max(0, earned - redeemed);
+  // Lots that lapsed since the last sweep have no EXPIRED entry yet; leave
+  // out what the sweep will write off so the balance matches checkout
+  const unswept = await getUnsweptExpiredLots(client, userId, new Date());
+  const lapsed = unswept.reduce((sum, lot) => sum + lot.remainder, 0);
+
+  return Math.max(0, earned - redeemed - lapsed);
+}
+
+/**
+ * Expiry date for points earned at the given time
+ */
+export function getPointsExpiryDate(earnedAt: Date): Date {
+  const expiresAt = new Date(earnedAt);
+  expiresAt.setUTCMonth(expiresAt.getUTCMonth() + LOYALTY_CONFIG.pointsExpiryMonths);
+  return expiresAt;
 }
 
 /**
@@ -293,6 +395,7 @@ export async function awardPoints(params: {
           reviewId,
           referralId,
           description: description || `${source} points`,
+          expiresAt: points > 0 ? getPointsExpiryDate(new Date()) : null,
         },
       }),
       prisma.user.update({
@@ -327,9 +430,15 @@ export async function awardPoints(params: {
 }
 
 /**
- * Award signup bonus points to a new user
+ * Award signup bonus points to a new user.
+ * Deferred until the user has verified their email address.
  */
 export async function awardSignupBonus(userId: string): Promise<boolean> {
+  if (!(await isEmailVerified(userId))) {
+    logger.info("Signup bonus deferred until email is verified", { userId });
+    return false;
+  }
+
   // Check if user already received signup bonus
   const existingBonus = await prisma.loyaltyPoints.findFirst({
     where: {
@@ -354,9 +463,23 @@ export async function awardSignupBonus(userId: string): Promise<boolean> {
 }
 
 /**
- * Award points for a purchase
+ * Award points for a purchase.
+ * Idempotent per order, so a retried job cannot award twice.
  */
 export async function awardPurchasePoints(userId: string, orderId: string, orderTotal: number): Promise<{ success: boolean; pointsAwarded: number }> {
+  const existingPoints = await prisma.loyaltyPoints.findFirst({
+    where: {
+      userId,
+      orderId,
+      source: POINT_SOURCES.PURCHASE,
+    },
+  });
+
+  if (existingPoints) {
+    logger.info("Points already awarded for this order", { userId, orderId });
+    return { success: true, pointsAwarded: 0 };
+  }
+
   const user = await prisma.user.findUnique({
     where: { id: userId },
     select: { loyaltyTier: true },
@@ -414,9 +537,20 @@ export async function awardReviewPoints(userId: string, reviewId: string): Promi
 }
 
 /**
- * Award referral points
+ * Award referral points.
+ * Only referrals whose referee has verified their email address qualify.
  */
 export async function awardReferralPoints(userId: string, referralId: string): Promise<boolean> {
+  const referral = await prisma.referral.findUnique({
+    where: { id: referralId },
+    select: { refereeId: true },
+  });
+
+  if (!referral || !(await isEmailVerified(referral.refereeId))) {
+    logger.info("Referral not eligible for points", { userId, referralId });
+    return false;
+  }
+
   // Check if points were already awarded for this referral
   const existingPoints = await prisma.loyaltyPoints.findFirst({
     where: {
@@ -442,6 +576,379 @@ export async function awardReferralPoints(userId: string, referralId: string): P
   return result.success;
 }
 
+/**
+ * Check whether a stored birthday falls on the given day (UTC).
+ * Feb 29 birthdays are celebrated on Feb 28 in non-leap years.
+ */
+export function isBirthdayOn(birthday: Date, now: Date = new Date()): boolean {
+  const month = birthday.getUTCMonth();
+  const day = birthday.getUTCDate();
+
+  if (month === 1 && day === 29) {
+    const year = now.getUTCFullYear();
+    const isLeapYear = new Date(Date.UTC(year, 1, 29)).getUTCMonth() === 1;
+    if (!isLeapYear) {
+      return now.getUTCMonth() === 1 && now.getUTCDate() === 28;
+    }
+  }
+
+  return now.getUTCMonth() === month && now.getUTCDate() === day;
+}
+
+/**
+ * Award the tier's birthday bonus to a user (at most once per calendar year)
+ */
+export async function awardBirthdayBonus(userId: string, now: Date = new Date()): Promise<boolean> {
+  const tier = await getUserLoyaltyTier(userId);
+  const bonusPoints = tier ? getTierEntitlements(tier).birthdayBonusPoints : 0;
+
+  if (bonusPoints <= 0) {
+    return false;
+  }
+
+  // Check if the bonus was already awarded this year
+  const existingBonus = await prisma.loyaltyPoints.findFirst({
+    where: {
+      userId,
+      source: POINT_SOURCES.BIRTHDAY,
+      earnedAt: { gte: new Date(Date.UTC(now.getUTCFullYear(), 0, 1)) },
+    },
+  });
+
+  if (existingBonus) {
+    logger.info("User already received birthday bonus this year", { userId });
+    return false;
+  }
+
+  const result = await awardPoints({
+    userId,
+    points: bonusPoints,
+    source: POINT_SOURCES.BIRTHDAY,
+    description: "Happy birthday from Link Flame!",
+  });
+
+  return result.success;
+}
+
+/**
+ * Award birthday bonuses to every eligible member whose birthday is today.
+ * Run daily by the scheduled birthday job; safe to re-run on the same day.
+ */
+export async function awardBirthdayBonuses(
+  now: Date = new Date()
+): Promise<{ checked: number; awarded: number }> {
+  const eligibleTiers = (Object.keys(LOYALTY_CONFIG.tierEntitlements) as LoyaltyTier[]).filter(
+    (tier) => getTierEntitlements(tier).birthdayBonusPoints > 0
+  );
+
+  const profiles = await prisma.profile.findMany({
+    where: {
+      birthday: { not: null },
+      user: { loyaltyTier: { in: eligibleTiers } },
+    },
+    select: { userId: true, birthday: true },
+  });
+
+  const celebrating = profiles.filter(
+    (profile) => profile.birthday !== null && isBirthdayOn(profile.birthday, now)
+  );
+
+  let awarded = 0;
+  for (const profile of celebrating) {
+    if (await awardBirthdayBonus(profile.userId, now)) {
+      awarded++;
+    }
+  }
+
+  logger.info("Birthday bonus run complete", { checked: celebrating.length, awarded });
+
+  return { checked: celebrating.length, awarded };
+}
+
+/**
+ * An earned points lot, as stored in the ledger
+ */
+export interface PointsLot {
+  id: string;
+  points: number;
+  earnedAt: Date;
+  expiresAt: Date | null;
+}
+
+/**
+ * Points taken out of the balance (a redemption or a negative ledger entry)
+ */
+export interface PointsConsumption {
+  points: number;
+  at: Date;
+}
+
+/**
+ * Allocate consumptions against earned lots, oldest lot first.
+ *
+ * Each consumption, in time order, draws from lots that had not yet expired
+ * when it happened. Returns the unused remainder of every lot.
+ */
+export function allocatePointsFifo(
+  lots: PointsLot[],
+  consumptions: PointsConsumption[]
+): Map<string, number> {
+  const ordered = [...lots].sort(
+    (a, b) => a.earnedAt.getTime() - b.earnedAt.getTime() || a.id.localeCompare(b.id)
+  );
+  const remaining = new Map(ordered.map((lot) => [lot.id, lot.points]));
+
+  const sortedConsumptions = [...consumptions].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  for (const consumption of sortedConsumptions) {
+    let needed = consumption.points;
+
+    for (const lot of ordered) {
+      if (needed <= 0) break;
+      if (lot.expiresAt && lot.expiresAt <= consumption.at) continue;
+
+      const available = remaining.get(lot.id) ?? 0;
+      if (available <= 0) continue;
+
+      const taken = Math.min(available, needed);
+      remaining.set(lot.id, available - taken);
+      needed -= taken;
+    }
+  }
+
+  return remaining;
+}
+
+async function getPointsLotsAndConsumptions(
+  client: Prisma.TransactionClient | typeof prisma,
+  userId: string
+) {
+  const [entries, redemptions] = await Promise.all([
+    client.loyaltyPoints.findMany({
+      where: { userId, source: { not: POINT_SOURCES.EXPIRED } },
+      select: {
+        id: true,
+        points: true,
+        earnedAt: true,
+        expiresAt: true,
+        expiredAt: true,
+        expiryNotifiedAt: true,
+      },
+    }),
+    client.loyaltyRedemption.findMany({
+      where: { userId, status: { in: getRedemptionStatusesForAvailability(true) } },
+      select: { pointsUsed: true, redeemedAt: true },
+    }),
+  ]);
+
+  // Negative entries (e.g. refund reversals) draw down lots like redemptions do
+  const lots = entries.filter((entry) => entry.points > 0);
+  const consumptions: PointsConsumption[] = [
+    ...redemptions.map((r) => ({ points: r.pointsUsed, at: r.redeemedAt })),
+    ...entries
+      .filter((entry) => entry.points < 0)
+      .map((entry) => ({ points: -entry.points, at: entry.earnedAt })),
+  ];
+
+  return { lots, remaining: allocatePointsFifo(lots, consumptions) };
+}
+
+/**
+ * A user's lapsed lots the sweep has not written off yet, with the unused
+ * remainder of each.
+ */
+async function getUnsweptExpiredLots(
+  client: Prisma.TransactionClient | typeof prisma,
+  userId: string,
+  now: Date
+): Promise<Array<{ id: string; remainder: number }>> {
+  // Cheap indexed check first; this runs on every balance read and checkout hold
+  const hasDueLot = await client.loyaltyPoints.findFirst({
+    where: { userId, expiresAt: { lte: now }, expiredAt: null, points: { gt: 0 } },
+    select: { id: true },
+  });
+
+  if (!hasDueLot) {
+    return [];
+  }
+
+  const { lots, remaining } = await getPointsLotsAndConsumptions(client, userId);
+
+  return lots
+    .filter((lot) => lot.expiredAt === null && lot.expiresAt !== null && lot.expiresAt <= now)
+    .map((lot) => ({ id: lot.id, remainder: Math.max(0, remaining.get(lot.id) ?? 0) }));
+}
+
+/**
+ * Write off a user's expired, unswept lots inside an existing transaction.
+ * Returns the number of points expired.
+ */
+async function expireUserPointsWithClient(
+  client: Prisma.TransactionClient,
+  userId: string,
+  now: Date
+): Promise<number> {
+  const dueLots = await getUnsweptExpiredLots(client, userId, now);
+
+  if (dueLots.length === 0) {
+    return 0;
+  }
+
+  let expiredPoints = 0;
+  for (const lot of dueLots) {
+    expiredPoints += lot.remainder;
+
+    await client.loyaltyPoints.update({
+      where: { id: lot.id },
+      data: { expiredAt: now, expiredPoints: lot.remainder },
+    });
+  }
+
+  if (expiredPoints > 0) {
+    await client.loyaltyPoints.create({
+      data: {
+        userId,
+        points: -expiredPoints,
+        source: POINT_SOURCES.EXPIRED,
+        description: `${expiredPoints} unused points expired`,
+        earnedAt: now,
+      },
+    });
+  }
+
+  return expiredPoints;
+}
+
+/**
+ * Expire a single user's lapsed points (FIFO against their redemptions)
+ */
+export async function expireUserPoints(userId: string, now: Date = new Date()): Promise<number> {
+  return prisma.$transaction(
+    (tx) => expireUserPointsWithClient(tx, userId, now),
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+}
+
+/**
+ * Sweep every user with lapsed points. Run daily by the expiry job and the
+ * CLI script; safe to re-run because swept lots are marked with expiredAt.
+ */
+export async function sweepExpiredPoints(
+  now: Date = new Date()
+): Promise<{ usersProcessed: number; pointsExpired: number; failures: number }> {
+  const due = await prisma.loyaltyPoints.findMany({
+    where: {
+      expiresAt: { lte: now },
+      expiredAt: null,
+      points: { gt: 0 },
+    },
+    select: { userId: true },
+    distinct: ["userId"],
+  });
+
+  let pointsExpired = 0;
+  let failures = 0;
+
+  for (const { userId } of due) {
+    try {
+      pointsExpired += await expireUserPoints(userId, now);
+    } catch (error) {
+      failures++;
+      logger.error("Failed to expire loyalty points", error, { userId });
+    }
+  }
+
+  logger.info("Loyalty points expiry sweep complete", {
+    usersProcessed: due.length,
+    pointsExpired,
+    failures,
+  });
+
+  return { usersProcessed: due.length, pointsExpired, failures };
+}
+
+/**
+ * Email customers whose unused points expire within the warning window.
+ * Each lot is only warned about once.
+ */
+export async function notifyExpiringPoints(
+  now: Date = new Date()
+): Promise<{ usersNotified: number; failures: number }> {
+  const windowEnd = new Date(now.getTime() + LOYALTY_CONFIG.expiryWarningDays * 24 * 60 * 60 * 1000);
+
+  const due = await prisma.loyaltyPoints.findMany({
+    where: {
+      expiresAt: { gt: now, lte: windowEnd },
+      expiredAt: null,
+      expiryNotifiedAt: null,
+      points: { gt: 0 },
+    },
+    select: { userId: true },
+    distinct: ["userId"],
+  });
+
+  let usersNotified = 0;
+  let failures = 0;
+
+  for (const { userId } of due) {
+    try {
+      const { lots, remaining } = await getPointsLotsAndConsumptions(prisma, userId);
+
+      const expiringLots = lots.filter(
+        (lot) =>
+          lot.expiredAt === null &&
+          lot.expiryNotifiedAt === null &&
+          lot.expiresAt !== null &&
+          lot.expiresAt > now &&
+          lot.expiresAt <= windowEnd
+      );
+      const expiringPoints = expiringLots.reduce(
+        (sum, lot) => sum + Math.max(0, remaining.get(lot.id) ?? 0),
+        0
+      );
+
+      if (expiringPoints > 0) {
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { email: true, name: true },
+        });
+
+        if (user?.email) {
+          const firstExpiry = expiringLots.reduce(
+            (earliest, lot) => (lot.expiresAt! < earliest ? lot.expiresAt! : earliest),
+            expiringLots[0].expiresAt!
+          );
+
+          const result = await sendPointsExpiringEmail(user.email, {
+            customerName: user.name || "there",
+            points: expiringPoints,
+            expiresAt: firstExpiry,
+          });
+
+          if (!result.success) {
+            failures++;
+            continue;
+          }
+
+          usersNotified++;
+        }
+      }
+
+      await prisma.loyaltyPoints.updateMany({
+        where: { id: { in: expiringLots.map((lot) => lot.id) } },
+        data: { expiryNotifiedAt: now },
+      });
+    } catch (error) {
+      failures++;
+      logger.error("Failed to send points expiry notification", error, { userId });
+    }
+  }
+
+  logger.info("Loyalty points expiry notifications complete", { usersNotified, failures });
+
+  return { usersNotified, failures };
+}
+
 /**
  * Redeem points for a discount
  */
@@ -528,6 +1035,10 @@ export async function holdPointsForCheckout(
     try {
       const redemption = await prisma.$transaction(
         async (tx) => {
+          // Write off anything that lapsed since the last sweep so the
+          // balance checked below is exact
+          await expireUserPointsWithClient(tx, userId, new Date())
+
           const availablePoints = await getAvailablePointsFromClient(tx, userId, {
             includePending: true,
           })
@@ -644,7 +1155,7 @@ export async function getUserPointHistory(
 ): Promise<{
   transactions: Array<{
     id: string;
-    type: "earned" | "redeemed";
+    type: "earned" | "redeemed" | "expired";
     points: number;
     source?: string;
     description?: string | null;
@@ -686,7 +1197,7 @@ export async function getUserPointHistory(
   // Combine and sort transactions
   const allTransactions: Array<{
     id: string;
-    type: "earned" | "redeemed";
+    type: "earned" | "redeemed" | "expired";
     points: number;
     source?: string;
     description?: string | null;
@@ -695,7 +1206,7 @@ export async function getUserPointHistory(
   }> = [
     ...earnedPoints.map((p) => ({
       id: p.id,
-      type: "earned" as const,
+      type: p.source === POINT_SOURCES.EXPIRED ? ("expired" as const) : ("earned" as const),
       points: p.points,
       source: p.source,
       description: p.description,
@@ -0,0 +1,359 @@
+/**
+ * Newsletter Subscriptions
+ *
+ * Double opt-in lifecycle for the newsletter:
+ * 1. PENDING: signed up; only the opt-in email is sent.
+ * 2. CONFIRMED: clicked the confirm link; receives the topics they chose.
+ * 3. UNSUBSCRIBED: opted out. Subscribing again restarts at PENDING.
+ *
+ * Links in emails carry HMAC-signed tokens bound to the subscriber and a
+ * purpose, so a confirm token cannot unsubscribe and vice versa. Confirm
+ * tokens expire; manage tokens (unsubscribe and preferences) do not, as old
+ * emails must keep working.
+ *
+ * @module lib/newsletter
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { getBaseUrl } from '@/lib/url'
+import {
+  sendNewsletterConfirmation,
+  sendNewsletterOptInEmail,
+  type NewsletterEmailLinks,
+} from '@/lib/email'
+
+export const NEWSLETTER_CONFIG = {
+  STATUS: {
+    PENDING: 'PENDING',
+    CONFIRMED: 'CONFIRMED',
+    UNSUBSCRIBED: 'UNSUBSCRIBED',
+  } as const,
+
+  TOPICS: ['DEALS', 'BLOG_DIGEST', 'IMPACT_REPORTS'] as const,
+
+  CONFIRM_TOKEN_EXPIRY_MS: 7 * 24 * 60 * 60 * 1000, // 7 days
+} as const
+
+export type NewsletterTopic = (typeof NEWSLETTER_CONFIG.TOPICS)[number]
+export type NewsletterStatus =
+  (typeof NEWSLETTER_CONFIG.STATUS)[keyof typeof NEWSLETTER_CONFIG.STATUS]
+
+type TokenPurpose = 'confirm' | 'manage'
+
+/**
+ * Failure result for token-based actions. `code` lets routes pick a message.
+ */
+export interface NewsletterFailure {
+  success: false
+  error: string
+  code: 'INVALID_TOKEN' | 'NOT_FOUND' | 'UNSUBSCRIBED'
+}
+
+export interface NewsletterPreferences {
+  email: string
+  status: NewsletterStatus
+  topics: NewsletterTopic[]
+}
+
+function getSigningKey(): string {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET is required for newsletter links')
+  }
+  return secret
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSigningKey()).update(`newsletter:${payload}`).digest('hex')
+}
+
+/**
+ * Creates a token of the form `subscriberId.expiresAt.signature`, where
+ * expiresAt is 0 for tokens that never expire.
+ */
+export function createNewsletterToken(
+  subscriberId: string,
+  purpose: TokenPurpose,
+  now: Date = new Date()
+): string {
+  const expiresAt =
+    purpose === 'confirm' ? now.getTime() + NEWSLETTER_CONFIG.CONFIRM_TOKEN_EXPIRY_MS : 0
+  const payload = `${subscriberId}.${expiresAt}`
+  return `${payload}.${sign(`${purpose}.${payload}`)}`
+}
+
+/**
+ * Returns the subscriber ID if the token is untampered, unexpired and was
+ * issued for this purpose.
+ */
+export function verifyNewsletterToken(
+  token: string,
+  purpose: TokenPurpose,
+  now: Date = new Date()
+): string | null {
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    return null
+  }
+
+  const [subscriberId, expiresAt, signature] = parts
+  const expected = sign(`${purpose}.${subscriberId}.${expiresAt}`)
+
+  if (
+    signature.length !== expected.length ||
+    !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    return null
+  }
+
+  const expiry = Number(expiresAt)
+  if (expiry !== 0 && now.getTime() > expiry) {
+    return null
+  }
+
+  return subscriberId
+}
+
+export function getNewsletterEmailLinks(subscriberId: string): NewsletterEmailLinks {
+  const token = encodeURIComponent(createNewsletterToken(subscriberId, 'manage'))
+  const baseUrl = getBaseUrl()
+
+  return {
+    oneClickUnsubscribeUrl: `${baseUrl}/api/newsletter/unsubscribe?token=${token}`,
+    unsubscribeUrl: `${baseUrl}/newsletter/preferences?token=${token}&unsubscribe=1`,
+    preferencesUrl: `${baseUrl}/newsletter/preferences?token=${token}`,
+  }
+}
+
+function normalizeTopics(topics: readonly string[]): NewsletterTopic[] {
+  return NEWSLETTER_CONFIG.TOPICS.filter((topic) => topics.includes(topic))
+}
+
+/**
+ * Starts (or restarts) a subscription and sends the opt-in email. Confirmed
+ * subscribers are left as they are.
+ */
+export async function subscribeToNewsletter(
+  email: string,
+  topics: readonly string[] = NEWSLETTER_CONFIG.TOPICS,
+  now: Date = new Date()
+): Promise<{ status: NewsletterStatus; subscriberId: string; alreadySubscribed: boolean; sent: boolean }> {
+  const normalizedEmail = email.toLowerCase()
+  const selectedTopics = normalizeTopics(topics)
+
+  const existing = await prisma.newsletter.findUnique({
+    where: { email: normalizedEmail },
+    select: { id: true, status: true },
+  })
+
+  if (existing?.status === NEWSLETTER_CONFIG.STATUS.CONFIRMED) {
+    return {
+      status: NEWSLETTER_CONFIG.STATUS.CONFIRMED,
+      subscriberId: existing.id,
+      alreadySubscribed: true,
+      sent: false,
+    }
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: normalizedEmail },
+    select: { id: true },
+  })
+
+  const subscriber = await prisma.newsletter.upsert({
+    where: { email: normalizedEmail },
+    create: {
+      email: normalizedEmail,
+      topics: selectedTopics,
+      userId: user?.id ?? null,
+      subscribedAt: now,
+    },
+    update: {
+      status: NEWSLETTER_CONFIG.STATUS.PENDING,
+      topics: selectedTopics,
+      userId: user?.id ?? null,
+      subscribedAt: now,
+      unsubscribedAt: null,
+    },
+    select: { id: true },
+  })
+
+  const confirmUrl = `${getBaseUrl()}/newsletter/confirm?token=${encodeURIComponent(
+    createNewsletterToken(subscriber.id, 'confirm', now)
+  )}`
+  const result = await sendNewsletterOptInEmail(normalizedEmail, confirmUrl)
+
+  return {
+    status: NEWSLETTER_CONFIG.STATUS.PENDING,
+    subscriberId: subscriber.id,
+    alreadySubscribed: false,
+    sent: result.success,
+  }
+}
+
+/**
+ * Confirms a pending subscription from the opt-in link and sends the
+ * welcome email.
+ */
+export async function confirmNewsletterSubscription(
+  token: string,
+  now: Date = new Date()
+): Promise<{ success: true; alreadyConfirmed: boolean } | NewsletterFailure> {
+  const subscriberId = verifyNewsletterToken(token, 'confirm', now)
+  if (!subscriberId) {
+    return newsletterFailure('This confirmation link is invalid or has expired.', 'INVALID_TOKEN')
+  }
+
+  const subscriber = await prisma.newsletter.findUnique({
+    where: { id: subscriberId },
+    select: { id: true, email: true, status: true },
+  })
+
+  if (!subscriber) {
+    return newsletterFailure('Subscription not found.', 'NOT_FOUND')
+  }
+
+  if (subscriber.status === NEWSLETTER_CONFIG.STATUS.CONFIRMED) {
+    return { success: true, alreadyConfirmed: true }
+  }
+
+  if (subscriber.status === NEWSLETTER_CONFIG.STATUS.UNSUBSCRIBED) {
+    return newsletterFailure(
+      'This address has unsubscribed. Sign up again to resubscribe.',
+      'UNSUBSCRIBED'
+    )
+  }
+
+  await prisma.newsletter.update({
+    where: { id: subscriber.id },
+    data: { status: NEWSLETTER_CONFIG.STATUS.CONFIRMED, confirmedAt: now },
+  })
+
+  logger.info('Newsletter subscription confirmed', { subscriberId: subscriber.id })
+
+  await sendNewsletterConfirmation(subscriber.email, getNewsletterEmailLinks(subscriber.id))
+
+  return { success: true, alreadyConfirmed: false }
+}
+
+/**
+ * Unsubscribes from every topic. Used by one-click unsubscribe, so it
+ * succeeds quietly when the subscriber has already left.
+ */
+export async function unsubscribeFromNewsletter(
+  token: string,
+  now: Date = new Date()
+): Promise<{ success: true } | NewsletterFailure> {
+  const subscriberId = verifyNewsletterToken(token, 'manage', now)
+  if (!subscriberId) {
+    return newsletterFailure('This unsubscribe link is invalid.', 'INVALID_TOKEN')
+  }
+
+  const result = await prisma.newsletter.updateMany({
+    where: { id: subscriberId, status: { not: NEWSLETTER_CONFIG.STATUS.UNSUBSCRIBED } },
+    data: { status: NEWSLETTER_CONFIG.STATUS.UNSUBSCRIBED, unsubscribedAt: now },
+  })
+
+  if (result.count > 0) {
+    logger.info('Newsletter unsubscribed', { subscriberId })
+  }
+
+  return { success: true }
+}
+
+export async function getNewsletterPreferences(
+  token: string
+): Promise<({ success: true } & NewsletterPreferences) | NewsletterFailure> {
+  const subscriberId = verifyNewsletterToken(token, 'manage')
+  if (!subscriberId) {
+    return newsletterFailure('This link is invalid.', 'INVALID_TOKEN')
+  }
+
+  const subscriber = await prisma.newsletter.findUnique({
+    where: { id: subscriberId },
+    select: { email: true, status: true, topics: true },
+  })
+
+  if (!subscriber) {
+    return newsletterFailure('Subscription not found.', 'NOT_FOUND')
+  }
+
+  return {
+    success: true,
+    email: subscriber.email,
+    status: subscriber.status as NewsletterStatus,
+    topics: normalizeTopics(subscriber.topics),
+  }
+}
+
+/**
+ * Saves topic preferences. Choosing no topics unsubscribes; choosing topics
+ * after unsubscribing resubscribes, since the manage link proves ownership
+ * of a previously confirmed address.
+ */
+export async function updateNewsletterPreferences(
+  token: string,
+  topics: readonly string[],
+  now: Date = new Date()
+): Promise<({ success: true } & NewsletterPreferences) | NewsletterFailure> {
+  const subscriberId = verifyNewsletterToken(token, 'manage', now)
+  if (!subscriberId) {
+    return newsletterFailure('This link is invalid.', 'INVALID_TOKEN')
+  }
+
+  const subscriber = await prisma.newsletter.findUnique({
+    where: { id: subscriberId },
+    select: { status: true, confirmedAt: true },
+  })
+
+  if (!subscriber) {
+    return newsletterFailure('Subscription not found.', 'NOT_FOUND')
+  }
+
+  const selectedTopics = normalizeTopics(topics)
+  const unsubscribing = selectedTopics.length === 0
+
+  let status = subscriber.status as NewsletterStatus
+  if (unsubscribing) {
+    status = NEWSLETTER_CONFIG.STATUS.UNSUBSCRIBED
+  } else if (status === NEWSLETTER_CONFIG.STATUS.UNSUBSCRIBED && subscriber.confirmedAt) {
+    status = NEWSLETTER_CONFIG.STATUS.CONFIRMED
+  }
+
+  const updated = await prisma.newsletter.update({
+    where: { id: subscriberId },
+    data: {
+      // Keep the previous topics on unsubscribe so resubscribing restores them
+      ...(unsubscribing ? {} : { topics: selectedTopics }),
+      status,
+      ...(status !== subscriber.status
+        ? { unsubscribedAt: status === NEWSLETTER_CONFIG.STATUS.UNSUBSCRIBED ? now : null }
+        : {}),
+    },
+    select: { email: true, status: true, topics: true },
+  })
+
+  return {
+    success: true,
+    email: updated.email,
+    status: updated.status as NewsletterStatus,
+    topics: unsubscribing ? [] : normalizeTopics(updated.topics),
+  }
+}
+
+/**
+ * Attaches an existing subscription to a newly registered user with the
+ * same address.
+ */
+export async function linkNewsletterSubscriber(userId: string, email: string): Promise<void> {
+  await prisma.newsletter.updateMany({
+    where: { email: email.toLowerCase(), userId: null },
+    data: { userId },
+  })
+}
+
+function newsletterFailure(error: string, code: NewsletterFailure['code']): NewsletterFailure {
+  return { success: false, error, code }
+}
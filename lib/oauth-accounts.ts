@@ -0,0 +1,300 @@
+/**
+ * OAuth Account Linking
+ *
+ * Maps OAuth identities (see lib/oauth-providers) to local users. Sessions
+ * are JWTs and there is no Auth.js adapter, so the sign-in callback in
+ * auth.ts resolves every OAuth sign-in through `resolveOAuthSignIn`:
+ *
+ * 1. A linked identity signs in as its user.
+ * 2. A new identity whose email matches no account creates a user.
+ * 3. A new identity whose email matches an existing account is refused.
+ *    Linking by email alone would let anyone who controls an address at a
+ *    provider take over the local account.
+ *
+ * To link, a signed-in user re-authenticates on /account/settings, which
+ * sets a short-lived signed link intent cookie, then completes the provider
+ * sign-in. The intent attaches the identity to that user.
+ *
+ * Accounts with two-factor authentication must sign in with their password
+ * so the second factor cannot be bypassed through a provider.
+ *
+ * @module lib/oauth-accounts
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { cookies } from 'next/headers'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+
+export const OAUTH_LINK_CONFIG = {
+  INTENT_COOKIE: 'oauth_link_intent',
+  INTENT_TTL_MS: 10 * 60 * 1000, // 10 minutes
+} as const
+
+/**
+ * Reasons an OAuth sign-in is refused. Passed to the sign-in page as
+ * `?error=` so it can explain what to do next.
+ */
+export type OAuthSignInError =
+  | 'OAuthAccountNotLinked'
+  | 'OAuthAccountInUse'
+  | 'OAuthEmailRequired'
+  | 'TwoFactorRequired'
+
+export interface OAuthIdentity {
+  provider: string
+  providerAccountId: string
+  email: string | null
+  // Whether the provider vouches for the email address
+  emailVerified: boolean
+  name: string | null
+  image: string | null
+}
+
+export interface LinkIntent {
+  userId: string
+  provider: string
+}
+
+export type OAuthSignInResult =
+  | { allowed: true; userId: string; created: boolean; linked: boolean }
+  | { allowed: false; error: OAuthSignInError }
+
+export interface UnlinkFailure {
+  success: false
+  error: string
+  code: 'NOT_FOUND' | 'LAST_SIGN_IN_METHOD'
+}
+
+function getSigningKey(): string {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET is required for account linking')
+  }
+  return secret
+}
+
+function signIntent(payload: string): string {
+  return createHmac('sha256', getSigningKey()).update(`oauth-link:${payload}`).digest('hex')
+}
+
+/**
+ * Encodes a link intent as `userId.provider.expiresAt.signature`.
+ */
+export function createLinkIntentValue(intent: LinkIntent, now: Date = new Date()): string {
+  const expiresAt = now.getTime() + OAUTH_LINK_CONFIG.INTENT_TTL_MS
+  const payload = `${intent.userId}.${intent.provider}.${expiresAt}`
+  return `${payload}.${signIntent(payload)}`
+}
+
+/**
+ * Returns the intent if the value is untampered and unexpired.
+ */
+export function parseLinkIntentValue(
+  value: string | undefined,
+  now: Date = new Date()
+): LinkIntent | null {
+  const parts = value?.split('.') ?? []
+  if (parts.length !== 4) {
+    return null
+  }
+
+  const [userId, provider, expiresAt, signature] = parts
+  const expected = signIntent(`${userId}.${provider}.${expiresAt}`)
+
+  if (
+    signature.length !== expected.length ||
+    !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    return null
+  }
+
+  if (now.getTime() > Number(expiresAt)) {
+    return null
+  }
+
+  return { userId, provider }
+}
+
+export async function setLinkIntentCookie(intent: LinkIntent): Promise<void> {
+  const cookieStore = await cookies()
+  cookieStore.set(OAUTH_LINK_CONFIG.INTENT_COOKIE, createLinkIntentValue(intent), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // Lax so the cookie comes back on the provider's redirect to the callback
+    sameSite: 'lax',
+    maxAge: OAUTH_LINK_CONFIG.INTENT_TTL_MS / 1000,
+    path: '/',
+  })
+}
+
+/**
+ * Reads and clears the link intent cookie.
+ */
+export async function consumeLinkIntentCookie(): Promise<LinkIntent | null> {
+  const cookieStore = await cookies()
+  const value = cookieStore.get(OAUTH_LINK_CONFIG.INTENT_COOKIE)?.value
+  if (!value) {
+    return null
+  }
+
+  cookieStore.delete(OAUTH_LINK_CONFIG.INTENT_COOKIE)
+  return parseLinkIntentValue(value)
+}
+
+/**
+ * Decides whether an OAuth sign-in may proceed and which local user it
+ * signs in as, creating the user or the link where appropriate.
+ */
+export async function resolveOAuthSignIn(
+  identity: OAuthIdentity,
+  linkIntent: LinkIntent | null,
+  now: Date = new Date()
+): Promise<OAuthSignInResult> {
+  const existing = await prisma.account.findUnique({
+    where: {
+      provider_providerAccountId: {
+        provider: identity.provider,
+        providerAccountId: identity.providerAccountId,
+      },
+    },
+    select: { userId: true, user: { select: { twoFactorEnabled: true } } },
+  })
+
+  if (linkIntent && linkIntent.provider === identity.provider) {
+    if (existing && existing.userId !== linkIntent.userId) {
+      return { allowed: false, error: 'OAuthAccountInUse' }
+    }
+
+    if (!existing) {
+      await prisma.account.create({
+        data: {
+          userId: linkIntent.userId,
+          provider: identity.provider,
+          providerAccountId: identity.providerAccountId,
+          email: identity.email,
+        },
+      })
+      logger.info('OAuth account linked', {
+        userId: linkIntent.userId,
+        provider: identity.provider,
+      })
+    }
+
+    return { allowed: true, userId: linkIntent.userId, created: false, linked: !existing }
+  }
+
+  if (existing) {
+    if (existing.user.twoFactorEnabled) {
+      return { allowed: false, error: 'TwoFactorRequired' }
+    }
+    return { allowed: true, userId: existing.userId, created: false, linked: false }
+  }
+
+  if (!identity.email) {
+    return { allowed: false, error: 'OAuthEmailRequired' }
+  }
+
+  const email = identity.email.toLowerCase()
+  const emailOwner = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  })
+
+  if (emailOwner) {
+    return { allowed: false, error: 'OAuthAccountNotLinked' }
+  }
+
+  try {
+    const user = await prisma.user.create({
+      data: {
+        email,
+        name: identity.name,
+        image: identity.image,
+        emailVerified: identity.emailVerified ? now : null,
+        accounts: {
+          create: {
+            provider: identity.provider,
+            providerAccountId: identity.providerAccountId,
+            email,
+          },
+        },
+      },
+      select: { id: true },
+    })
+
+    logger.info('User created from OAuth sign-in', {
+      userId: user.id,
+      provider: identity.provider,
+    })
+
+    return { allowed: true, userId: user.id, created: true, linked: true }
+  } catch (error) {
+    // A concurrent sign-in created the user or link first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { allowed: false, error: 'OAuthAccountNotLinked' }
+    }
+    throw error
+  }
+}
+
+/**
+ * Looks up the local user an OAuth identity is linked to.
+ */
+export async function findLinkedUser(provider: string, providerAccountId: string) {
+  const account = await prisma.account.findUnique({
+    where: { provider_providerAccountId: { provider, providerAccountId } },
+    select: {
+      user: { select: { id: true, role: true, tokenVersion: true } },
+    },
+  })
+
+  return account?.user ?? null
+}
+
+export async function listLinkedAccounts(userId: string) {
+  return prisma.account.findMany({
+    where: { userId },
+    select: { id: true, provider: true, email: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+/**
+ * Removes a linked identity. Refuses to remove the last way to sign in,
+ * i.e. the only linked identity of an account without a password.
+ */
+export async function unlinkAccount(
+  userId: string,
+  accountId: string
+): Promise<{ success: true } | UnlinkFailure> {
+  const account = await prisma.account.findFirst({
+    where: { id: accountId, userId },
+    select: { id: true, provider: true },
+  })
+
+  if (!account) {
+    return { success: false, error: 'Linked account not found', code: 'NOT_FOUND' }
+  }
+
+  const [user, accountCount] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { password: true } }),
+    prisma.account.count({ where: { userId } }),
+  ])
+
+  if (!user?.password && accountCount <= 1) {
+    return {
+      success: false,
+      error:
+        'This is your only way to sign in. Set a password with "Forgot password" before disconnecting it.',
+      code: 'LAST_SIGN_IN_METHOD',
+    }
+  }
+
+  await prisma.account.delete({ where: { id: account.id } })
+
+  logger.info('OAuth account unlinked', { userId, provider: account.provider })
+
+  return { success: true }
+}
@@ -0,0 +1,65 @@
+/**
+ * OAuth Providers
+ *
+ * Builds the OAuth sign-in providers from environment variables. A provider
+ * is only registered when its client ID and secret are set, so deployments
+ * without OAuth keep the password-only sign-in page.
+ *
+ * - Google: AUTH_GOOGLE_ID / AUTH_GOOGLE_SECRET
+ * - GitHub: AUTH_GITHUB_ID / AUTH_GITHUB_SECRET
+ * - Generic OIDC: AUTH_OIDC_ISSUER / AUTH_OIDC_ID / AUTH_OIDC_SECRET, plus an
+ *   optional AUTH_OIDC_NAME for the button label. Point it at a local mock
+ *   issuer to exercise the OAuth flow in development and tests.
+ *
+ * Imported by auth.config.ts, so this module must stay Edge-safe.
+ *
+ * @module lib/oauth-providers
+ */
+
+import Google from 'next-auth/providers/google'
+import GitHub from 'next-auth/providers/github'
+import type { Provider } from 'next-auth/providers'
+
+export function getOAuthProviders(): Provider[] {
+  const providers: Provider[] = []
+
+  if (process.env.AUTH_GOOGLE_ID && process.env.AUTH_GOOGLE_SECRET) {
+    providers.push(
+      Google({
+        clientId: process.env.AUTH_GOOGLE_ID,
+        clientSecret: process.env.AUTH_GOOGLE_SECRET,
+      })
+    )
+  }
+
+  if (process.env.AUTH_GITHUB_ID && process.env.AUTH_GITHUB_SECRET) {
+    providers.push(
+      GitHub({
+        clientId: process.env.AUTH_GITHUB_ID,
+        clientSecret: process.env.AUTH_GITHUB_SECRET,
+      })
+    )
+  }
+
+  if (process.env.AUTH_OIDC_ISSUER && process.env.AUTH_OIDC_ID && process.env.AUTH_OIDC_SECRET) {
+    providers.push({
+      id: 'oidc',
+      name: process.env.AUTH_OIDC_NAME || 'Single Sign-On',
+      type: 'oidc',
+      issuer: process.env.AUTH_OIDC_ISSUER,
+      clientId: process.env.AUTH_OIDC_ID,
+      clientSecret: process.env.AUTH_OIDC_SECRET,
+    })
+  }
+
+  return providers
+}
+
+/**
+ * IDs of the OAuth providers configured for this deployment.
+ */
+export function getOAuthProviderIds(): string[] {
+  return getOAuthProviders().map((provider) =>
+    typeof provider === 'function' ? provider().id : provider.id
+  )
+}
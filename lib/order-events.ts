@@ -0,0 +1,175 @@
+/**
+ * Order Event History
+ *
+ * Records the admin-facing history of an order: shipping status changes,
+ * shipments, tracking edits, refunds and internal notes. Each event
+ * snapshots the acting admin so the audit trail survives account changes.
+ *
+ * @module lib/order-events
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+type OrderEventClient = Prisma.TransactionClient | typeof prisma
+
+export const ORDER_EVENT_TYPES = {
+  STATUS_CHANGED: 'status_changed',
+  SHIPPED: 'shipped',
+  TRACKING_UPDATED: 'tracking_updated',
+  REFUNDED: 'refunded',
+  NOTE: 'note',
+} as const
+
+export type OrderEventType = (typeof ORDER_EVENT_TYPES)[keyof typeof ORDER_EVENT_TYPES]
+
+/**
+ * Admin (or system) responsible for an order event.
+ */
+export interface OrderEventActor {
+  userId: string | null
+  email?: string | null
+  name?: string | null
+}
+
+export interface OrderFieldChange {
+  field: string
+  from: string | null
+  to: string | null
+}
+
+export interface RecordOrderEventInput {
+  orderId: string
+  type: OrderEventType
+  message: string
+  actor?: OrderEventActor | null
+  metadata?: Record<string, unknown> | null
+}
+
+/**
+ * Display labels for the order fields admins can edit.
+ */
+export const ORDER_FIELD_LABELS: Record<string, string> = {
+  shippingStatus: 'Shipping status',
+  trackingNumber: 'Tracking number',
+  shippingCarrier: 'Carrier',
+  estimatedDelivery: 'Estimated delivery',
+}
+
+function normalizeFieldValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') {
+    return null
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  return String(value)
+}
+
+/**
+ * Compares the fields present in `after` against `before` and returns the
+ * ones that actually changed. Fields missing from `after` are ignored so a
+ * partial update only reports what it touched.
+ */
+export function diffOrderFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): OrderFieldChange[] {
+  const changes: OrderFieldChange[] = []
+
+  for (const [field, value] of Object.entries(after)) {
+    if (value === undefined) {
+      continue
+    }
+
+    const from = normalizeFieldValue(before[field])
+    const to = normalizeFieldValue(value)
+    if (from !== to) {
+      changes.push({ field, from, to })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Picks the most specific event type for a set of order field changes.
+ */
+export function classifyOrderChanges(changes: OrderFieldChange[]): OrderEventType {
+  const statusChange = changes.find((change) => change.field === 'shippingStatus')
+
+  if (statusChange?.to === 'shipped') {
+    return ORDER_EVENT_TYPES.SHIPPED
+  }
+  if (statusChange) {
+    return ORDER_EVENT_TYPES.STATUS_CHANGED
+  }
+  return ORDER_EVENT_TYPES.TRACKING_UPDATED
+}
+
+/**
+ * Builds a one-line summary such as
+ * "Shipping status: processing → shipped; Tracking number: — → 1Z999".
+ */
+export function describeOrderChanges(changes: OrderFieldChange[]): string {
+  return changes
+    .map((change) => {
+      const label = ORDER_FIELD_LABELS[change.field] || change.field
+      return `${label}: ${change.from ?? '—'} → ${change.to ?? '—'}`
+    })
+    .join('; ')
+}
+
+/**
+ * Parses the JSON metadata stored on an event, tolerating legacy or
+ * malformed values.
+ */
+export function parseOrderEventMetadata(metadata: string | null): Record<string, unknown> | null {
+  if (!metadata) {
+    return null
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(metadata)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Appends an event to an order's history.
+ */
+export async function recordOrderEvent(
+  input: RecordOrderEventInput,
+  client: OrderEventClient = prisma
+) {
+  return client.orderEvent.create({
+    data: {
+      orderId: input.orderId,
+      type: input.type,
+      message: input.message,
+      metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+      actorUserId: input.actor?.userId ?? null,
+      actorEmail: input.actor?.email ?? null,
+      actorName: input.actor?.name ?? null,
+    },
+  })
+}
+
+/**
+ * Returns an order's events, newest first, with metadata decoded.
+ */
+export async function getOrderEvents(orderId: string) {
+  const events = await prisma.orderEvent.findMany({
+    where: { orderId },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  return events.map((event) => ({
+    ...event,
+    metadata: parseOrderEventMetadata(event.metadata),
+  }))
+}
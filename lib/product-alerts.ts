@@ -0,0 +1,452 @@
+/**
+ * Product Alerts
+ *
+ * Back-in-stock and price-drop subscriptions for products and variants.
+ * Signed-in users subscribe with their account email; guests give an email.
+ *
+ * Alerts move through three stages:
+ * 1. Open: waiting for the condition (stock restored / price below the price
+ *    at subscription). At most one open alert exists per email, target and
+ *    type, so repeat sign-ups return the existing alert.
+ * 2. Triggered: the condition was met. Inventory restores and product price
+ *    edits mark alerts in the same transaction as the change.
+ * 3. Notified: the scheduled delivery job emailed the subscriber. Notified
+ *    alerts are never emailed again.
+ *
+ * Every email carries a one-click unsubscribe link built from the alert's
+ * unsubscribe token.
+ *
+ * @module lib/product-alerts
+ */
+
+import { randomBytes } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { getBaseUrl } from '@/lib/url'
+import { isEmailConfigured, sendBackInStockEmail, sendPriceDropEmail } from '@/lib/email'
+
+type AlertClient = Prisma.TransactionClient | typeof prisma
+
+export const PRODUCT_ALERT_CONFIG = {
+  TYPES: {
+    BACK_IN_STOCK: 'BACK_IN_STOCK',
+    PRICE_DROP: 'PRICE_DROP',
+  } as const,
+
+  // Alerts emailed per delivery run
+  DELIVERY_BATCH_SIZE: 200,
+
+  // Failed sends before an alert is given up on (e.g. a bad address)
+  MAX_DELIVERY_ATTEMPTS: 5,
+} as const
+
+export type ProductAlertType =
+  (typeof PRODUCT_ALERT_CONFIG.TYPES)[keyof typeof PRODUCT_ALERT_CONFIG.TYPES]
+
+/**
+ * Failure result for alert operations. `code` lets routes pick a status.
+ */
+export interface ProductAlertFailure {
+  success: false
+  error: string
+  code: 'NOT_FOUND' | 'IN_STOCK'
+}
+
+interface PricedItem {
+  price: Prisma.Decimal | number | null
+  salePrice: Prisma.Decimal | number | null
+}
+
+interface StockedVariant extends PricedItem {
+  id: string
+  inventory: number
+}
+
+interface StockedProduct extends PricedItem {
+  inventory: number
+  hasVariants: boolean
+  variants: StockedVariant[]
+}
+
+const OPEN_ALERT = { notifiedAt: null, unsubscribedAt: null }
+
+/**
+ * Emails are matched case-insensitively, so store them lowercased.
+ */
+export function normalizeAlertEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/**
+ * Price a customer pays for the product or variant, using the same
+ * precedence as checkout: variant sale price > variant price > product sale
+ * price > product price.
+ */
+export function getEffectivePrice(product: PricedItem, variant?: PricedItem | null): number {
+  return Number(variant?.salePrice ?? variant?.price ?? product.salePrice ?? product.price ?? 0)
+}
+
+/**
+ * Whether the alert target can be bought. A product-level alert on a
+ * product with variants is satisfied by any variant in stock.
+ */
+export function isAlertTargetInStock(product: StockedProduct, variantId: string | null): boolean {
+  if (variantId) {
+    const variant = product.variants.find((v) => v.id === variantId)
+    return !!variant && variant.inventory > 0
+  }
+
+  if (product.hasVariants && product.variants.length > 0) {
+    return product.variants.some((variant) => variant.inventory > 0)
+  }
+
+  return product.inventory > 0
+}
+
+export function getAlertUnsubscribeUrl(token: string): string {
+  return `${getBaseUrl()}/alerts/unsubscribe?token=${encodeURIComponent(token)}`
+}
+
+export interface CreateProductAlertInput {
+  type: ProductAlertType
+  productId: string
+  variantId?: string | null
+  email: string
+  userId?: string | null
+}
+
+/**
+ * Subscribes an email to an alert. Back-in-stock alerts are only accepted
+ * while the target is out of stock. Returns the existing open alert when the
+ * email is already subscribed (`created: false`).
+ */
+export async function createProductAlert(input: CreateProductAlertInput) {
+  const email = normalizeAlertEmail(input.email)
+  const variantId = input.variantId || null
+
+  const product = await prisma.product.findUnique({
+    where: { id: input.productId },
+    select: {
+      id: true,
+      price: true,
+      salePrice: true,
+      inventory: true,
+      hasVariants: true,
+      variants: { select: { id: true, price: true, salePrice: true, inventory: true } },
+    },
+  })
+
+  if (!product) {
+    return alertFailure('Product not found', 'NOT_FOUND')
+  }
+
+  const variant = variantId ? product.variants.find((v) => v.id === variantId) : null
+  if (variantId && !variant) {
+    return alertFailure('Variant not found', 'NOT_FOUND')
+  }
+
+  if (
+    input.type === PRODUCT_ALERT_CONFIG.TYPES.BACK_IN_STOCK &&
+    isAlertTargetInStock(product, variantId)
+  ) {
+    return alertFailure('This item is in stock', 'IN_STOCK')
+  }
+
+  const where = { email, productId: product.id, variantId, type: input.type, ...OPEN_ALERT }
+  const existing = await prisma.productAlert.findFirst({ where })
+  if (existing) {
+    return { success: true as const, alert: existing, created: false }
+  }
+
+  try {
+    const alert = await prisma.productAlert.create({
+      data: {
+        type: input.type,
+        productId: product.id,
+        variantId,
+        userId: input.userId ?? null,
+        email,
+        priceAtSubscribe:
+          input.type === PRODUCT_ALERT_CONFIG.TYPES.PRICE_DROP
+            ? getEffectivePrice(product, variant)
+            : null,
+        unsubscribeToken: randomBytes(24).toString('hex'),
+      },
+    })
+
+    logger.info('Product alert created', {
+      alertId: alert.id,
+      type: alert.type,
+      productId: alert.productId,
+      variantId,
+      guest: !input.userId,
+    })
+
+    return { success: true as const, alert, created: true }
+  } catch (error) {
+    // A concurrent sign-up won the open-alert unique index
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const duplicate = await prisma.productAlert.findFirst({ where })
+      if (duplicate) {
+        return { success: true as const, alert: duplicate, created: false }
+      }
+    }
+    throw error
+  }
+}
+
+function alertFailure(error: string, code: ProductAlertFailure['code']): ProductAlertFailure {
+  return { success: false, error, code }
+}
+
+/**
+ * Marks open back-in-stock alerts as triggered after stock is restored.
+ * A variant restock also triggers product-level alerts for its product.
+ * Call with the transaction client that restored the stock.
+ */
+export async function triggerBackInStockAlerts(
+  client: AlertClient,
+  target: { productId: string; variantId?: string | null },
+  now: Date = new Date()
+): Promise<number> {
+  const result = await client.productAlert.updateMany({
+    where: {
+      type: PRODUCT_ALERT_CONFIG.TYPES.BACK_IN_STOCK,
+      productId: target.productId,
+      triggeredAt: null,
+      ...OPEN_ALERT,
+      ...(target.variantId
+        ? { OR: [{ variantId: target.variantId }, { variantId: null }] }
+        : { variantId: null }),
+    },
+    data: { triggeredAt: now },
+  })
+
+  if (result.count > 0) {
+    logger.info('Back-in-stock alerts triggered', { ...target, count: result.count })
+  }
+
+  return result.count
+}
+
+/**
+ * Marks open price-drop alerts on a product as triggered when the current
+ * effective price is below the price at subscription. Call after any change
+ * to product or variant prices, with the transaction client that made it.
+ */
+export async function triggerPriceDropAlerts(
+  client: AlertClient,
+  productId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const alerts = await client.productAlert.findMany({
+    where: {
+      type: PRODUCT_ALERT_CONFIG.TYPES.PRICE_DROP,
+      productId,
+      triggeredAt: null,
+      ...OPEN_ALERT,
+    },
+    select: { id: true, variantId: true, priceAtSubscribe: true },
+  })
+
+  if (alerts.length === 0) {
+    return 0
+  }
+
+  const product = await client.product.findUnique({
+    where: { id: productId },
+    select: {
+      price: true,
+      salePrice: true,
+      variants: { select: { id: true, price: true, salePrice: true } },
+    },
+  })
+
+  if (!product) {
+    return 0
+  }
+
+  let triggered = 0
+  for (const alert of alerts) {
+    const variant = alert.variantId ? product.variants.find((v) => v.id === alert.variantId) : null
+    const currentPrice = getEffectivePrice(product, variant)
+
+    if (alert.priceAtSubscribe === null || currentPrice >= Number(alert.priceAtSubscribe)) {
+      continue
+    }
+
+    await client.productAlert.update({
+      where: { id: alert.id },
+      data: { triggeredAt: now, triggeredPrice: currentPrice },
+    })
+    triggered++
+  }
+
+  if (triggered > 0) {
+    logger.info('Price-drop alerts triggered', { productId, count: triggered })
+  }
+
+  return triggered
+}
+
+/**
+ * Emails triggered alerts that have not been sent yet. Conditions are
+ * re-checked first: an alert whose item sold out again (or whose price went
+ * back up) returns to open and waits for the next trigger. Failed sends stay
+ * triggered and are retried on later runs, after alerts with fewer failures,
+ * until MAX_DELIVERY_ATTEMPTS is reached. Nothing is sent (or counted as
+ * failed) while email is not configured.
+ */
+export async function deliverProductAlerts(
+  now: Date = new Date(),
+  limit: number = PRODUCT_ALERT_CONFIG.DELIVERY_BATCH_SIZE
+) {
+  if (!isEmailConfigured()) {
+    logger.info('Email service not configured - skipping product alert delivery')
+    return { alertsProcessed: 0, sent: 0, rearmed: 0, failures: 0 }
+  }
+
+  const alerts = await prisma.productAlert.findMany({
+    where: {
+      triggeredAt: { not: null },
+      deliveryAttempts: { lt: PRODUCT_ALERT_CONFIG.MAX_DELIVERY_ATTEMPTS },
+      ...OPEN_ALERT,
+    },
+    include: {
+      product: {
+        select: {
+          id: true,
+          title: true,
+          image: true,
+          price: true,
+          salePrice: true,
+          inventory: true,
+          hasVariants: true,
+          variants: {
+            select: {
+              id: true,
+              price: true,
+              salePrice: true,
+              inventory: true,
+              size: true,
+              color: true,
+              material: true,
+            },
+          },
+        },
+      },
+    },
+    // Alerts that keep failing go behind fresh ones so they cannot fill the batch
+    orderBy: [{ deliveryAttempts: 'asc' }, { triggeredAt: 'asc' }],
+    take: limit,
+  })
+
+  let sent = 0
+  let rearmed = 0
+  let failures = 0
+
+  for (const alert of alerts) {
+    const { product } = alert
+    const variant = alert.variantId ? product.variants.find((v) => v.id === alert.variantId) : null
+    const currentPrice = getEffectivePrice(product, variant)
+    const isBackInStock = alert.type === PRODUCT_ALERT_CONFIG.TYPES.BACK_IN_STOCK
+
+    const stillValid = isBackInStock
+      ? isAlertTargetInStock(product, alert.variantId)
+      : alert.priceAtSubscribe !== null && currentPrice < Number(alert.priceAtSubscribe)
+
+    if (!stillValid) {
+      await prisma.productAlert.update({
+        where: { id: alert.id },
+        data: {
+          triggeredAt: null,
+          triggeredPrice: null,
+          deliveryAttempts: 0,
+          lastDeliveryError: null,
+        },
+      })
+      rearmed++
+      continue
+    }
+
+    const details = {
+      productTitle: product.title,
+      variantLabel: variant
+        ? [variant.size, variant.color, variant.material].filter(Boolean).join(' / ') || null
+        : null,
+      productImage: product.image,
+      productUrl: `${getBaseUrl()}/products/${product.id}`,
+      unsubscribeUrl: getAlertUnsubscribeUrl(alert.unsubscribeToken),
+    }
+
+    const result = isBackInStock
+      ? await sendBackInStockEmail(alert.email, details)
+      : await sendPriceDropEmail(alert.email, {
+          ...details,
+          previousPrice: Number(alert.priceAtSubscribe),
+          currentPrice,
+        })
+
+    if (!result.success) {
+      const error = result.error instanceof Error ? result.error.message : String(result.error)
+      const attempts = alert.deliveryAttempts + 1
+
+      await prisma.productAlert.update({
+        where: { id: alert.id },
+        data: { deliveryAttempts: attempts, lastDeliveryError: error },
+      })
+
+      if (attempts >= PRODUCT_ALERT_CONFIG.MAX_DELIVERY_ATTEMPTS) {
+        logger.warn('Giving up on product alert after repeated send failures', {
+          alertId: alert.id,
+          attempts,
+          error,
+        })
+      }
+
+      failures++
+      continue
+    }
+
+    await prisma.productAlert.update({
+      where: { id: alert.id },
+      data: { notifiedAt: now },
+    })
+    sent++
+  }
+
+  logger.info('Product alert delivery completed', {
+    alertsProcessed: alerts.length,
+    sent,
+    rearmed,
+    failures,
+  })
+
+  return { alertsProcessed: alerts.length, sent, rearmed, failures }
+}
+
+/**
+ * Cancels the alert behind an unsubscribe link. Returns false when the
+ * token is unknown; repeat clicks on a valid link succeed.
+ */
+export async function unsubscribeProductAlert(token: string): Promise<boolean> {
+  const alert = await prisma.productAlert.findUnique({
+    where: { unsubscribeToken: token },
+    select: { id: true, unsubscribedAt: true },
+  })
+
+  if (!alert) {
+    return false
+  }
+
+  if (!alert.unsubscribedAt) {
+    await prisma.productAlert.update({
+      where: { id: alert.id },
+      data: { unsubscribedAt: new Date() },
+    })
+    logger.info('Product alert unsubscribed', { alertId: alert.id })
+  }
+
+  return true
+}
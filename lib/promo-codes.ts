@@ -0,0 +1,542 @@
+/**
+ * Promo Code Utilities
+ *
+ * Reusable marketing discount codes (e.g., EARTHDAY20) applied at checkout.
+ *
+ * Code types:
+ * - PERCENT: percentage off the eligible subtotal
+ * - FIXED: fixed dollar amount off the eligible subtotal
+ * - FREE_SHIPPING: waives standard shipping
+ *
+ * Redemptions follow the same hold/finalize/reverse lifecycle as loyalty points
+ * and gift cards: a "pending" redemption is held when the Stripe session is
+ * created, marked "applied" by the webhook on payment, deleted if the session
+ * expires, and marked "refunded" when the order is fully refunded.
+ *
+ * @module lib/promo-codes
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+
+export const PROMO_CODE_CONFIG = {
+  // Uppercase letters, digits, dashes and underscores
+  CODE_PATTERN: /^[A-Z0-9_-]{3,32}$/,
+
+  TYPES: {
+    PERCENT: 'PERCENT',
+    FIXED: 'FIXED',
+    FREE_SHIPPING: 'FREE_SHIPPING',
+  } as const,
+
+  REDEMPTION_STATUS: {
+    PENDING: 'pending',
+    APPLIED: 'applied',
+    REFUNDED: 'refunded',
+  } as const,
+}
+
+export type PromoCodeType = (typeof PROMO_CODE_CONFIG.TYPES)[keyof typeof PROMO_CODE_CONFIG.TYPES]
+
+// Redemptions that count against usage caps
+const ACTIVE_REDEMPTION_STATUSES = [
+  PROMO_CODE_CONFIG.REDEMPTION_STATUS.PENDING,
+  PROMO_CODE_CONFIG.REDEMPTION_STATUS.APPLIED,
+]
+
+/**
+ * Cart line used to evaluate promo code scoping.
+ */
+export interface PromoCartLine {
+  productId: string
+  category: string
+  brandId: string | null
+  price: number
+  quantity: number
+}
+
+/**
+ * Promo code rules in plain (non-Decimal) form.
+ */
+export interface PromoCodeRules {
+  type: string
+  value: number
+  minSubtotal: number | null
+  isActive: boolean
+  startsAt: Date | null
+  endsAt: Date | null
+  categories: string[]
+  brandIds: string[]
+  productIds: string[]
+}
+
+export interface PromoDiscountCalculation {
+  valid: boolean
+  reason?: string
+  subtotal: number
+  eligibleSubtotal: number
+  discountAmount: number
+  freeShipping: boolean
+}
+
+export type PromoCodeEvaluation =
+  | {
+      valid: true
+      promoCodeId: string
+      code: string
+      type: PromoCodeType
+      description: string | null
+      discountAmount: number
+      freeShipping: boolean
+    }
+  | { valid: false; reason: string }
+
+type PromoCodeRecord = Prisma.PromoCodeGetPayload<object>
+
+function roundToCents(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100
+}
+
+/**
+ * Normalize a promo code for lookup (trimmed, uppercase).
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+/**
+ * Validate promo code format.
+ */
+export function isValidPromoCodeFormat(code: string): boolean {
+  return PROMO_CODE_CONFIG.CODE_PATTERN.test(normalizePromoCode(code))
+}
+
+/**
+ * Parse a JSON array scope column. Invalid or empty values mean "no restriction".
+ */
+export function parseScopeList(value: string | null | undefined): string[] {
+  if (!value) {
+    return []
+  }
+
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.filter((entry): entry is string => typeof entry === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Serialize a scope list for storage (null when empty).
+ */
+export function serializeScopeList(values: string[] | null | undefined): string | null {
+  if (!values || values.length === 0) {
+    return null
+  }
+  return JSON.stringify(values)
+}
+
+/**
+ * Convert a database record into plain promo code rules.
+ */
+export function toPromoCodeRules(promoCode: PromoCodeRecord): PromoCodeRules {
+  return {
+    type: promoCode.type,
+    value: Number(promoCode.value),
+    minSubtotal: promoCode.minSubtotal !== null ? Number(promoCode.minSubtotal) : null,
+    isActive: promoCode.isActive,
+    startsAt: promoCode.startsAt,
+    endsAt: promoCode.endsAt,
+    categories: parseScopeList(promoCode.categories),
+    brandIds: parseScopeList(promoCode.brandIds),
+    productIds: parseScopeList(promoCode.productIds),
+  }
+}
+
+/**
+ * Check whether a cart line falls within a promo code's scope.
+ *
+ * Scopes are additive: a line is eligible when it matches any configured
+ * category, brand or product. A code with no scopes applies to every line.
+ */
+export function isLineEligibleForPromo(rules: PromoCodeRules, line: PromoCartLine): boolean {
+  const hasScope =
+    rules.categories.length > 0 || rules.brandIds.length > 0 || rules.productIds.length > 0
+
+  if (!hasScope) {
+    return true
+  }
+
+  return (
+    rules.productIds.includes(line.productId) ||
+    rules.categories.includes(line.category) ||
+    (line.brandId !== null && rules.brandIds.includes(line.brandId))
+  )
+}
+
+/**
+ * Check whether a promo code is active and inside its start/end window.
+ */
+export function checkPromoCodeWindow(
+  rules: Pick<PromoCodeRules, 'isActive' | 'startsAt' | 'endsAt'>,
+  now: Date = new Date()
+): { valid: boolean; reason?: string } {
+  if (!rules.isActive) {
+    return { valid: false, reason: 'This promo code is no longer active' }
+  }
+
+  if (rules.startsAt && now < rules.startsAt) {
+    return { valid: false, reason: 'This promo code is not active yet' }
+  }
+
+  if (rules.endsAt && now > rules.endsAt) {
+    return { valid: false, reason: 'This promo code has expired' }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Calculate the discount a promo code yields for a set of cart lines.
+ *
+ * The minimum subtotal is checked against the full cart subtotal; the discount
+ * itself is only applied to eligible (in-scope) lines and never exceeds them.
+ */
+export function calculatePromoDiscount(
+  rules: PromoCodeRules,
+  lines: PromoCartLine[],
+  now: Date = new Date()
+): PromoDiscountCalculation {
+  const subtotal = roundToCents(lines.reduce((sum, line) => sum + line.price * line.quantity, 0))
+  const eligibleSubtotal = roundToCents(
+    lines
+      .filter((line) => isLineEligibleForPromo(rules, line))
+      .reduce((sum, line) => sum + line.price * line.quantity, 0)
+  )
+
+  const invalid = (reason: string): PromoDiscountCalculation => ({
+    valid: false,
+    reason,
+    subtotal,
+    eligibleSubtotal,
+    discountAmount: 0,
+    freeShipping: false,
+  })
+
+  const windowCheck = checkPromoCodeWindow(rules, now)
+  if (!windowCheck.valid) {
+    return invalid(windowCheck.reason || 'This promo code is not valid')
+  }
+
+  if (rules.minSubtotal !== null && subtotal < rules.minSubtotal) {
+    return invalid(`This promo code requires a minimum order of $${rules.minSubtotal.toFixed(2)}`)
+  }
+
+  if (eligibleSubtotal <= 0) {
+    return invalid('This promo code does not apply to any items in your cart')
+  }
+
+  switch (rules.type) {
+    case PROMO_CODE_CONFIG.TYPES.PERCENT: {
+      const percent = Math.min(Math.max(rules.value, 0), 100)
+      return {
+        valid: true,
+        subtotal,
+        eligibleSubtotal,
+        discountAmount: roundToCents(eligibleSubtotal * (percent / 100)),
+        freeShipping: false,
+      }
+    }
+    case PROMO_CODE_CONFIG.TYPES.FIXED:
+      return {
+        valid: true,
+        subtotal,
+        eligibleSubtotal,
+        discountAmount: roundToCents(Math.min(Math.max(rules.value, 0), eligibleSubtotal)),
+        freeShipping: false,
+      }
+    case PROMO_CODE_CONFIG.TYPES.FREE_SHIPPING:
+      return {
+        valid: true,
+        subtotal,
+        eligibleSubtotal,
+        discountAmount: 0,
+        freeShipping: true,
+      }
+    default:
+      return invalid('This promo code is not valid')
+  }
+}
+
+/**
+ * Count redemptions that consume a promo code's global and per-customer caps.
+ */
+async function countActiveRedemptions(
+  client: Prisma.TransactionClient | typeof prisma,
+  promoCodeId: string,
+  customer: { userId: string; customerEmail?: string | null }
+): Promise<{ total: number; customer: number }> {
+  const customerFilters: Prisma.PromoCodeRedemptionWhereInput[] = [{ userId: customer.userId }]
+  if (customer.customerEmail) {
+    customerFilters.push({ customerEmail: customer.customerEmail.toLowerCase() })
+  }
+
+  const [total, customerCount] = await Promise.all([
+    client.promoCodeRedemption.count({
+      where: { promoCodeId, status: { in: ACTIVE_REDEMPTION_STATUSES } },
+    }),
+    client.promoCodeRedemption.count({
+      where: {
+        promoCodeId,
+        status: { in: ACTIVE_REDEMPTION_STATUSES },
+        OR: customerFilters,
+      },
+    }),
+  ])
+
+  return { total, customer: customerCount }
+}
+
+async function evaluatePromoCodeWithClient(
+  client: Prisma.TransactionClient | typeof prisma,
+  code: string,
+  params: { userId: string; customerEmail?: string | null; lines: PromoCartLine[] }
+): Promise<PromoCodeEvaluation> {
+  const normalizedCode = normalizePromoCode(code)
+
+  if (!isValidPromoCodeFormat(normalizedCode)) {
+    return { valid: false, reason: 'Invalid promo code' }
+  }
+
+  const promoCode = await client.promoCode.findUnique({
+    where: { code: normalizedCode },
+  })
+
+  if (!promoCode) {
+    return { valid: false, reason: 'Invalid promo code' }
+  }
+
+  const calculation = calculatePromoDiscount(toPromoCodeRules(promoCode), params.lines)
+  if (!calculation.valid) {
+    return { valid: false, reason: calculation.reason || 'This promo code is not valid' }
+  }
+
+  if (promoCode.usageLimit !== null || promoCode.usageLimitPerCustomer !== null) {
+    const usage = await countActiveRedemptions(client, promoCode.id, params)
+
+    if (promoCode.usageLimit !== null && usage.total >= promoCode.usageLimit) {
+      return { valid: false, reason: 'This promo code has reached its usage limit' }
+    }
+
+    if (
+      promoCode.usageLimitPerCustomer !== null &&
+      usage.customer >= promoCode.usageLimitPerCustomer
+    ) {
+      return { valid: false, reason: 'You have already used this promo code' }
+    }
+  }
+
+  return {
+    valid: true,
+    promoCodeId: promoCode.id,
+    code: promoCode.code,
+    type: promoCode.type as PromoCodeType,
+    description: promoCode.description,
+    discountAmount: calculation.discountAmount,
+    freeShipping: calculation.freeShipping,
+  }
+}
+
+/**
+ * Evaluate a promo code against a cart without reserving it.
+ * Used by the checkout validate endpoint to preview the discount.
+ */
+export async function evaluatePromoCode(
+  code: string,
+  params: { userId: string; customerEmail?: string | null; lines: PromoCartLine[] }
+): Promise<PromoCodeEvaluation> {
+  return evaluatePromoCodeWithClient(prisma, code, params)
+}
+
+/**
+ * Hold a promo code for checkout (creates a pending redemption).
+ * Called during checkout before Stripe session creation.
+ *
+ * Runs in a serializable transaction so concurrent checkouts cannot exceed
+ * the global or per-customer usage caps.
+ */
+export async function holdPromoCodeForCheckout(params: {
+  code: string
+  userId: string
+  customerEmail?: string | null
+  lines: PromoCartLine[]
+}): Promise<{
+  promoCodeId: string
+  redemptionId: string
+  code: string
+  discountAmount: number
+  freeShipping: boolean
+}> {
+  const customerEmail = params.customerEmail ? params.customerEmail.toLowerCase() : null
+  const maxRetries = 3
+
+  for (let attempt = 1; attempt <= maxRetries; attempt += 1) {
+    try {
+      const result = await prisma.$transaction(
+        async (tx) => {
+          const evaluation = await evaluatePromoCodeWithClient(tx, params.code, {
+            userId: params.userId,
+            customerEmail,
+            lines: params.lines,
+          })
+
+          if (!evaluation.valid) {
+            throw new Error(evaluation.reason)
+          }
+
+          const redemption = await tx.promoCodeRedemption.create({
+            data: {
+              promoCodeId: evaluation.promoCodeId,
+              userId: params.userId,
+              customerEmail,
+              discountAmount: evaluation.discountAmount,
+              status: PROMO_CODE_CONFIG.REDEMPTION_STATUS.PENDING,
+            },
+            select: {
+              id: true,
+            },
+          })
+
+          return { evaluation, redemptionId: redemption.id }
+        },
+        {
+          isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        }
+      )
+
+      logger.info('Promo code held for checkout', {
+        userId: params.userId,
+        promoCodeId: result.evaluation.promoCodeId,
+        redemptionId: result.redemptionId,
+        discountAmount: result.evaluation.discountAmount,
+      })
+
+      return {
+        promoCodeId: result.evaluation.promoCodeId,
+        redemptionId: result.redemptionId,
+        code: result.evaluation.code,
+        discountAmount: result.evaluation.discountAmount,
+        freeShipping: result.evaluation.freeShipping,
+      }
+    } catch (error) {
+      const isSerializationConflict =
+        (error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2034') ||
+        (!!error &&
+          typeof error === 'object' &&
+          'code' in error &&
+          (error as { code?: string }).code === 'P2034')
+
+      if (isSerializationConflict && attempt < maxRetries) {
+        continue
+      }
+
+      throw error
+    }
+  }
+
+  throw new Error('Unable to apply promo code. Please try again.')
+}
+
+/**
+ * Finalize a pending promo code redemption after successful payment.
+ *
+ * Idempotent: already-applied or missing redemptions are a no-op.
+ */
+export async function finalizePromoCodeRedemption(
+  redemptionId: string,
+  orderId: string
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const redemption = await tx.promoCodeRedemption.findUnique({
+      where: { id: redemptionId },
+      select: {
+        id: true,
+        promoCodeId: true,
+        status: true,
+      },
+    })
+
+    if (!redemption) {
+      logger.info('Promo code redemption missing; nothing to finalize', { redemptionId })
+      return
+    }
+
+    if (redemption.status !== PROMO_CODE_CONFIG.REDEMPTION_STATUS.PENDING) {
+      logger.info('Promo code redemption already finalized', {
+        redemptionId,
+        status: redemption.status,
+      })
+      return
+    }
+
+    await tx.promoCodeRedemption.update({
+      where: { id: redemptionId },
+      data: {
+        status: PROMO_CODE_CONFIG.REDEMPTION_STATUS.APPLIED,
+        orderId,
+      },
+    })
+
+    await tx.promoCode.update({
+      where: { id: redemption.promoCodeId },
+      data: { usageCount: { increment: 1 } },
+    })
+  })
+
+  logger.info('Promo code redemption finalized', { redemptionId, orderId })
+}
+
+/**
+ * Reverse a pending promo code hold (e.g., when checkout session expires).
+ */
+export async function reversePromoCodeHold(redemptionId: string): Promise<void> {
+  const result = await prisma.promoCodeRedemption.deleteMany({
+    where: {
+      id: redemptionId,
+      status: PROMO_CODE_CONFIG.REDEMPTION_STATUS.PENDING,
+    },
+  })
+
+  logger.info('Promo code hold reversed', {
+    redemptionId,
+    deletedCount: result.count,
+  })
+}
+
+/**
+ * Format a promo code record for API responses (Decimals to numbers, scopes to arrays).
+ */
+export function formatPromoCode(promoCode: PromoCodeRecord) {
+  return {
+    id: promoCode.id,
+    code: promoCode.code,
+    description: promoCode.description,
+    type: promoCode.type,
+    value: Number(promoCode.value),
+    minSubtotal: promoCode.minSubtotal !== null ? Number(promoCode.minSubtotal) : null,
+    usageLimit: promoCode.usageLimit,
+    usageLimitPerCustomer: promoCode.usageLimitPerCustomer,
+    usageCount: promoCode.usageCount,
+    startsAt: promoCode.startsAt,
+    endsAt: promoCode.endsAt,
+    isActive: promoCode.isActive,
+    categories: parseScopeList(promoCode.categories),
+    brandIds: parseScopeList(promoCode.brandIds),
+    productIds: parseScopeList(promoCode.productIds),
+    createdAt: promoCode.createdAt,
+    updatedAt: promoCode.updatedAt,
+  }
+}
@@ -37,8 +37,20 @@ export type CartContext = {
     items: CartItem[]
   }
   addItemToCart: (item: CartItem) => void
-  updateQuantity: (productId: string, quantity: number, variantId?: string | null) => void
-  removeItem: (productId: string, variantId?: string | null, cartItemId?: string) => void
+  updateQuantity: (
+    productId: string,
+    quantity: number,
+    variantId?: string | null,
+    imperfectBatchId?: string | null
+  ) => void
+  removeItem: (
+    productId: string,
+    variantId?: string | null,
+    cartItemId?: string,
+    bundleSelectionId?: string | null,
+    imperfectBatchId?: string | null
+  ) => void
+  removeBundle: (bundleSelectionId: string) => void
   clearCart: () => void
   isProductInCart: (productId: string, variantId?: string | null) => boolean
   cartTotal: {
@@ -287,6 +299,7 @@ function useCartProviderValue(): CartContext {
           userId,
           productId: item.id,
           variantId: item.variantId || null,
+          imperfectBatchId: item.imperfectBatchId || null,
           quantity: item.quantity
         }),
       })
@@ -311,7 +324,13 @@ function useCartProviderValue(): CartContext {
   }, [fetchCartItems])
 
   // Debounced API call for quantity updates with race condition handling
-  const updateQuantityApi = useDebouncedCallback(async (productId: string, quantity: number, variantId: string | null, version: number) => {
+  const updateQuantityApi = useDebouncedCallback(async (
+    productId: string,
+    quantity: number,
+    variantId: string | null,
+    imperfectBatchId: string | null,
+    version: number
+  ) => {
     // Ignore stale requests - a newer update has been queued
     if (version !== quantityUpdateVersion.current) {
       pendingQuantityUpdates.current = Math.max(0, pendingQuantityUpdates.current - 1)
@@ -329,7 +348,7 @@ function useCartProviderValue(): CartContext {
           'Content-Type': 'application/json',
           'X-CSRF-Token': csrfToken,
         },
-        body: JSON.stringify({ productId, variantId, quantity }),
+        body: JSON.stringify({ productId, variantId, imperfectBatchId, quantity }),
       })
 
       // Check again if this is still the latest version after API call
@@ -360,7 +379,12 @@ function useCartProviderValue(): CartContext {
   }, 500)
 
   // Update quantity with optimistic updates and race condition handling
-  const updateQuantity = useCallback((productId: string, quantity: number, variantId?: string | null) => {
+  const updateQuantity = useCallback((
+    productId: string,
+    quantity: number,
+    variantId?: string | null,
+    imperfectBatchId?: string | null
+  ) => {
     // Validate quantity
     if (quantity < 1 || quantity > 99) {
       toast.error('Quantity must be between 1 and 99')
@@ -370,7 +394,12 @@ function useCartProviderValue(): CartContext {
     // Optimistic update - find item by productId + variantId
     dispatchCart({
       type: 'UPDATE_QUANTITY',
-      payload: { id: productId, variantId: variantId || null, quantity },
+      payload: {
+        id: productId,
+        variantId: variantId || null,
+        imperfectBatchId: imperfectBatchId || null,
+        quantity,
+      },
     })
 
     // Track this update for race condition handling
@@ -381,15 +410,26 @@ function useCartProviderValue(): CartContext {
     setIsLoading(true)
 
     // Actual API update (debounced) - pass version for stale request detection
-    updateQuantityApi(productId, quantity, variantId || null, currentVersion)
+    updateQuantityApi(productId, quantity, variantId || null, imperfectBatchId || null, currentVersion)
   }, [updateQuantityApi])
 
   // Remove item from cart with optimistic updates
-  const removeItem = useCallback(async (productId: string, variantId?: string | null, cartItemId?: string) => {
+  const removeItem = useCallback(async (
+    productId: string,
+    variantId?: string | null,
+    cartItemId?: string,
+    bundleSelectionId?: string | null,
+    imperfectBatchId?: string | null
+  ) => {
     // Optimistic update
     dispatchCart({
       type: 'REMOVE_ITEM',
-      payload: { id: productId, variantId: variantId || null },
+      payload: {
+        id: productId,
+        variantId: variantId || null,
+        bundleSelectionId: bundleSelectionId || null,
+        imperfectBatchId: imperfectBatchId || null,
+      },
     })
 
     setIsLoading(true)
@@ -418,7 +458,14 @@ function useCartProviderValue(): CartContext {
         throw new Error(errorData.error?.message || errorData.error || 'Failed to remove item')
       }
 
-      toast.success('Item removed from cart')
+      const responseData = await response.json().catch(() => null)
+      if (responseData?.data?.brokenBundleSelectionId) {
+        // The rest of the bundle is now charged at full price
+        toast.success('Item removed. The remaining bundle items no longer get the bundle discount.')
+        await fetchCartItems()
+      } else {
+        toast.success('Item removed from cart')
+      }
     } catch (error) {
       if (process.env.NODE_ENV === 'development') {
         console.error('[REMOVE_ITEM_ERROR]', error)
@@ -432,6 +479,43 @@ function useCartProviderValue(): CartContext {
     }
   }, [fetchCartItems])
 
+  // Remove every item of a bundle with optimistic updates
+  const removeBundle = useCallback(async (bundleSelectionId: string) => {
+    dispatchCart({
+      type: 'REMOVE_BUNDLE',
+      payload: { bundleSelectionId },
+    })
+
+    setIsLoading(true)
+    try {
+      const csrfToken = await getCsrfToken()
+      const params = new URLSearchParams({ bundleSelectionId })
+      const response = await fetch(`/api/cart?${params.toString()}`, {
+        method: 'DELETE',
+        headers: {
+          'X-CSRF-Token': csrfToken,
+        },
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error?.message || errorData.error || 'Failed to remove bundle')
+      }
+
+      toast.success('Bundle removed from cart')
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('[REMOVE_BUNDLE_ERROR]', error)
+      }
+      toast.error(error instanceof Error ? error.message : 'Failed to remove bundle')
+
+      // Revert optimistic update on error
+      await fetchCartItems()
+    } finally {
+      setIsLoading(false)
+    }
+  }, [fetchCartItems])
+
   // Clear cart
   const clearCart = useCallback(() => {
     dispatchCart({
@@ -491,6 +575,7 @@ function useCartProviderValue(): CartContext {
     addItemToCart,
     updateQuantity,
     removeItem,
+    removeBundle,
     clearCart,
     isProductInCart,
     cartTotal,
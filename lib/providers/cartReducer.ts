@@ -15,19 +15,43 @@ type CartAction =
     }
   | {
       type: 'UPDATE_QUANTITY'
-      payload: { id: string; variantId?: string | null; quantity: number }
+      payload: {
+        id: string
+        variantId?: string | null
+        imperfectBatchId?: string | null
+        quantity: number
+      }
     }
   | {
       type: 'REMOVE_ITEM'
-      payload: { id: string; variantId?: string | null }
+      payload: {
+        id: string
+        variantId?: string | null
+        bundleSelectionId?: string | null
+        imperfectBatchId?: string | null
+      }
+    }
+  | {
+      type: 'REMOVE_BUNDLE'
+      payload: { bundleSelectionId: string }
     }
   | {
       type: 'CLEAR_CART'
     }
 
-// Helper to match cart items by productId + variantId
-const matchCartItem = (item: CartItem, productId: string, variantId?: string | null): boolean => {
+// Helper to match cart items by productId + variantId. Lines added as part of
+// a bundle, or bought from an imperfect batch, only match when the same
+// bundle or batch is given.
+const matchCartItem = (
+  item: CartItem,
+  productId: string,
+  variantId?: string | null,
+  bundleSelectionId?: string | null,
+  imperfectBatchId?: string | null
+): boolean => {
   if (item.id !== productId) return false
+  if ((item.bundleSelectionId || null) !== (bundleSelectionId || null)) return false
+  if ((item.imperfectBatchId || null) !== (imperfectBatchId || null)) return false
   // Match by variantId (null === null for items without variants)
   return (item.variantId || null) === (variantId || null)
 }
@@ -45,7 +69,7 @@ export const cartReducer = (cart: CartType, action: CartAction): CartType => {
 
       // Find by productId + variantId
       const indexInCart = cart?.items?.findIndex(item =>
-        matchCartItem(item, productId, variantId)
+        matchCartItem(item, productId, variantId, null, incomingItem.imperfectBatchId)
       )
 
       let withAddedItem = [...(cart?.items || [])]
@@ -68,10 +92,10 @@ export const cartReducer = (cart: CartType, action: CartAction): CartType => {
     }
 
     case 'UPDATE_QUANTITY': {
-      const { payload: { id, variantId, quantity } } = action
+      const { payload: { id, variantId, imperfectBatchId, quantity } } = action
 
       const indexInCart = cart?.items?.findIndex(item =>
-        matchCartItem(item, id, variantId)
+        matchCartItem(item, id, variantId, null, imperfectBatchId)
       )
 
       if (typeof indexInCart !== 'number' || indexInCart === -1) {
@@ -91,11 +115,22 @@ export const cartReducer = (cart: CartType, action: CartAction): CartType => {
     }
 
     case 'REMOVE_ITEM': {
-      const { payload: { id, variantId } } = action
+      const { payload: { id, variantId, bundleSelectionId, imperfectBatchId } } = action
+
+      return {
+        ...cart,
+        items: cart.items.filter(
+          item => !matchCartItem(item, id, variantId, bundleSelectionId, imperfectBatchId)
+        ),
+      }
+    }
+
+    case 'REMOVE_BUNDLE': {
+      const { payload: { bundleSelectionId } } = action
 
       return {
         ...cart,
-        items: cart.items.filter(item => !matchCartItem(item, id, variantId)),
+        items: cart.items.filter(item => item.bundleSelectionId !== bundleSelectionId),
       }
     }
 
@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { getBaseUrl } from '@/lib/url';
+import { isEmailVerified } from '@/lib/email-verification';
 import { randomBytes } from 'crypto';
 
 /**
@@ -261,7 +262,7 @@ export async function applyReferralCode(
 
 /**
  * Complete a referral when referee places their first order
- * Awards points to the referrer
+ * Awards points to the referrer. The referee must have verified their email.
  */
 export async function completeReferral(
   refereeId: string,
@@ -292,6 +293,11 @@ export async function completeReferral(
     return { success: true };
   }
 
+  if (!(await isEmailVerified(refereeId))) {
+    // Stays pending; a later order after verification completes it
+    return { success: false, error: 'Referee email address is not verified' };
+  }
+
   const discountPercent = referral.referralCode.discountPercent;
   const discountAmount = (orderAmount * discountPercent) / 100;
   const now = new Date();
@@ -1,12 +1,15 @@
 /**
  * Refund Processing Utilities
  *
- * Handles all refund side-effects: inventory restoration, loyalty point reversal,
- * gift card balance restoration, and order status updates.
+ * Handles all refund side-effects: inventory restoration (including imperfect
+ * batch stock), loyalty point reversal,
+ * promo code redemption reversal, gift card balance restoration, environmental
+ * impact reversal, and order status updates.
  *
  * Supports both full and partial refunds. Full refunds reverse all side-effects
- * (inventory, loyalty points earned/redeemed, gift card). Partial refunds only
- * restore inventory for the specified items.
+ * (inventory, loyalty points earned/redeemed, promo code, gift card, impact).
+ * Partial refunds only restore inventory and reverse impact for the specified
+ * items.
  *
  * @module lib/refund
  */
@@ -16,6 +19,10 @@ import { prisma } from '@/lib/prisma'
 import { logger } from '@/lib/logger'
 import { calculateTier } from '@/lib/loyalty'
 import { refundGiftCard } from '@/lib/gift-cards'
+import { triggerBackInStockAlerts } from '@/lib/product-alerts'
+import { restoreImperfectBatchStock } from '@/lib/imperfect-batches'
+import { reverseOrderImpact } from '@/lib/impact'
+import { invalidateImpactCaches } from '@/lib/cache'
 
 // Use Prisma's transaction client type
 type TransactionClient = Prisma.TransactionClient
@@ -155,6 +162,16 @@ export function calculateProratedPartialRefund(
   }
 }
 
+/**
+ * An item whose stock is restored by a refund.
+ */
+export interface RefundInventoryItem {
+  productId: string
+  variantId: string | null
+  imperfectBatchId?: string | null
+  quantity: number
+}
+
 /**
  * Request shape for processRefund
  */
@@ -173,38 +190,52 @@ export interface RefundResult {
   refundedAmount: number
   inventoryRestored: boolean
   loyaltyPointsReversed: boolean
+  promoCodeReversed: boolean
   giftCardAmountRestored: number
+  impactReversed: boolean
 }
 
 /**
  * Restore inventory for refunded items.
  *
- * For each item, if it has a variantId, increments productVariant.inventory;
- * otherwise increments product.inventory.
+ * Items bought from an imperfect batch go back into the batch. Otherwise, if
+ * the item has a variantId, increments productVariant.inventory; if not,
+ * increments product.inventory. Items that come back into stock trigger
+ * their back-in-stock alerts in the same transaction.
  */
 export async function restoreInventory(
   tx: TransactionClient,
-  items: Array<{ productId: string; variantId: string | null; quantity: number }>
+  items: RefundInventoryItem[]
 ): Promise<void> {
   for (const item of items) {
-    if (item.variantId) {
-      await tx.productVariant.update({
+    if (item.imperfectBatchId) {
+      await restoreImperfectBatchStock(tx, item.imperfectBatchId, item.quantity)
+    } else if (item.variantId) {
+      const variant = await tx.productVariant.update({
         where: { id: item.variantId },
         data: { inventory: { increment: item.quantity } },
+        select: { inventory: true },
       })
       logger.info('Restored variant inventory', {
         variantId: item.variantId,
         quantity: item.quantity,
       })
+      if (variant.inventory > 0) {
+        await triggerBackInStockAlerts(tx, { productId: item.productId, variantId: item.variantId })
+      }
     } else {
-      await tx.product.update({
+      const product = await tx.product.update({
         where: { id: item.productId },
         data: { inventory: { increment: item.quantity } },
+        select: { inventory: true },
       })
       logger.info('Restored product inventory', {
         productId: item.productId,
         quantity: item.quantity,
       })
+      if (product.inventory > 0) {
+        await triggerBackInStockAlerts(tx, { productId: item.productId })
+      }
     }
   }
 }
@@ -319,17 +350,61 @@ export async function reverseLoyaltyPointsRedeemed(
   return true
 }
 
+/**
+ * Reverse a promo code redemption for an order.
+ *
+ * Marks applied PromoCodeRedemption records for the order as "refunded" and
+ * decrements the promo code's usage count, freeing the usage cap.
+ */
+export async function reversePromoCodeRedeemed(
+  tx: TransactionClient,
+  orderId: string
+): Promise<boolean> {
+  const redemptions = await tx.promoCodeRedemption.findMany({
+    where: {
+      orderId,
+      status: 'applied',
+    },
+  })
+
+  if (redemptions.length === 0) {
+    logger.info('No promo code redemptions to reverse for order', { orderId })
+    return false
+  }
+
+  for (const redemption of redemptions) {
+    await tx.promoCodeRedemption.update({
+      where: { id: redemption.id },
+      data: { status: 'refunded' },
+    })
+
+    await tx.promoCode.updateMany({
+      where: { id: redemption.promoCodeId, usageCount: { gt: 0 } },
+      data: { usageCount: { decrement: 1 } },
+    })
+  }
+
+  logger.info('Reversed promo code redemptions', {
+    orderId,
+    redemptionsReversed: redemptions.length,
+  })
+
+  return true
+}
+
 /**
  * Process a refund with all side-effects.
  *
  * Orchestrates inventory restoration, loyalty point reversal, order status updates,
- * and gift card balance restoration.
+ * gift card balance restoration and environmental impact reversal.
  *
  * - Full refund (no items specified): restores all inventory, reverses loyalty
- *   points (earned and redeemed), restores gift card balance.
+ *   points (earned and redeemed), reverses the promo code redemption, restores
+ *   gift card balance, reverses the rest of the order's impact.
  * - Partial refund (items specified): restores inventory only for specified items,
- *   updates each orderItem.refundedQuantity. Does NOT reverse loyalty points or
- *   gift card for partial refunds.
+ *   updates each orderItem.refundedQuantity and reverses those items' share of
+ *   the order's impact. Does NOT reverse loyalty points, promo codes or gift
+ *   card for partial refunds.
  */
 export async function processRefund(request: RefundRequest): Promise<RefundResult> {
   const { orderId, items: refundItems, reason, refundAmount: explicitRefundAmount } = request
@@ -358,6 +433,14 @@ export async function processRefund(request: RefundRequest): Promise<RefundResul
   let refundedAmount = 0
   let inventoryRestored = false
   let loyaltyPointsReversed = false
+  let promoCodeReversed = false
+  let impactMilestonesLost: Array<{ metricSlug: string; milestone: number }> = []
+  let impactReversed = false
+
+  // Impact is reversed against what had not been refunded before this refund
+  const remainingImpactItems = order.items
+    .map((oi) => ({ productId: oi.productId, quantity: oi.quantity - oi.refundedQuantity }))
+    .filter((item) => item.quantity > 0)
 
   await prisma.$transaction(async (tx) => {
     if (isPartial) {
@@ -365,7 +448,7 @@ export async function processRefund(request: RefundRequest): Promise<RefundResul
       const normalizedRefundItems = partialCalculation.normalizedItems
 
       // Partial refund: only restore specified items
-      const inventoryItems: Array<{ productId: string; variantId: string | null; quantity: number }> = []
+      const inventoryItems: RefundInventoryItem[] = []
 
       for (const refundItem of normalizedRefundItems) {
         const orderItem = order.items.find((oi) => oi.id === refundItem.orderItemId)
@@ -383,6 +466,7 @@ export async function processRefund(request: RefundRequest): Promise<RefundResul
         inventoryItems.push({
           productId: orderItem.productId,
           variantId: orderItem.variantId,
+          imperfectBatchId: orderItem.imperfectBatchId,
           quantity: refundItem.quantity,
         })
 
@@ -411,6 +495,18 @@ export async function processRefund(request: RefundRequest): Promise<RefundResul
       await restoreInventory(tx, inventoryItems)
       inventoryRestored = true
 
+      if (order.userId) {
+        const impact = await reverseOrderImpact(
+          tx,
+          orderId,
+          order.userId,
+          remainingImpactItems,
+          inventoryItems
+        )
+        impactReversed = impact.reversed.length > 0
+        impactMilestonesLost = impact.milestonesLost
+      }
+
       // Update order status to partially_refunded
       await tx.order.update({
         where: { id: orderId },
@@ -432,6 +528,7 @@ export async function processRefund(request: RefundRequest): Promise<RefundResul
       const inventoryItems = order.items.map((oi) => ({
         productId: oi.productId,
         variantId: oi.variantId,
+        imperfectBatchId: oi.imperfectBatchId,
         quantity: oi.quantity - oi.refundedQuantity, // Only restore un-refunded quantity
       })).filter((item) => item.quantity > 0)
 
@@ -453,6 +550,20 @@ export async function processRefund(request: RefundRequest): Promise<RefundResul
         const awardReversed = await reverseLoyaltyPointsAwarded(tx, order.userId, orderId)
         const redemptionReversed = await reverseLoyaltyPointsRedeemed(tx, order.userId, orderId)
         loyaltyPointsReversed = awardReversed || redemptionReversed
+
+        const impact = await reverseOrderImpact(
+          tx,
+          orderId,
+          order.userId,
+          remainingImpactItems,
+          inventoryItems
+        )
+        impactReversed = impact.reversed.length > 0
+        impactMilestonesLost = impact.milestonesLost
+      }
+
+      if (order.promoRedemptionId) {
+        promoCodeReversed = await reversePromoCodeRedeemed(tx, orderId)
       }
 
       // Update order status to refunded
@@ -468,6 +579,18 @@ export async function processRefund(request: RefundRequest): Promise<RefundResul
     }
   })
 
+  if (impactReversed) {
+    await invalidateImpactCaches()
+
+    if (impactMilestonesLost.length > 0) {
+      logger.info('Refund took user impact back below milestones', {
+        orderId,
+        userId: order.userId,
+        milestonesLost: impactMilestonesLost,
+      })
+    }
+  }
+
   // After transaction: restore gift card balance if applicable (full refund only)
   let giftCardAmountRestored = 0
   if (!isPartial && order.giftCardId && order.giftCardAmountUsed) {
@@ -497,13 +620,17 @@ export async function processRefund(request: RefundRequest): Promise<RefundResul
     refundedAmount,
     inventoryRestored,
     loyaltyPointsReversed,
+    promoCodeReversed,
     giftCardAmountRestored,
+    impactReversed,
   })
 
   return {
     refundedAmount,
     inventoryRestored,
     loyaltyPointsReversed,
+    promoCodeReversed,
     giftCardAmountRestored,
+    impactReversed,
   }
 }
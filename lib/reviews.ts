@@ -0,0 +1,486 @@
+/**
+ * Product Review Utilities
+ *
+ * Handles the review lifecycle: submission into the moderation queue,
+ * verified-purchase detection, moderation decisions (approve/reject/flag),
+ * helpful votes and merchant replies.
+ *
+ * Only APPROVED reviews are shown publicly, and review loyalty points are
+ * granted the first time a review is approved.
+ *
+ * Each product carries denormalized rating aggregates (average, count and a
+ * per-star histogram) over its approved reviews so listings can sort and
+ * filter by rating without reading reviews. Every change to the approved set
+ * recomputes them in the same transaction.
+ *
+ * @module lib/reviews
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { awardReviewPoints } from '@/lib/loyalty'
+
+export const REVIEW_CONFIG = {
+  STATUS: {
+    PENDING: 'PENDING',
+    APPROVED: 'APPROVED',
+    REJECTED: 'REJECTED',
+    FLAGGED: 'FLAGGED',
+  } as const,
+
+  MODERATION_ACTIONS: ['approve', 'reject', 'flag'] as const,
+
+  // Orders in these states count as a purchase for the "Verified purchase" badge
+  VERIFIED_ORDER_STATUSES: ['paid', 'partially_refunded'],
+
+  MAX_PHOTOS: 4,
+  MAX_REPLY_LENGTH: 1000,
+} as const
+
+type ReviewClient = Prisma.TransactionClient | typeof prisma
+
+export type ReviewStatus = (typeof REVIEW_CONFIG.STATUS)[keyof typeof REVIEW_CONFIG.STATUS]
+export type ModerationAction = (typeof REVIEW_CONFIG.MODERATION_ACTIONS)[number]
+
+const ACTION_STATUS: Record<ModerationAction, ReviewStatus> = {
+  approve: REVIEW_CONFIG.STATUS.APPROVED,
+  reject: REVIEW_CONFIG.STATUS.REJECTED,
+  flag: REVIEW_CONFIG.STATUS.FLAGGED,
+}
+
+/**
+ * Failure result for review operations. `code` lets routes pick a status.
+ */
+export interface ReviewFailure {
+  success: false
+  error: string
+  code: 'NOT_FOUND' | 'INVALID_STATE' | 'FORBIDDEN' | 'REASON_REQUIRED'
+}
+
+function reviewFailure(error: string, code: ReviewFailure['code']): ReviewFailure {
+  return { success: false, error, code }
+}
+
+/**
+ * Relations returned with public reviews.
+ */
+export const REVIEW_PUBLIC_INCLUDE = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+    },
+  },
+  photos: {
+    select: { id: true, url: true },
+    orderBy: { sortOrder: 'asc' as const },
+  },
+}
+
+export type RatingHistogram = Record<1 | 2 | 3 | 4 | 5, number>
+
+export interface ProductRatingSummary {
+  averageRating: number
+  reviewCount: number
+  ratingHistogram: RatingHistogram
+}
+
+/**
+ * Product columns holding the rating aggregates.
+ */
+export interface ProductRatingColumns {
+  averageRating: number
+  reviewCount: number
+  ratingCount1: number
+  ratingCount2: number
+  ratingCount3: number
+  ratingCount4: number
+  ratingCount5: number
+}
+
+const STAR_VALUES = [1, 2, 3, 4, 5] as const
+
+/**
+ * Builds a rating summary from per-star review counts. Ratings outside 1-5
+ * are ignored.
+ */
+export function summarizeRatings(counts: Array<{ rating: number; count: number }>): ProductRatingSummary {
+  const ratingHistogram: RatingHistogram = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 }
+
+  for (const { rating, count } of counts) {
+    if (STAR_VALUES.includes(rating as 1 | 2 | 3 | 4 | 5)) {
+      ratingHistogram[rating as keyof RatingHistogram] += count
+    }
+  }
+
+  const reviewCount = STAR_VALUES.reduce((sum, star) => sum + ratingHistogram[star], 0)
+  const total = STAR_VALUES.reduce((sum, star) => sum + star * ratingHistogram[star], 0)
+
+  return {
+    averageRating: reviewCount > 0 ? total / reviewCount : 0,
+    reviewCount,
+    ratingHistogram,
+  }
+}
+
+/**
+ * Maps a rating summary onto the Product aggregate columns.
+ */
+export function toProductRatingColumns(summary: ProductRatingSummary): ProductRatingColumns {
+  return {
+    averageRating: summary.averageRating,
+    reviewCount: summary.reviewCount,
+    ratingCount1: summary.ratingHistogram[1],
+    ratingCount2: summary.ratingHistogram[2],
+    ratingCount3: summary.ratingHistogram[3],
+    ratingCount4: summary.ratingHistogram[4],
+    ratingCount5: summary.ratingHistogram[5],
+  }
+}
+
+/**
+ * Reads the per-star histogram back off a product row.
+ */
+export function getRatingHistogram(product: ProductRatingColumns): RatingHistogram {
+  return {
+    1: product.ratingCount1,
+    2: product.ratingCount2,
+    3: product.ratingCount3,
+    4: product.ratingCount4,
+    5: product.ratingCount5,
+  }
+}
+
+/**
+ * Replaces a product's raw aggregate columns with a `ratingHistogram`
+ * object, for API responses.
+ */
+export function withRatingHistogram<T extends ProductRatingColumns>(
+  product: T
+): Omit<T, 'ratingCount1' | 'ratingCount2' | 'ratingCount3' | 'ratingCount4' | 'ratingCount5'> & {
+  ratingHistogram: RatingHistogram
+} {
+  const { ratingCount1, ratingCount2, ratingCount3, ratingCount4, ratingCount5, ...rest } = product
+  return {
+    ...rest,
+    ratingHistogram: {
+      1: ratingCount1,
+      2: ratingCount2,
+      3: ratingCount3,
+      4: ratingCount4,
+      5: ratingCount5,
+    },
+  }
+}
+
+/**
+ * Recomputes a product's rating aggregates from its approved reviews. Pass
+ * the transaction client so the aggregates commit with the review change.
+ */
+export async function refreshProductRating(productId: string, client: ReviewClient = prisma) {
+  const groups = await client.review.groupBy({
+    by: ['rating'],
+    where: { productId, status: REVIEW_CONFIG.STATUS.APPROVED },
+    _count: { rating: true },
+  })
+
+  const summary = summarizeRatings(
+    groups.map((group) => ({ rating: group.rating, count: group._count.rating }))
+  )
+
+  await client.product.update({
+    where: { id: productId },
+    data: toProductRatingColumns(summary),
+  })
+
+  return summary
+}
+
+function ratingColumnsEqual(a: ProductRatingColumns, b: ProductRatingColumns): boolean {
+  return (
+    Math.abs(a.averageRating - b.averageRating) < 1e-9 &&
+    a.reviewCount === b.reviewCount &&
+    a.ratingCount1 === b.ratingCount1 &&
+    a.ratingCount2 === b.ratingCount2 &&
+    a.ratingCount3 === b.ratingCount3 &&
+    a.ratingCount4 === b.ratingCount4 &&
+    a.ratingCount5 === b.ratingCount5
+  )
+}
+
+/**
+ * Recomputes rating aggregates for every product from approved reviews and
+ * rewrites the ones that have drifted. With `dryRun` nothing is written.
+ */
+export async function backfillProductRatings(options: { dryRun?: boolean } = {}) {
+  const [groups, products] = await Promise.all([
+    prisma.review.groupBy({
+      by: ['productId', 'rating'],
+      where: { status: REVIEW_CONFIG.STATUS.APPROVED },
+      _count: { rating: true },
+    }),
+    prisma.product.findMany({
+      select: {
+        id: true,
+        averageRating: true,
+        reviewCount: true,
+        ratingCount1: true,
+        ratingCount2: true,
+        ratingCount3: true,
+        ratingCount4: true,
+        ratingCount5: true,
+      },
+    }),
+  ])
+
+  const countsByProduct = new Map<string, Array<{ rating: number; count: number }>>()
+  for (const group of groups) {
+    const counts = countsByProduct.get(group.productId) ?? []
+    counts.push({ rating: group.rating, count: group._count.rating })
+    countsByProduct.set(group.productId, counts)
+  }
+
+  let productsUpdated = 0
+  for (const { id, ...current } of products) {
+    const expected = toProductRatingColumns(summarizeRatings(countsByProduct.get(id) ?? []))
+    if (ratingColumnsEqual(current, expected)) {
+      continue
+    }
+
+    productsUpdated++
+    if (!options.dryRun) {
+      await prisma.product.update({ where: { id }, data: expected })
+    }
+  }
+
+  if (!options.dryRun) {
+    logger.info('Product rating aggregates backfilled', {
+      productsChecked: products.length,
+      productsUpdated,
+    })
+  }
+
+  return { productsChecked: products.length, productsUpdated }
+}
+
+/**
+ * Maps a moderation action to the status it produces.
+ */
+export function getModerationStatus(action: ModerationAction): ReviewStatus {
+  return ACTION_STATUS[action]
+}
+
+/**
+ * Rejecting or flagging requires a reason so the decision can be explained
+ * later; approvals may omit it.
+ */
+export function requiresModerationReason(action: ModerationAction): boolean {
+  return action !== 'approve'
+}
+
+/**
+ * Whether the user has a paid order containing the product.
+ */
+export async function hasVerifiedPurchase(userId: string, productId: string): Promise<boolean> {
+  const orderItem = await prisma.orderItem.findFirst({
+    where: {
+      productId,
+      order: {
+        userId,
+        status: { in: [...REVIEW_CONFIG.VERIFIED_ORDER_STATUSES] },
+      },
+    },
+    select: { id: true },
+  })
+
+  return !!orderItem
+}
+
+export interface SubmitReviewInput {
+  userId: string
+  productId: string
+  rating: number
+  comment?: string
+  photoUrls?: string[]
+}
+
+/**
+ * Creates a review in the moderation queue, flagging verified purchases.
+ * New reviews are PENDING, so product rating aggregates are unchanged until
+ * the review is approved.
+ */
+export async function submitReview(input: SubmitReviewInput) {
+  const verifiedPurchase = await hasVerifiedPurchase(input.userId, input.productId)
+  const photoUrls = (input.photoUrls ?? []).slice(0, REVIEW_CONFIG.MAX_PHOTOS)
+
+  const review = await prisma.review.create({
+    data: {
+      productId: input.productId,
+      userId: input.userId,
+      rating: input.rating,
+      comment: input.comment,
+      status: REVIEW_CONFIG.STATUS.PENDING,
+      verifiedPurchase,
+      photos: {
+        create: photoUrls.map((url, index) => ({ url, sortOrder: index })),
+      },
+    },
+    include: REVIEW_PUBLIC_INCLUDE,
+  })
+
+  logger.info('Review submitted for moderation', {
+    reviewId: review.id,
+    productId: input.productId,
+    verifiedPurchase,
+    photoCount: photoUrls.length,
+  })
+
+  return review
+}
+
+export interface ModerateReviewInput {
+  reviewId: string
+  action: ModerationAction
+  reason?: string | null
+  moderatorId: string
+}
+
+/**
+ * Applies a moderation decision and refreshes the product's rating
+ * aggregates in the same transaction. Approving a review grants the
+ * author's review points (once per review, even if it is later re-approved).
+ */
+export async function moderateReview(input: ModerateReviewInput) {
+  const reason = input.reason?.trim() || null
+
+  if (requiresModerationReason(input.action) && !reason) {
+    return reviewFailure('A reason is required to reject or flag a review', 'REASON_REQUIRED')
+  }
+
+  const existing = await prisma.review.findUnique({ where: { id: input.reviewId } })
+  if (!existing) {
+    return reviewFailure('Review not found', 'NOT_FOUND')
+  }
+
+  const status = getModerationStatus(input.action)
+  if (existing.status === status) {
+    return reviewFailure(`Review is already ${status.toLowerCase()}`, 'INVALID_STATE')
+  }
+
+  const review = await prisma.$transaction(async (tx) => {
+    const updated = await tx.review.update({
+      where: { id: input.reviewId },
+      data: {
+        status,
+        moderationReason: reason,
+        moderatedAt: new Date(),
+        moderatedById: input.moderatorId,
+      },
+    })
+
+    await refreshProductRating(updated.productId, tx)
+    return updated
+  })
+
+  let pointsAwarded = false
+  if (status === REVIEW_CONFIG.STATUS.APPROVED) {
+    pointsAwarded = await awardReviewPoints(review.userId, review.id)
+  }
+
+  logger.info('Review moderated', {
+    reviewId: review.id,
+    action: input.action,
+    previousStatus: existing.status,
+    moderatorId: input.moderatorId,
+    pointsAwarded,
+  })
+
+  return { success: true as const, before: existing, review, pointsAwarded }
+}
+
+/**
+ * Permanently deletes a review (with its photos and votes) and refreshes
+ * the product's rating aggregates in the same transaction.
+ */
+export async function deleteReview(reviewId: string) {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.review.findUnique({ where: { id: reviewId } })
+    if (!existing) {
+      return reviewFailure('Review not found', 'NOT_FOUND')
+    }
+
+    await tx.review.delete({ where: { id: reviewId } })
+    await refreshProductRating(existing.productId, tx)
+
+    return { success: true as const, before: existing }
+  })
+}
+
+/**
+ * Sets or clears the merchant's public reply to a review.
+ */
+export async function setMerchantReply(reviewId: string, reply: string | null) {
+  const existing = await prisma.review.findUnique({ where: { id: reviewId } })
+  if (!existing) {
+    return reviewFailure('Review not found', 'NOT_FOUND')
+  }
+
+  const trimmed = reply?.trim() || null
+  const review = await prisma.review.update({
+    where: { id: reviewId },
+    data: {
+      merchantReply: trimmed,
+      merchantReplyAt: trimmed ? new Date() : null,
+    },
+  })
+
+  return { success: true as const, before: existing, review }
+}
+
+/**
+ * Toggles the user's "helpful" vote on an approved review and keeps the
+ * denormalized helpfulCount in step.
+ */
+export async function toggleHelpfulVote(
+  reviewId: string,
+  userId: string
+): Promise<{ success: true; helpful: boolean; helpfulCount: number } | ReviewFailure> {
+  return prisma.$transaction(async (tx) => {
+    const review = await tx.review.findUnique({
+      where: { id: reviewId },
+      select: { id: true, userId: true, status: true },
+    })
+
+    if (!review || review.status !== REVIEW_CONFIG.STATUS.APPROVED) {
+      return reviewFailure('Review not found', 'NOT_FOUND')
+    }
+
+    if (review.userId === userId) {
+      return reviewFailure('You cannot vote on your own review', 'FORBIDDEN')
+    }
+
+    const existingVote = await tx.reviewVote.findUnique({
+      where: { reviewId_userId: { reviewId, userId } },
+    })
+
+    if (existingVote) {
+      await tx.reviewVote.delete({ where: { id: existingVote.id } })
+      const updated = await tx.review.update({
+        where: { id: reviewId },
+        data: { helpfulCount: { decrement: 1 } },
+        select: { helpfulCount: true },
+      })
+      return { success: true as const, helpful: false, helpfulCount: updated.helpfulCount }
+    }
+
+    await tx.reviewVote.create({ data: { reviewId, userId } })
+    const updated = await tx.review.update({
+      where: { id: reviewId },
+      data: { helpfulCount: { increment: 1 } },
+      select: { helpfulCount: true },
+    })
+    return { success: true as const, helpful: true, helpfulCount: updated.helpfulCount }
+  })
+}
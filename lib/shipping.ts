@@ -0,0 +1,429 @@
+/**
+ * Shipping Rate Engine
+ *
+ * Calculates shipping options for a cart and destination. Used by both
+ * checkout routes, the cart quote endpoint and the admin shipping page.
+ *
+ * Rules:
+ * - Zones match on country and (optionally) state. The highest-priority
+ *   active zone that matches the destination supplies the rates; when no
+ *   zone matches, SHIPPING_CONFIG.DEFAULT_RATES apply.
+ * - Each rate is a tier on either order subtotal (dollars) or total cart
+ *   weight (grams): min inclusive, max exclusive.
+ * - Products with an oversize surcharge add it per unit to every option.
+ * - Loyalty tier entitlements and free-shipping promo codes waive the base
+ *   rate for the speeds they cover (surcharges still apply).
+ * - Only the cheapest option per speed is offered.
+ *
+ * @module lib/shipping
+ */
+
+import type { Prisma } from '@prisma/client'
+import type Stripe from 'stripe'
+import { prisma } from '@/lib/prisma'
+import { getTierEntitlements, getUserLoyaltyTier, type LoyaltyTier } from '@/lib/loyalty'
+
+export const SHIPPING_CONFIG = {
+  SPEEDS: {
+    STANDARD: 'standard',
+    EXPRESS: 'express',
+  } as const,
+
+  BASES: {
+    SUBTOTAL: 'subtotal',
+    WEIGHT: 'weight',
+  } as const,
+
+  DEFAULT_COUNTRY: 'US',
+
+  // Countries checkout ships to (kept in sync with CheckoutSchema.country).
+  // Each session only collects addresses in the country it was quoted for
+  ALLOWED_COUNTRIES: ['US', 'CA'] as const,
+
+  // Stripe Checkout accepts at most 5 shipping options
+  MAX_OPTIONS: 5,
+
+  // Fallback rates used when no configured zone matches the destination
+  DEFAULT_RATES: [
+    {
+      id: 'default-free',
+      name: 'Free Shipping',
+      speed: 'standard',
+      basis: 'subtotal',
+      minThreshold: 75,
+      maxThreshold: null,
+      price: 0,
+      minDeliveryDays: 5,
+      maxDeliveryDays: 7,
+      sortOrder: 0,
+    },
+    {
+      id: 'default-standard',
+      name: 'Standard Shipping',
+      speed: 'standard',
+      basis: 'subtotal',
+      minThreshold: 0,
+      maxThreshold: null,
+      price: 5.99,
+      minDeliveryDays: 5,
+      maxDeliveryDays: 7,
+      sortOrder: 1,
+    },
+    {
+      id: 'default-express',
+      name: 'Express Shipping',
+      speed: 'express',
+      basis: 'subtotal',
+      minThreshold: 0,
+      maxThreshold: null,
+      price: 14.99,
+      minDeliveryDays: 2,
+      maxDeliveryDays: 3,
+      sortOrder: 2,
+    },
+  ] as ShippingRateRules[],
+}
+
+export type ShippingSpeed =
+  (typeof SHIPPING_CONFIG.SPEEDS)[keyof typeof SHIPPING_CONFIG.SPEEDS]
+export type ShippingBasis =
+  (typeof SHIPPING_CONFIG.BASES)[keyof typeof SHIPPING_CONFIG.BASES]
+
+/**
+ * Shipping rate tier in plain (non-Decimal) form.
+ */
+export interface ShippingRateRules {
+  id: string
+  name: string
+  speed: string
+  basis: string
+  minThreshold: number
+  maxThreshold: number | null
+  price: number
+  minDeliveryDays: number
+  maxDeliveryDays: number
+  sortOrder: number
+}
+
+/**
+ * Shipping zone with its active rates.
+ */
+export interface ShippingZoneRules {
+  id: string
+  name: string
+  countries: string[]
+  states: string[]
+  priority: number
+  rates: ShippingRateRules[]
+}
+
+/**
+ * Cart line used for shipping calculation.
+ */
+export interface ShippingCartLine {
+  price: number
+  quantity: number
+  weightGrams: number | null
+  oversizeSurcharge: number | null
+}
+
+export interface ShippingDestination {
+  country: string
+  state?: string | null
+}
+
+export interface ShippingOption {
+  id: string
+  name: string
+  speed: string
+  amount: number
+  baseAmount: number
+  surcharge: number
+  minDeliveryDays: number
+  maxDeliveryDays: number
+  waivedBy: 'loyalty_tier' | 'promo_code' | null
+}
+
+export interface ShippingQuote {
+  zoneId: string | null
+  zoneName: string | null
+  subtotal: number
+  totalWeightGrams: number
+  options: ShippingOption[]
+}
+
+function roundToCents(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100
+}
+
+function parseCodeList(value: string | null | undefined): string[] {
+  if (!value) {
+    return []
+  }
+
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed)
+      ? parsed.filter((entry): entry is string => typeof entry === 'string').map((entry) => entry.toUpperCase())
+      : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Serialize a list of country/state codes for storage (null when empty).
+ */
+export function serializeCodeList(values: string[] | null | undefined): string | null {
+  if (!values || values.length === 0) {
+    return null
+  }
+  return JSON.stringify(values.map((value) => value.trim().toUpperCase()))
+}
+
+/**
+ * Find the highest-priority zone that covers a destination.
+ * Zones with explicit states beat whole-country zones at equal priority.
+ */
+export function findZoneForDestination(
+  zones: ShippingZoneRules[],
+  destination: ShippingDestination
+): ShippingZoneRules | null {
+  const country = destination.country.toUpperCase()
+  const state = destination.state ? destination.state.toUpperCase() : null
+
+  const matches = zones.filter((zone) => {
+    if (!zone.countries.includes(country)) {
+      return false
+    }
+    if (zone.states.length === 0) {
+      return true
+    }
+    return state !== null && zone.states.includes(state)
+  })
+
+  if (matches.length === 0) {
+    return null
+  }
+
+  return [...matches].sort((a, b) => {
+    if (b.priority !== a.priority) {
+      return b.priority - a.priority
+    }
+    return b.states.length - a.states.length
+  })[0]
+}
+
+/**
+ * Check whether a rate tier applies to the given subtotal/weight.
+ */
+export function isRateApplicable(
+  rate: Pick<ShippingRateRules, 'basis' | 'minThreshold' | 'maxThreshold'>,
+  subtotal: number,
+  totalWeightGrams: number
+): boolean {
+  const measure = rate.basis === SHIPPING_CONFIG.BASES.WEIGHT ? totalWeightGrams : subtotal
+
+  if (measure < rate.minThreshold) {
+    return false
+  }
+
+  return rate.maxThreshold === null || measure < rate.maxThreshold
+}
+
+/**
+ * Calculate shipping options for a cart.
+ */
+export function calculateShippingOptions(params: {
+  zones: ShippingZoneRules[]
+  lines: ShippingCartLine[]
+  destination: ShippingDestination
+  loyaltyTier?: LoyaltyTier | null
+  promoFreeShipping?: boolean
+}): ShippingQuote {
+  const subtotal = roundToCents(
+    params.lines.reduce((sum, line) => sum + line.price * line.quantity, 0)
+  )
+  const totalWeightGrams = params.lines.reduce(
+    (sum, line) => sum + (line.weightGrams ?? 0) * line.quantity,
+    0
+  )
+  const surcharge = roundToCents(
+    params.lines.reduce((sum, line) => sum + (line.oversizeSurcharge ?? 0) * line.quantity, 0)
+  )
+
+  const zone = findZoneForDestination(params.zones, params.destination)
+  const rates = zone ? zone.rates : SHIPPING_CONFIG.DEFAULT_RATES
+
+  const tierBenefit = params.loyaltyTier
+    ? getTierEntitlements(params.loyaltyTier).freeShipping
+    : null
+  const tierWaivedSpeeds =
+    tierBenefit && subtotal >= tierBenefit.minSubtotal ? tierBenefit.speeds : []
+
+  const cheapestBySpeed = new Map<string, ShippingOption & { sortOrder: number }>()
+
+  for (const rate of rates) {
+    if (!isRateApplicable(rate, subtotal, totalWeightGrams)) {
+      continue
+    }
+
+    let waivedBy: ShippingOption['waivedBy'] = null
+    if (rate.price > 0) {
+      if ((tierWaivedSpeeds as readonly string[]).includes(rate.speed)) {
+        waivedBy = 'loyalty_tier'
+      } else if (params.promoFreeShipping && rate.speed === SHIPPING_CONFIG.SPEEDS.STANDARD) {
+        waivedBy = 'promo_code'
+      }
+    }
+
+    const baseAmount = waivedBy ? 0 : rate.price
+    const option = {
+      id: rate.id,
+      name: waivedBy ? `Free ${rate.name}` : rate.name,
+      speed: rate.speed,
+      amount: roundToCents(baseAmount + surcharge),
+      baseAmount,
+      surcharge,
+      minDeliveryDays: rate.minDeliveryDays,
+      maxDeliveryDays: rate.maxDeliveryDays,
+      waivedBy,
+      sortOrder: rate.sortOrder,
+    }
+
+    const existing = cheapestBySpeed.get(rate.speed)
+    if (
+      !existing ||
+      option.amount < existing.amount ||
+      (option.amount === existing.amount && option.sortOrder < existing.sortOrder)
+    ) {
+      cheapestBySpeed.set(rate.speed, option)
+    }
+  }
+
+  const options = Array.from(cheapestBySpeed.values())
+    .sort((a, b) => a.amount - b.amount || a.sortOrder - b.sortOrder)
+    .slice(0, SHIPPING_CONFIG.MAX_OPTIONS)
+    .map(({ sortOrder: _sortOrder, ...option }) => option)
+
+  return {
+    zoneId: zone?.id ?? null,
+    zoneName: zone?.name ?? null,
+    subtotal,
+    totalWeightGrams,
+    options,
+  }
+}
+
+/**
+ * Load active shipping zones and their active rates.
+ */
+export async function getActiveShippingZones(): Promise<ShippingZoneRules[]> {
+  const zones = await prisma.shippingZone.findMany({
+    where: { isActive: true },
+    include: {
+      rates: {
+        where: { isActive: true },
+        orderBy: { sortOrder: 'asc' },
+      },
+    },
+  })
+
+  return zones.map((zone) => ({
+    id: zone.id,
+    name: zone.name,
+    countries: parseCodeList(zone.countries),
+    states: parseCodeList(zone.states),
+    priority: zone.priority,
+    rates: zone.rates.map((rate) => ({
+      id: rate.id,
+      name: rate.name,
+      speed: rate.speed,
+      basis: rate.basis,
+      minThreshold: Number(rate.minThreshold),
+      maxThreshold: rate.maxThreshold !== null ? Number(rate.maxThreshold) : null,
+      price: Number(rate.price),
+      minDeliveryDays: rate.minDeliveryDays,
+      maxDeliveryDays: rate.maxDeliveryDays,
+      sortOrder: rate.sortOrder,
+    })),
+  }))
+}
+
+/**
+ * Quote shipping for a cart using the configured zones and the user's tier.
+ */
+export async function getShippingQuote(params: {
+  userId?: string | null
+  lines: ShippingCartLine[]
+  destination: ShippingDestination
+  promoFreeShipping?: boolean
+}): Promise<ShippingQuote> {
+  const [zones, loyaltyTier] = await Promise.all([
+    getActiveShippingZones(),
+    getUserLoyaltyTier(params.userId),
+  ])
+
+  return calculateShippingOptions({
+    zones,
+    lines: params.lines,
+    destination: params.destination,
+    loyaltyTier,
+    promoFreeShipping: params.promoFreeShipping,
+  })
+}
+
+/**
+ * Convert shipping options to Stripe Checkout shipping_options.
+ */
+export function toStripeShippingOptions(
+  options: ShippingOption[]
+): Stripe.Checkout.SessionCreateParams.ShippingOption[] {
+  return options.map((option) => ({
+    shipping_rate_data: {
+      type: 'fixed_amount' as const,
+      fixed_amount: { amount: Math.round(option.amount * 100), currency: 'usd' },
+      display_name: option.name,
+      delivery_estimate: {
+        minimum: { unit: 'business_day' as const, value: option.minDeliveryDays },
+        maximum: { unit: 'business_day' as const, value: option.maxDeliveryDays },
+      },
+      metadata: {
+        shippingRateId: option.id,
+      },
+    },
+  }))
+}
+
+type ShippingZoneWithRates = Prisma.ShippingZoneGetPayload<{ include: { rates: true } }>
+
+/**
+ * Format a shipping zone record (with all rates) for admin API responses.
+ */
+export function formatShippingZone(zone: ShippingZoneWithRates) {
+  return {
+    id: zone.id,
+    name: zone.name,
+    countries: parseCodeList(zone.countries),
+    states: parseCodeList(zone.states),
+    priority: zone.priority,
+    isActive: zone.isActive,
+    rates: [...zone.rates]
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map((rate) => ({
+        id: rate.id,
+        name: rate.name,
+        speed: rate.speed,
+        basis: rate.basis,
+        minThreshold: Number(rate.minThreshold),
+        maxThreshold: rate.maxThreshold !== null ? Number(rate.maxThreshold) : null,
+        price: Number(rate.price),
+        minDeliveryDays: rate.minDeliveryDays,
+        maxDeliveryDays: rate.maxDeliveryDays,
+        sortOrder: rate.sortOrder,
+        isActive: rate.isActive,
+      })),
+    createdAt: zone.createdAt,
+    updatedAt: zone.updatedAt,
+  }
+}
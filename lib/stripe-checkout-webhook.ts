@@ -0,0 +1,467 @@
+/**
+ * Checkout Webhook Handling
+ *
+ * Processes verified events from the Stripe checkout webhook
+ * (/api/webhook): finalizes paid orders, auto-refunds orders whose stock ran
+ * out, and fails expired checkouts. Shared by the route and webhook replay
+ * (lib/stripe-webhook-events), so handling must stay safe to repeat.
+ *
+ * @module lib/stripe-checkout-webhook
+ */
+
+import Stripe from "stripe";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { logger } from "@/lib/logger";
+import { finalizePointsRedemption, reversePointsHold } from "@/lib/loyalty";
+import { enqueueJobs, jobKey, type JobRequest } from "@/lib/jobs";
+import { getStripe } from "@/lib/stripe-server";
+import { finalizeGiftCardHold, reverseGiftCardHold } from "@/lib/gift-cards";
+import { finalizePromoCodeRedemption, reversePromoCodeHold } from "@/lib/promo-codes";
+import { convertOrderReservations, releaseOrderReservations } from "@/lib/inventory-reservations";
+import { markBundleSelectionsPurchased } from "@/lib/bundle-cart";
+import { decrementImperfectBatchStock } from "@/lib/imperfect-batches";
+
+type OrderWithItems = Prisma.OrderGetPayload<{
+  include: { items: true };
+}>;
+
+/**
+ * Decrements inventory for paid order items (variant or product level, or
+ * the imperfect batch they were bought from).
+ * Uses guarded updates to avoid negative inventory in race conditions.
+ */
+async function decrementInventoryFromOrderItems(
+  tx: Prisma.TransactionClient,
+  orderItems: OrderWithItems["items"]
+) {
+  for (const item of orderItems) {
+    if (item.imperfectBatchId) {
+      await decrementImperfectBatchStock(tx, item.imperfectBatchId, item.quantity);
+    } else if (item.variantId) {
+      const result = await tx.productVariant.updateMany({
+        where: {
+          id: item.variantId,
+          inventory: { gte: item.quantity },
+        },
+        data: {
+          inventory: {
+            decrement: item.quantity,
+          },
+        },
+      });
+
+      if (result.count === 0) {
+        throw new Error(`Insufficient variant inventory for ${item.variantId}`);
+      }
+    } else {
+      const result = await tx.product.updateMany({
+        where: {
+          id: item.productId,
+          inventory: { gte: item.quantity },
+        },
+        data: {
+          inventory: {
+            decrement: item.quantity,
+          },
+        },
+      });
+
+      if (result.count === 0) {
+        throw new Error(`Insufficient product inventory for ${item.productId}`);
+      }
+    }
+  }
+}
+
+/**
+ * Remove purchased quantities from mutable cart state while preserving newer additions.
+ * Items bought in a bundle come off that bundle's lines.
+ */
+async function reconcileUserCartWithOrderItems(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  orderItems: OrderWithItems["items"]
+) {
+  for (const item of orderItems) {
+    const cartItem = await tx.cartItem.findFirst({
+      where: {
+        userId,
+        productId: item.productId,
+        variantId: item.variantId ?? null,
+        bundleSelectionId: item.bundleSelectionId ?? null,
+        imperfectBatchId: item.imperfectBatchId ?? null,
+      },
+    });
+
+    if (!cartItem) {
+      continue;
+    }
+
+    if (cartItem.quantity <= item.quantity) {
+      await tx.cartItem.delete({
+        where: { id: cartItem.id },
+      });
+      continue;
+    }
+
+    await tx.cartItem.update({
+      where: { id: cartItem.id },
+      data: {
+        quantity: {
+          decrement: item.quantity,
+        },
+      },
+    });
+  }
+}
+
+/**
+ * Follow-up work for a paid order. Loyalty, impact and referrals only apply
+ * to signed-in customers, not guest sessions; a carbon offset added at
+ * checkout is bought for guests too.
+ */
+function getPaidOrderJobs(
+  order: Pick<OrderWithItems, "id" | "userId" | "carbonOffsetKg">
+): JobRequest[] {
+  const jobs: JobRequest[] = [
+    {
+      type: "order.confirmationEmail",
+      payload: { orderId: order.id },
+      idempotencyKey: jobKey("order.confirmationEmail", order.id),
+    },
+  ];
+
+  if (order.carbonOffsetKg) {
+    jobs.push({
+      type: "carbonOffset.purchase",
+      payload: { orderId: order.id },
+      idempotencyKey: jobKey("carbonOffset.purchase", order.id),
+    });
+  }
+
+  if (order.userId && !order.userId.startsWith('guest_')) {
+    jobs.push(
+      {
+        type: "loyalty.purchasePoints",
+        payload: { orderId: order.id },
+        idempotencyKey: jobKey("loyalty.purchasePoints", order.id),
+      },
+      {
+        type: "impact.storeOrder",
+        payload: { orderId: order.id },
+        idempotencyKey: jobKey("impact.storeOrder", order.id),
+      },
+      {
+        type: "referral.complete",
+        payload: { orderId: order.id },
+        idempotencyKey: jobKey("referral.complete", order.id),
+      }
+    );
+  }
+
+  return jobs;
+}
+
+/**
+ * Finalize a pending snapshot order after successful Stripe payment.
+ * The checkout's inventory holds are converted alongside the decrement, and
+ * the order's follow-up jobs are enqueued in the same transaction so a paid
+ * order never misses its email, points or impact. Bundles bought in the
+ * order are marked purchased.
+ */
+async function finalizePendingOrderFromCheckout(
+  session: Stripe.Checkout.Session,
+  pendingOrder: OrderWithItems
+) {
+  return prisma.$transaction(async (tx) => {
+    await decrementInventoryFromOrderItems(tx, pendingOrder.items);
+    await convertOrderReservations(tx, pendingOrder.id);
+    await reconcileUserCartWithOrderItems(tx, pendingOrder.userId, pendingOrder.items);
+    await markBundleSelectionsPurchased(tx, pendingOrder.items);
+    await enqueueJobs(getPaidOrderJobs(pendingOrder), tx);
+
+    return tx.order.update({
+      where: { id: pendingOrder.id },
+      data: {
+        amount: (session.amount_total || 0) / 100,
+        shippingAmount: session.shipping_cost ? session.shipping_cost.amount_total / 100 : null,
+        status: "paid",
+        customerEmail: session.customer_details?.email || pendingOrder.customerEmail,
+        customerName: session.customer_details?.name || pendingOrder.customerName,
+      },
+      include: {
+        items: true,
+      },
+    });
+  });
+}
+
+async function deleteStripeCouponIfPresent(couponId: string | null | undefined) {
+  if (!couponId) {
+    return;
+  }
+
+  try {
+    await getStripe().coupons.del(couponId);
+  } catch (error) {
+    const stripeError = error as { code?: string; type?: string; message?: string };
+    // Idempotent cleanup: missing coupon is fine.
+    if (stripeError.code === 'resource_missing' || stripeError.type === 'invalid_request_error') {
+      logger.info('Stripe coupon already deleted', { couponId });
+      return;
+    }
+    throw error;
+  }
+}
+
+async function finalizeCheckoutDiscountHolds(
+  order: OrderWithItems,
+  session: Stripe.Checkout.Session
+) {
+  const giftCardHoldTransactionId = session.metadata?.giftCardHoldTransactionId;
+
+  if (order.promoRedemptionId) {
+    await finalizePromoCodeRedemption(order.promoRedemptionId, order.id);
+  }
+
+  if (order.loyaltyRedemptionId) {
+    await finalizePointsRedemption(order.loyaltyRedemptionId, order.id);
+  }
+
+  if (order.giftCardId && giftCardHoldTransactionId) {
+    await finalizeGiftCardHold(giftCardHoldTransactionId, order.id);
+  }
+
+  await deleteStripeCouponIfPresent(order.stripeCouponId);
+}
+
+async function reverseCheckoutDiscountHolds(
+  order: Pick<OrderWithItems, "id" | "promoRedemptionId" | "loyaltyRedemptionId" | "giftCardId" | "giftCardAmountUsed" | "stripeCouponId">,
+  session: Stripe.Checkout.Session
+) {
+  if (order.promoRedemptionId) {
+    await reversePromoCodeHold(order.promoRedemptionId);
+  }
+
+  if (order.loyaltyRedemptionId) {
+    await reversePointsHold(order.loyaltyRedemptionId);
+  }
+
+  const giftCardHoldTransactionId = session.metadata?.giftCardHoldTransactionId;
+  if (
+    order.giftCardId &&
+    order.giftCardAmountUsed &&
+    giftCardHoldTransactionId
+  ) {
+    await reverseGiftCardHold(
+      giftCardHoldTransactionId,
+      order.giftCardId,
+      Number(order.giftCardAmountUsed)
+    );
+  }
+
+  await deleteStripeCouponIfPresent(order.stripeCouponId);
+}
+
+/**
+ * Handles auto-refund when inventory is exhausted between checkout and payment.
+ * Checkout holds stock for the session, so this only happens when stock is
+ * cut by hand while a hold is open or payment lands after the hold expired.
+ * Issues a full Stripe refund, updates the order status, and notifies the customer.
+ */
+async function handleOutOfStockAutoRefund(
+  session: Stripe.Checkout.Session,
+  pendingOrder: OrderWithItems,
+  reason: string
+) {
+  const paymentIntentId = session.payment_intent as string;
+
+  if (paymentIntentId) {
+    try {
+      await getStripe().refunds.create({ payment_intent: paymentIntentId });
+    } catch (refundError) {
+      logger.error('Failed to auto-refund out-of-stock order', refundError, {
+        orderId: pendingOrder.id,
+        paymentIntentId,
+      });
+      throw refundError;
+    }
+  }
+
+  await prisma.order.update({
+    where: { id: pendingOrder.id },
+    data: {
+      status: 'refunded',
+      refundReason: `out_of_stock: ${reason}`,
+      refundedAt: new Date(),
+      refundAmount: (session.amount_total || Math.round(Number(pendingOrder.amount) * 100)) / 100,
+    },
+  });
+
+  // Best-effort cleanup for checkout inventory and discount holds.
+  try {
+    await releaseOrderReservations(pendingOrder.id);
+  } catch (reservationError) {
+    logger.error('Failed to release inventory reservations for out-of-stock refund', reservationError, {
+      orderId: pendingOrder.id,
+      sessionId: session.id,
+    });
+  }
+
+  try {
+    await reverseCheckoutDiscountHolds(
+      {
+        id: pendingOrder.id,
+        promoRedemptionId: pendingOrder.promoRedemptionId,
+        loyaltyRedemptionId: pendingOrder.loyaltyRedemptionId,
+        giftCardId: pendingOrder.giftCardId,
+        giftCardAmountUsed: pendingOrder.giftCardAmountUsed,
+        stripeCouponId: pendingOrder.stripeCouponId,
+      },
+      session
+    );
+  } catch (holdError) {
+    logger.error('Failed to reverse discount holds for out-of-stock refund', holdError, {
+      orderId: pendingOrder.id,
+      sessionId: session.id,
+    });
+  }
+
+  logger.warn('Order auto-refunded due to inventory exhaustion', {
+    orderId: pendingOrder.id,
+    sessionId: session.id,
+    reason,
+  });
+
+  await enqueueJobs([
+    {
+      type: "order.outOfStockEmail",
+      payload: { orderId: pendingOrder.id },
+      idempotencyKey: jobKey("order.outOfStockEmail", pendingOrder.id),
+    },
+  ]);
+}
+
+/**
+ * Handles one verified checkout webhook event. Throws on failures Stripe
+ * should retry.
+ */
+export async function handleCheckoutWebhookEvent(event: Stripe.Event): Promise<void> {
+  const session = event.data.object as Stripe.Checkout.Session;
+  const userId = session?.metadata?.userId;
+
+  if (event.type === "checkout.session.completed") {
+    logger.info('Processing checkout.session.completed', {
+      sessionId: session.id,
+      userId,
+    });
+
+    // Find pending order snapshot created at checkout session creation.
+    const pendingOrder = await prisma.order.findUnique({
+      where: { stripeSessionId: session.id },
+      include: {
+        items: true,
+      },
+    });
+
+    if (!pendingOrder) {
+      logger.error("Pending checkout snapshot order not found", {
+        sessionId: session.id,
+        userId,
+      });
+      throw new Error(`Missing pending order snapshot for session ${session.id}`);
+    }
+
+    // IDEMPOTENCY CHECK: Prevent duplicate fulfillment if webhook is retried.
+    if (pendingOrder.status === "paid") {
+      logger.info("Order already finalized, skipping", {
+        orderId: pendingOrder.id,
+        sessionId: session.id,
+      });
+      return;
+    }
+
+    if (pendingOrder.items.length === 0) {
+      logger.error("Pending order has no items", {
+        orderId: pendingOrder.id,
+        sessionId: session.id,
+      });
+      throw new Error(`Pending order ${pendingOrder.id} has no items`);
+    }
+
+    // Finalize pending order and apply inventory/cart updates atomically.
+    let order: OrderWithItems;
+    try {
+      order = await finalizePendingOrderFromCheckout(session, pendingOrder);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Insufficient')) {
+        await handleOutOfStockAutoRefund(session, pendingOrder, error.message);
+        return;
+      }
+      throw error;
+    }
+
+    logger.info('Order created from webhook', {
+      orderId: order.id,
+      userId: order.userId,
+      sessionId: session.id,
+      amount: order.amount,
+      itemCount: order.items.length,
+      inventoryUpdated: true,
+      isGift: order.isGift,
+    });
+
+    // Finalize discount holds created during checkout.
+    await finalizeCheckoutDiscountHolds(order, session);
+  } else if (event.type === "checkout.session.expired") {
+    logger.info('Processing checkout.session.expired', {
+      sessionId: session.id,
+      userId,
+    });
+
+    // Find pending order by stripeSessionId and mark as failed
+    const pendingOrder = await prisma.order.findUnique({
+      where: { stripeSessionId: session.id },
+      select: {
+        id: true,
+        status: true,
+        userId: true,
+        stripeCouponId: true,
+        promoRedemptionId: true,
+        loyaltyRedemptionId: true,
+        giftCardId: true,
+        giftCardAmountUsed: true,
+        customerEmail: true,
+        customerName: true,
+      },
+    });
+
+    if (pendingOrder && pendingOrder.status === "pending") {
+      await prisma.order.update({
+        where: { id: pendingOrder.id },
+        data: { status: "failed" },
+      });
+
+      await releaseOrderReservations(pendingOrder.id);
+
+      await reverseCheckoutDiscountHolds(
+        {
+          id: pendingOrder.id,
+          promoRedemptionId: pendingOrder.promoRedemptionId,
+          loyaltyRedemptionId: pendingOrder.loyaltyRedemptionId,
+          giftCardId: pendingOrder.giftCardId,
+          giftCardAmountUsed: pendingOrder.giftCardAmountUsed,
+          stripeCouponId: pendingOrder.stripeCouponId,
+        },
+        session
+      );
+
+      logger.info('Expired checkout order marked as failed', {
+        orderId: pendingOrder.id,
+        sessionId: session.id,
+        userId: pendingOrder.userId,
+      });
+    }
+  }
+}
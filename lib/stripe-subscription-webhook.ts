@@ -0,0 +1,326 @@
+/**
+ * Subscription Webhook Handling
+ *
+ * Processes verified events from the Stripe subscription webhook
+ * (/api/subscriptions/webhook): activates subscriptions after checkout,
+ * creates an order for each paid invoice, starts dunning on payment
+ * failures, and tracks pauses and cancellations. Shared by the route and webhook replay
+ * (lib/stripe-webhook-events), so handling must stay safe to repeat.
+ *
+ * @module lib/stripe-subscription-webhook
+ */
+
+import Stripe from 'stripe';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { enqueueJobs, jobKey } from '@/lib/jobs';
+import { getStripe } from '@/lib/stripe-server';
+import { recordFailedPayment } from '@/lib/subscription-dunning';
+import {
+  createOrderFromSubscriptionInvoice,
+  type SubscriptionInvoiceContext,
+} from '@/lib/stripe-subscription';
+
+function resolveSubscriptionId(
+  value: string | { id: string } | null | undefined
+): string | null {
+  if (!value) {
+    return null;
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  return value.id;
+}
+
+async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session) {
+  if (session.mode !== 'subscription') {
+    return;
+  }
+
+  const localSubscriptionId = session.metadata?.subscriptionId;
+  const stripeSubscriptionId = resolveSubscriptionId(session.subscription);
+
+  if (!localSubscriptionId || !stripeSubscriptionId) {
+    logger.warn('Subscription checkout session missing identifiers', {
+      sessionId: session.id,
+      localSubscriptionId,
+      stripeSubscriptionId,
+    });
+    return;
+  }
+
+  const stripeSubscription = await getStripe().subscriptions.retrieve(
+    stripeSubscriptionId,
+    {
+      expand: ['items.data.price'],
+    }
+  );
+
+  await prisma.$transaction(async (tx) => {
+    const existingSubscription = await tx.subscription.findUnique({
+      where: { id: localSubscriptionId },
+      select: { id: true },
+    });
+
+    if (!existingSubscription) {
+      logger.warn('Local subscription not found during checkout completion', {
+        localSubscriptionId,
+        stripeSubscriptionId,
+      });
+      return;
+    }
+
+    const subscriptionUpdateData: {
+      status: string;
+      stripeSubscriptionId: string;
+      stripeStatus: string;
+      paymentFailedCount: number;
+      paymentFailedAt: null;
+      nextDeliveryDate?: Date;
+    } = {
+      status: stripeSubscription.pause_collection ? 'PAUSED' : 'ACTIVE',
+      stripeSubscriptionId,
+      stripeStatus: stripeSubscription.status,
+      paymentFailedCount: 0,
+      paymentFailedAt: null,
+    };
+
+    if (stripeSubscription.current_period_end) {
+      subscriptionUpdateData.nextDeliveryDate = new Date(
+        stripeSubscription.current_period_end * 1000
+      );
+    }
+
+    await tx.subscription.update({
+      where: { id: localSubscriptionId },
+      data: subscriptionUpdateData,
+    });
+
+    for (const stripeItem of stripeSubscription.items.data) {
+      const stripePrice = stripeItem.price as Stripe.Price;
+      const subscriptionItemId = stripePrice.metadata?.subscriptionItemId;
+
+      if (!subscriptionItemId) {
+        continue;
+      }
+
+      await tx.subscriptionItem.updateMany({
+        where: {
+          id: subscriptionItemId,
+          subscriptionId: localSubscriptionId,
+        },
+        data: {
+          stripePriceId: stripePrice.id,
+        },
+      });
+    }
+  });
+
+  logger.info('Subscription checkout completed', {
+    sessionId: session.id,
+    localSubscriptionId,
+    stripeSubscriptionId,
+  });
+}
+
+async function handleInvoicePaid(invoice: Stripe.Invoice) {
+  if (!invoice.id) {
+    logger.warn('invoice.paid missing invoice id');
+    return;
+  }
+
+  const stripeSubscriptionId = resolveSubscriptionId(invoice.subscription);
+  if (!stripeSubscriptionId) {
+    return;
+  }
+
+  const subscription = await prisma.subscription.findUnique({
+    where: {
+      stripeSubscriptionId,
+    },
+    include: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+        },
+      },
+      items: {
+        include: {
+          product: true,
+          variant: true,
+        },
+      },
+    },
+  });
+
+  if (!subscription) {
+    logger.warn('No local subscription found for invoice.paid', {
+      stripeSubscriptionId,
+      invoiceId: invoice.id,
+    });
+    return;
+  }
+
+  const { order, created } = await createOrderFromSubscriptionInvoice(
+    subscription as SubscriptionInvoiceContext,
+    invoice
+  );
+
+  // Enqueued on duplicate deliveries too: the idempotency keys make this a
+  // no-op once the jobs exist, and recover them if an earlier delivery
+  // failed after creating the order.
+  await enqueueJobs([
+    {
+      type: 'order.confirmationEmail',
+      payload: { orderId: order.id },
+      idempotencyKey: jobKey('order.confirmationEmail', order.id),
+    },
+    {
+      type: 'loyalty.purchasePoints',
+      payload: { orderId: order.id },
+      idempotencyKey: jobKey('loyalty.purchasePoints', order.id),
+    },
+  ]);
+
+  if (!created) {
+    logger.info('Skipping duplicate invoice.paid processing', {
+      invoiceId: invoice.id,
+      stripeSubscriptionId,
+      orderId: order.id,
+    });
+    return;
+  }
+
+  logger.info('Subscription invoice processed', {
+    invoiceId: invoice.id,
+    orderId: order.id,
+    subscriptionId: subscription.id,
+  });
+}
+
+async function handleInvoicePaymentFailed(invoice: Stripe.Invoice) {
+  const stripeSubscriptionId = resolveSubscriptionId(invoice.subscription);
+  if (!stripeSubscriptionId) {
+    return;
+  }
+
+  await recordFailedPayment(stripeSubscriptionId, invoice.id);
+}
+
+async function handleCustomerSubscriptionDeleted(
+  deletedSubscription: { id: string }
+) {
+  const result = await prisma.subscription.updateMany({
+    where: {
+      stripeSubscriptionId: deletedSubscription.id,
+    },
+    data: {
+      status: 'CANCELLED',
+      cancelledAt: new Date(),
+      stripeStatus: 'canceled',
+    },
+  });
+
+  if (result.count === 0) {
+    logger.warn('No local subscription found for customer.subscription.deleted', {
+      stripeSubscriptionId: deletedSubscription.id,
+    });
+  }
+}
+
+async function handleCustomerSubscriptionUpdated(
+  updatedSubscription: Stripe.Subscription
+) {
+  // past_due leaves the status to the dunning run (lib/subscription-dunning),
+  // which keeps the subscription ACTIVE through its grace period
+  if (updatedSubscription.status === 'past_due' && !updatedSubscription.pause_collection) {
+    await prisma.subscription.updateMany({
+      where: {
+        stripeSubscriptionId: updatedSubscription.id,
+      },
+      data: {
+        stripeStatus: updatedSubscription.status,
+      },
+    });
+    return;
+  }
+
+  const nextStatus = updatedSubscription.pause_collection
+    ? 'PAUSED'
+    : updatedSubscription.status === 'canceled'
+      ? 'CANCELLED'
+      : 'ACTIVE';
+
+  const updateData: {
+    status: string;
+    stripeStatus: string;
+    nextDeliveryDate?: Date;
+    cancelledAt?: Date;
+    pausedAt?: Date | null;
+  } = {
+    status: nextStatus,
+    stripeStatus: updatedSubscription.status,
+  };
+
+  if (updatedSubscription.current_period_end) {
+    updateData.nextDeliveryDate = new Date(
+      updatedSubscription.current_period_end * 1000
+    );
+  }
+
+  if (nextStatus === 'PAUSED') {
+    updateData.pausedAt = new Date();
+  } else if (nextStatus === 'ACTIVE') {
+    updateData.pausedAt = null;
+  } else if (nextStatus === 'CANCELLED') {
+    updateData.cancelledAt = new Date();
+  }
+
+  await prisma.subscription.updateMany({
+    where: {
+      stripeSubscriptionId: updatedSubscription.id,
+    },
+    data: updateData,
+  });
+}
+
+/**
+ * Handles one verified subscription webhook event. Throws on failures
+ * Stripe should retry.
+ */
+export async function handleSubscriptionWebhookEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      await handleCheckoutSessionCompleted(
+        event.data.object as Stripe.Checkout.Session
+      );
+      break;
+    case 'invoice.paid':
+      await handleInvoicePaid(event.data.object as Stripe.Invoice);
+      break;
+    case 'invoice.payment_failed':
+      await handleInvoicePaymentFailed(event.data.object as Stripe.Invoice);
+      break;
+    case 'customer.subscription.deleted':
+      await handleCustomerSubscriptionDeleted(
+        event.data.object as { id: string }
+      );
+      break;
+    case 'customer.subscription.updated':
+      await handleCustomerSubscriptionUpdated(
+        event.data.object as Stripe.Subscription
+      );
+      break;
+    default:
+      logger.info('Ignoring unhandled subscription webhook event', {
+        type: event.type,
+        eventId: event.id,
+      });
+      break;
+  }
+}
@@ -115,6 +115,67 @@ export async function archiveStripePrices(priceIds: string[]): Promise<void> {
   }
 }
 
+/**
+ * Creates the recurring Stripe price for one subscription item. The item's
+ * ID is stored in the price metadata so the Stripe subscription item can be
+ * matched back to it (see getStripeSubscriptionItemIds).
+ */
+export async function createSubscriptionItemPrice(input: {
+  userId: string;
+  subscriptionId: string;
+  subscriptionItemId: string;
+  frequency: SubscriptionFrequency;
+  title: string;
+  unitPrice: number;
+}): Promise<Stripe.Price> {
+  const recurring = FREQUENCY_TO_STRIPE_INTERVAL[input.frequency];
+  if (!recurring) {
+    throw new Error(`Unsupported subscription frequency: ${input.frequency}`);
+  }
+
+  const metadata = {
+    userId: input.userId,
+    subscriptionId: input.subscriptionId,
+    subscriptionItemId: input.subscriptionItemId,
+  };
+
+  return getStripe().prices.create({
+    currency: "usd",
+    unit_amount: Math.round(Math.max(0.01, input.unitPrice) * 100),
+    recurring: {
+      interval: recurring.interval,
+      interval_count: recurring.intervalCount,
+    },
+    product_data: {
+      name: input.title,
+      metadata,
+    },
+    metadata,
+  });
+}
+
+/**
+ * Maps local subscription item IDs to the IDs of their Stripe subscription
+ * items, using the subscriptionItemId stored on each price.
+ */
+export async function getStripeSubscriptionItemIds(
+  stripeSubscriptionId: string
+): Promise<Map<string, string>> {
+  const stripeSubscription = await getStripe().subscriptions.retrieve(stripeSubscriptionId, {
+    expand: ["items.data.price"],
+  });
+
+  const stripeItemIds = new Map<string, string>();
+  for (const stripeItem of stripeSubscription.items.data) {
+    const subscriptionItemId = (stripeItem.price as Stripe.Price).metadata?.subscriptionItemId;
+    if (subscriptionItemId) {
+      stripeItemIds.set(subscriptionItemId, stripeItem.id);
+    }
+  }
+
+  return stripeItemIds;
+}
+
 export async function createSubscriptionCheckout(
   userId: string,
   subscriptionId: string,
@@ -337,6 +398,9 @@ export async function createOrderFromSubscriptionInvoice(
           stripeStatus: "active",
           paymentFailedCount: 0,
           paymentFailedAt: null,
+          dunningStartedAt: null,
+          dunningInvoiceId: null,
+          dunningAttempts: 0,
           lastDeliveryDate: new Date(),
           nextDeliveryDate: calculateNextDeliveryDate(
             subscription.frequency as SubscriptionFrequency
@@ -0,0 +1,240 @@
+/**
+ * Stripe Webhook Event Store
+ *
+ * Both Stripe webhook routes record every verified event before handling
+ * it, along with the outcome of each processing attempt:
+ *
+ * - RECEIVED: stored, not yet processed (or processing right now).
+ * - PROCESSED: handled successfully. Redeliveries of the event are
+ *   acknowledged without running the handler again.
+ * - FAILED: the handler threw. Stripe retries the delivery, and an admin can
+ *   replay it from /admin/webhooks or `npm run webhooks:events`.
+ *
+ * Replay runs the stored payload through the same handler as the route, so
+ * handlers must be safe to repeat.
+ *
+ * @module lib/stripe-webhook-events
+ */
+
+import type Stripe from 'stripe'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { handleCheckoutWebhookEvent } from '@/lib/stripe-checkout-webhook'
+import { handleSubscriptionWebhookEvent } from '@/lib/stripe-subscription-webhook'
+
+export const WEBHOOK_EVENT_CONFIG = {
+  STATUS: {
+    RECEIVED: 'RECEIVED',
+    PROCESSED: 'PROCESSED',
+    FAILED: 'FAILED',
+  } as const,
+
+  ENDPOINTS: ['checkout', 'subscriptions'] as const,
+
+  MAX_ERROR_LENGTH: 2000,
+} as const
+
+export type WebhookEventStatus =
+  (typeof WEBHOOK_EVENT_CONFIG.STATUS)[keyof typeof WEBHOOK_EVENT_CONFIG.STATUS]
+export type WebhookEndpoint = (typeof WEBHOOK_EVENT_CONFIG.ENDPOINTS)[number]
+
+export interface WebhookReplayFailure {
+  success: false
+  error: string
+  code: 'NOT_FOUND' | 'PROCESSING_FAILED'
+}
+
+const WEBHOOK_HANDLERS: Record<WebhookEndpoint, (event: Stripe.Event) => Promise<void>> = {
+  checkout: handleCheckoutWebhookEvent,
+  subscriptions: handleSubscriptionWebhookEvent,
+}
+
+export function isWebhookEndpoint(value: string): value is WebhookEndpoint {
+  return (WEBHOOK_EVENT_CONFIG.ENDPOINTS as readonly string[]).includes(value)
+}
+
+/**
+ * Runs the handler for a stored event and records the attempt. Rethrows the
+ * handler's error after recording it.
+ */
+async function processStoredEvent(
+  storedId: string,
+  endpoint: WebhookEndpoint,
+  event: Stripe.Event
+): Promise<void> {
+  const startedAt = Date.now()
+
+  try {
+    await WEBHOOK_HANDLERS[endpoint](event)
+  } catch (error) {
+    const message = (error instanceof Error ? error.message : String(error)).slice(
+      0,
+      WEBHOOK_EVENT_CONFIG.MAX_ERROR_LENGTH
+    )
+
+    await prisma.stripeWebhookEvent.update({
+      where: { id: storedId },
+      data: {
+        status: WEBHOOK_EVENT_CONFIG.STATUS.FAILED,
+        attempts: { increment: 1 },
+        lastError: message,
+        processingMs: Date.now() - startedAt,
+      },
+    })
+
+    throw error
+  }
+
+  await prisma.stripeWebhookEvent.update({
+    where: { id: storedId },
+    data: {
+      status: WEBHOOK_EVENT_CONFIG.STATUS.PROCESSED,
+      attempts: { increment: 1 },
+      lastError: null,
+      processingMs: Date.now() - startedAt,
+      processedAt: new Date(),
+    },
+  })
+}
+
+/**
+ * Stores a verified event and processes it unless an earlier delivery
+ * already did. Throws when processing fails so the route can ask Stripe to
+ * retry.
+ */
+export async function receiveWebhookEvent(
+  endpoint: WebhookEndpoint,
+  event: Stripe.Event
+): Promise<{ duplicate: boolean }> {
+  const stored = await prisma.stripeWebhookEvent.upsert({
+    where: { eventId_endpoint: { eventId: event.id, endpoint } },
+    create: {
+      eventId: event.id,
+      endpoint,
+      type: event.type,
+      payload: JSON.stringify(event),
+    },
+    update: {},
+    select: { id: true, status: true },
+  })
+
+  if (stored.status === WEBHOOK_EVENT_CONFIG.STATUS.PROCESSED) {
+    logger.info('Webhook event already processed, skipping', {
+      eventId: event.id,
+      endpoint,
+      type: event.type,
+    })
+    return { duplicate: true }
+  }
+
+  await processStoredEvent(stored.id, endpoint, event)
+
+  return { duplicate: false }
+}
+
+/**
+ * Processes a stored event again through its endpoint's handler, whatever
+ * its current status.
+ */
+export async function replayWebhookEvent(
+  id: string
+): Promise<
+  | { success: true; previousStatus: WebhookEventStatus; status: WebhookEventStatus }
+  | WebhookReplayFailure
+> {
+  const stored = await prisma.stripeWebhookEvent.findUnique({
+    where: { id },
+    select: { id: true, eventId: true, endpoint: true, status: true, payload: true },
+  })
+
+  if (!stored || !isWebhookEndpoint(stored.endpoint)) {
+    return { success: false, error: 'Webhook event not found', code: 'NOT_FOUND' }
+  }
+
+  try {
+    await processStoredEvent(stored.id, stored.endpoint, JSON.parse(stored.payload))
+  } catch (error) {
+    logger.error('Webhook event replay failed', error, {
+      id: stored.id,
+      eventId: stored.eventId,
+    })
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Replay failed',
+      code: 'PROCESSING_FAILED',
+    }
+  }
+
+  logger.info('Webhook event replayed', { id: stored.id, eventId: stored.eventId })
+
+  return {
+    success: true,
+    previousStatus: stored.status as WebhookEventStatus,
+    status: WEBHOOK_EVENT_CONFIG.STATUS.PROCESSED,
+  }
+}
+
+export interface WebhookEventFilters {
+  status?: WebhookEventStatus
+  endpoint?: WebhookEndpoint
+  type?: string
+  eventId?: string
+}
+
+function buildWhere(filters: WebhookEventFilters): Prisma.StripeWebhookEventWhereInput {
+  return {
+    ...(filters.status ? { status: filters.status } : {}),
+    ...(filters.endpoint ? { endpoint: filters.endpoint } : {}),
+    ...(filters.type ? { type: filters.type } : {}),
+    ...(filters.eventId ? { eventId: filters.eventId } : {}),
+  }
+}
+
+/**
+ * Lists stored events, newest first, without their payloads.
+ */
+export async function listWebhookEvents(
+  filters: WebhookEventFilters,
+  pagination: { skip: number; take: number }
+) {
+  const where = buildWhere(filters)
+
+  const [events, total] = await Promise.all([
+    prisma.stripeWebhookEvent.findMany({
+      where,
+      orderBy: { receivedAt: 'desc' },
+      skip: pagination.skip,
+      take: pagination.take,
+      select: {
+        id: true,
+        eventId: true,
+        endpoint: true,
+        type: true,
+        status: true,
+        attempts: true,
+        lastError: true,
+        processingMs: true,
+        receivedAt: true,
+        processedAt: true,
+      },
+    }),
+    prisma.stripeWebhookEvent.count({ where }),
+  ])
+
+  return { events, total }
+}
+
+/**
+ * Returns a stored event with its decoded payload.
+ */
+export async function getWebhookEvent(id: string) {
+  const stored = await prisma.stripeWebhookEvent.findUnique({ where: { id } })
+
+  if (!stored) {
+    return null
+  }
+
+  const { payload, ...rest } = stored
+  return { ...rest, payload: JSON.parse(payload) as unknown }
+}
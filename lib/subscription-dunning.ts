@@ -0,0 +1,366 @@
+/**
+ * Subscription Dunning
+ *
+ * What happens after a subscription renewal payment fails:
+ *
+ * 1. The first failure starts a dunning run: the subscription records when
+ *   it started and which Stripe invoice is unpaid, and the customer is
+ *   emailed a link to update their card.
+ * 2. runDunning (run by /api/cron/subscription-dunning) retries the invoice
+ *   on each of DUNNING_CONFIG.RETRY_DAYS after the start, emailing a
+ *   reminder whenever a retry fails.
+ * 3. The subscription stays ACTIVE for the grace period, then moves to
+ *   PAYMENT_FAILED until the invoice is paid.
+ * 4. If the final retry fails the subscription is cancelled.
+ *
+ * A paid invoice (invoice.paid webhook) ends the run at any point. Stripe's
+ * own automatic retries can stay on; they only add extra attempts.
+ *
+ * @module lib/subscription-dunning
+ */
+
+import Stripe from 'stripe'
+import { prisma } from '@/lib/prisma'
+import { getStripe } from '@/lib/stripe-server'
+import { logger } from '@/lib/logger'
+import { getBaseUrl } from '@/lib/url'
+import { enqueueJobs, jobKey } from '@/lib/jobs'
+
+export const DUNNING_CONFIG = {
+  // Days after the first failure on which the invoice is retried; the last
+  // one is the final attempt
+  RETRY_DAYS: [1, 3, 7],
+
+  // Days the subscription stays ACTIVE before moving to PAYMENT_FAILED
+  GRACE_PERIOD_DAYS: 3,
+
+  BATCH_SIZE: 50,
+} as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface DunningSchedule {
+  graceEndsAt: Date
+  retryDates: Date[]
+  cancelsAt: Date
+}
+
+export interface DunningRunSummary {
+  retried: number
+  recovered: number
+  reminded: number
+  movedToPaymentFailed: number
+  cancelled: number
+  failed: number
+}
+
+/**
+ * Dates of a dunning run that started at `startedAt`.
+ */
+export function getDunningSchedule(startedAt: Date): DunningSchedule {
+  const retryDates = DUNNING_CONFIG.RETRY_DAYS.map(
+    (days) => new Date(startedAt.getTime() + days * DAY_MS)
+  )
+
+  return {
+    graceEndsAt: new Date(startedAt.getTime() + DUNNING_CONFIG.GRACE_PERIOD_DAYS * DAY_MS),
+    retryDates,
+    cancelsAt: retryDates[retryDates.length - 1],
+  }
+}
+
+/**
+ * Link for emails: opens the Stripe billing portal on the card update form
+ * for the subscription (signing in first if needed).
+ */
+export function getUpdatePaymentUrl(subscriptionId: string): string {
+  return `${getBaseUrl()}/account/subscriptions?updateBilling=${encodeURIComponent(subscriptionId)}`
+}
+
+function enqueuePaymentFailedEmail(
+  subscriptionId: string,
+  dunningStartedAt: Date,
+  failedAttemptCount: number,
+  client?: Parameters<typeof enqueueJobs>[1]
+) {
+  return enqueueJobs(
+    [
+      {
+        type: 'subscription.paymentFailedEmail',
+        payload: { subscriptionId, failedAttemptCount },
+        idempotencyKey: jobKey(
+          'subscription.paymentFailedEmail',
+          subscriptionId,
+          String(dunningStartedAt.getTime()),
+          String(failedAttemptCount)
+        ),
+      },
+    ],
+    client
+  )
+}
+
+/**
+ * Records a failed renewal payment (invoice.payment_failed). Starts a
+ * dunning run, and emails the customer, unless one is already under way.
+ */
+export async function recordFailedPayment(
+  stripeSubscriptionId: string,
+  invoiceId: string | undefined,
+  now: Date = new Date()
+): Promise<void> {
+  const subscription = await prisma.subscription.findUnique({
+    where: { stripeSubscriptionId },
+  })
+
+  if (!subscription) {
+    logger.warn('No local subscription found for invoice.payment_failed', {
+      stripeSubscriptionId,
+      invoiceId,
+    })
+    return
+  }
+
+  if (subscription.status === 'CANCELLED') {
+    return
+  }
+
+  const startsDunning = !subscription.dunningStartedAt
+  const dunningStartedAt = subscription.dunningStartedAt ?? now
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const result = await tx.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        paymentFailedCount: { increment: 1 },
+        paymentFailedAt: now,
+        stripeStatus: 'past_due',
+        ...(startsDunning
+          ? { dunningStartedAt, dunningInvoiceId: invoiceId ?? null, dunningAttempts: 0 }
+          : {}),
+      },
+      select: { paymentFailedCount: true },
+    })
+
+    // Later failures in the run are followed by the scheduled reminders
+    if (startsDunning) {
+      await enqueuePaymentFailedEmail(subscription.id, dunningStartedAt, 1, tx)
+    }
+
+    return result
+  })
+
+  logger.warn('Subscription invoice payment failed', {
+    invoiceId,
+    stripeSubscriptionId,
+    paymentFailedCount: updated.paymentFailedCount,
+    startsDunning,
+  })
+}
+
+type DunningSubscription = {
+  id: string
+  status: string
+  stripeSubscriptionId: string | null
+  dunningStartedAt: Date | null
+  dunningInvoiceId: string | null
+  dunningAttempts: number
+}
+
+/**
+ * Retries the unpaid invoice. Returns false when the card is declined;
+ * other errors are thrown.
+ */
+async function retryInvoice(invoiceId: string): Promise<boolean> {
+  try {
+    await getStripe().invoices.pay(invoiceId)
+    return true
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeCardError) {
+      return false
+    }
+    throw error
+  }
+}
+
+async function cancelForNonPayment(subscription: DunningSubscription, now: Date): Promise<void> {
+  if (subscription.stripeSubscriptionId) {
+    await getStripe().subscriptions.cancel(subscription.stripeSubscriptionId)
+  }
+
+  await prisma.subscription.update({
+    where: { id: subscription.id },
+    data: {
+      status: 'CANCELLED',
+      cancelledAt: now,
+      stripeStatus: 'canceled',
+      dunningStartedAt: null,
+      dunningInvoiceId: null,
+      dunningAttempts: 0,
+    },
+  })
+}
+
+/**
+ * Advances one subscription through its dunning run. Each retry is claimed
+ * by bumping `dunningAttempts` first, so overlapping runs cannot retry the
+ * same step twice.
+ */
+async function advanceDunning(
+  subscription: DunningSubscription & { dunningStartedAt: Date },
+  now: Date,
+  summary: DunningRunSummary
+): Promise<void> {
+  const schedule = getDunningSchedule(subscription.dunningStartedAt)
+
+  if (subscription.status === 'ACTIVE' && now >= schedule.graceEndsAt) {
+    await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { status: 'PAYMENT_FAILED' },
+    })
+    summary.movedToPaymentFailed++
+  }
+
+  const step = subscription.dunningAttempts
+  if (step >= schedule.retryDates.length || now < schedule.retryDates[step]) {
+    return
+  }
+
+  const claim = await prisma.subscription.updateMany({
+    where: { id: subscription.id, dunningAttempts: step },
+    data: { dunningAttempts: step + 1 },
+  })
+  if (claim.count === 0) {
+    return
+  }
+
+  const isFinalAttempt = step === schedule.retryDates.length - 1
+
+  let paid: boolean
+  try {
+    paid = subscription.dunningInvoiceId ? await retryInvoice(subscription.dunningInvoiceId) : false
+  } catch (error) {
+    // Release the step so the next run retries it
+    await prisma.subscription.updateMany({
+      where: { id: subscription.id, dunningAttempts: step + 1 },
+      data: { dunningAttempts: step },
+    })
+    throw error
+  }
+  summary.retried++
+
+  if (paid) {
+    // invoice.paid ends the run and creates the order
+    summary.recovered++
+    logger.info('Dunning retry recovered subscription payment', {
+      subscriptionId: subscription.id,
+      attempt: step + 1,
+    })
+    return
+  }
+
+  if (isFinalAttempt) {
+    await cancelForNonPayment(subscription, now)
+    summary.cancelled++
+    logger.warn('Subscription cancelled after final dunning attempt', {
+      subscriptionId: subscription.id,
+    })
+    return
+  }
+
+  // The first failure was attempt 1, so retry n is attempt n + 1
+  await enqueuePaymentFailedEmail(subscription.id, subscription.dunningStartedAt, step + 2)
+  summary.reminded++
+}
+
+/**
+ * Runs due dunning steps for subscriptions with an unpaid renewal.
+ */
+export async function runDunning(now: Date = new Date()): Promise<DunningRunSummary> {
+  const subscriptions = await prisma.subscription.findMany({
+    where: {
+      dunningStartedAt: { not: null },
+      status: { in: ['ACTIVE', 'PAYMENT_FAILED'] },
+    },
+    orderBy: { dunningStartedAt: 'asc' },
+    take: DUNNING_CONFIG.BATCH_SIZE,
+    select: {
+      id: true,
+      status: true,
+      stripeSubscriptionId: true,
+      dunningStartedAt: true,
+      dunningInvoiceId: true,
+      dunningAttempts: true,
+    },
+  })
+
+  const summary: DunningRunSummary = {
+    retried: 0,
+    recovered: 0,
+    reminded: 0,
+    movedToPaymentFailed: 0,
+    cancelled: 0,
+    failed: 0,
+  }
+
+  for (const subscription of subscriptions) {
+    if (!subscription.dunningStartedAt) {
+      continue
+    }
+
+    try {
+      await advanceDunning(
+        { ...subscription, dunningStartedAt: subscription.dunningStartedAt },
+        now,
+        summary
+      )
+    } catch (error) {
+      summary.failed++
+      logger.error('Dunning step failed', error, { subscriptionId: subscription.id })
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Subscriptions in dunning, oldest run first, with their schedule.
+ */
+export async function listDunningSubscriptions(pagination: { skip: number; take: number }) {
+  const where = { dunningStartedAt: { not: null } }
+
+  const [subscriptions, total] = await Promise.all([
+    prisma.subscription.findMany({
+      where,
+      orderBy: { dunningStartedAt: 'asc' },
+      skip: pagination.skip,
+      take: pagination.take,
+      select: {
+        id: true,
+        visibleId: true,
+        status: true,
+        stripeSubscriptionId: true,
+        paymentFailedCount: true,
+        paymentFailedAt: true,
+        dunningStartedAt: true,
+        dunningInvoiceId: true,
+        dunningAttempts: true,
+        user: { select: { id: true, email: true, name: true } },
+      },
+    }),
+    prisma.subscription.count({ where }),
+  ])
+
+  return {
+    subscriptions: subscriptions.map((subscription) => {
+      const schedule = getDunningSchedule(subscription.dunningStartedAt as Date)
+      return {
+        ...subscription,
+        graceEndsAt: schedule.graceEndsAt,
+        nextRetryAt: schedule.retryDates[subscription.dunningAttempts] ?? null,
+        cancelsAt: schedule.cancelsAt,
+      }
+    }),
+    total,
+  }
+}
@@ -0,0 +1,445 @@
+/**
+ * Subscription Item Editing
+ *
+ * Changes what is in an ACTIVE or PAUSED Subscribe & Save box without
+ * cancelling it: add a product, remove one, change a quantity or swap to
+ * another variant of the same product.
+ *
+ * Subscriptions that have been through checkout are changed on Stripe first,
+ * then saved locally:
+ * - An added item, or a swapped variant, gets a new Stripe price at the
+ *   current product price less the subscription's discount.
+ * - Changes are not prorated; the next invoice bills the new box.
+ * - Prices that are no longer used are archived once the change is saved.
+ *
+ * @module lib/subscription-items
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getStripe } from '@/lib/stripe-server'
+import { logger } from '@/lib/logger'
+import {
+  calculateSubscriptionTotal,
+  canModifySubscription,
+  getDiscountForFrequency,
+  type SubscriptionFrequency,
+  type SubscriptionStatus,
+} from '@/lib/subscriptions'
+import {
+  archiveStripePrices,
+  createSubscriptionItemPrice,
+  getStripeSubscriptionItemIds,
+} from '@/lib/stripe-subscription'
+
+export const SUBSCRIPTION_ITEM_CONFIG = {
+  MIN_QUANTITY: 1,
+  MAX_QUANTITY: 99,
+} as const
+
+export type SubscriptionItemEditErrorCode =
+  | 'NOT_FOUND'
+  | 'FORBIDDEN'
+  | 'NOT_MODIFIABLE'
+  | 'NOT_SUBSCRIBABLE'
+  | 'DUPLICATE_ITEM'
+  | 'LAST_ITEM'
+
+export interface SubscriptionItemEditFailure {
+  success: false
+  error: string
+  code: SubscriptionItemEditErrorCode
+}
+
+const EDITED_SUBSCRIPTION_INCLUDE = {
+  items: {
+    orderBy: { createdAt: 'asc' },
+    include: {
+      product: {
+        select: {
+          id: true,
+          title: true,
+          image: true,
+          price: true,
+          salePrice: true,
+        },
+      },
+      variant: {
+        select: {
+          id: true,
+          sku: true,
+          size: true,
+          color: true,
+          colorCode: true,
+          material: true,
+          price: true,
+          salePrice: true,
+          image: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.SubscriptionInclude
+
+export type EditedSubscription = Prisma.SubscriptionGetPayload<{
+  include: typeof EDITED_SUBSCRIPTION_INCLUDE
+}>
+
+export type SubscriptionItemEditResult =
+  | {
+      success: true
+      subscription: EditedSubscription
+      totals: ReturnType<typeof calculateSubscriptionTotal>
+    }
+  | SubscriptionItemEditFailure
+
+type VariantDetails = {
+  size: string | null
+  color: string | null
+  material: string | null
+  price: Prisma.Decimal | null
+  salePrice: Prisma.Decimal | null
+}
+
+type ProductDetails = {
+  title: string
+  price: Prisma.Decimal
+  salePrice: Prisma.Decimal | null
+}
+
+function failure(error: string, code: SubscriptionItemEditErrorCode): SubscriptionItemEditFailure {
+  return { success: false, error, code }
+}
+
+function buildItemTitle(product: { title: string }, variant: VariantDetails | null): string {
+  const suffix = variant
+    ? [variant.size, variant.color, variant.material].filter(Boolean).join(', ')
+    : ''
+  return suffix ? `${product.title} (${suffix})` : product.title
+}
+
+/**
+ * The price a newly added or swapped item is locked in at, matching how
+ * POST /api/subscriptions prices items.
+ */
+function getCurrentUnitPrice(product: ProductDetails, variant: VariantDetails | null): number {
+  const productPrice = product.salePrice ?? product.price
+  return Number(variant ? (variant.salePrice ?? variant.price ?? productPrice) : productPrice)
+}
+
+function getDiscountedUnitPrice(priceAtSubscription: number, discountPercent: number): number {
+  return Math.round(priceAtSubscription * (1 - discountPercent / 100) * 100) / 100
+}
+
+async function loadEditableSubscription(userId: string, subscriptionId: string) {
+  const subscription = await prisma.subscription.findUnique({
+    where: { id: subscriptionId },
+    include: { items: true },
+  })
+
+  if (!subscription) {
+    return failure('Subscription not found', 'NOT_FOUND')
+  }
+  if (subscription.userId !== userId) {
+    return failure('You do not have access to this subscription', 'FORBIDDEN')
+  }
+  if (!canModifySubscription(subscription.status as SubscriptionStatus)) {
+    return failure('Subscription cannot be modified in its current state', 'NOT_MODIFIABLE')
+  }
+
+  return { success: true as const, subscription }
+}
+
+async function getStripeItemId(stripeSubscriptionId: string, subscriptionItemId: string) {
+  const stripeItemId = (await getStripeSubscriptionItemIds(stripeSubscriptionId)).get(
+    subscriptionItemId
+  )
+  if (!stripeItemId) {
+    throw new Error(`Unable to map Stripe subscription item for ${subscriptionItemId}`)
+  }
+  return stripeItemId
+}
+
+/**
+ * Loads the subscription as edited, with the totals its next delivery will
+ * be billed at.
+ */
+async function getEditedSubscription(subscriptionId: string): Promise<SubscriptionItemEditResult> {
+  const subscription = await prisma.subscription.findUnique({
+    where: { id: subscriptionId },
+    include: EDITED_SUBSCRIPTION_INCLUDE,
+  })
+
+  if (!subscription) {
+    return failure('Subscription not found', 'NOT_FOUND')
+  }
+
+  return {
+    success: true,
+    subscription,
+    totals: calculateSubscriptionTotal(
+      subscription.items.map((item) => ({
+        ...item,
+        priceAtSubscription: Number(item.priceAtSubscription),
+      }))
+    ),
+  }
+}
+
+/**
+ * Adds a product (optionally a specific variant) to a subscription.
+ */
+export async function addSubscriptionItem(
+  userId: string,
+  subscriptionId: string,
+  input: { productId: string; variantId?: string | null; quantity: number }
+): Promise<SubscriptionItemEditResult> {
+  const loaded = await loadEditableSubscription(userId, subscriptionId)
+  if (!loaded.success) {
+    return loaded
+  }
+  const { subscription } = loaded
+
+  const product = await prisma.product.findUnique({
+    where: { id: input.productId },
+    include: { variants: true },
+  })
+
+  if (!product) {
+    return failure('Product not found', 'NOT_FOUND')
+  }
+  if (!product.isSubscribable) {
+    return failure(`Product "${product.title}" is not available for subscription`, 'NOT_SUBSCRIBABLE')
+  }
+
+  const variantId = input.variantId || null
+  const variant = variantId ? product.variants.find((v) => v.id === variantId) : null
+  if (variantId && !variant) {
+    return failure('Variant not found', 'NOT_FOUND')
+  }
+
+  if (subscription.items.some((item) => item.productId === product.id && item.variantId === variantId)) {
+    return failure(
+      'This product is already in your subscription; change its quantity instead',
+      'DUPLICATE_ITEM'
+    )
+  }
+
+  const discountPercent = getDiscountForFrequency(subscription.frequency as SubscriptionFrequency)
+  const priceAtSubscription = getCurrentUnitPrice(product, variant ?? null)
+
+  const item = await prisma.subscriptionItem.create({
+    data: {
+      subscriptionId,
+      productId: product.id,
+      variantId,
+      quantity: input.quantity,
+      priceAtSubscription,
+      discountPercent,
+    },
+  })
+
+  if (subscription.stripeSubscriptionId) {
+    let createdPriceId: string | null = null
+
+    try {
+      const price = await createSubscriptionItemPrice({
+        userId,
+        subscriptionId,
+        subscriptionItemId: item.id,
+        frequency: subscription.frequency as SubscriptionFrequency,
+        title: buildItemTitle(product, variant ?? null),
+        unitPrice: getDiscountedUnitPrice(priceAtSubscription, discountPercent),
+      })
+      createdPriceId = price.id
+
+      await getStripe().subscriptionItems.create({
+        subscription: subscription.stripeSubscriptionId,
+        price: price.id,
+        quantity: input.quantity,
+        proration_behavior: 'none',
+      })
+    } catch (error) {
+      await archiveStripePrices(createdPriceId ? [createdPriceId] : [])
+      await prisma.subscriptionItem.delete({ where: { id: item.id } })
+      throw error
+    }
+
+    await prisma.subscriptionItem.update({
+      where: { id: item.id },
+      data: { stripePriceId: createdPriceId },
+    })
+  }
+
+  logger.info('Subscription item added', {
+    subscriptionId,
+    subscriptionItemId: item.id,
+    productId: product.id,
+    variantId,
+  })
+
+  return getEditedSubscription(subscriptionId)
+}
+
+/**
+ * Changes an item's quantity and/or swaps it to another variant of the same
+ * product. A swapped item is re-priced at the new variant's current price.
+ */
+export async function updateSubscriptionItem(
+  userId: string,
+  subscriptionId: string,
+  subscriptionItemId: string,
+  input: { quantity?: number; variantId?: string }
+): Promise<SubscriptionItemEditResult> {
+  const loaded = await loadEditableSubscription(userId, subscriptionId)
+  if (!loaded.success) {
+    return loaded
+  }
+  const { subscription } = loaded
+
+  const item = subscription.items.find((candidate) => candidate.id === subscriptionItemId)
+  if (!item) {
+    return failure('Subscription item not found', 'NOT_FOUND')
+  }
+
+  const quantity = input.quantity ?? item.quantity
+  const isSwap = input.variantId !== undefined && input.variantId !== item.variantId
+
+  if (!isSwap && quantity === item.quantity) {
+    return getEditedSubscription(subscriptionId)
+  }
+
+  let swap: { variantId: string; priceAtSubscription: number; title: string } | null = null
+  if (isSwap) {
+    const variant = await prisma.productVariant.findFirst({
+      where: { id: input.variantId, productId: item.productId },
+      include: {
+        product: { select: { title: true, price: true, salePrice: true, isSubscribable: true } },
+      },
+    })
+
+    if (!variant) {
+      return failure('Variant not found', 'NOT_FOUND')
+    }
+    if (!variant.product.isSubscribable) {
+      return failure(
+        `Product "${variant.product.title}" is not available for subscription`,
+        'NOT_SUBSCRIBABLE'
+      )
+    }
+    if (
+      subscription.items.some(
+        (other) => other.id !== item.id && other.productId === item.productId && other.variantId === variant.id
+      )
+    ) {
+      return failure(
+        'This variant is already in your subscription; change its quantity instead',
+        'DUPLICATE_ITEM'
+      )
+    }
+
+    swap = {
+      variantId: variant.id,
+      priceAtSubscription: getCurrentUnitPrice(variant.product, variant),
+      title: buildItemTitle(variant.product, variant),
+    }
+  }
+
+  let newStripePriceId: string | null = null
+
+  if (subscription.stripeSubscriptionId) {
+    const stripeItemId = await getStripeItemId(subscription.stripeSubscriptionId, item.id)
+
+    try {
+      if (swap) {
+        const price = await createSubscriptionItemPrice({
+          userId,
+          subscriptionId,
+          subscriptionItemId: item.id,
+          frequency: subscription.frequency as SubscriptionFrequency,
+          title: swap.title,
+          unitPrice: getDiscountedUnitPrice(swap.priceAtSubscription, item.discountPercent),
+        })
+        newStripePriceId = price.id
+      }
+
+      await getStripe().subscriptionItems.update(stripeItemId, {
+        ...(newStripePriceId ? { price: newStripePriceId } : {}),
+        quantity,
+        proration_behavior: 'none',
+      })
+    } catch (error) {
+      await archiveStripePrices(newStripePriceId ? [newStripePriceId] : [])
+      throw error
+    }
+  }
+
+  await prisma.subscriptionItem.update({
+    where: { id: item.id },
+    data: {
+      quantity,
+      ...(swap
+        ? {
+            variantId: swap.variantId,
+            priceAtSubscription: swap.priceAtSubscription,
+            stripePriceId: newStripePriceId ?? item.stripePriceId,
+          }
+        : {}),
+    },
+  })
+
+  if (newStripePriceId && item.stripePriceId) {
+    await archiveStripePrices([item.stripePriceId])
+  }
+
+  logger.info('Subscription item updated', {
+    subscriptionId,
+    subscriptionItemId: item.id,
+    quantity,
+    variantId: swap?.variantId ?? item.variantId,
+  })
+
+  return getEditedSubscription(subscriptionId)
+}
+
+/**
+ * Removes an item. The last item cannot be removed; the subscription has to
+ * be cancelled instead.
+ */
+export async function removeSubscriptionItem(
+  userId: string,
+  subscriptionId: string,
+  subscriptionItemId: string
+): Promise<SubscriptionItemEditResult> {
+  const loaded = await loadEditableSubscription(userId, subscriptionId)
+  if (!loaded.success) {
+    return loaded
+  }
+  const { subscription } = loaded
+
+  const item = subscription.items.find((candidate) => candidate.id === subscriptionItemId)
+  if (!item) {
+    return failure('Subscription item not found', 'NOT_FOUND')
+  }
+  if (subscription.items.length === 1) {
+    return failure(
+      'A subscription needs at least one item; cancel the subscription instead',
+      'LAST_ITEM'
+    )
+  }
+
+  if (subscription.stripeSubscriptionId) {
+    const stripeItemId = await getStripeItemId(subscription.stripeSubscriptionId, item.id)
+    await getStripe().subscriptionItems.del(stripeItemId, { proration_behavior: 'none' })
+  }
+
+  await prisma.subscriptionItem.delete({ where: { id: item.id } })
+
+  if (item.stripePriceId) {
+    await archiveStripePrices([item.stripePriceId])
+  }
+
+  logger.info('Subscription item removed', { subscriptionId, subscriptionItemId: item.id })
+
+  return getEditedSubscription(subscriptionId)
+}
@@ -0,0 +1,325 @@
+/**
+ * Subscription Scheduling
+ *
+ * Pausing, resuming and shipping a Subscribe & Save box early:
+ *
+ * - A pause is recorded as a SubscriptionPause. Pausing for N cycles skips
+ *   the next N deliveries and sets `resumeAt` to the delivery after them;
+ *   an open-ended pause has no `resumeAt`. Stripe collection is paused with
+ *   the same resume date.
+ * - resumeDueSubscriptions (run by /api/cron/subscription-resumes) resumes
+ *   subscriptions whose `resumeAt` has passed, the same way a customer
+ *   resuming by hand does.
+ * - Shipping now bills the current cycle immediately by restarting the
+ *   Stripe billing cycle; the invoice.paid webhook then creates the order
+ *   and the following deliveries are counted from today.
+ *
+ * @module lib/subscription-schedule
+ */
+
+import Stripe from 'stripe'
+import { prisma } from '@/lib/prisma'
+import { getStripe } from '@/lib/stripe-server'
+import { logger } from '@/lib/logger'
+import { calculateNextDeliveryDate, type SubscriptionFrequency } from '@/lib/subscriptions'
+
+export const SUBSCRIPTION_SCHEDULE_CONFIG = {
+  MAX_PAUSE_CYCLES: 6,
+  RESUME_BATCH_SIZE: 100,
+  MAX_REASON_LENGTH: 500,
+} as const
+
+export type SubscriptionScheduleErrorCode =
+  | 'NOT_FOUND'
+  | 'FORBIDDEN'
+  | 'INVALID_STATE'
+  | 'BILLING_UNAVAILABLE'
+  | 'PAYMENT_FAILED'
+
+export interface SubscriptionScheduleFailure {
+  success: false
+  error: string
+  code: SubscriptionScheduleErrorCode
+}
+
+export interface ResumeRunSummary {
+  resumed: number
+  closed: number
+  failed: number
+}
+
+function failure(error: string, code: SubscriptionScheduleErrorCode): SubscriptionScheduleFailure {
+  return { success: false, error, code }
+}
+
+/**
+ * The delivery date `cycles` deliveries after `from`.
+ */
+export function addDeliveryCycles(
+  frequency: SubscriptionFrequency,
+  from: Date,
+  cycles: number
+): Date {
+  let date = new Date(from)
+  for (let cycle = 0; cycle < cycles; cycle++) {
+    date = calculateNextDeliveryDate(frequency, date)
+  }
+  return date
+}
+
+async function loadOwnedSubscription(userId: string, subscriptionId: string) {
+  const subscription = await prisma.subscription.findUnique({ where: { id: subscriptionId } })
+
+  if (!subscription) {
+    return failure('Subscription not found', 'NOT_FOUND')
+  }
+  if (subscription.userId !== userId) {
+    return failure('You do not have access to this subscription', 'FORBIDDEN')
+  }
+
+  return { success: true as const, subscription }
+}
+
+/**
+ * Pauses an active subscription, either for a number of delivery cycles or
+ * until the customer resumes it.
+ */
+export async function pauseSubscription(
+  userId: string,
+  subscriptionId: string,
+  options: { cycles?: number; reason?: string } = {},
+  now: Date = new Date()
+): Promise<{ success: true; resumeAt: Date | null } | SubscriptionScheduleFailure> {
+  const loaded = await loadOwnedSubscription(userId, subscriptionId)
+  if (!loaded.success) {
+    return loaded
+  }
+  const { subscription } = loaded
+
+  if (subscription.status !== 'ACTIVE') {
+    return failure(
+      `Cannot pause a ${subscription.status.toLowerCase()} subscription`,
+      'INVALID_STATE'
+    )
+  }
+
+  const resumeAt = options.cycles
+    ? addDeliveryCycles(
+        subscription.frequency as SubscriptionFrequency,
+        subscription.nextDeliveryDate,
+        options.cycles
+      )
+    : null
+
+  let stripeStatus = subscription.stripeStatus
+  if (subscription.stripeSubscriptionId) {
+    const pausedSubscription = await getStripe().subscriptions.update(
+      subscription.stripeSubscriptionId,
+      {
+        pause_collection: {
+          behavior: 'void',
+          ...(resumeAt ? { resumes_at: Math.floor(resumeAt.getTime() / 1000) } : {}),
+        },
+      }
+    )
+    stripeStatus = pausedSubscription.status
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await closeOpenPauses(tx, subscriptionId, now)
+
+    await tx.subscriptionPause.create({
+      data: {
+        subscriptionId,
+        pausedAt: now,
+        resumeAt,
+        reason: options.reason?.slice(0, SUBSCRIPTION_SCHEDULE_CONFIG.MAX_REASON_LENGTH) || null,
+      },
+    })
+
+    await tx.subscription.update({
+      where: { id: subscriptionId },
+      data: {
+        status: 'PAUSED',
+        pausedAt: now,
+        stripeStatus,
+      },
+    })
+  })
+
+  logger.info('Subscription paused', { subscriptionId, cycles: options.cycles ?? null, resumeAt })
+
+  return { success: true, resumeAt }
+}
+
+/**
+ * Marks every open pause for a subscription as ended. Called whenever a
+ * subscription resumes, however it resumes, so an old `resumeAt` cannot
+ * resume a later pause.
+ */
+export async function closeOpenPauses(
+  client: Pick<typeof prisma, 'subscriptionPause'>,
+  subscriptionId: string,
+  now: Date = new Date()
+): Promise<void> {
+  await client.subscriptionPause.updateMany({
+    where: { subscriptionId, resumedAt: null },
+    data: { resumedAt: now },
+  })
+}
+
+/**
+ * Resumes a paused subscription: lifts the Stripe pause and schedules the
+ * next delivery from Stripe's current period (or one cycle from now).
+ */
+async function resumePausedSubscription(
+  subscription: {
+    id: string
+    frequency: string
+    stripeSubscriptionId: string | null
+    stripeStatus: string | null
+  },
+  now: Date
+): Promise<void> {
+  let nextDeliveryDate = calculateNextDeliveryDate(
+    subscription.frequency as SubscriptionFrequency,
+    now
+  )
+  let stripeStatus = subscription.stripeStatus
+
+  if (subscription.stripeSubscriptionId) {
+    const resumedSubscription = await getStripe().subscriptions.update(
+      subscription.stripeSubscriptionId,
+      { pause_collection: null }
+    )
+    stripeStatus = resumedSubscription.status
+    if (resumedSubscription.current_period_end) {
+      nextDeliveryDate = new Date(resumedSubscription.current_period_end * 1000)
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await closeOpenPauses(tx, subscription.id, now)
+
+    await tx.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        status: 'ACTIVE',
+        pausedAt: null,
+        nextDeliveryDate,
+        stripeStatus,
+      },
+    })
+  })
+}
+
+/**
+ * Resumes subscriptions whose scheduled resume date has passed. Pauses for
+ * subscriptions that are no longer paused (resumed early, or cancelled) are
+ * just closed.
+ */
+export async function resumeDueSubscriptions(now: Date = new Date()): Promise<ResumeRunSummary> {
+  const duePauses = await prisma.subscriptionPause.findMany({
+    where: { resumedAt: null, resumeAt: { lte: now } },
+    orderBy: { resumeAt: 'asc' },
+    take: SUBSCRIPTION_SCHEDULE_CONFIG.RESUME_BATCH_SIZE,
+    include: {
+      subscription: {
+        select: {
+          id: true,
+          status: true,
+          frequency: true,
+          stripeSubscriptionId: true,
+          stripeStatus: true,
+        },
+      },
+    },
+  })
+
+  const summary: ResumeRunSummary = { resumed: 0, closed: 0, failed: 0 }
+
+  for (const pause of duePauses) {
+    if (pause.subscription.status !== 'PAUSED') {
+      await closeOpenPauses(prisma, pause.subscriptionId, now)
+      summary.closed++
+      continue
+    }
+
+    try {
+      await resumePausedSubscription(pause.subscription, now)
+      summary.resumed++
+      logger.info('Scheduled subscription resume completed', {
+        subscriptionId: pause.subscriptionId,
+        resumeAt: pause.resumeAt,
+      })
+    } catch (error) {
+      // Left open, so the next run tries again
+      summary.failed++
+      logger.error('Scheduled subscription resume failed', error, {
+        subscriptionId: pause.subscriptionId,
+      })
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Bills the current cycle of an active subscription immediately. The order
+ * is created by the invoice.paid webhook, which also moves the next delivery
+ * to one cycle from today. Cancels a skipped delivery, if any.
+ */
+export async function shipSubscriptionNow(
+  userId: string,
+  subscriptionId: string,
+  now: Date = new Date()
+): Promise<{ success: true; nextDeliveryDate: Date } | SubscriptionScheduleFailure> {
+  const loaded = await loadOwnedSubscription(userId, subscriptionId)
+  if (!loaded.success) {
+    return loaded
+  }
+  const { subscription } = loaded
+
+  if (subscription.status !== 'ACTIVE') {
+    return failure(
+      `Cannot ship a ${subscription.status.toLowerCase()} subscription early`,
+      'INVALID_STATE'
+    )
+  }
+  if (!subscription.stripeSubscriptionId) {
+    return failure('This subscription has no billing set up', 'BILLING_UNAVAILABLE')
+  }
+
+  let stripeSubscription: Stripe.Subscription
+  try {
+    // Fails without changing the subscription if the payment does not go through
+    stripeSubscription = await getStripe().subscriptions.update(subscription.stripeSubscriptionId, {
+      billing_cycle_anchor: 'now',
+      proration_behavior: 'none',
+      payment_behavior: 'error_if_incomplete',
+      pause_collection: null,
+    })
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeCardError) {
+      return failure(error.message || 'Your card was declined', 'PAYMENT_FAILED')
+    }
+    throw error
+  }
+
+  const nextDeliveryDate = stripeSubscription.current_period_end
+    ? new Date(stripeSubscription.current_period_end * 1000)
+    : calculateNextDeliveryDate(subscription.frequency as SubscriptionFrequency, now)
+
+  await prisma.subscription.update({
+    where: { id: subscriptionId },
+    data: {
+      nextDeliveryDate,
+      skipNextDelivery: false,
+      stripeStatus: stripeSubscription.status,
+    },
+  })
+
+  logger.info('Subscription shipped early', { subscriptionId, nextDeliveryDate })
+
+  return { success: true, nextDeliveryDate }
+}
@@ -0,0 +1,499 @@
+/**
+ * TerraCycle Recycling Submissions
+ *
+ * Customers send used packaging back for recycling through TerraCycle. A
+ * submission moves through:
+ *
+ *   PENDING → LABEL_SENT → SHIPPED → RECEIVED → PROCESSED
+ *
+ * - The customer requests a prepaid label (PENDING).
+ * - An admin attaches the label (LABEL_SENT).
+ * - The customer marks the package shipped (SHIPPED).
+ * - An admin records its arrival (RECEIVED) and, once TerraCycle has
+ *   processed it, its weight and materials (PROCESSED). A package that
+ *   arrives before the customer marks it shipped can go straight from
+ *   LABEL_SENT to RECEIVED.
+ *
+ * Processing adds the submission to the customer's TerraCycleStats and
+ * awards loyalty points for the weight recycled, once per submission.
+ *
+ * @module lib/terracycle
+ */
+
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { awardPoints, POINT_SOURCES } from '@/lib/loyalty'
+
+export const TERRACYCLE_CONFIG = {
+  STATUS: {
+    PENDING: 'PENDING',
+    LABEL_SENT: 'LABEL_SENT',
+    SHIPPED: 'SHIPPED',
+    RECEIVED: 'RECEIVED',
+    PROCESSED: 'PROCESSED',
+  } as const,
+
+  // Submissions a customer can have in progress (not yet received)
+  MAX_OPEN_SUBMISSIONS: 3,
+
+  MATERIALS: ['PLASTIC', 'METAL', 'GLASS', 'PAPER', 'TEXTILE', 'OTHER'] as const,
+
+  // Loyalty points per kg processed, with a floor per submission
+  POINTS_PER_KG: 50,
+  MIN_POINTS: 25,
+
+  // Savings per kg recycled
+  CO2_SAVED_KG_PER_KG: 1.1,
+  WATER_SAVED_LITERS_PER_KG: 17,
+} as const
+
+export type TerraCycleStatus =
+  (typeof TERRACYCLE_CONFIG.STATUS)[keyof typeof TERRACYCLE_CONFIG.STATUS]
+export type TerraCycleMaterial = (typeof TERRACYCLE_CONFIG.MATERIALS)[number]
+
+export type TerraCycleErrorCode =
+  | 'NOT_FOUND'
+  | 'TOO_MANY_OPEN'
+  | 'INVALID_TRANSITION'
+  | 'MISSING_DETAILS'
+
+export interface TerraCycleFailure {
+  success: false
+  error: string
+  code: TerraCycleErrorCode
+}
+
+export interface TerraCycleMaterialWeight {
+  material: TerraCycleMaterial
+  weightKg: number
+}
+
+export interface TerraCycleImpact {
+  plasticSavedKg: number
+  co2SavedKg: number
+  waterSavedLiters: number
+}
+
+/**
+ * Details an admin records when advancing a submission. LABEL_SENT needs a
+ * label URL; PROCESSED needs the weight.
+ */
+export interface AdvanceTerraCycleInput {
+  status: TerraCycleStatus
+  shippingLabelUrl?: string
+  trackingNumber?: string
+  carrier?: string
+  itemCount?: number
+  weightKg?: number
+  materials?: TerraCycleMaterialWeight[]
+}
+
+const { STATUS } = TERRACYCLE_CONFIG
+
+// Status changes admins can make; customers only mark LABEL_SENT → SHIPPED
+const ADMIN_TRANSITIONS: Record<string, TerraCycleStatus[]> = {
+  [STATUS.PENDING]: [STATUS.LABEL_SENT],
+  [STATUS.LABEL_SENT]: [STATUS.RECEIVED],
+  [STATUS.SHIPPED]: [STATUS.RECEIVED],
+  [STATUS.RECEIVED]: [STATUS.PROCESSED],
+}
+
+const OPEN_STATUSES: TerraCycleStatus[] = [STATUS.PENDING, STATUS.LABEL_SENT, STATUS.SHIPPED]
+
+function failure(error: string, code: TerraCycleErrorCode): TerraCycleFailure {
+  return { success: false, error, code }
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = 10 ** places
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Generate a user-facing submission ID (e.g. TC-ABC123)
+ */
+export function generateTerraCycleId(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
+  let result = 'TC-'
+  for (let i = 0; i < 6; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length))
+  }
+  return result
+}
+
+/**
+ * Whether an admin can move a submission from one status to another.
+ */
+export function canAdvanceTerraCycleStatus(from: string, to: string): boolean {
+  return (ADMIN_TRANSITIONS[from] ?? []).includes(to as TerraCycleStatus)
+}
+
+/**
+ * Savings from a processed shipment.
+ */
+export function calculateTerraCycleImpact(
+  weightKg: number,
+  materials: TerraCycleMaterialWeight[] = []
+): TerraCycleImpact {
+  const plasticKg = materials
+    .filter((entry) => entry.material === 'PLASTIC')
+    .reduce((sum, entry) => sum + entry.weightKg, 0)
+
+  return {
+    plasticSavedKg: roundTo(plasticKg, 2),
+    co2SavedKg: roundTo(weightKg * TERRACYCLE_CONFIG.CO2_SAVED_KG_PER_KG, 2),
+    waterSavedLiters: roundTo(weightKg * TERRACYCLE_CONFIG.WATER_SAVED_LITERS_PER_KG, 1),
+  }
+}
+
+/**
+ * Loyalty points for a processed shipment.
+ */
+export function calculateTerraCyclePoints(weightKg: number): number {
+  return Math.max(
+    TERRACYCLE_CONFIG.MIN_POINTS,
+    Math.round(weightKg * TERRACYCLE_CONFIG.POINTS_PER_KG)
+  )
+}
+
+/**
+ * Requests a prepaid shipping label. Customers can have a few submissions
+ * in progress at once.
+ */
+export async function requestTerraCycleLabel(
+  userId: string,
+  input: { itemCount?: number; notes?: string },
+  now: Date = new Date()
+) {
+  const openCount = await prisma.terraCycleSubmission.count({
+    where: { userId, status: { in: OPEN_STATUSES } },
+  })
+
+  if (openCount >= TERRACYCLE_CONFIG.MAX_OPEN_SUBMISSIONS) {
+    return failure(
+      `You can have up to ${TERRACYCLE_CONFIG.MAX_OPEN_SUBMISSIONS} recycling shipments in progress`,
+      'TOO_MANY_OPEN'
+    )
+  }
+
+  let visibleId = generateTerraCycleId()
+  for (let attempts = 0; attempts < 10; attempts++) {
+    const existing = await prisma.terraCycleSubmission.findUnique({
+      where: { visibleId },
+      select: { id: true },
+    })
+    if (!existing) break
+    visibleId = generateTerraCycleId()
+  }
+
+  const submission = await prisma.$transaction(async (tx) => {
+    const created = await tx.terraCycleSubmission.create({
+      data: {
+        visibleId,
+        userId,
+        status: STATUS.PENDING,
+        itemCount: input.itemCount ?? null,
+        notes: input.notes ?? null,
+        labelRequestedAt: now,
+      },
+    })
+
+    await tx.terraCycleStats.upsert({
+      where: { userId },
+      create: { userId, totalSubmissions: 1, lastSubmissionAt: now },
+      update: { totalSubmissions: { increment: 1 }, lastSubmissionAt: now },
+    })
+
+    return created
+  })
+
+  logger.info('TerraCycle label requested', { userId, submissionId: submission.id })
+
+  return { success: true as const, submission: formatTerraCycleSubmission(submission) }
+}
+
+/**
+ * Marks a customer's package as shipped once the label has been sent.
+ */
+export async function markTerraCycleShipped(
+  userId: string,
+  submissionId: string,
+  input: { trackingNumber?: string; carrier?: string },
+  now: Date = new Date()
+) {
+  const submission = await prisma.terraCycleSubmission.findFirst({
+    where: { id: submissionId, userId },
+    select: { id: true, status: true },
+  })
+
+  if (!submission) {
+    return failure('Recycling shipment not found', 'NOT_FOUND')
+  }
+
+  // Guard on the status so a concurrent admin change is not overwritten
+  const result = await prisma.terraCycleSubmission.updateMany({
+    where: { id: submission.id, status: STATUS.LABEL_SENT },
+    data: {
+      status: STATUS.SHIPPED,
+      shippedAt: now,
+      ...(input.trackingNumber ? { trackingNumber: input.trackingNumber } : {}),
+      ...(input.carrier ? { carrier: input.carrier } : {}),
+    },
+  })
+
+  if (result.count === 0) {
+    return failure('Only shipments with a label can be marked as shipped', 'INVALID_TRANSITION')
+  }
+
+  return {
+    success: true as const,
+    submission: formatTerraCycleSubmission(
+      await prisma.terraCycleSubmission.findUniqueOrThrow({ where: { id: submission.id } })
+    ),
+  }
+}
+
+/**
+ * A customer's submissions, newest first, with their recycling totals.
+ */
+export async function getUserTerraCycleHistory(userId: string) {
+  const [submissions, stats] = await Promise.all([
+    prisma.terraCycleSubmission.findMany({
+      where: { userId },
+      orderBy: { labelRequestedAt: 'desc' },
+    }),
+    prisma.terraCycleStats.findUnique({ where: { userId } }),
+  ])
+
+  return { submissions: submissions.map(formatTerraCycleSubmission), stats }
+}
+
+/**
+ * Submissions for admins, oldest first so the queue is worked in order.
+ */
+export async function listTerraCycleSubmissions(params: {
+  status?: TerraCycleStatus
+  skip: number
+  take: number
+}) {
+  const where = params.status ? { status: params.status } : {}
+
+  const [submissions, total] = await Promise.all([
+    prisma.terraCycleSubmission.findMany({
+      where,
+      orderBy: { labelRequestedAt: 'asc' },
+      skip: params.skip,
+      take: params.take,
+    }),
+    prisma.terraCycleSubmission.count({ where }),
+  ])
+
+  return { submissions: submissions.map(formatTerraCycleSubmission), total }
+}
+
+/**
+ * Awards the points for a processed submission. The award is claimed on the
+ * submission first so it happens once, and released if it fails so a later
+ * attempt can retry it.
+ */
+async function awardTerraCyclePoints(
+  submission: { id: string; userId: string; visibleId: string },
+  points: number,
+  now: Date
+): Promise<number> {
+  const claim = await prisma.terraCycleSubmission.updateMany({
+    where: { id: submission.id, pointsAwardedAt: null },
+    data: { pointsAwarded: points, pointsAwardedAt: now },
+  })
+  if (claim.count === 0) {
+    return 0
+  }
+
+  const result = await awardPoints({
+    userId: submission.userId,
+    points,
+    source: POINT_SOURCES.RECYCLING,
+    description: `Recycling with TerraCycle (${submission.visibleId})`,
+  })
+
+  if (!result.success) {
+    await prisma.terraCycleSubmission.update({
+      where: { id: submission.id },
+      data: { pointsAwarded: 0, pointsAwardedAt: null },
+    })
+    logger.error('Failed to award TerraCycle points', undefined, {
+      submissionId: submission.id,
+      points,
+    })
+    return 0
+  }
+
+  await prisma.terraCycleStats.update({
+    where: { userId: submission.userId },
+    data: { totalPointsEarned: { increment: points } },
+  })
+
+  return points
+}
+
+/**
+ * Moves a submission to its next status (admin). Processing records the
+ * weight, materials and savings, adds them to the customer's stats and
+ * awards loyalty points.
+ */
+export async function advanceTerraCycleSubmission(
+  submissionId: string,
+  input: AdvanceTerraCycleInput,
+  now: Date = new Date()
+) {
+  const submission = await prisma.terraCycleSubmission.findUnique({
+    where: { id: submissionId },
+  })
+
+  if (!submission) {
+    return failure('Recycling shipment not found', 'NOT_FOUND')
+  }
+
+  if (!canAdvanceTerraCycleStatus(submission.status, input.status)) {
+    return failure(
+      `Cannot move a ${submission.status} shipment to ${input.status}`,
+      'INVALID_TRANSITION'
+    )
+  }
+
+  if (input.status === STATUS.LABEL_SENT && !input.shippingLabelUrl) {
+    return failure('A shipping label URL is required', 'MISSING_DETAILS')
+  }
+
+  if (input.status === STATUS.PROCESSED && input.weightKg === undefined) {
+    return failure('The processed weight is required', 'MISSING_DETAILS')
+  }
+
+  const shipping = {
+    ...(input.shippingLabelUrl ? { shippingLabelUrl: input.shippingLabelUrl } : {}),
+    ...(input.trackingNumber ? { trackingNumber: input.trackingNumber } : {}),
+    ...(input.carrier ? { carrier: input.carrier } : {}),
+  }
+
+  if (input.status !== STATUS.PROCESSED) {
+    const result = await prisma.terraCycleSubmission.updateMany({
+      where: { id: submission.id, status: submission.status },
+      data: {
+        status: input.status,
+        ...shipping,
+        ...(input.itemCount !== undefined ? { itemCount: input.itemCount } : {}),
+        ...(input.status === STATUS.RECEIVED ? { receivedAt: now } : {}),
+      },
+    })
+    if (result.count === 0) {
+      return failure('The shipment was updated by someone else', 'INVALID_TRANSITION')
+    }
+
+    return {
+      success: true as const,
+      before: formatTerraCycleSubmission(submission),
+      submission: formatTerraCycleSubmission(
+        await prisma.terraCycleSubmission.findUniqueOrThrow({ where: { id: submission.id } })
+      ),
+      pointsAwarded: 0,
+    }
+  }
+
+  const weightKg = input.weightKg as number
+  const materials = input.materials ?? []
+  const itemCount = input.itemCount ?? submission.itemCount ?? 0
+  const impact = calculateTerraCycleImpact(weightKg, materials)
+
+  const processed = await prisma.$transaction(async (tx) => {
+    const result = await tx.terraCycleSubmission.updateMany({
+      where: { id: submission.id, status: STATUS.RECEIVED },
+      data: {
+        status: STATUS.PROCESSED,
+        ...shipping,
+        itemCount,
+        weightKg,
+        materialsRecycled: JSON.stringify(materials),
+        impactMetrics: JSON.stringify(impact),
+        processedAt: now,
+      },
+    })
+    if (result.count === 0) {
+      return false
+    }
+
+    await tx.terraCycleStats.upsert({
+      where: { userId: submission.userId },
+      create: {
+        userId: submission.userId,
+        totalSubmissions: 1,
+        totalItemsRecycled: itemCount,
+        totalWeightKg: weightKg,
+        plasticSavedKg: impact.plasticSavedKg,
+        co2SavedKg: impact.co2SavedKg,
+        waterSavedLiters: impact.waterSavedLiters,
+        lastSubmissionAt: submission.labelRequestedAt,
+      },
+      update: {
+        totalItemsRecycled: { increment: itemCount },
+        totalWeightKg: { increment: weightKg },
+        plasticSavedKg: { increment: impact.plasticSavedKg },
+        co2SavedKg: { increment: impact.co2SavedKg },
+        waterSavedLiters: { increment: impact.waterSavedLiters },
+      },
+    })
+
+    return true
+  })
+
+  if (!processed) {
+    return failure('The shipment was updated by someone else', 'INVALID_TRANSITION')
+  }
+
+  const pointsAwarded = await awardTerraCyclePoints(
+    submission,
+    calculateTerraCyclePoints(weightKg),
+    now
+  )
+
+  logger.info('TerraCycle submission processed', {
+    submissionId: submission.id,
+    userId: submission.userId,
+    weightKg,
+    pointsAwarded,
+  })
+
+  return {
+    success: true as const,
+    before: formatTerraCycleSubmission(submission),
+    submission: formatTerraCycleSubmission(
+      await prisma.terraCycleSubmission.findUniqueOrThrow({ where: { id: submission.id } })
+    ),
+    pointsAwarded,
+  }
+}
+
+function parseJson<T>(value: string | null): T | null {
+  if (!value) {
+    return null
+  }
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return null
+  }
+}
+
+type TerraCycleSubmissionRecord = Awaited<
+  ReturnType<typeof prisma.terraCycleSubmission.findUniqueOrThrow>
+>
+
+/**
+ * Format a submission for API responses, parsing its stored JSON.
+ */
+export function formatTerraCycleSubmission(submission: TerraCycleSubmissionRecord) {
+  return {
+    ...submission,
+    materialsRecycled: parseJson<TerraCycleMaterialWeight[]>(submission.materialsRecycled),
+    impactMetrics: parseJson<TerraCycleImpact>(submission.impactMetrics),
+  }
+}
@@ -0,0 +1,453 @@
+/**
+ * Two-Factor Authentication
+ *
+ * Time-based one-time passwords (RFC 6238, HMAC-SHA1, 6 digits, 30 second
+ * steps) plus single-use recovery codes for credentials sign-in.
+ *
+ * Enrollment is two steps: `startTwoFactorEnrollment` stores a new secret
+ * and returns the provisioning QR code, then `confirmTwoFactorEnrollment`
+ * turns 2FA on once the shopper proves their authenticator app works.
+ *
+ * - The TOTP secret is stored AES-256-GCM encrypted with a key derived from
+ *   AUTH_SECRET, so a database leak alone does not expose it.
+ * - Recovery codes are stored as SHA-256 hashes and burn on use.
+ * - Each accepted TOTP step is recorded so a code cannot be replayed.
+ * - ADMIN and EDITOR accounts must enroll before admin access is granted.
+ *
+ * @module lib/two-factor
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from 'crypto'
+import QRCode from 'qrcode'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+
+export const TWO_FACTOR_CONFIG = {
+  ISSUER: 'Link Flame',
+  DIGITS: 6,
+  PERIOD_SECONDS: 30,
+  // Steps accepted either side of the current one, to allow for clock drift
+  WINDOW: 1,
+  SECRET_BYTES: 20,
+  RECOVERY_CODE_COUNT: 10,
+  // Roles that must enroll before admin pages and APIs are reachable
+  REQUIRED_ROLES: ['ADMIN', 'EDITOR'],
+} as const
+
+/**
+ * Failure result for enrollment and management. `code` lets routes pick a
+ * status.
+ */
+export interface TwoFactorFailure {
+  success: false
+  error: string
+  code: 'ALREADY_ENABLED' | 'NOT_ENABLED' | 'SETUP_REQUIRED' | 'INVALID_CODE'
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: Date | null
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error('Invalid base32 character')
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+export function getTimeStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TWO_FACTOR_CONFIG.PERIOD_SECONDS)
+}
+
+/**
+ * Computes the TOTP code for a base32 secret at the given time step.
+ */
+export function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+
+  return (binary % 10 ** TWO_FACTOR_CONFIG.DIGITS)
+    .toString()
+    .padStart(TWO_FACTOR_CONFIG.DIGITS, '0')
+}
+
+/**
+ * Returns the time step a code matches within the drift window, or null.
+ */
+export function findTotpStep(secret: string, code: string, now: Date = new Date()): number | null {
+  if (!new RegExp(`^\\d{${TWO_FACTOR_CONFIG.DIGITS}}$`).test(code)) {
+    return null
+  }
+
+  const current = getTimeStep(now)
+  for (let drift = -TWO_FACTOR_CONFIG.WINDOW; drift <= TWO_FACTOR_CONFIG.WINDOW; drift += 1) {
+    const step = current + drift
+    if (timingSafeEqual(Buffer.from(generateTotp(secret, step)), Buffer.from(code))) {
+      return step
+    }
+  }
+
+  return null
+}
+
+export function generateTwoFactorSecret(): string {
+  return base32Encode(randomBytes(TWO_FACTOR_CONFIG.SECRET_BYTES))
+}
+
+export function getOtpauthUrl(email: string, secret: string): string {
+  const issuer = encodeURIComponent(TWO_FACTOR_CONFIG.ISSUER)
+  const label = `${issuer}:${encodeURIComponent(email)}`
+  const params = new URLSearchParams({
+    secret,
+    issuer: TWO_FACTOR_CONFIG.ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TWO_FACTOR_CONFIG.DIGITS),
+    period: String(TWO_FACTOR_CONFIG.PERIOD_SECONDS),
+  })
+
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+/**
+ * Codes are typed by hand, so spacing, dashes and case are ignored.
+ */
+export function normalizeTwoFactorCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase()
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeTwoFactorCode(code)).digest('hex')
+}
+
+/**
+ * Generates a fresh set of recovery codes formatted as `xxxxx-xxxxx`.
+ */
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: TWO_FACTOR_CONFIG.RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex')
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`
+  })
+}
+
+export function isTwoFactorRequiredForRole(role: string | null | undefined): boolean {
+  return !!role && (TWO_FACTOR_CONFIG.REQUIRED_ROLES as readonly string[]).includes(role)
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET is required for two-factor authentication')
+  }
+  return createHash('sha256').update(`two-factor:${secret}`).digest()
+}
+
+export function encryptTwoFactorSecret(secret: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join(':')
+}
+
+export function decryptTwoFactorSecret(payload: string): string {
+  const [iv, tag, encrypted] = payload.split(':').map((part) => Buffer.from(part, 'base64'))
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv)
+  decipher.setAuthTag(tag)
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8')
+}
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, twoFactorEnabled: true, twoFactorEnabledAt: true },
+  })
+
+  if (!user) {
+    return null
+  }
+
+  const recoveryCodesRemaining = user.twoFactorEnabled
+    ? await prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } })
+    : 0
+
+  return {
+    enabled: user.twoFactorEnabled,
+    enabledAt: user.twoFactorEnabledAt,
+    required: isTwoFactorRequiredForRole(user.role),
+    recoveryCodesRemaining,
+  }
+}
+
+/**
+ * Whether the account meets the 2FA policy for its role. Accounts in
+ * REQUIRED_ROLES only pass once enrolled; everyone else always passes.
+ */
+export function meetsTwoFactorPolicy(user: { role: string; twoFactorEnabled: boolean }): boolean {
+  return !isTwoFactorRequiredForRole(user.role) || user.twoFactorEnabled
+}
+
+/**
+ * Stores a new (not yet active) secret and returns what the authenticator
+ * app needs. Restarting enrollment replaces any unconfirmed secret.
+ */
+export async function startTwoFactorEnrollment(
+  userId: string
+): Promise<
+  { success: true; secret: string; otpauthUrl: string; qrCodeDataUrl: string } | TwoFactorFailure
+> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, twoFactorEnabled: true },
+  })
+
+  if (!user) {
+    return twoFactorFailure('User not found', 'SETUP_REQUIRED')
+  }
+
+  if (user.twoFactorEnabled) {
+    return twoFactorFailure('Two-factor authentication is already enabled', 'ALREADY_ENABLED')
+  }
+
+  const secret = generateTwoFactorSecret()
+  const otpauthUrl = getOtpauthUrl(user.email, secret)
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorSecret: encryptTwoFactorSecret(secret), twoFactorLastStep: null },
+  })
+
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl)
+
+  return { success: true, secret, otpauthUrl, qrCodeDataUrl }
+}
+
+/**
+ * Turns 2FA on once a code from the pending secret checks out, and issues
+ * the first set of recovery codes. The plaintext codes are only ever
+ * returned here.
+ */
+export async function confirmTwoFactorEnrollment(
+  userId: string,
+  code: string,
+  now: Date = new Date()
+): Promise<{ success: true; recoveryCodes: string[] } | TwoFactorFailure> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorSecret: true },
+  })
+
+  if (user?.twoFactorEnabled) {
+    return twoFactorFailure('Two-factor authentication is already enabled', 'ALREADY_ENABLED')
+  }
+
+  if (!user?.twoFactorSecret) {
+    return twoFactorFailure('Start two-factor setup before confirming it', 'SETUP_REQUIRED')
+  }
+
+  const step = findTotpStep(
+    decryptTwoFactorSecret(user.twoFactorSecret),
+    normalizeTwoFactorCode(code),
+    now
+  )
+
+  if (step === null) {
+    return twoFactorFailure('Invalid authentication code', 'INVALID_CODE')
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabled: true, twoFactorEnabledAt: now, twoFactorLastStep: step },
+    }),
+    ...replaceRecoveryCodes(userId, recoveryCodes),
+  ])
+
+  logger.info('Two-factor authentication enabled', { userId })
+
+  return { success: true, recoveryCodes }
+}
+
+/**
+ * Checks a sign-in or confirmation code. Accepts a current TOTP code (each
+ * time step only once) or an unused recovery code, which is burned.
+ */
+export async function verifyTwoFactorCode(
+  userId: string,
+  code: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorSecret: true, twoFactorLastStep: true },
+  })
+
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+    return false
+  }
+
+  const normalized = normalizeTwoFactorCode(code)
+
+  if (normalized.length === TWO_FACTOR_CONFIG.DIGITS && /^\d+$/.test(normalized)) {
+    const step = findTotpStep(decryptTwoFactorSecret(user.twoFactorSecret), normalized, now)
+    if (step === null || (user.twoFactorLastStep !== null && step <= user.twoFactorLastStep)) {
+      return false
+    }
+
+    // Conditional claim so two concurrent sign-ins cannot share one code
+    const claimed = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    })
+
+    return claimed.count > 0
+  }
+
+  const burned = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(normalized), usedAt: null },
+    data: { usedAt: now },
+  })
+
+  if (burned.count > 0) {
+    logger.info('Two-factor recovery code used', { userId })
+    return true
+  }
+
+  return false
+}
+
+/**
+ * Replaces the account's recovery codes after checking a current code.
+ */
+export async function regenerateRecoveryCodes(
+  userId: string,
+  code: string,
+  now: Date = new Date()
+): Promise<{ success: true; recoveryCodes: string[] } | TwoFactorFailure> {
+  const status = await getTwoFactorStatus(userId)
+  if (!status?.enabled) {
+    return twoFactorFailure('Two-factor authentication is not enabled', 'NOT_ENABLED')
+  }
+
+  if (!(await verifyTwoFactorCode(userId, code, now))) {
+    return twoFactorFailure('Invalid authentication code', 'INVALID_CODE')
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+  await prisma.$transaction(replaceRecoveryCodes(userId, recoveryCodes))
+
+  logger.info('Two-factor recovery codes regenerated', { userId })
+
+  return { success: true, recoveryCodes }
+}
+
+/**
+ * Turns 2FA off after checking a current code. Bumps tokenVersion so every
+ * existing session has to sign in again.
+ */
+export async function disableTwoFactor(
+  userId: string,
+  code: string,
+  now: Date = new Date()
+): Promise<{ success: true } | TwoFactorFailure> {
+  const status = await getTwoFactorStatus(userId)
+  if (!status?.enabled) {
+    return twoFactorFailure('Two-factor authentication is not enabled', 'NOT_ENABLED')
+  }
+
+  if (!(await verifyTwoFactorCode(userId, code, now))) {
+    return twoFactorFailure('Invalid authentication code', 'INVALID_CODE')
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastStep: null,
+        tokenVersion: { increment: 1 },
+      },
+    }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  ])
+
+  logger.info('Two-factor authentication disabled', { userId })
+
+  return { success: true }
+}
+
+function replaceRecoveryCodes(userId: string, recoveryCodes: string[]) {
+  return [
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: recoveryCodes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]
+}
+
+function twoFactorFailure(error: string, code: TwoFactorFailure['code']): TwoFactorFailure {
+  return { success: false, error, code }
+}
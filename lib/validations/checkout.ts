@@ -8,6 +8,9 @@ export const GiftOptionsSchema = z.object({
   hidePrice: z.boolean().default(false),
 })
 
+const US_ZIP_CODE = /^\d{5}(-\d{4})?$/
+const CA_POSTAL_CODE = /^[A-Za-z]\d[A-Za-z] ?\d[A-Za-z]\d$/
+
 export const CheckoutSchema = z.object({
   email: z.string().email('Invalid email address'),
   firstName: z.string().min(1, 'First name is required'),
@@ -15,12 +18,30 @@ export const CheckoutSchema = z.object({
   address: z.string().min(1, 'Address is required'),
   city: z.string().min(1, 'City is required'),
   state: z.string().min(1, 'State is required'),
-  zipCode: z.string().regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format'),
+  zipCode: z.string().trim().min(1, 'ZIP code is required'),
+  // Destination country; shipping is quoted for it and Stripe only collects
+  // addresses there
+  country: z.enum(['US', 'CA']).default('US'),
   ...GiftOptionsSchema.shape,
   // Optional discount fields
+  promoCode: z.string().trim().min(1).max(32).optional(),
   loyaltyPointsToRedeem: z.number().int().positive().optional(),
   giftCardCode: z.string().trim().min(1).max(20).optional(),
   giftCardAmount: z.number().positive().optional(),
+  // Opt-in carbon offset for the order's products and shipping
+  carbonOffset: z.boolean().default(false),
+}).superRefine((data, ctx) => {
+  const valid = data.country === 'CA'
+    ? CA_POSTAL_CODE.test(data.zipCode)
+    : US_ZIP_CODE.test(data.zipCode)
+
+  if (!valid) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['zipCode'],
+      message: data.country === 'CA' ? 'Invalid postal code format' : 'Invalid ZIP code format',
+    })
+  }
 })
 
 export type CheckoutInput = z.infer<typeof CheckoutSchema>
@@ -0,0 +1,55 @@
+import { z } from 'zod'
+
+const scopeListSchema = z.array(z.string().trim().min(1).max(100)).max(100)
+
+const PromoCodeFieldsSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9_-]{3,32}$/, 'Code must be 3-32 letters, numbers, dashes or underscores'),
+  description: z.string().max(500, 'Description must be 500 characters or less').nullable().optional(),
+  type: z.enum(['PERCENT', 'FIXED', 'FREE_SHIPPING']),
+  value: z.number().min(0, 'Value cannot be negative').max(100000).default(0),
+  minSubtotal: z.number().positive('Minimum subtotal must be positive').nullable().optional(),
+  usageLimit: z.number().int().positive('Usage limit must be positive').nullable().optional(),
+  usageLimitPerCustomer: z.number().int().positive('Per-customer limit must be positive').nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().default(true),
+  categories: scopeListSchema.optional(),
+  brandIds: scopeListSchema.optional(),
+  productIds: scopeListSchema.optional(),
+})
+
+export const CreatePromoCodeSchema = PromoCodeFieldsSchema
+  .refine((data) => data.type !== 'PERCENT' || (data.value > 0 && data.value <= 100), {
+    message: 'Percent discounts must be between 0 and 100',
+    path: ['value'],
+  })
+  .refine((data) => data.type !== 'FIXED' || data.value > 0, {
+    message: 'Fixed discounts must be greater than 0',
+    path: ['value'],
+  })
+  .refine((data) => !data.startsAt || !data.endsAt || data.startsAt < data.endsAt, {
+    message: 'End date must be after start date',
+    path: ['endsAt'],
+  })
+
+// Code and type are immutable once created so existing redemptions stay meaningful
+export const UpdatePromoCodeSchema = PromoCodeFieldsSchema
+  .omit({ code: true, type: true })
+  .partial()
+  .refine((data) => !data.startsAt || !data.endsAt || data.startsAt < data.endsAt, {
+    message: 'End date must be after start date',
+    path: ['endsAt'],
+  })
+
+export const ValidatePromoCodeSchema = z.object({
+  code: z.string().trim().min(1, 'Promo code is required').max(32),
+  email: z.string().email('Invalid email address').optional(),
+})
+
+export type CreatePromoCodeInput = z.infer<typeof CreatePromoCodeSchema>
+export type UpdatePromoCodeInput = z.infer<typeof UpdatePromoCodeSchema>
+export type ValidatePromoCodeInput = z.infer<typeof ValidatePromoCodeSchema>
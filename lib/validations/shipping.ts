@@ -0,0 +1,45 @@
+import { z } from 'zod'
+
+const codeListSchema = z
+  .array(z.string().trim().min(2).max(10))
+  .max(100)
+
+export const ShippingRateSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Rate name is required').max(100),
+    speed: z.enum(['standard', 'express']).default('standard'),
+    basis: z.enum(['subtotal', 'weight']).default('subtotal'),
+    minThreshold: z.number().min(0).default(0),
+    maxThreshold: z.number().positive().nullable().optional(),
+    price: z.number().min(0, 'Price cannot be negative').max(10000),
+    minDeliveryDays: z.number().int().min(0).max(60).default(5),
+    maxDeliveryDays: z.number().int().min(0).max(60).default(7),
+    sortOrder: z.number().int().min(0).default(0),
+    isActive: z.boolean().default(true),
+  })
+  .refine((data) => data.maxThreshold == null || data.maxThreshold > data.minThreshold, {
+    message: 'Maximum threshold must be greater than minimum threshold',
+    path: ['maxThreshold'],
+  })
+  .refine((data) => data.maxDeliveryDays >= data.minDeliveryDays, {
+    message: 'Maximum delivery days must be at least the minimum',
+    path: ['maxDeliveryDays'],
+  })
+
+// Zones are saved with their full rate table (rates are replaced on update)
+export const ShippingZoneSchema = z.object({
+  name: z.string().trim().min(1, 'Zone name is required').max(100),
+  countries: codeListSchema.min(1, 'At least one country is required'),
+  states: codeListSchema.optional(),
+  priority: z.number().int().min(0).max(1000).default(0),
+  isActive: z.boolean().default(true),
+  rates: z.array(ShippingRateSchema).max(20).default([]),
+})
+
+export const ShippingQuoteQuerySchema = z.object({
+  country: z.string().trim().length(2, 'Country must be a 2-letter code').default('US'),
+  state: z.string().trim().max(50).optional(),
+})
+
+export type ShippingRateInput = z.infer<typeof ShippingRateSchema>
+export type ShippingZoneInput = z.infer<typeof ShippingZoneSchema>
@@ -0,0 +1,42 @@
+import { z } from 'zod'
+import { TERRACYCLE_CONFIG } from '@/lib/terracycle'
+
+const trackingFields = {
+  trackingNumber: z.string().trim().min(1).max(100).optional(),
+  carrier: z.string().trim().min(1).max(50).optional(),
+}
+
+export const RequestTerraCycleLabelSchema = z.object({
+  itemCount: z.number().int().min(1, 'Item count must be at least 1').max(1000).optional(),
+  notes: z.string().trim().max(500, 'Notes must be 500 characters or less').optional(),
+})
+
+export const MarkTerraCycleShippedSchema = z.object(trackingFields)
+
+// Admins attach the label, record arrival, then record the processed weight
+export const AdvanceTerraCycleSchema = z.object({
+  status: z.enum(['LABEL_SENT', 'RECEIVED', 'PROCESSED']),
+  shippingLabelUrl: z.string().url('Shipping label must be a URL').max(2000).optional(),
+  ...trackingFields,
+  itemCount: z.number().int().min(0).max(10000).optional(),
+  weightKg: z.number().positive('Weight must be positive').max(1000).optional(),
+  materials: z
+    .array(
+      z.object({
+        material: z.enum(TERRACYCLE_CONFIG.MATERIALS),
+        weightKg: z.number().positive().max(1000),
+      })
+    )
+    .max(TERRACYCLE_CONFIG.MATERIALS.length)
+    .optional(),
+})
+
+export const TerraCycleListQuerySchema = z.object({
+  status: z.enum(['PENDING', 'LABEL_SENT', 'SHIPPED', 'RECEIVED', 'PROCESSED']).optional(),
+  page: z.coerce.number().int().min(1).max(10000).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+export type RequestTerraCycleLabelInput = z.infer<typeof RequestTerraCycleLabelSchema>
+export type MarkTerraCycleShippedInput = z.infer<typeof MarkTerraCycleShippedSchema>
+export type AdvanceTerraCycleSubmissionInput = z.infer<typeof AdvanceTerraCycleSchema>
@@ -0,0 +1,69 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "promoCodeId" TEXT,
+ADD COLUMN     "promoDiscountAmount" DECIMAL(10,2),
+ADD COLUMN     "promoRedemptionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PromoCode" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "type" TEXT NOT NULL,
+    "value" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "minSubtotal" DECIMAL(10,2),
+    "usageLimit" INTEGER,
+    "usageLimitPerCustomer" INTEGER,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "categories" TEXT,
+    "brandIds" TEXT,
+    "productIds" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PromoCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PromoCodeRedemption" (
+    "id" TEXT NOT NULL,
+    "promoCodeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "customerEmail" TEXT,
+    "orderId" TEXT,
+    "discountAmount" DECIMAL(10,2) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PromoCodeRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromoCode_code_key" ON "PromoCode"("code");
+
+-- CreateIndex
+CREATE INDEX "PromoCode_code_idx" ON "PromoCode"("code");
+
+-- CreateIndex
+CREATE INDEX "PromoCode_isActive_idx" ON "PromoCode"("isActive");
+
+-- CreateIndex
+CREATE INDEX "PromoCodeRedemption_promoCodeId_idx" ON "PromoCodeRedemption"("promoCodeId");
+
+-- CreateIndex
+CREATE INDEX "PromoCodeRedemption_promoCodeId_status_idx" ON "PromoCodeRedemption"("promoCodeId", "status");
+
+-- CreateIndex
+CREATE INDEX "PromoCodeRedemption_userId_idx" ON "PromoCodeRedemption"("userId");
+
+-- CreateIndex
+CREATE INDEX "PromoCodeRedemption_customerEmail_idx" ON "PromoCodeRedemption"("customerEmail");
+
+-- CreateIndex
+CREATE INDEX "PromoCodeRedemption_orderId_idx" ON "PromoCodeRedemption"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "PromoCodeRedemption" ADD CONSTRAINT "PromoCodeRedemption_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "PromoCode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
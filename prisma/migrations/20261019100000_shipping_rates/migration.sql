@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingAmount" DECIMAL(10,2),
+ADD COLUMN     "shippingMethod" TEXT;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "oversizeSurcharge" DECIMAL(10,2),
+ADD COLUMN     "weightGrams" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ShippingZone" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "countries" TEXT NOT NULL,
+    "states" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingRate" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "speed" TEXT NOT NULL DEFAULT 'standard',
+    "basis" TEXT NOT NULL DEFAULT 'subtotal',
+    "minThreshold" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "maxThreshold" DECIMAL(10,2),
+    "price" DECIMAL(10,2) NOT NULL,
+    "minDeliveryDays" INTEGER NOT NULL DEFAULT 5,
+    "maxDeliveryDays" INTEGER NOT NULL DEFAULT 7,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingZone_isActive_priority_idx" ON "ShippingZone"("isActive", "priority");
+
+-- CreateIndex
+CREATE INDEX "ShippingRate_zoneId_idx" ON "ShippingRate"("zoneId");
+
+-- AddForeignKey
+ALTER TABLE "ShippingRate" ADD CONSTRAINT "ShippingRate_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
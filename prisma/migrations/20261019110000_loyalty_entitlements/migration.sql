@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "earlyAccessUntil" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Profile" ADD COLUMN     "birthday" DATE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "LoyaltyPoints" ADD COLUMN     "expiredAt" TIMESTAMP(3),
+ADD COLUMN     "expiredPoints" INTEGER,
+ADD COLUMN     "expiryNotifiedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "LoyaltyPoints_expiresAt_expiredAt_idx" ON "LoyaltyPoints"("expiresAt", "expiredAt");
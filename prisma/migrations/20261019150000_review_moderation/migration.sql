@@ -0,0 +1,67 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "moderationReason" TEXT,
+ADD COLUMN     "moderatedAt" TIMESTAMP(3),
+ADD COLUMN     "moderatedById" TEXT,
+ADD COLUMN     "verifiedPurchase" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "helpfulCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "merchantReply" TEXT,
+ADD COLUMN     "merchantReplyAt" TIMESTAMP(3);
+
+-- Reviews published before moderation existed stay public
+UPDATE "Review" SET "status" = 'APPROVED', "moderatedAt" = "createdAt";
+
+-- Backfill verified purchases from paid orders
+UPDATE "Review" r SET "verifiedPurchase" = true
+WHERE EXISTS (
+    SELECT 1 FROM "OrderItem" oi
+    JOIN "Order" o ON o."id" = oi."orderId"
+    WHERE oi."productId" = r."productId"
+      AND o."userId" = r."userId"
+      AND o."status" IN ('paid', 'partially_refunded')
+);
+
+-- CreateTable
+CREATE TABLE "ReviewPhoto" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewPhoto_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewVote" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewVote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Review_productId_status_idx" ON "Review"("productId", "status");
+
+-- CreateIndex
+CREATE INDEX "Review_status_createdAt_idx" ON "Review"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReviewPhoto_reviewId_idx" ON "ReviewPhoto"("reviewId");
+
+-- CreateIndex
+CREATE INDEX "ReviewVote_userId_idx" ON "ReviewVote"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewVote_reviewId_userId_key" ON "ReviewVote"("reviewId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "ReviewPhoto" ADD CONSTRAINT "ReviewPhoto_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewVote" ADD CONSTRAINT "ReviewVote_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewVote" ADD CONSTRAINT "ReviewVote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "averageRating" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "reviewCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingCount1" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingCount2" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingCount3" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingCount4" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingCount5" INTEGER NOT NULL DEFAULT 0;
+
+-- Seed aggregates from approved reviews (`npm run reviews:backfill-ratings` re-syncs later)
+UPDATE "Product" p SET
+    "averageRating" = agg."averageRating",
+    "reviewCount" = agg."reviewCount",
+    "ratingCount1" = agg."ratingCount1",
+    "ratingCount2" = agg."ratingCount2",
+    "ratingCount3" = agg."ratingCount3",
+    "ratingCount4" = agg."ratingCount4",
+    "ratingCount5" = agg."ratingCount5"
+FROM (
+    SELECT "productId",
+        AVG("rating")::DOUBLE PRECISION AS "averageRating",
+        COUNT(*)::INTEGER AS "reviewCount",
+        COUNT(*) FILTER (WHERE "rating" = 1)::INTEGER AS "ratingCount1",
+        COUNT(*) FILTER (WHERE "rating" = 2)::INTEGER AS "ratingCount2",
+        COUNT(*) FILTER (WHERE "rating" = 3)::INTEGER AS "ratingCount3",
+        COUNT(*) FILTER (WHERE "rating" = 4)::INTEGER AS "ratingCount4",
+        COUNT(*) FILTER (WHERE "rating" = 5)::INTEGER AS "ratingCount5"
+    FROM "Review"
+    WHERE "status" = 'APPROVED'
+    GROUP BY "productId"
+) agg
+WHERE p."id" = agg."productId";
+
+-- CreateIndex
+CREATE INDEX "Product_averageRating_createdAt_idx" ON "Product"("averageRating" DESC, "createdAt" DESC);
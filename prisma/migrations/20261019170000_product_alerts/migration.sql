@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "ProductAlert" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "userId" TEXT,
+    "email" TEXT NOT NULL,
+    "priceAtSubscribe" DECIMAL(10,2),
+    "unsubscribeToken" TEXT NOT NULL,
+    "triggeredAt" TIMESTAMP(3),
+    "triggeredPrice" DECIMAL(10,2),
+    "notifiedAt" TIMESTAMP(3),
+    "unsubscribedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductAlert_unsubscribeToken_key" ON "ProductAlert"("unsubscribeToken");
+
+-- CreateIndex
+CREATE INDEX "ProductAlert_productId_type_idx" ON "ProductAlert"("productId", "type");
+
+-- CreateIndex
+CREATE INDEX "ProductAlert_triggeredAt_notifiedAt_idx" ON "ProductAlert"("triggeredAt", "notifiedAt");
+
+-- CreateIndex
+CREATE INDEX "ProductAlert_email_idx" ON "ProductAlert"("email");
+
+-- CreateIndex
+CREATE INDEX "ProductAlert_userId_idx" ON "ProductAlert"("userId");
+
+-- One open alert per email, target and type (not expressible in the Prisma schema)
+CREATE UNIQUE INDEX "ProductAlert_open_subscription_key" ON "ProductAlert"("email", "productId", COALESCE("variantId", ''), "type")
+WHERE "notifiedAt" IS NULL AND "unsubscribedAt" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "ProductAlert" ADD CONSTRAINT "ProductAlert_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductAlert" ADD CONSTRAINT "ProductAlert_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductAlert" ADD CONSTRAINT "ProductAlert_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
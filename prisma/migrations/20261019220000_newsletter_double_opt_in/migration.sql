@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Newsletter" ADD COLUMN     "confirmedAt" TIMESTAMP(3),
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "topics" TEXT[] DEFAULT ARRAY['DEALS', 'BLOG_DIGEST', 'IMPACT_REPORTS']::TEXT[],
+ADD COLUMN     "unsubscribedAt" TIMESTAMP(3),
+ADD COLUMN     "userId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Newsletter_status_idx" ON "Newsletter"("status");
+
+-- CreateIndex
+CREATE INDEX "Newsletter_userId_idx" ON "Newsletter"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Newsletter" ADD CONSTRAINT "Newsletter_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing subscribers signed up before double opt-in and were already sent a
+-- welcome email; keep them subscribed
+UPDATE "Newsletter" SET "status" = 'CONFIRMED', "confirmedAt" = "subscribedAt";
+
+-- Link subscribers to the accounts that share their address
+UPDATE "Newsletter" n SET "userId" = u."id" FROM "User" u WHERE u."email" = n."email";
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "EmailOutboxMessage" (
+    "id" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "from" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "replyTo" TEXT,
+    "subject" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "headers" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailOutboxMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmailOutboxMessage_to_idx" ON "EmailOutboxMessage"("to");
+
+-- CreateIndex
+CREATE INDEX "EmailOutboxMessage_createdAt_idx" ON "EmailOutboxMessage"("createdAt");
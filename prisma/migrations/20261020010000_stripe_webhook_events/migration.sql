@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "StripeWebhookEvent" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RECEIVED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "processingMs" INTEGER,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StripeWebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StripeWebhookEvent_eventId_endpoint_key" ON "StripeWebhookEvent"("eventId", "endpoint");
+
+-- CreateIndex
+CREATE INDEX "StripeWebhookEvent_status_idx" ON "StripeWebhookEvent"("status");
+
+-- CreateIndex
+CREATE INDEX "StripeWebhookEvent_type_idx" ON "StripeWebhookEvent"("type");
+
+-- CreateIndex
+CREATE INDEX "StripeWebhookEvent_receivedAt_idx" ON "StripeWebhookEvent"("receivedAt");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "dunningAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "dunningInvoiceId" TEXT,
+ADD COLUMN     "dunningStartedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Subscription_dunningStartedAt_idx" ON "Subscription"("dunningStartedAt");
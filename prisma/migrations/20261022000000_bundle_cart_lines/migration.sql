@@ -0,0 +1,23 @@
+-- DropIndex
+DROP INDEX "CartItem_userId_productId_variantId_key";
+
+-- AlterTable
+ALTER TABLE "CartItem" ADD COLUMN     "bundleSelectionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "bundleSelectionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "CartItem_bundleSelectionId_idx" ON "CartItem"("bundleSelectionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartItem_userId_productId_variantId_bundleSelectionId_key" ON "CartItem"("userId", "productId", "variantId", "bundleSelectionId");
+
+-- CreateIndex
+CREATE INDEX "OrderItem_bundleSelectionId_idx" ON "OrderItem"("bundleSelectionId");
+
+-- AddForeignKey
+ALTER TABLE "CartItem" ADD CONSTRAINT "CartItem_bundleSelectionId_fkey" FOREIGN KEY ("bundleSelectionId") REFERENCES "BundleSelection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_bundleSelectionId_fkey" FOREIGN KEY ("bundleSelectionId") REFERENCES "BundleSelection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- DropIndex
+DROP INDEX "CartItem_userId_productId_variantId_bundleSelectionId_key";
+
+-- AlterTable
+ALTER TABLE "CartItem" ADD COLUMN     "imperfectBatchId" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "imperfectBatchId" TEXT;
+
+-- AlterTable
+ALTER TABLE "InventoryReservation" ADD COLUMN     "imperfectBatchId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ImperfectBatch" ADD COLUMN     "soldOutAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "CartItem_imperfectBatchId_idx" ON "CartItem"("imperfectBatchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartItem_userId_productId_variantId_bundleSelectionId_imper_key" ON "CartItem"("userId", "productId", "variantId", "bundleSelectionId", "imperfectBatchId");
+
+-- CreateIndex
+CREATE INDEX "OrderItem_imperfectBatchId_idx" ON "OrderItem"("imperfectBatchId");
+
+-- CreateIndex
+CREATE INDEX "InventoryReservation_imperfectBatchId_status_expiresAt_idx" ON "InventoryReservation"("imperfectBatchId", "status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "CartItem" ADD CONSTRAINT "CartItem_imperfectBatchId_fkey" FOREIGN KEY ("imperfectBatchId") REFERENCES "ImperfectBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_imperfectBatchId_fkey" FOREIGN KEY ("imperfectBatchId") REFERENCES "ImperfectBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryReservation" ADD CONSTRAINT "InventoryReservation_imperfectBatchId_fkey" FOREIGN KEY ("imperfectBatchId") REFERENCES "ImperfectBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "carbonOffsetAmount" DECIMAL(10,2),
+ADD COLUMN     "carbonOffsetKg" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "CarbonOffset" ADD COLUMN     "providerReference" TEXT;
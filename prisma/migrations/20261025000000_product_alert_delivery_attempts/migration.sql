@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ProductAlert" ADD COLUMN     "deliveryAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastDeliveryError" TEXT;
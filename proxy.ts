@@ -76,7 +76,8 @@ export const proxy = auth((req) => {
 
   if (isProtectedRoute && !isLoggedIn) {
     const signInUrl = new URL('/auth/signin', req.url)
-    signInUrl.searchParams.set('callbackUrl', pathname)
+    // Keep the query so email links (e.g. ?updateBilling=) survive sign-in
+    signInUrl.searchParams.set('callbackUrl', `${pathname}${req.nextUrl.search}`)
     const response = NextResponse.redirect(signInUrl)
     response.headers.set('x-request-id', requestId)
     return response
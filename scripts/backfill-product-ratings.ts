@@ -0,0 +1,32 @@
+/**
+ * Product rating aggregates backfill (CLI)
+ *
+ * Recomputes each product's averageRating, reviewCount and per-star counts
+ * from its approved reviews and fixes any that have drifted. Safe to re-run.
+ *
+ * Usage:
+ *   npm run reviews:backfill-ratings
+ *   npm run reviews:backfill-ratings -- --dry-run   # only report drift
+ */
+
+import { prisma } from '@/lib/prisma'
+import { backfillProductRatings } from '@/lib/reviews'
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run')
+  const result = await backfillProductRatings({ dryRun })
+
+  console.log(
+    `${result.productsUpdated} of ${result.productsChecked} product(s) ` +
+      (dryRun ? 'have out-of-date rating aggregates' : 'updated')
+  )
+}
+
+main()
+  .catch((error) => {
+    console.error('Product rating backfill failed:', error)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,52 @@
+/**
+ * Loyalty points expiry (CLI)
+ *
+ * Runs the same work as the scheduled /api/cron/loyalty-points-expiry job:
+ * writes off lapsed points and emails customers whose points expire soon.
+ *
+ * Usage:
+ *   npm run loyalty:expire-points
+ *   npm run loyalty:expire-points -- --dry-run   # only report what is due
+ */
+
+import { prisma } from '@/lib/prisma'
+import { notifyExpiringPoints, sweepExpiredPoints } from '@/lib/loyalty'
+
+async function main() {
+  const now = new Date()
+
+  if (process.argv.includes('--dry-run')) {
+    const due = await prisma.loyaltyPoints.findMany({
+      where: { expiresAt: { lte: now }, expiredAt: null, points: { gt: 0 } },
+      select: { userId: true },
+      distinct: ['userId'],
+    })
+    console.log(`${due.length} user(s) have lapsed points awaiting the sweep`)
+    return
+  }
+
+  const sweep = await sweepExpiredPoints(now)
+  console.log(
+    `Expired ${sweep.pointsExpired} points for ${sweep.usersProcessed} user(s)` +
+      (sweep.failures > 0 ? ` (${sweep.failures} failed)` : '')
+  )
+
+  const reminders = await notifyExpiringPoints(now)
+  console.log(
+    `Sent ${reminders.usersNotified} expiring-soon reminder(s)` +
+      (reminders.failures > 0 ? ` (${reminders.failures} failed)` : '')
+  )
+
+  if (sweep.failures > 0 || reminders.failures > 0) {
+    process.exitCode = 1
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Loyalty points expiry failed:', error)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
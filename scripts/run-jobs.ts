@@ -0,0 +1,72 @@
+/**
+ * Background job worker (CLI)
+ *
+ * Runs the same work as the scheduled /api/cron/jobs route, batch after
+ * batch until no job is due. Also the place to inspect and requeue jobs that
+ * exhausted their retries.
+ *
+ * Usage:
+ *   npm run jobs:work
+ *   npm run jobs:work -- --dead             # list dead jobs
+ *   npm run jobs:work -- --retry <jobId>    # requeue a dead job
+ */
+
+import { prisma } from '@/lib/prisma'
+import { listDeadJobs, retryJob } from '@/lib/jobs'
+import { runDueJobs } from '@/lib/job-handlers'
+
+async function main() {
+  const args = process.argv.slice(2)
+
+  if (args.includes('--dead')) {
+    const jobs = await listDeadJobs()
+    for (const job of jobs) {
+      console.log(`${job.id}  ${job.type}  ${job.idempotencyKey}  (${job.attempts} attempts)`)
+      console.log(`  ${job.lastError ?? 'no error recorded'}`)
+    }
+    console.log(`${jobs.length} dead job(s)`)
+    return
+  }
+
+  const retryIndex = args.indexOf('--retry')
+  if (retryIndex !== -1) {
+    const jobId = args[retryIndex + 1]
+    if (!jobId || !(await retryJob(jobId))) {
+      console.error(`No dead job found with id ${jobId ?? '(missing)'}`)
+      process.exitCode = 1
+      return
+    }
+    console.log(`Requeued job ${jobId}`)
+    return
+  }
+
+  const totals = { claimed: 0, succeeded: 0, retried: 0, dead: 0 }
+  for (;;) {
+    const summary = await runDueJobs()
+    if (summary.claimed === 0) {
+      break
+    }
+    totals.claimed += summary.claimed
+    totals.succeeded += summary.succeeded
+    totals.retried += summary.retried
+    totals.dead += summary.dead
+  }
+
+  console.log(
+    `Ran ${totals.claimed} job(s): ${totals.succeeded} succeeded, ` +
+      `${totals.retried} scheduled for retry, ${totals.dead} dead`
+  )
+
+  if (totals.dead > 0) {
+    process.exitCode = 1
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Job worker failed:', error)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
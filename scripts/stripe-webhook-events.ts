@@ -0,0 +1,117 @@
+/**
+ * Stripe webhook events (CLI)
+ *
+ * Inspects the stored Stripe webhook events and replays them through the
+ * same handlers as the webhook routes, like /admin/webhooks. Events can be
+ * given by stored ID or Stripe event ID (evt_...); an event that reached
+ * both endpoints needs --endpoint to pick one.
+ *
+ * Usage:
+ *   npm run webhooks:events                          # 20 most recent events
+ *   npm run webhooks:events -- --failed              # only failed events
+ *   npm run webhooks:events -- --show <id>           # print an event's payload
+ *   npm run webhooks:events -- --replay <id>         # reprocess an event
+ *   npm run webhooks:events -- --replay evt_123 --endpoint subscriptions
+ */
+
+import { prisma } from '@/lib/prisma'
+import { runDueJobs } from '@/lib/job-handlers'
+import {
+  WEBHOOK_EVENT_CONFIG,
+  getWebhookEvent,
+  isWebhookEndpoint,
+  listWebhookEvents,
+  replayWebhookEvent,
+} from '@/lib/stripe-webhook-events'
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name)
+  return index === -1 ? undefined : args[index + 1]
+}
+
+/**
+ * Resolves a stored ID or Stripe event ID to a stored ID.
+ */
+async function resolveStoredId(value: string, endpoint: string | undefined): Promise<string> {
+  if (!value.startsWith('evt_')) {
+    return value
+  }
+
+  if (endpoint && !isWebhookEndpoint(endpoint)) {
+    throw new Error(`Unknown endpoint "${endpoint}"`)
+  }
+
+  const { events } = await listWebhookEvents(
+    { eventId: value, endpoint: endpoint && isWebhookEndpoint(endpoint) ? endpoint : undefined },
+    { skip: 0, take: 2 }
+  )
+
+  if (events.length === 0) {
+    throw new Error(`No stored event ${value}`)
+  }
+  if (events.length > 1) {
+    throw new Error(`${value} reached both endpoints; pass --endpoint checkout|subscriptions`)
+  }
+
+  return events[0].id
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const endpoint = getOption(args, '--endpoint')
+
+  const showId = getOption(args, '--show')
+  if (showId) {
+    const event = await getWebhookEvent(await resolveStoredId(showId, endpoint))
+    if (!event) {
+      throw new Error(`No stored event ${showId}`)
+    }
+    console.log(JSON.stringify(event, null, 2))
+    return
+  }
+
+  const replayId = getOption(args, '--replay')
+  if (replayId) {
+    const result = await replayWebhookEvent(await resolveStoredId(replayId, endpoint))
+    if (!result.success) {
+      console.error(`Replay failed: ${result.error}`)
+      process.exitCode = 1
+      return
+    }
+
+    // Run the jobs the replay enqueued now rather than on the next tick
+    const jobs = await runDueJobs()
+    console.log(
+      `Replayed ${replayId} (was ${result.previousStatus}); ran ${jobs.claimed} job(s)`
+    )
+    return
+  }
+
+  const { events, total } = await listWebhookEvents(
+    {
+      status: args.includes('--failed') ? WEBHOOK_EVENT_CONFIG.STATUS.FAILED : undefined,
+      endpoint: endpoint && isWebhookEndpoint(endpoint) ? endpoint : undefined,
+    },
+    { skip: 0, take: 20 }
+  )
+
+  for (const event of events) {
+    console.log(
+      `${event.receivedAt.toISOString()}  ${event.status.padEnd(9)}  ${event.endpoint.padEnd(13)}  ` +
+        `${event.type}  ${event.eventId}  (${event.id}, ${event.attempts} attempt(s))`
+    )
+    if (event.lastError) {
+      console.log(`  ${event.lastError}`)
+    }
+  }
+  console.log(`Showing ${events.length} of ${total} event(s)`)
+}
+
+main()
+  .catch((error) => {
+    console.error('Webhook event command failed:', error)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
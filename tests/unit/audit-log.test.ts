@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Audit Log Unit Tests
+ *
+ * Tests the audit trail helpers including:
+ * - Before/after diffing and sensitive field redaction
+ * - Client IP extraction from proxy headers
+ * - The withAuditLog route handler wrapper
+ * - CSV export formatting
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    auditLog: { create: vi.fn() },
+  },
+}))
+
+vi.mock('@/lib/auth', () => ({
+  getServerAuth: vi.fn(),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  getRequestIdFromRequest: (request: Request) => request.headers.get('x-request-id') || undefined,
+}))
+
+import { prisma } from '@/lib/prisma'
+import { getServerAuth } from '@/lib/auth'
+import { logger } from '@/lib/logger'
+import {
+  diffAuditSnapshots,
+  formatAuditLogCsv,
+  getClientIp,
+  toAuditJson,
+  withAuditLog,
+} from '@/lib/audit-log'
+
+function request(headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/api/test', { method: 'POST', headers })
+}
+
+describe('Audit log', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getServerAuth).mockResolvedValue({
+      userId: 'admin-1',
+      user: { email: 'admin@example.com' },
+    } as never)
+    vi.mocked(prisma.auditLog.create).mockResolvedValue({} as never)
+  })
+
+  describe('toAuditJson', () => {
+    it('serializes dates and redacts sensitive fields at any depth', () => {
+      expect(
+        toAuditJson({
+          updatedAt: new Date('2026-10-19T12:00:00Z'),
+          user: { email: 'a@example.com', password: 'hash' },
+        })
+      ).toEqual({
+        updatedAt: '2026-10-19T12:00:00.000Z',
+        user: { email: 'a@example.com', password: '[REDACTED]' },
+      })
+    })
+
+    it('maps missing snapshots to null', () => {
+      expect(toAuditJson(undefined)).toBeNull()
+    })
+  })
+
+  describe('diffAuditSnapshots', () => {
+    it('returns only changed fields', () => {
+      expect(
+        diffAuditSnapshots(
+          { title: 'Bamboo Brush', price: 12, inventory: 5 },
+          { title: 'Bamboo Brush', price: 10, inventory: 5 }
+        )
+      ).toEqual({ price: { before: 12, after: 10 } })
+    })
+
+    it('lists every field for creations and deletions', () => {
+      expect(diffAuditSnapshots(null, { id: 'p1', title: 'Soap' })).toEqual({
+        id: { before: null, after: 'p1' },
+        title: { before: null, after: 'Soap' },
+      })
+      expect(diffAuditSnapshots({ id: 'p1' }, null)).toEqual({
+        id: { before: 'p1', after: null },
+      })
+    })
+
+    it('compares nested values as a whole', () => {
+      expect(
+        diffAuditSnapshots({ rates: [{ price: 5 }] }, { rates: [{ price: 5 }] })
+      ).toEqual({})
+      expect(
+        diffAuditSnapshots({ rates: [{ price: 5 }] }, { rates: [{ price: 6 }] })
+      ).toEqual({ rates: { before: [{ price: 5 }], after: [{ price: 6 }] } })
+    })
+  })
+
+  describe('getClientIp', () => {
+    it('uses the first forwarded address', () => {
+      expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.5, 10.0.0.1' }))).toBe('203.0.113.5')
+    })
+
+    it('falls back to x-real-ip, then null', () => {
+      expect(getClientIp(request({ 'x-real-ip': '198.51.100.7' }))).toBe('198.51.100.7')
+      expect(getClientIp(request())).toBeNull()
+    })
+  })
+
+  describe('withAuditLog', () => {
+    const options = { action: 'product.update', entityType: 'Product' }
+
+    it('records successful mutations with actor, request id and IP', async () => {
+      const handler = withAuditLog(options, async (_request, _context: unknown, audit) => {
+        audit.entityId = 'prod-1'
+        audit.before = { price: 12 }
+        audit.after = { price: 10 }
+        return Response.json({ success: true })
+      })
+
+      const response = await handler(
+        request({ 'x-request-id': 'req-123', 'x-forwarded-for': '203.0.113.5' }),
+        undefined
+      )
+
+      expect(response.status).toBe(200)
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: {
+          action: 'product.update',
+          entityType: 'Product',
+          entityId: 'prod-1',
+          actorUserId: 'admin-1',
+          actorEmail: 'admin@example.com',
+          changes: JSON.stringify({ price: { before: 12, after: 10 } }),
+          requestId: 'req-123',
+          ipAddress: '203.0.113.5',
+        },
+      })
+    })
+
+    it('does not record failed requests', async () => {
+      const handler = withAuditLog(options, async (_request, _context: unknown, audit) => {
+        audit.entityId = 'prod-1'
+        return Response.json({ success: false }, { status: 400 })
+      })
+
+      await handler(request(), undefined)
+
+      expect(prisma.auditLog.create).not.toHaveBeenCalled()
+    })
+
+    it('does not record when the handler names no entity or skips', async () => {
+      const noEntity = withAuditLog(options, async () => Response.json({ success: true }))
+      const skipped = withAuditLog(options, async (_request, _context: unknown, audit) => {
+        audit.entityId = 'prod-1'
+        audit.skip = true
+        return Response.json({ success: true })
+      })
+
+      await noEntity(request(), undefined)
+      await skipped(request(), undefined)
+
+      expect(prisma.auditLog.create).not.toHaveBeenCalled()
+    })
+
+    it('returns the handler response when the audit write fails', async () => {
+      vi.mocked(prisma.auditLog.create).mockRejectedValueOnce(new Error('db down'))
+      const handler = withAuditLog(options, async (_request, _context: unknown, audit) => {
+        audit.entityId = 'prod-1'
+        return Response.json({ success: true }, { status: 201 })
+      })
+
+      const response = await handler(request(), undefined)
+
+      expect(response.status).toBe(201)
+      expect(logger.error).toHaveBeenCalled()
+    })
+  })
+
+  describe('formatAuditLogCsv', () => {
+    it('writes a header and escapes cells', () => {
+      const csv = formatAuditLogCsv([
+        {
+          id: 'log-1',
+          createdAt: new Date('2026-10-19T12:00:00Z'),
+          action: 'order.refund',
+          entityType: 'Order',
+          entityId: 'order-1',
+          actorUserId: 'admin-1',
+          actorEmail: null,
+          changes: '{"status":{"before":"paid","after":"refunded"}}',
+          requestId: 'req-1',
+          ipAddress: '=cmd()',
+        },
+      ])
+
+      expect(csv).toBe(
+        'id,createdAt,action,entityType,entityId,actorUserId,actorEmail,changes,requestId,ipAddress\n' +
+          'log-1,2026-10-19T12:00:00.000Z,order.refund,Order,order-1,admin-1,,' +
+          '"{""status"":{""before"":""paid"",""after"":""refunded""}}",req-1,\'=cmd()\n'
+      )
+    })
+  })
+})
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Bundle Cart Line Unit Tests
+ *
+ * Tests cart lines added as part of a bundle including:
+ * - Pricing lines with the bundle discount, only while the bundle applies
+ * - Breaking a bundle apart when one of its lines is removed
+ * - Removing a whole bundle
+ * - Marking bundles purchased
+ */
+
+vi.mock('@/lib/prisma', () => {
+  const prisma = {
+    cartItem: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    bundleSelection: {
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  }
+  prisma.$transaction.mockImplementation(async (fn: (tx: typeof prisma) => unknown) => fn(prisma))
+  return { prisma }
+})
+
+import { prisma } from '@/lib/prisma'
+import {
+  getCartLineUnitPrice,
+  markBundleSelectionsPurchased,
+  removeBundleFromCart,
+  removeCartLine,
+} from '@/lib/bundle-cart'
+
+function pricingLine(overrides: Record<string, unknown> = {}) {
+  return {
+    product: { price: 20, salePrice: null },
+    variant: null,
+    bundleSelection: {
+      id: 'selection-1',
+      status: 'in_cart',
+      bundle: { id: 'bundle-1', title: 'Zero Waste Kit', slug: 'zero-waste-kit', discountPercent: 15, isActive: true },
+    },
+    ...overrides,
+  } as unknown as Parameters<typeof getCartLineUnitPrice>[0]
+}
+
+describe('Bundle cart lines', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getCartLineUnitPrice', () => {
+    it('applies the bundle discount to bundle lines', () => {
+      expect(getCartLineUnitPrice(pricingLine())).toBe(17)
+    })
+
+    it('discounts the sale price and rounds to the cent', () => {
+      expect(
+        getCartLineUnitPrice(pricingLine({ product: { price: 20, salePrice: 9.99 } }))
+      ).toBe(8.49)
+    })
+
+    it('charges full price outside a bundle', () => {
+      expect(getCartLineUnitPrice(pricingLine({ bundleSelection: null }))).toBe(20)
+    })
+
+    it('charges full price once the bundle no longer applies', () => {
+      const line = pricingLine()
+      const selection = (line as { bundleSelection: { status: string; bundle: { isActive: boolean } } })
+        .bundleSelection
+
+      selection.status = 'broken'
+      expect(getCartLineUnitPrice(line)).toBe(20)
+
+      selection.status = 'in_cart'
+      selection.bundle.isActive = false
+      expect(getCartLineUnitPrice(line)).toBe(20)
+    })
+  })
+
+  describe('removeCartLine', () => {
+    it('removes a line outside a bundle', async () => {
+      vi.mocked(prisma.cartItem.findFirst).mockResolvedValue({
+        id: 'line-1',
+        bundleSelectionId: null,
+      } as never)
+
+      const result = await removeCartLine('user-1', 'line-1')
+
+      expect(result).toEqual({ removed: true, brokenBundleSelectionId: null })
+      expect(prisma.cartItem.delete).toHaveBeenCalledWith({ where: { id: 'line-1' } })
+      expect(prisma.bundleSelection.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('breaks the bundle apart into full-price lines', async () => {
+      vi.mocked(prisma.cartItem.findFirst).mockImplementation((async (args: {
+        where: { id?: string; productId?: string }
+      }) => {
+        if (args.where.id) {
+          return { id: 'line-1', bundleSelectionId: 'selection-1' }
+        }
+        // The customer already has product-3 in the cart on its own
+        return args.where.productId === 'product-3' ? { id: 'plain-3' } : null
+      }) as never)
+      vi.mocked(prisma.cartItem.findMany).mockResolvedValue([
+        { id: 'line-2', productId: 'product-2', variantId: null, quantity: 1 },
+        { id: 'line-3', productId: 'product-3', variantId: null, quantity: 2 },
+      ] as never)
+
+      const result = await removeCartLine('user-1', 'line-1')
+
+      expect(result).toEqual({ removed: true, brokenBundleSelectionId: 'selection-1' })
+      expect(prisma.cartItem.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: 'user-1', bundleSelectionId: 'selection-1' } })
+      )
+      expect(prisma.cartItem.update).toHaveBeenCalledWith({
+        where: { id: 'line-2' },
+        data: { bundleSelectionId: null },
+      })
+      expect(prisma.cartItem.update).toHaveBeenCalledWith({
+        where: { id: 'plain-3' },
+        data: { quantity: { increment: 2 } },
+      })
+      expect(prisma.cartItem.delete).toHaveBeenCalledWith({ where: { id: 'line-3' } })
+      expect(prisma.bundleSelection.updateMany).toHaveBeenCalledWith({
+        where: { id: 'selection-1', status: 'in_cart' },
+        data: { status: 'broken' },
+      })
+    })
+
+    it('ignores lines from other carts', async () => {
+      vi.mocked(prisma.cartItem.findFirst).mockResolvedValue(null)
+
+      const result = await removeCartLine('user-1', 'line-1')
+
+      expect(result).toEqual({ removed: false, brokenBundleSelectionId: null })
+      expect(prisma.cartItem.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('removeBundleFromCart', () => {
+    it('removes every line and marks the bundle removed', async () => {
+      vi.mocked(prisma.cartItem.deleteMany).mockResolvedValue({ count: 3 })
+
+      const result = await removeBundleFromCart('user-1', 'selection-1')
+
+      expect(result).toEqual({ removed: 3 })
+      expect(prisma.cartItem.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', bundleSelectionId: 'selection-1' },
+      })
+      expect(prisma.bundleSelection.updateMany).toHaveBeenCalledWith({
+        where: { id: 'selection-1', status: 'in_cart' },
+        data: { status: 'removed' },
+      })
+    })
+
+    it('leaves bundles in other carts alone', async () => {
+      vi.mocked(prisma.cartItem.deleteMany).mockResolvedValue({ count: 0 })
+
+      await removeBundleFromCart('user-1', 'selection-1')
+
+      expect(prisma.bundleSelection.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('markBundleSelectionsPurchased', () => {
+    it('marks each bundle in the order once', async () => {
+      await markBundleSelectionsPurchased(prisma, [
+        { bundleSelectionId: 'selection-1' },
+        { bundleSelectionId: 'selection-1' },
+        { bundleSelectionId: null },
+      ])
+
+      expect(prisma.bundleSelection.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['selection-1'] } },
+        data: { status: 'purchased' },
+      })
+    })
+
+    it('does nothing for orders without bundles', async () => {
+      await markBundleSelectionsPurchased(prisma, [{ bundleSelectionId: null }])
+
+      expect(prisma.bundleSelection.updateMany).not.toHaveBeenCalled()
+    })
+  })
+})
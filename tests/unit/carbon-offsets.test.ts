@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Carbon Offset Unit Tests
+ *
+ * Tests carbon offsets bought at checkout including:
+ * - Pricing from product footprints and shipping speed
+ * - Pricing for the most carbon-intensive shipping option offered
+ * - Buying and recording the offset once the order is paid
+ * - Choosing the provider
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    order: { findUnique: vi.fn() },
+    carbonOffset: { create: vi.fn(), aggregate: vi.fn() },
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('@/lib/cache', () => ({
+  invalidateImpactCaches: vi.fn(),
+}))
+
+import { prisma } from '@/lib/prisma'
+import { invalidateImpactCaches } from '@/lib/cache'
+import {
+  calculateCarbonOffset,
+  fakeCarbonOffsetProvider,
+  getCarbonOffsetProvider,
+  getCarbonOffsetQuote,
+  getTotalCarbonOffsetKg,
+  purchaseOrderCarbonOffset,
+} from '@/lib/carbon-offsets'
+
+// 900 g of product footprint; 1.1 kg shipped (the second line has no weight)
+const lines = [
+  { carbonFootprintGrams: 450, weightGrams: 300, quantity: 2 },
+  { carbonFootprintGrams: null, weightGrams: null, quantity: 1 },
+]
+
+describe('Carbon offsets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    delete process.env.CARBON_OFFSET_PROVIDER
+  })
+
+  it('offsets product footprints plus shipping emissions for the speed', () => {
+    expect(calculateCarbonOffset(lines, 'standard')).toEqual({
+      offsetKg: 1.12,
+      price: 0.5,
+      shippingSpeed: 'standard',
+    })
+    expect(calculateCarbonOffset(lines, 'express').offsetKg).toBe(2)
+  })
+
+  it('charges by the kilogram above the minimum price', () => {
+    const quote = calculateCarbonOffset(
+      [{ carbonFootprintGrams: 50000, weightGrams: 1000, quantity: 1 }],
+      'standard'
+    )
+
+    expect(quote.offsetKg).toBe(50.2)
+    expect(quote.price).toBe(1)
+  })
+
+  it('prices for the most carbon-intensive shipping option offered', () => {
+    expect(
+      getCarbonOffsetQuote(lines, [{ speed: 'standard' }, { speed: 'express' }]).shippingSpeed
+    ).toBe('express')
+    expect(getCarbonOffsetQuote(lines, [{ speed: 'standard' }]).shippingSpeed).toBe('standard')
+    expect(getCarbonOffsetQuote(lines, []).shippingSpeed).toBe('standard')
+  })
+
+  describe('purchaseOrderCarbonOffset', () => {
+    it('buys the offset for a paid order and records its certificate', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        status: 'paid',
+        carbonOffsetKg: 2,
+        carbonOffset: null,
+      } as never)
+      vi.mocked(prisma.carbonOffset.create).mockResolvedValue({ id: 'offset-1' } as never)
+
+      const result = await purchaseOrderCarbonOffset('order-1', fakeCarbonOffsetProvider)
+
+      expect(result).toEqual({ id: 'offset-1' })
+      expect(prisma.carbonOffset.create).toHaveBeenCalledWith({
+        data: {
+          orderId: 'order-1',
+          offsetAmountKg: 2,
+          provider: 'Link Flame Test Offsets',
+          projectName: 'Test Reforestation Project',
+          certificateUrl: null,
+          providerReference: 'FAKE-order-1',
+        },
+      })
+      expect(invalidateImpactCaches).toHaveBeenCalled()
+    })
+
+    it('does not buy twice or for orders without an offset', async () => {
+      const purchase = vi.fn()
+      const provider = { name: 'test', purchase }
+
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        status: 'paid',
+        carbonOffsetKg: 2,
+        carbonOffset: { id: 'offset-1' },
+      } as never)
+      expect(await purchaseOrderCarbonOffset('order-1', provider)).toBeNull()
+
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        status: 'paid',
+        carbonOffsetKg: null,
+        carbonOffset: null,
+      } as never)
+      expect(await purchaseOrderCarbonOffset('order-1', provider)).toBeNull()
+
+      expect(purchase).not.toHaveBeenCalled()
+    })
+
+    it('skips orders refunded before the offset was bought', async () => {
+      const purchase = vi.fn()
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        status: 'refunded',
+        carbonOffsetKg: 2,
+        carbonOffset: null,
+      } as never)
+
+      expect(await purchaseOrderCarbonOffset('order-1', { name: 'test', purchase })).toBeNull()
+      expect(purchase).not.toHaveBeenCalled()
+      expect(prisma.carbonOffset.create).not.toHaveBeenCalled()
+    })
+  })
+
+  it('uses the fake provider unless another is configured', () => {
+    expect(getCarbonOffsetProvider()).toBe(fakeCarbonOffsetProvider)
+
+    process.env.CARBON_OFFSET_PROVIDER = 'missing'
+    expect(() => getCarbonOffsetProvider()).toThrow('Unknown carbon offset provider: missing')
+  })
+
+  it('totals the offsets bought', async () => {
+    vi.mocked(prisma.carbonOffset.aggregate).mockResolvedValue({
+      _sum: { offsetAmountKg: 12.5 },
+    } as never)
+
+    expect(await getTotalCarbonOffsetKg()).toBe(12.5)
+  })
+})
@@ -280,6 +280,39 @@ describe('Cart Reducer', () => {
 
       expect(result.items).toHaveLength(0)
     })
+ 
+    it('should keep bundle lines apart from the same product on its own', () => {
+      const plainItem = createCartItem()
+      const bundleItem = createCartItem({ bundleSelectionId: 'selection-1' })
+      const initialCart = { items: [plainItem, bundleItem] }
+
+      const result = cartReducer(initialCart, {
+        type: 'REMOVE_ITEM',
+        payload: { id: 'product-1', bundleSelectionId: 'selection-1' },
+      })
+
+      expect(result.items).toEqual([plainItem])
+    })
+  })
+
+  describe('REMOVE_BUNDLE', () => {
+    it('should remove every line of the bundle', () => {
+      const plainItem = createCartItem({ id: 'product-1' })
+      const initialCart = {
+        items: [
+          plainItem,
+          createCartItem({ id: 'product-1', bundleSelectionId: 'selection-1' }),
+          createCartItem({ id: 'product-2', bundleSelectionId: 'selection-1' }),
+        ],
+      }
+
+      const result = cartReducer(initialCart, {
+        type: 'REMOVE_BUNDLE',
+        payload: { bundleSelectionId: 'selection-1' },
+      })
+
+      expect(result.items).toEqual([plainItem])
+    })
   })
 
   describe('CLEAR_CART', () => {
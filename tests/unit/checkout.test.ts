@@ -175,6 +175,23 @@ describe('Checkout Schema Validation', () => {
       const result = CheckoutSchema.safeParse(data)
       expect(result.success).toBe(false)
     })
+
+    it('should validate Canadian postal codes for Canadian addresses', () => {
+      const valid = { ...validCheckoutData, country: 'CA', state: 'ON', zipCode: 'M5V 2T6' }
+      expect(CheckoutSchema.safeParse(valid).success).toBe(true)
+
+      const result = CheckoutSchema.safeParse({ ...valid, zipCode: '10001' })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.errors[0].path).toContain('zipCode')
+        expect(result.error.errors[0].message).toBe('Invalid postal code format')
+      }
+    })
+
+    it('should default to US addresses', () => {
+      const result = CheckoutSchema.safeParse(validCheckoutData)
+      expect(result.success && result.data.country).toBe('US')
+    })
   })
 
   it('should reject multiple invalid fields', () => {
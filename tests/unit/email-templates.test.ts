@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+/**
+ * Email Template and Transport Unit Tests
+ *
+ * Tests the transactional email system including:
+ * - Every registered template renders HTML and plain text from its fixture
+ * - User-supplied values are escaped in HTML
+ * - Transport selection from EMAIL_TRANSPORT / RESEND_API_KEY / NODE_ENV
+ * - The outbox transport stores rendered messages with their headers
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    emailOutboxMessage: { create: vi.fn() },
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+import { prisma } from '@/lib/prisma'
+import { sendNewsletterConfirmation, sendTemplateEmail } from '@/lib/email'
+import {
+  EMAIL_TEMPLATES,
+  isEmailTemplateName,
+  renderEmailPreview,
+  renderEmailTemplate,
+  type EmailTemplateName,
+} from '@/lib/email/templates'
+import { getEmailTransport, getEmailTransportName } from '@/lib/email/transport'
+
+describe('Email templates', () => {
+  it.each(Object.keys(EMAIL_TEMPLATES) as EmailTemplateName[])(
+    'renders %s from its fixture',
+    (name) => {
+      const rendered = renderEmailPreview(name)
+
+      expect(rendered.subject.length).toBeGreaterThan(0)
+      expect(rendered.html).toMatch(/^<!DOCTYPE html>/)
+      expect(rendered.html).toContain('© 2026 Link Flame')
+      expect(rendered.text).not.toMatch(/<[a-z][^>]*>/i)
+      expect(rendered.text).toContain('© 2026 Link Flame')
+    }
+  )
+
+  it('escapes user-supplied values in HTML but not in plain text', () => {
+    const rendered = renderEmailTemplate('contactNotification', {
+      name: '<script>alert(1)</script>',
+      email: 'alex@example.com',
+      subject: 'Refills & more',
+      message: 'Hello "team"',
+    })
+
+    expect(rendered.html).not.toContain('<script>')
+    expect(rendered.html).toContain('&lt;script&gt;')
+    expect(rendered.html).toContain('Refills &amp; more')
+    expect(rendered.text).toContain('Hello "team"')
+  })
+
+  it('links tracking numbers for known carriers', () => {
+    const rendered = renderEmailTemplate('shippingNotification', {
+      orderId: 'order-1',
+      customerName: 'Alex',
+      trackingNumber: '1Z999',
+      shippingCarrier: 'UPS',
+    })
+
+    expect(rendered.html).toContain('https://www.ups.com/track?tracknum=1Z999')
+    expect(rendered.text).toContain('Track your package: https://www.ups.com/track?tracknum=1Z999')
+  })
+
+  it('recognises template names', () => {
+    expect(isEmailTemplateName('orderConfirmation')).toBe(true)
+    expect(isEmailTemplateName('toString')).toBe(false)
+  })
+})
+
+describe('Email transports', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('RESEND_API_KEY', '')
+    vi.stubEnv('EMAIL_TRANSPORT', '')
+    vi.stubEnv('NODE_ENV', 'test')
+    vi.mocked(prisma.emailOutboxMessage.create).mockResolvedValue({ id: 'msg-1' } as never)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('uses the outbox outside production when Resend is not configured', () => {
+    expect(getEmailTransportName()).toBe('outbox')
+  })
+
+  it('uses Resend when an API key is set', () => {
+    vi.stubEnv('RESEND_API_KEY', 're_test_key')
+
+    expect(getEmailTransportName()).toBe('resend')
+    expect(getEmailTransport()?.name).toBe('resend')
+  })
+
+  it('disables email in production without Resend', () => {
+    vi.stubEnv('NODE_ENV', 'production')
+
+    expect(getEmailTransport()).toBeNull()
+  })
+
+  it('honours EMAIL_TRANSPORT over the defaults', () => {
+    vi.stubEnv('RESEND_API_KEY', 're_test_key')
+    vi.stubEnv('EMAIL_TRANSPORT', 'outbox')
+
+    expect(getEmailTransport()?.name).toBe('outbox')
+  })
+
+  it('stores rendered messages in the outbox', async () => {
+    const result = await sendTemplateEmail(
+      'passwordReset',
+      { resetUrl: 'https://linkflame.com/auth/reset-password?token=abc' },
+      { to: 'alex@example.com' }
+    )
+
+    expect(result).toEqual({ success: true, id: 'msg-1' })
+    expect(prisma.emailOutboxMessage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        template: 'passwordReset',
+        to: 'alex@example.com',
+        subject: 'Reset Your Password - Link Flame',
+        text: expect.stringContaining('https://linkflame.com/auth/reset-password?token=abc'),
+        headers: null,
+      }),
+      select: { id: true },
+    })
+  })
+
+  it('keeps one-click unsubscribe headers on newsletter emails', async () => {
+    const links = EMAIL_TEMPLATES.newsletterWelcome.fixture.links
+
+    await sendNewsletterConfirmation('alex@example.com', links)
+
+    const { data } = vi.mocked(prisma.emailOutboxMessage.create).mock.calls[0][0]
+    expect(JSON.parse(data.headers as string)).toEqual({
+      'List-Unsubscribe': `<${links.oneClickUnsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    })
+  })
+
+  it('reports failure without sending when email is disabled', async () => {
+    vi.stubEnv('EMAIL_TRANSPORT', 'none')
+
+    const result = await sendTemplateEmail(
+      'passwordReset',
+      { resetUrl: 'https://linkflame.com/auth/reset-password?token=abc' },
+      { to: 'alex@example.com' }
+    )
+
+    expect(result.success).toBe(false)
+    expect(prisma.emailOutboxMessage.create).not.toHaveBeenCalled()
+  })
+})
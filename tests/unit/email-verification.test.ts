@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Email Verification Unit Tests
+ *
+ * Tests the verification token helpers including:
+ * - Issuing hashed, expiring tokens and invalidating older ones
+ * - Consuming tokens (unknown, used, expired, valid)
+ * - Verified-email checks used to gate rewards and reviews
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn(), update: vi.fn() },
+    emailVerificationToken: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/email', () => ({
+  sendVerificationEmail: vi.fn(),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+import { prisma } from '@/lib/prisma'
+import { sendVerificationEmail } from '@/lib/email'
+import {
+  hashVerificationToken,
+  isEmailVerified,
+  issueEmailVerification,
+  verifyEmailToken,
+} from '@/lib/email-verification'
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+const validRecord = {
+  id: 'token-1',
+  email: 'shopper@example.com',
+  tokenHash: 'hash',
+  expiresAt: new Date('2026-10-20T12:00:00Z'),
+  usedAt: null,
+}
+
+describe('Email verification', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.$transaction).mockResolvedValue([] as never)
+    vi.mocked(prisma.user.update).mockReturnValue({} as never)
+    vi.mocked(prisma.emailVerificationToken.update).mockReturnValue({} as never)
+  })
+
+  describe('issueEmailVerification', () => {
+    it('stores only the token hash and emails the plaintext token', async () => {
+      vi.mocked(prisma.emailVerificationToken.updateMany).mockResolvedValue({ count: 1 })
+      vi.mocked(prisma.emailVerificationToken.create).mockResolvedValue({} as never)
+      vi.mocked(sendVerificationEmail).mockResolvedValue({ success: true })
+
+      const result = await issueEmailVerification('Shopper@Example.com', now)
+
+      expect(result).toEqual({ sent: true })
+      expect(prisma.emailVerificationToken.updateMany).toHaveBeenCalledWith({
+        where: { email: 'shopper@example.com', usedAt: null },
+        data: { usedAt: now },
+      })
+
+      const [to, token] = vi.mocked(sendVerificationEmail).mock.calls[0]
+      expect(to).toBe('shopper@example.com')
+      expect(prisma.emailVerificationToken.create).toHaveBeenCalledWith({
+        data: {
+          email: 'shopper@example.com',
+          tokenHash: hashVerificationToken(token),
+          expiresAt: new Date('2026-10-20T12:00:00Z'),
+        },
+      })
+    })
+
+    it('reports when the email could not be sent', async () => {
+      vi.mocked(prisma.emailVerificationToken.updateMany).mockResolvedValue({ count: 0 })
+      vi.mocked(prisma.emailVerificationToken.create).mockResolvedValue({} as never)
+      vi.mocked(sendVerificationEmail).mockResolvedValue({ success: false, error: 'down' })
+
+      expect(await issueEmailVerification('shopper@example.com', now)).toEqual({ sent: false })
+    })
+  })
+
+  describe('verifyEmailToken', () => {
+    it('rejects unknown, used and expired tokens', async () => {
+      vi.mocked(prisma.emailVerificationToken.findUnique).mockResolvedValueOnce(null)
+      expect(await verifyEmailToken('nope', now)).toMatchObject({ success: false, code: 'INVALID' })
+
+      vi.mocked(prisma.emailVerificationToken.findUnique).mockResolvedValueOnce({
+        ...validRecord,
+        usedAt: now,
+      } as never)
+      expect(await verifyEmailToken('used', now)).toMatchObject({ success: false, code: 'USED' })
+
+      vi.mocked(prisma.emailVerificationToken.findUnique).mockResolvedValueOnce({
+        ...validRecord,
+        expiresAt: new Date('2026-10-19T11:00:00Z'),
+      } as never)
+      expect(await verifyEmailToken('old', now)).toMatchObject({ success: false, code: 'EXPIRED' })
+
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('looks tokens up by hash', async () => {
+      vi.mocked(prisma.emailVerificationToken.findUnique).mockResolvedValue(null)
+
+      await verifyEmailToken('plain-token', now)
+
+      expect(prisma.emailVerificationToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: hashVerificationToken('plain-token') },
+      })
+    })
+
+    it('marks the email verified and consumes the token', async () => {
+      vi.mocked(prisma.emailVerificationToken.findUnique).mockResolvedValue(validRecord as never)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1', emailVerified: null } as never)
+
+      const result = await verifyEmailToken('token', now)
+
+      expect(result).toEqual({ success: true, userId: 'user-1', alreadyVerified: false })
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { emailVerified: now },
+      })
+      expect(prisma.emailVerificationToken.update).toHaveBeenCalledWith({
+        where: { id: 'token-1' },
+        data: { usedAt: now },
+      })
+    })
+
+    it('keeps the original verification date for verified accounts', async () => {
+      const verifiedAt = new Date('2026-01-01T00:00:00Z')
+      vi.mocked(prisma.emailVerificationToken.findUnique).mockResolvedValue(validRecord as never)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: 'user-1',
+        emailVerified: verifiedAt,
+      } as never)
+
+      const result = await verifyEmailToken('token', now)
+
+      expect(result).toMatchObject({ success: true, alreadyVerified: true })
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { emailVerified: verifiedAt },
+      })
+    })
+  })
+
+  describe('isEmailVerified', () => {
+    it('is true only when the account has a verification date', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValueOnce({ emailVerified: now } as never)
+      expect(await isEmailVerified('user-1')).toBe(true)
+
+      vi.mocked(prisma.user.findUnique).mockResolvedValueOnce({ emailVerified: null } as never)
+      expect(await isEmailVerified('user-1')).toBe(false)
+
+      vi.mocked(prisma.user.findUnique).mockResolvedValueOnce(null)
+      expect(await isEmailVerified('missing')).toBe(false)
+    })
+  })
+})
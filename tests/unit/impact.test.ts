@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Impact Reversal Unit Tests
+ *
+ * Tests taking refunded goods' environmental impact back off including:
+ * - Milestones the user drops back below
+ * - Full and partial reversal of order and user impact
+ * - Invalidating the cached community totals when impact is stored
+ * - Rolling carbon offsets bought at checkout into the community totals
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    productImpact: { findMany: vi.fn() },
+    impactMetric: { findMany: vi.fn() },
+    orderImpact: { findFirst: vi.fn(), findMany: vi.fn(), create: vi.fn(), update: vi.fn() },
+    userImpact: { findUnique: vi.fn(), update: vi.fn(), upsert: vi.fn(), aggregate: vi.fn() },
+    carbonOffset: { aggregate: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/cache', () => ({
+  CacheKeys: { COMMUNITY_IMPACT: 'cache:community_impact' },
+  CacheTTL: { SHORT: 300 },
+  getOrSetCached: vi.fn(),
+  invalidateImpactCaches: vi.fn(),
+}))
+
+import { prisma } from '@/lib/prisma'
+import { getOrSetCached, invalidateImpactCaches } from '@/lib/cache'
+import {
+  checkMilestoneLost,
+  getCommunityImpact,
+  reverseOrderImpact,
+  storeOrderImpact,
+} from '@/lib/impact'
+
+const metric = { id: 'metric-1', slug: 'plastic-bottles-saved', name: 'Plastic bottles saved' }
+
+// Each unit of prod-1 saves 2 bottles, each unit of prod-2 saves 3
+const productImpacts = [
+  { productId: 'prod-1', metricId: 'metric-1', valuePerUnit: 2, metric },
+  { productId: 'prod-2', metricId: 'metric-1', valuePerUnit: 3, metric },
+]
+
+function mockStoredImpact(orderValue: number, userTotal: number) {
+  vi.mocked(prisma.orderImpact.findMany).mockResolvedValue([
+    { id: 'oi-1', orderId: 'order-1', metricId: 'metric-1', value: orderValue, metric },
+  ] as never)
+  vi.mocked(prisma.userImpact.findUnique).mockResolvedValue({
+    id: 'ui-1',
+    userId: 'user-1',
+    metricId: 'metric-1',
+    totalValue: userTotal,
+  } as never)
+}
+
+describe('Impact reversal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.productImpact.findMany).mockImplementation((async (args: {
+      where: { productId: { in: string[] } }
+    }) =>
+      productImpacts.filter((impact) => args.where.productId.in.includes(impact.productId))) as never)
+  })
+
+  it('reports the lowest milestone a total drops back below', () => {
+    expect(checkMilestoneLost('plastic-bottles-saved', 120, 40)).toBe(50)
+    expect(checkMilestoneLost('plastic-bottles-saved', 60, 55)).toBeNull()
+    expect(checkMilestoneLost('unknown-metric', 100, 0)).toBeNull()
+  })
+
+  it('reverses the refunded items share of the order impact', async () => {
+    mockStoredImpact(13, 60)
+
+    // 2 x prod-1 (4) and 3 x prod-2 (9) left; refunding one prod-2 is 3/13
+    const result = await reverseOrderImpact(
+      prisma,
+      'order-1',
+      'user-1',
+      [
+        { productId: 'prod-1', quantity: 2 },
+        { productId: 'prod-2', quantity: 3 },
+      ],
+      [{ productId: 'prod-2', quantity: 1 }]
+    )
+
+    expect(result.reversed).toEqual([{ metricId: 'metric-1', value: 3 }])
+    expect(prisma.orderImpact.update).toHaveBeenCalledWith({
+      where: { id: 'oi-1' },
+      data: { value: 10 },
+    })
+    expect(prisma.userImpact.update).toHaveBeenCalledWith({
+      where: { id: 'ui-1' },
+      data: { totalValue: 57, lastUpdatedAt: expect.any(Date) },
+    })
+    expect(result.milestonesLost).toEqual([])
+  })
+
+  it('reverses the rest of the order impact when everything left is refunded', async () => {
+    // Stored impact differs from the current per-unit values
+    mockStoredImpact(8, 52)
+
+    const remaining = [{ productId: 'prod-1', quantity: 2 }]
+    const result = await reverseOrderImpact(prisma, 'order-1', 'user-1', remaining, remaining)
+
+    expect(result.reversed).toEqual([{ metricId: 'metric-1', value: 8 }])
+    expect(prisma.orderImpact.update).toHaveBeenCalledWith({
+      where: { id: 'oi-1' },
+      data: { value: 0 },
+    })
+    expect(prisma.userImpact.update).toHaveBeenCalledWith({
+      where: { id: 'ui-1' },
+      data: { totalValue: 44, lastUpdatedAt: expect.any(Date) },
+    })
+    expect(result.milestonesLost).toEqual([
+      { metricSlug: 'plastic-bottles-saved', milestone: 50 },
+    ])
+  })
+
+  it('never takes a user total below zero', async () => {
+    mockStoredImpact(8, 5)
+
+    const remaining = [{ productId: 'prod-1', quantity: 2 }]
+    await reverseOrderImpact(prisma, 'order-1', 'user-1', remaining, remaining)
+
+    expect(prisma.userImpact.update).toHaveBeenCalledWith({
+      where: { id: 'ui-1' },
+      data: { totalValue: 0, lastUpdatedAt: expect.any(Date) },
+    })
+  })
+
+  it('does nothing for orders without stored impact', async () => {
+    vi.mocked(prisma.orderImpact.findMany).mockResolvedValue([])
+
+    const remaining = [{ productId: 'prod-1', quantity: 2 }]
+    const result = await reverseOrderImpact(prisma, 'order-1', 'user-1', remaining, remaining)
+
+    expect(result).toEqual({ reversed: [], milestonesLost: [] })
+    expect(prisma.orderImpact.update).not.toHaveBeenCalled()
+    expect(prisma.userImpact.update).not.toHaveBeenCalled()
+  })
+
+  it('invalidates the community totals once order impact is stored', async () => {
+    vi.mocked(prisma.orderImpact.findFirst).mockResolvedValue(null)
+    vi.mocked(prisma.impactMetric.findMany).mockResolvedValue([metric] as never)
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: (tx: typeof prisma) => unknown) =>
+      fn(prisma)) as never)
+    vi.mocked(prisma.userImpact.findUnique).mockResolvedValue(null)
+    vi.mocked(prisma.userImpact.upsert).mockResolvedValue({ totalValue: 4 } as never)
+
+    await storeOrderImpact('order-1', 'user-1', [{ productId: 'prod-1', quantity: 2 }])
+
+    expect(invalidateImpactCaches).toHaveBeenCalledTimes(1)
+  })
+
+  it('adds carbon offsets bought at checkout to the community carbon total', async () => {
+    const carbonMetric = { id: 'metric-2', slug: 'carbon-offset', name: 'Carbon Offset' }
+    vi.mocked(getOrSetCached).mockImplementation((async (_key: string, fetcher: () => unknown) =>
+      fetcher()) as never)
+    vi.mocked(prisma.impactMetric.findMany).mockResolvedValue([metric, carbonMetric] as never)
+    vi.mocked(prisma.userImpact.aggregate).mockResolvedValue({
+      _sum: { totalValue: 10 },
+      _count: { userId: 2 },
+    } as never)
+    vi.mocked(prisma.carbonOffset.aggregate).mockResolvedValue({
+      _sum: { offsetAmountKg: 4.5 },
+    } as never)
+
+    const community = await getCommunityImpact()
+
+    expect(community.map((entry) => [entry.slug, entry.totalValue])).toEqual([
+      ['plastic-bottles-saved', 10],
+      ['carbon-offset', 14.5],
+    ])
+  })
+})
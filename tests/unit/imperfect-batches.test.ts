@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Imperfect Batch Unit Tests
+ *
+ * Tests buying from imperfect batches including:
+ * - Which batches can still be sold from
+ * - Batch pricing, including on cart lines
+ * - Adding batch lines to the cart within the batch's stock
+ * - Decrementing stock on payment and deactivating sold-out batches
+ * - Restoring stock on refund and reactivating sold-out batches
+ * - Deactivating expired batches
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    imperfectBatch: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    cartItem: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  addImperfectBatchToCart,
+  deactivateExpiredImperfectBatches,
+  decrementImperfectBatchStock,
+  getImperfectBatchPrice,
+  isImperfectBatchPurchasable,
+  restoreImperfectBatchStock,
+} from '@/lib/imperfect-batches'
+import { getCartLineUnitPrice } from '@/lib/bundle-cart'
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+function mockBatch(overrides: Record<string, unknown> = {}) {
+  vi.mocked(prisma.imperfectBatch.findUnique).mockResolvedValue({
+    productId: 'prod-1',
+    quantity: 5,
+    isActive: true,
+    expiresAt: null,
+    product: { title: 'Bamboo Toothbrush' },
+    ...overrides,
+  } as never)
+}
+
+describe('Imperfect batches', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.imperfectBatch.updateMany).mockResolvedValue({ count: 1 })
+  })
+
+  it('only sells from active, in-stock batches that have not expired', () => {
+    const batch = { isActive: true, quantity: 2, expiresAt: new Date('2026-10-20T00:00:00Z') }
+
+    expect(isImperfectBatchPurchasable(batch, now)).toBe(true)
+    expect(isImperfectBatchPurchasable({ ...batch, quantity: 0 }, now)).toBe(false)
+    expect(isImperfectBatchPurchasable({ ...batch, isActive: false }, now)).toBe(false)
+    expect(isImperfectBatchPurchasable({ ...batch, expiresAt: now }, now)).toBe(false)
+  })
+
+  it('prices batch items with the batch discount, rounded to the cent', () => {
+    expect(getImperfectBatchPrice(9.99, 30)).toBe(6.99)
+    expect(getImperfectBatchPrice(20, 150)).toBe(0)
+  })
+
+  it('prices cart lines bought from a batch off the product price', () => {
+    const price = getCartLineUnitPrice({
+      product: { price: 20, salePrice: 16 },
+      variant: null,
+      bundleSelection: null,
+      imperfectBatch: { discountPercent: 25 },
+    } as never)
+
+    expect(price).toBe(12)
+  })
+
+  describe('addImperfectBatchToCart', () => {
+    it('adds a batch line kept apart from regular lines', async () => {
+      mockBatch()
+      vi.mocked(prisma.cartItem.findFirst).mockResolvedValue(null)
+
+      const result = await addImperfectBatchToCart('user-1', 'prod-1', 'batch-1', 2, now)
+
+      expect(result).toEqual({ success: true })
+      expect(prisma.cartItem.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-1',
+          productId: 'prod-1',
+          variantId: null,
+          bundleSelectionId: null,
+          imperfectBatchId: 'batch-1',
+          quantity: 2,
+        },
+      })
+    })
+
+    it('rejects quantities beyond what is left in the batch', async () => {
+      mockBatch({ quantity: 3 })
+      vi.mocked(prisma.cartItem.findFirst).mockResolvedValue({ id: 'line-1', quantity: 2 } as never)
+
+      const result = await addImperfectBatchToCart('user-1', 'prod-1', 'batch-1', 2, now)
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Only 3 imperfect items available for Bamboo Toothbrush',
+        code: 'INSUFFICIENT_STOCK',
+      })
+      expect(prisma.cartItem.update).not.toHaveBeenCalled()
+    })
+
+    it('rejects expired batches and batches of other products', async () => {
+      mockBatch({ expiresAt: new Date('2026-10-19T11:00:00Z') })
+      expect(await addImperfectBatchToCart('user-1', 'prod-1', 'batch-1', 1, now)).toMatchObject({
+        success: false,
+        code: 'UNAVAILABLE',
+      })
+
+      mockBatch({ productId: 'prod-2' })
+      expect(await addImperfectBatchToCart('user-1', 'prod-1', 'batch-1', 1, now)).toMatchObject({
+        success: false,
+        code: 'NOT_FOUND',
+      })
+      expect(prisma.cartItem.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('decrementImperfectBatchStock', () => {
+    it('takes paid units out of the batch and deactivates it if it sold out', async () => {
+      await decrementImperfectBatchStock(prisma, 'batch-1', 2, now)
+
+      expect(prisma.imperfectBatch.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { id: 'batch-1', quantity: { gte: 2 } },
+        data: { quantity: { decrement: 2 } },
+      })
+      expect(prisma.imperfectBatch.updateMany).toHaveBeenNthCalledWith(2, {
+        where: { id: 'batch-1', quantity: { lte: 0 }, isActive: true },
+        data: { isActive: false, soldOutAt: now },
+      })
+    })
+
+    it('throws an insufficient stock error when the units are gone', async () => {
+      vi.mocked(prisma.imperfectBatch.updateMany).mockResolvedValue({ count: 0 })
+
+      await expect(decrementImperfectBatchStock(prisma, 'batch-1', 2, now)).rejects.toThrow(
+        'Insufficient imperfect batch stock for batch-1'
+      )
+    })
+  })
+
+  it('restores refunded units and reactivates batches that had sold out', async () => {
+    await restoreImperfectBatchStock(prisma, 'batch-1', 2, now)
+
+    expect(prisma.imperfectBatch.update).toHaveBeenCalledWith({
+      where: { id: 'batch-1' },
+      data: { quantity: { increment: 2 } },
+    })
+    expect(prisma.imperfectBatch.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'batch-1',
+        soldOutAt: { not: null },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+      },
+      data: { isActive: true, soldOutAt: null },
+    })
+  })
+
+  it('deactivates batches past their expiry date', async () => {
+    vi.mocked(prisma.imperfectBatch.updateMany).mockResolvedValue({ count: 3 })
+
+    expect(await deactivateExpiredImperfectBatches(now)).toEqual({ deactivated: 3 })
+    expect(prisma.imperfectBatch.updateMany).toHaveBeenCalledWith({
+      where: { isActive: true, expiresAt: { lte: now } },
+      data: { isActive: false },
+    })
+  })
+})
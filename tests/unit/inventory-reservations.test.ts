@@ -0,0 +1,260 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+/**
+ * Inventory Reservation Unit Tests
+ *
+ * Tests the checkout stock holds including:
+ * - Available stock net of active holds
+ * - Reserving checkout lines and rejecting shortfalls
+ * - Serialization conflict retries
+ * - Converting, releasing and sweeping holds
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    product: { findUnique: vi.fn() },
+    productVariant: { findUnique: vi.fn() },
+    imperfectBatch: { findUnique: vi.fn() },
+    inventoryReservation: { groupBy: vi.fn(), create: vi.fn(), updateMany: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  applyReservedInventory,
+  convertOrderReservations,
+  getReservedQuantities,
+  releaseOrderReservations,
+  reserveInventoryForCheckout,
+  sweepExpiredReservations,
+} from '@/lib/inventory-reservations'
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+describe('Inventory reservations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.$transaction).mockImplementation(((fn: (tx: typeof prisma) => unknown) =>
+      fn(prisma)) as never)
+    vi.mocked(prisma.inventoryReservation.groupBy).mockResolvedValue([] as never)
+    let nextId = 0
+    vi.mocked(prisma.inventoryReservation.create).mockImplementation((() =>
+      Promise.resolve({ id: `hold-${++nextId}` })) as never)
+  })
+
+  describe('getReservedQuantities', () => {
+    it('splits active holds into product-level and variant holds', async () => {
+      vi.mocked(prisma.inventoryReservation.groupBy).mockResolvedValue([
+        { productId: 'prod-1', variantId: null, _sum: { quantity: 2 } },
+        { productId: 'prod-2', variantId: 'var-1', _sum: { quantity: 3 } },
+      ] as never)
+
+      const reserved = await getReservedQuantities(prisma, ['prod-1', 'prod-2'], now)
+
+      expect(reserved.products.get('prod-1')).toBe(2)
+      expect(reserved.variants.get('var-1')).toBe(3)
+      expect(vi.mocked(prisma.inventoryReservation.groupBy).mock.calls[0][0]).toMatchObject({
+        where: {
+          productId: { in: ['prod-1', 'prod-2'] },
+          status: 'ACTIVE',
+          expiresAt: { gt: now },
+        },
+      })
+    })
+
+    it('keeps imperfect batch holds apart from product stock holds', async () => {
+      vi.mocked(prisma.inventoryReservation.groupBy).mockResolvedValue([
+        { productId: 'prod-1', variantId: null, imperfectBatchId: null, _sum: { quantity: 2 } },
+        { productId: 'prod-1', variantId: null, imperfectBatchId: 'batch-1', _sum: { quantity: 4 } },
+      ] as never)
+
+      const reserved = await getReservedQuantities(prisma, ['prod-1'], now)
+
+      expect(reserved.products.get('prod-1')).toBe(2)
+      expect(reserved.batches.get('batch-1')).toBe(4)
+    })
+
+    it('skips the query when there are no products', async () => {
+      await getReservedQuantities(prisma, [], now)
+
+      expect(prisma.inventoryReservation.groupBy).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('applyReservedInventory', () => {
+    it('subtracts holds from product and variant stock without going negative', () => {
+      const product = {
+        id: 'prod-1',
+        inventory: 5,
+        variants: [
+          { id: 'var-1', inventory: 4 },
+          { id: 'var-2', inventory: 1 },
+        ],
+      }
+
+      const available = applyReservedInventory(product, {
+        products: new Map([['prod-1', 2]]),
+        variants: new Map([['var-1', 1], ['var-2', 3]]),
+        batches: new Map(),
+      })
+
+      expect(available.inventory).toBe(3)
+      expect(available.variants.map((v) => v.inventory)).toEqual([3, 0])
+    })
+  })
+
+  describe('reserveInventoryForCheckout', () => {
+    it('holds each line until the hold window closes', async () => {
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({ inventory: 5 } as never)
+      vi.mocked(prisma.productVariant.findUnique).mockResolvedValue({ inventory: 2 } as never)
+
+      const result = await reserveInventoryForCheckout(
+        [
+          { productId: 'prod-1', variantId: null, quantity: 2, label: 'Soap' },
+          { productId: 'prod-2', variantId: 'var-1', quantity: 2, label: 'Tee (M)' },
+        ],
+        now
+      )
+
+      expect(result.reservationIds).toEqual(['hold-1', 'hold-2'])
+      expect(result.expiresAt).toEqual(new Date('2026-10-19T12:35:00Z'))
+      expect(prisma.inventoryReservation.create).toHaveBeenCalledWith({
+        data: {
+          productId: 'prod-2',
+          variantId: 'var-1',
+          quantity: 2,
+          expiresAt: result.expiresAt,
+        },
+        select: { id: true },
+      })
+    })
+
+    it('rejects lines that active holds leave short', async () => {
+      vi.mocked(prisma.inventoryReservation.groupBy).mockResolvedValue([
+        { productId: 'prod-1', variantId: null, _sum: { quantity: 4 } },
+      ] as never)
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({ inventory: 5 } as never)
+
+      await expect(
+        reserveInventoryForCheckout(
+          [{ productId: 'prod-1', variantId: null, quantity: 2, label: 'Soap' }],
+          now
+        )
+      ).rejects.toThrow('Insufficient inventory for Soap. Only 1 available.')
+    })
+
+    it('holds imperfect batch lines against the batch stock', async () => {
+      vi.mocked(prisma.imperfectBatch.findUnique).mockResolvedValue({
+        quantity: 3,
+        isActive: true,
+        expiresAt: null,
+      } as never)
+
+      await reserveInventoryForCheckout(
+        [
+          {
+            productId: 'prod-1',
+            variantId: null,
+            imperfectBatchId: 'batch-1',
+            quantity: 3,
+            label: 'Soap (imperfect)',
+          },
+        ],
+        now
+      )
+
+      expect(prisma.product.findUnique).not.toHaveBeenCalled()
+      expect(prisma.inventoryReservation.create).toHaveBeenCalledWith({
+        data: {
+          productId: 'prod-1',
+          variantId: null,
+          imperfectBatchId: 'batch-1',
+          quantity: 3,
+          expiresAt: expect.any(Date),
+        },
+        select: { id: true },
+      })
+    })
+
+    it('rejects lines from batches that have expired', async () => {
+      vi.mocked(prisma.imperfectBatch.findUnique).mockResolvedValue({
+        quantity: 3,
+        isActive: true,
+        expiresAt: new Date('2026-10-19T11:00:00Z'),
+      } as never)
+
+      await expect(
+        reserveInventoryForCheckout(
+          [
+            {
+              productId: 'prod-1',
+              variantId: null,
+              imperfectBatchId: 'batch-1',
+              quantity: 1,
+              label: 'Soap (imperfect)',
+            },
+          ],
+          now
+        )
+      ).rejects.toThrow('Insufficient inventory for Soap (imperfect). Only 0 available.')
+    })
+
+    it('retries serialization conflicts', async () => {
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({ inventory: 5 } as never)
+      vi.mocked(prisma.$transaction)
+        .mockRejectedValueOnce(
+          new Prisma.PrismaClientKnownRequestError('Transaction conflict', {
+            code: 'P2034',
+            clientVersion: 'test',
+          })
+        )
+        .mockImplementationOnce(((fn: (tx: typeof prisma) => unknown) => fn(prisma)) as never)
+
+      const result = await reserveInventoryForCheckout(
+        [{ productId: 'prod-1', variantId: null, quantity: 1, label: 'Soap' }],
+        now
+      )
+
+      expect(result.reservationIds).toEqual(['hold-1'])
+      expect(prisma.$transaction).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('hold lifecycle', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.inventoryReservation.updateMany).mockResolvedValue({ count: 2 })
+    })
+
+    it('converts an order\'s holds on payment', async () => {
+      await convertOrderReservations(prisma, 'order-1', now)
+
+      expect(prisma.inventoryReservation.updateMany).toHaveBeenCalledWith({
+        where: { orderId: 'order-1', status: { not: 'CONVERTED' } },
+        data: { status: 'CONVERTED', convertedAt: now },
+      })
+    })
+
+    it('releases only active holds when a session expires', async () => {
+      await releaseOrderReservations('order-1', now)
+
+      expect(prisma.inventoryReservation.updateMany).toHaveBeenCalledWith({
+        where: { orderId: 'order-1', status: 'ACTIVE' },
+        data: { status: 'RELEASED', releasedAt: now },
+      })
+    })
+
+    it('sweeps timed-out holds', async () => {
+      expect(await sweepExpiredReservations(now)).toEqual({ released: 2 })
+      expect(prisma.inventoryReservation.updateMany).toHaveBeenCalledWith({
+        where: { status: 'ACTIVE', expiresAt: { lte: now } },
+        data: { status: 'RELEASED', releasedAt: now },
+      })
+    })
+  })
+})
@@ -0,0 +1,327 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Background Job Queue Unit Tests
+ *
+ * Tests the job queue and its handlers including:
+ * - Idempotent enqueueing
+ * - Exponential backoff
+ * - Claiming due and stale jobs without double-claiming
+ * - Retry, dead-letter and requeue transitions
+ * - Handlers that skip work already done
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    job: {
+      createMany: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+    },
+    order: { findUnique: vi.fn() },
+    referral: { findFirst: vi.fn() },
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('@/lib/email', () => ({
+  isEmailConfigured: vi.fn(),
+  sendOrderConfirmation: vi.fn(),
+  sendOutOfStockRefundEmail: vi.fn(),
+  sendSubscriptionPaymentFailedEmail: vi.fn(),
+}))
+
+vi.mock('@/lib/loyalty', () => ({
+  awardPurchasePoints: vi.fn(),
+  awardReferralPoints: vi.fn(),
+}))
+
+vi.mock('@/lib/impact', () => ({ storeOrderImpact: vi.fn() }))
+
+vi.mock('@/lib/referrals', () => ({ completeReferral: vi.fn() }))
+
+import { prisma } from '@/lib/prisma'
+import { isEmailConfigured, sendOrderConfirmation } from '@/lib/email'
+import { awardPurchasePoints, awardReferralPoints } from '@/lib/loyalty'
+import { completeReferral } from '@/lib/referrals'
+import {
+  JOB_CONFIG,
+  claimJobs,
+  enqueueJobs,
+  getJobBackoffMs,
+  jobKey,
+  retryJob,
+  runJob,
+  type JobHandlers,
+} from '@/lib/jobs'
+import { JOB_HANDLERS } from '@/lib/job-handlers'
+
+const now = new Date('2026-10-20T12:00:00Z')
+
+function claimedJob(overrides: Partial<{ attempts: number; maxAttempts: number; type: string }> = {}) {
+  return {
+    id: 'job-1',
+    type: 'order.confirmationEmail',
+    payload: JSON.stringify({ orderId: 'order-1' }),
+    attempts: 1,
+    maxAttempts: 3,
+    ...overrides,
+  }
+}
+
+function handlersWith(handler: JobHandlers['order.confirmationEmail']): JobHandlers {
+  return { ...JOB_HANDLERS, 'order.confirmationEmail': handler }
+}
+
+describe('Background jobs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.job.update).mockResolvedValue({} as never)
+  })
+
+  describe('enqueueJobs', () => {
+    it('skips jobs whose idempotency key already exists', async () => {
+      vi.mocked(prisma.job.createMany).mockResolvedValue({ count: 0 })
+
+      const inserted = await enqueueJobs([
+        {
+          type: 'impact.storeOrder',
+          payload: { orderId: 'order-1' },
+          idempotencyKey: jobKey('impact.storeOrder', 'order-1'),
+          runAt: now,
+        },
+      ])
+
+      expect(inserted).toBe(0)
+      expect(prisma.job.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            type: 'impact.storeOrder',
+            payload: '{"orderId":"order-1"}',
+            idempotencyKey: 'impact.storeOrder:order-1',
+            runAt: now,
+            maxAttempts: JOB_CONFIG.MAX_ATTEMPTS,
+          },
+        ],
+        skipDuplicates: true,
+      })
+    })
+
+    it('does nothing for an empty list', async () => {
+      expect(await enqueueJobs([])).toBe(0)
+      expect(prisma.job.createMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getJobBackoffMs', () => {
+    it('doubles per attempt up to the cap', () => {
+      expect(getJobBackoffMs(1)).toBe(30_000)
+      expect(getJobBackoffMs(2)).toBe(60_000)
+      expect(getJobBackoffMs(4)).toBe(240_000)
+      expect(getJobBackoffMs(30)).toBe(JOB_CONFIG.MAX_BACKOFF_MS)
+    })
+  })
+
+  describe('claimJobs', () => {
+    it('claims due and stale jobs and skips ones another worker took', async () => {
+      const staleLock = new Date(now.getTime() - JOB_CONFIG.LOCK_TIMEOUT_MS - 1)
+      vi.mocked(prisma.job.findMany)
+        .mockResolvedValueOnce([
+          { id: 'job-1', status: 'PENDING', lockedAt: null },
+          { id: 'job-2', status: 'RUNNING', lockedAt: staleLock },
+          { id: 'job-3', status: 'PENDING', lockedAt: null },
+        ] as never)
+        .mockResolvedValueOnce([claimedJob()] as never)
+      vi.mocked(prisma.job.updateMany)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 })
+
+      await claimJobs(now)
+
+      expect(prisma.job.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-2', status: 'RUNNING', lockedAt: staleLock },
+        data: { status: 'RUNNING', lockedAt: now, attempts: { increment: 1 } },
+      })
+      expect(vi.mocked(prisma.job.findMany).mock.calls[1][0]).toMatchObject({
+        where: { id: { in: ['job-1', 'job-2'] } },
+      })
+    })
+
+    it('returns nothing when no job is due', async () => {
+      vi.mocked(prisma.job.findMany).mockResolvedValueOnce([])
+
+      expect(await claimJobs(now)).toEqual([])
+      expect(prisma.job.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('runJob', () => {
+    it('marks a job succeeded when its handler returns', async () => {
+      const handler = vi.fn().mockResolvedValue(undefined)
+
+      const status = await runJob(claimedJob(), handlersWith(handler), now)
+
+      expect(status).toBe('SUCCEEDED')
+      expect(handler).toHaveBeenCalledWith({ orderId: 'order-1' }, { id: 'job-1', attempts: 1 })
+      expect(prisma.job.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'SUCCEEDED', lockedAt: null, lastError: null }),
+      })
+    })
+
+    it('reschedules a failed job with backoff', async () => {
+      const handler = vi.fn().mockRejectedValue(new Error('Resend is down'))
+
+      const status = await runJob(claimedJob({ attempts: 2 }), handlersWith(handler), now)
+
+      expect(status).toBe('PENDING')
+      expect(prisma.job.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: {
+          status: 'PENDING',
+          lockedAt: null,
+          lastError: 'Resend is down',
+          runAt: new Date(now.getTime() + 60_000),
+        },
+      })
+    })
+
+    it('moves a job to the dead letter state on its last attempt', async () => {
+      const handler = vi.fn().mockRejectedValue(new Error('Resend is down'))
+
+      const status = await runJob(claimedJob({ attempts: 3 }), handlersWith(handler), now)
+
+      expect(status).toBe('DEAD')
+      expect(prisma.job.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: { status: 'DEAD', lockedAt: null, lastError: 'Resend is down' },
+      })
+    })
+
+    it('fails jobs of unknown types', async () => {
+      const status = await runJob(
+        claimedJob({ type: 'unknown.type', attempts: 3 }),
+        JOB_HANDLERS,
+        now
+      )
+
+      expect(status).toBe('DEAD')
+    })
+  })
+
+  describe('retryJob', () => {
+    it('requeues only dead jobs with fresh attempts', async () => {
+      vi.mocked(prisma.job.updateMany).mockResolvedValueOnce({ count: 1 })
+
+      expect(await retryJob('job-1', now)).toBe(true)
+      expect(prisma.job.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: 'DEAD' },
+        data: { status: 'PENDING', attempts: 0, runAt: now },
+      })
+    })
+  })
+
+  describe('handlers', () => {
+    const job = { id: 'job-1', attempts: 1 }
+
+    it('retries the confirmation email when sending fails', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1',
+        customerEmail: 'jane@example.com',
+        customerName: 'Jane',
+        amount: 25,
+        items: [],
+      } as never)
+      vi.mocked(isEmailConfigured).mockReturnValue(true)
+      vi.mocked(sendOrderConfirmation).mockResolvedValue({
+        success: false,
+        error: new Error('rate limited'),
+      })
+
+      await expect(
+        JOB_HANDLERS['order.confirmationEmail']({ orderId: 'order-1' }, job)
+      ).rejects.toThrow('rate limited')
+    })
+
+    it('skips email jobs when email is not configured', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1',
+        customerEmail: 'jane@example.com',
+        items: [],
+      } as never)
+      vi.mocked(isEmailConfigured).mockReturnValue(false)
+
+      await JOB_HANDLERS['order.confirmationEmail']({ orderId: 'order-1' }, job)
+
+      expect(sendOrderConfirmation).not.toHaveBeenCalled()
+    })
+
+    it('awards the referrer even when a previous attempt completed the referral', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        userId: 'referee-1',
+        amount: 40,
+      } as never)
+      // Already REWARDED: completeReferral reports success without details
+      vi.mocked(completeReferral).mockResolvedValue({ success: true })
+      vi.mocked(prisma.referral.findFirst).mockResolvedValue({
+        id: 'referral-1',
+        referrerId: 'referrer-1',
+      } as never)
+
+      await JOB_HANDLERS['referral.complete']({ orderId: 'order-1' }, job)
+
+      expect(completeReferral).toHaveBeenCalledWith('referee-1', 'order-1', 40)
+      expect(awardReferralPoints).toHaveBeenCalledWith('referrer-1', 'referral-1')
+    })
+
+    it('awards purchase points only for the amount left after partial refunds', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        userId: 'user-1',
+        amount: 40,
+        refundAmount: 15,
+        status: 'partially_refunded',
+      } as never)
+      vi.mocked(awardPurchasePoints).mockResolvedValue({ success: true, pointsAwarded: 25 })
+
+      await JOB_HANDLERS['loyalty.purchasePoints']({ orderId: 'order-1' }, job)
+
+      expect(awardPurchasePoints).toHaveBeenCalledWith('user-1', 'order-1', 25)
+    })
+
+    it('awards nothing for orders fully refunded before the job ran', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        userId: 'referee-1',
+        amount: 40,
+        refundAmount: 40,
+        status: 'refunded',
+      } as never)
+
+      await JOB_HANDLERS['loyalty.purchasePoints']({ orderId: 'order-1' }, job)
+      await JOB_HANDLERS['referral.complete']({ orderId: 'order-1' }, job)
+
+      expect(awardPurchasePoints).not.toHaveBeenCalled()
+      expect(completeReferral).not.toHaveBeenCalled()
+      expect(awardReferralPoints).not.toHaveBeenCalled()
+    })
+
+    it('leaves the referral pending when the referee is unverified', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        userId: 'referee-1',
+        amount: 40,
+      } as never)
+      vi.mocked(completeReferral).mockResolvedValue({
+        success: false,
+        error: 'Referee email address is not verified',
+      })
+
+      await JOB_HANDLERS['referral.complete']({ orderId: 'order-1' }, job)
+
+      expect(awardReferralPoints).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -19,6 +19,17 @@ import {
   redeemPoints,
   holdPointsForCheckout,
   getUserPointHistory,
+  getTierEntitlements,
+  hasEarlyAccess,
+  isInEarlyAccessWindow,
+  getUserLoyaltyTier,
+  isBirthdayOn,
+  awardBirthdayBonus,
+  awardBirthdayBonuses,
+  allocatePointsFifo,
+  getPointsExpiryDate,
+  expireUserPoints,
+  notifyExpiringPoints,
   type LoyaltyTier,
   type PointSource,
 } from '@/lib/loyalty';
@@ -36,6 +47,8 @@ vi.mock('@/lib/prisma', () => ({
       findMany: vi.fn(),
       count: vi.fn(),
       create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
     },
     loyaltyRedemption: {
       aggregate: vi.fn(),
@@ -43,6 +56,12 @@ vi.mock('@/lib/prisma', () => ({
       count: vi.fn(),
       create: vi.fn(),
     },
+    profile: {
+      findMany: vi.fn(),
+    },
+    referral: {
+      findUnique: vi.fn(),
+    },
     $transaction: vi.fn(),
   },
 }));
@@ -57,9 +76,15 @@ vi.mock('@/lib/logger', () => ({
   },
 }));
 
+// Mock the email service
+vi.mock('@/lib/email', () => ({
+  sendPointsExpiringEmail: vi.fn(),
+}));
+
 // Import the mocked prisma after mocking
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
+import { sendPointsExpiringEmail } from '@/lib/email';
 
 describe('Loyalty Program', () => {
   beforeEach(() => {
@@ -608,6 +633,45 @@ describe('Loyalty Program', () => {
         })
       );
     });
+
+    it('leaves out lots that lapsed before the expiry sweep ran', async () => {
+      // 1000 earned: a 600 lot that has lapsed and a 400 lot still live.
+      // 200 redeemed drew from the older lot, so 400 of it is unswept.
+      vi.mocked(prisma.loyaltyPoints.aggregate).mockResolvedValue({
+        _sum: { points: 1000 },
+      } as never);
+      vi.mocked(prisma.loyaltyRedemption.aggregate).mockResolvedValue({
+        _sum: { pointsUsed: 200 },
+      } as never);
+      vi.mocked(prisma.loyaltyPoints.findFirst).mockResolvedValue({ id: 'lot-1' } as never);
+      vi.mocked(prisma.loyaltyPoints.findMany).mockResolvedValue([
+        {
+          id: 'lot-1',
+          points: 600,
+          earnedAt: new Date('2025-01-01T00:00:00Z'),
+          expiresAt: new Date('2026-01-01T00:00:00Z'),
+          expiredAt: null,
+          expiryNotifiedAt: null,
+        },
+        {
+          id: 'lot-2',
+          points: 400,
+          earnedAt: new Date('2026-06-01T00:00:00Z'),
+          expiresAt: new Date('2099-06-01T00:00:00Z'),
+          expiredAt: null,
+          expiryNotifiedAt: null,
+        },
+      ] as never);
+      vi.mocked(prisma.loyaltyRedemption.findMany).mockResolvedValue([
+        { pointsUsed: 200, redeemedAt: new Date('2025-06-01T00:00:00Z') },
+      ] as never);
+
+      const result = await getUserAvailablePoints(mockUserId);
+
+      expect(result).toBe(400);
+      expect(prisma.loyaltyPoints.create).not.toHaveBeenCalled();
+      expect(prisma.loyaltyPoints.update).not.toHaveBeenCalled();
+    });
   });
 
   // ============================================================
@@ -781,7 +845,23 @@ describe('Loyalty Program', () => {
   describe('awardSignupBonus', () => {
     const mockUserId = 'user-123';
 
+    it('should defer the bonus until the email is verified', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ emailVerified: null } as any);
+
+      const result = await awardSignupBonus(mockUserId);
+
+      expect(result).toBe(false);
+      expect(prisma.loyaltyPoints.create).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledWith(
+        'Signup bonus deferred until email is verified',
+        { userId: mockUserId }
+      );
+    });
+
     it('should return false if user already received signup bonus', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        emailVerified: new Date(),
+      } as any);
       vi.mocked(prisma.loyaltyPoints.findFirst).mockResolvedValue({
         id: 'existing-bonus',
         userId: mockUserId,
@@ -800,6 +880,7 @@ describe('Loyalty Program', () => {
     it('should award signup bonus for new user', async () => {
       vi.mocked(prisma.loyaltyPoints.findFirst).mockResolvedValue(null);
       vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        emailVerified: new Date(),
         loyaltyTier: 'SEEDLING',
         totalLifetimePoints: 0,
       } as any);
@@ -843,6 +924,15 @@ describe('Loyalty Program', () => {
       expect(result.pointsAwarded).toBe(125);
     });
 
+    it('should not award points twice for the same order', async () => {
+      vi.mocked(prisma.loyaltyPoints.findFirst).mockResolvedValue({ id: 'points-1' } as any);
+
+      const result = await awardPurchasePoints(mockUserId, mockOrderId, 100);
+
+      expect(result).toEqual({ success: true, pointsAwarded: 0 });
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
     it('should return success with 0 points for very small orders', async () => {
       vi.mocked(prisma.user.findUnique).mockResolvedValue({
         loyaltyTier: 'SEEDLING',
@@ -898,7 +988,28 @@ describe('Loyalty Program', () => {
     const mockUserId = 'user-123';
     const mockReferralId = 'referral-123';
 
+    beforeEach(() => {
+      vi.mocked(prisma.referral.findUnique).mockResolvedValue({
+        refereeId: 'referee-123',
+      } as any);
+    });
+
+    it('should return false if the referee has not verified their email', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ emailVerified: null } as any);
+
+      const result = await awardReferralPoints(mockUserId, mockReferralId);
+
+      expect(result).toBe(false);
+      expect(prisma.user.findUnique).toHaveBeenCalledWith({
+        where: { id: 'referee-123' },
+        select: { emailVerified: true },
+      });
+    });
+
     it('should return false if points already awarded for referral', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        emailVerified: new Date(),
+      } as any);
       vi.mocked(prisma.loyaltyPoints.findFirst).mockResolvedValue({
         id: 'existing-points',
         userId: mockUserId,
@@ -917,6 +1028,7 @@ describe('Loyalty Program', () => {
     it('should award referral points for new referral', async () => {
       vi.mocked(prisma.loyaltyPoints.findFirst).mockResolvedValue(null);
       vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        emailVerified: new Date(),
         loyaltyTier: 'SEEDLING',
         totalLifetimePoints: 0,
       } as any);
@@ -1300,6 +1412,364 @@ describe('Loyalty Program', () => {
     });
   });
 
+  // ============================================================
+  // TIER ENTITLEMENT TESTS
+  // ============================================================
+  describe('Tier entitlements', () => {
+    it('should define entitlements for every tier', () => {
+      for (const tier of Object.values(LOYALTY_TIERS)) {
+        expect(getTierEntitlements(tier)).toBeDefined();
+      }
+    });
+
+    it('should match the advertised free shipping benefits', () => {
+      expect(getTierEntitlements('SEEDLING').freeShipping).toBeNull();
+      expect(getTierEntitlements('SPROUT').freeShipping).toEqual({ speeds: ['standard'], minSubtotal: 50 });
+      expect(getTierEntitlements('BLOOM').freeShipping).toEqual({ speeds: ['standard'], minSubtotal: 0 });
+      expect(getTierEntitlements('FLOURISH').freeShipping?.speeds).toContain('express');
+    });
+
+    it('should grant early access from SPROUT upwards', () => {
+      expect(hasEarlyAccess(null)).toBe(false);
+      expect(hasEarlyAccess('SEEDLING')).toBe(false);
+      expect(hasEarlyAccess('SPROUT')).toBe(true);
+      expect(hasEarlyAccess('BLOOM')).toBe(true);
+      expect(hasEarlyAccess('FLOURISH')).toBe(true);
+    });
+
+    it('should give birthday bonus points from BLOOM upwards', () => {
+      expect(getTierEntitlements('SPROUT').birthdayBonusPoints).toBe(0);
+      expect(getTierEntitlements('BLOOM').birthdayBonusPoints).toBeGreaterThan(0);
+      expect(getTierEntitlements('FLOURISH').birthdayBonusPoints).toBeGreaterThan(
+        getTierEntitlements('BLOOM').birthdayBonusPoints
+      );
+    });
+
+    it('should detect products still in their early-access window', () => {
+      const now = new Date('2026-06-01T12:00:00Z');
+
+      expect(isInEarlyAccessWindow({ earlyAccessUntil: null }, now)).toBe(false);
+      expect(isInEarlyAccessWindow({ earlyAccessUntil: new Date('2026-06-02T00:00:00Z') }, now)).toBe(true);
+      expect(isInEarlyAccessWindow({ earlyAccessUntil: new Date('2026-06-01T00:00:00Z') }, now)).toBe(false);
+    });
+
+    it('should not look up a tier for guests', async () => {
+      expect(await getUserLoyaltyTier(null)).toBeNull();
+      expect(await getUserLoyaltyTier('guest_abc')).toBeNull();
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should return the stored tier for members', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ loyaltyTier: 'BLOOM' } as any);
+
+      expect(await getUserLoyaltyTier('user-123')).toBe('BLOOM');
+    });
+  });
+
+  // ============================================================
+  // BIRTHDAY BONUS TESTS
+  // ============================================================
+  describe('isBirthdayOn', () => {
+    it('should match on month and day only', () => {
+      const birthday = new Date('1990-03-15T00:00:00Z');
+
+      expect(isBirthdayOn(birthday, new Date('2026-03-15T18:00:00Z'))).toBe(true);
+      expect(isBirthdayOn(birthday, new Date('2026-03-16T00:00:00Z'))).toBe(false);
+    });
+
+    it('should celebrate Feb 29 birthdays on Feb 28 in non-leap years', () => {
+      const birthday = new Date('2000-02-29T00:00:00Z');
+
+      expect(isBirthdayOn(birthday, new Date('2027-02-28T10:00:00Z'))).toBe(true);
+      expect(isBirthdayOn(birthday, new Date('2028-02-28T10:00:00Z'))).toBe(false);
+      expect(isBirthdayOn(birthday, new Date('2028-02-29T10:00:00Z'))).toBe(true);
+    });
+  });
+
+  describe('awardBirthdayBonus', () => {
+    const mockUserId = 'user-123';
+    const now = new Date('2026-03-15T08:00:00Z');
+
+    it('should not award tiers without a birthday bonus', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ loyaltyTier: 'SPROUT' } as any);
+
+      const result = await awardBirthdayBonus(mockUserId, now);
+
+      expect(result).toBe(false);
+      expect(prisma.loyaltyPoints.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should award at most once per calendar year', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ loyaltyTier: 'BLOOM' } as any);
+      vi.mocked(prisma.loyaltyPoints.findFirst).mockResolvedValue({ id: 'existing' } as any);
+
+      const result = await awardBirthdayBonus(mockUserId, now);
+
+      expect(result).toBe(false);
+      expect(prisma.loyaltyPoints.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId: mockUserId,
+          source: POINT_SOURCES.BIRTHDAY,
+          earnedAt: { gte: new Date('2026-01-01T00:00:00Z') },
+        },
+      });
+    });
+
+    it('should award the tier bonus via awardPoints', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        loyaltyTier: 'FLOURISH',
+        totalLifetimePoints: 3500,
+      } as any);
+      vi.mocked(prisma.loyaltyPoints.findFirst).mockResolvedValue(null);
+
+      const result = await awardBirthdayBonus(mockUserId, now);
+
+      expect(result).toBe(true);
+      expect(prisma.loyaltyPoints.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: mockUserId,
+          points: LOYALTY_CONFIG.tierEntitlements.FLOURISH.birthdayBonusPoints,
+          source: POINT_SOURCES.BIRTHDAY,
+        }),
+      });
+    });
+  });
+
+  describe('awardBirthdayBonuses', () => {
+    it('should only award members whose birthday is today', async () => {
+      const now = new Date('2026-03-15T08:00:00Z');
+      vi.mocked(prisma.profile.findMany).mockResolvedValue([
+        { userId: 'birthday-user', birthday: new Date('1990-03-15T00:00:00Z') },
+        { userId: 'other-user', birthday: new Date('1990-07-01T00:00:00Z') },
+      ] as any);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        loyaltyTier: 'BLOOM',
+        totalLifetimePoints: 2000,
+      } as any);
+      vi.mocked(prisma.loyaltyPoints.findFirst).mockResolvedValue(null);
+
+      const result = await awardBirthdayBonuses(now);
+
+      expect(result).toEqual({ checked: 1, awarded: 1 });
+      expect(prisma.profile.findMany).toHaveBeenCalledWith({
+        where: {
+          birthday: { not: null },
+          user: { loyaltyTier: { in: ['BLOOM', 'FLOURISH'] } },
+        },
+        select: { userId: true, birthday: true },
+      });
+    });
+  });
+
+  // ============================================================
+  // POINTS EXPIRY TESTS
+  // ============================================================
+  describe('getPointsExpiryDate', () => {
+    it('should expire points after the configured number of months', () => {
+      expect(getPointsExpiryDate(new Date('2026-01-15T10:00:00Z'))).toEqual(
+        new Date('2027-01-15T10:00:00Z')
+      );
+    });
+  });
+
+  describe('allocatePointsFifo', () => {
+    const lot = (id: string, points: number, earnedAt: string, expiresAt: string | null) => ({
+      id,
+      points,
+      earnedAt: new Date(earnedAt),
+      expiresAt: expiresAt ? new Date(expiresAt) : null,
+    });
+
+    it('should consume the oldest lots first', () => {
+      const remaining = allocatePointsFifo(
+        [lot('b', 100, '2026-02-01', '2027-02-01'), lot('a', 100, '2026-01-01', '2027-01-01')],
+        [{ points: 150, at: new Date('2026-03-01') }]
+      );
+
+      expect(remaining.get('a')).toBe(0);
+      expect(remaining.get('b')).toBe(50);
+    });
+
+    it('should not consume lots that had already expired', () => {
+      const remaining = allocatePointsFifo(
+        [lot('old', 100, '2025-01-01', '2026-01-01'), lot('new', 100, '2025-12-01', '2026-12-01')],
+        [{ points: 100, at: new Date('2026-02-01') }]
+      );
+
+      expect(remaining.get('old')).toBe(100);
+      expect(remaining.get('new')).toBe(0);
+    });
+
+    it('should apply consumptions in time order', () => {
+      const remaining = allocatePointsFifo(
+        [lot('a', 100, '2025-01-01', '2026-01-01'), lot('b', 100, '2025-06-01', '2026-06-01')],
+        [
+          { points: 50, at: new Date('2026-02-01') },
+          { points: 80, at: new Date('2025-07-01') },
+        ]
+      );
+
+      expect(remaining.get('a')).toBe(20);
+      expect(remaining.get('b')).toBe(50);
+    });
+  });
+
+  describe('expireUserPoints', () => {
+    const mockUserId = 'user-123';
+    const now = new Date('2026-06-01T06:00:00Z');
+
+    beforeEach(() => {
+      vi.mocked(prisma.$transaction).mockImplementation(async (operations) => {
+        if (typeof operations === 'function') {
+          return operations(prisma as any);
+        }
+        return Promise.all(operations);
+      });
+    });
+
+    it('should do nothing when no lots are due', async () => {
+      vi.mocked(prisma.loyaltyPoints.findFirst).mockResolvedValue(null);
+
+      const result = await expireUserPoints(mockUserId, now);
+
+      expect(result).toBe(0);
+      expect(prisma.loyaltyPoints.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should write off only the unused remainder of lapsed lots', async () => {
+      vi.mocked(prisma.loyaltyPoints.findFirst).mockResolvedValue({ id: 'lot-old' } as any);
+      vi.mocked(prisma.loyaltyPoints.findMany).mockResolvedValue([
+        {
+          id: 'lot-old',
+          points: 300,
+          earnedAt: new Date('2025-05-01T00:00:00Z'),
+          expiresAt: new Date('2026-05-01T00:00:00Z'),
+          expiredAt: null,
+          expiryNotifiedAt: null,
+        },
+        {
+          id: 'lot-new',
+          points: 200,
+          earnedAt: new Date('2026-01-01T00:00:00Z'),
+          expiresAt: new Date('2027-01-01T00:00:00Z'),
+          expiredAt: null,
+          expiryNotifiedAt: null,
+        },
+      ] as any);
+      vi.mocked(prisma.loyaltyRedemption.findMany).mockResolvedValue([
+        { pointsUsed: 120, redeemedAt: new Date('2026-02-01T00:00:00Z') },
+      ] as any);
+
+      const result = await expireUserPoints(mockUserId, now);
+
+      expect(result).toBe(180);
+      expect(prisma.loyaltyPoints.update).toHaveBeenCalledTimes(1);
+      expect(prisma.loyaltyPoints.update).toHaveBeenCalledWith({
+        where: { id: 'lot-old' },
+        data: { expiredAt: now, expiredPoints: 180 },
+      });
+      expect(prisma.loyaltyPoints.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: mockUserId,
+          points: -180,
+          source: POINT_SOURCES.EXPIRED,
+        }),
+      });
+    });
+
+    it('should mark fully redeemed lots without writing a ledger entry', async () => {
+      vi.mocked(prisma.loyaltyPoints.findFirst).mockResolvedValue({ id: 'lot-old' } as any);
+      vi.mocked(prisma.loyaltyPoints.findMany).mockResolvedValue([
+        {
+          id: 'lot-old',
+          points: 100,
+          earnedAt: new Date('2025-05-01T00:00:00Z'),
+          expiresAt: new Date('2026-05-01T00:00:00Z'),
+          expiredAt: null,
+          expiryNotifiedAt: null,
+        },
+      ] as any);
+      vi.mocked(prisma.loyaltyRedemption.findMany).mockResolvedValue([
+        { pointsUsed: 100, redeemedAt: new Date('2026-01-01T00:00:00Z') },
+      ] as any);
+
+      const result = await expireUserPoints(mockUserId, now);
+
+      expect(result).toBe(0);
+      expect(prisma.loyaltyPoints.update).toHaveBeenCalledWith({
+        where: { id: 'lot-old' },
+        data: { expiredAt: now, expiredPoints: 0 },
+      });
+      expect(prisma.loyaltyPoints.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('notifyExpiringPoints', () => {
+    const now = new Date('2026-06-01T06:00:00Z');
+
+    it('should email the unused points expiring within the warning window', async () => {
+      vi.mocked(prisma.loyaltyPoints.findMany)
+        .mockResolvedValueOnce([{ userId: 'user-123' }] as any)
+        .mockResolvedValueOnce([
+          {
+            id: 'lot-soon',
+            points: 250,
+            earnedAt: new Date('2025-06-20T00:00:00Z'),
+            expiresAt: new Date('2026-06-20T00:00:00Z'),
+            expiredAt: null,
+            expiryNotifiedAt: null,
+          },
+        ] as any);
+      vi.mocked(prisma.loyaltyRedemption.findMany).mockResolvedValue([
+        { pointsUsed: 50, redeemedAt: new Date('2026-01-01T00:00:00Z') },
+      ] as any);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        email: 'member@example.com',
+        name: 'Sam',
+      } as any);
+      vi.mocked(sendPointsExpiringEmail).mockResolvedValue({ success: true });
+
+      const result = await notifyExpiringPoints(now);
+
+      expect(result).toEqual({ usersNotified: 1, failures: 0 });
+      expect(sendPointsExpiringEmail).toHaveBeenCalledWith('member@example.com', {
+        customerName: 'Sam',
+        points: 200,
+        expiresAt: new Date('2026-06-20T00:00:00Z'),
+      });
+      expect(prisma.loyaltyPoints.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['lot-soon'] } },
+        data: { expiryNotifiedAt: now },
+      });
+    });
+
+    it('should leave lots unmarked when the email fails so the next run retries', async () => {
+      vi.mocked(prisma.loyaltyPoints.findMany)
+        .mockResolvedValueOnce([{ userId: 'user-123' }] as any)
+        .mockResolvedValueOnce([
+          {
+            id: 'lot-soon',
+            points: 100,
+            earnedAt: new Date('2025-06-20T00:00:00Z'),
+            expiresAt: new Date('2026-06-20T00:00:00Z'),
+            expiredAt: null,
+            expiryNotifiedAt: null,
+          },
+        ] as any);
+      vi.mocked(prisma.loyaltyRedemption.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        email: 'member@example.com',
+        name: null,
+      } as any);
+      vi.mocked(sendPointsExpiringEmail).mockResolvedValue({ success: false, error: 'down' });
+
+      const result = await notifyExpiringPoints(now);
+
+      expect(result).toEqual({ usersNotified: 0, failures: 1 });
+      expect(prisma.loyaltyPoints.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
   // ============================================================
   // CONSTANTS AND TYPES TESTS
   // ============================================================
@@ -1316,6 +1786,8 @@ describe('Loyalty Program', () => {
       expect(POINT_SOURCES.REVIEW).toBe('REVIEW');
       expect(POINT_SOURCES.REFERRAL).toBe('REFERRAL');
       expect(POINT_SOURCES.SIGNUP).toBe('SIGNUP');
+      expect(POINT_SOURCES.BIRTHDAY).toBe('BIRTHDAY');
+      expect(POINT_SOURCES.EXPIRED).toBe('EXPIRED');
     });
 
     it('should have correct type inference for LoyaltyTier', () => {
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Newsletter Unit Tests
+ *
+ * Tests the double opt-in lifecycle including:
+ * - Purpose-bound, expiring confirm tokens
+ * - Subscribing sends only the opt-in email until confirmed
+ * - Confirmation sends the welcome email with unsubscribe headers
+ * - One-click unsubscribe is idempotent
+ * - Topic preferences, unsubscribe-all and resubscribe
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    newsletter: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    user: { findUnique: vi.fn() },
+  },
+}))
+
+vi.mock('@/lib/email', () => ({
+  sendNewsletterOptInEmail: vi.fn(),
+  sendNewsletterConfirmation: vi.fn(),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+import { prisma } from '@/lib/prisma'
+import { sendNewsletterConfirmation, sendNewsletterOptInEmail } from '@/lib/email'
+import {
+  NEWSLETTER_CONFIG,
+  confirmNewsletterSubscription,
+  createNewsletterToken,
+  subscribeToNewsletter,
+  unsubscribeFromNewsletter,
+  updateNewsletterPreferences,
+  verifyNewsletterToken,
+} from '@/lib/newsletter'
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+process.env.AUTH_SECRET = 'test-auth-secret-for-newsletter-unit-tests'
+
+describe('Newsletter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(sendNewsletterOptInEmail).mockResolvedValue({ success: true } as never)
+    vi.mocked(sendNewsletterConfirmation).mockResolvedValue({ success: true } as never)
+  })
+
+  describe('tokens', () => {
+    it('binds tokens to their purpose', () => {
+      const token = createNewsletterToken('sub-1', 'confirm', now)
+
+      expect(verifyNewsletterToken(token, 'confirm', now)).toBe('sub-1')
+      expect(verifyNewsletterToken(token, 'manage', now)).toBeNull()
+    })
+
+    it('expires confirm tokens but not manage tokens', () => {
+      const later = new Date(now.getTime() + NEWSLETTER_CONFIG.CONFIRM_TOKEN_EXPIRY_MS + 1)
+
+      expect(verifyNewsletterToken(createNewsletterToken('sub-1', 'confirm', now), 'confirm', later)).toBeNull()
+      expect(verifyNewsletterToken(createNewsletterToken('sub-1', 'manage', now), 'manage', later)).toBe('sub-1')
+    })
+
+    it('rejects tampered tokens', () => {
+      const [, expiresAt, signature] = createNewsletterToken('sub-1', 'manage', now).split('.')
+
+      expect(verifyNewsletterToken(`sub-2.${expiresAt}.${signature}`, 'manage', now)).toBeNull()
+      expect(verifyNewsletterToken('garbage', 'manage', now)).toBeNull()
+    })
+  })
+
+  describe('subscribeToNewsletter', () => {
+    it('creates a pending subscriber and sends the opt-in email', async () => {
+      vi.mocked(prisma.newsletter.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' } as never)
+      vi.mocked(prisma.newsletter.upsert).mockResolvedValue({ id: 'sub-1' } as never)
+
+      const result = await subscribeToNewsletter('Reader@Example.com', ['DEALS'], now)
+
+      expect(result).toEqual({
+        status: 'PENDING',
+        subscriberId: 'sub-1',
+        alreadySubscribed: false,
+        sent: true,
+      })
+      expect(prisma.newsletter.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { email: 'reader@example.com' },
+          create: expect.objectContaining({ topics: ['DEALS'], userId: 'user-1' }),
+        })
+      )
+      expect(sendNewsletterOptInEmail).toHaveBeenCalledWith(
+        'reader@example.com',
+        expect.stringContaining('/newsletter/confirm?token=')
+      )
+      expect(sendNewsletterConfirmation).not.toHaveBeenCalled()
+    })
+
+    it('leaves confirmed subscribers alone', async () => {
+      vi.mocked(prisma.newsletter.findUnique).mockResolvedValue({
+        id: 'sub-1',
+        status: 'CONFIRMED',
+      } as never)
+
+      const result = await subscribeToNewsletter('reader@example.com', undefined, now)
+
+      expect(result.alreadySubscribed).toBe(true)
+      expect(prisma.newsletter.upsert).not.toHaveBeenCalled()
+      expect(sendNewsletterOptInEmail).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('confirmNewsletterSubscription', () => {
+    it('confirms a pending subscriber and sends the welcome email', async () => {
+      vi.mocked(prisma.newsletter.findUnique).mockResolvedValue({
+        id: 'sub-1',
+        email: 'reader@example.com',
+        status: 'PENDING',
+      } as never)
+
+      const result = await confirmNewsletterSubscription(
+        createNewsletterToken('sub-1', 'confirm', now),
+        now
+      )
+
+      expect(result).toEqual({ success: true, alreadyConfirmed: false })
+      expect(prisma.newsletter.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { status: 'CONFIRMED', confirmedAt: now },
+      })
+      expect(sendNewsletterConfirmation).toHaveBeenCalledWith(
+        'reader@example.com',
+        expect.objectContaining({
+          oneClickUnsubscribeUrl: expect.stringContaining('/api/newsletter/unsubscribe?token='),
+        })
+      )
+    })
+
+    it('rejects manage tokens', async () => {
+      const result = await confirmNewsletterSubscription(
+        createNewsletterToken('sub-1', 'manage', now),
+        now
+      )
+
+      expect(result).toMatchObject({ success: false, code: 'INVALID_TOKEN' })
+      expect(prisma.newsletter.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('unsubscribeFromNewsletter', () => {
+    it('unsubscribes and succeeds again when already unsubscribed', async () => {
+      vi.mocked(prisma.newsletter.updateMany)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 })
+      const token = createNewsletterToken('sub-1', 'manage', now)
+
+      expect(await unsubscribeFromNewsletter(token, now)).toEqual({ success: true })
+      expect(await unsubscribeFromNewsletter(token, now)).toEqual({ success: true })
+      expect(prisma.newsletter.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sub-1', status: { not: 'UNSUBSCRIBED' } },
+        data: { status: 'UNSUBSCRIBED', unsubscribedAt: now },
+      })
+    })
+  })
+
+  describe('updateNewsletterPreferences', () => {
+    const token = () => createNewsletterToken('sub-1', 'manage', now)
+
+    it('unsubscribes when no topics are chosen, keeping the old topics', async () => {
+      vi.mocked(prisma.newsletter.findUnique).mockResolvedValue({
+        status: 'CONFIRMED',
+        confirmedAt: now,
+      } as never)
+      vi.mocked(prisma.newsletter.update).mockResolvedValue({
+        email: 'reader@example.com',
+        status: 'UNSUBSCRIBED',
+        topics: ['DEALS'],
+      } as never)
+
+      const result = await updateNewsletterPreferences(token(), [], now)
+
+      expect(result).toMatchObject({ success: true, status: 'UNSUBSCRIBED', topics: [] })
+      expect(prisma.newsletter.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { status: 'UNSUBSCRIBED', unsubscribedAt: now } })
+      )
+    })
+
+    it('resubscribes a previously confirmed address', async () => {
+      vi.mocked(prisma.newsletter.findUnique).mockResolvedValue({
+        status: 'UNSUBSCRIBED',
+        confirmedAt: now,
+      } as never)
+      vi.mocked(prisma.newsletter.update).mockResolvedValue({
+        email: 'reader@example.com',
+        status: 'CONFIRMED',
+        topics: ['BLOG_DIGEST'],
+      } as never)
+
+      await updateNewsletterPreferences(token(), ['BLOG_DIGEST'], now)
+
+      expect(prisma.newsletter.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { topics: ['BLOG_DIGEST'], status: 'CONFIRMED', unsubscribedAt: null },
+        })
+      )
+    })
+
+    it('does not confirm a pending subscriber', async () => {
+      vi.mocked(prisma.newsletter.findUnique).mockResolvedValue({
+        status: 'PENDING',
+        confirmedAt: null,
+      } as never)
+      vi.mocked(prisma.newsletter.update).mockResolvedValue({
+        email: 'reader@example.com',
+        status: 'PENDING',
+        topics: ['DEALS'],
+      } as never)
+
+      await updateNewsletterPreferences(token(), ['DEALS'], now)
+
+      expect(prisma.newsletter.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { topics: ['DEALS'], status: 'PENDING' } })
+      )
+    })
+  })
+})
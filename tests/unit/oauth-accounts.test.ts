@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+/**
+ * OAuth Account Linking Unit Tests
+ *
+ * Tests how OAuth sign-ins map to local users including:
+ * - Signed, expiring link intents
+ * - Signing in with a linked identity
+ * - Creating users for new emails and refusing to link by email alone
+ * - Linking through a re-authenticated intent
+ * - Keeping at least one sign-in method when unlinking
+ */
+
+vi.mock('next/headers', () => ({
+  cookies: vi.fn(),
+}))
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn(), create: vi.fn() },
+    account: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      count: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  createLinkIntentValue,
+  parseLinkIntentValue,
+  resolveOAuthSignIn,
+  unlinkAccount,
+} from '@/lib/oauth-accounts'
+
+process.env.AUTH_SECRET = 'test-auth-secret-for-oauth-unit-tests'
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+const identity = {
+  provider: 'google',
+  providerAccountId: 'google-123',
+  email: 'Shopper@Example.com',
+  emailVerified: true,
+  name: 'Shopper',
+  image: null,
+}
+
+describe('OAuth accounts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('link intents', () => {
+    it('round-trips a signed intent until it expires', () => {
+      const value = createLinkIntentValue({ userId: 'user-1', provider: 'google' }, now)
+
+      expect(parseLinkIntentValue(value, now)).toEqual({ userId: 'user-1', provider: 'google' })
+      expect(parseLinkIntentValue(value, new Date('2026-10-19T12:11:00Z'))).toBeNull()
+    })
+
+    it('rejects tampered intents', () => {
+      const value = createLinkIntentValue({ userId: 'user-1', provider: 'google' }, now)
+
+      expect(parseLinkIntentValue(value.replace('user-1', 'user-2'), now)).toBeNull()
+      expect(parseLinkIntentValue('garbage', now)).toBeNull()
+      expect(parseLinkIntentValue(undefined, now)).toBeNull()
+    })
+  })
+
+  describe('resolveOAuthSignIn', () => {
+    it('signs a linked identity in as its user', async () => {
+      vi.mocked(prisma.account.findUnique).mockResolvedValue({
+        userId: 'user-1',
+        user: { twoFactorEnabled: false },
+      } as never)
+
+      expect(await resolveOAuthSignIn(identity, null, now)).toEqual({
+        allowed: true,
+        userId: 'user-1',
+        created: false,
+        linked: false,
+      })
+    })
+
+    it('sends two-factor accounts back to password sign-in', async () => {
+      vi.mocked(prisma.account.findUnique).mockResolvedValue({
+        userId: 'user-1',
+        user: { twoFactorEnabled: true },
+      } as never)
+
+      expect(await resolveOAuthSignIn(identity, null, now)).toEqual({
+        allowed: false,
+        error: 'TwoFactorRequired',
+      })
+    })
+
+    it('refuses to link to an existing account by email alone', async () => {
+      vi.mocked(prisma.account.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' } as never)
+
+      expect(await resolveOAuthSignIn(identity, null, now)).toEqual({
+        allowed: false,
+        error: 'OAuthAccountNotLinked',
+      })
+      expect(prisma.user.findUnique).toHaveBeenCalledWith({
+        where: { email: 'shopper@example.com' },
+        select: { id: true },
+      })
+      expect(prisma.user.create).not.toHaveBeenCalled()
+    })
+
+    it('creates a user and link for a new email', async () => {
+      vi.mocked(prisma.account.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.user.create).mockResolvedValue({ id: 'user-new' } as never)
+
+      const result = await resolveOAuthSignIn(identity, null, now)
+
+      expect(result).toEqual({ allowed: true, userId: 'user-new', created: true, linked: true })
+      expect(prisma.user.create).toHaveBeenCalledWith({
+        data: {
+          email: 'shopper@example.com',
+          name: 'Shopper',
+          image: null,
+          emailVerified: now,
+          accounts: {
+            create: {
+              provider: 'google',
+              providerAccountId: 'google-123',
+              email: 'shopper@example.com',
+            },
+          },
+        },
+        select: { id: true },
+      })
+    })
+
+    it('leaves unverified provider emails unverified', async () => {
+      vi.mocked(prisma.account.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.user.create).mockResolvedValue({ id: 'user-new' } as never)
+
+      await resolveOAuthSignIn({ ...identity, emailVerified: false }, null, now)
+
+      expect(vi.mocked(prisma.user.create).mock.calls[0][0].data.emailVerified).toBeNull()
+    })
+
+    it('treats a concurrent sign-up as not linked', async () => {
+      vi.mocked(prisma.account.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.user.create).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      )
+
+      expect(await resolveOAuthSignIn(identity, null, now)).toEqual({
+        allowed: false,
+        error: 'OAuthAccountNotLinked',
+      })
+    })
+
+    it('links the identity to the re-authenticated user', async () => {
+      vi.mocked(prisma.account.findUnique).mockResolvedValue(null)
+
+      const result = await resolveOAuthSignIn(
+        { ...identity, email: 'other@example.com' },
+        { userId: 'user-1', provider: 'google' },
+        now
+      )
+
+      expect(result).toEqual({ allowed: true, userId: 'user-1', created: false, linked: true })
+      expect(prisma.account.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-1',
+          provider: 'google',
+          providerAccountId: 'google-123',
+          email: 'other@example.com',
+        },
+      })
+      expect(prisma.user.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('refuses to move an identity linked to someone else', async () => {
+      vi.mocked(prisma.account.findUnique).mockResolvedValue({
+        userId: 'user-2',
+        user: { twoFactorEnabled: false },
+      } as never)
+
+      expect(
+        await resolveOAuthSignIn(identity, { userId: 'user-1', provider: 'google' }, now)
+      ).toEqual({ allowed: false, error: 'OAuthAccountInUse' })
+      expect(prisma.account.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('unlinkAccount', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.account.findFirst).mockResolvedValue({
+        id: 'acct-1',
+        provider: 'google',
+      } as never)
+    })
+
+    it('keeps the only sign-in method of a passwordless account', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ password: null } as never)
+      vi.mocked(prisma.account.count).mockResolvedValue(1)
+
+      expect(await unlinkAccount('user-1', 'acct-1')).toMatchObject({
+        success: false,
+        code: 'LAST_SIGN_IN_METHOD',
+      })
+      expect(prisma.account.delete).not.toHaveBeenCalled()
+    })
+
+    it('unlinks when the account has a password', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ password: 'hash' } as never)
+      vi.mocked(prisma.account.count).mockResolvedValue(1)
+
+      expect(await unlinkAccount('user-1', 'acct-1')).toEqual({ success: true })
+      expect(prisma.account.delete).toHaveBeenCalledWith({ where: { id: 'acct-1' } })
+    })
+
+    it('only finds accounts owned by the user', async () => {
+      vi.mocked(prisma.account.findFirst).mockResolvedValue(null)
+
+      expect(await unlinkAccount('user-1', 'acct-9')).toMatchObject({
+        success: false,
+        code: 'NOT_FOUND',
+      })
+      expect(prisma.account.findFirst).toHaveBeenCalledWith({
+        where: { id: 'acct-9', userId: 'user-1' },
+        select: { id: true, provider: true },
+      })
+    })
+  })
+})
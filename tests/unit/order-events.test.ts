@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Order Event History Unit Tests
+ *
+ * Tests the admin order history helpers including:
+ * - Field diffing for partial order updates
+ * - Event type classification and change summaries
+ * - Metadata serialization and parsing
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    orderEvent: { create: vi.fn(), findMany: vi.fn() },
+  },
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  classifyOrderChanges,
+  describeOrderChanges,
+  diffOrderFields,
+  getOrderEvents,
+  parseOrderEventMetadata,
+  recordOrderEvent,
+} from '@/lib/order-events'
+
+describe('Order events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('diffOrderFields', () => {
+    it('reports only fields that changed', () => {
+      const changes = diffOrderFields(
+        { shippingStatus: 'processing', trackingNumber: '1Z999', shippingCarrier: 'UPS' },
+        { shippingStatus: 'shipped', trackingNumber: '1Z999', shippingCarrier: undefined }
+      )
+
+      expect(changes).toEqual([{ field: 'shippingStatus', from: 'processing', to: 'shipped' }])
+    })
+
+    it('treats empty strings and null as unset', () => {
+      expect(diffOrderFields({ trackingNumber: null }, { trackingNumber: '' })).toEqual([])
+      expect(diffOrderFields({ trackingNumber: null }, { trackingNumber: 'ABC' })).toEqual([
+        { field: 'trackingNumber', from: null, to: 'ABC' },
+      ])
+    })
+
+    it('compares dates by instant', () => {
+      const before = { estimatedDelivery: new Date('2026-10-25T00:00:00Z') }
+
+      expect(diffOrderFields(before, { estimatedDelivery: new Date('2026-10-25T00:00:00Z') })).toEqual([])
+      expect(diffOrderFields(before, { estimatedDelivery: new Date('2026-10-27T00:00:00Z') })).toEqual([
+        {
+          field: 'estimatedDelivery',
+          from: '2026-10-25T00:00:00.000Z',
+          to: '2026-10-27T00:00:00.000Z',
+        },
+      ])
+    })
+  })
+
+  describe('classifyOrderChanges', () => {
+    it('classifies a transition to shipped', () => {
+      expect(
+        classifyOrderChanges([
+          { field: 'shippingStatus', from: 'processing', to: 'shipped' },
+          { field: 'trackingNumber', from: null, to: '1Z999' },
+        ])
+      ).toBe('shipped')
+    })
+
+    it('classifies other status transitions', () => {
+      expect(
+        classifyOrderChanges([{ field: 'shippingStatus', from: 'shipped', to: 'delivered' }])
+      ).toBe('status_changed')
+    })
+
+    it('falls back to tracking updates', () => {
+      expect(classifyOrderChanges([{ field: 'shippingCarrier', from: 'UPS', to: 'FedEx' }])).toBe(
+        'tracking_updated'
+      )
+    })
+  })
+
+  describe('describeOrderChanges', () => {
+    it('summarizes changes with field labels', () => {
+      expect(
+        describeOrderChanges([
+          { field: 'shippingStatus', from: 'processing', to: 'shipped' },
+          { field: 'trackingNumber', from: null, to: '1Z999' },
+        ])
+      ).toBe('Shipping status: processing → shipped; Tracking number: — → 1Z999')
+    })
+  })
+
+  describe('parseOrderEventMetadata', () => {
+    it('parses JSON objects', () => {
+      expect(parseOrderEventMetadata('{"amount":12.5}')).toEqual({ amount: 12.5 })
+    })
+
+    it('returns null for missing, malformed or non-object metadata', () => {
+      expect(parseOrderEventMetadata(null)).toBeNull()
+      expect(parseOrderEventMetadata('not json')).toBeNull()
+      expect(parseOrderEventMetadata('[1,2]')).toBeNull()
+    })
+  })
+
+  describe('recordOrderEvent', () => {
+    it('stores the actor snapshot and serialized metadata', async () => {
+      vi.mocked(prisma.orderEvent.create).mockResolvedValue({} as never)
+
+      await recordOrderEvent({
+        orderId: 'order-1',
+        type: 'refunded',
+        message: 'Partial refund of $10.00',
+        actor: { userId: 'admin-1', email: 'admin@example.com', name: 'Ada' },
+        metadata: { amount: 10 },
+      })
+
+      expect(prisma.orderEvent.create).toHaveBeenCalledWith({
+        data: {
+          orderId: 'order-1',
+          type: 'refunded',
+          message: 'Partial refund of $10.00',
+          metadata: '{"amount":10}',
+          actorUserId: 'admin-1',
+          actorEmail: 'admin@example.com',
+          actorName: 'Ada',
+        },
+      })
+    })
+
+    it('records system events without an actor', async () => {
+      vi.mocked(prisma.orderEvent.create).mockResolvedValue({} as never)
+
+      await recordOrderEvent({ orderId: 'order-1', type: 'note', message: 'Imported' })
+
+      expect(prisma.orderEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ metadata: null, actorUserId: null, actorEmail: null }),
+      })
+    })
+  })
+
+  describe('getOrderEvents', () => {
+    it('returns newest events first with decoded metadata', async () => {
+      vi.mocked(prisma.orderEvent.findMany).mockResolvedValue([
+        { id: 'e1', metadata: '{"changes":[]}' },
+        { id: 'e2', metadata: null },
+      ] as never)
+
+      const events = await getOrderEvents('order-1')
+
+      expect(prisma.orderEvent.findMany).toHaveBeenCalledWith({
+        where: { orderId: 'order-1' },
+        orderBy: { createdAt: 'desc' },
+      })
+      expect(events.map((event) => event.metadata)).toEqual([{ changes: [] }, null])
+    })
+  })
+})
@@ -0,0 +1,390 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+/**
+ * Product Alert Unit Tests
+ *
+ * Tests the back-in-stock and price-drop alert helpers including:
+ * - Effective price and stock checks
+ * - Subscription de-duplication
+ * - Triggering alerts from stock and price changes
+ * - Delivery, re-arming and unsubscribing
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    product: { findUnique: vi.fn() },
+    productAlert: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/email', () => ({
+  isEmailConfigured: vi.fn(),
+  sendBackInStockEmail: vi.fn(),
+  sendPriceDropEmail: vi.fn(),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+import { prisma } from '@/lib/prisma'
+import { isEmailConfigured, sendBackInStockEmail, sendPriceDropEmail } from '@/lib/email'
+import {
+  PRODUCT_ALERT_CONFIG,
+  createProductAlert,
+  deliverProductAlerts,
+  getEffectivePrice,
+  isAlertTargetInStock,
+  triggerBackInStockAlerts,
+  triggerPriceDropAlerts,
+  unsubscribeProductAlert,
+} from '@/lib/product-alerts'
+
+const soldOutProduct = {
+  id: 'prod-1',
+  price: 20,
+  salePrice: null,
+  inventory: 0,
+  hasVariants: false,
+  variants: [],
+}
+
+describe('Product alerts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.productAlert.update).mockResolvedValue({} as never)
+    vi.mocked(isEmailConfigured).mockReturnValue(true)
+  })
+
+  describe('getEffectivePrice', () => {
+    it('prefers variant prices over product prices, sale prices first', () => {
+      expect(getEffectivePrice({ price: 20, salePrice: 15 }, { price: 25, salePrice: 18 })).toBe(18)
+      expect(getEffectivePrice({ price: 20, salePrice: 15 }, { price: 25, salePrice: null })).toBe(25)
+      expect(getEffectivePrice({ price: 20, salePrice: 15 }, null)).toBe(15)
+      expect(getEffectivePrice({ price: 20, salePrice: null })).toBe(20)
+    })
+  })
+
+  describe('isAlertTargetInStock', () => {
+    const product = {
+      price: 20,
+      salePrice: null,
+      inventory: 0,
+      hasVariants: true,
+      variants: [
+        { id: 'var-1', price: null, salePrice: null, inventory: 0 },
+        { id: 'var-2', price: null, salePrice: null, inventory: 3 },
+      ],
+    }
+
+    it('checks the chosen variant', () => {
+      expect(isAlertTargetInStock(product, 'var-1')).toBe(false)
+      expect(isAlertTargetInStock(product, 'var-2')).toBe(true)
+    })
+
+    it('treats any variant in stock as available for product-level alerts', () => {
+      expect(isAlertTargetInStock(product, null)).toBe(true)
+    })
+  })
+
+  describe('createProductAlert', () => {
+    it('creates a normalized subscription with an unsubscribe token', async () => {
+      vi.mocked(prisma.product.findUnique).mockResolvedValue(soldOutProduct as never)
+      vi.mocked(prisma.productAlert.findFirst).mockResolvedValue(null)
+      vi.mocked(prisma.productAlert.create).mockResolvedValue({ id: 'alert-1' } as never)
+
+      const result = await createProductAlert({
+        type: 'BACK_IN_STOCK',
+        productId: 'prod-1',
+        email: ' Shopper@Example.com ',
+      })
+
+      expect(result).toMatchObject({ success: true, created: true })
+      const data = vi.mocked(prisma.productAlert.create).mock.calls[0][0].data
+      expect(data).toMatchObject({
+        email: 'shopper@example.com',
+        variantId: null,
+        userId: null,
+        priceAtSubscribe: null,
+      })
+      expect(data.unsubscribeToken).toMatch(/^[0-9a-f]{48}$/)
+    })
+
+    it('returns the open alert for repeat sign-ups', async () => {
+      vi.mocked(prisma.product.findUnique).mockResolvedValue(soldOutProduct as never)
+      vi.mocked(prisma.productAlert.findFirst).mockResolvedValue({ id: 'alert-1' } as never)
+
+      const result = await createProductAlert({
+        type: 'BACK_IN_STOCK',
+        productId: 'prod-1',
+        email: 'shopper@example.com',
+      })
+
+      expect(result).toMatchObject({ success: true, created: false, alert: { id: 'alert-1' } })
+      expect(prisma.productAlert.create).not.toHaveBeenCalled()
+    })
+
+    it('treats a concurrent duplicate as an existing subscription', async () => {
+      vi.mocked(prisma.product.findUnique).mockResolvedValue(soldOutProduct as never)
+      vi.mocked(prisma.productAlert.findFirst)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'alert-1' } as never)
+      vi.mocked(prisma.productAlert.create).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      )
+
+      const result = await createProductAlert({
+        type: 'BACK_IN_STOCK',
+        productId: 'prod-1',
+        email: 'shopper@example.com',
+      })
+
+      expect(result).toMatchObject({ success: true, created: false })
+    })
+
+    it('rejects back-in-stock alerts for items in stock', async () => {
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({ ...soldOutProduct, inventory: 4 } as never)
+
+      const result = await createProductAlert({
+        type: 'BACK_IN_STOCK',
+        productId: 'prod-1',
+        email: 'shopper@example.com',
+      })
+
+      expect(result).toEqual({ success: false, error: 'This item is in stock', code: 'IN_STOCK' })
+    })
+
+    it('records the current price for price-drop alerts', async () => {
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({
+        ...soldOutProduct,
+        inventory: 4,
+        hasVariants: true,
+        variants: [{ id: 'var-1', price: 24, salePrice: null, inventory: 2 }],
+      } as never)
+      vi.mocked(prisma.productAlert.findFirst).mockResolvedValue(null)
+      vi.mocked(prisma.productAlert.create).mockResolvedValue({ id: 'alert-2' } as never)
+
+      await createProductAlert({
+        type: 'PRICE_DROP',
+        productId: 'prod-1',
+        variantId: 'var-1',
+        email: 'shopper@example.com',
+        userId: 'user-1',
+      })
+
+      expect(vi.mocked(prisma.productAlert.create).mock.calls[0][0].data).toMatchObject({
+        variantId: 'var-1',
+        userId: 'user-1',
+        priceAtSubscribe: 24,
+      })
+    })
+
+    it('fails for unknown products and variants', async () => {
+      vi.mocked(prisma.product.findUnique).mockResolvedValueOnce(null)
+      expect(
+        await createProductAlert({ type: 'PRICE_DROP', productId: 'missing', email: 'a@example.com' })
+      ).toMatchObject({ success: false, code: 'NOT_FOUND' })
+
+      vi.mocked(prisma.product.findUnique).mockResolvedValueOnce(soldOutProduct as never)
+      expect(
+        await createProductAlert({
+          type: 'PRICE_DROP',
+          productId: 'prod-1',
+          variantId: 'missing',
+          email: 'a@example.com',
+        })
+      ).toMatchObject({ success: false, error: 'Variant not found', code: 'NOT_FOUND' })
+    })
+  })
+
+  describe('triggerBackInStockAlerts', () => {
+    it('triggers variant and product-level alerts on a variant restock', async () => {
+      const now = new Date('2026-10-19T12:00:00Z')
+      vi.mocked(prisma.productAlert.updateMany).mockResolvedValue({ count: 2 })
+
+      const count = await triggerBackInStockAlerts(prisma, { productId: 'prod-1', variantId: 'var-1' }, now)
+
+      expect(count).toBe(2)
+      expect(prisma.productAlert.updateMany).toHaveBeenCalledWith({
+        where: {
+          type: 'BACK_IN_STOCK',
+          productId: 'prod-1',
+          triggeredAt: null,
+          notifiedAt: null,
+          unsubscribedAt: null,
+          OR: [{ variantId: 'var-1' }, { variantId: null }],
+        },
+        data: { triggeredAt: now },
+      })
+    })
+  })
+
+  describe('triggerPriceDropAlerts', () => {
+    it('only triggers alerts whose price has dropped', async () => {
+      const now = new Date('2026-10-19T12:00:00Z')
+      vi.mocked(prisma.productAlert.findMany).mockResolvedValue([
+        { id: 'alert-1', variantId: null, priceAtSubscribe: new Prisma.Decimal(20) },
+        { id: 'alert-2', variantId: null, priceAtSubscribe: new Prisma.Decimal(15) },
+      ] as never)
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({
+        price: 20,
+        salePrice: 15,
+        variants: [],
+      } as never)
+
+      const count = await triggerPriceDropAlerts(prisma, 'prod-1', now)
+
+      expect(count).toBe(1)
+      expect(prisma.productAlert.update).toHaveBeenCalledTimes(1)
+      expect(prisma.productAlert.update).toHaveBeenCalledWith({
+        where: { id: 'alert-1' },
+        data: { triggeredAt: now, triggeredPrice: 15 },
+      })
+    })
+  })
+
+  describe('deliverProductAlerts', () => {
+    const now = new Date('2026-10-19T12:00:00Z')
+    const product = {
+      id: 'prod-1',
+      title: 'Bamboo Brush',
+      image: '/brush.jpg',
+      price: 20,
+      salePrice: null,
+      inventory: 5,
+      hasVariants: false,
+      variants: [],
+    }
+
+    it('emails triggered alerts and marks them notified', async () => {
+      vi.mocked(prisma.productAlert.findMany).mockResolvedValue([
+        {
+          id: 'alert-1',
+          type: 'BACK_IN_STOCK',
+          email: 'a@example.com',
+          variantId: null,
+          priceAtSubscribe: null,
+          unsubscribeToken: 'tok-1',
+          product,
+        },
+      ] as never)
+      vi.mocked(sendBackInStockEmail).mockResolvedValue({ success: true } as never)
+
+      const result = await deliverProductAlerts(now)
+
+      expect(result).toEqual({ alertsProcessed: 1, sent: 1, rearmed: 0, failures: 0 })
+      expect(vi.mocked(sendBackInStockEmail).mock.calls[0][1].unsubscribeUrl).toContain(
+        '/alerts/unsubscribe?token=tok-1'
+      )
+      expect(prisma.productAlert.update).toHaveBeenCalledWith({
+        where: { id: 'alert-1' },
+        data: { notifiedAt: now },
+      })
+    })
+
+    it('re-arms alerts whose condition no longer holds', async () => {
+      vi.mocked(prisma.productAlert.findMany).mockResolvedValue([
+        {
+          id: 'alert-2',
+          type: 'PRICE_DROP',
+          email: 'a@example.com',
+          variantId: null,
+          priceAtSubscribe: new Prisma.Decimal(20),
+          unsubscribeToken: 'tok-2',
+          product,
+        },
+      ] as never)
+
+      const result = await deliverProductAlerts(now)
+
+      expect(result).toEqual({ alertsProcessed: 1, sent: 0, rearmed: 1, failures: 0 })
+      expect(sendPriceDropEmail).not.toHaveBeenCalled()
+      expect(prisma.productAlert.update).toHaveBeenCalledWith({
+        where: { id: 'alert-2' },
+        data: {
+          triggeredAt: null,
+          triggeredPrice: null,
+          deliveryAttempts: 0,
+          lastDeliveryError: null,
+        },
+      })
+    })
+
+    it('leaves failed sends triggered and counts the attempt', async () => {
+      vi.mocked(prisma.productAlert.findMany).mockResolvedValue([
+        {
+          id: 'alert-3',
+          type: 'PRICE_DROP',
+          email: 'a@example.com',
+          variantId: null,
+          priceAtSubscribe: new Prisma.Decimal(25),
+          unsubscribeToken: 'tok-3',
+          deliveryAttempts: 1,
+          product,
+        },
+      ] as never)
+      vi.mocked(sendPriceDropEmail).mockResolvedValue({ success: false, error: 'down' } as never)
+
+      const result = await deliverProductAlerts(now)
+
+      expect(result).toEqual({ alertsProcessed: 1, sent: 0, rearmed: 0, failures: 1 })
+      expect(prisma.productAlert.update).toHaveBeenCalledWith({
+        where: { id: 'alert-3' },
+        data: { deliveryAttempts: 2, lastDeliveryError: 'down' },
+      })
+    })
+
+    it('skips alerts that used up their attempts and puts failing ones last', async () => {
+      vi.mocked(prisma.productAlert.findMany).mockResolvedValue([])
+
+      await deliverProductAlerts(now)
+
+      expect(prisma.productAlert.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            deliveryAttempts: { lt: PRODUCT_ALERT_CONFIG.MAX_DELIVERY_ATTEMPTS },
+          }),
+          orderBy: [{ deliveryAttempts: 'asc' }, { triggeredAt: 'asc' }],
+        })
+      )
+    })
+
+    it('sends nothing while email is not configured', async () => {
+      vi.mocked(isEmailConfigured).mockReturnValue(false)
+
+      const result = await deliverProductAlerts(now)
+
+      expect(result).toEqual({ alertsProcessed: 0, sent: 0, rearmed: 0, failures: 0 })
+      expect(prisma.productAlert.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('unsubscribeProductAlert', () => {
+    it('cancels the alert once and accepts repeat clicks', async () => {
+      vi.mocked(prisma.productAlert.findUnique)
+        .mockResolvedValueOnce({ id: 'alert-1', unsubscribedAt: null } as never)
+        .mockResolvedValueOnce({ id: 'alert-1', unsubscribedAt: new Date() } as never)
+
+      expect(await unsubscribeProductAlert('tok-1')).toBe(true)
+      expect(await unsubscribeProductAlert('tok-1')).toBe(true)
+      expect(prisma.productAlert.update).toHaveBeenCalledTimes(1)
+    })
+
+    it('returns false for unknown tokens', async () => {
+      vi.mocked(prisma.productAlert.findUnique).mockResolvedValue(null)
+
+      expect(await unsubscribeProductAlert('nope')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,306 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Promo Code Unit Tests
+ *
+ * Tests the promo code engine including:
+ * - Code normalization and format validation
+ * - Scope parsing and line eligibility (category/brand/product)
+ * - Start/end window and active checks
+ * - Discount calculation (percent, fixed, free shipping, min subtotal)
+ * - Usage caps (global and per-customer)
+ * - Redemption finalize/reverse idempotency
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    promoCode: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    promoCodeRedemption: {
+      count: vi.fn(),
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+import {
+  normalizePromoCode,
+  isValidPromoCodeFormat,
+  parseScopeList,
+  serializeScopeList,
+  isLineEligibleForPromo,
+  checkPromoCodeWindow,
+  calculatePromoDiscount,
+  evaluatePromoCode,
+  finalizePromoCodeRedemption,
+  reversePromoCodeHold,
+  type PromoCodeRules,
+  type PromoCartLine,
+} from '@/lib/promo-codes'
+
+import { prisma } from '@/lib/prisma'
+
+function buildRules(overrides: Partial<PromoCodeRules> = {}): PromoCodeRules {
+  return {
+    type: 'PERCENT',
+    value: 20,
+    minSubtotal: null,
+    isActive: true,
+    startsAt: null,
+    endsAt: null,
+    categories: [],
+    brandIds: [],
+    productIds: [],
+    ...overrides,
+  }
+}
+
+const lines: PromoCartLine[] = [
+  { productId: 'p1', category: 'Kitchen', brandId: 'b1', price: 20, quantity: 2 },
+  { productId: 'p2', category: 'Bath', brandId: 'b2', price: 10, quantity: 1 },
+]
+
+function buildPromoRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'promo-1',
+    code: 'EARTHDAY20',
+    description: 'Earth Day',
+    type: 'PERCENT',
+    value: 20,
+    minSubtotal: null,
+    usageLimit: null,
+    usageLimitPerCustomer: null,
+    usageCount: 0,
+    startsAt: null,
+    endsAt: null,
+    isActive: true,
+    categories: null,
+    brandIds: null,
+    productIds: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+describe('promo code helpers', () => {
+  it('normalizes codes to trimmed uppercase', () => {
+    expect(normalizePromoCode('  earthday20 ')).toBe('EARTHDAY20')
+  })
+
+  it('validates code format', () => {
+    expect(isValidPromoCodeFormat('EARTHDAY20')).toBe(true)
+    expect(isValidPromoCodeFormat('spring-sale_1')).toBe(true)
+    expect(isValidPromoCodeFormat('AB')).toBe(false)
+    expect(isValidPromoCodeFormat('BAD CODE')).toBe(false)
+  })
+
+  it('parses and serializes scope lists', () => {
+    expect(parseScopeList(null)).toEqual([])
+    expect(parseScopeList('not json')).toEqual([])
+    expect(parseScopeList('["a", 1, "b"]')).toEqual(['a', 'b'])
+    expect(serializeScopeList([])).toBeNull()
+    expect(serializeScopeList(['a'])).toBe('["a"]')
+  })
+})
+
+describe('isLineEligibleForPromo', () => {
+  it('treats unscoped codes as applying to every line', () => {
+    expect(isLineEligibleForPromo(buildRules(), lines[0])).toBe(true)
+  })
+
+  it('matches any configured category, brand or product', () => {
+    expect(isLineEligibleForPromo(buildRules({ categories: ['Kitchen'] }), lines[0])).toBe(true)
+    expect(isLineEligibleForPromo(buildRules({ categories: ['Kitchen'] }), lines[1])).toBe(false)
+    expect(isLineEligibleForPromo(buildRules({ brandIds: ['b2'] }), lines[1])).toBe(true)
+    expect(isLineEligibleForPromo(buildRules({ productIds: ['p2'] }), lines[0])).toBe(false)
+  })
+})
+
+describe('checkPromoCodeWindow', () => {
+  const now = new Date('2026-04-22T12:00:00Z')
+
+  it('rejects inactive codes', () => {
+    expect(checkPromoCodeWindow({ isActive: false, startsAt: null, endsAt: null }, now).valid).toBe(false)
+  })
+
+  it('rejects codes outside their window', () => {
+    expect(
+      checkPromoCodeWindow({ isActive: true, startsAt: new Date('2026-05-01'), endsAt: null }, now).valid
+    ).toBe(false)
+    expect(
+      checkPromoCodeWindow({ isActive: true, startsAt: null, endsAt: new Date('2026-04-01') }, now).valid
+    ).toBe(false)
+  })
+
+  it('accepts codes inside their window', () => {
+    expect(
+      checkPromoCodeWindow(
+        { isActive: true, startsAt: new Date('2026-04-01'), endsAt: new Date('2026-04-30') },
+        now
+      ).valid
+    ).toBe(true)
+  })
+})
+
+describe('calculatePromoDiscount', () => {
+  it('applies percent discounts to the full cart', () => {
+    const result = calculatePromoDiscount(buildRules({ value: 20 }), lines)
+    expect(result.valid).toBe(true)
+    expect(result.subtotal).toBe(50)
+    expect(result.discountAmount).toBe(10)
+  })
+
+  it('applies percent discounts only to eligible lines', () => {
+    const result = calculatePromoDiscount(buildRules({ value: 10, categories: ['Kitchen'] }), lines)
+    expect(result.eligibleSubtotal).toBe(40)
+    expect(result.discountAmount).toBe(4)
+  })
+
+  it('caps fixed discounts at the eligible subtotal', () => {
+    const result = calculatePromoDiscount(
+      buildRules({ type: 'FIXED', value: 25, productIds: ['p2'] }),
+      lines
+    )
+    expect(result.discountAmount).toBe(10)
+  })
+
+  it('returns free shipping with no line discount', () => {
+    const result = calculatePromoDiscount(buildRules({ type: 'FREE_SHIPPING', value: 0 }), lines)
+    expect(result.valid).toBe(true)
+    expect(result.discountAmount).toBe(0)
+    expect(result.freeShipping).toBe(true)
+  })
+
+  it('enforces the minimum subtotal against the whole cart', () => {
+    expect(calculatePromoDiscount(buildRules({ minSubtotal: 60 }), lines).valid).toBe(false)
+    expect(calculatePromoDiscount(buildRules({ minSubtotal: 50 }), lines).valid).toBe(true)
+  })
+
+  it('rejects codes that match no cart lines', () => {
+    const result = calculatePromoDiscount(buildRules({ categories: ['Garden'] }), lines)
+    expect(result.valid).toBe(false)
+    expect(result.reason).toMatch(/does not apply/)
+  })
+})
+
+describe('evaluatePromoCode', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('rejects unknown codes', async () => {
+    vi.mocked(prisma.promoCode.findUnique).mockResolvedValue(null)
+
+    const result = await evaluatePromoCode('NOPE123', { userId: 'user-1', lines })
+    expect(result).toEqual({ valid: false, reason: 'Invalid promo code' })
+  })
+
+  it('rejects codes that reached the global usage limit', async () => {
+    vi.mocked(prisma.promoCode.findUnique).mockResolvedValue(
+      buildPromoRecord({ usageLimit: 5 }) as never
+    )
+    vi.mocked(prisma.promoCodeRedemption.count)
+      .mockResolvedValueOnce(5)
+      .mockResolvedValueOnce(0)
+
+    const result = await evaluatePromoCode('earthday20', { userId: 'user-1', lines })
+    expect(result.valid).toBe(false)
+  })
+
+  it('rejects codes the customer already used up', async () => {
+    vi.mocked(prisma.promoCode.findUnique).mockResolvedValue(
+      buildPromoRecord({ usageLimitPerCustomer: 1 }) as never
+    )
+    vi.mocked(prisma.promoCodeRedemption.count)
+      .mockResolvedValueOnce(3)
+      .mockResolvedValueOnce(1)
+
+    const result = await evaluatePromoCode('EARTHDAY20', {
+      userId: 'user-1',
+      customerEmail: 'Shopper@Example.com',
+      lines,
+    })
+    expect(result).toEqual({ valid: false, reason: 'You have already used this promo code' })
+  })
+
+  it('returns the discount for a valid code', async () => {
+    vi.mocked(prisma.promoCode.findUnique).mockResolvedValue(buildPromoRecord() as never)
+
+    const result = await evaluatePromoCode('EARTHDAY20', { userId: 'user-1', lines })
+    expect(result).toMatchObject({
+      valid: true,
+      promoCodeId: 'promo-1',
+      code: 'EARTHDAY20',
+      discountAmount: 10,
+      freeShipping: false,
+    })
+    expect(prisma.promoCodeRedemption.count).not.toHaveBeenCalled()
+  })
+})
+
+describe('redemption lifecycle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.$transaction).mockImplementation(
+      (async (callback: (tx: typeof prisma) => Promise<unknown>) => callback(prisma)) as never
+    )
+  })
+
+  it('finalizes a pending redemption and increments usage', async () => {
+    vi.mocked(prisma.promoCodeRedemption.findUnique).mockResolvedValue({
+      id: 'red-1',
+      promoCodeId: 'promo-1',
+      status: 'pending',
+    } as never)
+
+    await finalizePromoCodeRedemption('red-1', 'order-1')
+
+    expect(prisma.promoCodeRedemption.update).toHaveBeenCalledWith({
+      where: { id: 'red-1' },
+      data: { status: 'applied', orderId: 'order-1' },
+    })
+    expect(prisma.promoCode.update).toHaveBeenCalledWith({
+      where: { id: 'promo-1' },
+      data: { usageCount: { increment: 1 } },
+    })
+  })
+
+  it('does not double-count an already applied redemption', async () => {
+    vi.mocked(prisma.promoCodeRedemption.findUnique).mockResolvedValue({
+      id: 'red-1',
+      promoCodeId: 'promo-1',
+      status: 'applied',
+    } as never)
+
+    await finalizePromoCodeRedemption('red-1', 'order-1')
+
+    expect(prisma.promoCodeRedemption.update).not.toHaveBeenCalled()
+    expect(prisma.promoCode.update).not.toHaveBeenCalled()
+  })
+
+  it('only deletes pending holds when reversing', async () => {
+    vi.mocked(prisma.promoCodeRedemption.deleteMany).mockResolvedValue({ count: 1 })
+
+    await reversePromoCodeHold('red-1')
+
+    expect(prisma.promoCodeRedemption.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'red-1', status: 'pending' },
+    })
+  })
+})
@@ -0,0 +1,374 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Product Review Unit Tests
+ *
+ * Tests the review lifecycle helpers including:
+ * - Verified-purchase detection on submission
+ * - Moderation decisions and review points on approval
+ * - Product rating aggregates and their backfill
+ * - Merchant replies
+ * - Helpful vote toggling
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    review: { create: vi.fn(), findUnique: vi.fn(), update: vi.fn(), delete: vi.fn(), groupBy: vi.fn() },
+    product: { findMany: vi.fn(), update: vi.fn() },
+    orderItem: { findFirst: vi.fn() },
+    reviewVote: { findUnique: vi.fn(), create: vi.fn(), delete: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/loyalty', () => ({
+  awardReviewPoints: vi.fn(),
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+import { prisma } from '@/lib/prisma'
+import { awardReviewPoints } from '@/lib/loyalty'
+import {
+  backfillProductRatings,
+  deleteReview,
+  getModerationStatus,
+  moderateReview,
+  refreshProductRating,
+  requiresModerationReason,
+  setMerchantReply,
+  submitReview,
+  summarizeRatings,
+  toggleHelpfulVote,
+  withRatingHistogram,
+} from '@/lib/reviews'
+
+const pendingReview = {
+  id: 'review-1',
+  userId: 'user-1',
+  productId: 'prod-1',
+  status: 'PENDING',
+  merchantReply: null,
+}
+
+describe('Reviews', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.$transaction).mockImplementation(((fn: (tx: typeof prisma) => unknown) =>
+      fn(prisma)) as never)
+    vi.mocked(prisma.review.groupBy).mockResolvedValue([] as never)
+    vi.mocked(prisma.product.update).mockResolvedValue({} as never)
+  })
+
+  describe('rating aggregates', () => {
+    it('summarizes per-star counts', () => {
+      expect(
+        summarizeRatings([
+          { rating: 5, count: 3 },
+          { rating: 4, count: 1 },
+          { rating: 1, count: 1 },
+        ])
+      ).toEqual({
+        averageRating: 4,
+        reviewCount: 5,
+        ratingHistogram: { 1: 1, 2: 0, 3: 0, 4: 1, 5: 3 },
+      })
+    })
+
+    it('reports zero for products without reviews and ignores invalid ratings', () => {
+      expect(summarizeRatings([{ rating: 7, count: 2 }])).toEqual({
+        averageRating: 0,
+        reviewCount: 0,
+        ratingHistogram: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+      })
+    })
+
+    it('replaces the raw columns with a histogram object', () => {
+      expect(
+        withRatingHistogram({
+          id: 'prod-1',
+          averageRating: 4.5,
+          reviewCount: 2,
+          ratingCount1: 0,
+          ratingCount2: 0,
+          ratingCount3: 0,
+          ratingCount4: 1,
+          ratingCount5: 1,
+        })
+      ).toEqual({
+        id: 'prod-1',
+        averageRating: 4.5,
+        reviewCount: 2,
+        ratingHistogram: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 1 },
+      })
+    })
+
+    it('recomputes a product from its approved reviews', async () => {
+      vi.mocked(prisma.review.groupBy).mockResolvedValue([
+        { rating: 5, _count: { rating: 1 } },
+        { rating: 2, _count: { rating: 1 } },
+      ] as never)
+
+      await refreshProductRating('prod-1')
+
+      expect(prisma.review.groupBy).toHaveBeenCalledWith({
+        by: ['rating'],
+        where: { productId: 'prod-1', status: 'APPROVED' },
+        _count: { rating: true },
+      })
+      expect(prisma.product.update).toHaveBeenCalledWith({
+        where: { id: 'prod-1' },
+        data: {
+          averageRating: 3.5,
+          reviewCount: 2,
+          ratingCount1: 0,
+          ratingCount2: 1,
+          ratingCount3: 0,
+          ratingCount4: 0,
+          ratingCount5: 1,
+        },
+      })
+    })
+
+    it('backfills only products whose aggregates drifted', async () => {
+      const empty = { averageRating: 0, reviewCount: 0, ratingCount1: 0, ratingCount2: 0, ratingCount3: 0, ratingCount4: 0, ratingCount5: 0 }
+      vi.mocked(prisma.review.groupBy).mockResolvedValue([
+        { productId: 'prod-1', rating: 4, _count: { rating: 2 } },
+      ] as never)
+      vi.mocked(prisma.product.findMany).mockResolvedValue([
+        { id: 'prod-1', ...empty },
+        { id: 'prod-2', ...empty },
+      ] as never)
+
+      const result = await backfillProductRatings()
+
+      expect(result).toEqual({ productsChecked: 2, productsUpdated: 1 })
+      expect(prisma.product.update).toHaveBeenCalledTimes(1)
+      expect(prisma.product.update).toHaveBeenCalledWith({
+        where: { id: 'prod-1' },
+        data: { ...empty, averageRating: 4, reviewCount: 2, ratingCount4: 2 },
+      })
+    })
+
+    it('does not write during a dry run', async () => {
+      vi.mocked(prisma.review.groupBy).mockResolvedValue([
+        { productId: 'prod-1', rating: 5, _count: { rating: 1 } },
+      ] as never)
+      vi.mocked(prisma.product.findMany).mockResolvedValue([
+        { id: 'prod-1', averageRating: 0, reviewCount: 0, ratingCount1: 0, ratingCount2: 0, ratingCount3: 0, ratingCount4: 0, ratingCount5: 0 },
+      ] as never)
+
+      expect(await backfillProductRatings({ dryRun: true })).toEqual({ productsChecked: 1, productsUpdated: 1 })
+      expect(prisma.product.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('moderation rules', () => {
+    it('maps actions to statuses', () => {
+      expect(getModerationStatus('approve')).toBe('APPROVED')
+      expect(getModerationStatus('reject')).toBe('REJECTED')
+      expect(getModerationStatus('flag')).toBe('FLAGGED')
+    })
+
+    it('requires a reason for everything but approval', () => {
+      expect(requiresModerationReason('approve')).toBe(false)
+      expect(requiresModerationReason('reject')).toBe(true)
+      expect(requiresModerationReason('flag')).toBe(true)
+    })
+  })
+
+  describe('submitReview', () => {
+    it('queues the review and marks verified purchases', async () => {
+      vi.mocked(prisma.orderItem.findFirst).mockResolvedValue({ id: 'item-1' } as never)
+      vi.mocked(prisma.review.create).mockResolvedValue({ id: 'review-1' } as never)
+
+      await submitReview({
+        userId: 'user-1',
+        productId: 'prod-1',
+        rating: 5,
+        photoUrls: ['https://a.example/1.jpg', 'https://a.example/2.jpg'],
+      })
+
+      expect(prisma.orderItem.findFirst).toHaveBeenCalledWith({
+        where: {
+          productId: 'prod-1',
+          order: { userId: 'user-1', status: { in: ['paid', 'partially_refunded'] } },
+        },
+        select: { id: true },
+      })
+      expect(prisma.review.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: 'PENDING',
+            verifiedPurchase: true,
+            photos: {
+              create: [
+                { url: 'https://a.example/1.jpg', sortOrder: 0 },
+                { url: 'https://a.example/2.jpg', sortOrder: 1 },
+              ],
+            },
+          }),
+        })
+      )
+    })
+
+    it('does not mark reviews without a paid order as verified', async () => {
+      vi.mocked(prisma.orderItem.findFirst).mockResolvedValue(null)
+      vi.mocked(prisma.review.create).mockResolvedValue({ id: 'review-1' } as never)
+
+      await submitReview({ userId: 'user-1', productId: 'prod-1', rating: 4 })
+
+      expect(prisma.review.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ verifiedPurchase: false, photos: { create: [] } }),
+        })
+      )
+    })
+  })
+
+  describe('moderateReview', () => {
+    it('awards review points on approval', async () => {
+      vi.mocked(prisma.review.findUnique).mockResolvedValue(pendingReview as never)
+      vi.mocked(prisma.review.update).mockResolvedValue({ ...pendingReview, status: 'APPROVED' } as never)
+      vi.mocked(awardReviewPoints).mockResolvedValue(true)
+
+      const result = await moderateReview({ reviewId: 'review-1', action: 'approve', moderatorId: 'admin-1' })
+
+      expect(result).toMatchObject({ success: true, pointsAwarded: true })
+      expect(prisma.review.update).toHaveBeenCalledWith({
+        where: { id: 'review-1' },
+        data: expect.objectContaining({
+          status: 'APPROVED',
+          moderationReason: null,
+          moderatedById: 'admin-1',
+        }),
+      })
+      expect(awardReviewPoints).toHaveBeenCalledWith('user-1', 'review-1')
+      expect(prisma.product.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'prod-1' } })
+      )
+    })
+
+    it('does not award points when rejecting', async () => {
+      vi.mocked(prisma.review.findUnique).mockResolvedValue(pendingReview as never)
+      vi.mocked(prisma.review.update).mockResolvedValue({ ...pendingReview, status: 'REJECTED' } as never)
+
+      const result = await moderateReview({
+        reviewId: 'review-1',
+        action: 'reject',
+        reason: ' Off-topic ',
+        moderatorId: 'admin-1',
+      })
+
+      expect(result).toMatchObject({ success: true, pointsAwarded: false })
+      expect(prisma.review.update).toHaveBeenCalledWith({
+        where: { id: 'review-1' },
+        data: expect.objectContaining({ status: 'REJECTED', moderationReason: 'Off-topic' }),
+      })
+      expect(awardReviewPoints).not.toHaveBeenCalled()
+    })
+
+    it('requires a reason to reject or flag', async () => {
+      const result = await moderateReview({ reviewId: 'review-1', action: 'flag', reason: '  ', moderatorId: 'admin-1' })
+
+      expect(result).toMatchObject({ success: false, code: 'REASON_REQUIRED' })
+      expect(prisma.review.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('rejects missing reviews and no-op transitions', async () => {
+      vi.mocked(prisma.review.findUnique).mockResolvedValueOnce(null)
+      expect(
+        await moderateReview({ reviewId: 'missing', action: 'approve', moderatorId: 'admin-1' })
+      ).toMatchObject({ success: false, code: 'NOT_FOUND' })
+
+      vi.mocked(prisma.review.findUnique).mockResolvedValueOnce({ ...pendingReview, status: 'APPROVED' } as never)
+      expect(
+        await moderateReview({ reviewId: 'review-1', action: 'approve', moderatorId: 'admin-1' })
+      ).toMatchObject({ success: false, code: 'INVALID_STATE' })
+      expect(prisma.review.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deleteReview', () => {
+    it('deletes the review and refreshes the product aggregates', async () => {
+      vi.mocked(prisma.review.findUnique).mockResolvedValue({ ...pendingReview, status: 'APPROVED' } as never)
+
+      const result = await deleteReview('review-1')
+
+      expect(result).toMatchObject({ success: true, before: { id: 'review-1' } })
+      expect(prisma.review.delete).toHaveBeenCalledWith({ where: { id: 'review-1' } })
+      expect(prisma.product.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'prod-1' } })
+      )
+    })
+
+    it('reports missing reviews', async () => {
+      vi.mocked(prisma.review.findUnique).mockResolvedValue(null)
+
+      expect(await deleteReview('missing')).toMatchObject({ success: false, code: 'NOT_FOUND' })
+      expect(prisma.review.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('setMerchantReply', () => {
+    it('stamps new replies and clears empty ones', async () => {
+      vi.mocked(prisma.review.findUnique).mockResolvedValue(pendingReview as never)
+      vi.mocked(prisma.review.update).mockResolvedValue(pendingReview as never)
+
+      await setMerchantReply('review-1', ' Thanks for the feedback! ')
+      expect(prisma.review.update).toHaveBeenLastCalledWith({
+        where: { id: 'review-1' },
+        data: { merchantReply: 'Thanks for the feedback!', merchantReplyAt: expect.any(Date) },
+      })
+
+      await setMerchantReply('review-1', '')
+      expect(prisma.review.update).toHaveBeenLastCalledWith({
+        where: { id: 'review-1' },
+        data: { merchantReply: null, merchantReplyAt: null },
+      })
+    })
+  })
+
+  describe('toggleHelpfulVote', () => {
+    const approvedReview = { id: 'review-1', userId: 'author-1', status: 'APPROVED' }
+
+    it('adds a vote and increments the count', async () => {
+      vi.mocked(prisma.review.findUnique).mockResolvedValue(approvedReview as never)
+      vi.mocked(prisma.reviewVote.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.review.update).mockResolvedValue({ helpfulCount: 3 } as never)
+
+      const result = await toggleHelpfulVote('review-1', 'user-2')
+
+      expect(result).toEqual({ success: true, helpful: true, helpfulCount: 3 })
+      expect(prisma.reviewVote.create).toHaveBeenCalledWith({ data: { reviewId: 'review-1', userId: 'user-2' } })
+      expect(prisma.review.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { helpfulCount: { increment: 1 } } })
+      )
+    })
+
+    it('removes an existing vote and decrements the count', async () => {
+      vi.mocked(prisma.review.findUnique).mockResolvedValue(approvedReview as never)
+      vi.mocked(prisma.reviewVote.findUnique).mockResolvedValue({ id: 'vote-1' } as never)
+      vi.mocked(prisma.review.update).mockResolvedValue({ helpfulCount: 2 } as never)
+
+      const result = await toggleHelpfulVote('review-1', 'user-2')
+
+      expect(result).toEqual({ success: true, helpful: false, helpfulCount: 2 })
+      expect(prisma.reviewVote.delete).toHaveBeenCalledWith({ where: { id: 'vote-1' } })
+      expect(prisma.review.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { helpfulCount: { decrement: 1 } } })
+      )
+    })
+
+    it('rejects votes on unapproved or own reviews', async () => {
+      vi.mocked(prisma.review.findUnique).mockResolvedValueOnce({ ...approvedReview, status: 'PENDING' } as never)
+      expect(await toggleHelpfulVote('review-1', 'user-2')).toMatchObject({ success: false, code: 'NOT_FOUND' })
+
+      vi.mocked(prisma.review.findUnique).mockResolvedValueOnce(approvedReview as never)
+      expect(await toggleHelpfulVote('review-1', 'author-1')).toMatchObject({ success: false, code: 'FORBIDDEN' })
+      expect(prisma.reviewVote.create).not.toHaveBeenCalled()
+    })
+  })
+})
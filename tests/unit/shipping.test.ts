@@ -0,0 +1,296 @@
+import { describe, it, expect, vi } from 'vitest'
+
+/**
+ * Shipping Rate Engine Unit Tests
+ *
+ * Tests the shipping calculation including:
+ * - Zone matching by country/state and priority
+ * - Subtotal- and weight-based rate tiers
+ * - Default rates when no zone matches
+ * - Oversize surcharges
+ * - Loyalty-tier and promo-code free shipping waivers
+ * - Stripe shipping_options conversion
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    shippingZone: { findMany: vi.fn() },
+    user: { findUnique: vi.fn() },
+  },
+}))
+
+import {
+  calculateShippingOptions,
+  findZoneForDestination,
+  isRateApplicable,
+  serializeCodeList,
+  toStripeShippingOptions,
+  type ShippingCartLine,
+  type ShippingRateRules,
+  type ShippingZoneRules,
+} from '@/lib/shipping'
+
+function rate(overrides: Partial<ShippingRateRules> = {}): ShippingRateRules {
+  return {
+    id: 'rate-1',
+    name: 'Ground',
+    speed: 'standard',
+    basis: 'subtotal',
+    minThreshold: 0,
+    maxThreshold: null,
+    price: 8,
+    minDeliveryDays: 4,
+    maxDeliveryDays: 6,
+    sortOrder: 0,
+    ...overrides,
+  }
+}
+
+function zone(overrides: Partial<ShippingZoneRules> = {}): ShippingZoneRules {
+  return {
+    id: 'zone-1',
+    name: 'Continental US',
+    countries: ['US'],
+    states: [],
+    priority: 0,
+    rates: [rate()],
+    ...overrides,
+  }
+}
+
+function line(overrides: Partial<ShippingCartLine> = {}): ShippingCartLine {
+  return {
+    price: 20,
+    quantity: 1,
+    weightGrams: null,
+    oversizeSurcharge: null,
+    ...overrides,
+  }
+}
+
+describe('Shipping', () => {
+  describe('serializeCodeList', () => {
+    it('uppercases and trims codes', () => {
+      expect(serializeCodeList([' us', 'ca '])).toBe('["US","CA"]')
+    })
+
+    it('returns null for empty lists', () => {
+      expect(serializeCodeList([])).toBeNull()
+      expect(serializeCodeList(undefined)).toBeNull()
+    })
+  })
+
+  describe('findZoneForDestination', () => {
+    it('matches on country', () => {
+      const zones = [zone({ id: 'ca', countries: ['CA'] }), zone({ id: 'us' })]
+      expect(findZoneForDestination(zones, { country: 'us' })?.id).toBe('us')
+    })
+
+    it('returns null when no zone covers the country', () => {
+      expect(findZoneForDestination([zone()], { country: 'GB' })).toBeNull()
+    })
+
+    it('requires a matching state for state-scoped zones', () => {
+      const zones = [zone({ id: 'remote', states: ['AK', 'HI'] })]
+      expect(findZoneForDestination(zones, { country: 'US' })).toBeNull()
+      expect(findZoneForDestination(zones, { country: 'US', state: 'ak' })?.id).toBe('remote')
+    })
+
+    it('prefers state-scoped zones at equal priority', () => {
+      const zones = [zone({ id: 'us' }), zone({ id: 'remote', states: ['HI'] })]
+      expect(findZoneForDestination(zones, { country: 'US', state: 'HI' })?.id).toBe('remote')
+    })
+
+    it('prefers higher priority zones', () => {
+      const zones = [zone({ id: 'remote', states: ['HI'] }), zone({ id: 'us', priority: 10 })]
+      expect(findZoneForDestination(zones, { country: 'US', state: 'HI' })?.id).toBe('us')
+    })
+  })
+
+  describe('isRateApplicable', () => {
+    it('uses min inclusive and max exclusive bounds', () => {
+      const tier = { basis: 'subtotal', minThreshold: 25, maxThreshold: 50 }
+      expect(isRateApplicable(tier, 24.99, 0)).toBe(false)
+      expect(isRateApplicable(tier, 25, 0)).toBe(true)
+      expect(isRateApplicable(tier, 50, 0)).toBe(false)
+    })
+
+    it('measures weight tiers against total grams', () => {
+      const tier = { basis: 'weight', minThreshold: 0, maxThreshold: 1000 }
+      expect(isRateApplicable(tier, 500, 999)).toBe(true)
+      expect(isRateApplicable(tier, 5, 1000)).toBe(false)
+    })
+  })
+
+  describe('calculateShippingOptions', () => {
+    it('falls back to default rates when no zone matches', () => {
+      const quote = calculateShippingOptions({
+        zones: [],
+        lines: [line({ price: 30 })],
+        destination: { country: 'US' },
+      })
+
+      expect(quote.zoneId).toBeNull()
+      expect(quote.options.map((o) => [o.name, o.amount])).toEqual([
+        ['Standard Shipping', 5.99],
+        ['Express Shipping', 14.99],
+      ])
+    })
+
+    it('offers default free shipping at $75', () => {
+      const quote = calculateShippingOptions({
+        zones: [],
+        lines: [line({ price: 25, quantity: 3 })],
+        destination: { country: 'US' },
+      })
+
+      expect(quote.options[0]).toMatchObject({ id: 'default-free', amount: 0 })
+      expect(quote.options).toHaveLength(2)
+    })
+
+    it('keeps only the cheapest applicable rate per speed', () => {
+      const quote = calculateShippingOptions({
+        zones: [
+          zone({
+            rates: [
+              rate({ id: 'a', price: 9 }),
+              rate({ id: 'b', price: 6, sortOrder: 1 }),
+              rate({ id: 'c', speed: 'express', price: 20 }),
+            ],
+          }),
+        ],
+        lines: [line()],
+        destination: { country: 'US' },
+      })
+
+      expect(quote.zoneId).toBe('zone-1')
+      expect(quote.options.map((o) => o.id)).toEqual(['b', 'c'])
+    })
+
+    it('selects weight tiers by total cart weight', () => {
+      const zones = [
+        zone({
+          rates: [
+            rate({ id: 'light', basis: 'weight', maxThreshold: 2000, price: 5 }),
+            rate({ id: 'heavy', basis: 'weight', minThreshold: 2000, price: 12 }),
+          ],
+        }),
+      ]
+
+      const light = calculateShippingOptions({
+        zones,
+        lines: [line({ weightGrams: 500, quantity: 2 })],
+        destination: { country: 'US' },
+      })
+      const heavy = calculateShippingOptions({
+        zones,
+        lines: [line({ weightGrams: 500, quantity: 4 })],
+        destination: { country: 'US' },
+      })
+
+      expect(light.totalWeightGrams).toBe(1000)
+      expect(light.options[0].id).toBe('light')
+      expect(heavy.totalWeightGrams).toBe(2000)
+      expect(heavy.options[0].id).toBe('heavy')
+    })
+
+    it('adds oversize surcharges per unit to every option', () => {
+      const quote = calculateShippingOptions({
+        zones: [zone({ rates: [rate({ price: 8 }), rate({ id: 'x', speed: 'express', price: 20 })] })],
+        lines: [line({ oversizeSurcharge: 4.5, quantity: 2 }), line()],
+        destination: { country: 'US' },
+      })
+
+      expect(quote.options.map((o) => o.amount)).toEqual([17, 29])
+      expect(quote.options[0].surcharge).toBe(9)
+    })
+
+    it('waives standard shipping for promo free shipping', () => {
+      const quote = calculateShippingOptions({
+        zones: [],
+        lines: [line({ oversizeSurcharge: 3 })],
+        destination: { country: 'US' },
+        promoFreeShipping: true,
+      })
+
+      expect(quote.options[0]).toMatchObject({
+        name: 'Free Standard Shipping',
+        baseAmount: 0,
+        amount: 3,
+        waivedBy: 'promo_code',
+      })
+      expect(quote.options[1]).toMatchObject({ speed: 'express', waivedBy: null })
+    })
+
+    it('applies loyalty tier free shipping above the tier minimum', () => {
+      const below = calculateShippingOptions({
+        zones: [],
+        lines: [line({ price: 40 })],
+        destination: { country: 'US' },
+        loyaltyTier: 'SPROUT',
+      })
+      const above = calculateShippingOptions({
+        zones: [],
+        lines: [line({ price: 60 })],
+        destination: { country: 'US' },
+        loyaltyTier: 'SPROUT',
+      })
+
+      expect(below.options[0].waivedBy).toBeNull()
+      expect(above.options[0]).toMatchObject({ amount: 0, waivedBy: 'loyalty_tier' })
+    })
+
+    it('waives express shipping for the top tier only', () => {
+      const bloom = calculateShippingOptions({
+        zones: [],
+        lines: [line()],
+        destination: { country: 'US' },
+        loyaltyTier: 'BLOOM',
+      })
+      const flourish = calculateShippingOptions({
+        zones: [],
+        lines: [line()],
+        destination: { country: 'US' },
+        loyaltyTier: 'FLOURISH',
+      })
+
+      expect(bloom.options.map((o) => o.amount)).toEqual([0, 14.99])
+      expect(flourish.options.map((o) => o.amount)).toEqual([0, 0])
+    })
+
+    it('returns no options when no tier applies', () => {
+      const quote = calculateShippingOptions({
+        zones: [zone({ rates: [rate({ maxThreshold: 10 })] })],
+        lines: [line({ price: 20 })],
+        destination: { country: 'US' },
+      })
+
+      expect(quote.options).toEqual([])
+    })
+  })
+
+  describe('toStripeShippingOptions', () => {
+    it('converts options to fixed-amount rates in cents', () => {
+      const [stripeOption] = toStripeShippingOptions([
+        {
+          id: 'rate-1',
+          name: 'Ground',
+          speed: 'standard',
+          amount: 8.99,
+          baseAmount: 8.99,
+          surcharge: 0,
+          minDeliveryDays: 4,
+          maxDeliveryDays: 6,
+          waivedBy: null,
+        },
+      ])
+
+      expect(stripeOption.shipping_rate_data).toMatchObject({
+        type: 'fixed_amount',
+        fixed_amount: { amount: 899, currency: 'usd' },
+        display_name: 'Ground',
+        metadata: { shippingRateId: 'rate-1' },
+      })
+    })
+  })
+})
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type Stripe from 'stripe'
+
+/**
+ * Stripe Webhook Event Store Unit Tests
+ *
+ * Tests recording and replaying webhook events including:
+ * - Storing every event per endpoint and routing it to that endpoint's handler
+ * - Skipping events an earlier delivery already processed
+ * - Recording failures and rethrowing so Stripe retries
+ * - Replay outcomes
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    stripeWebhookEvent: {
+      upsert: vi.fn(),
+      update: vi.fn(),
+      findUnique: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('@/lib/stripe-checkout-webhook', () => ({
+  handleCheckoutWebhookEvent: vi.fn(),
+}))
+
+vi.mock('@/lib/stripe-subscription-webhook', () => ({
+  handleSubscriptionWebhookEvent: vi.fn(),
+}))
+
+import { prisma } from '@/lib/prisma'
+import { handleCheckoutWebhookEvent } from '@/lib/stripe-checkout-webhook'
+import { handleSubscriptionWebhookEvent } from '@/lib/stripe-subscription-webhook'
+import { receiveWebhookEvent, replayWebhookEvent } from '@/lib/stripe-webhook-events'
+
+const event = {
+  id: 'evt_123',
+  type: 'invoice.paid',
+  data: { object: { id: 'in_123' } },
+} as unknown as Stripe.Event
+
+describe('Stripe webhook event store', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.stripeWebhookEvent.update).mockResolvedValue({} as never)
+  })
+
+  describe('receiveWebhookEvent', () => {
+    it('stores a new event and runs the endpoint handler', async () => {
+      vi.mocked(prisma.stripeWebhookEvent.upsert).mockResolvedValue({
+        id: 'stored-1',
+        status: 'RECEIVED',
+      } as never)
+
+      const result = await receiveWebhookEvent('subscriptions', event)
+
+      expect(result).toEqual({ duplicate: false })
+      expect(prisma.stripeWebhookEvent.upsert).toHaveBeenCalledWith({
+        where: { eventId_endpoint: { eventId: 'evt_123', endpoint: 'subscriptions' } },
+        create: {
+          eventId: 'evt_123',
+          endpoint: 'subscriptions',
+          type: 'invoice.paid',
+          payload: JSON.stringify(event),
+        },
+        update: {},
+        select: { id: true, status: true },
+      })
+      expect(handleSubscriptionWebhookEvent).toHaveBeenCalledWith(event)
+      expect(handleCheckoutWebhookEvent).not.toHaveBeenCalled()
+      expect(prisma.stripeWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'stored-1' },
+        data: expect.objectContaining({
+          status: 'PROCESSED',
+          attempts: { increment: 1 },
+          lastError: null,
+          processingMs: expect.any(Number),
+        }),
+      })
+    })
+
+    it('skips events that were already processed', async () => {
+      vi.mocked(prisma.stripeWebhookEvent.upsert).mockResolvedValue({
+        id: 'stored-1',
+        status: 'PROCESSED',
+      } as never)
+
+      const result = await receiveWebhookEvent('checkout', event)
+
+      expect(result).toEqual({ duplicate: true })
+      expect(handleCheckoutWebhookEvent).not.toHaveBeenCalled()
+      expect(prisma.stripeWebhookEvent.update).not.toHaveBeenCalled()
+    })
+
+    it('processes a previously failed event again', async () => {
+      vi.mocked(prisma.stripeWebhookEvent.upsert).mockResolvedValue({
+        id: 'stored-1',
+        status: 'FAILED',
+      } as never)
+
+      await receiveWebhookEvent('checkout', event)
+
+      expect(handleCheckoutWebhookEvent).toHaveBeenCalledWith(event)
+    })
+
+    it('records the failure and rethrows so Stripe retries', async () => {
+      vi.mocked(prisma.stripeWebhookEvent.upsert).mockResolvedValue({
+        id: 'stored-1',
+        status: 'RECEIVED',
+      } as never)
+      vi.mocked(handleCheckoutWebhookEvent).mockRejectedValueOnce(new Error('Database timeout'))
+
+      await expect(receiveWebhookEvent('checkout', event)).rejects.toThrow('Database timeout')
+      expect(prisma.stripeWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'stored-1' },
+        data: {
+          status: 'FAILED',
+          attempts: { increment: 1 },
+          lastError: 'Database timeout',
+          processingMs: expect.any(Number),
+        },
+      })
+    })
+  })
+
+  describe('replayWebhookEvent', () => {
+    it('returns NOT_FOUND for unknown events', async () => {
+      vi.mocked(prisma.stripeWebhookEvent.findUnique).mockResolvedValue(null)
+
+      expect(await replayWebhookEvent('missing')).toMatchObject({
+        success: false,
+        code: 'NOT_FOUND',
+      })
+    })
+
+    it('runs the stored payload through the handler', async () => {
+      vi.mocked(prisma.stripeWebhookEvent.findUnique).mockResolvedValue({
+        id: 'stored-1',
+        eventId: 'evt_123',
+        endpoint: 'checkout',
+        status: 'FAILED',
+        payload: JSON.stringify(event),
+      } as never)
+
+      const result = await replayWebhookEvent('stored-1')
+
+      expect(result).toEqual({ success: true, previousStatus: 'FAILED', status: 'PROCESSED' })
+      expect(handleCheckoutWebhookEvent).toHaveBeenCalledWith(event)
+    })
+
+    it('reports handler failures', async () => {
+      vi.mocked(prisma.stripeWebhookEvent.findUnique).mockResolvedValue({
+        id: 'stored-1',
+        eventId: 'evt_123',
+        endpoint: 'checkout',
+        status: 'FAILED',
+        payload: JSON.stringify(event),
+      } as never)
+      vi.mocked(handleCheckoutWebhookEvent).mockRejectedValueOnce(new Error('Still broken'))
+
+      expect(await replayWebhookEvent('stored-1')).toEqual({
+        success: false,
+        error: 'Still broken',
+        code: 'PROCESSING_FAILED',
+      })
+    })
+  })
+})
@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import Stripe from 'stripe'
+
+/**
+ * Subscription Dunning Unit Tests
+ *
+ * Tests the handling of failed renewal payments including:
+ * - Starting a dunning run and emailing the customer once
+ * - Moving to PAYMENT_FAILED when the grace period ends
+ * - Retrying the invoice on schedule, with reminders after declines
+ * - Cancelling after the final attempt fails
+ */
+
+vi.mock('@/lib/prisma', () => {
+  const prisma = {
+    subscription: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  }
+  prisma.$transaction.mockImplementation(async (fn: (tx: typeof prisma) => unknown) => fn(prisma))
+  return { prisma }
+})
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('@/lib/url', () => ({
+  getBaseUrl: () => 'https://linkflame.test',
+}))
+
+vi.mock('@/lib/jobs', () => ({
+  enqueueJobs: vi.fn(),
+  jobKey: (...parts: string[]) => parts.join(':'),
+}))
+
+const stripeInvoices = { pay: vi.fn() }
+const stripeSubscriptions = { cancel: vi.fn() }
+
+vi.mock('@/lib/stripe-server', () => ({
+  getStripe: () => ({ invoices: stripeInvoices, subscriptions: stripeSubscriptions }),
+}))
+
+import { prisma } from '@/lib/prisma'
+import { enqueueJobs } from '@/lib/jobs'
+import {
+  getDunningSchedule,
+  getUpdatePaymentUrl,
+  recordFailedPayment,
+  runDunning,
+} from '@/lib/subscription-dunning'
+
+const startedAt = new Date('2026-03-01T12:00:00Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function daysAfterStart(days: number) {
+  return new Date(startedAt.getTime() + days * DAY_MS)
+}
+
+function mockDunningSubscription(overrides: Record<string, unknown> = {}) {
+  vi.mocked(prisma.subscription.findMany).mockResolvedValue([
+    {
+      id: 'sub-1',
+      status: 'ACTIVE',
+      stripeSubscriptionId: 'sub_stripe',
+      dunningStartedAt: startedAt,
+      dunningInvoiceId: 'in_1',
+      dunningAttempts: 0,
+      ...overrides,
+    },
+  ] as never)
+}
+
+function cardDeclined() {
+  return new Stripe.errors.StripeCardError({ message: 'Your card was declined.', type: 'card_error' })
+}
+
+describe('Subscription dunning', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.subscription.updateMany).mockResolvedValue({ count: 1 })
+    stripeInvoices.pay.mockResolvedValue({ status: 'paid' })
+  })
+
+  it('schedules retries, the grace period and cancellation from the first failure', () => {
+    expect(getDunningSchedule(startedAt)).toEqual({
+      graceEndsAt: daysAfterStart(3),
+      retryDates: [daysAfterStart(1), daysAfterStart(3), daysAfterStart(7)],
+      cancelsAt: daysAfterStart(7),
+    })
+    expect(getUpdatePaymentUrl('sub-1')).toBe(
+      'https://linkflame.test/account/subscriptions?updateBilling=sub-1'
+    )
+  })
+
+  describe('recordFailedPayment', () => {
+    it('starts dunning and emails the customer', async () => {
+      vi.mocked(prisma.subscription.findUnique).mockResolvedValue({
+        id: 'sub-1',
+        status: 'ACTIVE',
+        dunningStartedAt: null,
+      } as never)
+      vi.mocked(prisma.subscription.update).mockResolvedValue({ paymentFailedCount: 1 } as never)
+
+      await recordFailedPayment('sub_stripe', 'in_1', startedAt)
+
+      expect(prisma.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: {
+          paymentFailedCount: { increment: 1 },
+          paymentFailedAt: startedAt,
+          stripeStatus: 'past_due',
+          dunningStartedAt: startedAt,
+          dunningInvoiceId: 'in_1',
+          dunningAttempts: 0,
+        },
+        select: { paymentFailedCount: true },
+      })
+      expect(enqueueJobs).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            type: 'subscription.paymentFailedEmail',
+            payload: { subscriptionId: 'sub-1', failedAttemptCount: 1 },
+          }),
+        ],
+        prisma
+      )
+    })
+
+    it('only counts later failures while dunning is under way', async () => {
+      vi.mocked(prisma.subscription.findUnique).mockResolvedValue({
+        id: 'sub-1',
+        status: 'ACTIVE',
+        dunningStartedAt: startedAt,
+      } as never)
+      vi.mocked(prisma.subscription.update).mockResolvedValue({ paymentFailedCount: 2 } as never)
+
+      await recordFailedPayment('sub_stripe', 'in_1', daysAfterStart(1))
+
+      expect(prisma.subscription.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            paymentFailedCount: { increment: 1 },
+            paymentFailedAt: daysAfterStart(1),
+            stripeStatus: 'past_due',
+          },
+        })
+      )
+      expect(enqueueJobs).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('runDunning', () => {
+    it('does nothing before the first retry is due', async () => {
+      mockDunningSubscription()
+
+      const result = await runDunning(new Date(startedAt.getTime() + 60 * 60 * 1000))
+
+      expect(result).toEqual({
+        retried: 0,
+        recovered: 0,
+        reminded: 0,
+        movedToPaymentFailed: 0,
+        cancelled: 0,
+        failed: 0,
+      })
+      expect(stripeInvoices.pay).not.toHaveBeenCalled()
+    })
+
+    it('retries the invoice and leaves a paid invoice to the webhook', async () => {
+      mockDunningSubscription()
+
+      const result = await runDunning(daysAfterStart(1))
+
+      expect(prisma.subscription.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sub-1', dunningAttempts: 0 },
+        data: { dunningAttempts: 1 },
+      })
+      expect(stripeInvoices.pay).toHaveBeenCalledWith('in_1')
+      expect(result).toMatchObject({ retried: 1, recovered: 1, reminded: 0 })
+      expect(prisma.subscription.update).not.toHaveBeenCalled()
+    })
+
+    it('sends a reminder when the retry is declined', async () => {
+      mockDunningSubscription()
+      stripeInvoices.pay.mockRejectedValue(cardDeclined())
+
+      const result = await runDunning(daysAfterStart(1))
+
+      expect(result).toMatchObject({ retried: 1, recovered: 0, reminded: 1 })
+      expect(enqueueJobs).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            payload: { subscriptionId: 'sub-1', failedAttemptCount: 2 },
+          }),
+        ],
+        undefined
+      )
+    })
+
+    it('moves to PAYMENT_FAILED when the grace period ends', async () => {
+      mockDunningSubscription({ dunningAttempts: 1 })
+      stripeInvoices.pay.mockRejectedValue(cardDeclined())
+
+      const result = await runDunning(daysAfterStart(3))
+
+      expect(prisma.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { status: 'PAYMENT_FAILED' },
+      })
+      expect(result).toMatchObject({ movedToPaymentFailed: 1, retried: 1, reminded: 1 })
+    })
+
+    it('cancels the subscription when the final attempt fails', async () => {
+      mockDunningSubscription({ status: 'PAYMENT_FAILED', dunningAttempts: 2 })
+      stripeInvoices.pay.mockRejectedValue(cardDeclined())
+
+      const result = await runDunning(daysAfterStart(7))
+
+      expect(stripeSubscriptions.cancel).toHaveBeenCalledWith('sub_stripe')
+      expect(prisma.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: {
+          status: 'CANCELLED',
+          cancelledAt: daysAfterStart(7),
+          stripeStatus: 'canceled',
+          dunningStartedAt: null,
+          dunningInvoiceId: null,
+          dunningAttempts: 0,
+        },
+      })
+      expect(result).toMatchObject({ cancelled: 1, reminded: 0 })
+      expect(enqueueJobs).not.toHaveBeenCalled()
+    })
+
+    it('skips a step already claimed by another run', async () => {
+      mockDunningSubscription()
+      vi.mocked(prisma.subscription.updateMany).mockResolvedValue({ count: 0 })
+
+      const result = await runDunning(daysAfterStart(1))
+
+      expect(stripeInvoices.pay).not.toHaveBeenCalled()
+      expect(result.retried).toBe(0)
+    })
+
+    it('releases the step when Stripe errors for another reason', async () => {
+      mockDunningSubscription()
+      stripeInvoices.pay.mockRejectedValue(new Error('Stripe down'))
+
+      const result = await runDunning(daysAfterStart(1))
+
+      expect(prisma.subscription.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'sub-1', dunningAttempts: 1 },
+        data: { dunningAttempts: 0 },
+      })
+      expect(result).toMatchObject({ retried: 0, failed: 1 })
+    })
+  })
+})
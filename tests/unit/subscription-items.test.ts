@@ -0,0 +1,291 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Subscription Item Editing Unit Tests
+ *
+ * Tests changing the contents of a Subscribe & Save box including:
+ * - Adding items with a new Stripe price and subscription item
+ * - Rolling back a local item when Stripe rejects it
+ * - Quantity changes and variant swaps, archiving replaced prices
+ * - Removing items, but never the last one
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    subscription: {
+      findUnique: vi.fn(),
+    },
+    subscriptionItem: {
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    product: {
+      findUnique: vi.fn(),
+    },
+    productVariant: {
+      findFirst: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+const stripeSubscriptionItems = {
+  create: vi.fn(),
+  update: vi.fn(),
+  del: vi.fn(),
+}
+
+vi.mock('@/lib/stripe-server', () => ({
+  getStripe: () => ({ subscriptionItems: stripeSubscriptionItems }),
+}))
+
+vi.mock('@/lib/stripe-subscription', () => ({
+  archiveStripePrices: vi.fn(),
+  createSubscriptionItemPrice: vi.fn(),
+  getStripeSubscriptionItemIds: vi.fn(),
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  archiveStripePrices,
+  createSubscriptionItemPrice,
+  getStripeSubscriptionItemIds,
+} from '@/lib/stripe-subscription'
+import {
+  addSubscriptionItem,
+  removeSubscriptionItem,
+  updateSubscriptionItem,
+} from '@/lib/subscription-items'
+
+const existingItem = {
+  id: 'item-1',
+  productId: 'product-1',
+  variantId: 'variant-1',
+  quantity: 2,
+  priceAtSubscription: 10,
+  discountPercent: 10,
+  stripePriceId: 'price_old',
+}
+
+function mockSubscription(overrides: Record<string, unknown> = {}) {
+  const subscription = {
+    id: 'sub-1',
+    userId: 'user-1',
+    status: 'ACTIVE',
+    frequency: 'MONTHLY',
+    stripeSubscriptionId: 'sub_stripe',
+    items: [existingItem],
+    ...overrides,
+  }
+
+  // Serves both the editable load and the edited result
+  vi.mocked(prisma.subscription.findUnique).mockResolvedValue(subscription as never)
+}
+
+describe('Subscription item editing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getStripeSubscriptionItemIds).mockResolvedValue(new Map([['item-1', 'si_1']]))
+    vi.mocked(createSubscriptionItemPrice).mockResolvedValue({ id: 'price_new' } as never)
+  })
+
+  describe('addSubscriptionItem', () => {
+    it('rejects subscriptions that cannot be modified', async () => {
+      mockSubscription({ status: 'CANCELLED' })
+
+      const result = await addSubscriptionItem('user-1', 'sub-1', {
+        productId: 'product-2',
+        quantity: 1,
+      })
+
+      expect(result).toMatchObject({ success: false, code: 'NOT_MODIFIABLE' })
+      expect(prisma.subscriptionItem.create).not.toHaveBeenCalled()
+    })
+
+    it('rejects a product/variant already in the box', async () => {
+      mockSubscription()
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({
+        id: 'product-1',
+        title: 'Bamboo Toothbrush',
+        isSubscribable: true,
+        price: 10,
+        salePrice: null,
+        variants: [{ id: 'variant-1', price: null, salePrice: null }],
+      } as never)
+
+      const result = await addSubscriptionItem('user-1', 'sub-1', {
+        productId: 'product-1',
+        variantId: 'variant-1',
+        quantity: 1,
+      })
+
+      expect(result).toMatchObject({ success: false, code: 'DUPLICATE_ITEM' })
+    })
+
+    it('adds the item on Stripe at the discounted price and stores the price', async () => {
+      mockSubscription()
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({
+        id: 'product-2',
+        title: 'Refill Pack',
+        isSubscribable: true,
+        price: 20,
+        salePrice: null,
+        variants: [],
+      } as never)
+      vi.mocked(prisma.subscriptionItem.create).mockResolvedValue({ id: 'item-2' } as never)
+
+      const result = await addSubscriptionItem('user-1', 'sub-1', {
+        productId: 'product-2',
+        quantity: 3,
+      })
+
+      expect(prisma.subscriptionItem.create).toHaveBeenCalledWith({
+        data: {
+          subscriptionId: 'sub-1',
+          productId: 'product-2',
+          variantId: null,
+          quantity: 3,
+          priceAtSubscription: 20,
+          discountPercent: 10,
+        },
+      })
+      expect(createSubscriptionItemPrice).toHaveBeenCalledWith(
+        expect.objectContaining({ subscriptionItemId: 'item-2', unitPrice: 18 })
+      )
+      expect(stripeSubscriptionItems.create).toHaveBeenCalledWith({
+        subscription: 'sub_stripe',
+        price: 'price_new',
+        quantity: 3,
+        proration_behavior: 'none',
+      })
+      expect(prisma.subscriptionItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-2' },
+        data: { stripePriceId: 'price_new' },
+      })
+      expect(result).toMatchObject({
+        success: true,
+        totals: { subtotal: 20, totalDiscount: 2, total: 18 },
+      })
+    })
+
+    it('removes the local item and archives the price when Stripe fails', async () => {
+      mockSubscription()
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({
+        id: 'product-2',
+        title: 'Refill Pack',
+        isSubscribable: true,
+        price: 20,
+        salePrice: null,
+        variants: [],
+      } as never)
+      vi.mocked(prisma.subscriptionItem.create).mockResolvedValue({ id: 'item-2' } as never)
+      stripeSubscriptionItems.create.mockRejectedValueOnce(new Error('Stripe down'))
+
+      await expect(
+        addSubscriptionItem('user-1', 'sub-1', { productId: 'product-2', quantity: 1 })
+      ).rejects.toThrow('Stripe down')
+
+      expect(archiveStripePrices).toHaveBeenCalledWith(['price_new'])
+      expect(prisma.subscriptionItem.delete).toHaveBeenCalledWith({ where: { id: 'item-2' } })
+    })
+  })
+
+  describe('updateSubscriptionItem', () => {
+    it('changes the quantity without creating a price', async () => {
+      mockSubscription()
+
+      const result = await updateSubscriptionItem('user-1', 'sub-1', 'item-1', { quantity: 4 })
+
+      expect(result.success).toBe(true)
+      expect(createSubscriptionItemPrice).not.toHaveBeenCalled()
+      expect(stripeSubscriptionItems.update).toHaveBeenCalledWith('si_1', {
+        quantity: 4,
+        proration_behavior: 'none',
+      })
+      expect(prisma.subscriptionItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { quantity: 4 },
+      })
+      expect(archiveStripePrices).not.toHaveBeenCalled()
+    })
+
+    it('swaps the variant with a new price and archives the old one', async () => {
+      mockSubscription()
+      vi.mocked(prisma.productVariant.findFirst).mockResolvedValue({
+        id: 'variant-2',
+        size: 'Large',
+        color: null,
+        material: null,
+        price: 15,
+        salePrice: null,
+        product: { title: 'Bamboo Toothbrush', price: 10, salePrice: null, isSubscribable: true },
+      } as never)
+
+      await updateSubscriptionItem('user-1', 'sub-1', 'item-1', { variantId: 'variant-2' })
+
+      expect(prisma.productVariant.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'variant-2', productId: 'product-1' } })
+      )
+      expect(createSubscriptionItemPrice).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Bamboo Toothbrush (Large)', unitPrice: 13.5 })
+      )
+      expect(stripeSubscriptionItems.update).toHaveBeenCalledWith('si_1', {
+        price: 'price_new',
+        quantity: 2,
+        proration_behavior: 'none',
+      })
+      expect(prisma.subscriptionItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: {
+          quantity: 2,
+          variantId: 'variant-2',
+          priceAtSubscription: 15,
+          stripePriceId: 'price_new',
+        },
+      })
+      expect(archiveStripePrices).toHaveBeenCalledWith(['price_old'])
+    })
+
+    it('rejects variants of other products', async () => {
+      mockSubscription()
+      vi.mocked(prisma.productVariant.findFirst).mockResolvedValue(null)
+
+      const result = await updateSubscriptionItem('user-1', 'sub-1', 'item-1', {
+        variantId: 'other-variant',
+      })
+
+      expect(result).toMatchObject({ success: false, code: 'NOT_FOUND' })
+      expect(stripeSubscriptionItems.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('removeSubscriptionItem', () => {
+    it('refuses to remove the last item', async () => {
+      mockSubscription()
+
+      const result = await removeSubscriptionItem('user-1', 'sub-1', 'item-1')
+
+      expect(result).toMatchObject({ success: false, code: 'LAST_ITEM' })
+      expect(stripeSubscriptionItems.del).not.toHaveBeenCalled()
+    })
+
+    it('removes the Stripe item and archives its price', async () => {
+      mockSubscription({
+        items: [existingItem, { ...existingItem, id: 'item-2', variantId: 'variant-2' }],
+      })
+
+      const result = await removeSubscriptionItem('user-1', 'sub-1', 'item-1')
+
+      expect(result.success).toBe(true)
+      expect(stripeSubscriptionItems.del).toHaveBeenCalledWith('si_1', {
+        proration_behavior: 'none',
+      })
+      expect(prisma.subscriptionItem.delete).toHaveBeenCalledWith({ where: { id: 'item-1' } })
+      expect(archiveStripePrices).toHaveBeenCalledWith(['price_old'])
+    })
+  })
+})
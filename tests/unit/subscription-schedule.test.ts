@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import Stripe from 'stripe'
+
+/**
+ * Subscription Scheduling Unit Tests
+ *
+ * Tests pausing, scheduled resumes and shipping early including:
+ * - Pausing for a number of delivery cycles, with a matching Stripe resume
+ * - Resuming subscriptions whose resume date has passed
+ * - Closing pauses for subscriptions that were resumed another way
+ * - Billing the current cycle immediately for "ship now"
+ */
+
+vi.mock('@/lib/prisma', () => {
+  const prisma = {
+    subscription: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    subscriptionPause: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  }
+  prisma.$transaction.mockImplementation(async (fn: (tx: typeof prisma) => unknown) => fn(prisma))
+  return { prisma }
+})
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+const stripeSubscriptions = {
+  update: vi.fn(),
+}
+
+vi.mock('@/lib/stripe-server', () => ({
+  getStripe: () => ({ subscriptions: stripeSubscriptions }),
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  addDeliveryCycles,
+  pauseSubscription,
+  resumeDueSubscriptions,
+  shipSubscriptionNow,
+} from '@/lib/subscription-schedule'
+
+const now = new Date('2026-03-01T12:00:00Z')
+const nextDeliveryDate = new Date('2026-03-10T12:00:00Z')
+
+function mockSubscription(overrides: Record<string, unknown> = {}) {
+  vi.mocked(prisma.subscription.findUnique).mockResolvedValue({
+    id: 'sub-1',
+    userId: 'user-1',
+    status: 'ACTIVE',
+    frequency: 'WEEKLY',
+    nextDeliveryDate,
+    stripeSubscriptionId: 'sub_stripe',
+    stripeStatus: 'active',
+    ...overrides,
+  } as never)
+}
+
+describe('Subscription scheduling', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    stripeSubscriptions.update.mockResolvedValue({ status: 'active', current_period_end: null })
+  })
+
+  it('adds whole delivery cycles to a date', () => {
+    expect(addDeliveryCycles('WEEKLY', nextDeliveryDate, 2)).toEqual(
+      new Date('2026-03-24T12:00:00Z')
+    )
+  })
+
+  describe('pauseSubscription', () => {
+    it('pauses for a number of cycles and schedules the resume on Stripe', async () => {
+      mockSubscription()
+
+      const result = await pauseSubscription('user-1', 'sub-1', { cycles: 2 }, now)
+
+      const resumeAt = new Date('2026-03-24T12:00:00Z')
+      expect(result).toEqual({ success: true, resumeAt })
+      expect(stripeSubscriptions.update).toHaveBeenCalledWith('sub_stripe', {
+        pause_collection: {
+          behavior: 'void',
+          resumes_at: Math.floor(resumeAt.getTime() / 1000),
+        },
+      })
+      expect(prisma.subscriptionPause.updateMany).toHaveBeenCalledWith({
+        where: { subscriptionId: 'sub-1', resumedAt: null },
+        data: { resumedAt: now },
+      })
+      expect(prisma.subscriptionPause.create).toHaveBeenCalledWith({
+        data: { subscriptionId: 'sub-1', pausedAt: now, resumeAt, reason: null },
+      })
+      expect(prisma.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { status: 'PAUSED', pausedAt: now, stripeStatus: 'active' },
+      })
+    })
+
+    it('pauses indefinitely without cycles', async () => {
+      mockSubscription()
+
+      const result = await pauseSubscription('user-1', 'sub-1', {}, now)
+
+      expect(result).toEqual({ success: true, resumeAt: null })
+      expect(stripeSubscriptions.update).toHaveBeenCalledWith('sub_stripe', {
+        pause_collection: { behavior: 'void' },
+      })
+    })
+
+    it('only pauses active subscriptions', async () => {
+      mockSubscription({ status: 'PAUSED' })
+
+      const result = await pauseSubscription('user-1', 'sub-1', { cycles: 1 }, now)
+
+      expect(result).toMatchObject({ success: false, code: 'INVALID_STATE' })
+      expect(stripeSubscriptions.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resumeDueSubscriptions', () => {
+    it('resumes paused subscriptions and closes pauses already ended elsewhere', async () => {
+      vi.mocked(prisma.subscriptionPause.findMany).mockResolvedValue([
+        {
+          subscriptionId: 'sub-1',
+          resumeAt: now,
+          subscription: {
+            id: 'sub-1',
+            status: 'PAUSED',
+            frequency: 'WEEKLY',
+            stripeSubscriptionId: 'sub_stripe',
+            stripeStatus: 'active',
+          },
+        },
+        {
+          subscriptionId: 'sub-2',
+          resumeAt: now,
+          subscription: {
+            id: 'sub-2',
+            status: 'ACTIVE',
+            frequency: 'WEEKLY',
+            stripeSubscriptionId: null,
+            stripeStatus: null,
+          },
+        },
+      ] as never)
+      stripeSubscriptions.update.mockResolvedValue({
+        status: 'active',
+        current_period_end: Math.floor(nextDeliveryDate.getTime() / 1000),
+      })
+
+      const result = await resumeDueSubscriptions(now)
+
+      expect(result).toEqual({ resumed: 1, closed: 1, failed: 0 })
+      expect(stripeSubscriptions.update).toHaveBeenCalledTimes(1)
+      expect(stripeSubscriptions.update).toHaveBeenCalledWith('sub_stripe', {
+        pause_collection: null,
+      })
+      expect(prisma.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: {
+          status: 'ACTIVE',
+          pausedAt: null,
+          nextDeliveryDate,
+          stripeStatus: 'active',
+        },
+      })
+      expect(prisma.subscriptionPause.updateMany).toHaveBeenCalledWith({
+        where: { subscriptionId: 'sub-2', resumedAt: null },
+        data: { resumedAt: now },
+      })
+    })
+
+    it('leaves the pause open when Stripe fails so the next run retries', async () => {
+      vi.mocked(prisma.subscriptionPause.findMany).mockResolvedValue([
+        {
+          subscriptionId: 'sub-1',
+          resumeAt: now,
+          subscription: {
+            id: 'sub-1',
+            status: 'PAUSED',
+            frequency: 'WEEKLY',
+            stripeSubscriptionId: 'sub_stripe',
+            stripeStatus: 'active',
+          },
+        },
+      ] as never)
+      stripeSubscriptions.update.mockRejectedValueOnce(new Error('Stripe down'))
+
+      const result = await resumeDueSubscriptions(now)
+
+      expect(result).toEqual({ resumed: 0, closed: 0, failed: 1 })
+      expect(prisma.subscriptionPause.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('shipSubscriptionNow', () => {
+    it('restarts the billing cycle and moves the next delivery', async () => {
+      mockSubscription()
+      const periodEnd = new Date('2026-03-08T12:00:00Z')
+      stripeSubscriptions.update.mockResolvedValue({
+        status: 'active',
+        current_period_end: Math.floor(periodEnd.getTime() / 1000),
+      })
+
+      const result = await shipSubscriptionNow('user-1', 'sub-1', now)
+
+      expect(result).toEqual({ success: true, nextDeliveryDate: periodEnd })
+      expect(stripeSubscriptions.update).toHaveBeenCalledWith('sub_stripe', {
+        billing_cycle_anchor: 'now',
+        proration_behavior: 'none',
+        payment_behavior: 'error_if_incomplete',
+        pause_collection: null,
+      })
+      expect(prisma.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { nextDeliveryDate: periodEnd, skipNextDelivery: false, stripeStatus: 'active' },
+      })
+    })
+
+    it('reports declined payments without changing the schedule', async () => {
+      mockSubscription()
+      stripeSubscriptions.update.mockRejectedValueOnce(
+        new Stripe.errors.StripeCardError({ message: 'Your card was declined.', type: 'card_error' })
+      )
+
+      const result = await shipSubscriptionNow('user-1', 'sub-1', now)
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Your card was declined.',
+        code: 'PAYMENT_FAILED',
+      })
+      expect(prisma.subscription.update).not.toHaveBeenCalled()
+    })
+
+    it('rejects subscriptions owned by someone else', async () => {
+      mockSubscription({ userId: 'other-user' })
+
+      const result = await shipSubscriptionNow('user-1', 'sub-1', now)
+
+      expect(result).toMatchObject({ success: false, code: 'FORBIDDEN' })
+    })
+  })
+})
@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * TerraCycle Unit Tests
+ *
+ * Tests the recycling submission lifecycle including:
+ * - Requesting labels, capped by shipments in progress
+ * - Customers marking shipments as sent
+ * - Admin status transitions and required details
+ * - Processing into the user's stats with a one-time points award
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    terraCycleSubmission: {
+      count: vi.fn(),
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    terraCycleStats: { upsert: vi.fn(), update: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('@/lib/loyalty', () => ({
+  POINT_SOURCES: { RECYCLING: 'RECYCLING' },
+  awardPoints: vi.fn(),
+}))
+
+import { prisma } from '@/lib/prisma'
+import { awardPoints } from '@/lib/loyalty'
+import {
+  advanceTerraCycleSubmission,
+  calculateTerraCycleImpact,
+  calculateTerraCyclePoints,
+  canAdvanceTerraCycleStatus,
+  generateTerraCycleId,
+  markTerraCycleShipped,
+  requestTerraCycleLabel,
+} from '@/lib/terracycle'
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+const received = {
+  id: 'sub-1',
+  visibleId: 'TC-ABC123',
+  userId: 'user-1',
+  status: 'RECEIVED',
+  itemCount: 12,
+  materialsRecycled: null,
+  impactMetrics: null,
+  labelRequestedAt: new Date('2026-10-01T00:00:00Z'),
+}
+
+describe('TerraCycle submissions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: (tx: typeof prisma) => unknown) =>
+      fn(prisma)) as never)
+    vi.mocked(prisma.terraCycleSubmission.findUniqueOrThrow).mockResolvedValue(received as never)
+  })
+
+  it('generates visible IDs like TC-ABC123', () => {
+    expect(generateTerraCycleId()).toMatch(/^TC-[A-Z0-9]{6}$/)
+  })
+
+  it('allows admins only the next step of the lifecycle', () => {
+    expect(canAdvanceTerraCycleStatus('PENDING', 'LABEL_SENT')).toBe(true)
+    expect(canAdvanceTerraCycleStatus('LABEL_SENT', 'RECEIVED')).toBe(true)
+    expect(canAdvanceTerraCycleStatus('SHIPPED', 'RECEIVED')).toBe(true)
+    expect(canAdvanceTerraCycleStatus('RECEIVED', 'PROCESSED')).toBe(true)
+    expect(canAdvanceTerraCycleStatus('PENDING', 'PROCESSED')).toBe(false)
+    expect(canAdvanceTerraCycleStatus('LABEL_SENT', 'SHIPPED')).toBe(false)
+    expect(canAdvanceTerraCycleStatus('PROCESSED', 'RECEIVED')).toBe(false)
+  })
+
+  it('calculates savings and points from the processed weight', () => {
+    expect(
+      calculateTerraCycleImpact(2, [
+        { material: 'PLASTIC', weightKg: 1.5 },
+        { material: 'METAL', weightKg: 0.5 },
+      ])
+    ).toEqual({ plasticSavedKg: 1.5, co2SavedKg: 2.2, waterSavedLiters: 34 })
+    expect(calculateTerraCyclePoints(2)).toBe(100)
+    expect(calculateTerraCyclePoints(0.1)).toBe(25)
+  })
+
+  describe('requestTerraCycleLabel', () => {
+    it('creates a pending submission and counts it in the user stats', async () => {
+      vi.mocked(prisma.terraCycleSubmission.count).mockResolvedValue(1)
+      vi.mocked(prisma.terraCycleSubmission.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.terraCycleSubmission.create).mockResolvedValue({
+        ...received,
+        status: 'PENDING',
+      } as never)
+
+      const result = await requestTerraCycleLabel('user-1', { itemCount: 12 }, now)
+
+      expect(result.success).toBe(true)
+      expect(prisma.terraCycleSubmission.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          status: 'PENDING',
+          itemCount: 12,
+          labelRequestedAt: now,
+        }),
+      })
+      expect(prisma.terraCycleStats.upsert).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        create: { userId: 'user-1', totalSubmissions: 1, lastSubmissionAt: now },
+        update: { totalSubmissions: { increment: 1 }, lastSubmissionAt: now },
+      })
+    })
+
+    it('refuses when too many shipments are in progress', async () => {
+      vi.mocked(prisma.terraCycleSubmission.count).mockResolvedValue(3)
+
+      const result = await requestTerraCycleLabel('user-1', {}, now)
+
+      expect(result).toMatchObject({ success: false, code: 'TOO_MANY_OPEN' })
+      expect(prisma.terraCycleSubmission.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('markTerraCycleShipped', () => {
+    it('marks a shipment with a label as shipped', async () => {
+      vi.mocked(prisma.terraCycleSubmission.findFirst).mockResolvedValue({
+        id: 'sub-1',
+        status: 'LABEL_SENT',
+      } as never)
+      vi.mocked(prisma.terraCycleSubmission.updateMany).mockResolvedValue({ count: 1 })
+
+      const result = await markTerraCycleShipped('user-1', 'sub-1', { trackingNumber: '1Z999' }, now)
+
+      expect(result.success).toBe(true)
+      expect(prisma.terraCycleSubmission.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sub-1', status: 'LABEL_SENT' },
+        data: { status: 'SHIPPED', shippedAt: now, trackingNumber: '1Z999' },
+      })
+    })
+
+    it('rejects other users and shipments without a label', async () => {
+      vi.mocked(prisma.terraCycleSubmission.findFirst).mockResolvedValue(null)
+      expect(await markTerraCycleShipped('user-2', 'sub-1', {}, now)).toMatchObject({
+        code: 'NOT_FOUND',
+      })
+
+      vi.mocked(prisma.terraCycleSubmission.findFirst).mockResolvedValue({
+        id: 'sub-1',
+        status: 'PENDING',
+      } as never)
+      vi.mocked(prisma.terraCycleSubmission.updateMany).mockResolvedValue({ count: 0 })
+      expect(await markTerraCycleShipped('user-1', 'sub-1', {}, now)).toMatchObject({
+        code: 'INVALID_TRANSITION',
+      })
+    })
+  })
+
+  describe('advanceTerraCycleSubmission', () => {
+    it('requires a label URL to send the label and a weight to process', async () => {
+      vi.mocked(prisma.terraCycleSubmission.findUnique).mockResolvedValue({
+        ...received,
+        status: 'PENDING',
+      } as never)
+      expect(await advanceTerraCycleSubmission('sub-1', { status: 'LABEL_SENT' }, now)).toMatchObject({
+        code: 'MISSING_DETAILS',
+      })
+
+      vi.mocked(prisma.terraCycleSubmission.findUnique).mockResolvedValue(received as never)
+      expect(await advanceTerraCycleSubmission('sub-1', { status: 'PROCESSED' }, now)).toMatchObject({
+        code: 'MISSING_DETAILS',
+      })
+      expect(prisma.terraCycleSubmission.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('rejects skipped steps', async () => {
+      vi.mocked(prisma.terraCycleSubmission.findUnique).mockResolvedValue({
+        ...received,
+        status: 'PENDING',
+      } as never)
+
+      const result = await advanceTerraCycleSubmission(
+        'sub-1',
+        { status: 'PROCESSED', weightKg: 2 },
+        now
+      )
+
+      expect(result).toMatchObject({ success: false, code: 'INVALID_TRANSITION' })
+    })
+
+    it('records when a shipment is received', async () => {
+      vi.mocked(prisma.terraCycleSubmission.findUnique).mockResolvedValue({
+        ...received,
+        status: 'SHIPPED',
+      } as never)
+      vi.mocked(prisma.terraCycleSubmission.updateMany).mockResolvedValue({ count: 1 })
+
+      const result = await advanceTerraCycleSubmission('sub-1', { status: 'RECEIVED' }, now)
+
+      expect(result).toMatchObject({ success: true, pointsAwarded: 0 })
+      expect(prisma.terraCycleSubmission.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sub-1', status: 'SHIPPED' },
+        data: { status: 'RECEIVED', receivedAt: now },
+      })
+      expect(awardPoints).not.toHaveBeenCalled()
+    })
+
+    it('processes a shipment into the stats and awards points once', async () => {
+      vi.mocked(prisma.terraCycleSubmission.findUnique).mockResolvedValue(received as never)
+      vi.mocked(prisma.terraCycleSubmission.updateMany).mockResolvedValue({ count: 1 })
+      vi.mocked(awardPoints).mockResolvedValue({
+        success: true,
+        pointsAwarded: 100,
+        newTotal: 100,
+        tierChanged: false,
+      })
+
+      const result = await advanceTerraCycleSubmission(
+        'sub-1',
+        { status: 'PROCESSED', weightKg: 2, materials: [{ material: 'PLASTIC', weightKg: 2 }] },
+        now
+      )
+
+      expect(result).toMatchObject({ success: true, pointsAwarded: 100 })
+      expect(prisma.terraCycleSubmission.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sub-1', status: 'RECEIVED' },
+        data: expect.objectContaining({
+          status: 'PROCESSED',
+          weightKg: 2,
+          itemCount: 12,
+          processedAt: now,
+          materialsRecycled: JSON.stringify([{ material: 'PLASTIC', weightKg: 2 }]),
+        }),
+      })
+      expect(prisma.terraCycleStats.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: {
+            totalItemsRecycled: { increment: 12 },
+            totalWeightKg: { increment: 2 },
+            plasticSavedKg: { increment: 2 },
+            co2SavedKg: { increment: 2.2 },
+            waterSavedLiters: { increment: 34 },
+          },
+        })
+      )
+      expect(prisma.terraCycleSubmission.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sub-1', pointsAwardedAt: null },
+        data: { pointsAwarded: 100, pointsAwardedAt: now },
+      })
+      expect(awardPoints).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', points: 100, source: 'RECYCLING' })
+      )
+      expect(prisma.terraCycleStats.update).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        data: { totalPointsEarned: { increment: 100 } },
+      })
+    })
+
+    it('skips the award when the points were already claimed', async () => {
+      vi.mocked(prisma.terraCycleSubmission.findUnique).mockResolvedValue(received as never)
+      vi.mocked(prisma.terraCycleSubmission.updateMany)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 })
+
+      const result = await advanceTerraCycleSubmission(
+        'sub-1',
+        { status: 'PROCESSED', weightKg: 2 },
+        now
+      )
+
+      expect(result).toMatchObject({ success: true, pointsAwarded: 0 })
+      expect(awardPoints).not.toHaveBeenCalled()
+    })
+
+    it('releases the claim when the points award fails', async () => {
+      vi.mocked(prisma.terraCycleSubmission.findUnique).mockResolvedValue(received as never)
+      vi.mocked(prisma.terraCycleSubmission.updateMany).mockResolvedValue({ count: 1 })
+      vi.mocked(awardPoints).mockResolvedValue({
+        success: false,
+        pointsAwarded: 0,
+        newTotal: 0,
+        tierChanged: false,
+      })
+
+      const result = await advanceTerraCycleSubmission(
+        'sub-1',
+        { status: 'PROCESSED', weightKg: 2 },
+        now
+      )
+
+      expect(result).toMatchObject({ success: true, pointsAwarded: 0 })
+      expect(prisma.terraCycleSubmission.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { pointsAwarded: 0, pointsAwardedAt: null },
+      })
+      expect(prisma.terraCycleStats.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * Two-Factor Authentication Unit Tests
+ *
+ * Tests the TOTP and recovery code helpers including:
+ * - RFC 6238 code generation and the drift window
+ * - Secret encryption at rest
+ * - Enrollment confirmation and recovery code issuance
+ * - Sign-in verification with replay protection and single-use recovery codes
+ * - Disabling 2FA revokes sessions
+ * - The admin/editor enrollment policy
+ */
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    twoFactorRecoveryCode: {
+      count: vi.fn(),
+      createMany: vi.fn(),
+      deleteMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  base32Decode,
+  base32Encode,
+  confirmTwoFactorEnrollment,
+  decryptTwoFactorSecret,
+  disableTwoFactor,
+  encryptTwoFactorSecret,
+  findTotpStep,
+  generateRecoveryCodes,
+  generateTotp,
+  getTimeStep,
+  hashRecoveryCode,
+  meetsTwoFactorPolicy,
+  verifyTwoFactorCode,
+} from '@/lib/two-factor'
+
+// RFC 6238 test secret ("12345678901234567890")
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+const now = new Date('2026-10-19T12:00:00Z')
+
+process.env.AUTH_SECRET = 'test-auth-secret-for-two-factor-unit-tests'
+
+describe('Two-factor authentication', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.$transaction).mockResolvedValue([] as never)
+    vi.mocked(prisma.user.update).mockReturnValue({} as never)
+    vi.mocked(prisma.twoFactorRecoveryCode.deleteMany).mockReturnValue({} as never)
+    vi.mocked(prisma.twoFactorRecoveryCode.createMany).mockReturnValue({} as never)
+  })
+
+  describe('TOTP', () => {
+    it('matches the RFC 6238 SHA-1 test vectors', () => {
+      expect(generateTotp(RFC_SECRET, Math.floor(59 / 30))).toBe('287082')
+      expect(generateTotp(RFC_SECRET, Math.floor(1111111109 / 30))).toBe('081804')
+      expect(generateTotp(RFC_SECRET, Math.floor(1234567890 / 30))).toBe('005924')
+    })
+
+    it('round-trips base32', () => {
+      const bytes = Buffer.from('12345678901234567890')
+      expect(base32Encode(bytes)).toBe(RFC_SECRET)
+      expect(base32Decode(RFC_SECRET).equals(bytes)).toBe(true)
+    })
+
+    it('accepts codes one step either side of now', () => {
+      const step = getTimeStep(now)
+
+      expect(findTotpStep(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), now)).toBe(step - 1)
+      expect(findTotpStep(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), now)).toBe(step + 1)
+      expect(findTotpStep(RFC_SECRET, generateTotp(RFC_SECRET, step - 3), now)).toBeNull()
+      expect(findTotpStep(RFC_SECRET, 'abcdef', now)).toBeNull()
+    })
+  })
+
+  describe('secret storage', () => {
+    it('encrypts the secret and decrypts it back', () => {
+      const encrypted = encryptTwoFactorSecret(RFC_SECRET)
+
+      expect(encrypted).not.toContain(RFC_SECRET)
+      expect(decryptTwoFactorSecret(encrypted)).toBe(RFC_SECRET)
+    })
+  })
+
+  describe('recovery codes', () => {
+    it('generates ten unique codes and hashes them ignoring formatting', () => {
+      const codes = generateRecoveryCodes()
+
+      expect(codes).toHaveLength(10)
+      expect(new Set(codes).size).toBe(10)
+      expect(codes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/)
+      expect(hashRecoveryCode('ABCDE-12345')).toBe(hashRecoveryCode('abcde12345'))
+    })
+  })
+
+  describe('confirmTwoFactorEnrollment', () => {
+    it('requires setup to have started', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+      } as never)
+
+      expect(await confirmTwoFactorEnrollment('user-1', '123456', now)).toMatchObject({
+        success: false,
+        code: 'SETUP_REQUIRED',
+      })
+    })
+
+    it('rejects a wrong code without enabling', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        twoFactorEnabled: false,
+        twoFactorSecret: encryptTwoFactorSecret(RFC_SECRET),
+      } as never)
+
+      const result = await confirmTwoFactorEnrollment('user-1', '000000', now)
+
+      expect(result).toMatchObject({ success: false, code: 'INVALID_CODE' })
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('enables 2FA and stores only hashed recovery codes', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        twoFactorEnabled: false,
+        twoFactorSecret: encryptTwoFactorSecret(RFC_SECRET),
+      } as never)
+      const step = getTimeStep(now)
+
+      const result = await confirmTwoFactorEnrollment('user-1', generateTotp(RFC_SECRET, step), now)
+
+      expect(result.success).toBe(true)
+      if (!result.success) return
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { twoFactorEnabled: true, twoFactorEnabledAt: now, twoFactorLastStep: step },
+      })
+      expect(prisma.twoFactorRecoveryCode.createMany).toHaveBeenCalledWith({
+        data: result.recoveryCodes.map((code) => ({
+          userId: 'user-1',
+          codeHash: hashRecoveryCode(code),
+        })),
+      })
+    })
+  })
+
+  describe('verifyTwoFactorCode', () => {
+    const enrolledUser = (lastStep: number | null) => ({
+      twoFactorEnabled: true,
+      twoFactorSecret: encryptTwoFactorSecret(RFC_SECRET),
+      twoFactorLastStep: lastStep,
+    })
+
+    it('accepts a fresh TOTP code and records its step', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(enrolledUser(null) as never)
+      vi.mocked(prisma.user.updateMany).mockResolvedValue({ count: 1 })
+      const step = getTimeStep(now)
+
+      expect(await verifyTwoFactorCode('user-1', generateTotp(RFC_SECRET, step), now)).toBe(true)
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'user-1',
+          OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+        },
+        data: { twoFactorLastStep: step },
+      })
+    })
+
+    it('rejects a replayed TOTP code', async () => {
+      const step = getTimeStep(now)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(enrolledUser(step) as never)
+
+      expect(await verifyTwoFactorCode('user-1', generateTotp(RFC_SECRET, step), now)).toBe(false)
+      expect(prisma.user.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('burns a recovery code on use', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(enrolledUser(null) as never)
+      vi.mocked(prisma.twoFactorRecoveryCode.updateMany)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 })
+
+      expect(await verifyTwoFactorCode('user-1', 'ABCDE-12345', now)).toBe(true)
+      expect(await verifyTwoFactorCode('user-1', 'ABCDE-12345', now)).toBe(false)
+      expect(prisma.twoFactorRecoveryCode.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', codeHash: hashRecoveryCode('abcde12345'), usedAt: null },
+        data: { usedAt: now },
+      })
+    })
+
+    it('rejects codes for accounts without 2FA', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastStep: null,
+      } as never)
+
+      expect(await verifyTwoFactorCode('user-1', '123456', now)).toBe(false)
+    })
+  })
+
+  describe('disableTwoFactor', () => {
+    it('clears the secret and codes and bumps tokenVersion', async () => {
+      vi.mocked(prisma.user.findUnique)
+        .mockResolvedValueOnce({
+          role: 'USER',
+          twoFactorEnabled: true,
+          twoFactorEnabledAt: now,
+        } as never)
+        .mockResolvedValueOnce({
+          twoFactorEnabled: true,
+          twoFactorSecret: encryptTwoFactorSecret(RFC_SECRET),
+          twoFactorLastStep: null,
+        } as never)
+      vi.mocked(prisma.twoFactorRecoveryCode.count).mockResolvedValue(10)
+      vi.mocked(prisma.user.updateMany).mockResolvedValue({ count: 1 })
+
+      const result = await disableTwoFactor(
+        'user-1',
+        generateTotp(RFC_SECRET, getTimeStep(now)),
+        now
+      )
+
+      expect(result).toEqual({ success: true })
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastStep: null,
+          tokenVersion: { increment: 1 },
+        },
+      })
+      expect(prisma.twoFactorRecoveryCode.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+      })
+    })
+  })
+
+  describe('meetsTwoFactorPolicy', () => {
+    it('requires enrollment for admins and editors only', () => {
+      expect(meetsTwoFactorPolicy({ role: 'ADMIN', twoFactorEnabled: false })).toBe(false)
+      expect(meetsTwoFactorPolicy({ role: 'EDITOR', twoFactorEnabled: false })).toBe(false)
+      expect(meetsTwoFactorPolicy({ role: 'ADMIN', twoFactorEnabled: true })).toBe(true)
+      expect(meetsTwoFactorPolicy({ role: 'USER', twoFactorEnabled: false })).toBe(true)
+    })
+  })
+})
@@ -7,15 +7,34 @@ export interface CartItemVariant {
   material: string | null;
 }
 
+export interface CartItemBundle {
+  selectionId: string;
+  title: string;
+  slug: string;
+  discountPercent: number;
+}
+
+export interface CartItemImperfectBatch {
+  id: string;
+  reason: string;
+  discountPercent: number;
+  available: boolean;    // false once the batch expires, sells out or is switched off
+}
+
 export interface CartItem {
   id: string;            // productId
   cartItemId?: string;   // unique cart item ID for deletion
   title: string;
   price: number;
+  originalPrice?: number; // price before any bundle or imperfect batch discount
   quantity: number;
   image: string;
   variantId?: string | null;
   variant?: CartItemVariant | null;
+  bundleSelectionId?: string | null; // set for lines added as part of a bundle
+  bundle?: CartItemBundle | null;
+  imperfectBatchId?: string | null; // set for lines bought from an imperfect batch
+  imperfectBatch?: CartItemImperfectBatch | null;
 }
 
 export interface Cart {
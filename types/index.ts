@@ -31,8 +31,11 @@ export type { NavItem } from "./nav";
 // Newsletter types
 export type {
   Newsletter,
+  NewsletterStatus,
+  NewsletterTopic,
   NewsletterSubscribeRequest,
   NewsletterSubscribeResponse,
+  NewsletterPreferences,
 } from "./newsletter";
 
 // Order types
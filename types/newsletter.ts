@@ -2,10 +2,19 @@
  * Newsletter subscription type definitions
  */
 
+export type NewsletterStatus = 'PENDING' | 'CONFIRMED' | 'UNSUBSCRIBED';
+
+export type NewsletterTopic = 'DEALS' | 'BLOG_DIGEST' | 'IMPACT_REPORTS';
+
 export interface Newsletter {
   id: string;
   email: string;
+  status: NewsletterStatus;
+  topics: NewsletterTopic[];
+  userId?: string | null;
   subscribedAt: Date | string;
+  confirmedAt?: Date | string | null;
+  unsubscribedAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 }
@@ -15,6 +24,7 @@ export interface Newsletter {
  */
 export interface NewsletterSubscribeRequest {
   email: string;
+  topics?: NewsletterTopic[];
 }
 
 /**
@@ -23,5 +33,15 @@ export interface NewsletterSubscribeRequest {
 export interface NewsletterSubscribeResponse {
   email: string;
   subscriptionId?: string;
+  status?: NewsletterStatus;
   alreadySubscribed?: boolean;
 }
+
+/**
+ * Preferences shown on the manage-subscription page
+ */
+export interface NewsletterPreferences {
+  email: string;
+  status: NewsletterStatus;
+  topics: NewsletterTopic[];
+}